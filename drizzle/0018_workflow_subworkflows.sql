@@ -0,0 +1,6 @@
+-- Sub-workflow invocation: link child runs to the parent run/step that started them
+ALTER TABLE "workflow_runs" ADD COLUMN IF NOT EXISTS "parent_run_id" uuid;
+ALTER TABLE "workflow_runs" ADD COLUMN IF NOT EXISTS "parent_step_id" text;
+ALTER TABLE "workflow_runs" ADD COLUMN IF NOT EXISTS "depth" integer DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "workflow_runs_parent_run_idx" ON "workflow_runs" ("parent_run_id");
@@ -0,0 +1,4 @@
+-- Workflow triggers: link event trigger executions to the workflow run they started
+ALTER TABLE "event_trigger_logs" ADD COLUMN IF NOT EXISTS "workflow_run_id" uuid REFERENCES "workflow_runs"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "event_trigger_logs_workflow_run_idx" ON "event_trigger_logs" ("workflow_run_id");
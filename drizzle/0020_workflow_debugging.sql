@@ -0,0 +1,6 @@
+-- Workflow dry runs and step-mode debugging
+ALTER TABLE "workflow_runs" ADD COLUMN IF NOT EXISTS "dry_run" boolean DEFAULT false NOT NULL;
+ALTER TABLE "workflow_runs" ADD COLUMN IF NOT EXISTS "step_mode" boolean DEFAULT false NOT NULL;
+ALTER TABLE "workflow_runs" ADD COLUMN IF NOT EXISTS "mocks" jsonb;
+ALTER TABLE "workflow_runs" ADD COLUMN IF NOT EXISTS "next_step_id" text;
+ALTER TABLE "workflow_runs" ADD COLUMN IF NOT EXISTS "variables" jsonb;
@@ -0,0 +1,2 @@
+-- Full-text index backing ts_rank hybrid search
+CREATE INDEX IF NOT EXISTS "chunks_content_fts_idx" ON "chunks" USING gin (to_tsvector('english', "content"));
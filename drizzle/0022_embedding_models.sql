@@ -0,0 +1,14 @@
+-- Per-row embedding model and dimension so local (Ollama / LM Studio) models can be used
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "model" text DEFAULT 'openai/text-embedding-3-large' NOT NULL;
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "dimensions" integer DEFAULT 1536 NOT NULL;
+CREATE INDEX IF NOT EXISTS "embeddings_model_idx" ON "embeddings" USING btree ("model", "dimensions");
+
+-- The fixed-size HNSW index blocks dropping the column's dimension
+DROP INDEX IF EXISTS "embedding_idx";
+ALTER TABLE "embeddings" ALTER COLUMN "embedding" TYPE vector;
+
+-- HNSW indexes per common dimension; queries cast to the matching size
+CREATE INDEX IF NOT EXISTS "embedding_1536_idx" ON "embeddings" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE "dimensions" = 1536;
+CREATE INDEX IF NOT EXISTS "embedding_1024_idx" ON "embeddings" USING hnsw (("embedding"::vector(1024)) vector_cosine_ops) WHERE "dimensions" = 1024;
+CREATE INDEX IF NOT EXISTS "embedding_768_idx" ON "embeddings" USING hnsw (("embedding"::vector(768)) vector_cosine_ops) WHERE "dimensions" = 768;
+CREATE INDEX IF NOT EXISTS "embedding_384_idx" ON "embeddings" USING hnsw (("embedding"::vector(384)) vector_cosine_ops) WHERE "dimensions" = 384;
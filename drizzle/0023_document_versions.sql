@@ -0,0 +1,30 @@
+-- Incremental document re-ingestion: versioned chunks with content hashes
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "current_version" integer DEFAULT 1 NOT NULL;
+
+ALTER TABLE "chunks" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1 NOT NULL;
+ALTER TABLE "chunks" ADD COLUMN IF NOT EXISTS "content_hash" text;
+UPDATE "chunks" SET "content_hash" = encode(sha256(convert_to("content", 'UTF8')), 'hex') WHERE "content_hash" IS NULL;
+CREATE INDEX IF NOT EXISTS "chunks_document_version_idx" ON "chunks" USING btree ("document_id", "version", "content_hash");
+
+CREATE TABLE IF NOT EXISTS "document_versions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" uuid NOT NULL REFERENCES "documents"("id") ON DELETE cascade,
+  "version" integer NOT NULL,
+  "filename" text NOT NULL,
+  "mime_type" text NOT NULL,
+  "size" integer NOT NULL,
+  "storage_key" text NOT NULL,
+  "content_hash" text NOT NULL,
+  "chunk_count" integer DEFAULT 0 NOT NULL,
+  "reused_chunks" integer DEFAULT 0 NOT NULL,
+  "added_chunks" integer DEFAULT 0 NOT NULL,
+  "removed_chunks" integer DEFAULT 0 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "document_versions_document_version_unique" UNIQUE ("document_id", "version")
+);
+
+-- Existing documents become version 1 (file hash unknown, so the next upload always creates a version)
+INSERT INTO "document_versions" ("document_id", "version", "filename", "mime_type", "size", "storage_key", "content_hash", "chunk_count", "added_chunks", "created_at")
+SELECT "id", 1, "filename", "mime_type", "size", "storage_key", '', COALESCE("chunk_count", 0), COALESCE("chunk_count", 0), "created_at"
+FROM "documents"
+ON CONFLICT ("document_id", "version") DO NOTHING;
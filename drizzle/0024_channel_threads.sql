@@ -0,0 +1,24 @@
+-- Human handoff: per-thread AI/human/paused state for channel conversations
+CREATE TABLE IF NOT EXISTS "channel_threads" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "channel_account_id" uuid NOT NULL REFERENCES "channel_accounts"("id") ON DELETE cascade,
+  "conversation_id" uuid REFERENCES "conversations"("id") ON DELETE set null,
+  "external_chat_id" text NOT NULL,
+  "external_thread_id" text DEFAULT '' NOT NULL,
+  "sender_external_id" text,
+  "sender_display_name" text,
+  "mode" text DEFAULT 'ai' NOT NULL,
+  "handoff_reason" text,
+  "assigned_user_id" uuid REFERENCES "users"("id") ON DELETE set null,
+  "resume_ai_at" timestamp,
+  "last_inbound_at" timestamp,
+  "last_operator_reply_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "channel_threads_account_chat_thread_unique" UNIQUE ("channel_account_id", "external_chat_id", "external_thread_id")
+);
+CREATE INDEX IF NOT EXISTS "channel_threads_mode_idx" ON "channel_threads" USING btree ("channel_account_id", "mode");
+
+ALTER TABLE "channel_messages" ADD COLUMN IF NOT EXISTS "channel_thread_id" uuid REFERENCES "channel_threads"("id") ON DELETE set null;
+ALTER TABLE "channel_messages" ADD COLUMN IF NOT EXISTS "sent_by_user_id" uuid REFERENCES "users"("id") ON DELETE set null;
+CREATE INDEX IF NOT EXISTS "channel_messages_thread_idx" ON "channel_messages" USING btree ("channel_thread_id");
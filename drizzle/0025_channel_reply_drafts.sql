@@ -0,0 +1,29 @@
+-- Draft-and-approve: AI channel replies held for review before sending
+CREATE TABLE IF NOT EXISTS "channel_reply_drafts" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "channel_account_id" uuid NOT NULL REFERENCES "channel_accounts"("id") ON DELETE cascade,
+  "channel_thread_id" uuid REFERENCES "channel_threads"("id") ON DELETE set null,
+  "conversation_id" uuid REFERENCES "conversations"("id") ON DELETE set null,
+  "external_chat_id" text NOT NULL,
+  "external_thread_id" text,
+  "reply_to_external_id" text,
+  "inbound_content" text,
+  "draft_content" text NOT NULL,
+  "final_content" text,
+  "metadata" jsonb,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "decided_by_user_id" uuid REFERENCES "users"("id") ON DELETE set null,
+  "decided_via" text,
+  "decided_by_external_id" text,
+  "decided_at" timestamp,
+  "error_message" text,
+  "approval_channel_type" text,
+  "approval_chat_id" text,
+  "approval_message_id" text,
+  "sent_external_message_id" text,
+  "sent_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "channel_reply_drafts_user_status_idx" ON "channel_reply_drafts" USING btree ("user_id", "status");
+CREATE INDEX IF NOT EXISTS "channel_reply_drafts_approval_message_idx" ON "channel_reply_drafts" USING btree ("approval_chat_id", "approval_message_id");
@@ -0,0 +1,27 @@
+-- Cross-channel contact identities linking channel senders, email addresses and CRM contacts
+CREATE TABLE IF NOT EXISTS "contact_identities" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "display_name" text,
+  "crm_contact_id" uuid REFERENCES "crm_contacts"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "contact_identities_user_idx" ON "contact_identities" USING btree ("user_id");
+CREATE INDEX IF NOT EXISTS "contact_identities_crm_contact_idx" ON "contact_identities" USING btree ("crm_contact_id");
+
+CREATE TABLE IF NOT EXISTS "contact_identity_links" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "identity_id" uuid NOT NULL REFERENCES "contact_identities"("id") ON DELETE cascade,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "channel_type" text NOT NULL,
+  "external_id" text NOT NULL,
+  "display_name" text,
+  "source" text DEFAULT 'auto' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "contact_identity_links_user_channel_external_unique" UNIQUE("user_id", "channel_type", "external_id")
+);
+CREATE INDEX IF NOT EXISTS "contact_identity_links_identity_idx" ON "contact_identity_links" USING btree ("identity_id");
+
+ALTER TABLE "channel_threads" ADD COLUMN IF NOT EXISTS "contact_identity_id" uuid REFERENCES "contact_identities"("id") ON DELETE set null;
+CREATE INDEX IF NOT EXISTS "channel_threads_identity_idx" ON "channel_threads" USING btree ("contact_identity_id");
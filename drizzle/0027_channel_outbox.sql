@@ -0,0 +1,24 @@
+-- Persistent outbound queue for channel messages with retries and dead-lettering
+CREATE TABLE IF NOT EXISTS "channel_outbox" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "channel_account_id" uuid REFERENCES "channel_accounts"("id") ON DELETE cascade,
+  "channel_type" text NOT NULL,
+  "external_chat_id" text NOT NULL,
+  "content" text NOT NULL,
+  "options" jsonb,
+  "source" text,
+  "delivery" text DEFAULT 'queued' NOT NULL,
+  "status" text DEFAULT 'queued' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "max_attempts" integer DEFAULT 6 NOT NULL,
+  "next_attempt_at" timestamp DEFAULT now() NOT NULL,
+  "last_error" text,
+  "external_message_id" text,
+  "channel_message_id" uuid REFERENCES "channel_messages"("id") ON DELETE set null,
+  "sent_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "channel_outbox_due_idx" ON "channel_outbox" USING btree ("status", "next_attempt_at");
+CREATE INDEX IF NOT EXISTS "channel_outbox_user_status_idx" ON "channel_outbox" USING btree ("user_id", "status");
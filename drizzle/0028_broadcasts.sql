@@ -0,0 +1,55 @@
+-- Broadcasts to CRM contact segments, their recipients, and per-contact opt-outs
+CREATE TABLE IF NOT EXISTS "broadcasts" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "name" text NOT NULL,
+  "template" text NOT NULL,
+  "variables" jsonb,
+  "segment" jsonb NOT NULL,
+  "personalize" boolean DEFAULT false NOT NULL,
+  "personalization_prompt" text,
+  "messages_per_minute" integer DEFAULT 20 NOT NULL,
+  "status" text DEFAULT 'draft' NOT NULL,
+  "scheduled_at" timestamp,
+  "scheduled_task_id" uuid REFERENCES "scheduled_tasks"("id") ON DELETE set null,
+  "started_at" timestamp,
+  "completed_at" timestamp,
+  "error" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "broadcasts_user_status_idx" ON "broadcasts" USING btree ("user_id", "status");
+
+CREATE TABLE IF NOT EXISTS "broadcast_recipients" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "broadcast_id" uuid NOT NULL REFERENCES "broadcasts"("id") ON DELETE cascade,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "crm_contact_id" uuid REFERENCES "crm_contacts"("id") ON DELETE set null,
+  "contact_identity_id" uuid REFERENCES "contact_identities"("id") ON DELETE set null,
+  "contact_name" text,
+  "channel_type" text,
+  "external_chat_id" text,
+  "content" text,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "skip_reason" text,
+  "error" text,
+  "outbox_id" uuid REFERENCES "channel_outbox"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "broadcast_recipients_broadcast_idx" ON "broadcast_recipients" USING btree ("broadcast_id");
+CREATE INDEX IF NOT EXISTS "broadcast_recipients_chat_idx" ON "broadcast_recipients" USING btree ("user_id", "channel_type", "external_chat_id");
+
+CREATE TABLE IF NOT EXISTS "contact_opt_outs" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "crm_contact_id" uuid REFERENCES "crm_contacts"("id") ON DELETE cascade,
+  "contact_identity_id" uuid REFERENCES "contact_identities"("id") ON DELETE set null,
+  "channel_type" text,
+  "external_id" text,
+  "source" text DEFAULT 'keyword' NOT NULL,
+  "broadcast_id" uuid REFERENCES "broadcasts"("id") ON DELETE set null,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "contact_opt_outs_user_contact_idx" ON "contact_opt_outs" USING btree ("user_id", "crm_contact_id");
+CREATE INDEX IF NOT EXISTS "contact_opt_outs_user_sender_idx" ON "contact_opt_outs" USING btree ("user_id", "channel_type", "external_id");
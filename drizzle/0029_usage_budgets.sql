@@ -0,0 +1,18 @@
+ALTER TABLE "usage_records" ADD COLUMN IF NOT EXISTS "feature" text DEFAULT 'chat' NOT NULL;
+ALTER TABLE "usage_records" ADD COLUMN IF NOT EXISTS "source_id" text;
+CREATE INDEX IF NOT EXISTS "usage_user_created_idx" ON "usage_records" USING btree ("user_id", "created_at");
+
+CREATE TABLE IF NOT EXISTS "usage_budgets" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "feature" text DEFAULT 'all' NOT NULL,
+  "set_by" text DEFAULT 'user' NOT NULL,
+  "monthly_limit_cents" integer NOT NULL,
+  "warn_at_percent" integer DEFAULT 80 NOT NULL,
+  "hard_stop" boolean DEFAULT true NOT NULL,
+  "warned_period" text,
+  "exceeded_period" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "usage_budgets_user_feature_unique" UNIQUE("user_id", "feature", "set_by")
+);
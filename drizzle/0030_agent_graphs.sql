@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "agent_graphs" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "name" text NOT NULL,
+  "description" text,
+  "definition" jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "agent_graphs_user_id_idx" ON "agent_graphs" USING btree ("user_id");
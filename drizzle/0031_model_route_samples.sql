@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "model_route_samples" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "conversation_id" uuid REFERENCES "conversations"("id") ON DELETE cascade,
+  "message_id" uuid REFERENCES "messages"("id") ON DELETE cascade,
+  "model" text NOT NULL,
+  "embedding" vector,
+  "embedding_model" text,
+  "dimensions" integer,
+  "latency_ms" integer,
+  "error" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "model_route_samples_model_created_idx" ON "model_route_samples" USING btree ("model", "created_at");
+CREATE INDEX IF NOT EXISTS "model_route_samples_embedding_model_idx" ON "model_route_samples" USING btree ("embedding_model", "dimensions");
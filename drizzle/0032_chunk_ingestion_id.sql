@@ -0,0 +1,3 @@
+-- Chunks remember the upload that created them, so a failed re-upload removes only its own chunks
+ALTER TABLE "chunks" ADD COLUMN IF NOT EXISTS "ingestion_id" uuid REFERENCES "document_versions"("id") ON DELETE cascade;
+CREATE INDEX IF NOT EXISTS "chunks_ingestion_id_idx" ON "chunks" USING btree ("ingestion_id");
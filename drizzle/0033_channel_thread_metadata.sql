@@ -0,0 +1,2 @@
+-- Connector state kept with each channel thread, such as the email subject and References chain
+ALTER TABLE "channel_threads" ADD COLUMN IF NOT EXISTS "metadata" jsonb;
@@ -0,0 +1,8 @@
+-- Similar-prompt search for routing is scoped to the user's own samples
+CREATE INDEX IF NOT EXISTS "model_route_samples_user_idx" ON "model_route_samples" USING btree ("user_id", "embedding_model", "dimensions");
+
+-- HNSW indexes per common dimension, as for embeddings; queries cast to the matching size
+CREATE INDEX IF NOT EXISTS "model_route_samples_embedding_1536_idx" ON "model_route_samples" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE "dimensions" = 1536;
+CREATE INDEX IF NOT EXISTS "model_route_samples_embedding_1024_idx" ON "model_route_samples" USING hnsw (("embedding"::vector(1024)) vector_cosine_ops) WHERE "dimensions" = 1024;
+CREATE INDEX IF NOT EXISTS "model_route_samples_embedding_768_idx" ON "model_route_samples" USING hnsw (("embedding"::vector(768)) vector_cosine_ops) WHERE "dimensions" = 768;
+CREATE INDEX IF NOT EXISTS "model_route_samples_embedding_384_idx" ON "model_route_samples" USING hnsw (("embedding"::vector(384)) vector_cosine_ops) WHERE "dimensions" = 384;
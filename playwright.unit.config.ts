@@ -0,0 +1,15 @@
+import { defineConfig } from "@playwright/test";
+
+/**
+ * Unit tests for server-side logic. They import modules directly and need
+ * neither a browser nor the dev server.
+ */
+export default defineConfig({
+  testDir: "./tests/unit",
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  workers: process.env.CI ? 1 : undefined,
+  reporter: "list",
+  outputDir: "test-results/unit",
+  timeout: 10 * 1000,
+});
@@ -38,6 +38,8 @@ import {
   Send,
   Users,
   Link2,
+  Hash,
+  Mail,
   Unplug,
   Activity,
   Play,
@@ -151,8 +153,25 @@ const CHANNEL_TYPES: ChannelType[] = [
     description: 'Connect to Matrix/Element for decentralized chat',
     color: 'text-green-500',
     gradient: 'from-green-500 to-green-600',
-    available: false,
-    comingSoon: true,
+    available: true,
+  },
+  {
+    id: 'irc',
+    name: 'IRC',
+    icon: 'Hash',
+    description: 'Join IRC channels on any network',
+    color: 'text-slate-500',
+    gradient: 'from-slate-500 to-slate-600',
+    available: true,
+  },
+  {
+    id: 'email',
+    name: 'Email',
+    icon: 'Mail',
+    description: 'Answer a mailbox over IMAP and SMTP',
+    color: 'text-amber-500',
+    gradient: 'from-amber-500 to-amber-600',
+    available: true,
   },
 ];
 
@@ -165,6 +184,8 @@ function ChannelIcon({ icon, className }: { icon: string; className?: string })
     Send: <Send className={className} />,
     Globe: <Globe className={className} />,
     Link2: <Link2 className={className} />,
+    Hash: <Hash className={className} />,
+    Mail: <Mail className={className} />,
     Users: <Users className={className} />,
     MessageSquare: <MessageSquare className={className} />,
     Zap: <Zap className={className} />,
@@ -77,6 +77,7 @@ export default async function ConversationPage({ params }: { params: Promise<{ c
                 id: msg.id,
                 role: msg.role as "user" | "assistant",
                 parts,
+                metadata: metadata ?? undefined,
             };
         });
 
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -49,6 +49,7 @@ import {
     Sparkles,
     Database,
     FolderPlus,
+    History,
 } from "lucide-react";
 import { toast } from "sonner";
 import { FileUpload } from "@/components/documents/FileUpload";
@@ -63,6 +64,7 @@ interface Document {
     size: number;
     status: "uploaded" | "processing" | "processed" | "failed";
     chunkCount?: number;
+    currentVersion?: number;
     metadata?: Record<string, unknown>;
     createdAt: string;
     updatedAt: string;
@@ -136,6 +138,8 @@ export default function DocumentsPage() {
     const [addToStoreDocId, setAddToStoreDocId] = useState<string | null>(null);
     const [addToStoreIds, setAddToStoreIds] = useState<string[]>([]);
     const [addingToStore, setAddingToStore] = useState(false);
+    const versionInputRef = useRef<HTMLInputElement>(null);
+    const versionTargetRef = useRef<string | null>(null);
 
     useEffect(() => {
         fetchDocuments();
@@ -172,6 +176,39 @@ export default function DocumentsPage() {
         }
     };
 
+    const handleUploadVersion = async (documentId: string, file: File) => {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("documentId", documentId);
+
+        const toastId = toast.loading(`Uploading new version of ${file.name}...`);
+        try {
+            const response = await fetch("/api/documents/upload", {
+                method: "POST",
+                body: formData,
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to upload new version");
+            }
+
+            if (data.unchanged) {
+                toast.info("File is unchanged", { id: toastId, description: "No new version was created." });
+            } else if (data.document?.status === "failed") {
+                toast.error(data.document.error || "Processing failed", { id: toastId });
+            } else {
+                toast.success(`Version ${data.document.version} processed`, {
+                    id: toastId,
+                    description: `${data.document.addedChunks} new or changed chunks, ${data.document.reusedChunks} unchanged, ${data.document.removedChunks} removed.`,
+                });
+            }
+            fetchDocuments();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Version upload failed", { id: toastId });
+        }
+    };
+
     const handleUploadComplete = () => {
         setIsUploadOpen(false);
         fetchDocuments();
@@ -273,6 +310,19 @@ export default function DocumentsPage() {
 
     return (
         <div className="container max-w-6xl mx-auto py-8 px-4 space-y-8">
+            <input
+                ref={versionInputRef}
+                type="file"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    const documentId = versionTargetRef.current;
+                    e.target.value = "";
+                    if (file && documentId) {
+                        handleUploadVersion(documentId, file);
+                    }
+                }}
+            />
             <div className="flex items-center justify-between">
                 <div>
                     <h1 className="text-3xl font-bold tracking-tight">Documents</h1>
@@ -394,6 +444,15 @@ export default function DocumentsPage() {
                                                                 Remove Legacy Gemini File
                                                             </DropdownMenuItem>
                                                         )}
+                                                        <DropdownMenuItem
+                                                            onClick={() => {
+                                                                versionTargetRef.current = doc.id;
+                                                                versionInputRef.current?.click();
+                                                            }}
+                                                        >
+                                                            <History className="mr-2 h-4 w-4" />
+                                                            Upload New Version
+                                                        </DropdownMenuItem>
                                                         <DropdownMenuItem>
                                                             <Eye className="mr-2 h-4 w-4" />
                                                             View Details
@@ -436,6 +495,7 @@ export default function DocumentsPage() {
                                                 {getStatusBadge(doc.status)}
                                                 {doc.chunkCount !== undefined && doc.chunkCount > 0 && (
                                                     <span className="text-xs text-muted-foreground">
+                                                        {doc.currentVersion && doc.currentVersion > 1 && `v${doc.currentVersion} · `}
                                                         {doc.chunkCount} chunks
                                                     </span>
                                                 )}
@@ -52,6 +52,8 @@ interface EventTrigger {
         notifyMethod?: "message" | "email";
         emailTo?: string;
         emailSubject?: string;
+        workflowId?: string;
+        workflowInput?: Record<string, unknown>;
     } | null;
     isEnabled?: boolean | null;
     maxTriggersPerHour?: number | null;
@@ -68,6 +70,13 @@ interface TriggerLog {
     durationMs?: number | null;
     error?: string | null;
     output?: string | null;
+    workflowRunId?: string | null;
+}
+
+interface WorkflowOption {
+    id: string;
+    name: string;
+    status: string;
 }
 
 function formatDate(value?: string | null) {
@@ -101,6 +110,7 @@ export default function EventTriggersPage() {
     const [loadingLogs, setLoadingLogs] = useState<Set<string>>(new Set());
     const [editTrigger, setEditTrigger] = useState<EventTrigger | null>(null);
     const [isSaving, setIsSaving] = useState(false);
+    const [workflowOptions, setWorkflowOptions] = useState<WorkflowOption[]>([]);
     const [editForm, setEditForm] = useState({
         name: "",
         description: "",
@@ -123,6 +133,7 @@ export default function EventTriggersPage() {
         notifyMethod: "message" as "message" | "email",
         emailTo: "",
         emailSubject: "",
+        workflowId: "",
         isEnabled: true,
         maxTriggersPerHour: 60,
         cooldownSeconds: 0,
@@ -146,8 +157,23 @@ export default function EventTriggersPage() {
         }
     };
 
+    const fetchWorkflows = async () => {
+        try {
+            const response = await fetch("/api/workflows", {
+                credentials: "include",
+            });
+            const data = await response.json();
+            if (response.ok) {
+                setWorkflowOptions(data.workflows || []);
+            }
+        } catch {
+            // Workflow picker stays empty; other action types still work
+        }
+    };
+
     useEffect(() => {
         fetchTriggers();
+        fetchWorkflows();
     }, []);
 
     const handleCreate = async () => {
@@ -155,6 +181,10 @@ export default function EventTriggersPage() {
             toast.error("Please enter a trigger name");
             return;
         }
+        if (form.actionType === "workflow" && !form.workflowId) {
+            toast.error("Please select a workflow");
+            return;
+        }
 
         try {
             setIsCreating(true);
@@ -177,6 +207,9 @@ export default function EventTriggersPage() {
                                 emailSubject: form.emailSubject || undefined,
                             }),
                         }),
+                        ...(form.actionType === "workflow" && {
+                            workflowId: form.workflowId,
+                        }),
                     },
                     isEnabled: form.isEnabled,
                     maxTriggersPerHour: form.maxTriggersPerHour,
@@ -199,6 +232,7 @@ export default function EventTriggersPage() {
                 notifyMethod: "message",
                 emailTo: "",
                 emailSubject: "",
+                workflowId: "",
                 isEnabled: true,
                 maxTriggersPerHour: 60,
                 cooldownSeconds: 0,
@@ -473,10 +507,33 @@ export default function EventTriggersPage() {
                                     <SelectItem value="agent_turn">Run AI Agent</SelectItem>
                                     <SelectItem value="notify">Send Notification</SelectItem>
                                     <SelectItem value="skill">Execute Skill</SelectItem>
+                                    <SelectItem value="workflow">Run Workflow</SelectItem>
                                 </SelectContent>
                             </Select>
                         </div>
-                        {form.actionType === "notify" ? (
+                        {form.actionType === "workflow" ? (
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Workflow</label>
+                                <Select
+                                    value={form.workflowId}
+                                    onValueChange={(value) => setForm((prev) => ({ ...prev, workflowId: value }))}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder={workflowOptions.length === 0 ? "No workflows yet" : "Select a workflow"} />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {workflowOptions.map((workflow) => (
+                                            <SelectItem key={workflow.id} value={workflow.id}>
+                                                {workflow.name}{workflow.status !== "active" ? ` (${workflow.status})` : ""}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <p className="text-xs text-muted-foreground">
+                                    Only active workflows run. Steps can read the event as {"$trigger.payload"}
+                                </p>
+                            </div>
+                        ) : form.actionType === "notify" ? (
                             <div className="space-y-2">
                                 <label className="text-sm font-medium">Notify Method</label>
                                 <Select
@@ -541,18 +598,20 @@ export default function EventTriggersPage() {
                         </div>
                     )}
 
-                    <div className="space-y-2">
-                        <label className="text-sm font-medium">Action Message / Prompt</label>
-                        <Textarea
-                            value={form.actionMessage}
-                            onChange={(e) => setForm((prev) => ({ ...prev, actionMessage: e.target.value }))}
-                            placeholder="Process this webhook event and summarize any important changes: {{payload}}"
-                            rows={3}
-                        />
-                        <p className="text-xs text-muted-foreground">
-                            Use {"{{payload}}"} to include the event data in your message
-                        </p>
-                    </div>
+                    {form.actionType !== "workflow" && (
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Action Message / Prompt</label>
+                            <Textarea
+                                value={form.actionMessage}
+                                onChange={(e) => setForm((prev) => ({ ...prev, actionMessage: e.target.value }))}
+                                placeholder="Process this webhook event and summarize any important changes: {{payload}}"
+                                rows={3}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Use {"{{payload}}"} to include the event data in your message
+                            </p>
+                        </div>
+                    )}
 
                     <div className="grid gap-4 md:grid-cols-3">
                         <div className="space-y-2">
@@ -774,6 +833,11 @@ export default function EventTriggersPage() {
                                                                     </td>
                                                                     <td className="px-3 py-1.5 truncate max-w-[200px]">
                                                                         {log.error || log.output || "-"}
+                                                                        {log.workflowRunId && (
+                                                                            <span className="ml-1 text-muted-foreground">
+                                                                                (run {log.workflowRunId.slice(0, 8)})
+                                                                            </span>
+                                                                        )}
                                                                     </td>
                                                                 </tr>
                                                             ))}
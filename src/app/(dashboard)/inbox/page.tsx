@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -21,6 +22,14 @@ import {
   ChevronDown,
   X,
   Zap,
+  UserRound,
+  Pause,
+  Bot,
+  Reply,
+  Send,
+  FileCheck,
+  Check,
+  AlertCircle,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -50,6 +59,25 @@ interface ChannelMessage {
   conversationId?: string;
   threadId?: string;
   attachments?: Array<{ type: string; name: string }>;
+  direction?: 'inbound' | 'outbound';
+  sentByOperator?: boolean;
+  deliveryStatus?: string | null;
+  errorMessage?: string | null;
+  channelThreadId?: string | null;
+  threadMode?: ThreadMode;
+}
+
+type ThreadMode = 'ai' | 'human' | 'paused';
+
+interface ReplyDraft {
+  id: string;
+  channelType: string;
+  channelName?: string;
+  inboundContent?: string | null;
+  draftContent: string;
+  status: string;
+  errorMessage?: string | null;
+  createdAt: string;
 }
 
 interface ChannelStats {
@@ -98,6 +126,18 @@ const CHANNEL_CONFIG: Record<
     gradient: 'from-green-500/20 to-green-600/10',
     name: 'Matrix',
   },
+  irc: {
+    icon: '#️⃣',
+    color: 'text-slate-500',
+    gradient: 'from-slate-500/20 to-slate-600/10',
+    name: 'IRC',
+  },
+  email: {
+    icon: '📧',
+    color: 'text-amber-500',
+    gradient: 'from-amber-500/20 to-amber-600/10',
+    name: 'Email',
+  },
   webchat: {
     icon: '🌐',
     color: 'text-gray-500',
@@ -111,6 +151,23 @@ const CHANNEL_CONFIG: Record<
 // ============================================================================
 
 export default function UnifiedInboxPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      }
+    >
+      <UnifiedInbox />
+    </Suspense>
+  );
+}
+
+function UnifiedInbox() {
+  const searchParams = useSearchParams();
+  const focusedThreadId = searchParams.get('thread');
+  const focusedDraftId = searchParams.get('draft');
   const [messages, setMessages] = useState<ChannelMessage[]>([]);
   const [stats, setStats] = useState<ChannelStats[]>([]);
   const [loading, setLoading] = useState(true);
@@ -119,6 +176,8 @@ export default function UnifiedInboxPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
   const [selectedMessages, setSelectedMessages] = useState<Set<string>>(new Set());
+  const [modeFilter, setModeFilter] = useState<ThreadMode | null>(null);
+  const [drafts, setDrafts] = useState<ReplyDraft[]>([]);
 
   const fetchMessages = useCallback(
     async (showLoader = true) => {
@@ -129,6 +188,7 @@ export default function UnifiedInboxPage() {
         const params = new URLSearchParams();
         if (filter) params.set('channel', filter);
         if (searchQuery) params.set('search', searchQuery);
+        if (modeFilter) params.set('mode', modeFilter);
 
         const response = await fetch(`/api/inbox?${params}`);
         if (!response.ok) throw new Error('Failed to fetch messages');
@@ -136,6 +196,12 @@ export default function UnifiedInboxPage() {
         const data = await response.json();
         setMessages(data.messages || []);
         setStats(data.stats || []);
+
+        const draftsResponse = await fetch('/api/inbox/drafts');
+        if (draftsResponse.ok) {
+          const draftsData = await draftsResponse.json();
+          setDrafts(draftsData.drafts || []);
+        }
       } catch (error) {
         console.error('Fetch inbox error:', error);
         // Use mock data for demo
@@ -146,7 +212,7 @@ export default function UnifiedInboxPage() {
         setRefreshing(false);
       }
     },
-    [filter, searchQuery]
+    [filter, searchQuery, modeFilter]
   );
 
   useEffect(() => {
@@ -176,7 +242,85 @@ export default function UnifiedInboxPage() {
     }
   };
 
+  const handleSetMode = async (threadId: string, mode: ThreadMode) => {
+    try {
+      const response = await fetch(`/api/inbox/threads/${threadId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode }),
+      });
+      if (!response.ok) throw new Error('Failed to update thread');
+
+      setMessages((prev) =>
+        prev.map((m) => (m.channelThreadId === threadId ? { ...m, threadMode: mode } : m))
+      );
+      toast.success(
+        mode === 'human'
+          ? 'You have taken over this conversation'
+          : mode === 'paused'
+            ? 'AI replies paused'
+            : 'Conversation handed back to the AI'
+      );
+    } catch {
+      toast.error('Failed to update conversation mode');
+    }
+  };
+
+  const handleReply = async (threadId: string, content: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/inbox/threads/${threadId}/reply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to send reply');
+
+      // Replying keeps the thread with the operator
+      setMessages((prev) =>
+        prev.map((m) => (m.channelThreadId === threadId ? { ...m, threadMode: 'human' } : m))
+      );
+      toast.success('Reply sent');
+      void fetchMessages(false);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send reply');
+      return false;
+    }
+  };
+
+  const handleDraftDecision = async (
+    draftId: string,
+    action: 'approve' | 'reject',
+    content?: string
+  ): Promise<void> => {
+    try {
+      const response = await fetch(`/api/inbox/drafts/${draftId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'approve' ? { action, content } : { action }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        // A failed send keeps the draft so it can be approved again
+        if (action === 'approve' && response.status === 502) {
+          setDrafts((prev) =>
+            prev.map((d) => (d.id === draftId ? { ...d, status: 'failed', errorMessage: data.error } : d))
+          );
+        }
+        throw new Error(data.error || 'Failed to update draft');
+      }
+
+      setDrafts((prev) => prev.filter((d) => d.id !== draftId));
+      toast.success(action === 'approve' ? 'Reply approved and sent' : 'Draft rejected');
+      if (action === 'approve') void fetchMessages(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update draft');
+    }
+  };
+
   const filteredMessages = messages.filter((m) => {
+    if (focusedThreadId && m.channelThreadId !== focusedThreadId) return false;
     if (filter && m.channelType !== filter) return false;
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
@@ -315,6 +459,25 @@ export default function UnifiedInboxPage() {
                 </DropdownMenuContent>
               </DropdownMenu>
 
+              {/* Handoff Mode Filter */}
+              <Button
+                variant={modeFilter === 'human' ? 'default' : 'outline'}
+                className="gap-2"
+                onClick={() => setModeFilter(modeFilter === 'human' ? null : 'human')}
+              >
+                <UserRound className="h-4 w-4" />
+                Needs a human
+              </Button>
+
+              {focusedThreadId && (
+                <Button variant="outline" className="gap-2" asChild>
+                  <Link href="/inbox">
+                    <X className="h-4 w-4" />
+                    Show all threads
+                  </Link>
+                </Button>
+              )}
+
               {/* Search Toggle */}
               <AnimatePresence mode="wait">
                 {showSearch ? (
@@ -392,6 +555,25 @@ export default function UnifiedInboxPage() {
         </div>
       </div>
 
+      {/* Drafts awaiting approval */}
+      {drafts.length > 0 && (
+        <div className="container max-w-7xl mx-auto px-6 pt-6 space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <FileCheck className="h-4 w-4 text-amber-500" />
+            Replies awaiting approval
+            <Badge variant="secondary">{drafts.length}</Badge>
+          </div>
+          {drafts.map((draft) => (
+            <DraftCard
+              key={draft.id}
+              draft={draft}
+              highlighted={draft.id === focusedDraftId}
+              onDecide={handleDraftDecision}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Messages List */}
       <div className="container max-w-7xl mx-auto px-6 py-6">
         {loading ? (
@@ -439,6 +621,9 @@ export default function UnifiedInboxPage() {
                     });
                   }}
                   onMarkRead={() => handleMarkRead([message.id])}
+                  onSetMode={handleSetMode}
+                  onReply={handleReply}
+                  defaultReplyOpen={!!focusedThreadId && index === 0}
                 />
               ))}
             </AnimatePresence>
@@ -459,15 +644,37 @@ function MessageRow({
   isSelected,
   onToggleSelect,
   onMarkRead,
+  onSetMode,
+  onReply,
+  defaultReplyOpen,
 }: {
   message: ChannelMessage;
   index: number;
   isSelected: boolean;
   onToggleSelect: () => void;
   onMarkRead: () => void;
+  onSetMode: (threadId: string, mode: ThreadMode) => Promise<void>;
+  onReply: (threadId: string, content: string) => Promise<boolean>;
+  defaultReplyOpen?: boolean;
 }) {
   const config = CHANNEL_CONFIG[message.channelType] || CHANNEL_CONFIG.webchat;
   const timeAgo = getTimeAgo(message.timestamp);
+  const threadId = message.channelThreadId;
+  const mode = message.threadMode || 'ai';
+  const [replyOpen, setReplyOpen] = useState(!!defaultReplyOpen);
+  const [replyText, setReplyText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const sendReply = async () => {
+    if (!threadId || !replyText.trim()) return;
+    setSending(true);
+    const sent = await onReply(threadId, replyText.trim());
+    setSending(false);
+    if (sent) {
+      setReplyText('');
+      setReplyOpen(false);
+    }
+  };
 
   return (
     <motion.div
@@ -521,6 +728,34 @@ function MessageRow({
               AI Replied
             </Badge>
           )}
+          {message.sentByOperator && (
+            <Badge variant="secondary" className="text-xs gap-1">
+              <Reply className="h-3 w-3" />
+              Operator reply
+            </Badge>
+          )}
+          {message.deliveryStatus === 'failed' && (
+            <Badge variant="destructive" className="text-xs" title={message.errorMessage || undefined}>
+              Not delivered
+            </Badge>
+          )}
+          {(message.deliveryStatus === 'delivered' || message.deliveryStatus === 'read') && (
+            <Badge variant="outline" className="text-xs font-normal">
+              {message.deliveryStatus === 'read' ? 'Read' : 'Delivered'}
+            </Badge>
+          )}
+          {mode === 'human' && (
+            <Badge className="text-xs gap-1 bg-amber-500/15 text-amber-600 border-amber-500/30">
+              <UserRound className="h-3 w-3" />
+              Human
+            </Badge>
+          )}
+          {mode === 'paused' && (
+            <Badge variant="outline" className="text-xs gap-1">
+              <Pause className="h-3 w-3" />
+              Paused
+            </Badge>
+          )}
         </div>
 
         <p
@@ -546,6 +781,27 @@ function MessageRow({
             )}
           </div>
         )}
+
+        {replyOpen && threadId && (
+          <form
+            className="flex items-center gap-2 mt-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void sendReply();
+            }}
+          >
+            <Input
+              placeholder={`Reply as the bot on ${config.name}...`}
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              disabled={sending}
+              autoFocus
+            />
+            <Button type="submit" size="icon" disabled={sending || !replyText.trim()}>
+              {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
       </div>
 
       {/* Time & Actions */}
@@ -568,15 +824,131 @@ function MessageRow({
               </Link>
             </Button>
           )}
-          <Button variant="ghost" size="icon" className="h-8 w-8">
-            <Zap className="h-4 w-4" />
-          </Button>
+          {threadId && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Reply as the bot"
+              onClick={() => setReplyOpen((open) => !open)}
+            >
+              <Reply className="h-4 w-4" />
+            </Button>
+          )}
+          {threadId ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Conversation mode">
+                  <Zap className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-44">
+                <DropdownMenuItem disabled={mode === 'human'} onClick={() => onSetMode(threadId, 'human')}>
+                  <UserRound className="h-4 w-4 mr-2" />
+                  Take over
+                </DropdownMenuItem>
+                <DropdownMenuItem disabled={mode === 'paused'} onClick={() => onSetMode(threadId, 'paused')}>
+                  <Pause className="h-4 w-4 mr-2" />
+                  Pause AI
+                </DropdownMenuItem>
+                <DropdownMenuItem disabled={mode === 'ai'} onClick={() => onSetMode(threadId, 'ai')}>
+                  <Bot className="h-4 w-4 mr-2" />
+                  Return to AI
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : (
+            <Button variant="ghost" size="icon" className="h-8 w-8">
+              <Zap className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
     </motion.div>
   );
 }
 
+// ============================================================================
+// Draft Card Component
+// ============================================================================
+
+function DraftCard({
+  draft,
+  highlighted,
+  onDecide,
+}: {
+  draft: ReplyDraft;
+  highlighted: boolean;
+  onDecide: (draftId: string, action: 'approve' | 'reject', content?: string) => Promise<void>;
+}) {
+  const config = CHANNEL_CONFIG[draft.channelType] || CHANNEL_CONFIG.webchat;
+  const [content, setContent] = useState(draft.draftContent);
+  const [busy, setBusy] = useState(false);
+  const edited = content.trim() !== draft.draftContent.trim();
+
+  const decide = async (action: 'approve' | 'reject') => {
+    setBusy(true);
+    await onDecide(draft.id, action, action === 'approve' && edited ? content.trim() : undefined);
+    setBusy(false);
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-4 p-4 rounded-xl border bg-amber-500/5 border-amber-500/30',
+        highlighted && 'ring-2 ring-amber-500/50'
+      )}
+    >
+      <div
+        className={cn(
+          'flex-shrink-0 w-10 h-10 rounded-xl flex items-center justify-center text-xl',
+          'bg-gradient-to-br',
+          config.gradient
+        )}
+      >
+        {config.icon}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs font-normal">
+            {draft.channelName || config.name}
+          </Badge>
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {getTimeAgo(draft.createdAt)}
+          </span>
+        </div>
+        {draft.inboundContent && (
+          <p className="text-sm text-muted-foreground line-clamp-2">{draft.inboundContent}</p>
+        )}
+        {draft.status === 'failed' && (
+          <p className="flex items-center gap-1 text-xs text-destructive">
+            <AlertCircle className="h-3 w-3" />
+            Sending failed{draft.errorMessage ? `: ${draft.errorMessage}` : ''}
+          </p>
+        )}
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          disabled={busy}
+          className="w-full min-h-20 px-3 py-2 text-sm rounded-lg border bg-background resize-y focus:outline-none focus:ring-2 focus:ring-primary/50"
+        />
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => decide('approve')} disabled={busy || !content.trim()}>
+            {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+            {edited ? 'Send edited reply' : draft.status === 'failed' ? 'Retry' : 'Approve'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => decide('reject')} disabled={busy}>
+            <X className="h-4 w-4 mr-1" />
+            Reject
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -33,7 +33,7 @@ import {
     DialogTitle,
     DialogTrigger,
 } from "@/components/ui/dialog";
-import { Zap, Loader2, Plus, Trash2, AlertCircle, Edit2 } from "lucide-react";
+import { Zap, Loader2, Plus, Trash2, AlertCircle, Edit2, FlaskConical, CheckCircle2, XCircle } from "lucide-react";
 import { toast } from "sonner";
 
 interface AutoReplyRule {
@@ -41,6 +41,7 @@ interface AutoReplyRule {
     name: string;
     triggerType: string;
     triggerPattern: string | null;
+    triggerConfig: unknown;
     actionType: string;
     actionConfig: { replyTemplate?: string } | null;
     priority: number;
@@ -53,8 +54,36 @@ const TRIGGER_TYPES = [
     { value: "keyword", label: "Keyword", description: "Trigger when message contains specific words" },
     { value: "regex", label: "Regex pattern", description: "Trigger on regex match" },
     { value: "sender", label: "Specific sender", description: "Trigger from specific users" },
+    { value: "conditions", label: "Condition tree", description: "Combine conditions with AND / OR / NOT" },
 ];
 
+const EXAMPLE_CONDITIONS = `{
+  "type": "and",
+  "conditions": [
+    { "type": "first_message" },
+    { "type": "language", "languages": ["es"] },
+    {
+      "type": "or",
+      "conditions": [
+        { "type": "keyword", "keywords": ["precio", "price"] },
+        { "type": "intent", "intents": ["pricing", "support"] }
+      ]
+    },
+    { "type": "not", "condition": { "type": "contact_tag", "tags": ["vip"] } }
+  ]
+}`;
+
+interface SimulationResult {
+    channelMessageId: string;
+    channelType: string;
+    senderName: string;
+    content: string;
+    timestamp: string;
+    matched: boolean;
+    wouldFire: boolean;
+    shadowedBy: { id: string; name: string } | null;
+}
+
 const ACTION_TYPES = [
     { value: "reply", label: "Send reply", description: "Reply with a template message" },
     { value: "agent", label: "Use AI agent", description: "Let AI handle the response" },
@@ -75,7 +104,10 @@ export default function AutoReplyPage() {
         actionType: "reply",
         replyTemplate: "",
         priority: 0,
+        conditions: EXAMPLE_CONDITIONS,
     });
+    const [simulating, setSimulating] = useState(false);
+    const [simulation, setSimulation] = useState<{ results: SimulationResult[]; wouldFire: number; total: number } | null>(null);
 
     useEffect(() => {
         fetchRules();
@@ -104,8 +136,10 @@ export default function AutoReplyPage() {
             actionType: "reply",
             replyTemplate: "",
             priority: 0,
+            conditions: EXAMPLE_CONDITIONS,
         });
         setEditingRule(null);
+        setSimulation(null);
     };
 
     const handleOpenDialog = (rule?: AutoReplyRule) => {
@@ -118,13 +152,64 @@ export default function AutoReplyPage() {
                 actionType: rule.actionType,
                 replyTemplate: rule.actionConfig?.replyTemplate || "",
                 priority: rule.priority,
+                conditions: rule.triggerType === "conditions"
+                    ? JSON.stringify(rule.triggerConfig, null, 2)
+                    : EXAMPLE_CONDITIONS,
             });
+            setSimulation(null);
         } else {
             resetForm();
         }
         setDialogOpen(true);
     };
 
+    /**
+     * Trigger fields for the API, or null when the condition JSON is invalid
+     */
+    const buildTrigger = () => {
+        if (form.triggerType !== "conditions") {
+            return {
+                triggerType: form.triggerType,
+                triggerPattern: form.triggerPattern.trim() || null,
+                triggerConfig: null as unknown,
+            };
+        }
+        try {
+            return {
+                triggerType: form.triggerType,
+                triggerPattern: null,
+                triggerConfig: JSON.parse(form.conditions) as unknown,
+            };
+        } catch {
+            toast.error("Condition tree is not valid JSON");
+            return null;
+        }
+    };
+
+    const handleSimulate = async () => {
+        const trigger = buildTrigger();
+        if (!trigger) return;
+
+        try {
+            setSimulating(true);
+            const response = await fetch("/api/auto-reply/simulate", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    rule: { ...trigger, priority: form.priority, id: editingRule?.id },
+                    limit: 25,
+                }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Simulation failed");
+            setSimulation(data);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Simulation failed");
+        } finally {
+            setSimulating(false);
+        }
+    };
+
     const handleSaveRule = async () => {
         if (!form.name.trim()) {
             toast.error("Rule name is required");
@@ -136,13 +221,15 @@ export default function AutoReplyPage() {
             return;
         }
 
+        const trigger = buildTrigger();
+        if (!trigger) return;
+
         try {
             setSaving(true);
 
             const payload = {
                 name: form.name.trim(),
-                triggerType: form.triggerType,
-                triggerPattern: form.triggerPattern.trim() || null,
+                ...trigger,
                 actionType: form.actionType,
                 actionConfig: form.actionType === "reply" ? { replyTemplate: form.replyTemplate } : null,
                 priority: form.priority,
@@ -163,9 +250,8 @@ export default function AutoReplyPage() {
                 });
             }
 
-            if (!response.ok) throw new Error("Failed to save rule");
-
             const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Failed to save rule");
 
             if (editingRule) {
                 setRules((prev) =>
@@ -181,7 +267,7 @@ export default function AutoReplyPage() {
             resetForm();
         } catch (error) {
             console.error("Save rule error:", error);
-            toast.error("Failed to save rule");
+            toast.error(error instanceof Error ? error.message : "Failed to save rule");
         } finally {
             setSaving(false);
         }
@@ -242,7 +328,7 @@ export default function AutoReplyPage() {
                             Add Rule
                         </Button>
                     </DialogTrigger>
-                    <DialogContent className="sm:max-w-[500px]">
+                    <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
                         <DialogHeader>
                             <DialogTitle>
                                 {editingRule ? "Edit Rule" : "Create Auto-Reply Rule"}
@@ -286,7 +372,24 @@ export default function AutoReplyPage() {
                                 </Select>
                             </div>
 
-                            {form.triggerType !== "all" && (
+                            {form.triggerType === "conditions" && (
+                                <div className="grid gap-2">
+                                    <Label htmlFor="conditions">Conditions (JSON)</Label>
+                                    <Textarea
+                                        id="conditions"
+                                        value={form.conditions}
+                                        onChange={(e) => setForm({ ...form, conditions: e.target.value })}
+                                        rows={10}
+                                        className="font-mono text-xs"
+                                    />
+                                    <p className="text-xs text-muted-foreground">
+                                        Combine <code>and</code>, <code>or</code> and <code>not</code> over keyword, regex,
+                                        sender, time, attachment, language, intent, contact_tag and first_message.
+                                    </p>
+                                </div>
+                            )}
+
+                            {form.triggerType !== "all" && form.triggerType !== "conditions" && (
                                 <div className="grid gap-2">
                                     <Label htmlFor="pattern">
                                         {form.triggerType === "keyword"
@@ -362,8 +465,49 @@ export default function AutoReplyPage() {
                                     }
                                 />
                             </div>
+
+                            {simulation && (
+                                <div className="grid gap-2">
+                                    <div className="text-sm font-medium">
+                                        Would fire on {simulation.wouldFire} of the last {simulation.total} messages
+                                    </div>
+                                    <div className="max-h-48 overflow-y-auto space-y-1">
+                                        {simulation.results.map((result) => (
+                                            <div
+                                                key={result.channelMessageId}
+                                                className="flex items-start gap-2 text-xs p-2 rounded border bg-muted/30"
+                                            >
+                                                {result.wouldFire ? (
+                                                    <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />
+                                                ) : (
+                                                    <XCircle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                                                )}
+                                                <div className="min-w-0">
+                                                    <div className="font-medium">
+                                                        {result.senderName} · {result.channelType}
+                                                    </div>
+                                                    <div className="text-muted-foreground truncate">{result.content}</div>
+                                                    {result.shadowedBy && (
+                                                        <div className="text-amber-600">
+                                                            Matches, but &quot;{result.shadowedBy.name}&quot; fires first
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                         </div>
                         <DialogFooter>
+                            <Button variant="outline" onClick={handleSimulate} disabled={simulating}>
+                                {simulating ? (
+                                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                                ) : (
+                                    <FlaskConical className="h-4 w-4 mr-2" />
+                                )}
+                                Test on recent messages
+                            </Button>
                             <Button variant="outline" onClick={() => setDialogOpen(false)}>
                                 Cancel
                             </Button>
@@ -494,6 +638,7 @@ export default function AutoReplyPage() {
                     <p>• Only the first matching rule will be triggered</p>
                     <p>• Keyword triggers match words anywhere in the message</p>
                     <p>• Use &quot;All messages&quot; trigger for a catch-all response</p>
+                    <p>• Condition trees combine checks like language, intent, CRM tags and first-time senders</p>
                     <p>• AI agent action uses your default AI model to generate responses</p>
                 </CardContent>
             </Card>
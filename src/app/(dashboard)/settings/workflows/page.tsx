@@ -59,11 +59,16 @@ import {
     FileText,
     Search,
     Download,
+    Split,
+    Repeat,
+    Bug,
+    FlaskConical,
+    StepForward,
 } from "lucide-react";
 import { toast } from "sonner";
 
 // Types matching the backend
-type StepType = "tool" | "llm" | "condition" | "approval" | "transform";
+type StepType = "tool" | "llm" | "condition" | "approval" | "transform" | "parallel" | "forEach" | "workflow";
 
 interface WorkflowStep {
     id: string;
@@ -87,6 +92,27 @@ interface WorkflowStep {
         prompt: string;
         timeout?: number;
     };
+    parallel?: {
+        branches: { id: string; steps: WorkflowStep[] }[];
+        continueOnBranchError?: boolean;
+    };
+    forEach?: {
+        items: string;
+        as?: string;
+        steps: WorkflowStep[];
+        concurrency?: number;
+        continueOnItemError?: boolean;
+    };
+    workflow?: {
+        workflowId: string;
+        input?: Record<string, unknown>;
+    };
+    retry?: {
+        maxAttempts: number;
+        initialDelayMs?: number;
+    };
+    timeoutMs?: number;
+    compensate?: WorkflowStep;
     nextStep?: string;
 }
 
@@ -122,6 +148,7 @@ interface WorkflowRun {
     error?: string;
     currentStep?: string;
     completedSteps: string[];
+    dryRun?: boolean;
     startedAt: string;
     completedAt?: string;
 }
@@ -133,6 +160,14 @@ interface ApprovalRequest {
     items?: unknown[];
     resumeToken: string;
     expiresAt?: string;
+    kind?: "approval" | "breakpoint";
+}
+
+interface DebugSnapshot {
+    stepId: string;
+    nextStepId: string;
+    stepResult: { status: string; output?: unknown; error?: string; mocked?: string };
+    variables: Record<string, unknown>;
 }
 
 // Step type configuration
@@ -167,6 +202,24 @@ const STEP_TYPES: Record<StepType, { name: string; icon: React.ElementType; colo
         color: "bg-orange-500",
         description: "Transform data",
     },
+    parallel: {
+        name: "Parallel",
+        icon: Split,
+        color: "bg-cyan-500",
+        description: "Run branches at the same time",
+    },
+    forEach: {
+        name: "For Each",
+        icon: Repeat,
+        color: "bg-pink-500",
+        description: "Repeat steps for every item",
+    },
+    workflow: {
+        name: "Sub-workflow",
+        icon: Workflow,
+        color: "bg-indigo-500",
+        description: "Run another saved workflow",
+    },
 };
 
 // Status colors
@@ -239,6 +292,21 @@ const TEMPLATE_CATEGORIES = [
     { id: "strategy", label: "Strategy" },
 ];
 
+// Parse a JSON array typed into a nested-steps editor; shows a toast on invalid input
+function parseJsonArray<T>(value: string): T[] | null {
+    try {
+        const parsed = JSON.parse(value);
+        if (!Array.isArray(parsed)) {
+            toast.error("Expected a JSON array");
+            return null;
+        }
+        return parsed as T[];
+    } catch {
+        toast.error("Invalid JSON");
+        return null;
+    }
+}
+
 // Template item from the API
 interface TemplateItem {
     id: string;
@@ -264,6 +332,7 @@ export default function WorkflowsPage() {
     const [approvalRequest, setApprovalRequest] = useState<ApprovalRequest | null>(null);
     const [approvalComment, setApprovalComment] = useState("");
     const [resumingApproval, setResumingApproval] = useState(false);
+    const [debugSnapshot, setDebugSnapshot] = useState<DebugSnapshot | null>(null);
 
     // Editor state
     const [editorName, setEditorName] = useState("");
@@ -401,6 +470,31 @@ export default function WorkflowsPage() {
             };
         }
 
+        if (type === "parallel") {
+            newStep.parallel = {
+                branches: [
+                    { id: "branch_a", steps: [] },
+                    { id: "branch_b", steps: [] },
+                ],
+            };
+        }
+
+        if (type === "workflow") {
+            newStep.workflow = {
+                workflowId: "",
+                input: {},
+            };
+        }
+
+        if (type === "forEach") {
+            newStep.forEach = {
+                items: "$input.items",
+                as: "item",
+                steps: [],
+                concurrency: 3,
+            };
+        }
+
         setEditorSteps([...editorSteps, newStep]);
     };
 
@@ -493,14 +587,18 @@ export default function WorkflowsPage() {
     };
 
     // Run workflow
-    const runWorkflow = async (workflowId: string, input?: Record<string, unknown>) => {
+    const runWorkflow = async (
+        workflowId: string,
+        input?: Record<string, unknown>,
+        options?: { dryRun?: boolean; stepMode?: boolean }
+    ) => {
         try {
             setRunningWorkflow(workflowId);
 
             const response = await fetch(`/api/workflows/${workflowId}/run`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ input }),
+                body: JSON.stringify({ input, ...options }),
             });
 
             if (!response.ok) {
@@ -509,12 +607,13 @@ export default function WorkflowsPage() {
             }
 
             const result = await response.json();
+            setDebugSnapshot(result.debug ?? null);
             if (result.approval) {
                 setApprovalRequest(result.approval as ApprovalRequest);
                 setApprovalComment("");
-                toast.success("Workflow paused for approval");
+                toast.success(result.debug ? "Workflow paused after first step" : "Workflow paused for approval");
             } else {
-                toast.success("Workflow started");
+                toast.success(options?.dryRun ? "Dry run finished" : "Workflow started");
             }
 
             // Refresh to get the new run
@@ -529,7 +628,7 @@ export default function WorkflowsPage() {
         }
     };
 
-    const resumeWorkflow = async (approved: boolean) => {
+    const resumeWorkflow = async (approved: boolean, stepMode?: boolean) => {
         if (!approvalRequest) return;
 
         try {
@@ -541,6 +640,7 @@ export default function WorkflowsPage() {
                     resumeToken: approvalRequest.resumeToken,
                     approved,
                     comment: approvalComment || undefined,
+                    stepMode,
                 }),
             });
 
@@ -550,11 +650,14 @@ export default function WorkflowsPage() {
             }
 
             const result = await response.json();
+            setDebugSnapshot(result.debug ?? null);
 
             if (result.approval) {
                 setApprovalRequest(result.approval as ApprovalRequest);
                 setApprovalComment("");
-                toast.success("Workflow paused for approval");
+                if (!result.debug) {
+                    toast.success("Workflow paused for approval");
+                }
             } else {
                 setApprovalRequest(null);
                 setApprovalComment("");
@@ -797,6 +900,24 @@ export default function WorkflowsPage() {
                                                         <Play className="h-4 w-4" />
                                                     )}
                                                 </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    title="Dry run (tool calls are stubbed)"
+                                                    onClick={() => runWorkflow(workflow.id, undefined, { dryRun: true })}
+                                                    disabled={runningWorkflow === workflow.id}
+                                                >
+                                                    <FlaskConical className="h-4 w-4" />
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    title="Debug step by step (dry run)"
+                                                    onClick={() => runWorkflow(workflow.id, undefined, { dryRun: true, stepMode: true })}
+                                                    disabled={runningWorkflow === workflow.id}
+                                                >
+                                                    <Bug className="h-4 w-4" />
+                                                </Button>
                                                 <Button
                                                     variant="ghost"
                                                     size="icon"
@@ -879,6 +1000,11 @@ export default function WorkflowsPage() {
                                                                             className={`w-2 h-2 rounded-full ${STATUS_COLORS[run.status]}`}
                                                                         />
                                                                         <span className="capitalize">{run.status}</span>
+                                                                        {run.dryRun && (
+                                                                            <Badge variant="outline" className="text-xs">
+                                                                                Dry run
+                                                                            </Badge>
+                                                                        )}
                                                                         {run.currentStep && run.status === "running" && (
                                                                             <span className="text-muted-foreground">
                                                                                 - {run.currentStep}
@@ -1192,6 +1318,198 @@ export default function WorkflowsPage() {
                                                         </div>
                                                     </div>
                                                 )}
+
+                                                {step.type === "parallel" && (
+                                                    <div className="space-y-1">
+                                                        <Label className="text-xs">Branches (JSON)</Label>
+                                                        <Textarea
+                                                            defaultValue={JSON.stringify(step.parallel?.branches ?? [], null, 2)}
+                                                            onBlur={(e) => {
+                                                                const branches = parseJsonArray<{ id: string; steps: WorkflowStep[] }>(e.target.value);
+                                                                if (branches) {
+                                                                    updateStep(index, {
+                                                                        parallel: { ...step.parallel, branches },
+                                                                    });
+                                                                }
+                                                            }}
+                                                            rows={6}
+                                                            className="font-mono text-xs"
+                                                        />
+                                                        <p className="text-xs text-muted-foreground">
+                                                            {`Each branch is { id, steps }; results are joined as $${step.id}.output.<branchId>`}
+                                                        </p>
+                                                    </div>
+                                                )}
+
+                                                {(step.type === "tool" || step.type === "llm") && (
+                                                    <div className="grid grid-cols-2 gap-3">
+                                                        <div className="space-y-1">
+                                                            <Label className="text-xs">Max Attempts</Label>
+                                                            <Input
+                                                                type="number"
+                                                                min={1}
+                                                                max={10}
+                                                                value={step.retry?.maxAttempts ?? 1}
+                                                                onChange={(e) => {
+                                                                    const maxAttempts = Number(e.target.value) || 1;
+                                                                    updateStep(index, {
+                                                                        retry: maxAttempts > 1 ? { ...step.retry, maxAttempts } : undefined,
+                                                                    });
+                                                                }}
+                                                                className="h-8"
+                                                            />
+                                                        </div>
+                                                        <div className="space-y-1">
+                                                            <Label className="text-xs">Timeout (ms)</Label>
+                                                            <Input
+                                                                type="number"
+                                                                min={0}
+                                                                value={step.timeoutMs ?? ""}
+                                                                onChange={(e) =>
+                                                                    updateStep(index, {
+                                                                        timeoutMs: Number(e.target.value) || undefined,
+                                                                    })
+                                                                }
+                                                                placeholder="No limit"
+                                                                className="h-8"
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                )}
+
+                                                {step.type === "workflow" && (
+                                                    <div className="space-y-3">
+                                                        <div className="space-y-1">
+                                                            <Label className="text-xs">Workflow</Label>
+                                                            <Select
+                                                                value={step.workflow?.workflowId || ""}
+                                                                onValueChange={(value) =>
+                                                                    updateStep(index, {
+                                                                        workflow: { ...step.workflow, workflowId: value },
+                                                                    })
+                                                                }
+                                                            >
+                                                                <SelectTrigger className="h-8">
+                                                                    <SelectValue placeholder="Select workflow" />
+                                                                </SelectTrigger>
+                                                                <SelectContent>
+                                                                    {workflows
+                                                                        .filter((w) => w.id !== editingWorkflow?.id)
+                                                                        .map((w) => (
+                                                                            <SelectItem key={w.id} value={w.id}>
+                                                                                {w.name}
+                                                                            </SelectItem>
+                                                                        ))}
+                                                                </SelectContent>
+                                                            </Select>
+                                                        </div>
+                                                        <div className="space-y-1">
+                                                            <Label className="text-xs">Input Mapping (JSON)</Label>
+                                                            <Textarea
+                                                                defaultValue={JSON.stringify(step.workflow?.input ?? {}, null, 2)}
+                                                                onBlur={(e) => {
+                                                                    try {
+                                                                        const input = JSON.parse(e.target.value);
+                                                                        updateStep(index, {
+                                                                            workflow: {
+                                                                                workflowId: step.workflow?.workflowId || "",
+                                                                                input,
+                                                                            },
+                                                                        });
+                                                                    } catch {
+                                                                        toast.error("Invalid JSON");
+                                                                    }
+                                                                }}
+                                                                placeholder='{ "text": "$summarize.output" }'
+                                                                rows={3}
+                                                                className="font-mono text-xs"
+                                                            />
+                                                            <p className="text-xs text-muted-foreground">
+                                                                {`The sub-workflow's output is available as $${step.id}.result`}
+                                                            </p>
+                                                        </div>
+                                                    </div>
+                                                )}
+
+                                                {step.type === "forEach" && (
+                                                    <div className="grid grid-cols-3 gap-3">
+                                                        <div className="space-y-1">
+                                                            <Label className="text-xs">Items</Label>
+                                                            <Input
+                                                                value={step.forEach?.items || ""}
+                                                                onChange={(e) =>
+                                                                    updateStep(index, {
+                                                                        forEach: {
+                                                                            ...step.forEach,
+                                                                            steps: step.forEach?.steps ?? [],
+                                                                            items: e.target.value,
+                                                                        },
+                                                                    })
+                                                                }
+                                                                placeholder="$search.output"
+                                                                className="h-8 font-mono text-sm"
+                                                            />
+                                                        </div>
+                                                        <div className="space-y-1">
+                                                            <Label className="text-xs">Item Var</Label>
+                                                            <Input
+                                                                value={step.forEach?.as || ""}
+                                                                onChange={(e) =>
+                                                                    updateStep(index, {
+                                                                        forEach: {
+                                                                            ...step.forEach,
+                                                                            items: step.forEach?.items || "",
+                                                                            steps: step.forEach?.steps ?? [],
+                                                                            as: e.target.value,
+                                                                        },
+                                                                    })
+                                                                }
+                                                                placeholder="item"
+                                                                className="h-8"
+                                                            />
+                                                        </div>
+                                                        <div className="space-y-1">
+                                                            <Label className="text-xs">Concurrency</Label>
+                                                            <Input
+                                                                type="number"
+                                                                min={1}
+                                                                max={10}
+                                                                value={step.forEach?.concurrency ?? 1}
+                                                                onChange={(e) =>
+                                                                    updateStep(index, {
+                                                                        forEach: {
+                                                                            ...step.forEach,
+                                                                            items: step.forEach?.items || "",
+                                                                            steps: step.forEach?.steps ?? [],
+                                                                            concurrency: Number(e.target.value) || 1,
+                                                                        },
+                                                                    })
+                                                                }
+                                                                className="h-8"
+                                                            />
+                                                        </div>
+                                                        <div className="space-y-1 col-span-3">
+                                                            <Label className="text-xs">Steps per item (JSON)</Label>
+                                                            <Textarea
+                                                                defaultValue={JSON.stringify(step.forEach?.steps ?? [], null, 2)}
+                                                                onBlur={(e) => {
+                                                                    const steps = parseJsonArray<WorkflowStep>(e.target.value);
+                                                                    if (steps) {
+                                                                        updateStep(index, {
+                                                                            forEach: {
+                                                                                ...step.forEach,
+                                                                                items: step.forEach?.items || "",
+                                                                                steps,
+                                                                            },
+                                                                        });
+                                                                    }
+                                                                }}
+                                                                rows={6}
+                                                                className="font-mono text-xs"
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                )}
                                             </div>
                                         );
                                     })}
@@ -1221,14 +1539,19 @@ export default function WorkflowsPage() {
                     if (!open) {
                         setApprovalRequest(null);
                         setApprovalComment("");
+                        setDebugSnapshot(null);
                     }
                 }}
             >
                 <DialogContent className="max-w-xl">
                     <DialogHeader>
-                        <DialogTitle>Approval Required</DialogTitle>
+                        <DialogTitle>
+                            {approvalRequest?.kind === "breakpoint" ? "Step Debugger" : "Approval Required"}
+                        </DialogTitle>
                         <DialogDescription>
-                            This workflow is paused and needs your decision.
+                            {approvalRequest?.kind === "breakpoint"
+                                ? "The workflow is paused after a step so you can inspect its state."
+                                : "This workflow is paused and needs your decision."}
                         </DialogDescription>
                     </DialogHeader>
 
@@ -1240,6 +1563,34 @@ export default function WorkflowsPage() {
                             </div>
                         </div>
 
+                        {debugSnapshot ? (
+                            <>
+                                <div className="space-y-2">
+                                    <Label className="flex items-center gap-2">
+                                        Step output
+                                        <Badge variant="outline" className="text-xs">
+                                            {debugSnapshot.stepResult.status}
+                                        </Badge>
+                                        {debugSnapshot.stepResult.mocked && (
+                                            <Badge variant="secondary" className="text-xs">
+                                                {debugSnapshot.stepResult.mocked}
+                                            </Badge>
+                                        )}
+                                    </Label>
+                                    <div className="rounded-md border p-3 text-xs font-mono whitespace-pre-wrap max-h-48 overflow-y-auto">
+                                        {debugSnapshot.stepResult.error ||
+                                            JSON.stringify(debugSnapshot.stepResult.output ?? null, null, 2)}
+                                    </div>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Variables</Label>
+                                    <div className="rounded-md border p-3 text-xs font-mono whitespace-pre-wrap max-h-48 overflow-y-auto">
+                                        {JSON.stringify(debugSnapshot.variables, null, 2)}
+                                    </div>
+                                </div>
+                            </>
+                        ) : null}
+
                         {approvalRequest?.items && approvalRequest.items.length > 0 ? (
                             <div className="space-y-2">
                                 <Label>Items</Label>
@@ -1249,32 +1600,60 @@ export default function WorkflowsPage() {
                             </div>
                         ) : null}
 
-                        <div className="space-y-2">
-                            <Label>Comment (optional)</Label>
-                            <Textarea
-                                value={approvalComment}
-                                onChange={(e) => setApprovalComment(e.target.value)}
-                                rows={3}
-                                placeholder="Add a note for this approval"
-                            />
-                        </div>
+                        {approvalRequest?.kind !== "breakpoint" && (
+                            <div className="space-y-2">
+                                <Label>Comment (optional)</Label>
+                                <Textarea
+                                    value={approvalComment}
+                                    onChange={(e) => setApprovalComment(e.target.value)}
+                                    rows={3}
+                                    placeholder="Add a note for this approval"
+                                />
+                            </div>
+                        )}
                     </div>
 
-                    <DialogFooter>
-                        <Button
-                            variant="outline"
-                            onClick={() => resumeWorkflow(false)}
-                            disabled={resumingApproval}
-                        >
-                            Reject
-                        </Button>
-                        <Button
-                            onClick={() => resumeWorkflow(true)}
-                            disabled={resumingApproval}
-                        >
-                            Approve
-                        </Button>
-                    </DialogFooter>
+                    {approvalRequest?.kind === "breakpoint" ? (
+                        <DialogFooter>
+                            <Button
+                                variant="outline"
+                                onClick={() => resumeWorkflow(false)}
+                                disabled={resumingApproval}
+                            >
+                                Stop
+                            </Button>
+                            <Button
+                                variant="outline"
+                                onClick={() => resumeWorkflow(true, false)}
+                                disabled={resumingApproval}
+                            >
+                                Run to End
+                            </Button>
+                            <Button
+                                onClick={() => resumeWorkflow(true)}
+                                disabled={resumingApproval}
+                            >
+                                <StepForward className="h-4 w-4 mr-2" />
+                                Next Step
+                            </Button>
+                        </DialogFooter>
+                    ) : (
+                        <DialogFooter>
+                            <Button
+                                variant="outline"
+                                onClick={() => resumeWorkflow(false)}
+                                disabled={resumingApproval}
+                            >
+                                Reject
+                            </Button>
+                            <Button
+                                onClick={() => resumeWorkflow(true)}
+                                disabled={resumingApproval}
+                            >
+                                Approve
+                            </Button>
+                        </DialogFooter>
+                    )}
                 </DialogContent>
             </Dialog>
 
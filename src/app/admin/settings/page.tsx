@@ -36,6 +36,7 @@ type AdminSettings = {
     geminiRetrievalModel: string | null;
     userProfileMemoryEnabled: boolean;
     memoryMaxChars: number;
+    embeddingModel: string;
     // Channel settings
     defaultMaxTokens: number;
     // Workspace quota (hosted mode)
@@ -923,6 +924,20 @@ export default function AdminSettingsPage() {
                         </p>
                     </div>
 
+                    <div className="space-y-2">
+                        <Label className="text-base">Document Embedding Model</Label>
+                        <Input
+                            value={settings.embeddingModel ?? "openai/text-embedding-3-large"}
+                            placeholder="openai/text-embedding-3-large"
+                            onChange={(e) =>
+                                setSettings((prev) => prev ? { ...prev, embeddingModel: e.target.value } : prev)
+                            }
+                        />
+                        <p className="text-sm text-muted-foreground">
+                            Provider and model used to embed documents and search queries, e.g. ollama/nomic-embed-text or lmstudio/text-embedding-bge-m3 for air-gapped setups. Documents embedded with another model must be re-embedded before they show up in semantic search.
+                        </p>
+                    </div>
+
                     <Button onClick={handleSave} disabled={isSaving}>
                         {isSaving ? "Saving..." : "Save settings"}
                     </Button>
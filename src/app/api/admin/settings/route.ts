@@ -34,6 +34,7 @@ export async function GET() {
                 geminiRetrievalModel: config.memory.geminiRetrievalModel ?? settings.geminiRetrievalModel,
                 userProfileMemoryEnabled: config.memory.userProfileMemoryEnabled,
                 memoryMaxChars: config.memory.memoryMaxChars,
+                embeddingModel: config.memory.embeddingModel,
                 // Channel settings
                 defaultMaxTokens: config.channels.defaultMaxTokens,
             },
@@ -86,6 +87,9 @@ export async function PATCH(request: NextRequest) {
                     ? payload.geminiRetrievalModel
                     : undefined,
                 memoryMaxChars: typeof payload.memoryMaxChars === "number" ? payload.memoryMaxChars : undefined,
+                embeddingModel: typeof payload.embeddingModel === "string" && payload.embeddingModel.trim()
+                    ? payload.embeddingModel.trim()
+                    : undefined,
             },
         };
 
@@ -114,6 +118,7 @@ export async function PATCH(request: NextRequest) {
                 geminiRetrievalModel: updatedConfig.memory.geminiRetrievalModel,
                 userProfileMemoryEnabled: updatedConfig.memory.userProfileMemoryEnabled,
                 memoryMaxChars: updatedConfig.memory.memoryMaxChars,
+                embeddingModel: updatedConfig.memory.embeddingModel,
                 // Channel settings
                 defaultMaxTokens: updatedConfig.channels.defaultMaxTokens,
             },
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireAdmin } from "@/lib/auth/admin";
+import { z, ZodError } from "zod";
+import {
+    USAGE_FEATURES,
+    budgetInputSchema,
+    currentBudgetPeriod,
+    getBudgetStatuses,
+    removeBudget,
+    setBudget,
+} from "@/lib/ai/usage";
+
+const featureQuerySchema = z.object({
+    feature: z.enum(["all", ...USAGE_FEATURES]).default("all"),
+});
+
+function authErrorResponse(error: unknown) {
+    const message = error instanceof Error ? error.message : "Unauthorized";
+    if (message.includes("Unauthorized")) {
+        return NextResponse.json({ error: message }, { status: 401 });
+    }
+    if (message.includes("Admin")) {
+        return NextResponse.json({ error: message }, { status: 403 });
+    }
+    return null;
+}
+
+async function userExists(id: string): Promise<boolean> {
+    const user = await db.query.users.findFirst({
+        where: eq(users.id, id),
+        columns: { id: true },
+    });
+    return Boolean(user);
+}
+
+// GET /api/admin/users/[id]/budgets - All budgets of a user with this month's spending
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        await requireAdmin();
+        const { id } = await params;
+
+        if (!await userExists(id)) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        const budgets = await getBudgetStatuses(id);
+        return NextResponse.json({
+            period: currentBudgetPeriod().period,
+            budgets,
+        });
+    } catch (error) {
+        const authError = authErrorResponse(error);
+        if (authError) return authError;
+        console.error("Get user budgets error:", error);
+        return NextResponse.json({ error: "Failed to get budgets" }, { status: 500 });
+    }
+}
+
+// PUT /api/admin/users/[id]/budgets - Set an admin budget the user cannot change
+export async function PUT(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        await requireAdmin();
+        const { id } = await params;
+        const input = budgetInputSchema.parse(await request.json());
+
+        if (!await userExists(id)) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        const budget = await setBudget(id, "admin", input);
+        return NextResponse.json({ budget });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: "Invalid payload",
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        const authError = authErrorResponse(error);
+        if (authError) return authError;
+        console.error("Set user budget error:", error);
+        return NextResponse.json({ error: "Failed to set budget" }, { status: 500 });
+    }
+}
+
+// DELETE /api/admin/users/[id]/budgets?feature= - Remove an admin budget
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        await requireAdmin();
+        const { id } = await params;
+
+        const { searchParams } = new URL(request.url);
+        const { feature } = featureQuerySchema.parse({ feature: searchParams.get("feature") || undefined });
+
+        if (!await removeBudget(id, "admin", feature)) {
+            return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: "Invalid payload",
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        const authError = authErrorResponse(error);
+        if (authError) return authError;
+        console.error("Remove user budget error:", error);
+        return NextResponse.json({ error: "Failed to remove budget" }, { status: 500 });
+    }
+}
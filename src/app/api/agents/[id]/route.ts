@@ -145,6 +145,7 @@ export async function PATCH(
         if (updates.temperature !== undefined) configUpdates.temperature = updates.temperature;
         if (updates.maxTokens !== undefined) configUpdates.maxTokens = updates.maxTokens;
         if (updates.tools !== undefined) configUpdates.tools = updates.tools;
+        if (updates.toolPolicy !== undefined) configUpdates.toolPolicy = updates.toolPolicy;
         if (updates.canSeeOtherAgents !== undefined) configUpdates.canSeeOtherAgents = updates.canSeeOtherAgents;
         if (updates.priority !== undefined) configUpdates.priority = updates.priority;
         if (updates.isActive !== undefined) configUpdates.isActive = updates.isActive;
@@ -0,0 +1,200 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { agentGraphs } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getSessionUserId } from "@/lib/auth/session";
+import {
+    checkRateLimit,
+    RATE_LIMITS,
+    getRateLimitIdentifier,
+    rateLimitExceededResponse,
+} from "@/lib/rate-limit";
+import { agentGraphDefinitionSchema } from "@/types/agent";
+import { checkAgentGraph } from "@/lib/agents/graph-agents";
+import { z } from "zod";
+
+// Schema for updating an agent graph
+const updateAgentGraphSchema = z.object({
+    name: z.string().min(1).max(100).optional(),
+    description: z.string().max(500).nullable().optional(),
+    definition: agentGraphDefinitionSchema.optional(),
+});
+
+// GET /api/agents/graphs/[id] - Get a single agent graph
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitId = getRateLimitIdentifier(request, userId);
+        const rateLimitResult = await checkRateLimit(rateLimitId, "api", RATE_LIMITS.api);
+
+        if (!rateLimitResult.success) {
+            return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.api);
+        }
+
+        const { id } = await params;
+
+        const graph = await db.query.agentGraphs.findFirst({
+            where: and(
+                eq(agentGraphs.id, id),
+                eq(agentGraphs.userId, userId)
+            ),
+        });
+
+        if (!graph) {
+            return NextResponse.json(
+                { error: "Agent graph not found", code: "NOT_FOUND" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            graph,
+        });
+    } catch (error) {
+        console.error("Get agent graph error:", error);
+        return NextResponse.json(
+            { error: "Failed to get agent graph", code: "GET_FAILED" },
+            { status: 500 }
+        );
+    }
+}
+
+// PATCH /api/agents/graphs/[id] - Update an agent graph
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitId = getRateLimitIdentifier(request, userId);
+        const rateLimitResult = await checkRateLimit(rateLimitId, "api", RATE_LIMITS.api);
+
+        if (!rateLimitResult.success) {
+            return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.api);
+        }
+
+        const { id } = await params;
+
+        const body = await request.json();
+        const parseResult = updateAgentGraphSchema.safeParse(body);
+
+        if (!parseResult.success) {
+            return NextResponse.json(
+                {
+                    error: "Validation failed",
+                    code: "VALIDATION_ERROR",
+                    details: parseResult.error.flatten().fieldErrors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const updates = parseResult.data;
+
+        if (updates.definition) {
+            const graphErrors = await checkAgentGraph(userId, updates.definition);
+            if (graphErrors.length > 0) {
+                return NextResponse.json(
+                    { error: "Invalid agent graph", code: "INVALID_GRAPH", details: graphErrors },
+                    { status: 400 }
+                );
+            }
+        }
+
+        const [graph] = await db
+            .update(agentGraphs)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(and(
+                eq(agentGraphs.id, id),
+                eq(agentGraphs.userId, userId)
+            ))
+            .returning();
+
+        if (!graph) {
+            return NextResponse.json(
+                { error: "Agent graph not found", code: "NOT_FOUND" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            graph,
+        });
+    } catch (error) {
+        console.error("Update agent graph error:", error);
+        return NextResponse.json(
+            { error: "Failed to update agent graph", code: "UPDATE_FAILED" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/agents/graphs/[id] - Delete an agent graph
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitId = getRateLimitIdentifier(request, userId);
+        const rateLimitResult = await checkRateLimit(rateLimitId, "api", RATE_LIMITS.api);
+
+        if (!rateLimitResult.success) {
+            return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.api);
+        }
+
+        const { id } = await params;
+
+        const deleted = await db
+            .delete(agentGraphs)
+            .where(and(
+                eq(agentGraphs.id, id),
+                eq(agentGraphs.userId, userId)
+            ))
+            .returning({ id: agentGraphs.id });
+
+        if (deleted.length === 0) {
+            return NextResponse.json(
+                { error: "Agent graph not found", code: "NOT_FOUND" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Agent graph deleted",
+        });
+    } catch (error) {
+        console.error("Delete agent graph error:", error);
+        return NextResponse.json(
+            { error: "Failed to delete agent graph", code: "DELETE_FAILED" },
+            { status: 500 }
+        );
+    }
+}
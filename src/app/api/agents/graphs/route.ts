@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { agentGraphs } from "@/lib/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { getSessionUserId } from "@/lib/auth/session";
+import {
+    checkRateLimit,
+    RATE_LIMITS,
+    getRateLimitIdentifier,
+    rateLimitExceededResponse,
+} from "@/lib/rate-limit";
+import { agentGraphDefinitionSchema } from "@/types/agent";
+import { checkAgentGraph } from "@/lib/agents/graph-agents";
+import { z } from "zod";
+
+// Schema for creating an agent graph
+const createAgentGraphSchema = z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    definition: agentGraphDefinitionSchema,
+});
+
+// GET /api/agents/graphs - List the user's agent graphs
+export async function GET(request: Request) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitId = getRateLimitIdentifier(request, userId);
+        const rateLimitResult = await checkRateLimit(rateLimitId, "api", RATE_LIMITS.api);
+
+        if (!rateLimitResult.success) {
+            return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.api);
+        }
+
+        const graphs = await db.query.agentGraphs.findMany({
+            where: eq(agentGraphs.userId, userId),
+            orderBy: [desc(agentGraphs.updatedAt)],
+        });
+
+        return NextResponse.json({
+            success: true,
+            graphs,
+        });
+    } catch (error) {
+        console.error("List agent graphs error:", error);
+        return NextResponse.json(
+            { error: "Failed to list agent graphs", code: "LIST_FAILED" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/agents/graphs - Create an agent graph
+// Nodes must reference the user's saved agents (templates)
+export async function POST(request: Request) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitId = getRateLimitIdentifier(request, userId);
+        const rateLimitResult = await checkRateLimit(rateLimitId, "api", RATE_LIMITS.api);
+
+        if (!rateLimitResult.success) {
+            return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.api);
+        }
+
+        const body = await request.json();
+        const parseResult = createAgentGraphSchema.safeParse(body);
+
+        if (!parseResult.success) {
+            return NextResponse.json(
+                {
+                    error: "Validation failed",
+                    code: "VALIDATION_ERROR",
+                    details: parseResult.error.flatten().fieldErrors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const { name, description, definition } = parseResult.data;
+
+        const graphErrors = await checkAgentGraph(userId, definition);
+        if (graphErrors.length > 0) {
+            return NextResponse.json(
+                { error: "Invalid agent graph", code: "INVALID_GRAPH", details: graphErrors },
+                { status: 400 }
+            );
+        }
+
+        const [graph] = await db
+            .insert(agentGraphs)
+            .values({ userId, name, description, definition })
+            .returning();
+
+        if (!graph) {
+            return NextResponse.json(
+                { error: "Failed to create agent graph", code: "CREATE_FAILED" },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            graph,
+        });
+    } catch (error) {
+        console.error("Create agent graph error:", error);
+        return NextResponse.json(
+            { error: "Failed to create agent graph", code: "CREATE_FAILED" },
+            { status: 500 }
+        );
+    }
+}
@@ -173,6 +173,7 @@ export async function POST(request: Request) {
                     temperature: agentConfig.temperature,
                     maxTokens: agentConfig.maxTokens,
                     tools: agentConfig.tools,
+                    toolPolicy: agentConfig.toolPolicy,
                     canSeeOtherAgents: agentConfig.canSeeOtherAgents,
                     priority: agentConfig.priority,
                     isActive: agentConfig.isActive,
@@ -11,6 +11,7 @@ import { getSessionUserId } from '@/lib/auth/session';
 import { db } from '@/lib/db';
 import { autoReplyRules } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { TRIGGER_TYPES, ruleConditionSchema } from '@/lib/channels/rule-conditions';
 
 /**
  * GET /api/auto-reply/[id] - Get rule details
@@ -76,6 +77,30 @@ export async function PATCH(
             'cooldownSeconds',
         ];
 
+        if (payload.triggerType !== undefined && !(TRIGGER_TYPES as readonly string[]).includes(payload.triggerType)) {
+            return NextResponse.json(
+                { error: `Invalid triggerType. Must be one of: ${TRIGGER_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        // A condition tree must stay valid whether the type or the tree changes
+        if (payload.triggerType === 'conditions' || (payload.triggerType === undefined && payload.triggerConfig !== undefined)) {
+            const [existing] = await db.select({ triggerType: autoReplyRules.triggerType })
+                .from(autoReplyRules)
+                .where(and(eq(autoReplyRules.id, id), eq(autoReplyRules.userId, userId)));
+            const triggerType = payload.triggerType ?? existing?.triggerType;
+            if (triggerType === 'conditions') {
+                const parsed = ruleConditionSchema.safeParse(payload.triggerConfig);
+                if (!parsed.success) {
+                    return NextResponse.json(
+                        { error: 'Invalid condition tree in triggerConfig', details: parsed.error.flatten() },
+                        { status: 400 }
+                    );
+                }
+            }
+        }
+
         const updates: Record<string, unknown> = { updatedAt: new Date() };
 
         for (const field of allowedFields) {
@@ -10,6 +10,7 @@ import { getSessionUserId } from '@/lib/auth/session';
 import { db } from '@/lib/db';
 import { autoReplyRules } from '@/lib/db/schema';
 import { eq, desc } from 'drizzle-orm';
+import { TRIGGER_TYPES, ruleConditionSchema } from '@/lib/channels/rule-conditions';
 
 /**
  * GET /api/auto-reply - List all auto-reply rules
@@ -54,14 +55,24 @@ export async function POST(request: NextRequest) {
         }
 
         // Validate trigger type
-        const validTriggerTypes = ['keyword', 'regex', 'sender', 'time', 'all'];
-        if (!validTriggerTypes.includes(payload.triggerType)) {
+        if (!(TRIGGER_TYPES as readonly string[]).includes(payload.triggerType)) {
             return NextResponse.json(
-                { error: `Invalid triggerType. Must be one of: ${validTriggerTypes.join(', ')}` },
+                { error: `Invalid triggerType. Must be one of: ${TRIGGER_TYPES.join(', ')}` },
                 { status: 400 }
             );
         }
 
+        // Condition trees live in triggerConfig
+        if (payload.triggerType === 'conditions') {
+            const parsed = ruleConditionSchema.safeParse(payload.triggerConfig);
+            if (!parsed.success) {
+                return NextResponse.json(
+                    { error: 'Invalid condition tree in triggerConfig', details: parsed.error.flatten() },
+                    { status: 400 }
+                );
+            }
+        }
+
         // Validate action type
         const validActionTypes = ['reply', 'forward', 'agent', 'skill'];
         if (!validActionTypes.includes(payload.actionType)) {
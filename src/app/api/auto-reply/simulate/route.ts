@@ -0,0 +1,150 @@
+/**
+ * Auto-Reply Rule Simulator API
+ *
+ * POST /api/auto-reply/simulate - Replay recent inbound channel messages
+ * against a draft rule and report which ones would trigger it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { autoReplyRules, channelAccounts, channelMessages, channelThreads } from '@/lib/db/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { z, ZodError } from 'zod';
+import { TRIGGER_TYPES, ruleConditionSchema, type ConditionTrace } from '@/lib/channels/rule-conditions';
+import { createRuleEvaluator } from '@/lib/channels/rules';
+import type { ChannelMessage } from '@/lib/channels/base';
+
+const simulateSchema = z.object({
+    rule: z.object({
+        triggerType: z.enum(TRIGGER_TYPES),
+        triggerPattern: z.string().nullish(),
+        triggerConfig: z.unknown().optional(),
+        channelAccountId: z.string().uuid().nullish(),
+        priority: z.number().int().optional(),
+        /** Existing rule being edited, excluded from the competing rules */
+        id: z.string().uuid().optional(),
+    }).refine(
+        rule => rule.triggerType !== 'conditions' || ruleConditionSchema.safeParse(rule.triggerConfig).success,
+        { message: 'Invalid condition tree in triggerConfig', path: ['triggerConfig'] }
+    ),
+    limit: z.number().int().min(1).max(100).default(25),
+});
+
+/**
+ * POST /api/auto-reply/simulate - Dry-run a rule against message history
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { rule, limit } = simulateSchema.parse(await request.json());
+
+        const accounts = await db.select()
+            .from(channelAccounts)
+            .where(eq(channelAccounts.userId, userId));
+        const accountIds = rule.channelAccountId
+            ? accounts.filter(a => a.id === rule.channelAccountId).map(a => a.id)
+            : accounts.map(a => a.id);
+
+        if (accountIds.length === 0) {
+            return NextResponse.json({ results: [], matched: 0, wouldFire: 0, total: 0 });
+        }
+
+        const history = await db.select({ message: channelMessages, chatId: channelThreads.externalChatId })
+            .from(channelMessages)
+            .leftJoin(channelThreads, eq(channelMessages.channelThreadId, channelThreads.id))
+            .where(and(
+                inArray(channelMessages.channelAccountId, accountIds),
+                eq(channelMessages.direction, 'inbound')
+            ))
+            .orderBy(desc(channelMessages.createdAt))
+            .limit(limit);
+
+        // Enabled rules that would be checked before the draft
+        const draftPriority = rule.priority ?? 0;
+        const competingRules = (await db.select()
+            .from(autoReplyRules)
+            .where(and(eq(autoReplyRules.userId, userId), eq(autoReplyRules.isEnabled, true)))
+            .orderBy(desc(autoReplyRules.priority)))
+            .filter(r => r.id !== rule.id && (r.priority ?? 0) >= draftPriority);
+
+        const accountMap = new Map(accounts.map(a => [a.id, a]));
+        const draftRule = {
+            triggerType: rule.triggerType,
+            triggerPattern: rule.triggerPattern ?? null,
+            triggerConfig: rule.triggerConfig ?? null,
+            channelAccountId: rule.channelAccountId ?? null,
+        };
+
+        const results = [];
+        for (const { message: stored, chatId } of history) {
+            const account = accountMap.get(stored.channelAccountId);
+            const message: ChannelMessage = {
+                id: stored.externalMessageId,
+                channelType: account?.channelType || 'unknown',
+                channelId: chatId || account?.channelId || '',
+                threadId: stored.externalThreadId ?? undefined,
+                content: stored.content,
+                contentType: (stored.contentType as ChannelMessage['contentType']) || 'text',
+                attachments: stored.attachments ?? undefined,
+                sender: {
+                    id: stored.senderExternalId || '',
+                    name: stored.senderDisplayName || '',
+                },
+                timestamp: stored.createdAt,
+            };
+
+            const evaluator = createRuleEvaluator({
+                userId,
+                channelAccountId: stored.channelAccountId,
+                message,
+                now: stored.createdAt,
+            });
+
+            const trace: ConditionTrace[] = [];
+            const matched = await evaluator.matches(draftRule, trace);
+
+            let shadowedBy: { id: string; name: string } | null = null;
+            if (matched) {
+                for (const competing of competingRules) {
+                    if (await evaluator.matches(competing)) {
+                        shadowedBy = { id: competing.id, name: competing.name };
+                        break;
+                    }
+                }
+            }
+
+            results.push({
+                channelMessageId: stored.id,
+                channelType: message.channelType,
+                senderName: stored.senderDisplayName || 'Unknown',
+                content: stored.content,
+                timestamp: stored.createdAt.toISOString(),
+                matched,
+                wouldFire: matched && !shadowedBy,
+                shadowedBy,
+                trace,
+            });
+        }
+
+        return NextResponse.json({
+            results,
+            matched: results.filter(r => r.matched).length,
+            wouldFire: results.filter(r => r.wouldFire).length,
+            total: results.length,
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Auto-reply simulate error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
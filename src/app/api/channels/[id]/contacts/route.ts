@@ -2,6 +2,7 @@
  * Channel Contacts API
  *
  * GET /api/channels/[id]/contacts - Fetch known contacts (distinct senders from channel messages)
+ * merged with their cross-channel identity and CRM contact
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -9,6 +10,7 @@ import { getSessionUserId } from '@/lib/auth/session';
 import { db } from '@/lib/db';
 import { channelAccounts, channelMessages } from '@/lib/db/schema';
 import { eq, and, sql } from 'drizzle-orm';
+import { getIdentitiesForSenders } from '@/lib/channels/identity';
 
 export async function GET(
     request: NextRequest,
@@ -23,7 +25,7 @@ export async function GET(
         const { id } = await params;
 
         // Verify channel belongs to user
-        const [account] = await db.select({ id: channelAccounts.id })
+        const [account] = await db.select({ id: channelAccounts.id, channelType: channelAccounts.channelType })
             .from(channelAccounts)
             .where(and(
                 eq(channelAccounts.id, id),
@@ -57,7 +59,34 @@ export async function GET(
             )
             .orderBy(sql`MAX(${channelMessages.createdAt}) DESC`);
 
-        return NextResponse.json({ contacts });
+        // Attach the person behind each sender: other channels they use and their CRM contact
+        const identities = await getIdentitiesForSenders(userId, account.channelType, contacts.map(c => c.id));
+        const merged = contacts.map(contact => {
+            const identity = identities.get(`${account.channelType}:${contact.id}`)
+                ?? identities.get(`${account.channelType}:${contact.id.toLowerCase()}`);
+            return {
+                ...contact,
+                identity: identity
+                    ? {
+                        id: identity.id,
+                        displayName: identity.displayName,
+                        crmContact: identity.crmContact && {
+                            id: identity.crmContact.id,
+                            name: identity.crmContact.name,
+                            tags: identity.crmContact.tags,
+                        },
+                        links: identity.links.map(link => ({
+                            id: link.id,
+                            channelType: link.channelType,
+                            externalId: link.externalId,
+                            displayName: link.displayName,
+                        })),
+                    }
+                    : null,
+            };
+        });
+
+        return NextResponse.json({ contacts: merged });
     } catch (error) {
         console.error('[API] Get channel contacts error:', error);
         return NextResponse.json({ error: 'Internal error' }, { status: 500 });
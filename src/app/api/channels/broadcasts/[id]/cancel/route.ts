@@ -0,0 +1,32 @@
+/**
+ * Broadcast Cancel API
+ *
+ * POST /api/channels/broadcasts/[id]/cancel - Stop a scheduled or sending broadcast
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { cancelBroadcast } from '@/lib/channels/broadcast';
+
+/**
+ * POST /api/channels/broadcasts/[id]/cancel - Messages still in the queue are dropped
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const broadcast = await cancelBroadcast(userId, id);
+        if (!broadcast) {
+            return NextResponse.json({ error: 'No scheduled or sending broadcast with this ID' }, { status: 404 });
+        }
+
+        return NextResponse.json({ broadcast });
+    } catch (error) {
+        console.error('[API] Broadcast cancel error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,118 @@
+/**
+ * Broadcast API
+ *
+ * GET /api/channels/broadcasts/[id] - Broadcast with its delivery report
+ * PATCH /api/channels/broadcasts/[id] - Edit a draft or scheduled broadcast
+ * DELETE /api/channels/broadcasts/[id] - Delete a broadcast that is not sending
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { broadcasts } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { ZodError } from 'zod';
+import { broadcastInputSchema, cancelBroadcast, getBroadcastReport } from '@/lib/channels/broadcast';
+
+async function getBroadcast(userId: string, id: string) {
+    const [broadcast] = await db.select()
+        .from(broadcasts)
+        .where(and(eq(broadcasts.id, id), eq(broadcasts.userId, userId)))
+        .limit(1);
+    return broadcast;
+}
+
+/**
+ * GET /api/channels/broadcasts/[id] - Per-recipient delivery status and totals
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const broadcast = await getBroadcast(userId, id);
+        if (!broadcast) {
+            return NextResponse.json({ error: 'Broadcast not found' }, { status: 404 });
+        }
+
+        const report = await getBroadcastReport(broadcast.id);
+        return NextResponse.json({ broadcast, report });
+    } catch (error) {
+        console.error('[API] Broadcast get error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * PATCH /api/channels/broadcasts/[id] - Only before it starts sending
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const updates = broadcastInputSchema.partial().parse(await request.json());
+
+        const broadcast = await getBroadcast(userId, id);
+        if (!broadcast) {
+            return NextResponse.json({ error: 'Broadcast not found' }, { status: 404 });
+        }
+        if (broadcast.status !== 'draft' && broadcast.status !== 'scheduled') {
+            return NextResponse.json({ error: `Cannot edit a ${broadcast.status} broadcast` }, { status: 409 });
+        }
+
+        const [updated] = await db.update(broadcasts)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(broadcasts.id, broadcast.id))
+            .returning();
+
+        return NextResponse.json({ broadcast: updated });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Broadcast update error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/channels/broadcasts/[id] - Removes its schedule, queued messages and report too
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const broadcast = await getBroadcast(userId, id);
+        if (!broadcast) {
+            return NextResponse.json({ error: 'Broadcast not found' }, { status: 404 });
+        }
+        if (broadcast.status === 'sending') {
+            return NextResponse.json({ error: 'Cancel the broadcast before deleting it' }, { status: 409 });
+        }
+
+        // Drop its schedule and any messages still waiting in the queue
+        if (broadcast.status === 'scheduled' || broadcast.status === 'sent') {
+            await cancelBroadcast(userId, broadcast.id);
+        }
+        await db.delete(broadcasts).where(eq(broadcasts.id, broadcast.id));
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[API] Broadcast delete error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Broadcast Send API
+ *
+ * POST /api/channels/broadcasts/[id]/send - Send now, or schedule with { scheduledAt }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { broadcasts } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { z, ZodError } from 'zod';
+import { scheduleBroadcast, sendBroadcast } from '@/lib/channels/broadcast';
+import { ensureSchedulerStarted } from '@/lib/scheduler/boot';
+
+const sendSchema = z.object({
+    scheduledAt: z.string().datetime({ offset: true }).optional(),
+});
+
+/**
+ * POST /api/channels/broadcasts/[id]/send
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { scheduledAt } = sendSchema.parse(await request.json().catch(() => ({})));
+
+        const [broadcast] = await db.select()
+            .from(broadcasts)
+            .where(and(eq(broadcasts.id, id), eq(broadcasts.userId, userId)))
+            .limit(1);
+        if (!broadcast) {
+            return NextResponse.json({ error: 'Broadcast not found' }, { status: 404 });
+        }
+        if (broadcast.status !== 'draft' && broadcast.status !== 'scheduled') {
+            return NextResponse.json({ error: `Broadcast is already ${broadcast.status}` }, { status: 409 });
+        }
+
+        if (scheduledAt) {
+            const at = new Date(scheduledAt);
+            if (at.getTime() <= Date.now()) {
+                return NextResponse.json({ error: 'scheduledAt must be in the future' }, { status: 400 });
+            }
+            ensureSchedulerStarted('broadcast');
+            const scheduled = await scheduleBroadcast(userId, broadcast.id, at);
+            return NextResponse.json({ broadcast: scheduled });
+        }
+
+        // Personalizing and queueing a large segment takes a while; poll the report for progress
+        void sendBroadcast(broadcast.id).catch(error => {
+            console.error(`[API] Broadcast ${broadcast.id} send error:`, error);
+        });
+
+        return NextResponse.json({ broadcast: { ...broadcast, status: 'sending' } }, { status: 202 });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Broadcast send error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * Broadcast Opt-Outs API
+ *
+ * GET /api/channels/broadcasts/opt-outs - Contacts who opted out of broadcasts
+ * POST /api/channels/broadcasts/opt-outs - Opt a CRM contact out
+ * DELETE /api/channels/broadcasts/opt-outs?crmContactId= - Opt them back in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { z, ZodError } from 'zod';
+import { listOptOuts, setContactOptOut } from '@/lib/channels/broadcast';
+
+const optOutSchema = z.object({
+    crmContactId: z.string().uuid(),
+});
+
+/**
+ * GET /api/channels/broadcasts/opt-outs
+ */
+export async function GET() {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const optOuts = await listOptOuts(userId);
+        return NextResponse.json({
+            optOuts: optOuts.map(({ optOut, contactName }) => ({ ...optOut, contactName })),
+        });
+    } catch (error) {
+        console.error('[API] Opt-outs list error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/channels/broadcasts/opt-outs - Applies to every channel
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { crmContactId } = optOutSchema.parse(await request.json());
+        await setContactOptOut(userId, crmContactId, true);
+
+        return NextResponse.json({ success: true }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        if (error instanceof Error && error.message === 'CRM contact not found') {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        console.error('[API] Opt-out create error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/channels/broadcasts/opt-outs?crmContactId= - Clears keyword opt-outs too
+ */
+export async function DELETE(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const { crmContactId } = optOutSchema.parse({ crmContactId: searchParams.get('crmContactId') });
+        await setContactOptOut(userId, crmContactId, false);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        if (error instanceof Error && error.message === 'CRM contact not found') {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        console.error('[API] Opt-out delete error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * Broadcast Preview API
+ *
+ * POST /api/channels/broadcasts/preview - Audience size and sample messages
+ * for a draft, without sending anything
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { z, ZodError } from 'zod';
+import { broadcastInputSchema, previewBroadcast } from '@/lib/channels/broadcast';
+
+const previewSchema = broadcastInputSchema
+    .pick({ template: true, variables: true, segment: true, personalize: true, personalizationPrompt: true })
+    .extend({ sampleSize: z.number().int().min(0).max(10).default(3) });
+
+/**
+ * POST /api/channels/broadcasts/preview - Dry-run a broadcast
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { sampleSize, ...content } = previewSchema.parse(await request.json());
+        const preview = await previewBroadcast(userId, content, sampleSize);
+
+        return NextResponse.json(preview);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Broadcast preview error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Broadcasts API
+ *
+ * GET /api/channels/broadcasts - List broadcasts
+ * POST /api/channels/broadcasts - Create a draft broadcast
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { broadcasts } from '@/lib/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { ZodError } from 'zod';
+import { broadcastInputSchema } from '@/lib/channels/broadcast';
+
+/**
+ * GET /api/channels/broadcasts - Most recent broadcasts first
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+        const rows = await db.select()
+            .from(broadcasts)
+            .where(eq(broadcasts.userId, userId))
+            .orderBy(desc(broadcasts.createdAt))
+            .limit(limit);
+
+        return NextResponse.json({ broadcasts: rows });
+    } catch (error) {
+        console.error('[API] Broadcasts list error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/channels/broadcasts - Create a draft; send or schedule it via /send
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const input = broadcastInputSchema.parse(await request.json());
+
+        const [broadcast] = await db.insert(broadcasts)
+            .values({ userId, ...input })
+            .returning();
+
+        return NextResponse.json({ broadcast }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Broadcast create error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -1,11 +1,19 @@
 /**
  * GET /api/channels/connect/[type] - Start OAuth flow for a channel
+ * POST /api/channels/connect/[type] - Verify credentials and connect a
+ * channel that is set up against its server (Matrix, IRC, email)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSessionUserId } from '@/lib/auth/session';
 import { redis } from '@/lib/redis';
-import { SlackConnector, DiscordConnector } from '@/lib/channels';
+import { db } from '@/lib/db';
+import { channelAccounts } from '@/lib/db/schema';
+import { encrypt } from '@/lib/crypto';
+import { SlackConnector, DiscordConnector, MatrixConnector, IrcConnector, EmailConnector } from '@/lib/channels';
+import type { ChannelConnector } from '@/lib/channels';
+import { connectSetupSchemas } from '@/lib/channels/manual-schema';
+import { ZodError } from 'zod';
 
 // Connector factories for OAuth-enabled channels
 const OAUTH_CONNECTORS: Record<string, () => { getAuthUrl?: (state: string) => string }> = {
@@ -13,6 +21,13 @@ const OAUTH_CONNECTORS: Record<string, () => { getAuthUrl?: (state: string) => s
     discord: () => new DiscordConnector(),
 };
 
+// Connector factories for channels that verify credentials during setup
+const SETUP_CONNECTORS: Record<string, () => ChannelConnector> = {
+    matrix: () => new MatrixConnector(),
+    irc: () => new IrcConnector(),
+    email: () => new EmailConnector(),
+};
+
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ type: string }> }
@@ -57,3 +72,101 @@ export async function GET(
         return NextResponse.json({ error: 'Internal error' }, { status: 500 });
     }
 }
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ type: string }> }
+) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { type: channelType } = await params;
+        const connectorFactory = SETUP_CONNECTORS[channelType];
+        const schema = connectSetupSchemas[channelType as keyof typeof connectSetupSchemas];
+        if (!connectorFactory || !schema) {
+            return NextResponse.json(
+                { error: 'Channel type does not support setup or is unknown' },
+                { status: 400 }
+            );
+        }
+
+        const payload = schema.parse(await request.json());
+        const connector = connectorFactory();
+        if (!connector.setupAccount) {
+            return NextResponse.json(
+                { error: 'Channel type does not support setup' },
+                { status: 400 }
+            );
+        }
+
+        let setup;
+        try {
+            setup = await connector.setupAccount(payload);
+        } catch (setupError) {
+            // Wrong credentials or unreachable server: report it to the user
+            const message = setupError instanceof Error ? setupError.message : 'Setup failed';
+            return NextResponse.json({ error: message }, { status: 400 });
+        }
+
+        const accessToken = setup.credentials.accessToken;
+        const displayName = payload.displayName || setup.displayName;
+        const config = setup.settings ?? null;
+
+        const [account] = await db.insert(channelAccounts)
+            .values({
+                userId,
+                channelType,
+                channelId: setup.channelId,
+                accountId: setup.accountId,
+                accessToken: accessToken ? encrypt(accessToken) : null,
+                refreshToken: null,
+                config,
+                displayName,
+                isActive: true,
+            })
+            .onConflictDoUpdate({
+                target: [channelAccounts.userId, channelAccounts.channelType, channelAccounts.channelId],
+                set: {
+                    accountId: setup.accountId,
+                    accessToken: accessToken ? encrypt(accessToken) : null,
+                    refreshToken: null,
+                    config,
+                    displayName,
+                    isActive: true,
+                    updatedAt: new Date(),
+                },
+            })
+            .returning({
+                id: channelAccounts.id,
+                channelType: channelAccounts.channelType,
+                channelId: channelAccounts.channelId,
+                displayName: channelAccounts.displayName,
+                isActive: channelAccounts.isActive,
+            });
+
+        // Auto-start the channel connector in the background
+        try {
+            const { getBackgroundService } = await import('@/lib/channels/background-service');
+            getBackgroundService().startChannel(userId, account.id).catch((startErr) => {
+                console.warn('[API] Channel auto-start failed:', startErr);
+            });
+        } catch (importErr) {
+            console.warn('[API] Could not import background service:', importErr);
+        }
+
+        return NextResponse.json({ account }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+
+        console.error('[API] Channel setup error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Contact Identity Links API
+ *
+ * POST /api/channels/identities/[id]/links - Link a channel sender ID or email address
+ * DELETE /api/channels/identities/[id]/links?linkId= - Split a link into its own identity
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { z, ZodError } from 'zod';
+import { addIdentityLink, getIdentity, removeIdentityLink } from '@/lib/channels/identity';
+
+const addLinkSchema = z.object({
+    channelType: z.string().trim().min(1).max(50),
+    externalId: z.string().trim().min(1).max(500),
+    displayName: z.string().trim().max(200).optional(),
+});
+
+/**
+ * POST /api/channels/identities/[id]/links - Add a link, moving it from any other identity
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const link = addLinkSchema.parse(await request.json());
+
+        if (!(await getIdentity(userId, id))) {
+            return NextResponse.json({ error: 'Identity not found' }, { status: 404 });
+        }
+
+        await addIdentityLink(userId, id, link, 'manual');
+        return NextResponse.json({ identity: await getIdentity(userId, id) }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Contact identity link error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/channels/identities/[id]/links?linkId= - Unlink
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const linkId = new URL(request.url).searchParams.get('linkId');
+        if (!linkId) {
+            return NextResponse.json({ error: 'linkId is required' }, { status: 400 });
+        }
+
+        if (!(await removeIdentityLink(userId, id, linkId))) {
+            return NextResponse.json({ error: 'Link not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ identity: await getIdentity(userId, id) });
+    } catch (error) {
+        console.error('[API] Contact identity unlink error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
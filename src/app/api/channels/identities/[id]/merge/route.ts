@@ -0,0 +1,47 @@
+/**
+ * Contact Identity Merge API
+ *
+ * POST /api/channels/identities/[id]/merge - Fold another identity into this one
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { z, ZodError } from 'zod';
+import { mergeIdentities } from '@/lib/channels/identity';
+
+const mergeSchema = z.object({
+    identityId: z.string().uuid(),
+    /** Set when the user accepted a suggested match */
+    fromSuggestion: z.boolean().optional(),
+});
+
+/**
+ * POST /api/channels/identities/[id]/merge - Merge identities
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { identityId, fromSuggestion } = mergeSchema.parse(await request.json());
+
+        const identity = await mergeIdentities(userId, id, identityId, fromSuggestion ? 'suggestion' : 'manual');
+        if (!identity) {
+            return NextResponse.json({ error: 'Identity not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ identity });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Contact identity merge error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
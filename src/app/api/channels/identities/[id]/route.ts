@@ -0,0 +1,100 @@
+/**
+ * Contact Identity API
+ *
+ * GET /api/channels/identities/[id] - Identity with its threads and suggested matches
+ * PATCH /api/channels/identities/[id] - Rename or link / unlink a CRM contact
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { channelAccounts, channelThreads } from '@/lib/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { z, ZodError } from 'zod';
+import { getIdentity, suggestIdentityMatches, updateIdentity } from '@/lib/channels/identity';
+
+const updateIdentitySchema = z.object({
+    displayName: z.string().trim().max(200).nullable().optional(),
+    crmContactId: z.string().uuid().nullable().optional(),
+});
+
+/**
+ * GET /api/channels/identities/[id] - Identity details
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const identity = await getIdentity(userId, id);
+        if (!identity) {
+            return NextResponse.json({ error: 'Identity not found' }, { status: 404 });
+        }
+
+        const threads = await db.select({
+            id: channelThreads.id,
+            channelAccountId: channelThreads.channelAccountId,
+            channelType: channelAccounts.channelType,
+            channelName: channelAccounts.displayName,
+            conversationId: channelThreads.conversationId,
+            externalChatId: channelThreads.externalChatId,
+            senderExternalId: channelThreads.senderExternalId,
+            mode: channelThreads.mode,
+            lastInboundAt: channelThreads.lastInboundAt,
+        })
+            .from(channelThreads)
+            .innerJoin(channelAccounts, eq(channelThreads.channelAccountId, channelAccounts.id))
+            .where(and(eq(channelThreads.contactIdentityId, id), eq(channelAccounts.userId, userId)))
+            .orderBy(desc(channelThreads.lastInboundAt));
+
+        const suggestions = await suggestIdentityMatches(userId, id);
+
+        return NextResponse.json({ identity, threads, suggestions });
+    } catch (error) {
+        console.error('[API] Contact identity fetch error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * PATCH /api/channels/identities/[id] - Update name or CRM contact
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const updates = updateIdentitySchema.parse(await request.json());
+
+        let identity;
+        try {
+            identity = await updateIdentity(userId, id, updates);
+        } catch (error) {
+            if (error instanceof Error && error.message === 'CRM contact not found') {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+
+        if (!identity) {
+            return NextResponse.json({ error: 'Identity not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ identity: await getIdentity(userId, id) });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Contact identity update error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
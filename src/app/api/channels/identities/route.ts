@@ -0,0 +1,35 @@
+/**
+ * Contact Identities API
+ *
+ * GET /api/channels/identities - People known across channels, with their
+ * linked sender IDs, CRM contact and (optionally) suggested matches
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { listIdentities, suggestIdentityMatches } from '@/lib/channels/identity';
+
+/**
+ * GET /api/channels/identities - List identities
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+
+        const identities = await listIdentities(userId, { limit });
+        const suggestions = searchParams.get('suggestions') === 'true'
+            ? await suggestIdentityMatches(userId)
+            : undefined;
+
+        return NextResponse.json({ identities, suggestions });
+    } catch (error) {
+        console.error('[API] Contact identities fetch error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * Channel Outbox Message API
+ *
+ * POST /api/channels/outbox/[id] - Retry a failed or dead-lettered message
+ * DELETE /api/channels/outbox/[id] - Discard it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { channelOutbox } from '@/lib/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { getChannelManager } from '@/lib/channels/manager';
+
+/**
+ * POST /api/channels/outbox/[id] - Queue the message again
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const message = await getChannelManager().retryOutboundMessage(userId, id);
+        if (!message) {
+            return NextResponse.json({ error: 'No failed message with this ID' }, { status: 404 });
+        }
+
+        return NextResponse.json({ message });
+    } catch (error) {
+        console.error('[API] Outbox retry error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/channels/outbox/[id] - Drop a failed or dead-lettered message
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const [deleted] = await db.delete(channelOutbox)
+            .where(and(
+                eq(channelOutbox.id, id),
+                eq(channelOutbox.userId, userId),
+                inArray(channelOutbox.status, ['failed', 'dead'])
+            ))
+            .returning({ id: channelOutbox.id });
+
+        if (!deleted) {
+            return NextResponse.json({ error: 'No failed message with this ID' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[API] Outbox discard error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
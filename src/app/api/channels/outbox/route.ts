@@ -0,0 +1,46 @@
+/**
+ * Channel Outbox API
+ *
+ * GET /api/channels/outbox - Outbound messages by delivery status (dead letters by default)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { channelOutbox } from '@/lib/db/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+
+const OUTBOX_STATUSES = ['queued', 'sending', 'sent', 'failed', 'dead'];
+
+/**
+ * GET /api/channels/outbox?status=dead,failed - List outbox messages
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const statuses = (searchParams.get('status') || 'dead')
+            .split(',')
+            .filter(status => OUTBOX_STATUSES.includes(status));
+        const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+        if (statuses.length === 0) {
+            return NextResponse.json({ error: `status must be one of: ${OUTBOX_STATUSES.join(', ')}` }, { status: 400 });
+        }
+
+        const messages = await db.select()
+            .from(channelOutbox)
+            .where(and(eq(channelOutbox.userId, userId), inArray(channelOutbox.status, statuses)))
+            .orderBy(desc(channelOutbox.createdAt))
+            .limit(limit);
+
+        return NextResponse.json({ messages });
+    } catch (error) {
+        console.error('[API] Outbox fetch error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
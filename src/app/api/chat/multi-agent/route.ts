@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { conversations, messages, agents } from "@/lib/db/schema";
-import { eq, and, isNull, asc } from "drizzle-orm";
+import { conversations, messages, agents, agentGraphs } from "@/lib/db/schema";
+import { eq, and, isNull, asc, inArray } from "drizzle-orm";
 import { getSessionUserId } from "@/lib/auth/session";
 import {
     checkRateLimit,
@@ -12,9 +12,11 @@ import {
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
 import { executeOrchestration, agentMessagesToUIMessages } from "@/lib/agents/graph";
-import { orchestrationModeSchema, type AgentConfig, type AgentMessage, type OrchestrationMode } from "@/types/agent";
+import { orchestrationModeSchema, agentGraphDefinitionSchema, type AgentConfig, type AgentGraphDefinition, type AgentMessage, type OrchestrationMode } from "@/types/agent";
+import { validateAgentGraph } from "@/lib/agents/graph-definition";
 import { getUserApiKeys } from "@/lib/ai/get-user-keys";
 import { generateConversationTitle } from "@/lib/ai/summary";
+import { checkBudget } from "@/lib/ai/usage";
 import { getLocalAccessContext } from "@/lib/admin/settings";
 
 // Request schema
@@ -23,6 +25,7 @@ const multiAgentChatSchema = z.object({
     message: z.string().min(1).max(100000),
     orchestrationMode: orchestrationModeSchema.default("sequential"),
     agentIds: z.array(z.string().uuid()).optional(), // Specific agents to use
+    agentGraphId: z.string().uuid().optional(), // Run a saved agent graph (implies graph mode)
     enableDebug: z.boolean().default(false),
     maxRounds: z.number().min(1).max(10).default(3),
     // Tool usage options
@@ -66,7 +69,50 @@ export async function POST(request: Request) {
             );
         }
 
-        const { conversationId: requestedConvId, message, orchestrationMode, agentIds, enableDebug, maxRounds, toolsEnabled, enabledTools, skillsEnabled, enabledSkills } = parseResult.data;
+        const { conversationId: requestedConvId, message, agentIds, agentGraphId, enableDebug, maxRounds, toolsEnabled, enabledTools, skillsEnabled, enabledSkills } = parseResult.data;
+        const orchestrationMode = agentGraphId ? "graph" : parseResult.data.orchestrationMode;
+
+        // Graph mode runs a saved graph over the user's saved agents
+        let agentGraph: AgentGraphDefinition | undefined;
+        if (orchestrationMode === "graph") {
+            if (!agentGraphId) {
+                return NextResponse.json(
+                    { error: "Graph mode needs an agentGraphId", code: "VALIDATION_ERROR" },
+                    { status: 400 }
+                );
+            }
+
+            const savedGraph = await db.query.agentGraphs.findFirst({
+                where: and(
+                    eq(agentGraphs.id, agentGraphId),
+                    eq(agentGraphs.userId, userId)
+                ),
+            });
+            if (!savedGraph) {
+                return NextResponse.json(
+                    { error: "Agent graph not found", code: "NOT_FOUND" },
+                    { status: 404 }
+                );
+            }
+
+            const definition = agentGraphDefinitionSchema.safeParse(savedGraph.definition);
+            const graphErrors = definition.success ? validateAgentGraph(definition.data) : ["Stored definition is malformed"];
+            if (!definition.success || graphErrors.length > 0) {
+                return NextResponse.json(
+                    { error: "Invalid agent graph", code: "INVALID_GRAPH", details: graphErrors },
+                    { status: 400 }
+                );
+            }
+            agentGraph = definition.data;
+        }
+
+        const budget = await checkBudget(userId, "multi_agent");
+        if (!budget.allowed) {
+            return NextResponse.json(
+                { error: budget.message, code: "BUDGET_EXCEEDED" },
+                { status: 402 }
+            );
+        }
         let conversationId = requestedConvId;
 
         // Create conversation if not provided
@@ -103,14 +149,19 @@ export async function POST(request: Request) {
             }
         }
 
-        // Get agents for this conversation
+        // Get agents for this conversation, or the graph's saved agents in graph mode
         let conversationAgents = await db.query.agents.findMany({
-            where: eq(agents.conversationId, conversationId),
+            where: agentGraph
+                ? and(
+                    eq(agents.userId, userId),
+                    inArray(agents.id, agentGraph.nodes.map((node) => node.agentId))
+                )
+                : eq(agents.conversationId, conversationId),
             orderBy: [asc(agents.createdAt)],
         });
 
         // Filter by agentIds if provided
-        if (agentIds && agentIds.length > 0) {
+        if (!agentGraph && agentIds && agentIds.length > 0) {
             conversationAgents = conversationAgents.filter((a) => agentIds.includes(a.id));
         }
 
@@ -147,6 +198,7 @@ export async function POST(request: Request) {
                 temperature: (config.temperature as number) || 0.7,
                 maxTokens: config.maxTokens as number || undefined,
                 tools: agentTools as AgentConfig["tools"],
+                toolPolicy: config.toolPolicy as AgentConfig["toolPolicy"],
                 canSeeOtherAgents: (config.canSeeOtherAgents as boolean) ?? true,
                 priority: (config.priority as number) || 50,
                 isActive: (config.isActive as boolean) ?? true,
@@ -286,20 +338,21 @@ export async function POST(request: Request) {
                             });
                             controller.enqueue(encoder.encode(data + "\n"));
                         },
-                        // onRound callback - emits round progress events (for consensus mode)
+                        // onRound callback - emits round progress events (consensus, debate and critique modes)
                         (round, maxRounds, phase) => {
                             const roundData = JSON.stringify({
                                 type: "round",
                                 round,
                                 maxRounds,
-                                phase // "start" | "end" | "synthesis"
+                                phase // RoundPhase
                             });
                             controller.enqueue(encoder.encode(roundData + "\n"));
                         },
                         // Pass local access context for file/shell tools
                         localAccess,
                         // Enable memory hooks for web chat (recall memories & capture facts)
-                        true
+                        true,
+                        agentGraph
                     );
 
                     // End the last streaming agent if there was one
@@ -341,7 +394,7 @@ export async function POST(request: Request) {
                         const isFirstMessage = previousMessages.filter(m => m.role === "user").length <= 1;
                         if (isFirstMessage && result.messages.length > 0) {
                             const firstResponse = result.messages[0]?.content || "";
-                            generateConversationTitle(message, firstResponse, userApiKeys)
+                            generateConversationTitle(message, firstResponse, userApiKeys, undefined, userId)
                                 .then(async (title) => {
                                     await db.update(conversations)
                                         .set({ title, updatedAt: new Date() })
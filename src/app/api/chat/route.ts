@@ -12,12 +12,11 @@ type CoreMessage = ModelMessage;
 import { getModelWithKey, getModelConfig } from '@/lib/ai/providers/factory';
 import { getModelWithFailover, getFallbackModels } from '@/lib/ai/failover';
 import { getAllModels } from '@/lib/ai/models';
-import { calculateCost } from '@/lib/ai/providers/types';
+import { recordUsage, checkBudget } from '@/lib/ai/usage';
 import { db } from '@/lib/db';
 import {
   messages as messagesTable,
   conversations,
-  usageRecords,
   agents,
   documents,
   users,
@@ -34,7 +33,17 @@ import {
 } from '@/lib/rate-limit';
 import { z } from 'zod';
 import { getRAGContext, type SearchResult } from '@/lib/rag/search';
-import { getAllTools, getTool, executeTool, type ToolId, type ToolContext } from '@/lib/tools';
+import { toCitationSources, extractCitations, CITATION_INSTRUCTIONS } from '@/lib/rag/citations';
+import {
+  getAllTools,
+  getTool,
+  executeTool,
+  isToolAllowed,
+  scopeToolContext,
+  type ToolId,
+  type ToolContext,
+  type ToolPolicy,
+} from '@/lib/tools';
 import { getLocalAccessContext } from '@/lib/admin/settings';
 // Using the tool() helper function from ai package for proper tool registration
 import { pluginRegistry, initializePlugins, pluginExecutor } from '@/lib/plugins';
@@ -47,6 +56,15 @@ import { appendToWorkingMemory, type MemoryEntry } from '@/lib/memory/local-memo
 import { uploadFile } from '@/lib/storage/s3';
 import { getConfigSection } from '@/lib/config';
 import { randomUUID } from 'crypto';
+import {
+  AUTO_MODEL_ID,
+  QUALITY_TIERS,
+  markRegenerated,
+  recordRouteSample,
+  routeModel,
+  type PromptEmbedding,
+  type RoutingDecision,
+} from '@/lib/agents/routing';
 
 // Get all supported model IDs dynamically
 const SUPPORTED_MODEL_IDS = getAllModels().map((m) => m.id);
@@ -113,7 +131,11 @@ async function autoSaveMemory(
 const chatRequestSchema = z.object({
   messages: z.array(z.any()).min(1, 'At least one message is required'),
   conversationId: z.string().uuid().optional(),
+  // 'auto' lets the semantic router pick the model for each message
   model: z.string().min(1, 'Model is required').optional().default('gpt-4o'),
+  routingTier: z.enum(QUALITY_TIERS).optional(),
+  // Sent by useChat; regenerations count against the reply they replace
+  trigger: z.enum(['submit-message', 'regenerate-message']).optional(),
   temperature: z.number().min(0).max(2).optional(),
   maxTokens: z.number().min(1).max(200000).optional(),
   // Extended thinking (Anthropic)
@@ -188,7 +210,9 @@ export async function POST(req: Request) {
     const {
       messages,
       conversationId: requestedConvId,
-      model,
+      model: requestedModel,
+      routingTier,
+      trigger,
       temperature,
       maxTokens,
       thinkingBudget,
@@ -214,15 +238,23 @@ export async function POST(req: Request) {
     let ragSources: SearchResult[] = [];
     let geminiContext: string = '';
 
-    // 4. Get model configuration
-    const modelConfig = getModelConfig(model);
-    if (!modelConfig) {
+    // 4. Check the requested model (auto is resolved once API keys are loaded)
+    if (requestedModel !== AUTO_MODEL_ID && !getModelConfig(requestedModel)) {
       return new Response(JSON.stringify({ error: 'Model not found', code: 'MODEL_NOT_FOUND' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
+    // 4.5 Stop at the monthly budget
+    const budget = await checkBudget(userId, 'chat');
+    if (!budget.allowed) {
+      return new Response(JSON.stringify({ error: budget.message, code: 'BUDGET_EXCEEDED' }), {
+        status: 402,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // 5. Resolve Conversation ID
     let conversationId = requestedConvId;
 
@@ -374,6 +406,7 @@ export async function POST(req: Request) {
     // Process RAG results
     ragContext = ragResult.context;
     ragSources = ragResult.sources;
+    const citationSources = toCitationSources(ragSources);
 
     // Gemini Store-based retrieval (persistent stores, preferred path)
     const effectiveGeminiStoreIds = geminiStoreIds?.length ? geminiStoreIds : null;
@@ -585,6 +618,41 @@ export async function POST(req: Request) {
       }
     }
 
+    // 6.5 Let the router pick the model when asked to (an agent's own model wins)
+    let routing: RoutingDecision | undefined;
+    let promptEmbedding: PromptEmbedding | null = null;
+    if (requestedModel === AUTO_MODEL_ID && !agentModel) {
+      const routed = await routeModel({
+        userId,
+        prompt: userContent,
+        apiKeys: userApiKeys as Record<string, string | undefined>,
+        tier: routingTier,
+        requiredCapabilities: [
+          ...(userImageCount > 0 || (imageS3Keys?.length ?? 0) > 0 ? ['vision' as const] : []),
+          ...(toolsEnabled ? ['tools' as const] : []),
+        ],
+        expectedOutputTokens: maxTokens,
+      });
+      if (!routed) {
+        return new Response(
+          JSON.stringify({
+            error: 'No model is available for automatic routing. Please add an API key in Settings.',
+            code: 'API_KEY_MISSING',
+          }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      routing = routed.decision;
+      promptEmbedding = routed.promptEmbedding;
+      console.log(`[Chat] Routed to ${routing.modelId}: ${routing.reasoning.join('; ')}`);
+    }
+    const model = routing?.modelId ?? (requestedModel === AUTO_MODEL_ID ? agentModel! : requestedModel);
+    const modelConfig = getModelConfig(model)!;
+
+    if (trigger === 'regenerate-message') {
+      void markRegenerated(conversationId);
+    }
+
     // 7. Get the AI model with user's API key
     const effectiveModel = agentModel || model;
     const effectiveModelConfig = agentModel
@@ -681,15 +749,15 @@ export async function POST(req: Request) {
     if (ragContext) {
       const ragSystemMessage: CoreMessage = {
         role: 'system',
-        content: `Use the following context from documents to help answer the user's question. 
-If the context is relevant, incorporate it into your response and cite the sources.
-If the context is not relevant, you can ignore it and answer based on your knowledge.
+        content: `Use the following numbered sources from documents to help answer the user's question. 
+If the sources are relevant, incorporate them into your response and cite them.
+If the sources are not relevant, you can ignore them and answer based on your knowledge.
 
-Context:
+Sources:
 ${ragContext}
 
 ---
-Remember to cite sources using [Source N] format when using information from the context.`,
+${CITATION_INSTRUCTIONS}`,
       };
 
       // Add RAG system message after any existing system messages
@@ -770,9 +838,13 @@ Rules for voice mode:
       console.warn('[Chat] Failed to load user preferences:', e);
     }
 
+    // The conversation's agent limits which tools are offered and what they may touch
+    const toolPolicy = (activeAgent?.config as { toolPolicy?: ToolPolicy } | null)?.toolPolicy;
     const toolContext: ToolContext = {
       userId,
       conversationId: conversationId || undefined,
+      agentId: activeAgent?.id,
+      policy: toolPolicy,
       apiKeys: userApiKeys,
       localFileAccessEnabled: localAccess.localFileAccessEnabled,
       commandExecutionEnabled: localAccess.commandExecutionEnabled,
@@ -831,7 +903,7 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
 
       for (const toolId of enabledToolIds) {
         const toolDef = getTool(toolId as ToolId);
-        if (!toolDef) continue;
+        if (!toolDef || !isToolAllowed(toolDef.id, toolPolicy)) continue;
         // Use the tool() helper function from AI SDK v6 for proper type inference and execution
         // AI SDK v6 uses 'inputSchema' (not 'parameters') and execute should return an object (not JSON string)
         tools[toolDef.id] = tool({
@@ -881,19 +953,22 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
     const fallbackTimezone = resolveTimezone(null);
 
     const allowDateTimeWithoutSkills = true;
+    // Skills get the same credentials as built-in tools under the agent's policy
+    const skillApiKeys = scopeToolContext(toolContext)?.apiKeys ?? {};
+    const skillsAllowed = skillsEnabled && isToolAllowed('skill', toolPolicy);
     const enabledSkillsSet = enabledSkills?.length
       ? new Set(enabledSkills.map((slug) => slug.toLowerCase()))
       : null;
-    if (skillsEnabled || allowDateTimeWithoutSkills) {
+    if (skillsAllowed || allowDateTimeWithoutSkills) {
       // Ensure plugins are loaded (safe to call multiple times - has init guard)
       await initializePlugins();
 
       for (const plugin of pluginRegistry.list()) {
         const pluginSlug = plugin.manifest.slug.toLowerCase();
-        if (!skillsEnabled && plugin.manifest.slug !== 'datetime') {
+        if (!skillsAllowed && plugin.manifest.slug !== 'datetime') {
           continue;
         }
-        if (skillsEnabled && enabledSkillsSet && !enabledSkillsSet.has(pluginSlug)) {
+        if (skillsAllowed && enabledSkillsSet && !enabledSkillsSet.has(pluginSlug)) {
           continue;
         }
 
@@ -917,10 +992,11 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
                   {
                     userId,
                     conversationId,
+                    agentId: activeAgent?.id,
                     // Pass user API keys so plugins can use them
                     // (e.g., web-search plugin uses Google key for Gemini grounding)
                     config: {
-                      googleApiKey: userApiKeys.google,
+                      googleApiKey: skillApiKeys.google,
                       ...(plugin.manifest.slug === 'datetime'
                         ? { defaultTimezone: profileTimezone ?? fallbackTimezone }
                         : {}),
@@ -1020,6 +1096,8 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
     }
 
     let stepCounter = 0;
+    const assistantMessageId = randomUUID();
+    const streamStartedAt = Date.now();
     const result = streamText({
       ...streamOptions,
       // Debug: Log each step completion for tool execution visibility
@@ -1062,6 +1140,15 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
       },
       onError: ({ error }) => {
         console.error(`[Chat] streamText error (step ${stepCounter}):`, error);
+        void recordRouteSample({
+          userId,
+          conversationId,
+          model: actualModelId,
+          prompt: userContent,
+          promptEmbedding,
+          latencyMs: Date.now() - streamStartedAt,
+          error: true,
+        });
       },
       onFinish: async (completion) => {
         try {
@@ -1074,8 +1161,10 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
           const outputTokens = stats.completionTokens || stats.outputTokens || 0;
 
           // Save assistant message (fire-and-forget, don't block stream completion)
+          const latencyMs = Date.now() - streamStartedAt;
           db.insert(messagesTable)
             .values({
+              id: assistantMessageId,
               conversationId,
               role: 'assistant',
               content: completion.text,
@@ -1087,37 +1176,40 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
                 outputTokens,
                 ragEnabled: useRag || false,
                 geminiFileSearchEnabled: useGemini || false,
-                ragSources:
-                  ragSources.length > 0
-                    ? ragSources.map((s) => ({
-                        documentId: s.documentId,
-                        chunkId: s.chunkId,
-                        filename: s.documentFilename,
-                        score: s.score,
-                      }))
+                ragSources: citationSources.length > 0 ? citationSources : undefined,
+                citations:
+                  citationSources.length > 0
+                    ? extractCitations(completion.text, citationSources)
                     : undefined,
+                routing,
               },
             })
+            .then(() =>
+              // Every reply is a routing sample; feedback on the message labels it later
+              recordRouteSample({
+                userId,
+                conversationId,
+                messageId: assistantMessageId,
+                model: actualModelId,
+                prompt: userContent,
+                promptEmbedding,
+                latencyMs,
+              })
+            )
             .catch((err) => {
               console.error('[Chat] Failed to save assistant message:', err);
             });
 
-          // Track usage for cost reporting (fire-and-forget)
+          // Track usage for cost reporting and budgets (fire-and-forget)
           if (stats) {
-            const costUsd = calculateCost(modelConfig, inputTokens, outputTokens);
-
-            db.insert(usageRecords)
-              .values({
-                userId,
-                provider: modelConfig.provider,
-                model,
-                inputTokens,
-                outputTokens,
-                cost: Math.round(costUsd * 1_000_000), // Store as micro-cents
-              })
-              .catch((err) => {
-                console.error('[Chat] Failed to save usage record:', err);
-              });
+            void recordUsage({
+              userId,
+              feature: 'chat',
+              model: actualModelId,
+              inputTokens,
+              outputTokens,
+              sourceId: conversationId,
+            });
           }
 
           // Generate AI title for new conversations (first message)
@@ -1135,7 +1227,7 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
               }
             }
 
-            generateConversationTitle(firstUserMessage, completion.text, userApiKeys)
+            generateConversationTitle(firstUserMessage, completion.text, userApiKeys, undefined, userId)
               .then(async (title) => {
                 await db
                   .update(conversations)
@@ -1193,6 +1285,16 @@ Perplexity models require a Perplexity API key to be configured in Settings.`,
     // Pass originalMessages to reuse existing message IDs and prevent duplicate React keys
     const streamResponse = result.toUIMessageStreamResponse({
       originalMessages: uiMessages,
+      // Numbered sources let the client resolve [n] markers while streaming;
+      // the stored message ID lets it send feedback on the reply
+      messageMetadata: ({ part }) =>
+        part.type === 'start'
+          ? {
+              messageId: assistantMessageId,
+              ...(citationSources.length > 0 ? { ragSources: citationSources } : {}),
+              ...(routing ? { routing } : {}),
+            }
+          : undefined,
     });
 
     // Add failover info headers
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { documents, chunks } from "@/lib/db/schema";
+import { eq, and, isNull, inArray } from "drizzle-orm";
+import { getSessionUserId } from "@/lib/auth/session";
+import {
+    checkRateLimit,
+    RATE_LIMITS,
+    getRateLimitIdentifier,
+    rateLimitExceededResponse,
+} from "@/lib/rate-limit";
+
+// GET /api/documents/[id]/chunks/[chunkId] - Get a cited chunk with its neighbours for context
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string; chunkId: string }> }
+) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitId = getRateLimitIdentifier(request, userId);
+        const rateLimitResult = await checkRateLimit(rateLimitId, "api", RATE_LIMITS.api);
+
+        if (!rateLimitResult.success) {
+            return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.api);
+        }
+
+        const { id, chunkId } = await params;
+
+        // Verify document ownership
+        const document = await db.query.documents.findFirst({
+            where: and(
+                eq(documents.id, id),
+                eq(documents.userId, userId),
+                isNull(documents.deletedAt)
+            ),
+            columns: { id: true, filename: true, mimeType: true },
+        });
+
+        if (!document) {
+            return NextResponse.json(
+                { error: "Document not found", code: "NOT_FOUND" },
+                { status: 404 }
+            );
+        }
+
+        const chunk = await db.query.chunks.findFirst({
+            where: and(eq(chunks.id, chunkId), eq(chunks.documentId, id)),
+        });
+
+        if (!chunk) {
+            return NextResponse.json(
+                { error: "Chunk not found", code: "NOT_FOUND" },
+                { status: 404 }
+            );
+        }
+
+        const neighbours = await db.query.chunks.findMany({
+            where: and(
+                eq(chunks.documentId, id),
+                inArray(chunks.index, [chunk.index - 1, chunk.index + 1])
+            ),
+            columns: { index: true, content: true },
+        });
+
+        return NextResponse.json({
+            success: true,
+            document,
+            chunk: {
+                id: chunk.id,
+                index: chunk.index,
+                content: chunk.content,
+                startOffset: chunk.startOffset,
+                endOffset: chunk.endOffset,
+                metadata: chunk.metadata,
+            },
+            previous: neighbours.find((n) => n.index === chunk.index - 1)?.content ?? null,
+            next: neighbours.find((n) => n.index === chunk.index + 1)?.content ?? null,
+        });
+    } catch (error) {
+        console.error("Get chunk error:", error);
+        return NextResponse.json(
+            { error: "Failed to get chunk", code: "GET_FAILED" },
+            { status: 500 }
+        );
+    }
+}
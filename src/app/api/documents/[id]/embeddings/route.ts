@@ -10,7 +10,7 @@ import {
     rateLimitExceededResponse,
 } from "@/lib/rate-limit";
 import { storeChunkEmbeddings, getDocumentEmbeddingStats } from "@/lib/rag/storage";
-import { getUserApiKey } from "@/lib/ai/get-user-keys";
+import { getEmbeddingModel, resolveEmbeddingApiKey } from "@/lib/embeddings";
 
 // GET /api/documents/[id]/embeddings - Get embedding status
 export async function GET(
@@ -115,20 +115,23 @@ export async function POST(
             );
         }
 
-        // Get user's OpenAI API key for embeddings
-        const openaiApiKey = await getUserApiKey(userId, "openai");
-        if (!openaiApiKey) {
+        // Cloud embedding models need the user's key; local ones need none
+        const embeddingModel = await getEmbeddingModel();
+        const apiKey = await resolveEmbeddingApiKey(userId, embeddingModel.provider);
+        if (!apiKey && embeddingModel.provider === "openai") {
             return NextResponse.json(
                 { error: "OpenAI API key required for embeddings. Please add your API key in Settings.", code: "API_KEY_MISSING" },
                 { status: 400 }
             );
         }
 
-        const result = await storeChunkEmbeddings(id, openaiApiKey);
+        const result = await storeChunkEmbeddings(id, apiKey, { embeddingModel });
 
         return NextResponse.json({
             success: true,
+            model: embeddingModel.id,
             stored: result.stored,
+            skipped: result.skipped,
             errors: result.errors,
         });
     } catch (error) {
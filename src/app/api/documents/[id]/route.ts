@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { documents, chunks, embeddings } from "@/lib/db/schema";
-import { eq, and, isNull } from "drizzle-orm";
+import { documents, documentVersions, chunks, embeddings } from "@/lib/db/schema";
+import { eq, and, isNull, desc } from "drizzle-orm";
 import { getSessionUserId } from "@/lib/auth/session";
 import {
     checkRateLimit,
@@ -49,15 +49,30 @@ export async function GET(
             );
         }
 
-        // Get chunks count
+        // Get chunks count for the current version
         const documentChunks = await db.query.chunks.findMany({
-            where: eq(chunks.documentId, id),
+            where: and(eq(chunks.documentId, id), eq(chunks.version, document.currentVersion)),
             columns: {
                 id: true,
                 index: true,
             },
         });
 
+        const versions = await db.query.documentVersions.findMany({
+            where: eq(documentVersions.documentId, id),
+            orderBy: [desc(documentVersions.version)],
+            columns: {
+                version: true,
+                filename: true,
+                size: true,
+                chunkCount: true,
+                reusedChunks: true,
+                addedChunks: true,
+                removedChunks: true,
+                createdAt: true,
+            },
+        });
+
         return NextResponse.json({
             success: true,
             document: {
@@ -67,6 +82,8 @@ export async function GET(
                 size: document.size,
                 status: document.status,
                 chunkCount: documentChunks.length,
+                currentVersion: document.currentVersion,
+                versions,
                 metadata: document.metadata,
                 createdAt: document.createdAt,
                 updatedAt: document.updatedAt,
@@ -139,10 +156,17 @@ export async function DELETE(
             .set({ deletedAt: new Date() })
             .where(eq(documents.id, id));
 
-        // Delete from S3 (optional - could keep for recovery)
+        // Delete every version's file from S3 (optional - could keep for recovery)
         try {
-            if (document.storageKey) {
-                await deleteFile(document.storageKey);
+            const versionFiles = await db.query.documentVersions.findMany({
+                where: eq(documentVersions.documentId, id),
+                columns: { storageKey: true },
+            });
+            const storageKeys = new Set([document.storageKey, ...versionFiles.map((v) => v.storageKey)]);
+            for (const storageKey of storageKeys) {
+                if (storageKey) {
+                    await deleteFile(storageKey);
+                }
             }
         } catch (s3Error) {
             console.error("Failed to delete from S3:", s3Error);
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getSessionUserId } from "@/lib/auth/session";
+import {
+    checkRateLimit,
+    getRateLimitIdentifier,
+    rateLimitExceededResponse,
+} from "@/lib/rate-limit";
+import { reembedDocuments } from "@/lib/rag/storage";
+import { getEmbeddingModel, resolveEmbeddingApiKey } from "@/lib/embeddings";
+import { z } from "zod";
+
+const reembedSchema = z.object({
+    documentIds: z.array(z.string().uuid()).max(500).optional(),
+    force: z.boolean().default(false),
+});
+
+const REEMBED_RATE_LIMIT = { windowSeconds: 300, limit: 2 };
+
+// POST /api/documents/reembed - Re-embed documents with the configured embedding model
+export async function POST(request: Request) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitId = getRateLimitIdentifier(request, userId);
+        const rateLimitResult = await checkRateLimit(rateLimitId, "reembed", REEMBED_RATE_LIMIT);
+
+        if (!rateLimitResult.success) {
+            return rateLimitExceededResponse(rateLimitResult, REEMBED_RATE_LIMIT);
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const validationResult = reembedSchema.safeParse(body);
+
+        if (!validationResult.success) {
+            return NextResponse.json(
+                { error: "Invalid request", details: validationResult.error.issues },
+                { status: 400 }
+            );
+        }
+
+        const embeddingModel = await getEmbeddingModel();
+        const apiKey = await resolveEmbeddingApiKey(userId, embeddingModel.provider);
+        if (!apiKey && embeddingModel.provider === "openai") {
+            return NextResponse.json(
+                { error: "OpenAI API key required for embeddings. Please add your API key in Settings.", code: "API_KEY_MISSING" },
+                { status: 400 }
+            );
+        }
+
+        const result = await reembedDocuments(userId, apiKey, validationResult.data);
+
+        return NextResponse.json({
+            success: true,
+            model: result.model,
+            documents: result.documents,
+            skipped: result.skipped,
+        });
+    } catch (error) {
+        console.error("Re-embed documents error:", error);
+        return NextResponse.json(
+            { error: "Failed to re-embed documents", code: "EMBEDDING_FAILED" },
+            { status: 500 }
+        );
+    }
+}
@@ -85,6 +85,7 @@ export async function GET(request: Request) {
                 size: doc.size,
                 status: doc.status,
                 chunkCount: doc.chunkCount,
+                currentVersion: doc.currentVersion,
                 metadata: doc.metadata,
                 createdAt: doc.createdAt,
                 updatedAt: doc.updatedAt,
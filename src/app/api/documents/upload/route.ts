@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { documents, chunks } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { documents, documentVersions, chunks } from "@/lib/db/schema";
+import { eq, and, isNull, lt, sql } from "drizzle-orm";
 import { getSessionUserId } from "@/lib/auth/session";
 import {
     checkRateLimit,
@@ -11,12 +11,46 @@ import {
 } from "@/lib/rate-limit";
 import { uploadFile, generateDocumentKey } from "@/lib/storage/s3";
 import { processDocument, validateFileSize, validateFileType, getFileType } from "@/lib/documents/processors";
-import { chunkDocument } from "@/lib/documents/chunking";
+import { chunkDocument, applySectionMetadata } from "@/lib/documents/chunking";
+import { ingestDocumentVersion, hashContent } from "@/lib/rag/ingestion";
 import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
-// POST /api/documents/upload - Upload a document
+type VersionRecord = Omit<typeof documentVersions.$inferInsert, "version" | "storageKey">;
+
+/**
+ * Reserve the next version of an existing document by inserting its
+ * version row. The document row is locked so concurrent re-uploads get
+ * distinct versions.
+ */
+async function reserveNextVersion(
+    record: VersionRecord,
+    storageKeyFor: (version: number) => string
+): Promise<typeof documentVersions.$inferSelect> {
+    return db.transaction(async (tx) => {
+        await tx
+            .select({ id: documents.id })
+            .from(documents)
+            .where(eq(documents.id, record.documentId))
+            .for("update");
+
+        const [{ latest }] = await tx
+            .select({ latest: sql<number>`COALESCE(MAX(${documentVersions.version}), 0)::int` })
+            .from(documentVersions)
+            .where(eq(documentVersions.documentId, record.documentId));
+
+        const version = latest + 1;
+        const [reserved] = await tx
+            .insert(documentVersions)
+            .values({ ...record, version, storageKey: storageKeyFor(version) })
+            .returning();
+        return reserved;
+    });
+}
+
+// POST /api/documents/upload - Upload a document, or a new version of one when documentId is given
 export async function POST(request: Request) {
     try {
         const userId = await getSessionUserId();
@@ -42,6 +76,7 @@ export async function POST(request: Request) {
         const file = formData.get("file") as File | null;
         const processImmediately = formData.get("processImmediately") !== "false";
         const chunkingStrategy = (formData.get("chunkingStrategy") as string) || "recursive";
+        const replaceDocumentId = (formData.get("documentId") as string | null) || null;
 
         if (!file) {
             return NextResponse.json(
@@ -66,14 +101,116 @@ export async function POST(request: Request) {
             );
         }
 
-        // Generate document ID and storage key
-        const documentId = uuidv4();
-        const storageKey = generateDocumentKey(userId, file.name, documentId);
-        const fileType = getFileType(file.name, file.type);
+        // Re-uploads of an existing document become a new version of it
+        let existingDocument: typeof documents.$inferSelect | undefined;
+        if (replaceDocumentId) {
+            if (!z.string().uuid().safeParse(replaceDocumentId).success) {
+                return NextResponse.json(
+                    { error: "Invalid document ID", code: "INVALID_DOCUMENT_ID" },
+                    { status: 400 }
+                );
+            }
+
+            existingDocument = await db.query.documents.findFirst({
+                where: and(
+                    eq(documents.id, replaceDocumentId),
+                    eq(documents.userId, userId),
+                    isNull(documents.deletedAt)
+                ),
+            });
+
+            if (!existingDocument) {
+                return NextResponse.json(
+                    { error: "Document not found", code: "NOT_FOUND" },
+                    { status: 404 }
+                );
+            }
+        }
 
         // Read file into buffer
         const arrayBuffer = await file.arrayBuffer();
         const buffer = Buffer.from(arrayBuffer);
+        const fileHash = hashContent(buffer);
+
+        if (existingDocument) {
+            const currentVersion = await db.query.documentVersions.findFirst({
+                where: and(
+                    eq(documentVersions.documentId, existingDocument.id),
+                    eq(documentVersions.version, existingDocument.currentVersion)
+                ),
+                columns: { contentHash: true },
+            });
+
+            if (currentVersion?.contentHash === fileHash) {
+                return NextResponse.json({
+                    success: true,
+                    unchanged: true,
+                    document: {
+                        id: existingDocument.id,
+                        filename: existingDocument.filename,
+                        size: existingDocument.size,
+                        status: existingDocument.status,
+                        version: existingDocument.currentVersion,
+                    },
+                });
+            }
+        }
+
+        // Generate document ID and storage key
+        const documentId = existingDocument?.id ?? uuidv4();
+        const storageKeyFor = (version: number) => generateDocumentKey(
+            userId,
+            file.name,
+            version > 1 ? `${documentId}-v${version}` : documentId
+        );
+        const fileType = getFileType(file.name, file.type);
+
+        const versionRecord: VersionRecord = {
+            documentId,
+            filename: file.name,
+            mimeType: file.type,
+            size: file.size,
+            contentHash: fileHash,
+        };
+
+        // Create document record, or reserve the new version of an existing one
+        let newDocument: typeof documents.$inferSelect;
+        let versionRow: typeof documentVersions.$inferSelect;
+        if (existingDocument) {
+            newDocument = existingDocument;
+            versionRow = await reserveNextVersion(versionRecord, storageKeyFor);
+        } else {
+            const [created] = await db
+                .insert(documents)
+                .values({
+                    id: documentId,
+                    userId,
+                    filename: file.name,
+                    mimeType: file.type,
+                    size: file.size,
+                    storageKey: storageKeyFor(1),
+                    status: processImmediately ? "processing" : "uploaded",
+                    metadata: {
+                        fileType,
+                        chunkingStrategy,
+                    },
+                })
+                .returning();
+
+            if (!created) {
+                return NextResponse.json(
+                    { error: "Failed to create document record", code: "CREATE_FAILED" },
+                    { status: 500 }
+                );
+            }
+            newDocument = created;
+
+            [versionRow] = await db
+                .insert(documentVersions)
+                .values({ ...versionRecord, version: 1, storageKey: storageKeyFor(1) })
+                .returning();
+        }
+        const { version, storageKey } = versionRow;
 
         // Upload to S3
         await uploadFile(storageKey, buffer, {
@@ -85,74 +222,65 @@ export async function POST(request: Request) {
             },
         });
 
-        // Create document record
-        const [newDocument] = await db
-            .insert(documents)
-            .values({
-                id: documentId,
-                userId,
-                filename: file.name,
-                mimeType: file.type,
-                size: file.size,
-                storageKey,
-                status: processImmediately ? "processing" : "uploaded",
-                metadata: {
-                    fileType,
-                    chunkingStrategy,
-                },
-            })
-            .returning();
-
-        if (!newDocument) {
-            return NextResponse.json(
-                { error: "Failed to create document record", code: "CREATE_FAILED" },
-                { status: 500 }
-            );
-        }
-
-        // Process document if requested
-        if (processImmediately) {
+        // Process document if requested; new versions are always processed
+        if (processImmediately || existingDocument) {
             try {
                 // Process the document
                 const processed = await processDocument(buffer, file.name, file.type);
 
-                // Chunk the document
-                const documentChunks = chunkDocument(processed.text, chunkingStrategy as "fixed" | "semantic" | "recursive");
-
-                // Save chunks to database
-                if (documentChunks.length > 0) {
-                    await db.insert(chunks).values(
-                        documentChunks.map((chunk, index) => ({
-                            id: uuidv4(),
-                            documentId,
-                            content: chunk.content,
-                            index,
-                            startOffset: chunk.startOffset,
-                            endOffset: chunk.endOffset,
-                            metadata: {
-                                ...chunk.metadata,
-                                characterCount: chunk.content.length,
-                                wordCount: chunk.content.split(/\s+/).filter(w => w.length > 0).length,
-                            },
-                        }))
-                    );
-                }
+                // Chunk the document, tagging chunks with their heading/slide/page
+                const documentChunks = applySectionMetadata(
+                    chunkDocument(processed.text, chunkingStrategy as "fixed" | "semantic" | "recursive"),
+                    processed.sections
+                );
+
+                // Save chunks, reusing embeddings of unchanged ones
+                const ingest = await ingestDocumentVersion({
+                    documentId,
+                    version,
+                    chunks: documentChunks,
+                    previousVersion: existingDocument?.currentVersion,
+                    ingestionId: versionRow.id,
+                });
+
+                const versionStats = {
+                    chunkCount: ingest.chunkCount,
+                    reusedChunks: ingest.reusedChunks,
+                    addedChunks: ingest.addedChunks,
+                    removedChunks: ingest.removedChunks,
+                };
 
-                // Update document status
+                await db
+                    .update(documentVersions)
+                    .set(versionStats)
+                    .where(eq(documentVersions.id, versionRow.id));
+
+                // Update document status and point search at the new version,
+                // unless a later concurrent upload got there first
                 await db
                     .update(documents)
                     .set({
                         status: "processed",
+                        filename: file.name,
+                        mimeType: file.type,
+                        size: file.size,
+                        storageKey,
+                        currentVersion: version,
                         processedText: processed.text,
                         chunkCount: documentChunks.length,
                         metadata: {
                             ...(newDocument.metadata as Record<string, unknown>),
                             ...processed.metadata,
+                            fileType,
+                            chunkingStrategy,
                             processedAt: new Date().toISOString(),
+                            error: undefined,
                         },
                         updatedAt: new Date(),
                     })
-                    .where(eq(documents.id, documentId));
+                    .where(existingDocument
+                        ? and(eq(documents.id, documentId), lt(documents.currentVersion, version))
+                        : eq(documents.id, documentId));
 
                 return NextResponse.json({
                     success: true,
@@ -161,19 +289,28 @@ export async function POST(request: Request) {
                         filename: file.name,
                         size: file.size,
                         status: "processed",
-                        chunkCount: documentChunks.length,
+                        version,
+                        ...versionStats,
                         metadata: processed.metadata,
                     },
                 });
             } catch (processError) {
-                // Update document status to failed
+                const errorMessage = processError instanceof Error ? processError.message : "Processing failed";
+
+                // A failed new version leaves the current one searchable;
+                // only this upload's chunks and version row are removed
+                if (existingDocument) {
+                    await db.delete(chunks).where(eq(chunks.ingestionId, versionRow.id));
+                    await db.delete(documentVersions).where(eq(documentVersions.id, versionRow.id));
+                }
+
                 await db
                     .update(documents)
                     .set({
-                        status: "failed",
+                        status: existingDocument ? existingDocument.status : "failed",
                         metadata: {
                             ...(newDocument.metadata as Record<string, unknown>),
-                            error: processError instanceof Error ? processError.message : "Processing failed",
+                            error: errorMessage,
                         },
                         updatedAt: new Date(),
                     })
@@ -188,7 +325,8 @@ export async function POST(request: Request) {
                         filename: file.name,
                         size: file.size,
                         status: "failed",
-                        error: processError instanceof Error ? processError.message : "Processing failed",
+                        version: existingDocument?.currentVersion ?? version,
+                        error: errorMessage,
                     },
                 });
             }
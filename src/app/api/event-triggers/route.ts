@@ -8,7 +8,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSessionUserId } from "@/lib/auth/session";
 import { db } from "@/lib/db";
-import { eventTriggers, users } from "@/lib/db/schema";
+import { eventTriggers, users, workflows } from "@/lib/db/schema";
 import { eq, and, count } from "drizzle-orm";
 import { getAdminSettings, getDeploymentMode } from "@/lib/admin/settings";
 import { generateWebhookPath, generateWebhookSecret } from "@/lib/events";
@@ -107,7 +107,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Validate action type
-        const validActionTypes = ["agent_turn", "notify", "skill"];
+        const validActionTypes = ["agent_turn", "notify", "skill", "workflow"];
         if (!validActionTypes.includes(actionType)) {
             return NextResponse.json(
                 { error: `Invalid action type. Must be one of: ${validActionTypes.join(", ")}` },
@@ -115,6 +115,24 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Workflow actions must target a workflow owned by the user
+        if (actionType === "workflow") {
+            const workflowId = actionConfig?.workflowId;
+            const [workflow] = typeof workflowId === "string"
+                ? await db
+                    .select({ id: workflows.id })
+                    .from(workflows)
+                    .where(and(eq(workflows.id, workflowId), eq(workflows.userId, userId)))
+                    .limit(1)
+                : [];
+            if (!workflow) {
+                return NextResponse.json(
+                    { error: "actionConfig.workflowId must reference one of your workflows" },
+                    { status: 400 }
+                );
+            }
+        }
+
         // Generate webhook path and secret if webhook type
         let finalSourceConfig = sourceConfig || {};
         if (sourceType === "webhook") {
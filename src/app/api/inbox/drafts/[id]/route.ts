@@ -0,0 +1,60 @@
+/**
+ * Reply Draft Decision API
+ *
+ * POST /api/inbox/drafts/[id] - Approve (optionally edited) or reject a draft
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { z, ZodError } from 'zod';
+import { approveDraft, rejectDraft } from '@/lib/channels/approvals';
+
+const decisionSchema = z.discriminatedUnion('action', [
+    z.object({
+        action: z.literal('approve'),
+        content: z.string().trim().min(1).max(10000).optional(),
+    }),
+    z.object({
+        action: z.literal('reject'),
+    }),
+]);
+
+/**
+ * POST /api/inbox/drafts/[id] - Decide on a pending draft
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const payload = decisionSchema.parse(await request.json());
+
+        let draft;
+        try {
+            draft = payload.action === 'approve'
+                ? await approveDraft(id, { userId, via: 'inbox', content: payload.content })
+                : await rejectDraft(id, { userId, via: 'inbox' });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to send reply';
+            return NextResponse.json({ error: message }, { status: 502 });
+        }
+
+        if (!draft) {
+            return NextResponse.json({ error: 'Draft not found or already decided' }, { status: 409 });
+        }
+
+        return NextResponse.json({ draft });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Draft decision error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * Reply Drafts API
+ *
+ * GET /api/inbox/drafts - AI replies awaiting approval or a retried send (or past decisions)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { channelAccounts, channelReplyDrafts } from '@/lib/db/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { OPEN_DRAFT_STATUSES } from '@/lib/channels/approvals';
+
+/**
+ * GET /api/inbox/drafts - List drafts, pending and failed ones by default
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const status = searchParams.get('status');
+        const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+        const rows = await db.select({ draft: channelReplyDrafts, account: channelAccounts })
+            .from(channelReplyDrafts)
+            .innerJoin(channelAccounts, eq(channelReplyDrafts.channelAccountId, channelAccounts.id))
+            .where(and(
+                eq(channelReplyDrafts.userId, userId),
+                status === 'all'
+                    ? undefined
+                    : status ? eq(channelReplyDrafts.status, status) : inArray(channelReplyDrafts.status, OPEN_DRAFT_STATUSES)
+            ))
+            .orderBy(desc(channelReplyDrafts.createdAt))
+            .limit(limit);
+
+        return NextResponse.json({
+            drafts: rows.map(({ draft, account }) => ({
+                id: draft.id,
+                channelType: account.channelType,
+                channelName: account.displayName || account.channelType,
+                chatId: draft.externalChatId,
+                channelThreadId: draft.channelThreadId,
+                conversationId: draft.conversationId,
+                inboundContent: draft.inboundContent,
+                draftContent: draft.draftContent,
+                finalContent: draft.finalContent,
+                status: draft.status,
+                decidedVia: draft.decidedVia,
+                decidedAt: draft.decidedAt?.toISOString() ?? null,
+                errorMessage: draft.errorMessage,
+                createdAt: draft.createdAt.toISOString(),
+            })),
+        });
+    } catch (error) {
+        console.error('[API] Drafts fetch error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -2,13 +2,15 @@
  * Unified Inbox API
  *
  * GET /api/inbox - Get all channel messages across connected channels
+ *
+ * Threads and operator replies live under /api/inbox/threads
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSessionUserId } from '@/lib/auth/session';
 import { db } from '@/lib/db';
-import { channelMessages, channelAccounts } from '@/lib/db/schema';
-import { eq, and, desc, like, or, sql } from 'drizzle-orm';
+import { channelMessages, channelAccounts, channelThreads } from '@/lib/db/schema';
+import { eq, and, desc, like, or, sql, isNull } from 'drizzle-orm';
 
 /**
  * GET /api/inbox - Get unified inbox messages
@@ -23,6 +25,7 @@ export async function GET(request: NextRequest) {
         const { searchParams } = new URL(request.url);
         const channel = searchParams.get('channel');
         const search = searchParams.get('search');
+        const mode = searchParams.get('mode');
         const limit = parseInt(searchParams.get('limit') || '50');
         const offset = parseInt(searchParams.get('offset') || '0');
 
@@ -67,6 +70,13 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        // Handoff mode filter ('ai' | 'human' | 'paused'); messages without a thread row are handled by AI
+        if (mode) {
+            conditions.push(mode === 'ai'
+                ? or(eq(channelThreads.mode, 'ai'), isNull(channelThreads.mode))
+                : eq(channelThreads.mode, mode));
+        }
+
         // Get messages - using actual schema fields
         const messages = await db.select({
             id: channelMessages.id,
@@ -77,11 +87,17 @@ export async function GET(request: NextRequest) {
             senderDisplayName: channelMessages.senderDisplayName,
             attachments: channelMessages.attachments,
             status: channelMessages.status,
+            errorMessage: channelMessages.errorMessage,
             processedAt: channelMessages.processedAt,
             conversationId: channelMessages.conversationId,
             createdAt: channelMessages.createdAt,
+            direction: channelMessages.direction,
+            sentByUserId: channelMessages.sentByUserId,
+            channelThreadId: channelMessages.channelThreadId,
+            threadMode: channelThreads.mode,
         })
             .from(channelMessages)
+            .leftJoin(channelThreads, eq(channelMessages.channelThreadId, channelThreads.id))
             .where(conditions.length > 0 ? and(...conditions) : undefined)
             .orderBy(desc(channelMessages.createdAt))
             .limit(limit)
@@ -106,6 +122,13 @@ export async function GET(request: NextRequest) {
                 conversationId: m.conversationId,
                 threadId: m.externalThreadId,
                 attachments: m.attachments || [],
+                direction: m.direction,
+                sentByOperator: !!m.sentByUserId,
+                // Platform receipts for our own messages: 'sent' | 'delivered' | 'read' | 'failed'
+                deliveryStatus: m.direction === 'outbound' ? m.status : undefined,
+                errorMessage: m.errorMessage,
+                channelThreadId: m.channelThreadId,
+                threadMode: m.threadMode || 'ai',
             };
         });
 
@@ -0,0 +1,88 @@
+/**
+ * Operator Reply API
+ *
+ * POST /api/inbox/threads/[id]/reply - Reply in a thread as the bot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { channelAccounts, channelThreads, messages } from '@/lib/db/schema';
+import type { ChannelConfig } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { z, ZodError } from 'zod';
+import { getChannelManager } from '@/lib/channels/manager';
+import { recordOperatorReply } from '@/lib/channels/handoff';
+
+const replySchema = z.object({
+    content: z.string().trim().min(1).max(10000),
+});
+
+/**
+ * POST /api/inbox/threads/[id]/reply - Send through the channel connector
+ * and keep the thread with the operator
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { content } = replySchema.parse(await request.json());
+
+        const [row] = await db.select({ thread: channelThreads, account: channelAccounts })
+            .from(channelThreads)
+            .innerJoin(channelAccounts, eq(channelThreads.channelAccountId, channelAccounts.id))
+            .where(and(eq(channelThreads.id, id), eq(channelAccounts.userId, userId)))
+            .limit(1);
+
+        if (!row) {
+            return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+        }
+
+        const { thread, account } = row;
+        let externalMessageId: string;
+        try {
+            externalMessageId = await getChannelManager().sendMessage(
+                userId,
+                account.channelType,
+                thread.externalChatId,
+                content,
+                { threadId: thread.externalThreadId || undefined, sentByUserId: userId }
+            );
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to send message';
+            return NextResponse.json({ error: message }, { status: 502 });
+        }
+
+        await recordOperatorReply(thread, userId, (account.config || {}) as ChannelConfig);
+
+        // Keep the AI's conversation history in sync for when it resumes
+        if (thread.conversationId) {
+            await db.insert(messages).values({
+                conversationId: thread.conversationId,
+                role: 'assistant',
+                content,
+                metadata: {
+                    channelType: account.channelType,
+                    channelId: thread.externalChatId,
+                    externalMessageId,
+                    sentByOperator: userId,
+                },
+            });
+        }
+
+        return NextResponse.json({ success: true, messageId: externalMessageId }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Operator reply error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
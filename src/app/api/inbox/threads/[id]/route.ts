@@ -0,0 +1,117 @@
+/**
+ * Inbox Thread API
+ *
+ * GET /api/inbox/threads/[id] - Thread details and messages
+ * PATCH /api/inbox/threads/[id] - Take over, pause or hand back to the AI
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { channelAccounts, channelMessages, channelThreads } from '@/lib/db/schema';
+import type { ChannelConfig } from '@/lib/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { z, ZodError } from 'zod';
+import { setThreadMode, THREAD_MODES } from '@/lib/channels/handoff';
+
+const updateThreadSchema = z.object({
+    mode: z.enum(THREAD_MODES as [string, ...string[]]),
+});
+
+/**
+ * Load a thread together with its account, scoped to the user
+ */
+async function getOwnedThread(userId: string, id: string) {
+    const [row] = await db.select({ thread: channelThreads, account: channelAccounts })
+        .from(channelThreads)
+        .innerJoin(channelAccounts, eq(channelThreads.channelAccountId, channelAccounts.id))
+        .where(and(eq(channelThreads.id, id), eq(channelAccounts.userId, userId)))
+        .limit(1);
+    return row;
+}
+
+/**
+ * GET /api/inbox/threads/[id] - Thread with its channel messages
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const row = await getOwnedThread(userId, id);
+        if (!row) {
+            return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+        }
+
+        const messages = await db.select({
+            id: channelMessages.id,
+            direction: channelMessages.direction,
+            content: channelMessages.content,
+            senderDisplayName: channelMessages.senderDisplayName,
+            sentByUserId: channelMessages.sentByUserId,
+            attachments: channelMessages.attachments,
+            status: channelMessages.status,
+            createdAt: channelMessages.createdAt,
+        })
+            .from(channelMessages)
+            .where(eq(channelMessages.channelThreadId, id))
+            .orderBy(asc(channelMessages.createdAt));
+
+        return NextResponse.json({
+            thread: {
+                ...row.thread,
+                channelType: row.account.channelType,
+                channelName: row.account.displayName || row.account.channelType,
+            },
+            messages: messages.map(m => ({
+                ...m,
+                sentByOperator: !!m.sentByUserId,
+                attachments: m.attachments || [],
+            })),
+        });
+    } catch (error) {
+        console.error('[API] Inbox thread fetch error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
+
+/**
+ * PATCH /api/inbox/threads/[id] - Change the thread's handoff mode
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { mode } = updateThreadSchema.parse(await request.json());
+
+        const row = await getOwnedThread(userId, id);
+        if (!row) {
+            return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+        }
+
+        const thread = await setThreadMode(
+            id,
+            mode as (typeof THREAD_MODES)[number],
+            (row.account.config || {}) as ChannelConfig,
+            { reason: 'operator', assignedUserId: mode === 'ai' ? null : userId }
+        );
+
+        return NextResponse.json({ thread });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: 'Invalid payload',
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error('[API] Inbox thread update error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
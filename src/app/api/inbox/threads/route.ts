@@ -0,0 +1,94 @@
+/**
+ * Inbox Threads API
+ *
+ * GET /api/inbox/threads - List channel threads with their handoff mode
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth/session';
+import { db } from '@/lib/db';
+import { channelAccounts, channelMessages, channelThreads } from '@/lib/db/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+
+/**
+ * GET /api/inbox/threads - Threads across the user's channels, newest first
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const mode = searchParams.get('mode');
+        const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+        const offset = parseInt(searchParams.get('offset') || '0');
+
+        const userAccounts = await db.select()
+            .from(channelAccounts)
+            .where(eq(channelAccounts.userId, userId));
+
+        if (userAccounts.length === 0) {
+            return NextResponse.json({ threads: [] });
+        }
+
+        const conditions = [inArray(channelThreads.channelAccountId, userAccounts.map(a => a.id))];
+        if (mode) {
+            conditions.push(eq(channelThreads.mode, mode));
+        }
+
+        const threads = await db.select()
+            .from(channelThreads)
+            .where(and(...conditions))
+            .orderBy(desc(channelThreads.updatedAt))
+            .limit(limit)
+            .offset(offset);
+
+        // Latest message per thread for the list preview
+        const latest = threads.length > 0
+            ? await db.selectDistinctOn([channelMessages.channelThreadId], {
+                channelThreadId: channelMessages.channelThreadId,
+                content: channelMessages.content,
+                direction: channelMessages.direction,
+                createdAt: channelMessages.createdAt,
+            })
+                .from(channelMessages)
+                .where(inArray(channelMessages.channelThreadId, threads.map(t => t.id)))
+                .orderBy(channelMessages.channelThreadId, desc(channelMessages.createdAt))
+            : [];
+        const latestMap = new Map(latest.map(m => [m.channelThreadId, m]));
+        const accountMap = new Map(userAccounts.map(a => [a.id, a]));
+
+        return NextResponse.json({
+            threads: threads.map(thread => {
+                const account = accountMap.get(thread.channelAccountId);
+                const lastMessage = latestMap.get(thread.id);
+                return {
+                    id: thread.id,
+                    channelType: account?.channelType || 'unknown',
+                    channelName: account?.displayName || account?.channelType,
+                    chatId: thread.externalChatId,
+                    threadId: thread.externalThreadId || null,
+                    senderName: thread.senderDisplayName || 'Unknown',
+                    mode: thread.mode,
+                    handoffReason: thread.handoffReason,
+                    assignedUserId: thread.assignedUserId,
+                    resumeAiAt: thread.resumeAiAt?.toISOString() ?? null,
+                    conversationId: thread.conversationId,
+                    lastMessage: lastMessage
+                        ? {
+                            content: lastMessage.content,
+                            direction: lastMessage.direction,
+                            timestamp: lastMessage.createdAt.toISOString(),
+                        }
+                        : null,
+                    updatedAt: thread.updatedAt.toISOString(),
+                };
+            }),
+        });
+    } catch (error) {
+        console.error('[API] Inbox threads fetch error:', error);
+        return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+    }
+}
@@ -11,6 +11,8 @@ interface RouteParams {
 const updateMessageSchema = z.object({
     content: z.string().min(1).optional(),
     metadata: z.record(z.string(), z.any()).optional(),
+    // Thumbs up/down on an assistant reply; null clears it
+    feedback: z.enum(["up", "down"]).nullable().optional(),
 });
 
 // GET /api/messages/[id] - Get a specific message
@@ -94,6 +96,26 @@ export async function PATCH(req: Request, { params }: RouteParams) {
             return Response.json({ error: "Message not found" }, { status: 404 });
         }
 
+        const { content, metadata, feedback } = parseResult.data;
+
+        // Assistant replies only take feedback, which also labels them for model routing
+        if (existingMessage.role === "assistant" && feedback !== undefined
+            && content === undefined && metadata === undefined) {
+            const [updatedMessage] = await db
+                .update(messages)
+                .set({
+                    metadata: {
+                        ...((existingMessage.metadata as Record<string, unknown>) || {}),
+                        feedback,
+                        feedbackAt: new Date().toISOString(),
+                    },
+                })
+                .where(eq(messages.id, id))
+                .returning();
+
+            return Response.json({ message: updatedMessage });
+        }
+
         // Only allow editing user messages
         if (existingMessage.role !== "user") {
             return Response.json(
@@ -102,8 +124,6 @@ export async function PATCH(req: Request, { params }: RouteParams) {
             );
         }
 
-        const { content, metadata } = parseResult.data;
-
         // Build update object
         const updateData: Record<string, unknown> = {};
         if (content !== undefined) updateData.content = content;
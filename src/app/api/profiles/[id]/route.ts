@@ -20,7 +20,7 @@ const updateProfileSchema = z.object({
         topK: z.number().min(1).max(20),
     }).optional(),
     orchestrationConfig: z.object({
-        mode: z.enum(["single", "sequential", "parallel", "hierarchical", "consensus", "auto"]),
+        mode: z.enum(["single", "sequential", "parallel", "hierarchical", "consensus", "debate", "critique", "auto"]),
         enableDebug: z.boolean(),
     }).optional(),
 });
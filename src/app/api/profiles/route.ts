@@ -20,7 +20,7 @@ const profileSchema = z.object({
         topK: z.number().min(1).max(20).default(5),
     }).default({ enabled: false, documentIds: [], topK: 5 }),
     orchestrationConfig: z.object({
-        mode: z.enum(["single", "sequential", "parallel", "hierarchical", "consensus", "auto"]).default("single"),
+        mode: z.enum(["single", "sequential", "parallel", "hierarchical", "consensus", "debate", "critique", "auto"]).default("single"),
         enableDebug: z.boolean().default(false),
     }).default({ mode: "single", enableDebug: false }),
 });
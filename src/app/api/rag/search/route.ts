@@ -7,6 +7,7 @@ import {
     rateLimitExceededResponse,
 } from "@/lib/rate-limit";
 import { hybridSearch, semanticSearch, textSearch, SearchOptions } from "@/lib/rag/search";
+import { isCrossEncoderConfigured } from "@/lib/rag/rerank";
 import { z } from "zod";
 
 const searchSchema = z.object({
@@ -15,6 +16,15 @@ const searchSchema = z.object({
     topK: z.number().min(1).max(20).default(5),
     threshold: z.number().min(0).max(1).default(0.7),
     documentIds: z.array(z.string().uuid()).optional(),
+    versions: z.record(z.string().uuid(), z.number().int().min(1)).optional(),
+    textMatch: z.enum(["any", "all"]).optional(),
+    semanticWeight: z.number().min(0).max(10).optional(),
+    textWeight: z.number().min(0).max(10).optional(),
+    rerank: z.object({
+        method: z.enum(["llm", "cross-encoder"]),
+        model: z.string().min(1),
+        candidates: z.number().int().min(1).max(50).optional(),
+    }).optional(),
 });
 
 // POST /api/rag/search - Search documents
@@ -45,13 +55,40 @@ export async function POST(request: Request) {
             );
         }
 
-        const { query, method, topK, threshold, documentIds } = validationResult.data;
+        const {
+            query,
+            method,
+            topK,
+            threshold,
+            documentIds,
+            versions,
+            textMatch,
+            semanticWeight,
+            textWeight,
+            rerank,
+        } = validationResult.data;
 
+        if (rerank?.method === "cross-encoder" && !isCrossEncoderConfigured()) {
+            return NextResponse.json(
+                { error: "Cross-encoder reranking is not configured (RERANK_URL)", code: "RERANK_UNAVAILABLE" },
+                { status: 400 }
+            );
+        }
+
+        let rerankFallback: string | undefined;
         const searchOptions: SearchOptions = {
             topK,
             threshold,
             documentIds,
             userId,
+            versions,
+            textMatch,
+            semanticWeight,
+            textWeight,
+            rerank,
+            onRerankFallback: (error) => {
+                rerankFallback = error;
+            },
         };
 
         let results;
@@ -76,6 +113,19 @@ export async function POST(request: Request) {
                 method,
                 topK,
                 threshold,
+                ...(versions && { versions }),
+                ...(method === "hybrid" && {
+                    semanticWeight: semanticWeight ?? 1,
+                    textWeight: textWeight ?? 1,
+                    rerank: rerank
+                        ? {
+                            method: rerank.method,
+                            model: rerank.model,
+                            applied: !rerankFallback,
+                            ...(rerankFallback && { error: rerankFallback }),
+                        }
+                        : null,
+                }),
                 resultCount: results.length,
             },
         });
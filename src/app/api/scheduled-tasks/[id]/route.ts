@@ -17,6 +17,8 @@ import { runIsolatedAgent } from '@/lib/scheduler/isolated-agent';
 import { computeNextRunAt } from '@/lib/scheduler/schedule';
 import { resolveUserTimezone } from '@/lib/scheduler/timezone';
 import { ensureSchedulerStarted } from '@/lib/scheduler/boot';
+import { startTriggeredWorkflow, describeWorkflowResult } from '@/lib/workflows/triggers';
+import { sendBroadcast, describeBroadcastResult } from '@/lib/channels/broadcast';
 
 function shouldRequireToolCallForTask(prompt: string): boolean {
   const normalized = prompt.toLowerCase();
@@ -144,7 +146,14 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
         tz,
       };
     }
-    if (body.prompt !== undefined) {
+    if (currentPayload.kind === 'broadcast') {
+      // Broadcast tasks are edited through their broadcast
+    } else if (currentPayload.kind === 'workflow') {
+      // Workflow tasks keep their target; only the static input can change
+      if (body.workflowInput !== undefined) {
+        updates.payload = { ...currentPayload, input: body.workflowInput ?? undefined };
+      }
+    } else if (body.prompt !== undefined) {
       updates.payload = {
         kind: 'agentTurn',
         message: body.prompt,
@@ -205,6 +214,85 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: 'Task not found' }, { status: 404 });
     }
 
+    if (task.payload?.kind === 'workflow') {
+      const runAt = new Date();
+      const workflowResult = await startTriggeredWorkflow({
+        workflowId: task.payload.workflowId,
+        userId,
+        input: task.payload.input,
+        trigger: {
+          type: 'schedule',
+          taskId: task.id,
+          taskName: task.name,
+          firedAt: runAt.toISOString(),
+          cron: task.cron,
+          timezone: task.timezone ?? undefined,
+        },
+      });
+      const succeeded = workflowResult.status === 'completed' || workflowResult.status === 'paused';
+      const output = describeWorkflowResult(workflowResult).substring(0, 4000);
+      const error = succeeded ? null : workflowResult.error || output;
+      const currentState = (task.state ?? {}) as CronJobState;
+
+      await db
+        .update(scheduledTasks)
+        .set({
+          lastRunAt: runAt,
+          runCount: (task.runCount ?? 0) + 1,
+          lastError: error,
+          lastOutput: succeeded ? output : null,
+          state: {
+            ...currentState,
+            lastOutput: succeeded ? output : undefined,
+            customData: {
+              ...(currentState.customData ?? {}),
+              taskExecutionStatus: succeeded ? 'success' : 'failed',
+              lastRunAt: runAt.toISOString(),
+              lastWorkflowRunId: workflowResult.runId,
+            },
+          },
+          updatedAt: new Date(),
+        })
+        .where(eq(scheduledTasks.id, id));
+
+      return NextResponse.json({
+        success: succeeded,
+        output: succeeded ? output : undefined,
+        error: error ?? undefined,
+        workflowRunId: workflowResult.runId,
+        workflowStatus: workflowResult.status,
+        taskExecutionStatus: succeeded ? 'success' : 'failed',
+      });
+    }
+
+    if (task.payload?.kind === 'broadcast') {
+      const runAt = new Date();
+      const result = await sendBroadcast(task.payload.broadcastId);
+      const succeeded = !!result && result.status !== 'failed';
+      const output = describeBroadcastResult(result);
+
+      // A broadcast only goes out once
+      await db
+        .update(scheduledTasks)
+        .set({
+          lastRunAt: runAt,
+          runCount: (task.runCount ?? 0) + 1,
+          lastError: succeeded ? null : output,
+          lastOutput: succeeded ? output : null,
+          isEnabled: false,
+          nextRunAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(scheduledTasks.id, id));
+
+      return NextResponse.json({
+        success: succeeded,
+        output: succeeded ? output : undefined,
+        error: succeeded ? undefined : output,
+        taskExecutionStatus: succeeded ? 'success' : 'failed',
+      });
+    }
+
     // Run the task using isolated agent
     const execution = resolveTaskExecution(task.payload, task.modelId ?? null);
     const result = await runIsolatedAgent({
@@ -8,7 +8,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSessionUserId } from "@/lib/auth/session";
 import { db } from "@/lib/db";
-import { agents, channelAccounts, scheduledTasks } from "@/lib/db/schema";
+import { agents, channelAccounts, scheduledTasks, workflows } from "@/lib/db/schema";
+import type { CronPayload } from "@/lib/db/schema";
 import { and, desc, eq, isNull, gte } from "drizzle-orm";
 import { computeNextRunAt } from "@/lib/scheduler/schedule";
 import { resolveUserTimezone } from "@/lib/scheduler/timezone";
@@ -70,7 +71,7 @@ export async function POST(request: NextRequest) {
         const payload = await request.json();
 
         const name = typeof payload.name === "string" ? payload.name.trim() : "";
-        const prompt = typeof payload.prompt === "string" ? payload.prompt.trim() : "";
+        let prompt = typeof payload.prompt === "string" ? payload.prompt.trim() : "";
         const cron = typeof payload.cron === "string" ? payload.cron.trim() : "";
         const timezone = typeof payload.timezone === "string" ? payload.timezone.trim() : undefined;
         const channelAccountId = typeof payload.channelAccountId === "string" ? payload.channelAccountId : null;
@@ -80,6 +81,27 @@ export async function POST(request: NextRequest) {
             ? payload.agentId.trim()
             : null;
         const isEnabled = payload.isEnabled !== false;
+        const workflowId = typeof payload.workflowId === "string" && payload.workflowId.trim()
+            ? payload.workflowId.trim()
+            : null;
+        const workflowInput = payload.workflowInput && typeof payload.workflowInput === "object" && !Array.isArray(payload.workflowInput)
+            ? payload.workflowInput as Record<string, unknown>
+            : undefined;
+
+        // Workflow tasks start a saved workflow instead of an agent turn
+        if (workflowId) {
+            const [workflow] = await db.select()
+                .from(workflows)
+                .where(and(
+                    eq(workflows.id, workflowId),
+                    eq(workflows.userId, userId)
+                ))
+                .limit(1);
+            if (!workflow) {
+                return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+            }
+            prompt = prompt || `Run workflow: ${workflow.name}`;
+        }
 
         if (!name || !prompt || !cron) {
             return NextResponse.json(
@@ -162,9 +184,12 @@ export async function POST(request: NextRequest) {
 
         if (recentMatch) {
             const recentExecution = resolveExecutionMode(recentMatch.payload, recentMatch.modelId ?? null);
-            const matchesExecution =
-                recentExecution.executionMode === executionMode &&
-                (executionMode === "model" || recentExecution.agentId === agentId);
+            const recentWorkflowId = recentMatch.payload?.kind === "workflow" ? recentMatch.payload.workflowId : null;
+            const matchesExecution = workflowId
+                ? recentWorkflowId === workflowId
+                : !recentWorkflowId &&
+                    recentExecution.executionMode === executionMode &&
+                    (executionMode === "model" || recentExecution.agentId === agentId);
             if (!matchesExecution) {
                 // Same task signature but different execution target; allow creating a distinct task.
             } else {
@@ -172,6 +197,16 @@ export async function POST(request: NextRequest) {
             }
         }
 
+        const taskPayload: CronPayload = workflowId
+            ? { kind: "workflow", workflowId, input: workflowInput }
+            : {
+                kind: "agentTurn",
+                message: prompt,
+                deliver: true,
+                executionMode,
+                agentId,
+            };
+
         const [task] = await db.insert(scheduledTasks)
             .values({
                 userId,
@@ -188,13 +223,7 @@ export async function POST(request: NextRequest) {
                     expr: cron,
                     tz: resolvedTimezone,
                 },
-                payload: {
-                    kind: "agentTurn",
-                    message: prompt,
-                    deliver: true,
-                    executionMode,
-                    agentId,
-                },
+                payload: taskPayload,
             })
             .returning();
 
@@ -0,0 +1,102 @@
+/**
+ * Usage Budgets API
+ *
+ * GET /api/usage/budgets - Budgets that apply to the user, with this month's spending
+ * PUT /api/usage/budgets - Set the user's own budget, overall or for one feature
+ * DELETE /api/usage/budgets?feature= - Remove one of the user's own budgets
+ */
+
+import { NextResponse } from "next/server";
+import { getSessionUserId } from "@/lib/auth/session";
+import { z, ZodError } from "zod";
+import {
+    USAGE_FEATURES,
+    budgetInputSchema,
+    currentBudgetPeriod,
+    getBudgetStatuses,
+    removeBudget,
+    setBudget,
+} from "@/lib/ai/usage";
+
+const featureQuerySchema = z.object({
+    feature: z.enum(["all", ...USAGE_FEATURES]).default("all"),
+});
+
+// GET /api/usage/budgets - Admin budgets are listed too, but only admins can change them
+export async function GET() {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const budgets = await getBudgetStatuses(userId);
+        return NextResponse.json({
+            period: currentBudgetPeriod().period,
+            budgets,
+        });
+    } catch (error) {
+        console.error("Usage budgets API error:", error);
+        return NextResponse.json({ error: "Internal error" }, { status: 500 });
+    }
+}
+
+// PUT /api/usage/budgets - Replaces any budget the user set for the same feature
+export async function PUT(request: Request) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const input = budgetInputSchema.parse(await request.json());
+        const budget = await setBudget(userId, "user", input);
+
+        return NextResponse.json({ budget });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: "Invalid payload",
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error("Usage budget update error:", error);
+        return NextResponse.json({ error: "Internal error" }, { status: 500 });
+    }
+}
+
+// DELETE /api/usage/budgets?feature= - Defaults to the overall budget
+export async function DELETE(request: Request) {
+    try {
+        const userId = await getSessionUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: "Unauthorized", code: "UNAUTHORIZED" },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const { feature } = featureQuerySchema.parse({ feature: searchParams.get("feature") || undefined });
+
+        if (!await removeBudget(userId, "user", feature)) {
+            return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return NextResponse.json({
+                error: "Invalid payload",
+                details: error.flatten(),
+            }, { status: 400 });
+        }
+        console.error("Usage budget delete error:", error);
+        return NextResponse.json({ error: "Internal error" }, { status: 500 });
+    }
+}
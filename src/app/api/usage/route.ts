@@ -14,7 +14,7 @@ import { z } from "zod";
 const usageQuerySchema = z.object({
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
-    groupBy: z.enum(["day", "provider", "model"]).optional().default("day"),
+    groupBy: z.enum(["day", "provider", "model", "feature"]).optional().default("day"),
 });
 
 // GET /api/usage - Get usage statistics
@@ -98,6 +98,18 @@ export async function GET(request: Request) {
                 .from(usageRecords)
                 .where(and(...conditions))
                 .groupBy(usageRecords.provider);
+        } else if (groupBy === "feature") {
+            breakdown = await db
+                .select({
+                    feature: usageRecords.feature,
+                    inputTokens: sql<number>`COALESCE(SUM(${usageRecords.inputTokens}), 0)::int`,
+                    outputTokens: sql<number>`COALESCE(SUM(${usageRecords.outputTokens}), 0)::int`,
+                    cost: sql<number>`COALESCE(SUM(${usageRecords.cost}), 0)::int`,
+                    count: sql<number>`COUNT(*)::int`,
+                })
+                .from(usageRecords)
+                .where(and(...conditions))
+                .groupBy(usageRecords.feature);
         } else if (groupBy === "model") {
             breakdown = await db
                 .select({
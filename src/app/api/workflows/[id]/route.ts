@@ -13,6 +13,7 @@ import { db } from "@/lib/db";
 import { workflows, workflowRuns } from "@/lib/db/schema";
 import { eq, and, desc } from "drizzle-orm";
 import { z } from "zod";
+import { workflowDefinitionSchema } from "@/lib/workflows/schema";
 
 // ============================================================================
 // Validation
@@ -21,16 +22,7 @@ import { z } from "zod";
 const updateWorkflowSchema = z.object({
     name: z.string().min(1).max(100).optional(),
     description: z.string().max(500).optional(),
-    definition: z.object({
-        version: z.string(),
-        steps: z.array(z.any()),
-        trigger: z.object({
-            type: z.enum(["manual", "schedule", "event"]),
-            config: z.record(z.string(), z.unknown()).optional(),
-        }).optional(),
-        variables: z.record(z.string(), z.unknown()).optional(),
-        input: z.any().optional(),
-    }).optional(),
+    definition: workflowDefinitionSchema.optional(),
     status: z.enum(["draft", "active", "paused", "archived"]).optional(),
     tags: z.array(z.string()).optional(),
 });
@@ -87,6 +79,8 @@ export async function GET(
                 recentRuns: recentRuns.map((run) => ({
                     id: run.id,
                     status: run.status,
+                    parentRunId: run.parentRunId,
+                    dryRun: run.dryRun,
                     startedAt: run.startedAt,
                     completedAt: run.completedAt,
                     error: run.error,
@@ -2,6 +2,10 @@
  * Workflow Run API
  *
  * POST: Execute a workflow
+ *
+ * `dryRun` stubs tool steps (with `mocks` by step ID, or outputs recorded
+ * by the last live run); sub-workflows run dry too, with mocks keyed
+ * "<stepId>.<childStepId>". `stepMode` pauses after every step.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -15,6 +19,8 @@ import { z } from "zod";
 const runWorkflowSchema = z.object({
     input: z.record(z.string(), z.unknown()).optional(),
     dryRun: z.boolean().optional(),
+    mocks: z.record(z.string(), z.unknown()).optional(),
+    stepMode: z.boolean().optional(),
 });
 
 export async function POST(
@@ -67,6 +73,8 @@ export async function POST(
             userId: session.user.id,
             input: validated.input,
             dryRun: validated.dryRun,
+            mocks: validated.mocks,
+            stepMode: validated.stepMode,
         });
 
         return NextResponse.json({
@@ -77,9 +85,18 @@ export async function POST(
             approval: result.approval,
             completedSteps: result.completedSteps,
             pendingSteps: result.pendingSteps,
+            debug: result.debug,
         });
     } catch (error) {
         console.error("[Workflows API] Run error:", error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: "Invalid run options", details: error.issues },
+                { status: 400 }
+            );
+        }
+
         return NextResponse.json(
             { error: error instanceof Error ? error.message : "Failed to run workflow" },
             { status: 500 }
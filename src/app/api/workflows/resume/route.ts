@@ -1,7 +1,7 @@
 /**
  * Workflow Resume API
  *
- * POST: Resume a paused workflow after approval
+ * POST: Resume a paused workflow after approval or a step-mode breakpoint
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -13,6 +13,7 @@ const resumeWorkflowSchema = z.object({
     resumeToken: z.string().min(1),
     approved: z.boolean(),
     comment: z.string().optional(),
+    stepMode: z.boolean().optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -34,6 +35,7 @@ export async function POST(request: NextRequest) {
             resumeToken: validated.resumeToken,
             approved: validated.approved,
             comment: validated.comment,
+            stepMode: validated.stepMode,
         });
 
         return NextResponse.json({
@@ -44,6 +46,7 @@ export async function POST(request: NextRequest) {
             approval: result.approval,
             completedSteps: result.completedSteps,
             pendingSteps: result.pendingSteps,
+            debug: result.debug,
         });
     } catch (error) {
         console.error("[Workflows API] Resume error:", error);
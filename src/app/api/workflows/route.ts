@@ -13,6 +13,7 @@ import { workflows, workflowRuns } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { z } from "zod";
 import type { WorkflowDefinition } from "@/lib/workflows/types";
+import { workflowDefinitionSchema } from "@/lib/workflows/schema";
 
 // ============================================================================
 // Validation Schemas
@@ -21,43 +22,7 @@ import type { WorkflowDefinition } from "@/lib/workflows/types";
 const createWorkflowSchema = z.object({
     name: z.string().min(1).max(100),
     description: z.string().max(500).optional(),
-    definition: z.object({
-        version: z.string().default("1.0.0"),
-        steps: z.array(z.object({
-            id: z.string(),
-            name: z.string(),
-            type: z.enum(["tool", "llm", "condition", "approval", "transform"]),
-            tool: z.string().optional(),
-            action: z.string().optional(),
-            args: z.record(z.string(), z.unknown()).optional(),
-            prompt: z.string().optional(),
-            model: z.string().optional(),
-            condition: z.string().optional(),
-            approval: z.object({
-                required: z.boolean(),
-                prompt: z.string(),
-                timeout: z.number().optional(),
-                items: z.array(z.unknown()).optional(),
-            }).optional(),
-            transform: z.object({
-                input: z.string(),
-                output: z.string(),
-                expression: z.string(),
-            }).optional(),
-            onSuccess: z.string().optional(),
-            onFailure: z.string().optional(),
-            continueOnError: z.boolean().optional(),
-        })),
-        trigger: z.object({
-            type: z.enum(["manual", "schedule", "event"]),
-            config: z.record(z.string(), z.unknown()).optional(),
-        }).optional(),
-        variables: z.record(z.string(), z.unknown()).optional(),
-        input: z.object({
-            required: z.array(z.string()).optional(),
-            optional: z.array(z.string()).optional(),
-        }).optional(),
-    }),
+    definition: workflowDefinitionSchema,
     status: z.enum(["draft", "active", "paused", "archived"]).default("draft"),
     isTemplate: z.boolean().default(false),
     tags: z.array(z.string()).default([]),
@@ -122,6 +87,8 @@ export async function GET(request: NextRequest) {
                 id: run.id,
                 workflowId: run.workflowId,
                 status: run.status,
+                parentRunId: run.parentRunId,
+                dryRun: run.dryRun,
                 startedAt: run.startedAt,
                 completedAt: run.completedAt,
                 error: run.error,
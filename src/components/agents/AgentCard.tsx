@@ -34,6 +34,7 @@ import {
     Mail,
     GitBranch,
     TerminalSquare,
+    Globe,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { AgentConfig, AgentRole, AgentTool } from "@/types/agent";
@@ -64,6 +65,7 @@ const roleConfig: Record<AgentRole, { icon: typeof Bot; color: string; bgColor:
 // Tool icons
 const toolIcons: Record<AgentTool, typeof Code> = {
     web_search: Search,
+    http_request: Globe,
     code_exec: Code,
     file_read: FileSearch,
     file_write: FileSearch,
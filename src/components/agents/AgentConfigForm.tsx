@@ -60,6 +60,7 @@ const ROLES: { value: AgentRole; label: string; description: string }[] = [
 
 const TOOLS: { value: AgentTool; label: string; description: string }[] = [
     { value: "web_search", label: "Web Search", description: "Search the internet" },
+    { value: "http_request", label: "HTTP Requests", description: "Call external APIs" },
     { value: "code_exec", label: "Code Execution", description: "Execute code" },
     { value: "file_read", label: "File Read", description: "Read files" },
     { value: "file_write", label: "File Write", description: "Write files" },
@@ -59,6 +59,7 @@ import {
     Plus,
     Trash2,
     ChevronUp,
+    FileCheck,
 } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -106,8 +107,22 @@ interface KnownContact {
     name: string | null;
     lastMessageAt: string;
     messageCount: number;
+    identity: {
+        id: string;
+        displayName: string | null;
+        crmContact: { id: string; name: string; tags: string[] | null } | null;
+        links: { id: string; channelType: string; externalId: string; displayName: string | null }[];
+    } | null;
 }
 
+// Channels that can receive approval requests for drafted replies
+const APPROVAL_CHANNEL_TYPES = [
+    { value: "telegram", label: "Telegram" },
+    { value: "slack", label: "Slack" },
+    { value: "discord", label: "Discord" },
+    { value: "matrix", label: "Matrix" },
+];
+
 // ============================================================================
 // Section Component
 // ============================================================================
@@ -403,6 +418,8 @@ export function ChannelSettingsPanel({
         slack: "💬",
         webchat: "🌐",
         matrix: "🔗",
+        irc: "#️⃣",
+        email: "📧",
     };
 
     const geminiDocuments = documents.filter((doc) => {
@@ -464,6 +481,89 @@ export function ChannelSettingsPanel({
                                             Notification relay mode — incoming messages are stored in your inbox but no AI responses are sent.
                                         </p>
                                     )}
+                                    <ToggleRow
+                                        label="Stream Replies"
+                                        description="Show replies as they are written by editing the message. Telegram, Discord, Slack, Teams and Matrix only."
+                                        checked={config.streamReplies ?? true}
+                                        onCheckedChange={(checked) =>
+                                            updateConfig({ streamReplies: checked })
+                                        }
+                                    />
+                                </div>
+                            </SettingsSection>
+
+                            {/* Reply Approval */}
+                            <SettingsSection
+                                title="Reply Approval"
+                                description="Review AI replies before they are sent"
+                                icon={FileCheck}
+                                accentColor="orange"
+                                badge={config.approvalMode ? "On" : undefined}
+                            >
+                                <div className="space-y-3">
+                                    <ToggleRow
+                                        label="Require Approval"
+                                        description="Hold AI replies as drafts in your inbox until you approve, edit or reject them."
+                                        checked={config.approvalMode ?? false}
+                                        onCheckedChange={(checked) =>
+                                            updateConfig({ approvalMode: checked })
+                                        }
+                                    />
+                                    {config.approvalMode && (
+                                        <motion.div
+                                            initial={{ opacity: 0 }}
+                                            animate={{ opacity: 1 }}
+                                            className="space-y-2"
+                                        >
+                                            <Label className="text-xs text-muted-foreground block">
+                                                Also ask in another channel (optional)
+                                            </Label>
+                                            <div className="flex gap-2">
+                                                <Select
+                                                    value={config.approvalChannel?.channelType || "telegram"}
+                                                    onValueChange={(value) =>
+                                                        updateConfig({
+                                                            approvalChannel: {
+                                                                ...config.approvalChannel,
+                                                                channelType: value,
+                                                                chatId: config.approvalChannel?.chatId || "",
+                                                            },
+                                                        })
+                                                    }
+                                                >
+                                                    <SelectTrigger className="h-9 w-32">
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {APPROVAL_CHANNEL_TYPES.map((type) => (
+                                                            <SelectItem key={type.value} value={type.value}>
+                                                                {type.label}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                                <Input
+                                                    value={config.approvalChannel?.chatId || ""}
+                                                    onChange={(e) =>
+                                                        updateConfig({
+                                                            approvalChannel: e.target.value
+                                                                ? {
+                                                                    ...config.approvalChannel,
+                                                                    channelType: config.approvalChannel?.channelType || "telegram",
+                                                                    chatId: e.target.value,
+                                                                }
+                                                                : undefined,
+                                                        })
+                                                    }
+                                                    placeholder="Chat ID"
+                                                    className="h-9"
+                                                />
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Drafts are posted there with Approve/Reject buttons (Telegram). Reply to a draft with new text to send your edit instead.
+                                            </p>
+                                        </motion.div>
+                                    )}
                                 </div>
                             </SettingsSection>
 
@@ -521,6 +621,15 @@ export function ChannelSettingsPanel({
                                                                 <span className="text-[10px] text-muted-foreground truncate block">
                                                                     {contact.id}
                                                                 </span>
+                                                                {contact.identity && (contact.identity.crmContact || contact.identity.links.length > 1) && (
+                                                                    <span className="text-[10px] text-emerald-600 truncate block">
+                                                                        {[
+                                                                            contact.identity.crmContact && `CRM: ${contact.identity.crmContact.name}`,
+                                                                            contact.identity.links.length > 1 &&
+                                                                                `Also on ${[...new Set(contact.identity.links.map((l) => l.channelType))].join(", ")}`,
+                                                                        ].filter(Boolean).join(" · ")}
+                                                                    </span>
+                                                                )}
                                                             </div>
                                                             <Plus className="h-3 w-3 text-muted-foreground flex-shrink-0 ml-2" />
                                                         </button>
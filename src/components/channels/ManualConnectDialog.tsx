@@ -48,6 +48,8 @@ interface ChannelConfig {
   fields: FieldConfig[];
   instructions: string[];
   documentationUrl?: string;
+  /** Credentials are verified against the server via /api/channels/connect */
+  setupEndpoint?: boolean;
 }
 
 interface FieldConfig {
@@ -125,20 +127,25 @@ const CHANNEL_CONFIGS: Record<string, ChannelConfig> = {
         required: true,
       },
       {
-        key: 'channelId',
-        label: 'Room ID',
+        key: 'rooms',
+        label: 'Rooms',
         type: 'text',
-        placeholder: '!room:matrix.org',
-        description: 'The room to monitor (or leave blank for all rooms)',
-        required: true,
+        placeholder: '#engineering:example.org, !abc123:example.org',
+        description: 'Comma-separated room IDs or aliases (leave blank for all joined rooms)',
       },
       {
         key: 'accessToken',
         label: 'Access Token',
         type: 'password',
         placeholder: 'syt_...',
-        description: 'Access token for authentication',
-        required: true,
+        description: 'Access token for the bot account (or use a password below)',
+      },
+      {
+        key: 'password',
+        label: 'Password',
+        type: 'password',
+        placeholder: 'Bot account password',
+        description: 'Used to log in and create an access token when none is given',
       },
       {
         key: 'displayName',
@@ -149,12 +156,141 @@ const CHANNEL_CONFIGS: Record<string, ChannelConfig> = {
       },
     ],
     instructions: [
-      'Create a Matrix account for your bot',
-      'Get an access token via Settings → Security',
-      'Enter your homeserver and credentials',
-      'Invite the bot to rooms you want to monitor',
+      'Create a Matrix account for your bot on your homeserver',
+      'Enter an access token, or the account password to log in',
+      'List the rooms to join, or invite the bot and it joins automatically',
+      'For encrypted rooms, point the homeserver URL at a Pantalaimon proxy',
+    ],
+    documentationUrl: 'https://spec.matrix.org/latest/client-server-api/',
+    setupEndpoint: true,
+  },
+  irc: {
+    name: 'IRC',
+    icon: '#️⃣',
+    color: 'text-slate-500',
+    gradient: 'from-slate-500 to-slate-600',
+    fields: [
+      {
+        key: 'server',
+        label: 'Server',
+        type: 'text',
+        placeholder: 'irc.libera.chat',
+        description: 'Hostname of the IRC server',
+        required: true,
+      },
+      {
+        key: 'port',
+        label: 'Port',
+        type: 'text',
+        placeholder: '6697',
+        description: 'TLS port (default: 6697)',
+      },
+      {
+        key: 'nickname',
+        label: 'Nickname',
+        type: 'text',
+        placeholder: 'maiabot',
+        description: 'Nickname the bot uses',
+        required: true,
+      },
+      {
+        key: 'channels',
+        label: 'Channels',
+        type: 'text',
+        placeholder: '#engineering, #ops',
+        description: 'Comma-separated channels to join',
+        required: true,
+      },
+      {
+        key: 'password',
+        label: 'Password',
+        type: 'password',
+        placeholder: 'Account password',
+        description: 'Optional SASL password for a registered nickname',
+      },
+      {
+        key: 'displayName',
+        label: 'Display Name',
+        type: 'text',
+        placeholder: 'IRC Bot',
+        description: 'A friendly name for this connection',
+      },
+    ],
+    instructions: [
+      'Pick a nickname for the bot (register it with NickServ to use a password)',
+      'Enter the server and the channels to join',
+      'In channels the bot answers when addressed by name, e.g. "maiabot: hello"',
+      'Private messages to the bot are always answered',
+    ],
+    documentationUrl: 'https://modern.ircdocs.horse/',
+    setupEndpoint: true,
+  },
+  email: {
+    name: 'Email',
+    icon: '📧',
+    color: 'text-amber-500',
+    gradient: 'from-amber-500 to-amber-600',
+    fields: [
+      {
+        key: 'emailAddress',
+        label: 'Email Address',
+        type: 'text',
+        placeholder: 'support@example.com',
+        description: 'The mailbox the agent answers',
+        required: true,
+      },
+      {
+        key: 'password',
+        label: 'Password',
+        type: 'password',
+        placeholder: 'App password',
+        description: 'Mailbox password (use an app password if your provider requires one)',
+        required: true,
+      },
+      {
+        key: 'imapHost',
+        label: 'IMAP Server',
+        type: 'text',
+        placeholder: 'imap.example.com',
+        description: 'Incoming mail server (TLS on port 993)',
+        required: true,
+      },
+      {
+        key: 'smtpHost',
+        label: 'SMTP Server',
+        type: 'text',
+        placeholder: 'smtp.example.com',
+        description: 'Outgoing mail server (TLS on port 465, or STARTTLS on 587)',
+      },
+      {
+        key: 'smtpPort',
+        label: 'SMTP Port',
+        type: 'text',
+        placeholder: '465',
+        description: 'Default: 465',
+      },
+      {
+        key: 'username',
+        label: 'Username',
+        type: 'text',
+        placeholder: 'support@example.com',
+        description: 'Login name, if different from the email address',
+      },
+      {
+        key: 'fromName',
+        label: 'Sender Name',
+        type: 'text',
+        placeholder: 'Example Support',
+        description: 'Name shown on replies',
+      },
+    ],
+    instructions: [
+      'Create (or pick) a mailbox for the agent, e.g. support@',
+      'Enable IMAP access and create an app password if needed',
+      'New unread mail is checked every minute and answered in the same thread',
+      'Auto-replies, bounces and mailing list mail are ignored',
     ],
-    documentationUrl: 'https://matrix.org/docs/develop/',
+    setupEndpoint: true,
   },
   webchat: {
     name: 'WebChat',
@@ -521,10 +657,17 @@ export function ManualConnectDialog({
         toast.success(`${config.name} credentials updated!`);
       } else {
         // Create mode: POST new channel
-        const response = await fetch(`/api/channels/manual/${channelType}`, {
+        const endpoint = config.setupEndpoint
+          ? `/api/channels/connect/${channelType}`
+          : `/api/channels/manual/${channelType}`;
+        // Optional fields left blank are omitted so server-side defaults apply
+        const body = config.setupEndpoint
+          ? Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim()))
+          : values;
+        const response = await fetch(endpoint, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(values),
+          body: JSON.stringify(body),
         });
 
         if (!response.ok) {
@@ -35,6 +35,8 @@ const ORCHESTRATION_MODES: { value: OrchestrationMode; label: string; descriptio
     { value: "parallel", label: "Parallel", description: "All agents respond simultaneously" },
     { value: "hierarchical", label: "Hierarchical", description: "Coordinator delegates to specialists" },
     { value: "consensus", label: "Consensus", description: "Agents discuss, then synthesize" },
+    { value: "debate", label: "Debate", description: "First two agents argue, a judge scores and rules" },
+    { value: "critique", label: "Critique", description: "Author drafts, reviewer critiques until approval" },
     { value: "auto", label: "Auto", description: "System chooses the best mode" },
 ];
 
@@ -495,11 +497,11 @@ export function AgentSelector({ conversationId, onAgentsChanged, onConversationC
                                         </SelectContent>
                                     </Select>
                                 </div>
-                                {/* Discussion rounds config for consensus mode */}
-                                {orchestrationMode === "consensus" && (
+                                {/* Rounds config for the multi-round modes */}
+                                {(orchestrationMode === "consensus" || orchestrationMode === "debate" || orchestrationMode === "critique") && (
                                     <div className="space-y-1">
                                         <label className="text-xs font-medium flex items-center justify-between">
-                                            <span>Discussion Rounds</span>
+                                            <span>{orchestrationMode === "critique" ? "Max Revisions" : orchestrationMode === "debate" ? "Debate Rounds" : "Discussion Rounds"}</span>
                                             <span className="text-muted-foreground">{maxRounds}</span>
                                         </label>
                                         <input
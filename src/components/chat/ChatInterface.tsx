@@ -23,6 +23,7 @@ import {
 import { ModelFailoverBadge } from '@/components/chat/ModelFailoverBadge';
 import type { AutonomousStreamEvent, FileInfo, ActivityLogEntry } from '@/lib/autonomous/types';
 import { getAllModels } from '@/lib/ai/models';
+import type { CitationSource } from '@/lib/rag/citations';
 
 const DEFAULT_MODEL = 'gpt-4o';
 const AUTONOMOUS_MODE_KEY = 'maiachat-autonomous-mode';
@@ -1414,6 +1415,8 @@ export function ChatInterface({ id, initialMessages = [], initialModel }: ChatIn
                       toast.info(`Round ${data.round} of ${data.maxRounds} starting...`);
                     } else if (data.phase === 'synthesis') {
                       toast.info('Synthesizing responses...');
+                    } else if (data.phase === 'verdict') {
+                      toast.info('The judge is scoring the debate...');
                     }
                   } else if (data.type === 'agent_start') {
                     // New agent starting to respond - create a NEW message bubble
@@ -1788,6 +1791,7 @@ export function ChatInterface({ id, initialMessages = [], initialModel }: ChatIn
             id: persistedMsg.id,
             role: persistedMsg.role,
             parts: buildPartsFromPersisted(persistedMsg.content || '', persistedMsg.metadata),
+            metadata: persistedMsg.metadata ?? undefined,
           } satisfies UIMessage;
 
           const existingIndex = idToIndex.get(persistedMsg.id);
@@ -2013,6 +2017,8 @@ export function ChatInterface({ id, initialMessages = [], initialModel }: ChatIn
               outputTokens?: number;
               agentName?: string;
               agentId?: string;
+              ragSources?: CitationSource[];
+              citations?: CitationSource[];
             };
             const msgData = m as unknown as { createdAt?: Date; metadata?: MessageMetadata };
 
@@ -2082,6 +2088,12 @@ export function ChatInterface({ id, initialMessages = [], initialModel }: ChatIn
               <div className="bg-primary/10 border border-primary/30 rounded-lg px-4 py-2 text-sm text-primary">
                 {roundProgress.phase === 'synthesis' ? (
                   <span>Synthesizing final response...</span>
+                ) : roundProgress.phase === 'verdict' ? (
+                  <span>Judging the debate...</span>
+                ) : roundProgress.phase === 'review' ? (
+                  <span>
+                    Reviewing draft {roundProgress.round} of {roundProgress.maxRounds}
+                  </span>
                 ) : (
                   <span>
                     Discussion Round {roundProgress.round} of {roundProgress.maxRounds}
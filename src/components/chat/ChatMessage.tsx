@@ -6,6 +6,8 @@ import { cn } from "@/lib/utils";
 import { User, Sparkles, Copy, Check, RefreshCw, Pencil, X, History, Bot, Volume2, VolumeX } from "lucide-react";
 import { MarkdownRenderer } from "@/components/chat/MarkdownRenderer";
 import { FileList, type FileInfo } from "@/components/chat/FileAttachment";
+import { SourceCitation } from "@/components/chat/SourceCitation";
+import { extractCitations, type CitationSource } from "@/lib/rag/citations";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { useState, useRef, useEffect, memo, useCallback } from "react";
@@ -99,6 +101,10 @@ interface ChatMessageProps {
         outputTokens?: number;
         agentName?: string;
         agentId?: string;
+        /** Numbered sources injected for RAG */
+        ragSources?: CitationSource[];
+        /** Sources the answer cited, stored when the message is saved */
+        citations?: CitationSource[];
     };
     onRegenerate?: () => void;
     isRegenerating?: boolean;
@@ -128,6 +134,9 @@ export const ChatMessage = memo(function ChatMessage({
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
     const isEdited = metadata?.lastEditedAt !== undefined;
+    // Saved messages carry their citations; streaming ones resolve [n] markers live
+    const citedSources = metadata?.citations
+        ?? (metadata?.ragSources ? extractCitations(content, metadata.ragSources) : []);
     const editHistory = metadata?.editHistory || [];
 
     // Auto-resize textarea
@@ -459,7 +468,10 @@ export const ChatMessage = memo(function ChatMessage({
                             ) : isUser ? (
                                 <div className="whitespace-pre-wrap">{content}</div>
                             ) : (
-                                <MarkdownRenderer content={content} />
+                                <>
+                                    <MarkdownRenderer content={content} />
+                                    <SourceCitation sources={citedSources} />
+                                </>
                             )}
 
                             {/* Image attachments */}
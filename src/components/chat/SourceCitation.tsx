@@ -7,6 +7,13 @@ import {
     PopoverContent,
     PopoverTrigger,
 } from "@/components/ui/popover";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -16,21 +23,24 @@ import {
     ChevronDown,
     ChevronUp,
     ExternalLink,
+    Loader2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { describeCitationSource, type CitationSource } from "@/lib/rag/citations";
 
-export interface RAGSource {
-    documentId: string;
-    chunkId: string;
-    filename?: string;
-    score?: number;
-}
+export type RAGSource = CitationSource;
 
 interface SourceCitationProps {
     sources: RAGSource[];
     className?: string;
 }
 
+interface ChunkPreview {
+    content: string;
+    previous: string | null;
+    next: string | null;
+}
+
 function getFileIcon(filename?: string) {
     if (!filename) return FileText;
     const ext = filename.toLowerCase().slice(filename.lastIndexOf("."));
@@ -44,28 +54,90 @@ function formatScore(score?: number): string {
     return `${Math.round(score * 100)}%`;
 }
 
+/**
+ * Dialog showing the cited chunk in place, between its neighbouring chunks
+ */
+function SourcePreviewDialog({
+    source,
+    preview,
+    error,
+    onClose,
+}: {
+    source: RAGSource | null;
+    preview: ChunkPreview | null;
+    error: string | null;
+    onClose: () => void;
+}) {
+    return (
+        <Dialog open={!!source} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-[640px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Badge variant="secondary">[{source?.index}]</Badge>
+                        <span className="truncate">{source?.filename || "Document"}</span>
+                    </DialogTitle>
+                    <DialogDescription>
+                        {source && describeCitationSource(source)}
+                        {source?.startOffset !== undefined && ` · characters ${source.startOffset}–${source.endOffset}`}
+                    </DialogDescription>
+                </DialogHeader>
+                <ScrollArea className="max-h-[60vh] pr-3">
+                    {error ? (
+                        <p className="text-sm text-destructive">{error}</p>
+                    ) : !preview ? (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Loading source...
+                        </div>
+                    ) : (
+                        <div className="space-y-3 text-sm whitespace-pre-wrap">
+                            {preview.previous && (
+                                <p className="text-muted-foreground">…{preview.previous.slice(-400)}</p>
+                            )}
+                            <p
+                                ref={(el) => el?.scrollIntoView({ block: "center" })}
+                                className="rounded-md border-l-4 border-primary bg-primary/5 p-3"
+                            >
+                                {preview.content}
+                            </p>
+                            {preview.next && (
+                                <p className="text-muted-foreground">{preview.next.slice(0, 400)}…</p>
+                            )}
+                        </div>
+                    )}
+                </ScrollArea>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
 export function SourceCitation({ sources, className }: SourceCitationProps) {
     const [isExpanded, setIsExpanded] = useState(false);
+    const [openSource, setOpenSource] = useState<RAGSource | null>(null);
+    const [preview, setPreview] = useState<ChunkPreview | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
 
     if (!sources || sources.length === 0) {
         return null;
     }
 
-    // Group sources by document
-    const groupedSources = sources.reduce((acc, source) => {
-        const key = source.documentId;
-        if (!acc[key]) {
-            acc[key] = {
-                documentId: source.documentId,
-                filename: source.filename,
-                chunks: [],
-            };
+    const openPreview = async (source: RAGSource) => {
+        setOpenSource(source);
+        setPreview(null);
+        setPreviewError(null);
+        try {
+            const response = await fetch(`/api/documents/${source.documentId}/chunks/${source.chunkId}`, {
+                credentials: "include",
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to load source");
+            }
+            setPreview({ content: data.chunk.content, previous: data.previous, next: data.next });
+        } catch (error) {
+            setPreviewError(error instanceof Error ? error.message : "Failed to load source");
         }
-        acc[key].chunks.push(source);
-        return acc;
-    }, {} as Record<string, { documentId: string; filename?: string; chunks: RAGSource[] }>);
-
-    const documents = Object.values(groupedSources);
+    };
 
     return (
         <div className={cn("mt-3 border-t pt-3", className)}>
@@ -76,7 +148,7 @@ export function SourceCitation({ sources, className }: SourceCitationProps) {
                 onClick={() => setIsExpanded(!isExpanded)}
             >
                 <FileText className="h-3 w-3 mr-1" />
-                {sources.length} source{sources.length !== 1 ? "s" : ""} used
+                {sources.length} source{sources.length !== 1 ? "s" : ""} cited
                 {isExpanded ? (
                     <ChevronUp className="h-3 w-3 ml-1" />
                 ) : (
@@ -85,52 +157,55 @@ export function SourceCitation({ sources, className }: SourceCitationProps) {
             </Button>
 
             {isExpanded && (
-                <div className="mt-2 space-y-2">
-                    {documents.map((doc) => {
-                        const FileIcon = getFileIcon(doc.filename);
-                        
+                <div className="mt-2 grid gap-2 sm:grid-cols-2">
+                    {sources.map((source) => {
+                        const FileIcon = getFileIcon(source.filename);
+
                         return (
-                            <div
-                                key={doc.documentId}
-                                className="flex items-start gap-2 p-2 rounded-md bg-muted/50"
+                            <button
+                                key={source.chunkId}
+                                type="button"
+                                onClick={() => openPreview(source)}
+                                className="flex items-start gap-2 p-2 rounded-md bg-muted/50 text-left hover:bg-muted transition-colors"
                             >
-                                <FileIcon className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                                <Badge variant="secondary" className="text-[10px] h-5 flex-shrink-0">
+                                    {source.index}
+                                </Badge>
                                 <div className="min-w-0 flex-1">
-                                    <p className="text-sm font-medium truncate">
-                                        {doc.filename || "Document"}
+                                    <p className="text-sm font-medium truncate flex items-center gap-1">
+                                        <FileIcon className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                                        {describeCitationSource(source)}
+                                        <ExternalLink className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                                    </p>
+                                    <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
+                                        {source.snippet}
                                     </p>
-                                    <div className="flex flex-wrap gap-1 mt-1">
-                                        {doc.chunks.map((chunk, index) => (
-                                            <Badge
-                                                key={chunk.chunkId}
-                                                variant="secondary"
-                                                className="text-[10px] h-5"
-                                            >
-                                                Chunk {index + 1}
-                                                {chunk.score && (
-                                                    <span className="ml-1 text-muted-foreground">
-                                                        {formatScore(chunk.score)}
-                                                    </span>
-                                                )}
-                                            </Badge>
-                                        ))}
-                                    </div>
+                                    {source.score !== undefined && (
+                                        <p className="text-[10px] text-muted-foreground mt-0.5">
+                                            Relevance {formatScore(source.score)}
+                                        </p>
+                                    )}
                                 </div>
-                            </div>
+                            </button>
                         );
                     })}
                 </div>
             )}
+
+            <SourcePreviewDialog
+                source={openSource}
+                preview={preview}
+                error={previewError}
+                onClose={() => setOpenSource(null)}
+            />
         </div>
     );
 }
 
 // Inline citation marker component
 export function CitationMarker({
-    sourceIndex,
     source,
 }: {
-    sourceIndex: number;
     source: RAGSource;
 }) {
     return (
@@ -139,13 +214,16 @@ export function CitationMarker({
                 <button
                     className="inline-flex items-center justify-center h-4 min-w-4 px-1 text-[10px] font-medium rounded bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
                 >
-                    {sourceIndex}
+                    {source.index}
                 </button>
             </PopoverTrigger>
             <PopoverContent className="w-64 p-3" side="top">
                 <div className="space-y-2">
                     <p className="text-sm font-medium">
-                        {source.filename || "Document"}
+                        {describeCitationSource(source)}
+                    </p>
+                    <p className="text-xs text-muted-foreground line-clamp-4">
+                        {source.snippet}
                     </p>
                     {source.score && (
                         <p className="text-xs text-muted-foreground">
@@ -19,6 +19,10 @@ import {
     FileText,
     FileSpreadsheet,
     FileJson,
+    Presentation,
+    BookOpen,
+    Globe,
+    Mail,
     X,
     Loader2,
     CheckCircle,
@@ -57,9 +61,15 @@ const SUPPORTED_TYPES = [
     { ext: ".csv", mime: "text/csv", icon: FileSpreadsheet, label: "CSV" },
     { ext: ".xlsx", mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", icon: FileSpreadsheet, label: "Excel" },
     { ext: ".json", mime: "application/json", icon: FileJson, label: "JSON" },
+    { ext: ".html", mime: "text/html", icon: Globe, label: "HTML" },
+    { ext: ".pptx", mime: "application/vnd.openxmlformats-officedocument.presentationml.presentation", icon: Presentation, label: "PowerPoint" },
+    { ext: ".epub", mime: "application/epub+zip", icon: BookOpen, label: "EPUB" },
+    { ext: ".eml", mime: "message/rfc822", icon: Mail, label: "Email" },
+    { ext: ".mbox", mime: "application/mbox", icon: Mail, label: "Mailbox" },
 ];
 
-const ACCEPT_STRING = SUPPORTED_TYPES.map(t => t.mime).join(",");
+// Extensions too, since browsers often report no MIME type for .eml/.mbox
+const ACCEPT_STRING = [...SUPPORTED_TYPES.map(t => t.mime), ...SUPPORTED_TYPES.map(t => t.ext), ".htm"].join(",");
 
 function formatFileSize(bytes: number): string {
     if (bytes < 1024) return `${bytes} B`;
@@ -288,7 +298,7 @@ export function FileUpload({
                             Drop your file here or click to browse
                         </p>
                         <p className="text-sm text-muted-foreground mt-1">
-                            Supports PDF, DOCX, TXT, MD, CSV, XLSX, JSON (max {formatFileSize(maxSize)})
+                            Supports PDF, DOCX, PPTX, TXT, MD, HTML, EPUB, EML, MBOX, CSV, XLSX, JSON (max {formatFileSize(maxSize)})
                         </p>
                     </>
                 )}
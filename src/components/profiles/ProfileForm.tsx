@@ -41,7 +41,7 @@ const profileFormSchema = z.object({
         topK: z.number().min(1).max(20),
     }),
     orchestrationConfig: z.object({
-        mode: z.enum(["single", "sequential", "parallel", "hierarchical", "consensus", "auto"]),
+        mode: z.enum(["single", "sequential", "parallel", "hierarchical", "consensus", "debate", "critique", "auto"]),
         enableDebug: z.boolean(),
     }),
 });
@@ -72,6 +72,8 @@ const ORCHESTRATION_MODES = [
     { value: "parallel", label: "Parallel", description: "Agents work simultaneously" },
     { value: "hierarchical", label: "Hierarchical", description: "Lead agent coordinates others" },
     { value: "consensus", label: "Consensus", description: "Agents vote on responses" },
+    { value: "debate", label: "Debate", description: "Two agents argue, a judge rules" },
+    { value: "critique", label: "Critique", description: "Author revises until a reviewer approves" },
     { value: "auto", label: "Auto", description: "System selects best mode" },
 ];
 
@@ -0,0 +1,42 @@
+/**
+ * Agent Graph Ownership
+ *
+ * Save-time checks of an agent graph definition: its structure, via
+ * validateAgentGraph, and whether every node points at one of the user's
+ * own saved agents.
+ */
+
+import { db } from "@/lib/db";
+import { agents } from "@/lib/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import type { AgentGraphDefinition } from "@/types/agent";
+import { validateAgentGraph } from "./graph-definition";
+
+/**
+ * Agent IDs in the graph that are not saved agents of the user
+ */
+async function findMissingGraphAgents(userId: string, definition: AgentGraphDefinition): Promise<string[]> {
+    const agentIds = [...new Set(definition.nodes.map(node => node.agentId))];
+    const owned = await db
+        .select({ id: agents.id })
+        .from(agents)
+        .where(and(
+            eq(agents.userId, userId),
+            eq(agents.isTemplate, true),
+            inArray(agents.id, agentIds)
+        ));
+    const ownedIds = new Set(owned.map(agent => agent.id));
+    return agentIds.filter(id => !ownedIds.has(id));
+}
+
+/**
+ * Everything wrong with a graph a user wants to save, including nodes
+ * that point at agents they do not own
+ */
+export async function checkAgentGraph(userId: string, definition: AgentGraphDefinition): Promise<string[]> {
+    const missing = await findMissingGraphAgents(userId, definition);
+    return [
+        ...validateAgentGraph(definition),
+        ...missing.map(id => `Agent ${id} is not one of your saved agents`),
+    ];
+}
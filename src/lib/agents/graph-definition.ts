@@ -0,0 +1,105 @@
+/**
+ * Agent Graph Definitions
+ *
+ * Users describe their own orchestration as a graph: nodes are saved agents,
+ * edges say where the conversation goes next, either when the node's reply
+ * matches a condition or when its agent calls the edge's handoff tool. The
+ * definition is stored as JSON and compiled into a LangGraph by
+ * buildAgentGraph in ./graph. Checks that need the database live in
+ * ./graph-agents.
+ */
+
+import { AGENT_GRAPH_END, type AgentGraphCondition, type AgentGraphDefinition } from "@/types/agent";
+
+/**
+ * Structural problems that would make the graph fail or misbehave at
+ * runtime. An empty list means the graph can be compiled.
+ */
+export function validateAgentGraph(definition: AgentGraphDefinition): string[] {
+    const errors: string[] = [];
+    const nodeIds = new Set<string>();
+
+    for (const node of definition.nodes) {
+        if (node.id === AGENT_GRAPH_END) {
+            errors.push(`"${AGENT_GRAPH_END}" is reserved and cannot be a node ID`);
+        } else if (nodeIds.has(node.id)) {
+            errors.push(`Duplicate node ID "${node.id}"`);
+        }
+        nodeIds.add(node.id);
+    }
+
+    if (!nodeIds.has(definition.entry)) {
+        errors.push(`Entry node "${definition.entry}" does not exist`);
+    }
+
+    const handoffTargets = new Set<string>();
+    definition.edges.forEach((edge, index) => {
+        const label = `Edge ${index + 1} (${edge.from} → ${edge.to})`;
+        if (!nodeIds.has(edge.from)) {
+            errors.push(`${label} starts at an unknown node`);
+        }
+        if (edge.to !== AGENT_GRAPH_END && !nodeIds.has(edge.to)) {
+            errors.push(`${label} leads to an unknown node`);
+        }
+
+        if (edge.when.type === "regex") {
+            try {
+                new RegExp(edge.when.pattern, "i");
+            } catch {
+                errors.push(`${label} has an invalid pattern`);
+            }
+        } else if (edge.when.type === "handoff") {
+            // The target names the handoff tool, so it must be a node and unique per source
+            const key = `${edge.from}:${edge.to}`;
+            if (edge.to === AGENT_GRAPH_END) {
+                errors.push(`${label} cannot hand off to "${AGENT_GRAPH_END}"`);
+            } else if (handoffTargets.has(key)) {
+                errors.push(`${label} duplicates a handoff`);
+            }
+            handoffTargets.add(key);
+        }
+    });
+
+    // Nodes the entry can never reach are almost always a wiring mistake
+    if (nodeIds.has(definition.entry)) {
+        const reached = new Set([definition.entry]);
+        const queue = [definition.entry];
+        while (queue.length > 0) {
+            const from = queue.shift()!;
+            for (const edge of definition.edges) {
+                if (edge.from === from && nodeIds.has(edge.to) && !reached.has(edge.to)) {
+                    reached.add(edge.to);
+                    queue.push(edge.to);
+                }
+            }
+        }
+        for (const id of nodeIds) {
+            if (!reached.has(id)) {
+                errors.push(`Node "${id}" cannot be reached from "${definition.entry}"`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Whether a node's reply satisfies a condition edge. Handoff edges never
+ * match here; they are taken through their tool.
+ */
+export function matchesGraphCondition(condition: AgentGraphCondition, content: string): boolean {
+    switch (condition.type) {
+        case "always":
+            return true;
+        case "contains":
+            return content.toLowerCase().includes(condition.value.toLowerCase()) !== condition.negate;
+        case "regex":
+            try {
+                return new RegExp(condition.pattern, "i").test(content) !== condition.negate;
+            } catch {
+                return false;
+            }
+        case "handoff":
+            return false;
+    }
+}
@@ -1,12 +1,15 @@
 import { StateGraph, END, START, Annotation } from "@langchain/langgraph";
 import { AIMessage, HumanMessage, SystemMessage, BaseMessage } from "@langchain/core/messages";
-import type { AgentConfig, OrchestrationMode, AgentMessage, AgentTool } from "@/types/agent";
+import { z } from "zod";
+import { AGENT_GRAPH_END, type AgentConfig, type AgentGraphDefinition, type OrchestrationMode, type AgentMessage, type AgentTool } from "@/types/agent";
 import { getModelWithKey } from "@/lib/ai/providers/factory";
+import { recordUsage, readTokenUsage } from "@/lib/ai/usage";
 import type { ProviderId } from "@/lib/ai/providers/types";
 import { generateText, streamText, tool, stepCountIs } from "ai";
-import { executeTool, getTool, type ToolId, type ToolContext } from "@/lib/tools";
+import { executeTool, getTool, isToolAllowed, type ToolId, type ToolContext } from "@/lib/tools";
 import { pluginRegistry, initializePlugins, pluginExecutor } from "@/lib/plugins";
 import { buildPluginInputSchema } from "@/lib/plugins/utils";
+import { matchesGraphCondition } from "./graph-definition";
 import {
     beforeAgentStart,
     afterAgentEnd,
@@ -45,6 +48,7 @@ function selectSynthesizerAgent(agents: AgentConfig[], synthesizerAgentId?: stri
 // Map agent tool types to our tool IDs
 const TOOL_TYPE_TO_ID: Record<AgentTool, ToolId | null> = {
     web_search: "web_search",
+    http_request: "http_request",
     code_exec: "shell_exec",     // code_exec maps to shell execution
     file_read: "file_read",
     file_write: "file_write",
@@ -77,7 +81,7 @@ async function buildToolsForAgent(agentTools: AgentTool[] | undefined, context?:
         if (!toolId) continue;
 
         const toolDef = getTool(toolId);
-        if (!toolDef) continue;
+        if (!toolDef || !isToolAllowed(toolId, context?.policy)) continue;
 
         // Use the tool() helper function from AI SDK v6 for proper type inference and execution
         // AI SDK v6 uses 'inputSchema' instead of 'parameters'
@@ -103,7 +107,7 @@ async function buildToolsForAgent(agentTools: AgentTool[] | undefined, context?:
     }
 
     // Add plugin/skill tools if agent has "skill" tool enabled
-    if (agentTools.includes("skill")) {
+    if (agentTools.includes("skill") && isToolAllowed("skill", context?.policy)) {
         // Ensure plugins are loaded
         await initializePlugins();
 
@@ -123,9 +127,11 @@ async function buildToolsForAgent(agentTools: AgentTool[] | undefined, context?:
                                 params as Record<string, unknown>,
                                 {
                                     userId: context?.userId || "",
-                                    agentId: undefined,
+                                    agentId: context?.agentId,
                                     config: {
-                                        googleApiKey: context?.apiKeys?.google,
+                                        googleApiKey: context?.policy?.credentials && !context.policy.credentials.includes("google")
+                                            ? undefined
+                                            : context?.apiKeys?.google,
                                     },
                                 }
                             );
@@ -235,6 +241,24 @@ const AgentStateAnnotation = Annotation.Root({
         reducer: (_, b) => b,
         default: () => undefined,
     }),
+    // Turns of the current debate or critique, so later rounds see only this run's exchange
+    exchange: Annotation<AgentMessage[]>({
+        value: (prev, next) => [...prev, ...next],
+        default: () => [],
+    }),
+    // Agent graphs: the node to run next, the note handed to it, and visits per node
+    graphNext: Annotation<string | undefined>({
+        reducer: (_, b) => b,
+        default: () => undefined,
+    }),
+    graphNote: Annotation<string | undefined>({
+        reducer: (_, b) => b,
+        default: () => undefined,
+    }),
+    graphVisits: Annotation<Record<string, number>>({
+        reducer: (prev, next) => ({ ...prev, ...next }),
+        default: () => ({}),
+    }),
     // Streaming callback (not serializable, so passed via context/config usually, but here for local graph state if needed, though usually better in config)
     // We'll pass it via the node execution closure instead of state
 });
@@ -256,7 +280,9 @@ export async function executeAgent(
     apiKeys: ApiKeysMap,
     additionalContext?: string,
     toolContext?: ToolContext,
-    onToken?: OnTokenCallback
+    onToken?: OnTokenCallback,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    extraTools?: Record<string, any>
 ): Promise<AgentMessage> {
     try {
         // Build context from conversation history
@@ -295,7 +321,13 @@ export async function executeAgent(
 
         // Build tools for the agent if configured
         // Pass full tool context including local access settings for access control
-        const agentTools = await buildToolsForAgent(agent.tools, toolContext);
+        // Extra tools (e.g. agent graph handoffs) come on top of the configured ones
+        // Tools run under this agent's policy
+        const configuredTools = await buildToolsForAgent(
+            agent.tools,
+            toolContext && { ...toolContext, agentId: agent.id, policy: agent.toolPolicy }
+        );
+        const agentTools = extraTools ? { ...configuredTools, ...extraTools } : configuredTools;
 
         // Convert LangChain messages to AI SDK format
         // AI SDK v6 expects: { role: "user" | "assistant" | "system", content: string }
@@ -366,18 +398,18 @@ export async function executeAgent(
                 onToken(delta, agent.id || "unknown", agent.name);
             }
 
-            // We need to wait for the full stream to complete to get tool usage info locally
-            // But streamText in AI SDK v6 provides usage via onFinish callback or by awaiting the full result
-            // However, iterating textStream doesn't give us the full result object with usage and steps directly.
-            // We can resolve the usage from the promise after iteration if we used the stream helper correctly.
-
-            // For now, simpler approximation for streaming mode:
-            // We lose some tool usage stats in the immediate return unless we wait for `result.toDataStreamResponse()` equivalent processing
-            // But since we are iterating the text stream manually:
-
-            // Re-construct basic stats (approximate)
-            const inputTokens = 0; // Hard to get during stream without callbacks
-            const outputTokens = 0;
+            // Usage (summed over tool steps) resolves once the stream has been consumed
+            const { inputTokens, outputTokens } = readTokenUsage(await Promise.resolve(result.totalUsage).catch(() => undefined));
+            if (toolContext?.userId) {
+                await recordUsage({
+                    userId: toolContext.userId,
+                    feature: "multi_agent",
+                    model: agent.modelId,
+                    inputTokens,
+                    outputTokens,
+                    sourceId: toolContext.conversationId,
+                });
+            }
 
             return {
                 agentId: agent.id || "unknown",
@@ -421,6 +453,15 @@ export async function executeAgent(
             const usage = result.usage as unknown as Record<string, number> | undefined;
             const inputTokens = usage?.promptTokens ?? usage?.inputTokens;
             const outputTokens = usage?.completionTokens ?? usage?.outputTokens;
+            if (toolContext?.userId) {
+                await recordUsage({
+                    userId: toolContext.userId,
+                    feature: "multi_agent",
+                    model: agent.modelId,
+                    ...readTokenUsage(result.totalUsage),
+                    sourceId: toolContext.conversationId,
+                });
+            }
 
             return {
                 agentId: agent.id || "unknown",
@@ -756,7 +797,7 @@ Based on the other agents' perspectives, please:
 Your response should build upon the discussion while maintaining your unique expertise.`;
 
 // Factory to create consensus node with streaming support
-function createConsensusAgentNode(onToken?: OnTokenCallback, onRound?: (round: number, maxRounds: number, phase: "start" | "end" | "synthesis") => void) {
+function createConsensusAgentNode(onToken?: OnTokenCallback, onRound?: OnRoundCallback) {
     return async function consensusAgentNode(state: AgentGraphState): Promise<Partial<AgentGraphState>> {
         // Build tool context for tool execution
         const toolContext: ToolContext = {
@@ -879,10 +920,485 @@ function createConsensusAgentNode(onToken?: OnTokenCallback, onRound?: (round: n
     };
 }
 
+// Also ends the debate and critique loops
 function shouldContinueConsensus(state: AgentGraphState): "continue" | "end" {
     return state.isComplete ? "end" : "continue";
 }
 
+// ============================================================================
+// Debate Mode - Two agents argue assigned positions, a judge scores and rules
+// ============================================================================
+
+const DEFAULT_DEBATE_POSITIONS: [string, string] = [
+    "For: argue that the answer is yes, or that the proposal should be adopted",
+    "Against: argue that the answer is no, or that the proposal should be rejected",
+];
+
+const DEBATE_ROUND_PROMPT = `You are taking part in a structured debate about the user's question. This is round {ROUND} of {MAX_ROUNDS}.
+
+Your assigned position: {POSITION}
+
+Argue for your assigned position even where you would personally hedge. {TASK}
+
+Debate so far:
+{TRANSCRIPT}`;
+
+const JUDGE_PROMPT = `You are the impartial judge of a debate about this question:
+{USER_INPUT}
+
+Side A ({NAME_A}): {POSITION_A}
+Side B ({NAME_B}): {POSITION_B}
+
+Transcript:
+{TRANSCRIPT}
+
+Score each side from 1 to 10 on the strength of its arguments and evidence and on how well it answered the other side, not on which position you prefer. Then rule on the question.
+
+Respond with ONLY a JSON object:
+{
+  "scores": { "A": 7, "B": 5 },
+  "winner": "A" | "B" | "tie",
+  "reasoning": "Why the scores and winner",
+  "ruling": "The answer to the question that the debate supports"
+}`;
+
+interface DebateVerdict {
+    scores: { A: number; B: number };
+    winner: "A" | "B" | "tie";
+    reasoning: string;
+    ruling: string;
+}
+
+interface DebateSetup {
+    debaters: [AgentConfig, AgentConfig];
+    positions: [string, string];
+    judge: AgentConfig;
+}
+
+/**
+ * Debaters are the first two agents. With three or more, the judge is a
+ * coordinator or reviewer (else the third agent); with two, the first
+ * debater also judges, neutrally. Agents can set their side in
+ * `metadata.debatePosition`.
+ */
+function selectDebateAgents(agents: AgentConfig[]): DebateSetup | undefined {
+    if (agents.length < 2) return undefined;
+
+    const judge = agents.length > 2
+        ? agents.find(a => a.role === "coordinator" || a.role === "reviewer") ?? agents[2]
+        : undefined;
+    const [first, second] = agents.filter(a => a !== judge);
+    const positionOf = (agent: AgentConfig, fallback: string) =>
+        typeof agent.metadata?.debatePosition === "string" && agent.metadata.debatePosition.trim()
+            ? agent.metadata.debatePosition.trim()
+            : fallback;
+
+    return {
+        debaters: [first, second],
+        positions: [positionOf(first, DEFAULT_DEBATE_POSITIONS[0]), positionOf(second, DEFAULT_DEBATE_POSITIONS[1])],
+        judge: judge ?? first,
+    };
+}
+
+function formatTranscript(messages: AgentMessage[]): string {
+    return messages.map(m => `[${m.agentName}]: ${m.content}`).join("\n\n") || "(no arguments yet)";
+}
+
+function buildToolContext(state: AgentGraphState): ToolContext {
+    return {
+        userId: state.userId,
+        apiKeys: state.apiKeys as Record<string, string>,
+        localFileAccessEnabled: state.localFileAccessEnabled,
+        commandExecutionEnabled: state.commandExecutionEnabled,
+        fileAccessBaseDir: state.fileAccessBaseDir,
+        workspaceQuotaMb: state.workspaceQuotaMb,
+        hostedSandbox: state.hostedSandbox,
+    };
+}
+
+function parseJsonReply<T>(content: string): T | undefined {
+    try {
+        const jsonMatch = content.match(/\{[\s\S]*\}/);
+        return jsonMatch ? JSON.parse(jsonMatch[0]) as T : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function formatVerdict(verdict: DebateVerdict, names: [string, string]): string {
+    const winner = verdict.winner === "tie" ? "Tie" : names[verdict.winner === "A" ? 0 : 1];
+    return [
+        `**Verdict: ${winner}**`,
+        `Scores: ${names[0]} ${verdict.scores.A}/10, ${names[1]} ${verdict.scores.B}/10`,
+        verdict.reasoning,
+        `**Ruling:** ${verdict.ruling}`,
+    ].filter(Boolean).join("\n\n");
+}
+
+function createDebateNode(onToken?: OnTokenCallback, onRound?: OnRoundCallback) {
+    return async function debateNode(state: AgentGraphState): Promise<Partial<AgentGraphState>> {
+        const setup = selectDebateAgents(state.activeAgents);
+        if (!setup) {
+            return {
+                isComplete: true,
+                error: "Debate mode needs at least two agents",
+            };
+        }
+
+        const toolContext = buildToolContext(state);
+        const { debaters, positions, judge } = setup;
+        const roundNumber = state.round + 1;
+        const isFinalRound = roundNumber >= state.maxRounds;
+
+        onRound?.(roundNumber, state.maxRounds, "start");
+
+        const task = state.round === 0
+            ? "Open with your strongest arguments."
+            : isFinalRound
+                ? "This is your closing statement: answer the other side's last points and sum up why your position should prevail."
+                : "Rebut the other side's latest points directly, then strengthen your own case.";
+
+        // Debaters speak in turn so each sees the argument it answers
+        const turns: AgentMessage[] = [];
+        for (const [index, debater] of debaters.entries()) {
+            const context = DEBATE_ROUND_PROMPT
+                .replace("{ROUND}", String(roundNumber))
+                .replace("{MAX_ROUNDS}", String(state.maxRounds))
+                .replace("{POSITION}", positions[index])
+                .replace("{TASK}", task)
+                .replace("{TRANSCRIPT}", formatTranscript([...state.exchange, ...turns]));
+
+            const turn = await executeAgent(
+                debater,
+                state.userInput,
+                [],
+                true,
+                state.apiKeys,
+                context,
+                toolContext,
+                onToken
+            );
+            turns.push({
+                ...turn,
+                metadata: { ...turn.metadata, debate: { round: roundNumber, position: positions[index] } },
+            });
+        }
+
+        onRound?.(roundNumber, state.maxRounds, "end");
+
+        if (!isFinalRound) {
+            return {
+                messages: turns,
+                exchange: turns,
+                round: roundNumber,
+                isComplete: false,
+                debug: {
+                    reasoning: [`Debate round ${roundNumber}: ${debaters.map(d => d.name).join(" vs ")}`],
+                    decisions: [`Proceeding to round ${roundNumber + 1} of ${state.maxRounds}`],
+                },
+            };
+        }
+
+        onRound?.(roundNumber, state.maxRounds, "verdict");
+
+        const names: [string, string] = [debaters[0].name, debaters[1].name];
+        const judgePrompt = JUDGE_PROMPT
+            .replace("{USER_INPUT}", state.userInput)
+            .replace("{NAME_A}", names[0])
+            .replace("{POSITION_A}", positions[0])
+            .replace("{NAME_B}", names[1])
+            .replace("{POSITION_B}", positions[1])
+            .replace("{TRANSCRIPT}", formatTranscript([...state.exchange, ...turns]));
+
+        // The verdict is JSON, so it is not streamed as is
+        const judgement = await executeAgent(
+            { ...judge, systemPrompt: judgePrompt, name: "Judge", tools: [] },
+            "Score the debate and rule.",
+            [],
+            true,
+            state.apiKeys,
+            undefined,
+            toolContext
+        );
+
+        const verdict = parseJsonReply<DebateVerdict>(judgement.content);
+        const content = verdict?.scores ? formatVerdict(verdict, names) : judgement.content;
+        onToken?.(content, judgement.agentId, judgement.agentName);
+
+        return {
+            messages: [...turns, { ...judgement, content, metadata: { ...judgement.metadata, verdict } }],
+            exchange: turns,
+            round: roundNumber,
+            isComplete: true,
+            debug: {
+                reasoning: [`Debate round ${roundNumber} (final): ${names.join(" vs ")}, judged by ${judge.name}`],
+                decisions: [verdict ? `Winner: ${verdict.winner}` : "Judge reply was not structured"],
+            },
+        };
+    };
+}
+
+// ============================================================================
+// Critique Mode - Author drafts, reviewer critiques, author revises
+// ============================================================================
+
+const REVIEWER_PROMPT = `You are a demanding reviewer. Review the draft below, written in answer to the user's request, for correctness, completeness and clarity.
+
+User request: {USER_INPUT}
+
+Draft (revision {ROUND}):
+{DRAFT}
+
+Approve only when no major issues remain. Respond with ONLY a JSON object:
+{
+  "approved": true | false,
+  "score": 1-10,
+  "issues": [{ "severity": "major" | "minor", "issue": "What is wrong", "suggestion": "How to fix it" }],
+  "summary": "One or two sentences on the draft overall"
+}`;
+
+const REVISION_PROMPT = `You are revising your answer to the user's request after a review.
+
+Your previous draft:
+{DRAFT}
+
+Reviewer's critique:
+{CRITIQUE}
+
+Address every major issue and any minor ones that improve the answer. Reply with the complete revised answer only, not a list of changes.`;
+
+interface Critique {
+    approved: boolean;
+    score?: number;
+    issues?: Array<{ severity?: "major" | "minor"; issue: string; suggestion?: string }>;
+    summary?: string;
+}
+
+/**
+ * The reviewer is the agent with the reviewer role, else the second agent;
+ * the author is the first other agent
+ */
+function selectCritiqueAgents(agents: AgentConfig[]): { author: AgentConfig; reviewer: AgentConfig } | undefined {
+    const reviewer = agents.find(a => a.role === "reviewer") ?? agents[1];
+    const author = agents.find(a => a !== reviewer);
+    return author && reviewer ? { author, reviewer } : undefined;
+}
+
+function formatCritique(critique: Critique): string {
+    const issues = (critique.issues ?? []).map(i =>
+        `- ${i.severity === "major" ? "**Major:** " : ""}${i.issue}${i.suggestion ? ` → ${i.suggestion}` : ""}`
+    );
+    return [
+        `**${critique.approved ? "Approved" : "Changes requested"}**${critique.score !== undefined ? ` (${critique.score}/10)` : ""}`,
+        critique.summary,
+        issues.join("\n"),
+    ].filter(Boolean).join("\n\n");
+}
+
+function createCritiqueNode(onToken?: OnTokenCallback, onRound?: OnRoundCallback) {
+    return async function critiqueNode(state: AgentGraphState): Promise<Partial<AgentGraphState>> {
+        const agents = selectCritiqueAgents(state.activeAgents);
+        if (!agents) {
+            return {
+                isComplete: true,
+                error: "Critique mode needs an author and a reviewer agent",
+            };
+        }
+
+        const toolContext = buildToolContext(state);
+        const { author, reviewer } = agents;
+        const roundNumber = state.round + 1;
+
+        onRound?.(roundNumber, state.maxRounds, "start");
+
+        // Draft first, then revise against the latest critique
+        const previousDraft = [...state.exchange].reverse().find(m => m.metadata?.critiqueRole === "draft");
+        const previousCritique = [...state.exchange].reverse().find(m => m.metadata?.critiqueRole === "critique");
+        const draftTurn = await executeAgent(
+            author,
+            state.userInput,
+            state.round === 0 ? state.messages : [],
+            true,
+            state.apiKeys,
+            previousDraft && previousCritique
+                ? REVISION_PROMPT
+                    .replace("{DRAFT}", previousDraft.content)
+                    .replace("{CRITIQUE}", previousCritique.content)
+                : undefined,
+            toolContext,
+            onToken
+        );
+        const draft: AgentMessage = {
+            ...draftTurn,
+            metadata: { ...draftTurn.metadata, critiqueRole: "draft", round: roundNumber },
+        };
+
+        onRound?.(roundNumber, state.maxRounds, "review");
+
+        // The critique is JSON, so it is not streamed as is
+        const reviewTurn = await executeAgent(
+            {
+                ...reviewer,
+                systemPrompt: REVIEWER_PROMPT
+                    .replace("{USER_INPUT}", state.userInput)
+                    .replace("{ROUND}", String(roundNumber))
+                    .replace("{DRAFT}", draft.content),
+                tools: [],
+            },
+            "Review the draft.",
+            [],
+            true,
+            state.apiKeys,
+            undefined,
+            toolContext
+        );
+        const critique = parseJsonReply<Critique>(reviewTurn.content);
+        const review: AgentMessage = {
+            ...reviewTurn,
+            content: critique ? formatCritique(critique) : reviewTurn.content,
+            metadata: { ...reviewTurn.metadata, critiqueRole: "critique", round: roundNumber, critique },
+        };
+        onToken?.(review.content, review.agentId, review.agentName);
+
+        onRound?.(roundNumber, state.maxRounds, "end");
+
+        const approved = critique?.approved === true;
+        const isComplete = approved || roundNumber >= state.maxRounds;
+
+        return {
+            messages: [draft, review],
+            exchange: [draft, review],
+            round: roundNumber,
+            isComplete,
+            debug: {
+                reasoning: [`Critique round ${roundNumber}: ${author.name} drafted, ${reviewer.name} ${approved ? "approved" : "requested changes"}`],
+                decisions: [
+                    approved
+                        ? "Draft approved"
+                        : isComplete
+                            ? `Round cap of ${state.maxRounds} reached without approval`
+                            : `Revising in round ${roundNumber + 1}`,
+                ],
+            },
+        };
+    };
+}
+
+// ============================================================================
+// Graph Mode - User-defined agent graphs
+// ============================================================================
+
+const GRAPH_CONTEXT_PROMPT = `You are one step of a multi-agent pipeline answering the user's request.
+
+Work done so far in this pipeline:
+{TRANSCRIPT}`;
+
+type AgentGraphNode = AgentGraphDefinition["nodes"][number];
+
+/** LangGraph node names share a namespace with state keys, so graph nodes are prefixed */
+function graphNodeName(nodeId: string): string {
+    return `graph_${nodeId}`;
+}
+
+function createAgentGraphNode(
+    node: AgentGraphNode,
+    definition: AgentGraphDefinition,
+    onToken?: OnTokenCallback
+) {
+    const outgoing = definition.edges.filter(edge => edge.from === node.id);
+    const nodesById = new Map(definition.nodes.map(n => [n.id, n]));
+
+    return async function agentGraphNode(state: AgentGraphState): Promise<Partial<AgentGraphState>> {
+        const agent = state.activeAgents.find(a => a.id === node.agentId);
+        if (!agent) {
+            return {
+                isComplete: true,
+                graphNext: undefined,
+                error: `The agent of graph node "${node.id}" is missing or inactive`,
+            };
+        }
+
+        const agentName = (nodeId: string) =>
+            state.activeAgents.find(a => a.id === nodesById.get(nodeId)?.agentId)?.name ?? nodeId;
+
+        // The first handoff the agent calls decides where the run goes next
+        let handoff: { to: string; note: string } | undefined;
+        const handoffTools = Object.fromEntries(outgoing.flatMap(edge => {
+            if (edge.when.type !== "handoff") return [];
+            return [[`handoff_to_${edge.to}`, tool({
+                description: edge.when.description || `Hand the conversation over to ${agentName(edge.to)}`,
+                inputSchema: z.object({
+                    note: z.string().describe("What the next agent should do, with anything it needs to know"),
+                }),
+                execute: async ({ note }) => {
+                    handoff ??= { to: edge.to, note };
+                    return handoff.to === edge.to
+                        ? `Handed over to ${agentName(edge.to)}. Finish your reply briefly.`
+                        : `Already handed over to ${agentName(handoff.to)}.`;
+                },
+            })]];
+        }));
+
+        const context = [
+            state.exchange.length > 0
+                ? GRAPH_CONTEXT_PROMPT.replace("{TRANSCRIPT}", formatTranscript(state.exchange))
+                : undefined,
+            state.graphNote ? `Handoff note from the previous agent: ${state.graphNote}` : undefined,
+            node.instructions,
+        ].filter(Boolean).join("\n\n");
+
+        const turn = await executeAgent(
+            agent,
+            state.userInput,
+            state.exchange.length === 0 ? state.messages : [],
+            true,
+            state.apiKeys,
+            context || undefined,
+            buildToolContext(state),
+            onToken,
+            Object.keys(handoffTools).length > 0 ? handoffTools : undefined
+        );
+        const step = state.round + 1;
+        const reply: AgentMessage = {
+            ...turn,
+            metadata: { ...turn.metadata, graphNode: node.id, step, handoffTo: handoff?.to },
+        };
+
+        const visits = { ...state.graphVisits, [node.id]: (state.graphVisits[node.id] ?? 0) + 1 };
+        const target = handoff?.to ?? outgoing.find(edge =>
+            edge.when.type !== "handoff" && matchesGraphCondition(edge.when, reply.content)
+        )?.to;
+        const targetNode = target && target !== AGENT_GRAPH_END ? nodesById.get(target) : undefined;
+
+        let decision: string;
+        let next: string | undefined;
+        if (!targetNode) {
+            decision = target ? `${node.id} finished the run` : `No edge matched after ${node.id}, ending`;
+        } else if (step >= definition.maxSteps) {
+            decision = `Step cap of ${definition.maxSteps} reached before ${targetNode.id}`;
+        } else if ((visits[targetNode.id] ?? 0) >= targetNode.maxVisits) {
+            decision = `${targetNode.id} already ran ${targetNode.maxVisits} time(s), ending`;
+        } else {
+            next = targetNode.id;
+            decision = handoff ? `${node.id} handed off to ${next}` : `${node.id} → ${next}`;
+        }
+
+        return {
+            messages: [reply],
+            exchange: [reply],
+            round: step,
+            graphNext: next,
+            graphNote: handoff?.note,
+            graphVisits: visits,
+            isComplete: !next,
+            debug: {
+                reasoning: [`Step ${step}: ${agent.name} ran node ${node.id}`],
+                decisions: [decision],
+            },
+        };
+    };
+}
+
 // ============================================================================
 // Auto-Router Mode - Intelligent routing based on task analysis
 // ============================================================================
@@ -1330,7 +1846,7 @@ export function buildHierarchicalGraph(onToken?: OnTokenCallback) {
     return graph.compile();
 }
 
-export function buildConsensusGraph(onToken?: OnTokenCallback, onRound?: (round: number, maxRounds: number, phase: "start" | "end" | "synthesis") => void) {
+export function buildConsensusGraph(onToken?: OnTokenCallback, onRound?: OnRoundCallback) {
     // Consensus mode with multi-round discussion support
     // Agents discuss until maxRounds is reached, then synthesize
     const graph = new StateGraph(AgentStateAnnotation)
@@ -1348,6 +1864,69 @@ export function buildConsensusGraph(onToken?: OnTokenCallback, onRound?: (round:
     return graph.compile();
 }
 
+export function buildDebateGraph(onToken?: OnTokenCallback, onRound?: OnRoundCallback) {
+    // Debaters argue for maxRounds rounds, then the judge rules
+    const graph = new StateGraph(AgentStateAnnotation)
+        .addNode("debate", createDebateNode(onToken, onRound))
+        .addEdge(START, "debate")
+        .addConditionalEdges(
+            "debate",
+            shouldContinueConsensus,
+            {
+                continue: "debate",
+                end: END,
+            }
+        );
+
+    return graph.compile();
+}
+
+export function buildCritiqueGraph(onToken?: OnTokenCallback, onRound?: OnRoundCallback) {
+    // Draft and review until the reviewer approves or maxRounds is reached
+    const graph = new StateGraph(AgentStateAnnotation)
+        .addNode("critique", createCritiqueNode(onToken, onRound))
+        .addEdge(START, "critique")
+        .addConditionalEdges(
+            "critique",
+            shouldContinueConsensus,
+            {
+                continue: "critique",
+                end: END,
+            }
+        );
+
+    return graph.compile();
+}
+
+/**
+ * Compile a user-defined agent graph. The definition must have passed
+ * validateAgentGraph.
+ */
+export function buildAgentGraph(definition: AgentGraphDefinition, onToken?: OnTokenCallback) {
+    // Node names are only known at runtime, so the builder is typed loosely
+    const graph = new StateGraph(AgentStateAnnotation) as unknown as StateGraph<
+        typeof AgentStateAnnotation.spec,
+        AgentGraphState,
+        Partial<AgentGraphState>,
+        string
+    >;
+    const targets = [...definition.nodes.map(node => graphNodeName(node.id)), END];
+
+    for (const node of definition.nodes) {
+        graph.addNode(graphNodeName(node.id), createAgentGraphNode(node, definition, onToken));
+    }
+    graph.addEdge(START, graphNodeName(definition.entry));
+    for (const node of definition.nodes) {
+        graph.addConditionalEdges(
+            graphNodeName(node.id),
+            (state: AgentGraphState) => state.graphNext ? graphNodeName(state.graphNext) : END,
+            targets
+        );
+    }
+
+    return graph.compile();
+}
+
 export function buildAutoRouterGraph(onToken?: OnTokenCallback) {
     const graph = new StateGraph(AgentStateAnnotation)
         .addNode("router", createAutoRouterNode(onToken))
@@ -1372,7 +1951,9 @@ export interface OrchestrationResult {
 }
 
 // Callback types for streaming events
-export type OnRoundCallback = (round: number, maxRounds: number, phase: "start" | "end" | "synthesis") => void;
+// "verdict" is the debate judge ruling, "review" the critique reviewer's turn
+export type RoundPhase = "start" | "end" | "synthesis" | "verdict" | "review";
+export type OnRoundCallback = (round: number, maxRounds: number, phase: RoundPhase) => void;
 
 export async function executeOrchestration(
     conversationId: string,
@@ -1393,7 +1974,8 @@ export async function executeOrchestration(
         workspaceQuotaMb?: number;
         hostedSandbox?: boolean;
     },
-    enableMemoryHooks: boolean = false
+    enableMemoryHooks: boolean = false,
+    agentGraph?: AgentGraphDefinition
 ): Promise<OrchestrationResult> {
     // Sort agents by priority
     const sortedAgents = [...agents].sort((a, b) => (b.priority || 50) - (a.priority || 50));
@@ -1478,6 +2060,18 @@ export async function executeOrchestration(
             case "consensus":
                 graph = buildConsensusGraph(onToken, onRound);
                 break;
+            case "debate":
+                graph = buildDebateGraph(onToken, onRound);
+                break;
+            case "critique":
+                graph = buildCritiqueGraph(onToken, onRound);
+                break;
+            case "graph":
+                if (!agentGraph) {
+                    throw new Error("Graph mode needs an agent graph");
+                }
+                graph = buildAgentGraph(agentGraph, onToken);
+                break;
             case "auto":
                 graph = buildAutoRouterGraph(onToken);
                 break;
@@ -1498,8 +2092,11 @@ export async function executeOrchestration(
         // Apply memory hooks after agent execution if enabled
         if (enableMemoryHooks && userId && newMessages.length > 0) {
             try {
-                // Get the last assistant message for fact capture
-                const lastAssistantMessage = newMessages.filter(m => m.role === "assistant").pop();
+                // Get the last assistant answer for fact capture; in critique mode
+                // that is the author's last draft, not the reviewer's critique
+                const lastAssistantMessage = newMessages
+                    .filter(m => m.role === "assistant" && m.metadata?.critiqueRole !== "critique")
+                    .pop();
                 if (lastAssistantMessage) {
                     const agentContext: AgentContext = {
                         userId,
@@ -1533,6 +2130,7 @@ export async function executeOrchestration(
             messages: newMessages,
             mode,
             debug: enableDebug ? result.debug : undefined,
+            error: result.error,
         };
     } catch (error) {
         console.error("Orchestration error:", error);
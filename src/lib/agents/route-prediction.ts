@@ -0,0 +1,186 @@
+/**
+ * Route Prediction
+ *
+ * The scoring half of the semantic router: how a past reply is labelled,
+ * how similar prompts and model prices turn into a predicted quality, and
+ * which model that picks for a tier. Free of database access so routing.ts
+ * can feed it whatever samples it loaded.
+ */
+
+import { sql, type SQL } from "drizzle-orm";
+import type { ModelConfig } from "@/lib/ai/providers/types";
+import type { ModelStats, PromptEmbedding, QualityTier, RoutingCandidate } from "./routing";
+
+/** Predicted quality (0-1) a model must reach for each tier */
+export const TIER_THRESHOLDS: Record<QualityTier, number> = {
+    budget: 0.55,
+    balanced: 0.65,
+    premium: 0.75,
+    frontier: 0.82,
+};
+
+// Similar prompts considered per decision, and how similar they must be
+const NEIGHBOR_LIMIT = 50;
+const MIN_SIMILARITY = 0.5;
+/** Weight of the price-based prior against the neighbors' labels */
+const PRIOR_WEIGHT = 2;
+/** Reply labels: unrated replies count as mostly fine */
+const LABEL_UP = 1;
+const LABEL_DOWN = 0;
+const LABEL_REGENERATED = 0.3;
+const LABEL_UNRATED = 0.7;
+/** Models failing more often than this (with enough calls) are skipped */
+const MAX_ERROR_RATE = 0.25;
+export const MIN_CALLS_FOR_STATS = 5;
+
+export interface SampleRow {
+    model: string;
+    similarity: number | string;
+    error: boolean;
+    feedback: string | null;
+    regenerated: boolean | null;
+}
+
+export interface Neighbor {
+    model: string;
+    similarity: number;
+    label: number;
+}
+
+/**
+ * The user's nearest past prompts embedded with the same model, answered
+ * by one of the candidate models
+ */
+export function similarSamplesQuery(userId: string, promptEmbedding: PromptEmbedding, modelIds: string[]): SQL {
+    const dimensions = sql.raw(String(Math.trunc(promptEmbedding.embedding.length)));
+    const vectorType = sql`vector(${dimensions})`;
+    const queryVector = sql`${JSON.stringify(promptEmbedding.embedding)}::${vectorType}`;
+    const distance = sql`(s.embedding::${vectorType} <=> ${queryVector})`;
+
+    // A plain array would be spread into ($1, $2, ...); ANY needs a single array parameter
+    return sql`
+        SELECT
+            s.model,
+            1 - ${distance} AS similarity,
+            s.error,
+            m.metadata->>'feedback' AS feedback,
+            (m.metadata->>'regenerated')::boolean AS regenerated
+        FROM model_route_samples s
+        LEFT JOIN messages m ON m.id = s.message_id
+        WHERE s.user_id = ${userId}
+            AND s.embedding IS NOT NULL
+            AND s.embedding_model = ${promptEmbedding.model}
+            AND s.dimensions = ${dimensions}
+            AND s.model = ANY(${sql.param(modelIds)}::text[])
+        ORDER BY ${distance}
+        LIMIT ${NEIGHBOR_LIMIT}
+    `;
+}
+
+/**
+ * How a reply was received: failures and thumbs down count as bad,
+ * regenerations as mostly bad
+ */
+export function labelSample(row: Pick<SampleRow, "error" | "feedback" | "regenerated">): number {
+    if (row.error || row.feedback === "down") return LABEL_DOWN;
+    if (row.feedback === "up") return LABEL_UP;
+    return row.regenerated ? LABEL_REGENERATED : LABEL_UNRATED;
+}
+
+/**
+ * Labelled neighbors from the similar-samples query, dropping weak matches
+ */
+export function toNeighbors(rows: SampleRow[]): Neighbor[] {
+    return rows
+        .filter(row => Number(row.similarity) >= MIN_SIMILARITY)
+        .map(row => ({ model: row.model, similarity: Number(row.similarity), label: labelSample(row) }));
+}
+
+/**
+ * Quality expected without any history: pricier models are assumed better,
+ * spread between 0.5 and 0.85 by log price among the candidates
+ */
+export function pricePriors(models: ModelConfig[]): Map<string, number> {
+    const logPrices = models.map(m => Math.log10(m.pricing.input + m.pricing.output + 0.01));
+    const min = Math.min(...logPrices);
+    const max = Math.max(...logPrices);
+    return new Map(models.map((m, i) => [
+        m.id,
+        max > min ? 0.5 + 0.35 * ((logPrices[i] - min) / (max - min)) : 0.7,
+    ]));
+}
+
+/**
+ * Models that are not failing or too slow by their measured stats. Models
+ * with too few calls to judge are kept.
+ */
+export function healthyModels(
+    models: ModelConfig[],
+    stats: Map<string, ModelStats>,
+    maxLatencyMs?: number
+): ModelConfig[] {
+    return models.filter(model => {
+        const stat = stats.get(model.id);
+        if (!stat || stat.calls < MIN_CALLS_FOR_STATS) return true;
+        if (stat.errorRate > MAX_ERROR_RATE) return false;
+        return !maxLatencyMs || !stat.latencyMs || stat.latencyMs <= maxLatencyMs;
+    });
+}
+
+/**
+ * Predicted quality per model: the similarity-weighted labels of its own
+ * neighbors, pulled towards its price prior
+ */
+export function predictCandidates(
+    models: ModelConfig[],
+    neighbors: Neighbor[],
+    stats: Map<string, ModelStats>,
+    costs: Map<string, number>
+): RoutingCandidate[] {
+    const priors = pricePriors(models);
+    return models.map(model => {
+        const own = neighbors.filter(n => n.model === model.id);
+        const weight = own.reduce((sum, n) => sum + n.similarity, 0);
+        const labelled = own.reduce((sum, n) => sum + n.similarity * n.label, 0);
+        const prior = priors.get(model.id) ?? 0.7;
+        const stat = stats.get(model.id);
+        return {
+            modelId: model.id,
+            predictedQuality: (labelled + PRIOR_WEIGHT * prior) / (weight + PRIOR_WEIGHT),
+            samples: own.length,
+            estimatedCost: costs.get(model.id) ?? 0,
+            latencyMs: stat?.latencyMs,
+            errorRate: stat && stat.calls >= MIN_CALLS_FOR_STATS ? stat.errorRate : undefined,
+        };
+    });
+}
+
+/**
+ * The cheapest candidate that clears the tier, faster first on ties; when
+ * none does, the best predicted. Candidates come back sorted by cost.
+ */
+export function chooseCandidate(
+    candidates: RoutingCandidate[],
+    tier: QualityTier
+): { chosen: RoutingCandidate; byCost: RoutingCandidate[]; reason: string } {
+    const threshold = TIER_THRESHOLDS[tier];
+    const byCost = [...candidates].sort((a, b) =>
+        a.estimatedCost - b.estimatedCost || (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity)
+    );
+
+    const cheapest = byCost.find(c => c.predictedQuality >= threshold);
+    if (cheapest) {
+        return {
+            chosen: cheapest,
+            byCost,
+            reason: `${cheapest.modelId} is the cheapest model predicted to reach the ${tier} tier (${cheapest.predictedQuality.toFixed(2)} ≥ ${threshold}, ${cheapest.samples} similar sample(s))`,
+        };
+    }
+
+    const best = [...candidates].sort((a, b) => b.predictedQuality - a.predictedQuality)[0];
+    return {
+        chosen: best,
+        byCost,
+        reason: `No model is predicted to reach the ${tier} tier (${threshold}); using the best predicted, ${best.modelId} (${best.predictedQuality.toFixed(2)})`,
+    };
+}
@@ -1,183 +1,92 @@
-import type { AgentConfig } from "@/types/agent";
-import { getModelById, getAllModels } from "@/lib/ai/models";
+/**
+ * Semantic Model Router
+ *
+ * Picks a model for a prompt from how past replies to similar prompts went:
+ * the prompt is embedded and compared with earlier prompts, each labelled by
+ * the reply it got (thumbs up/down and regenerations in messages.metadata).
+ * The cheapest model whose predicted quality clears the requested tier wins.
+ * Latency and error rates are measured from the same samples.
+ */
+
+import { db } from "@/lib/db";
+import { messages, modelRouteSamples } from "@/lib/db/schema";
+import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { getAllModels } from "@/lib/ai/models";
 import type { ModelConfig, ModelCapability } from "@/lib/ai/providers/types";
+import { embed, getEmbeddingModel, resolveEmbeddingApiKey } from "@/lib/embeddings";
+import {
+    TIER_THRESHOLDS,
+    chooseCandidate,
+    healthyModels,
+    predictCandidates,
+    similarSamplesQuery,
+    toNeighbors,
+    type Neighbor,
+    type SampleRow,
+} from "./route-prediction";
 
 // ============================================================================
-// Task Analysis Types
+// Types
 // ============================================================================
 
-export interface TaskAnalysis {
-    type: TaskType;
-    complexity: "simple" | "moderate" | "complex";
-    requiredCapabilities: ModelCapability[];
-    estimatedTokens: number;
-    priority: "low" | "normal" | "high";
+export const AUTO_MODEL_ID = "auto";
+
+export const QUALITY_TIERS = ["budget", "balanced", "premium", "frontier"] as const;
+export type QualityTier = (typeof QUALITY_TIERS)[number];
+
+export interface PromptEmbedding {
+    embedding: number[];
+    /** "<provider>/<model>" */
+    model: string;
 }
 
-export type TaskType = 
-    | "code"           // Code generation, review, debugging
-    | "analysis"       // Data analysis, reasoning
-    | "creative"       // Creative writing, brainstorming
-    | "research"       // Information gathering, Q&A
-    | "conversation"   // General chat
-    | "image"          // Image-related tasks
-    | "math"           // Mathematical computations
-    | "unknown";
+export interface ModelStats {
+    calls: number;
+    /** Median latency of successful replies */
+    latencyMs?: number;
+    errorRate: number;
+}
 
-// ============================================================================
-// Capability-Based Routing
-// ============================================================================
+export interface RoutingCandidate {
+    modelId: string;
+    predictedQuality: number;
+    /** Similar past prompts answered by this model */
+    samples: number;
+    estimatedCost: number;
+    latencyMs?: number;
+    errorRate?: number;
+}
 
-/**
- * Analyze a task to determine required capabilities
- */
-export function analyzeTask(input: string): TaskAnalysis {
-    const lowerInput = input.toLowerCase();
-    
-    // Detect task type
-    let type: TaskType = "conversation";
-    const requiredCapabilities: ModelCapability[] = ["text"];
-    
-    // Code detection
-    const codeKeywords = ["code", "function", "class", "implement", "debug", "fix", "error", "programming", "script", "api", "typescript", "javascript", "python"];
-    if (codeKeywords.some(k => lowerInput.includes(k))) {
-        type = "code";
-        requiredCapabilities.push("code");
-    }
-    
-    // Analysis/reasoning detection
-    const analysisKeywords = ["analyze", "compare", "evaluate", "explain why", "reason", "think through", "step by step", "logic"];
-    if (analysisKeywords.some(k => lowerInput.includes(k))) {
-        type = "analysis";
-        requiredCapabilities.push("reasoning");
-    }
-    
-    // Image detection
-    const imageKeywords = ["image", "picture", "photo", "screenshot", "diagram", "visual", "look at this"];
-    if (imageKeywords.some(k => lowerInput.includes(k))) {
-        type = "image";
-        requiredCapabilities.push("vision");
-    }
-    
-    // Creative writing detection
-    const creativeKeywords = ["write", "story", "poem", "creative", "imagine", "describe", "narrative"];
-    if (creativeKeywords.some(k => lowerInput.includes(k)) && type === "conversation") {
-        type = "creative";
-    }
-    
-    // Research detection
-    const researchKeywords = ["search", "find", "lookup", "research", "what is", "how does", "who is"];
-    if (researchKeywords.some(k => lowerInput.includes(k)) && type === "conversation") {
-        type = "research";
-    }
-    
-    // Math detection
-    const mathKeywords = ["calculate", "math", "equation", "formula", "compute", "sum", "multiply"];
-    if (mathKeywords.some(k => lowerInput.includes(k))) {
-        type = "math";
-    }
-    
-    // Complexity estimation
-    let complexity: "simple" | "moderate" | "complex" = "simple";
-    const wordCount = input.split(/\s+/).length;
-    
-    if (wordCount > 100 || input.includes("detailed") || input.includes("comprehensive")) {
-        complexity = "complex";
-    } else if (wordCount > 30 || type === "analysis" || type === "code") {
-        complexity = "moderate";
-    }
-    
-    // Token estimation (rough approximation: 1 word ≈ 1.3 tokens)
-    const estimatedTokens = Math.ceil(wordCount * 1.3);
-    
-    // Priority detection
-    let priority: "low" | "normal" | "high" = "normal";
-    if (lowerInput.includes("urgent") || lowerInput.includes("important") || lowerInput.includes("critical")) {
-        priority = "high";
-    }
-    
-    return {
-        type,
-        complexity,
-        requiredCapabilities,
-        estimatedTokens,
-        priority,
-    };
+export interface RoutingDecision {
+    modelId: string;
+    tier: QualityTier;
+    threshold: number;
+    predictedQuality: number;
+    estimatedCost: number;
+    estimatedLatencyMs?: number;
+    reasoning: string[];
+    candidates: RoutingCandidate[];
 }
 
-/**
- * Match task requirements to agent capabilities
- */
-export function matchAgentToTask(
-    agents: AgentConfig[],
-    analysis: TaskAnalysis
-): AgentConfig[] {
-    // Score each agent based on match
-    const scored = agents.map(agent => {
-        let score = 0;
-        
-        // Role match
-        switch (analysis.type) {
-            case "code":
-                if (agent.role === "coder") score += 50;
-                else if (agent.role === "assistant") score += 20;
-                break;
-            case "analysis":
-                if (agent.role === "analyst") score += 50;
-                else if (agent.role === "coder") score += 30;
-                else if (agent.role === "assistant") score += 20;
-                break;
-            case "creative":
-                if (agent.role === "writer") score += 50;
-                else if (agent.role === "assistant") score += 30;
-                break;
-            case "research":
-                if (agent.role === "researcher") score += 50;
-                else if (agent.role === "assistant") score += 30;
-                break;
-            default:
-                if (agent.role === "assistant") score += 40;
-        }
-        
-        // Model capability match
-        const model = getModelById(agent.modelId);
-        if (model) {
-            for (const cap of analysis.requiredCapabilities) {
-                if (model.capabilities.includes(cap)) {
-                    score += 20;
-                }
-            }
-            
-            // Complexity match
-            if (analysis.complexity === "complex" && model.capabilities.includes("reasoning")) {
-                score += 30;
-            }
-        }
-        
-        // Tool availability
-        if (analysis.type === "research" && agent.tools?.includes("web_search")) {
-            score += 25;
-        }
-        if (analysis.type === "code" && agent.tools?.includes("code_exec")) {
-            score += 25;
-        }
-        
-        return { agent, score };
-    });
-    
-    // Sort by score descending
-    scored.sort((a, b) => b.score - a.score);
-    
-    // Return top agents (at least 1, at most 3)
-    const threshold = (scored[0]?.score ?? 0) * 0.7;
-    return scored
-        .filter(s => s.score >= threshold)
-        .slice(0, 3)
-        .map(s => s.agent);
+export interface RoutingRequest {
+    prompt: string;
+    /** The user's provider keys; only models they can call are candidates */
+    apiKeys: Record<string, string | undefined>;
+    tier?: QualityTier;
+    requiredCapabilities?: ModelCapability[];
+    expectedOutputTokens?: number;
+    /** Skip models whose measured median latency is above this */
+    maxLatencyMs?: number;
+    /** Whose past replies to learn from; without it only price-based estimates are used */
+    userId?: string;
 }
 
+const STATS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const STATS_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_PROMPT_CHARS = 4000;
+
 // ============================================================================
-// Cost-Based Routing
+// Cost Estimates
 // ============================================================================
 
 export interface CostEstimate {
@@ -196,261 +105,224 @@ export function estimateCosts(
     expectedOutputTokens: number = 500
 ): CostEstimate[] {
     const inputTokens = Math.ceil(input.split(/\s+/).length * 1.3);
-    
+
     return models.map(model => ({
         modelId: model.id,
         estimatedInputCost: (inputTokens / 1_000_000) * model.pricing.input,
         estimatedOutputCost: (expectedOutputTokens / 1_000_000) * model.pricing.output,
-        totalEstimate: 
+        totalEstimate:
             (inputTokens / 1_000_000) * model.pricing.input +
             (expectedOutputTokens / 1_000_000) * model.pricing.output,
     }));
 }
 
-/**
- * Select model based on cost preferences
- */
-export function selectByBudget(
-    analysis: TaskAnalysis,
-    maxCostPerMessage: number = 0.10 // Default 10 cents max
-): ModelConfig | null {
-    const allModels = getAllModels();
-    const costs = estimateCosts("", allModels, analysis.complexity === "complex" ? 2000 : 500);
-    
-    // Filter models that fit budget
-    const affordable = costs
-        .filter(c => c.totalEstimate <= maxCostPerMessage)
-        .sort((a, b) => a.totalEstimate - b.totalEstimate);
-    
-    // For complex tasks, prefer more capable models even if more expensive
-    if (analysis.complexity === "complex") {
-        const capableAffordable = affordable.filter(c => {
-            const model = getModelById(c.modelId);
-            return model?.capabilities.includes("reasoning");
-        });
-        const firstCapable = capableAffordable[0];
-        if (firstCapable) {
-            return getModelById(firstCapable.modelId) || null;
-        }
-    }
-
-    // For simple tasks, prefer cheapest
-    const firstAffordable = affordable[0];
-    if (firstAffordable) {
-        return getModelById(firstAffordable.modelId) || null;
-    }
-
-    return null;
-}
-
 // ============================================================================
-// Quality-Based Routing
+// Measured Model Stats
 // ============================================================================
 
-export interface QualityTier {
-    tier: "budget" | "balanced" | "premium" | "frontier";
-    models: string[];
-}
-
-const QUALITY_TIERS: QualityTier[] = [
-    {
-        tier: "frontier",
-        models: ["o1", "claude-opus-4-20250514", "gemini-2.5-pro-preview-06-05"],
-    },
-    {
-        tier: "premium",
-        models: ["gpt-4o", "claude-sonnet-4-20250514", "grok-3"],
-    },
-    {
-        tier: "balanced",
-        models: ["gpt-4o-mini", "claude-3-5-haiku-20241022", "gemini-2.0-flash"],
-    },
-    {
-        tier: "budget",
-        models: ["gpt-4o-mini", "gemini-2.0-flash", "grok-3-fast"],
-    },
-];
+let statsCache: { at: number; stats: Map<string, ModelStats> } | null = null;
 
 /**
- * Get quality tier for a task
+ * Calls, median latency and error rate per model over the last week
  */
-export function getQualityTier(analysis: TaskAnalysis): QualityTier {
-    // Default tier in case array access fails
-    const defaultTier: QualityTier = {
-        tier: "balanced",
-        models: ["gpt-4o", "claude-sonnet-4-20250514", "gemini-2.5-pro-preview-06-05"],
-    };
-
-    // High priority + complex = frontier
-    if (analysis.priority === "high" && analysis.complexity === "complex") {
-        return QUALITY_TIERS[0] ?? defaultTier;
-    }
-
-    // Complex or high priority = premium
-    if (analysis.complexity === "complex" || analysis.priority === "high") {
-        return QUALITY_TIERS[1] ?? defaultTier;
+export async function getModelStats(): Promise<Map<string, ModelStats>> {
+    if (statsCache && Date.now() - statsCache.at < STATS_CACHE_TTL_MS) {
+        return statsCache.stats;
     }
 
-    // Moderate = balanced
-    if (analysis.complexity === "moderate") {
-        return QUALITY_TIERS[2] ?? defaultTier;
-    }
+    const rows = await db
+        .select({
+            model: modelRouteSamples.model,
+            calls: sql<number>`count(*)::int`,
+            latencyMs: sql<number | null>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${modelRouteSamples.latencyMs}) FILTER (WHERE NOT ${modelRouteSamples.error})`,
+            errorRate: sql<number>`avg(CASE WHEN ${modelRouteSamples.error} THEN 1 ELSE 0 END)::float8`,
+        })
+        .from(modelRouteSamples)
+        .where(gte(modelRouteSamples.createdAt, new Date(Date.now() - STATS_WINDOW_MS)))
+        .groupBy(modelRouteSamples.model);
 
-    // Simple = budget
-    return QUALITY_TIERS[3] ?? defaultTier;
+    const stats = new Map(rows.map(row => [row.model, {
+        calls: row.calls,
+        latencyMs: row.latencyMs === null ? undefined : Math.round(row.latencyMs),
+        errorRate: row.errorRate,
+    }]));
+    statsCache = { at: Date.now(), stats };
+    return stats;
 }
 
 // ============================================================================
-// Latency-Based Routing
+// Samples
 // ============================================================================
 
-// Model latency estimates (in ms) - would be dynamically updated in production
-const MODEL_LATENCIES: Record<string, number> = {
-    // Fast models
-    "gpt-4o-mini": 500,
-    "gemini-2.0-flash": 400,
-    "grok-3-fast": 450,
-    "claude-3-5-haiku-20241022": 600,
-    // Balanced models
-    "gpt-4o": 1000,
-    "claude-sonnet-4-20250514": 1200,
-    "gemini-2.5-flash-preview-05-20": 800,
-    "grok-3": 1100,
-    // Slower but more capable
-    "o1": 5000,
-    "o1-mini": 3000,
-    "claude-opus-4-20250514": 2500,
-    "gemini-2.5-pro-preview-06-05": 2000,
-};
+/**
+ * Embed a prompt with the configured embedding model; null when that fails
+ */
+export async function embedPrompt(prompt: string, userId?: string): Promise<PromptEmbedding | null> {
+    if (!prompt.trim()) return null;
+    try {
+        const embeddingModel = await getEmbeddingModel();
+        const apiKey = await resolveEmbeddingApiKey(userId, embeddingModel.provider);
+        const embedding = await embed(prompt.slice(0, MAX_PROMPT_CHARS), embeddingModel.provider, apiKey, embeddingModel.model);
+        return embedding.length > 0 ? { embedding, model: embeddingModel.id } : null;
+    } catch (error) {
+        console.warn("[Routing] Could not embed prompt:", error);
+        return null;
+    }
+}
 
 /**
- * Get estimated latency for a model
+ * Record how a reply went. Never throws. The prompt is stored only as an
+ * embedding.
  */
-export function getModelLatency(modelId: string): number {
-    return MODEL_LATENCIES[modelId] || 1500; // Default 1.5s
+export async function recordRouteSample(sample: {
+    userId: string;
+    conversationId?: string;
+    messageId?: string;
+    model: string;
+    prompt: string;
+    /** Reused when the router already embedded the prompt */
+    promptEmbedding?: PromptEmbedding | null;
+    latencyMs: number;
+    error?: boolean;
+}): Promise<void> {
+    try {
+        const promptEmbedding = sample.promptEmbedding ?? await embedPrompt(sample.prompt, sample.userId);
+        await db.insert(modelRouteSamples).values({
+            userId: sample.userId,
+            conversationId: sample.conversationId,
+            messageId: sample.messageId,
+            model: sample.model,
+            embedding: promptEmbedding?.embedding,
+            embeddingModel: promptEmbedding?.model,
+            dimensions: promptEmbedding?.embedding.length,
+            latencyMs: Math.round(sample.latencyMs),
+            error: sample.error ?? false,
+        });
+    } catch (error) {
+        console.error(`[Routing] Failed to record sample for ${sample.model}:`, error);
+    }
 }
 
 /**
- * Select model based on latency requirements
+ * Past replies to prompts like this one, labelled by how they were received
  */
-export function selectByLatency(
-    maxLatency: number = 2000, // Default 2 seconds
-    requiredCapabilities: ModelCapability[] = []
-): ModelConfig | null {
-    const allModels = getAllModels();
-    
-    const suitable = allModels
-        .filter(model => {
-            // Check latency
-            const latency = getModelLatency(model.id);
-            if (latency > maxLatency) return false;
-            
-            // Check capabilities
-            for (const cap of requiredCapabilities) {
-                if (!model.capabilities.includes(cap)) return false;
-            }
-            
-            return true;
-        })
-        .sort((a, b) => getModelLatency(a.id) - getModelLatency(b.id));
-    
-    return suitable[0] || null;
+async function findSimilarSamples(
+    userId: string,
+    promptEmbedding: PromptEmbedding,
+    modelIds: string[]
+): Promise<Neighbor[]> {
+    const rows = await db.execute(similarSamplesQuery(userId, promptEmbedding, modelIds));
+    return toNeighbors(rows.rows as unknown as SampleRow[]);
 }
 
 // ============================================================================
-// Combined Intelligent Router
+// Routing
 // ============================================================================
 
-export interface RoutingDecision {
-    selectedAgents: AgentConfig[];
-    mode: "single" | "parallel" | "sequential";
-    reasoning: string;
-    estimatedCost: number;
-    estimatedLatency: number;
+/**
+ * Models the user can call that have the required capabilities. Local
+ * models are left out: their zero price would always win.
+ */
+function routableModels(request: RoutingRequest): ModelConfig[] {
+    const required = request.requiredCapabilities ?? [];
+    return getAllModels().filter(model =>
+        !model.deprecated &&
+        model.provider !== "ollama" &&
+        model.provider !== "lmstudio" &&
+        Boolean(request.apiKeys[model.provider]) &&
+        model.capabilities.includes("text") &&
+        required.every(capability => model.capabilities.includes(capability))
+    );
 }
 
-export interface RoutingPreferences {
-    maxCost?: number;
-    maxLatency?: number;
-    preferQuality?: boolean;
-    preferSpeed?: boolean;
+function formatCost(usd: number): string {
+    return usd < 0.01 ? `$${usd.toFixed(5)}` : `$${usd.toFixed(3)}`;
 }
 
 /**
- * Make an intelligent routing decision
+ * Pick the cheapest model whose predicted quality clears the tier. Returns
+ * null when the user has no usable model; the prompt embedding is returned
+ * so the reply's sample can reuse it.
  */
-export function makeRoutingDecision(
-    input: string,
-    availableAgents: AgentConfig[],
-    preferences: RoutingPreferences = {}
-): RoutingDecision {
-    const analysis = analyzeTask(input);
+export async function routeModel(
+    request: RoutingRequest
+): Promise<{ decision: RoutingDecision; promptEmbedding: PromptEmbedding | null } | null> {
+    const tier = request.tier ?? "balanced";
+    const threshold = TIER_THRESHOLDS[tier];
     const reasoning: string[] = [];
-    
-    reasoning.push(`Task type: ${analysis.type}, Complexity: ${analysis.complexity}`);
-    
-    // Get matched agents
-    let selectedAgents = matchAgentToTask(availableAgents, analysis);
-    reasoning.push(`Matched ${selectedAgents.length} agents based on capabilities`);
-    
-    // Apply cost filter if specified
-    if (preferences.maxCost) {
-        selectedAgents = selectedAgents.filter(agent => {
-            const model = getModelById(agent.modelId);
-            if (!model) return false;
-            const cost = estimateCosts(input, [model])[0];
-            return cost ? cost.totalEstimate <= preferences.maxCost! : false;
-        });
-        reasoning.push(`Filtered to ${selectedAgents.length} agents within budget`);
-    }
-    
-    // Apply latency filter if specified
-    if (preferences.maxLatency) {
-        selectedAgents = selectedAgents.filter(agent => {
-            return getModelLatency(agent.modelId) <= preferences.maxLatency!;
-        });
-        reasoning.push(`Filtered to ${selectedAgents.length} agents within latency requirements`);
-    }
-    
-    // Determine mode
-    let mode: "single" | "parallel" | "sequential" = "single";
-    
-    if (selectedAgents.length > 1) {
-        if (analysis.complexity === "complex") {
-            // Complex tasks benefit from multiple perspectives
-            mode = "parallel";
-            reasoning.push("Using parallel mode for complex task");
-        } else if (selectedAgents.some(a => a.role === "reviewer")) {
-            // If there's a reviewer, use sequential
-            mode = "sequential";
-            reasoning.push("Using sequential mode for review process");
-        }
-    }
-    
-    // Ensure at least one agent
-    const firstAvailable = availableAgents[0];
-    if (selectedAgents.length === 0 && firstAvailable) {
-        selectedAgents = [firstAvailable];
-        reasoning.push("Fell back to first available agent");
+
+    let models = routableModels(request);
+    if (models.length === 0) return null;
+
+    const stats = await getModelStats().catch((error) => {
+        console.warn("[Routing] Model stats unavailable:", error);
+        return new Map<string, ModelStats>();
+    });
+
+    // Drop models that are failing or too slow, unless that leaves nothing
+    const healthy = healthyModels(models, stats, request.maxLatencyMs);
+    if (healthy.length > 0 && healthy.length < models.length) {
+        reasoning.push(`Skipped ${models.length - healthy.length} model(s) with high measured error rates or latency`);
+        models = healthy;
     }
 
-    // Calculate estimates
-    const estimatedCost = selectedAgents.reduce((sum, agent) => {
-        const model = getModelById(agent.modelId);
-        if (!model) return sum;
-        const cost = estimateCosts(input, [model])[0];
-        return sum + (cost?.totalEstimate ?? 0);
-    }, 0);
-    
-    const estimatedLatency = mode === "parallel"
-        ? Math.max(...selectedAgents.map(a => getModelLatency(a.modelId)))
-        : selectedAgents.reduce((sum, a) => sum + getModelLatency(a.modelId), 0);
-    
+    const { userId } = request;
+    const promptEmbedding = userId ? await embedPrompt(request.prompt, userId) : null;
+    const neighbors = userId && promptEmbedding
+        ? await findSimilarSamples(userId, promptEmbedding, models.map(m => m.id)).catch((error) => {
+            console.warn("[Routing] Similar prompt search failed:", error);
+            return [];
+        })
+        : [];
+    reasoning.push(!userId
+        ? "No user to learn from, using price-based estimates only"
+        : promptEmbedding
+            ? `Compared with ${neighbors.length} similar past prompt(s)`
+            : "Prompt could not be embedded, using price-based estimates only");
+
+    const costs = new Map(
+        estimateCosts(request.prompt, models, request.expectedOutputTokens).map(c => [c.modelId, c.totalEstimate])
+    );
+
+    const candidates = predictCandidates(models, neighbors, stats, costs);
+    const { chosen, byCost, reason } = chooseCandidate(candidates, tier);
+    reasoning.push(reason);
+    reasoning.push(`Estimated cost ${formatCost(chosen.estimatedCost)}${chosen.latencyMs ? `, median latency ${chosen.latencyMs}ms` : ", no latency measured yet"}`);
+
     return {
-        selectedAgents,
-        mode,
-        reasoning: reasoning.join(". "),
-        estimatedCost,
-        estimatedLatency,
+        decision: {
+            modelId: chosen.modelId,
+            tier,
+            threshold,
+            predictedQuality: chosen.predictedQuality,
+            estimatedCost: chosen.estimatedCost,
+            estimatedLatencyMs: chosen.latencyMs,
+            reasoning,
+            candidates: byCost.slice(0, 5),
+        },
+        promptEmbedding,
     };
 }
+
+/**
+ * Flag the last assistant reply of a conversation as regenerated, a weak
+ * signal that it was not good enough
+ */
+export async function markRegenerated(conversationId: string): Promise<void> {
+    try {
+        const [last] = await db
+            .select({ id: messages.id, metadata: messages.metadata })
+            .from(messages)
+            .where(and(eq(messages.conversationId, conversationId), eq(messages.role, "assistant")))
+            .orderBy(desc(messages.createdAt))
+            .limit(1);
+        if (!last) return;
+
+        await db
+            .update(messages)
+            .set({ metadata: { ...(last.metadata as Record<string, unknown> | null), regenerated: true } })
+            .where(eq(messages.id, last.id));
+    } catch (error) {
+        console.error("[Routing] Failed to mark regeneration:", error);
+    }
+}
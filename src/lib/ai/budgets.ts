@@ -0,0 +1,93 @@
+/**
+ * Budget Rules
+ *
+ * How spending is measured against a budget, which budget blocks a call
+ * and which notice is due. Kept free of database access; usage.ts loads
+ * the budgets and spending and applies these rules.
+ */
+
+import type { BudgetCheck, BudgetScope, BudgetStatus } from "./usage";
+
+/** The columns of a usage_budgets row the rules read */
+export interface BudgetRecord {
+    id: string;
+    feature: string;
+    setBy: string;
+    monthlyLimitCents: number;
+    warnAtPercent: number;
+    hardStop: boolean;
+}
+
+export interface BudgetNotice {
+    /** Exceeded and warning notices are each sent once per month */
+    kind: "exceeded" | "warning";
+    title: string;
+    body: string;
+}
+
+function formatCents(cents: number): string {
+    return `$${(cents / 100).toFixed(2)}`;
+}
+
+function describeScope(feature: BudgetScope): string {
+    return feature === "all" ? "AI budget" : `AI budget for ${feature.replace(/_/g, " ")}`;
+}
+
+/**
+ * A budget's standing given this month's spending. A zero limit counts as
+ * used up.
+ */
+export function toBudgetStatus(budget: BudgetRecord, spentCents: number): BudgetStatus {
+    return {
+        id: budget.id,
+        feature: budget.feature as BudgetScope,
+        setBy: budget.setBy as BudgetStatus["setBy"],
+        limitCents: budget.monthlyLimitCents,
+        spentCents,
+        percent: budget.monthlyLimitCents > 0 ? (spentCents / budget.monthlyLimitCents) * 100 : 100,
+        warnAtPercent: budget.warnAtPercent,
+        hardStop: budget.hardStop,
+        exceeded: spentCents >= budget.monthlyLimitCents,
+    };
+}
+
+/**
+ * Allow a call unless one of the budgets that apply to it is used up and
+ * stops calls; warn-only budgets never block
+ */
+export function evaluateBudgets(statuses: BudgetStatus[]): BudgetCheck {
+    const blocking = statuses.find((status) => status.hardStop && status.exceeded);
+    if (!blocking) return { allowed: true };
+
+    return {
+        allowed: false,
+        budget: blocking,
+        message: `Monthly ${describeScope(blocking.feature)} reached (${formatCents(blocking.spentCents)} of ${formatCents(blocking.limitCents)}). It resets at the start of next month.`,
+    };
+}
+
+/**
+ * The notice a budget's standing calls for, if any. Whether it was already
+ * sent this month is up to the caller.
+ */
+export function budgetNotice(status: BudgetStatus): BudgetNotice | null {
+    const spent = `${formatCents(status.spentCents)} of ${formatCents(status.limitCents)} spent this month.`;
+
+    if (status.exceeded) {
+        return {
+            kind: "exceeded",
+            title: `Monthly ${describeScope(status.feature)} reached`,
+            body: status.hardStop
+                ? `${spent} AI features covered by this budget are paused until next month.`
+                : spent,
+        };
+    }
+    if (status.percent >= status.warnAtPercent) {
+        return {
+            kind: "warning",
+            title: `${Math.floor(status.percent)}% of your monthly ${describeScope(status.feature)} used`,
+            body: spent,
+        };
+    }
+    return null;
+}
@@ -5,6 +5,7 @@
 import { generateText } from "ai";
 import { getModelWithKey } from "./providers/factory";
 import type { ProviderId } from "./providers/types";
+import { checkBudget, recordUsage, readTokenUsage } from "./usage";
 
 // ============================================================================
 // Title Generation
@@ -31,14 +32,21 @@ Respond with ONLY the title, nothing else.`;
  * @param assistantResponse - The first assistant response
  * @param apiKeys - Available API keys for different providers
  * @param preferredModelId - Optional specific model ID to use for title generation
+ * @param userId - User to meter the call for
  */
 export async function generateConversationTitle(
     userMessage: string,
     assistantResponse: string,
     apiKeys: Partial<Record<ProviderId, string>>,
-    preferredModelId?: string
+    preferredModelId?: string,
+    userId?: string
 ): Promise<string> {
     try {
+        // Past a hard-stop budget the title comes from the message itself
+        if (userId && !(await checkBudget(userId, "summary")).allowed) {
+            return generateFallbackTitle(userMessage);
+        }
+
         // Truncate inputs to avoid token limits
         const truncatedUser = userMessage.slice(0, 500);
         const truncatedResponse = assistantResponse.slice(0, 500);
@@ -48,11 +56,13 @@ export async function generateConversationTitle(
             .replace("{ASSISTANT_RESPONSE}", truncatedResponse);
 
         let model;
+        let modelId: string | undefined;
 
         // If a preferred model is specified, try to use it
         if (preferredModelId) {
             try {
                 model = getModelWithKey(preferredModelId, apiKeys);
+                modelId = preferredModelId;
             } catch {
                 // Preferred model not available, fall through to auto-selection
             }
@@ -68,14 +78,15 @@ export async function generateConversationTitle(
                     try {
                         // For OpenRouter, use a generic fast model pattern
                         // For others, try to get any model from that provider
-                        const modelId = provider === "openrouter"
+                        const fallbackModelId = provider === "openrouter"
                             ? "openai/gpt-4o-mini" // OpenRouter format, widely available
                             : provider === "openai" ? "gpt-4o-mini"
                             : provider === "anthropic" ? "claude-3-5-haiku-20241022"
                             : provider === "google" ? "gemini-2.0-flash"
                             : "grok-3-fast"; // xai
 
-                        model = getModelWithKey(modelId, apiKeys);
+                        model = getModelWithKey(fallbackModelId, apiKeys);
+                        modelId = fallbackModelId;
                         break;
                     } catch {
                         // Model not available, try next provider
@@ -96,6 +107,9 @@ export async function generateConversationTitle(
             temperature: 0.3,
             maxOutputTokens: 50,
         });
+        if (userId && modelId) {
+            await recordUsage({ userId, feature: "summary", model: modelId, ...readTokenUsage(result.usage) });
+        }
 
         const title = result.text.trim();
 
@@ -149,9 +163,14 @@ Respond with ONLY the summary, nothing else.`;
  */
 export async function generateConversationSummary(
     messages: Array<{ role: string; content: string }>,
-    apiKeys: Partial<Record<ProviderId, string>>
+    apiKeys: Partial<Record<ProviderId, string>>,
+    userId?: string
 ): Promise<string | null> {
     try {
+        if (userId && !(await checkBudget(userId, "summary")).allowed) {
+            return null;
+        }
+
         // Format conversation
         const conversationText = messages
             .map(m => `${m.role === "user" ? "User" : "Assistant"}: ${m.content.slice(0, 500)}`)
@@ -171,10 +190,12 @@ export async function generateConversationSummary(
         ];
 
         let model;
+        let selectedModelId: string | undefined;
         for (const { modelId, provider } of modelPriority) {
             if (apiKeys[provider]) {
                 try {
                     model = getModelWithKey(modelId, apiKeys);
+                    selectedModelId = modelId;
                     break;
                 } catch {
                     continue;
@@ -192,6 +213,9 @@ export async function generateConversationSummary(
             temperature: 0.3,
             maxOutputTokens: 200,
         });
+        if (userId && selectedModelId) {
+            await recordUsage({ userId, feature: "summary", model: selectedModelId, ...readTokenUsage(result.usage) });
+        }
 
         return result.text.trim() || null;
     } catch (error) {
@@ -12,6 +12,7 @@
 
 import { streamText, stepCountIs, type LanguageModel, type ModelMessage } from "ai";
 import { getTaskExecutionConfig, getNotificationsConfig } from "@/lib/config";
+import { recordUsage, readTokenUsage, type UsageEvent } from "./usage";
 
 // ============================================================================
 // Types
@@ -70,6 +71,8 @@ export interface AICallConfig {
     maxTokens?: number;
     temperature?: number;
     maxToolSteps?: number;
+    /** Meter each attempt's tokens against this user, feature and model */
+    usage?: Omit<UsageEvent, "inputTokens" | "outputTokens">;
 }
 
 export interface TaskResult {
@@ -598,14 +601,14 @@ async function executeAttempt(
         // Get token usage
         let tokensUsed = { input: 0, output: 0 };
         try {
-            const usage = await result.usage;
-            tokensUsed = {
-                input: (usage as { promptTokens?: number })?.promptTokens || 0,
-                output: (usage as { completionTokens?: number })?.completionTokens || 0,
-            };
+            const { inputTokens, outputTokens } = readTokenUsage(await result.totalUsage);
+            tokensUsed = { input: inputTokens, output: outputTokens };
         } catch {
             // Usage unavailable
         }
+        if (aiConfig.usage) {
+            await recordUsage({ ...aiConfig.usage, inputTokens: tokensUsed.input, outputTokens: tokensUsed.output });
+        }
 
         return {
             output: fullResponse,
@@ -0,0 +1,267 @@
+/**
+ * Usage Metering & Budgets
+ *
+ * Every model call is recorded with its tokens and the cost computed from
+ * the model's pricing. Monthly budgets, overall or for one feature, notify
+ * the user when spending nears the limit and stop further calls once it is
+ * reached (unless the budget only warns).
+ */
+
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { usageRecords, usageBudgets, notifications } from "@/lib/db/schema";
+import { and, eq, gte, inArray, isNull, ne, or, sql } from "drizzle-orm";
+import { getModelConfig } from "./providers/factory";
+import { calculateCost } from "./providers/types";
+import { budgetNotice, evaluateBudgets, toBudgetStatus } from "./budgets";
+
+export const USAGE_FEATURES = [
+    "chat",
+    "channel",
+    "multi_agent",
+    "scheduled_task",
+    "autonomous",
+    "workflow",
+    "summary",
+    "auto_reply",
+    "broadcast",
+    "rerank",
+] as const;
+
+export type UsageFeature = (typeof USAGE_FEATURES)[number];
+
+/** A budget covers one feature or everything ("all") */
+export type BudgetScope = UsageFeature | "all";
+
+export interface UsageEvent {
+    userId: string;
+    feature: UsageFeature;
+    /** Model ID as passed to getModelWithKey */
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    /** Conversation, task, run or broadcast the call belongs to */
+    sourceId?: string;
+}
+
+export interface BudgetStatus {
+    id: string;
+    feature: BudgetScope;
+    setBy: "user" | "admin";
+    limitCents: number;
+    spentCents: number;
+    /** Share of the limit spent this month, can exceed 100 */
+    percent: number;
+    warnAtPercent: number;
+    hardStop: boolean;
+    exceeded: boolean;
+}
+
+export interface BudgetCheck {
+    allowed: boolean;
+    /** Why the call is blocked, fit for showing to the user */
+    message?: string;
+    budget?: BudgetStatus;
+}
+
+/** usage_records.cost is stored in millionths of a dollar */
+const COST_UNITS_PER_CENT = 10_000;
+
+/**
+ * Token counts from an AI SDK usage object, whichever naming it uses
+ */
+export function readTokenUsage(usage: unknown): { inputTokens: number; outputTokens: number } {
+    const stats = (usage ?? {}) as {
+        promptTokens?: number;
+        inputTokens?: number;
+        completionTokens?: number;
+        outputTokens?: number;
+    };
+    return {
+        inputTokens: stats.inputTokens ?? stats.promptTokens ?? 0,
+        outputTokens: stats.outputTokens ?? stats.completionTokens ?? 0,
+    };
+}
+
+/**
+ * The calendar month (UTC) budgets are counted in
+ */
+export function currentBudgetPeriod(now = new Date()): { period: string; start: Date } {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    return { period: start.toISOString().slice(0, 7), start };
+}
+
+// ============================================================================
+// Metering
+// ============================================================================
+
+/**
+ * Record one model call. Never throws: a failed write must not fail the
+ * call it meters.
+ */
+export async function recordUsage(event: UsageEvent): Promise<void> {
+    if (!event.inputTokens && !event.outputTokens) return;
+
+    try {
+        const modelConfig = getModelConfig(event.model);
+        const costUsd = modelConfig
+            ? calculateCost(modelConfig, event.inputTokens, event.outputTokens)
+            : 0;
+
+        await db.insert(usageRecords).values({
+            userId: event.userId,
+            provider: modelConfig?.provider ?? "unknown",
+            model: event.model,
+            inputTokens: event.inputTokens,
+            outputTokens: event.outputTokens,
+            cost: Math.round(costUsd * 1_000_000),
+            feature: event.feature,
+            sourceId: event.sourceId,
+        });
+
+        await notifyBudgetThresholds(event.userId, event.feature);
+    } catch (error) {
+        console.error(`[Usage] Failed to record ${event.feature} usage for ${event.model}:`, error);
+    }
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+export const budgetInputSchema = z.object({
+    feature: z.enum(["all", ...USAGE_FEATURES]).default("all"),
+    monthlyLimitCents: z.number().int().min(0).max(100_000_000),
+    warnAtPercent: z.number().int().min(1).max(100).default(80),
+    hardStop: z.boolean().default(true),
+});
+
+export type BudgetInput = z.infer<typeof budgetInputSchema>;
+
+/**
+ * Create or replace a budget. Changing it clears this month's notices so
+ * they are sent again against the new limit.
+ */
+export async function setBudget(userId: string, setBy: BudgetStatus["setBy"], input: BudgetInput) {
+    const values = {
+        monthlyLimitCents: input.monthlyLimitCents,
+        warnAtPercent: input.warnAtPercent,
+        hardStop: input.hardStop,
+        warnedPeriod: null,
+        exceededPeriod: null,
+        updatedAt: new Date(),
+    };
+    const [budget] = await db
+        .insert(usageBudgets)
+        .values({ userId, setBy, feature: input.feature, ...values })
+        .onConflictDoUpdate({
+            target: [usageBudgets.userId, usageBudgets.feature, usageBudgets.setBy],
+            set: values,
+        })
+        .returning();
+    return budget;
+}
+
+/**
+ * Remove a budget; returns whether one existed
+ */
+export async function removeBudget(userId: string, setBy: BudgetStatus["setBy"], feature: BudgetScope): Promise<boolean> {
+    const removed = await db
+        .delete(usageBudgets)
+        .where(and(
+            eq(usageBudgets.userId, userId),
+            eq(usageBudgets.setBy, setBy),
+            eq(usageBudgets.feature, feature)
+        ))
+        .returning({ id: usageBudgets.id });
+    return removed.length > 0;
+}
+
+async function getSpentCents(userId: string, feature: BudgetScope, since: Date): Promise<number> {
+    const conditions = [eq(usageRecords.userId, userId), gte(usageRecords.createdAt, since)];
+    if (feature !== "all") {
+        conditions.push(eq(usageRecords.feature, feature));
+    }
+
+    const [row] = await db
+        .select({ total: sql<number>`COALESCE(SUM(${usageRecords.cost}), 0)::float8` })
+        .from(usageRecords)
+        .where(and(...conditions));
+
+    return (row?.total ?? 0) / COST_UNITS_PER_CENT;
+}
+
+/**
+ * This month's spending against the user's budgets. With a feature, only
+ * the budgets that apply to it (its own and the overall ones).
+ */
+export async function getBudgetStatuses(userId: string, feature?: UsageFeature): Promise<BudgetStatus[]> {
+    const budgets = await db
+        .select()
+        .from(usageBudgets)
+        .where(and(
+            eq(usageBudgets.userId, userId),
+            feature ? inArray(usageBudgets.feature, ["all", feature]) : undefined
+        ));
+    if (budgets.length === 0) return [];
+
+    const { start } = currentBudgetPeriod();
+    const spentByScope = new Map<string, number>();
+    for (const scope of new Set(budgets.map((budget) => budget.feature))) {
+        spentByScope.set(scope, await getSpentCents(userId, scope as BudgetScope, start));
+    }
+
+    return budgets.map((budget) => toBudgetStatus(budget, spentByScope.get(budget.feature) ?? 0));
+}
+
+/**
+ * Whether a model call for this feature may run. Fails open: when budgets
+ * cannot be read the call is allowed.
+ */
+export async function checkBudget(userId: string, feature: UsageFeature): Promise<BudgetCheck> {
+    try {
+        return evaluateBudgets(await getBudgetStatuses(userId, feature));
+    } catch (error) {
+        console.warn(`[Usage] Budget check failed for ${userId}, allowing the call:`, error);
+        return { allowed: true };
+    }
+}
+
+/**
+ * Claim this month's notice for a budget; false if it was already sent
+ */
+async function claimNotice(budgetId: string, column: "warnedPeriod" | "exceededPeriod", period: string): Promise<boolean> {
+    const target = usageBudgets[column];
+    const claimed = await db
+        .update(usageBudgets)
+        .set(column === "warnedPeriod" ? { warnedPeriod: period } : { exceededPeriod: period })
+        .where(and(eq(usageBudgets.id, budgetId), or(isNull(target), ne(target, period))))
+        .returning({ id: usageBudgets.id });
+    return claimed.length > 0;
+}
+
+/**
+ * Notify once per month when a budget passes its warning threshold, and
+ * once when it is used up
+ */
+async function notifyBudgetThresholds(userId: string, feature: UsageFeature): Promise<void> {
+    const { period } = currentBudgetPeriod();
+    const statuses = await getBudgetStatuses(userId, feature);
+
+    for (const status of statuses) {
+        const notice = budgetNotice(status);
+        if (!notice) continue;
+
+        const column = notice.kind === "exceeded" ? "exceededPeriod" : "warnedPeriod";
+        if (!await claimNotice(status.id, column, period)) continue;
+        await db.insert(notifications).values({
+            userId,
+            type: "alert",
+            title: notice.title,
+            body: notice.body,
+            link: "/settings/cost",
+            icon: "Wallet",
+            metadata: { budgetId: status.id, feature: status.feature, period },
+        });
+    }
+}
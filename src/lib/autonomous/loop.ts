@@ -12,6 +12,7 @@ import { db } from "@/lib/db";
 import { autonomousTasks, conversations, messages as messagesTable } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { getModelWithKey, getModelConfig } from "@/lib/ai/providers/factory";
+import { checkBudget, recordUsage, readTokenUsage } from "@/lib/ai/usage";
 import { getAllTools, getTool, executeTool, type ToolId, type ToolContext } from "@/lib/tools";
 import { getLocalAccessContext } from "@/lib/admin/settings";
 import { pluginRegistry, initializePlugins, pluginExecutor } from "@/lib/plugins";
@@ -676,6 +677,12 @@ You are working in autonomous mode. Complete the user's task step by step:
 
             // Call the LLM
             try {
+                // Long runs can cross the monthly budget midway
+                const budget = await checkBudget(userId, "autonomous");
+                if (!budget.allowed) {
+                    throw new Error(budget.message);
+                }
+
                 const result = await generateText({
                     model: aiModel,
                     messages: messageHistory,
@@ -695,6 +702,13 @@ You are working in autonomous mode. Complete the user's task step by step:
                 if (usage) {
                     totalTokens += (usage.promptTokens || usage.inputTokens || 0) + (usage.completionTokens || usage.outputTokens || 0);
                 }
+                await recordUsage({
+                    userId,
+                    feature: "autonomous",
+                    model: modelId,
+                    ...readTokenUsage(result.totalUsage),
+                    sourceId: task.id,
+                });
 
                 // Count tool calls
                 totalToolCalls += toolCalls.length;
@@ -525,14 +525,15 @@ class ProactiveStatusService {
                     resolvedChannelId = resolved.chatId;
                 }
 
-                await channelManager.sendMessage(
+                await channelManager.enqueueMessage(
                     adminId,
                     connectedChannel.channelType,
                     resolvedChannelId,
-                    message
+                    message,
+                    { source: "proactive" }
                 );
                 this.lastSentAt = new Date();
-                console.log(`[ProactiveStatus] Status report sent to ${connectedChannel.channelType}`);
+                console.log(`[ProactiveStatus] Status report queued for ${connectedChannel.channelType}`);
             } catch (sendError) {
                 console.error("[ProactiveStatus] Failed to send via sendMessage:", sendError);
             }
@@ -0,0 +1,446 @@
+/**
+ * Reply Approvals
+ *
+ * When a channel account has approvalMode enabled, AI replies are held as
+ * drafts instead of being sent. Drafts show up in the inbox and as
+ * notifications, and can optionally be forwarded to another channel (e.g. a
+ * Telegram chat with Approve/Reject buttons). Replying to the forwarded
+ * request with new text approves the edited version.
+ *
+ * Workflow approval steps can ask in a chat the same way.
+ */
+
+import { db } from '@/lib/db';
+import { channelAccounts, channelReplyDrafts, messages, notifications, workflowRuns, workflows } from '@/lib/db/schema';
+import type { ApprovalChannel, ChannelConfig } from '@/lib/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import type { WorkflowDefinition, WorkflowStep } from '@/lib/workflows/types';
+import type { ChannelButtonClick, ChannelMessage } from './base';
+import { getChannelManager } from './manager';
+
+export type ReplyDraft = typeof channelReplyDrafts.$inferSelect;
+
+export interface DraftDecision {
+    /** Account owner the decision is recorded for */
+    userId: string;
+    /** 'inbox' or the channel type the decision came from */
+    via: string;
+    /** Approver's ID on that channel */
+    externalId?: string;
+    externalName?: string;
+    /** Edited text to send instead of the draft */
+    content?: string;
+}
+
+const APPROVE_PREFIX = 'draft:approve:';
+const REJECT_PREFIX = 'draft:reject:';
+const WORKFLOW_APPROVE_PREFIX = 'workflow:approve:';
+const WORKFLOW_REJECT_PREFIX = 'workflow:reject:';
+/** Drafts that can still be decided: failed sends can be approved again */
+export const OPEN_DRAFT_STATUSES = ['pending', 'failed'];
+
+type WorkflowApprovalChannel = NonNullable<NonNullable<WorkflowStep['approval']>['channel']>;
+
+/**
+ * Hold an AI reply for approval and let the user know
+ */
+export async function createReplyDraft(
+    userId: string,
+    account: { id: string; config: ChannelConfig | null },
+    message: ChannelMessage,
+    content: string,
+    options: { conversationId?: string; channelThreadId?: string; metadata?: Record<string, unknown> } = {}
+): Promise<ReplyDraft> {
+    const [draft] = await db.insert(channelReplyDrafts)
+        .values({
+            userId,
+            channelAccountId: account.id,
+            channelThreadId: options.channelThreadId,
+            conversationId: options.conversationId,
+            externalChatId: message.channelId,
+            externalThreadId: message.threadId,
+            replyToExternalId: message.id,
+            inboundContent: message.content,
+            draftContent: content,
+            metadata: options.metadata,
+        })
+        .returning();
+
+    const who = message.sender.name || message.sender.id || 'a user';
+    await db.insert(notifications).values({
+        userId,
+        type: 'approval',
+        title: `Reply to ${who} on ${message.channelType} awaits approval`,
+        body: content.slice(0, 280),
+        link: `/inbox?draft=${draft.id}`,
+        icon: 'FileCheck',
+        metadata: { draftId: draft.id, channelType: message.channelType },
+    });
+
+    const approvalChannel = account.config?.approvalChannel;
+    if (approvalChannel?.chatId) {
+        try {
+            return await requestRemoteApproval(draft, approvalChannel, message);
+        } catch (error) {
+            console.warn('[Approvals] Could not forward draft for approval:', error);
+        }
+    }
+
+    return draft;
+}
+
+/**
+ * Post the draft to the approval channel with Approve/Reject buttons
+ */
+async function requestRemoteApproval(
+    draft: ReplyDraft,
+    approvalChannel: ApprovalChannel,
+    message: ChannelMessage
+): Promise<ReplyDraft> {
+    const who = message.sender.name || message.sender.id || 'a user';
+    const text = [
+        `📝 Reply to ${who} on ${message.channelType} needs approval`,
+        '',
+        `They wrote: ${message.content.slice(0, 500)}`,
+        '',
+        `Draft reply:\n${draft.draftContent}`,
+        '',
+        'Reply to this message with new text to send that instead.',
+    ].join('\n');
+
+    const approvalMessageId = await getChannelManager().sendMessage(
+        draft.userId,
+        approvalChannel.channelType,
+        approvalChannel.chatId,
+        text,
+        {
+            buttons: [
+                { id: `${APPROVE_PREFIX}${draft.id}`, label: '✅ Approve' },
+                { id: `${REJECT_PREFIX}${draft.id}`, label: '❌ Reject' },
+            ],
+        }
+    );
+
+    const [updated] = await db.update(channelReplyDrafts)
+        .set({
+            approvalChannelType: approvalChannel.channelType,
+            approvalChatId: approvalChannel.chatId,
+            approvalMessageId,
+        })
+        .where(eq(channelReplyDrafts.id, draft.id))
+        .returning();
+    return updated;
+}
+
+/**
+ * Send a pending draft (optionally edited) to the original chat, or retry
+ * one whose send failed. Returns null when the draft was already decided.
+ */
+export async function approveDraft(draftId: string, decision: DraftDecision): Promise<ReplyDraft | null> {
+    // Claim the draft so concurrent approvals cannot send it twice
+    const [draft] = await db.update(channelReplyDrafts)
+        .set({
+            status: 'approved',
+            decidedByUserId: decision.userId,
+            decidedVia: decision.via,
+            decidedByExternalId: decision.externalId,
+            decidedAt: new Date(),
+            errorMessage: null,
+        })
+        .where(and(
+            eq(channelReplyDrafts.id, draftId),
+            eq(channelReplyDrafts.userId, decision.userId),
+            inArray(channelReplyDrafts.status, OPEN_DRAFT_STATUSES)
+        ))
+        .returning();
+
+    if (!draft) return null;
+
+    const account = await getDraftAccount(draft);
+    const finalContent = decision.content?.trim() || draft.draftContent;
+
+    let sentExternalMessageId: string;
+    try {
+        sentExternalMessageId = await getChannelManager().sendMessage(
+            draft.userId,
+            account.channelType,
+            draft.externalChatId,
+            finalContent,
+            {
+                threadId: draft.externalThreadId ?? undefined,
+                replyTo: draft.replyToExternalId ?? undefined,
+            }
+        );
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to send reply';
+        await db.update(channelReplyDrafts)
+            .set({ status: 'failed', finalContent, errorMessage })
+            .where(eq(channelReplyDrafts.id, draft.id));
+        throw error;
+    }
+
+    const [sent] = await db.update(channelReplyDrafts)
+        .set({
+            status: 'sent',
+            finalContent,
+            sentExternalMessageId,
+            sentAt: new Date(),
+        })
+        .where(eq(channelReplyDrafts.id, draft.id))
+        .returning();
+
+    if (draft.conversationId) {
+        await db.insert(messages).values({
+            conversationId: draft.conversationId,
+            role: 'assistant',
+            content: finalContent,
+            metadata: {
+                ...(draft.metadata || {}),
+                channelType: account.channelType,
+                channelId: draft.externalChatId,
+                externalMessageId: sentExternalMessageId,
+                draftId: draft.id,
+                approvedBy: decision.externalName || decision.externalId || decision.userId,
+                approvedVia: decision.via,
+                edited: finalContent !== draft.draftContent,
+            },
+        });
+    }
+
+    await markRemoteRequest(sent, finalContent !== draft.draftContent ? '✅ Approved with edits' : '✅ Approved', decision);
+    console.log(`[Approvals] Draft ${draft.id} approved via ${decision.via} and sent`);
+    return sent;
+}
+
+/**
+ * Discard a pending or failed draft. Returns null when the draft was already decided.
+ */
+export async function rejectDraft(draftId: string, decision: DraftDecision): Promise<ReplyDraft | null> {
+    const [draft] = await db.update(channelReplyDrafts)
+        .set({
+            status: 'rejected',
+            decidedByUserId: decision.userId,
+            decidedVia: decision.via,
+            decidedByExternalId: decision.externalId,
+            decidedAt: new Date(),
+        })
+        .where(and(
+            eq(channelReplyDrafts.id, draftId),
+            eq(channelReplyDrafts.userId, decision.userId),
+            inArray(channelReplyDrafts.status, OPEN_DRAFT_STATUSES)
+        ))
+        .returning();
+
+    if (!draft) return null;
+
+    await markRemoteRequest(draft, '❌ Rejected', decision);
+    console.log(`[Approvals] Draft ${draft.id} rejected via ${decision.via}`);
+    return draft;
+}
+
+/**
+ * Approve or reject from an inline button on the approval request.
+ * Returns true when the button belonged to a draft approval.
+ */
+export async function handleApprovalButton(userId: string, click: ChannelButtonClick): Promise<boolean> {
+    const approve = click.buttonId.startsWith(APPROVE_PREFIX);
+    if (!approve && !click.buttonId.startsWith(REJECT_PREFIX)) return false;
+
+    const draftId = click.buttonId.slice(approve ? APPROVE_PREFIX.length : REJECT_PREFIX.length);
+    const [draft] = await db.select()
+        .from(channelReplyDrafts)
+        .where(and(eq(channelReplyDrafts.id, draftId), eq(channelReplyDrafts.userId, userId)))
+        .limit(1);
+
+    if (!draft || !(await isAuthorizedApprover(draft, click.channelType, click.channelId, click.sender.id))) {
+        console.warn(`[Approvals] Ignoring button ${click.buttonId} from ${click.channelType}:${click.sender.id}`);
+        return true;
+    }
+
+    const decision: DraftDecision = {
+        userId,
+        via: click.channelType,
+        externalId: click.sender.id,
+        externalName: click.sender.name,
+    };
+
+    try {
+        if (approve) {
+            await approveDraft(draft.id, decision);
+        } else {
+            await rejectDraft(draft.id, decision);
+        }
+    } catch (error) {
+        console.error(`[Approvals] Failed to ${approve ? 'approve' : 'reject'} draft ${draft.id}:`, error);
+    }
+    return true;
+}
+
+/**
+ * Ask for a workflow approval in a chat, with Approve/Reject buttons
+ */
+export async function requestWorkflowApproval(
+    userId: string,
+    request: { runId: string; stepId: string; prompt: string; items?: unknown[] },
+    channel: WorkflowApprovalChannel
+): Promise<string> {
+    const text = [
+        '⏸️ Workflow waiting for approval',
+        '',
+        request.prompt,
+        ...(request.items?.length
+            ? ['', ...request.items.slice(0, 10).map(item => `• ${typeof item === 'string' ? item : JSON.stringify(item)}`)]
+            : []),
+    ].join('\n');
+
+    return getChannelManager().sendMessage(userId, channel.channelType, channel.chatId, text, {
+        buttons: [
+            { id: `${WORKFLOW_APPROVE_PREFIX}${request.runId}`, label: '✅ Approve', style: 'primary' },
+            { id: `${WORKFLOW_REJECT_PREFIX}${request.runId}`, label: '❌ Reject', style: 'danger' },
+        ],
+    });
+}
+
+/**
+ * Resume or cancel a paused workflow from its approval buttons.
+ * Returns true when the button belonged to a workflow approval.
+ */
+export async function handleWorkflowApprovalButton(userId: string, click: ChannelButtonClick): Promise<boolean> {
+    const approve = click.buttonId.startsWith(WORKFLOW_APPROVE_PREFIX);
+    if (!approve && !click.buttonId.startsWith(WORKFLOW_REJECT_PREFIX)) return false;
+
+    const runId = click.buttonId.slice(approve ? WORKFLOW_APPROVE_PREFIX.length : WORKFLOW_REJECT_PREFIX.length);
+    const [run] = await db.select({
+        status: workflowRuns.status,
+        resumeToken: workflowRuns.resumeToken,
+        pendingApprovalStepId: workflowRuns.pendingApprovalStepId,
+        pendingApprovalPrompt: workflowRuns.pendingApprovalPrompt,
+        definition: workflows.definition,
+    })
+        .from(workflowRuns)
+        .innerJoin(workflows, eq(workflows.id, workflowRuns.workflowId))
+        .where(and(eq(workflowRuns.id, runId), eq(workflowRuns.userId, userId)))
+        .limit(1);
+
+    const { findStep, workflowExecutor } = await import('@/lib/workflows/executor');
+    const definition = run?.definition as WorkflowDefinition | undefined;
+    const step = definition && run.pendingApprovalStepId
+        ? findStep(definition.steps, run.pendingApprovalStepId)
+        : undefined;
+    const channel = step?.approval?.channel;
+    const authorized = channel
+        && channel.channelType === click.channelType
+        && channel.chatId === click.channelId
+        && (!channel.approverIds?.length || channel.approverIds.includes(click.sender.id));
+
+    if (!run || run.status !== 'paused' || !run.resumeToken || !authorized) {
+        console.warn(`[Approvals] Ignoring button ${click.buttonId} from ${click.channelType}:${click.sender.id}`);
+        return true;
+    }
+
+    const by = click.sender.name || click.sender.id;
+    const connector = getChannelManager().resolveConnector(userId, click.channelType, click.channelId);
+    try {
+        await connector?.editMessage(
+            click.channelId,
+            click.messageId,
+            [`${approve ? '✅ Approved' : '❌ Rejected'}${by ? ` by ${by}` : ''}`, '', run.pendingApprovalPrompt ?? ''].join('\n').trim()
+        );
+    } catch (error) {
+        console.warn(`[Approvals] Could not update approval request for workflow run ${runId}:`, error);
+    }
+
+    try {
+        await workflowExecutor.resume({
+            resumeToken: run.resumeToken,
+            approved: approve,
+            comment: `${approve ? 'Approved' : 'Rejected'} on ${click.channelType}${by ? ` by ${by}` : ''}`,
+        });
+    } catch (error) {
+        console.error(`[Approvals] Failed to ${approve ? 'resume' : 'cancel'} workflow run ${runId}:`, error);
+    }
+    return true;
+}
+
+/**
+ * Treat a reply to an approval request as "approve with this text".
+ * Returns true when the message was consumed.
+ */
+export async function handleApprovalReply(userId: string, message: ChannelMessage): Promise<boolean> {
+    if (!message.replyTo || !message.content.trim()) return false;
+
+    const [draft] = await db.select()
+        .from(channelReplyDrafts)
+        .where(and(
+            eq(channelReplyDrafts.userId, userId),
+            eq(channelReplyDrafts.approvalChannelType, message.channelType),
+            eq(channelReplyDrafts.approvalChatId, message.channelId),
+            eq(channelReplyDrafts.approvalMessageId, message.replyTo)
+        ))
+        .limit(1);
+
+    if (!draft) return false;
+    if (!(await isAuthorizedApprover(draft, message.channelType, message.channelId, message.sender.id))) {
+        return false;
+    }
+
+    try {
+        await approveDraft(draft.id, {
+            userId,
+            via: message.channelType,
+            externalId: message.sender.id,
+            externalName: message.sender.name,
+            content: message.content,
+        });
+    } catch (error) {
+        console.error(`[Approvals] Failed to send edited draft ${draft.id}:`, error);
+    }
+    return true;
+}
+
+async function getDraftAccount(draft: ReplyDraft) {
+    const [account] = await db.select()
+        .from(channelAccounts)
+        .where(eq(channelAccounts.id, draft.channelAccountId))
+        .limit(1);
+    if (!account) throw new Error('Channel account for draft no longer exists');
+    return account;
+}
+
+async function isAuthorizedApprover(
+    draft: ReplyDraft,
+    channelType: string,
+    chatId: string,
+    senderId: string
+): Promise<boolean> {
+    if (draft.approvalChannelType !== channelType || draft.approvalChatId !== chatId) return false;
+
+    const account = await getDraftAccount(draft);
+    const approverIds = (account.config as ChannelConfig | null)?.approvalChannel?.approverIds;
+    return !approverIds?.length || approverIds.includes(senderId);
+}
+
+/**
+ * Replace the buttons on the remote approval request with the outcome
+ */
+async function markRemoteRequest(draft: ReplyDraft, outcome: string, decision: DraftDecision): Promise<void> {
+    if (!draft.approvalChannelType || !draft.approvalChatId || !draft.approvalMessageId) return;
+
+    const manager = getChannelManager();
+    const connector = manager.getConnector(draft.userId, draft.approvalChannelType, draft.approvalChatId)
+        ?? manager.findConnectorByType(draft.userId, draft.approvalChannelType);
+    if (!connector) return;
+
+    const by = decision.externalName || (decision.via === 'inbox' ? 'the inbox' : decision.externalId);
+    const text = [
+        `${outcome}${by ? ` by ${by}` : ''}`,
+        '',
+        draft.finalContent ?? draft.draftContent,
+    ].join('\n');
+
+    try {
+        await connector.editMessage(draft.approvalChatId, draft.approvalMessageId, text);
+    } catch (error) {
+        console.warn(`[Approvals] Could not update approval request for draft ${draft.id}:`, error);
+    }
+}
@@ -212,6 +212,14 @@ class ChannelBackgroundService {
                 });
                 await processor.processMessage(uid, message);
             });
+            channelManager.setInteractionHandler(async (uid, click) => {
+                const processor = new ChannelMessageProcessor({
+                    channelManager: getChannelManager(),
+                    defaultProvider: provider,
+                    defaultModel: model,
+                });
+                await processor.processInteraction(uid, click);
+            });
 
             // Connect the channel
             await channelManager.connectChannel(userId, account);
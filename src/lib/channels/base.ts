@@ -39,6 +39,76 @@ export interface SendMessageOptions {
     threadId?: string;
     replyTo?: string;
     attachments?: ChannelAttachment[];
+    /** Inline buttons; shorthand for a single buttons block in `rich` */
+    buttons?: MessageButton[];
+    /** Interactive content; connectors without native support get a numbered text fallback */
+    rich?: RichMessage;
+}
+
+export interface MessageButton {
+    /** Opaque ID passed back in onButtonClick */
+    id: string;
+    label: string;
+    /** Opens a link instead of calling back */
+    url?: string;
+    style?: 'primary' | 'danger';
+}
+
+export interface SelectOption {
+    value: string;
+    label: string;
+    description?: string;
+}
+
+export type RichBlock =
+    | { type: 'buttons'; buttons: MessageButton[] }
+    | { type: 'select'; id: string; placeholder?: string; options: SelectOption[] }
+    | {
+        type: 'card';
+        title: string;
+        subtitle?: string;
+        text?: string;
+        imageUrl?: string;
+        url?: string;
+        buttons?: MessageButton[];
+    }
+    | { type: 'poll'; id: string; question: string; options: string[]; allowMultiple?: boolean };
+
+/** Channel-neutral interactive message: quick replies, menus, cards and polls */
+export interface RichMessage {
+    blocks: RichBlock[];
+}
+
+export type InteractionKind = 'button' | 'select' | 'poll';
+
+export interface ChannelButtonClick {
+    /** Button ID, or the select/poll ID */
+    buttonId: string;
+    /** Defaults to 'button' */
+    kind?: InteractionKind;
+    /** Chosen option values (select) or option texts (poll) */
+    values?: string[];
+    /** What the user saw and picked, e.g. the button label */
+    label?: string;
+    channelType: string;
+    channelId: string;
+    threadId?: string;
+    /** Message the button was attached to */
+    messageId: string;
+    sender: {
+        id: string;
+        name: string;
+    };
+}
+
+export type DeliveryStatus = 'delivered' | 'read' | 'failed';
+
+export interface ChannelDeliveryReceipt {
+    channelId: string;
+    /** ID returned by sendMessage */
+    messageId: string;
+    status: DeliveryStatus;
+    error?: string;
 }
 
 // ============================================================================
@@ -51,6 +121,16 @@ export interface ChannelConfig {
     settings?: Record<string, unknown>;
 }
 
+/**
+ * Account details produced by a connector's setupAccount(), ready to be
+ * stored as a channel account
+ */
+export interface ChannelSetupResult extends ChannelConfig {
+    channelId: string;
+    accountId: string;
+    displayName: string;
+}
+
 export interface ChannelAccountConfig {
     autoReplyEnabled?: boolean;
     agentId?: string;
@@ -71,6 +151,9 @@ export abstract class ChannelConnector {
     /** Human-readable channel name */
     abstract readonly name: string;
 
+    /** Renders SendMessageOptions.rich natively (others receive a text fallback) */
+    readonly supportsRichMessages: boolean = false;
+
     // =========================================================================
     // Lifecycle Methods
     // =========================================================================
@@ -121,6 +204,17 @@ export abstract class ChannelConnector {
         messageId: string
     ): Promise<void>;
 
+    /**
+     * Show a typing indicator (optional - platforms without one skip it)
+     */
+    sendTypingAction?(channelId: string): Promise<void>;
+
+    /**
+     * Whether a rich message fits the platform's limits (optional - rich
+     * connectors without it render every rich message)
+     */
+    canRenderRich?(rich: RichMessage): boolean;
+
     // =========================================================================
     // Event Handlers (set by ChannelManager)
     // =========================================================================
@@ -134,6 +228,12 @@ export abstract class ChannelConnector {
     /** Called when a message is deleted */
     onMessageDelete?: (channelId: string, messageId: string) => Promise<void>;
 
+    /** Called when a user presses an inline button */
+    onButtonClick?: (click: ChannelButtonClick) => Promise<void>;
+
+    /** Called when the platform reports delivery or read receipts for sent messages */
+    onDeliveryReceipt?: (receipt: ChannelDeliveryReceipt) => Promise<void>;
+
     /** Called on connection errors */
     onError?: (error: Error) => void;
 
@@ -156,6 +256,16 @@ export abstract class ChannelConnector {
      * Refresh an expired access token
      */
     refreshToken?(config: ChannelConfig): Promise<ChannelConfig>;
+
+    // =========================================================================
+    // Credential Setup (optional - for channels configured without OAuth)
+    // =========================================================================
+
+    /**
+     * Validate setup input against the service (log in, join rooms, ...)
+     * and return the account to store
+     */
+    setupAccount?(input: Record<string, unknown>): Promise<ChannelSetupResult>;
 }
 
 // ============================================================================
@@ -171,6 +281,8 @@ export const CHANNEL_TYPES = {
     MATRIX: 'matrix',
     WHATSAPP: 'whatsapp',
     SIGNAL: 'signal',
+    IRC: 'irc',
+    EMAIL: 'email',
 } as const;
 
 export type ChannelType = typeof CHANNEL_TYPES[keyof typeof CHANNEL_TYPES];
@@ -262,4 +374,22 @@ export const CHANNEL_INFO: Record<ChannelType, ChannelInfo> = {
         supportsWebhooks: false,
         supportsThreads: false,
     },
+    irc: {
+        type: 'irc',
+        name: 'IRC',
+        icon: '#️⃣',
+        color: 'bg-slate-600',
+        supportsOAuth: false,
+        supportsWebhooks: false,
+        supportsThreads: false,
+    },
+    email: {
+        type: 'email',
+        name: 'Email',
+        icon: '📧',
+        color: 'bg-amber-500',
+        supportsOAuth: false,
+        supportsWebhooks: false,
+        supportsThreads: true,
+    },
 };
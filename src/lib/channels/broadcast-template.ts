@@ -0,0 +1,39 @@
+/**
+ * Broadcast Templates
+ *
+ * {{variable}} substitution for broadcast messages and the variables each
+ * CRM contact supplies. Free of database access; used by ./broadcast for
+ * previews and sends.
+ */
+
+/**
+ * Replace {{variable}} placeholders; unknown variables become empty
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => variables[key] ?? '');
+}
+
+/**
+ * A contact's own fields as template variables, over the broadcast's defaults
+ */
+export function contactVariables(
+    contact: { name: string; email: string | null; phone: string | null; company: string | null; role: string | null },
+    defaults: Record<string, string> | null | undefined
+): Record<string, string> {
+    const [firstName, ...rest] = contact.name.trim().split(/\s+/);
+    const own: Record<string, string | null> = {
+        name: contact.name,
+        firstName,
+        lastName: rest.join(' '),
+        email: contact.email,
+        phone: contact.phone,
+        company: contact.company,
+        role: contact.role,
+    };
+
+    const variables: Record<string, string> = { ...(defaults ?? {}) };
+    for (const [key, value] of Object.entries(own)) {
+        if (value) variables[key] = value;
+    }
+    return variables;
+}
@@ -0,0 +1,714 @@
+/**
+ * Broadcasts
+ *
+ * Sends a templated message to a segment of CRM contacts on the channels
+ * they are reachable on. A contact is reachable on a channel when one of its
+ * identity links has a private chat there. Each message gets the contact's
+ * variables substituted and is optionally rewritten by an LLM, then goes
+ * through the outbound queue paced at the broadcast's messagesPerMinute.
+ *
+ * Recipients can reply STOP to opt out of future broadcasts (START undoes it).
+ */
+
+import { z } from 'zod';
+import { generateText } from 'ai';
+import { db } from '@/lib/db';
+import {
+    broadcastRecipients,
+    broadcasts,
+    channelAccounts,
+    channelMessages,
+    channelOutbox,
+    channelThreads,
+    contactIdentities,
+    contactIdentityLinks,
+    contactOptOuts,
+    crmContacts,
+    scheduledTasks,
+} from '@/lib/db/schema';
+import type { BroadcastSegment } from '@/lib/db/schema';
+import { eq, and, or, desc, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import { getUserApiKeys } from '@/lib/ai/get-user-keys';
+import { getModelWithKey } from '@/lib/ai/providers/factory';
+import { checkBudget, recordUsage, readTokenUsage } from '@/lib/ai/usage';
+import type { ProviderId } from '@/lib/ai/providers/types';
+import type { ChannelMessage } from './base';
+import type { ContactIdentity } from './identity';
+import { getChannelManager } from './manager';
+import { contactVariables, renderTemplate } from './broadcast-template';
+
+export const broadcastSegmentSchema = z.object({
+    tags: z.array(z.string().min(1)).optional(),
+    crmContactIds: z.array(z.string().uuid()).optional(),
+    allContacts: z.boolean().optional(),
+    channelTypes: z.array(z.string().min(1)).min(1),
+}).refine(segment => segment.allContacts || segment.tags?.length || segment.crmContactIds?.length, {
+    message: 'Choose tags or contacts, or set allContacts to message every CRM contact',
+    path: ['tags'],
+});
+
+/** Editable fields of a broadcast */
+export const broadcastInputSchema = z.object({
+    name: z.string().min(1).max(200),
+    template: z.string().min(1).max(4000),
+    variables: z.record(z.string(), z.string()).nullish(),
+    segment: broadcastSegmentSchema,
+    personalize: z.boolean().optional(),
+    personalizationPrompt: z.string().max(2000).nullish(),
+    messagesPerMinute: z.number().int().min(1).max(600).optional(),
+});
+
+export type Broadcast = typeof broadcasts.$inferSelect;
+export type BroadcastRecipient = typeof broadcastRecipients.$inferSelect;
+export type ContactOptOut = typeof contactOptOuts.$inferSelect;
+
+export interface BroadcastContent {
+    template: string;
+    variables?: Record<string, string> | null;
+    segment: BroadcastSegment;
+    personalize?: boolean;
+    personalizationPrompt?: string | null;
+}
+
+export interface AudienceMember {
+    crmContactId: string;
+    name: string;
+    variables: Record<string, string>;
+    /** Notes and tags given to the personalization model */
+    profile: string;
+    identityId: string | null;
+    /** Null when the contact has no private chat on any of the segment's channels */
+    channelType: string | null;
+    externalChatId: string | null;
+    optedOut: boolean;
+}
+
+export type RecipientDeliveryStatus =
+    | 'pending' | 'queued' | 'sent' | 'delivered' | 'read' | 'failed' | 'skipped' | 'cancelled';
+
+export interface BroadcastReport {
+    total: number;
+    counts: Record<RecipientDeliveryStatus, number>;
+    skipped: { optedOut: number; unreachable: number };
+    byChannel: Record<string, Partial<Record<RecipientDeliveryStatus, number>>>;
+    /** Recipients who opted out in reply to this broadcast */
+    optedOutAfter: number;
+    recipients: Array<{
+        id: string;
+        crmContactId: string | null;
+        contactName: string | null;
+        channelType: string | null;
+        status: RecipientDeliveryStatus;
+        skipReason: string | null;
+        error: string | null;
+        content: string | null;
+    }>;
+}
+
+export interface BroadcastSendResult {
+    broadcastId: string;
+    status: string;
+    queued: number;
+    skipped: number;
+    failed: number;
+}
+
+const OPT_OUT_KEYWORDS = new Set(['stop', 'stopall', 'unsubscribe', 'opt out', 'opt-out', 'optout']);
+const OPT_IN_KEYWORDS = new Set(['start', 'unstop', 'subscribe']);
+const OPT_OUT_REPLY = "You've been unsubscribed and won't receive further broadcasts. Reply START to subscribe again.";
+const OPT_IN_REPLY = "You're subscribed to broadcasts again. Reply STOP to unsubscribe.";
+
+const PERSONALIZATION_MODELS: Array<{ modelId: string; provider: ProviderId }> = [
+    { modelId: 'gpt-4o-mini', provider: 'openai' },
+    { modelId: 'claude-3-5-haiku-20241022', provider: 'anthropic' },
+    { modelId: 'gemini-2.0-flash', provider: 'google' },
+    { modelId: 'openai/gpt-4o-mini', provider: 'openrouter' },
+];
+
+const EDITABLE_STATUSES = ['draft', 'scheduled'];
+
+// ============================================================================
+// Audience
+// ============================================================================
+
+/**
+ * Contacts in the segment with the chat each would receive the broadcast on
+ */
+export async function resolveAudience(
+    userId: string,
+    segment: BroadcastSegment,
+    defaults?: Record<string, string> | null
+): Promise<AudienceMember[]> {
+    const membership: SQL[] = [];
+    if (segment.tags?.length) {
+        membership.push(sql`${crmContacts.tags}::jsonb ?| array[${sql.join(segment.tags.map(t => sql`${t}`), sql`, `)}]`);
+    }
+    if (segment.crmContactIds?.length) {
+        membership.push(inArray(crmContacts.id, segment.crmContactIds));
+    }
+    // Everyone only when asked for explicitly, never because the filters were left empty
+    if (membership.length === 0 && !segment.allContacts) return [];
+
+    const contacts = await db.select()
+        .from(crmContacts)
+        .where(and(
+            eq(crmContacts.userId, userId),
+            isNull(crmContacts.mergedIntoId),
+            ...(membership.length ? [or(...membership)] : [])
+        ))
+        .orderBy(crmContacts.name);
+    if (contacts.length === 0) return [];
+
+    const contactIds = contacts.map(c => c.id);
+    const identities = await db.select({ id: contactIdentities.id, crmContactId: contactIdentities.crmContactId })
+        .from(contactIdentities)
+        .where(and(eq(contactIdentities.userId, userId), inArray(contactIdentities.crmContactId, contactIds)));
+    const identityIds = identities.map(i => i.id);
+
+    const links = identityIds.length && segment.channelTypes.length
+        ? await db.select()
+            .from(contactIdentityLinks)
+            .where(and(
+                inArray(contactIdentityLinks.identityId, identityIds),
+                inArray(contactIdentityLinks.channelType, segment.channelTypes)
+            ))
+        : [];
+
+    // Only private chats: the chat ID is the contact's own sender ID
+    const privateChats = links.length
+        ? await db.select({ channelType: channelAccounts.channelType, chatId: channelThreads.externalChatId })
+            .from(channelThreads)
+            .innerJoin(channelAccounts, eq(channelThreads.channelAccountId, channelAccounts.id))
+            .where(and(
+                eq(channelAccounts.userId, userId),
+                inArray(channelAccounts.channelType, segment.channelTypes),
+                inArray(channelThreads.externalChatId, links.map(l => l.externalId))
+            ))
+        : [];
+    const reachable = new Set(privateChats.map(c => `${c.channelType}:${c.chatId}`));
+
+    const optOuts = await db.select()
+        .from(contactOptOuts)
+        .where(and(
+            eq(contactOptOuts.userId, userId),
+            or(
+                inArray(contactOptOuts.crmContactId, contactIds),
+                ...(identityIds.length ? [inArray(contactOptOuts.contactIdentityId, identityIds)] : []),
+                ...(links.length ? [inArray(contactOptOuts.externalId, links.map(l => l.externalId))] : [])
+            )
+        ));
+    const optedOutKeys = new Set(optOuts.flatMap(o => [
+        o.crmContactId && `crm:${o.crmContactId}`,
+        o.contactIdentityId && `identity:${o.contactIdentityId}`,
+        o.channelType && o.externalId && `${o.channelType}:${o.externalId}`,
+    ].filter((key): key is string => !!key)));
+
+    return contacts.map(contact => {
+        const contactIdentityIds = identities.filter(i => i.crmContactId === contact.id).map(i => i.id);
+        const contactLinks = links.filter(l => contactIdentityIds.includes(l.identityId));
+
+        let destination: (typeof links)[number] | undefined;
+        for (const channelType of segment.channelTypes) {
+            destination = contactLinks.find(l =>
+                l.channelType === channelType
+                && reachable.has(`${l.channelType}:${l.externalId}`)
+                && !optedOutKeys.has(`${l.channelType}:${l.externalId}`)
+            );
+            if (destination) break;
+        }
+
+        const optedOut = optedOutKeys.has(`crm:${contact.id}`)
+            || contactIdentityIds.some(id => optedOutKeys.has(`identity:${id}`))
+            || (!destination && contactLinks.some(l => optedOutKeys.has(`${l.channelType}:${l.externalId}`)));
+
+        return {
+            crmContactId: contact.id,
+            name: contact.name,
+            variables: contactVariables(contact, defaults),
+            profile: [
+                contact.company && `Company: ${contact.company}`,
+                contact.role && `Role: ${contact.role}`,
+                contact.relationship && `Relationship: ${contact.relationship}`,
+                contact.tags?.length && `Tags: ${contact.tags.join(', ')}`,
+                contact.notes && `Notes: ${contact.notes.slice(0, 500)}`,
+            ].filter(Boolean).join('\n'),
+            identityId: destination?.identityId ?? contactIdentityIds[0] ?? null,
+            channelType: destination?.channelType ?? null,
+            externalChatId: destination?.externalId ?? null,
+            optedOut,
+        };
+    });
+}
+
+/**
+ * Audience size and a few rendered messages, without sending anything
+ */
+export async function previewBroadcast(userId: string, content: BroadcastContent, sampleSize = 3) {
+    const audience = await resolveAudience(userId, content.segment, content.variables);
+    const recipients = audience.filter(m => !m.optedOut && m.channelType);
+
+    const byChannel: Record<string, number> = {};
+    for (const member of recipients) {
+        byChannel[member.channelType!] = (byChannel[member.channelType!] ?? 0) + 1;
+    }
+
+    const model = content.personalize ? await resolvePersonalizationModel(userId) : null;
+    const samples = [];
+    for (const member of recipients.slice(0, sampleSize)) {
+        const rendered = renderTemplate(content.template, member.variables);
+        samples.push({
+            contactName: member.name,
+            channelType: member.channelType,
+            content: model ? await personalizeMessage(model, rendered, member, content.personalizationPrompt) : rendered,
+        });
+    }
+
+    return {
+        total: audience.length,
+        reachable: recipients.length,
+        optedOut: audience.filter(m => m.optedOut).length,
+        unreachable: audience.filter(m => !m.optedOut && !m.channelType).length,
+        byChannel,
+        samples,
+        ...(content.personalize && !model && { warning: 'No model available for personalization' }),
+    };
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+/**
+ * Send a draft or scheduled broadcast. Returns null when it was already
+ * sent or cancelled.
+ */
+export async function sendBroadcast(broadcastId: string): Promise<BroadcastSendResult | null> {
+    // Claim the broadcast so a schedule and a manual send cannot both run it
+    const startedAt = new Date();
+    const [broadcast] = await db.update(broadcasts)
+        .set({ status: 'sending', startedAt, error: null, updatedAt: startedAt })
+        .where(and(eq(broadcasts.id, broadcastId), inArray(broadcasts.status, EDITABLE_STATUSES)))
+        .returning();
+    if (!broadcast) return null;
+
+    const result: BroadcastSendResult = { broadcastId, status: 'sending', queued: 0, skipped: 0, failed: 0 };
+
+    try {
+        const model = broadcast.personalize ? await resolvePersonalizationModel(broadcast.userId, broadcastId) : null;
+        if (broadcast.personalize && !model) {
+            throw new Error('No model available for personalization');
+        }
+
+        const audience = await resolveAudience(broadcast.userId, broadcast.segment, broadcast.variables);
+        if (audience.length === 0) {
+            throw new Error('No contacts match the segment');
+        }
+
+        const recipients = await db.insert(broadcastRecipients)
+            .values(audience.map(member => ({
+                broadcastId,
+                userId: broadcast.userId,
+                crmContactId: member.crmContactId,
+                contactIdentityId: member.identityId,
+                contactName: member.name,
+                channelType: member.channelType,
+                externalChatId: member.externalChatId,
+                status: member.optedOut || !member.channelType ? 'skipped' : 'pending',
+                skipReason: member.optedOut ? 'opted_out' : member.channelType ? null : 'unreachable',
+            })))
+            .returning();
+        result.skipped = recipients.filter(r => r.status === 'skipped').length;
+
+        const intervalMs = 60_000 / Math.max(1, broadcast.messagesPerMinute);
+        const members = new Map(audience.map(m => [m.crmContactId, m]));
+        let position = 0;
+
+        for (const recipient of recipients) {
+            if (recipient.status !== 'pending') continue;
+            if (await isCancelled(broadcastId)) {
+                result.status = 'cancelled';
+                return result;
+            }
+
+            const member = members.get(recipient.crmContactId!)!;
+            try {
+                let content = renderTemplate(broadcast.template, member.variables);
+                if (model) {
+                    content = await personalizeMessage(model, content, member, broadcast.personalizationPrompt);
+                }
+
+                const outboxId = await getChannelManager().enqueueMessage(
+                    broadcast.userId,
+                    recipient.channelType!,
+                    recipient.externalChatId!,
+                    content,
+                    { source: 'broadcast', notBefore: new Date(startedAt.getTime() + position * intervalMs) }
+                );
+                position++;
+
+                await db.update(broadcastRecipients)
+                    .set({ status: 'queued', content, outboxId, updatedAt: new Date() })
+                    .where(eq(broadcastRecipients.id, recipient.id));
+                result.queued++;
+            } catch (error) {
+                await db.update(broadcastRecipients)
+                    .set({ status: 'failed', error: error instanceof Error ? error.message : String(error), updatedAt: new Date() })
+                    .where(eq(broadcastRecipients.id, recipient.id));
+                result.failed++;
+            }
+        }
+
+        result.status = 'sent';
+        await db.update(broadcasts)
+            .set({ status: 'sent', completedAt: new Date(), updatedAt: new Date() })
+            .where(and(eq(broadcasts.id, broadcastId), eq(broadcasts.status, 'sending')));
+        console.log(`[Broadcast] ${broadcastId}: ${result.queued} queued, ${result.skipped} skipped, ${result.failed} failed`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.status = 'failed';
+        await db.update(broadcasts)
+            .set({ status: 'failed', error: message, updatedAt: new Date() })
+            .where(eq(broadcasts.id, broadcastId));
+        console.error(`[Broadcast] ${broadcastId} failed:`, error);
+    }
+
+    return result;
+}
+
+export function describeBroadcastResult(result: BroadcastSendResult | null): string {
+    if (!result) return 'Broadcast was already sent or cancelled';
+    return `Broadcast ${result.status}: ${result.queued} queued, ${result.skipped} skipped, ${result.failed} failed`;
+}
+
+/**
+ * Send the broadcast at a later time through the scheduler
+ */
+export async function scheduleBroadcast(userId: string, broadcastId: string, at: Date): Promise<Broadcast | null> {
+    const [broadcast] = await db.select()
+        .from(broadcasts)
+        .where(and(eq(broadcasts.id, broadcastId), eq(broadcasts.userId, userId), inArray(broadcasts.status, EDITABLE_STATUSES)))
+        .limit(1);
+    if (!broadcast) return null;
+
+    if (broadcast.scheduledTaskId) {
+        await db.delete(scheduledTasks).where(eq(scheduledTasks.id, broadcast.scheduledTaskId));
+    }
+
+    const [task] = await db.insert(scheduledTasks)
+        .values({
+            userId,
+            name: `Broadcast: ${broadcast.name}`,
+            prompt: `Send broadcast "${broadcast.name}"`,
+            // One-shot; the runner disables the task after it fires
+            cron: `${at.getUTCMinutes()} ${at.getUTCHours()} ${at.getUTCDate()} ${at.getUTCMonth() + 1} *`,
+            timezone: 'UTC',
+            nextRunAt: at,
+            schedule: { kind: 'at', atMs: at.getTime() },
+            payload: { kind: 'broadcast', broadcastId },
+        })
+        .returning();
+
+    const [updated] = await db.update(broadcasts)
+        .set({ status: 'scheduled', scheduledAt: at, scheduledTaskId: task.id, updatedAt: new Date() })
+        .where(eq(broadcasts.id, broadcastId))
+        .returning();
+    return updated;
+}
+
+/**
+ * Stop a scheduled or sending broadcast. Messages already handed to the
+ * platform cannot be recalled; queued ones are dropped.
+ */
+export async function cancelBroadcast(userId: string, broadcastId: string): Promise<Broadcast | null> {
+    const [broadcast] = await db.update(broadcasts)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(
+            eq(broadcasts.id, broadcastId),
+            eq(broadcasts.userId, userId),
+            inArray(broadcasts.status, ['scheduled', 'sending', 'sent'])
+        ))
+        .returning();
+    if (!broadcast) return null;
+
+    if (broadcast.scheduledTaskId) {
+        await db.delete(scheduledTasks).where(eq(scheduledTasks.id, broadcast.scheduledTaskId));
+    }
+
+    const dropped = await db.delete(channelOutbox)
+        .where(and(
+            eq(channelOutbox.status, 'queued'),
+            inArray(
+                channelOutbox.id,
+                db.select({ id: broadcastRecipients.outboxId }).from(broadcastRecipients).where(eq(broadcastRecipients.broadcastId, broadcastId))
+            )
+        ))
+        .returning({ id: channelOutbox.id });
+
+    // Dropping the outbox rows cleared outboxId on their recipients
+    await db.update(broadcastRecipients)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(
+            eq(broadcastRecipients.broadcastId, broadcastId),
+            or(
+                eq(broadcastRecipients.status, 'pending'),
+                and(eq(broadcastRecipients.status, 'queued'), isNull(broadcastRecipients.outboxId))
+            )
+        ));
+
+    console.log(`[Broadcast] ${broadcastId} cancelled, ${dropped.length} queued messages dropped`);
+    return broadcast;
+}
+
+async function isCancelled(broadcastId: string): Promise<boolean> {
+    const [row] = await db.select({ status: broadcasts.status })
+        .from(broadcasts)
+        .where(eq(broadcasts.id, broadcastId))
+        .limit(1);
+    return row?.status !== 'sending';
+}
+
+// ============================================================================
+// Personalization
+// ============================================================================
+
+interface PersonalizationModel {
+    userId: string;
+    modelId: string;
+    model: ReturnType<typeof getModelWithKey>;
+    /** Broadcast to meter the calls against */
+    broadcastId?: string;
+}
+
+async function resolvePersonalizationModel(userId: string, broadcastId?: string): Promise<PersonalizationModel | null> {
+    const apiKeys = await getUserApiKeys(userId);
+    for (const { modelId, provider } of PERSONALIZATION_MODELS) {
+        if (!apiKeys[provider]) continue;
+        try {
+            return { userId, modelId, model: getModelWithKey(modelId, apiKeys), broadcastId };
+        } catch {
+            continue;
+        }
+    }
+    return null;
+}
+
+/**
+ * Rewrite the rendered message for one recipient; falls back to it unchanged,
+ * also once the monthly budget is used up
+ */
+async function personalizeMessage(
+    personalization: PersonalizationModel,
+    rendered: string,
+    member: AudienceMember,
+    instructions?: string | null
+): Promise<string> {
+    try {
+        const budget = await checkBudget(personalization.userId, 'broadcast');
+        if (!budget.allowed) return rendered;
+
+        const result = await generateText({
+            model: personalization.model,
+            messages: [{
+                role: 'user',
+                content: [
+                    'Lightly personalize the message below for its recipient.',
+                    'Keep its meaning, facts, links, language and length. Do not add offers, dates or claims that are not in it.',
+                    instructions ? `Sender's instructions: ${instructions}` : '',
+                    'Reply with the message text only.',
+                    '',
+                    `Recipient: ${member.name}`,
+                    member.profile,
+                    '',
+                    `Message:\n${rendered}`,
+                ].filter(Boolean).join('\n'),
+            }],
+            temperature: 0.4,
+            maxOutputTokens: 1000,
+        });
+        await recordUsage({
+            userId: personalization.userId,
+            feature: 'broadcast',
+            model: personalization.modelId,
+            ...readTokenUsage(result.usage),
+            sourceId: personalization.broadcastId,
+        });
+        return result.text.trim() || rendered;
+    } catch (error) {
+        console.warn(`[Broadcast] Personalization failed for ${member.crmContactId}, sending the template:`, error);
+        return rendered;
+    }
+}
+
+// ============================================================================
+// Delivery Report
+// ============================================================================
+
+export async function getBroadcastReport(broadcastId: string): Promise<BroadcastReport> {
+    const rows = await db.select({
+        recipient: broadcastRecipients,
+        outboxStatus: channelOutbox.status,
+        outboxError: channelOutbox.lastError,
+        messageStatus: channelMessages.status,
+        messageError: channelMessages.errorMessage,
+    })
+        .from(broadcastRecipients)
+        .leftJoin(channelOutbox, eq(broadcastRecipients.outboxId, channelOutbox.id))
+        .leftJoin(channelMessages, eq(channelOutbox.channelMessageId, channelMessages.id))
+        .where(eq(broadcastRecipients.broadcastId, broadcastId))
+        .orderBy(broadcastRecipients.createdAt);
+
+    const [{ count: optedOutAfter }] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(contactOptOuts)
+        .where(eq(contactOptOuts.broadcastId, broadcastId));
+
+    const report: BroadcastReport = {
+        total: rows.length,
+        counts: { pending: 0, queued: 0, sent: 0, delivered: 0, read: 0, failed: 0, skipped: 0, cancelled: 0 },
+        skipped: { optedOut: 0, unreachable: 0 },
+        byChannel: {},
+        optedOutAfter,
+        recipients: [],
+    };
+
+    for (const { recipient, outboxStatus, outboxError, messageStatus, messageError } of rows) {
+        const status = deliveryStatus(recipient.status, outboxStatus, messageStatus);
+        report.counts[status]++;
+        if (recipient.skipReason === 'opted_out') report.skipped.optedOut++;
+        if (recipient.skipReason === 'unreachable') report.skipped.unreachable++;
+        if (recipient.channelType) {
+            const channel = report.byChannel[recipient.channelType] ??= {};
+            channel[status] = (channel[status] ?? 0) + 1;
+        }
+
+        report.recipients.push({
+            id: recipient.id,
+            crmContactId: recipient.crmContactId,
+            contactName: recipient.contactName,
+            channelType: recipient.channelType,
+            status,
+            skipReason: recipient.skipReason,
+            error: recipient.error ?? (status === 'failed' ? messageError ?? outboxError : null),
+            content: recipient.content,
+        });
+    }
+
+    return report;
+}
+
+function deliveryStatus(
+    recipientStatus: string,
+    outboxStatus: string | null,
+    messageStatus: string | null
+): RecipientDeliveryStatus {
+    if (recipientStatus !== 'queued') return recipientStatus as RecipientDeliveryStatus;
+    switch (outboxStatus) {
+        case null:
+            return 'cancelled';
+        case 'sent':
+            return messageStatus === 'delivered' || messageStatus === 'read' || messageStatus === 'failed'
+                ? messageStatus
+                : 'sent';
+        case 'failed':
+        case 'dead':
+            return 'failed';
+        default:
+            return 'queued';
+    }
+}
+
+// ============================================================================
+// Opt-Outs
+// ============================================================================
+
+/**
+ * Handle STOP / START replies from broadcast recipients. Returns the reply
+ * to send, or null when the message is not an opt-out keyword.
+ */
+export async function handleOptOutKeyword(
+    userId: string,
+    message: ChannelMessage,
+    identity: ContactIdentity | null
+): Promise<string | null> {
+    const keyword = message.content.trim().toLowerCase().replace(/[.!]+$/, '');
+    const optOut = OPT_OUT_KEYWORDS.has(keyword);
+    if (!optOut && !OPT_IN_KEYWORDS.has(keyword)) return null;
+
+    if (!optOut) {
+        const crmContactId = identity?.crmContactId;
+        const removed = await db.delete(contactOptOuts)
+            .where(and(
+                eq(contactOptOuts.userId, userId),
+                or(
+                    and(eq(contactOptOuts.channelType, message.channelType), eq(contactOptOuts.externalId, message.sender.id)),
+                    ...(identity ? [eq(contactOptOuts.contactIdentityId, identity.id)] : []),
+                    ...(crmContactId ? [eq(contactOptOuts.crmContactId, crmContactId)] : [])
+                )
+            ))
+            .returning({ id: contactOptOuts.id });
+        return removed.length ? OPT_IN_REPLY : null;
+    }
+
+    // Only people who were sent a broadcast in this chat; STOP means something else elsewhere
+    const [recipient] = await db.select()
+        .from(broadcastRecipients)
+        .where(and(
+            eq(broadcastRecipients.userId, userId),
+            eq(broadcastRecipients.channelType, message.channelType),
+            eq(broadcastRecipients.externalChatId, message.channelId),
+            eq(broadcastRecipients.status, 'queued')
+        ))
+        .orderBy(desc(broadcastRecipients.createdAt))
+        .limit(1);
+    if (!recipient) return null;
+
+    await db.insert(contactOptOuts).values({
+        userId,
+        crmContactId: identity?.crmContactId ?? recipient.crmContactId,
+        contactIdentityId: identity?.id ?? recipient.contactIdentityId,
+        channelType: message.channelType,
+        externalId: message.sender.id,
+        source: 'keyword',
+        broadcastId: recipient.broadcastId,
+    });
+    console.log(`[Broadcast] ${message.channelType}:${message.sender.id} opted out`);
+    return OPT_OUT_REPLY;
+}
+
+export async function listOptOuts(userId: string) {
+    return db.select({ optOut: contactOptOuts, contactName: crmContacts.name })
+        .from(contactOptOuts)
+        .leftJoin(crmContacts, eq(contactOptOuts.crmContactId, crmContacts.id))
+        .where(eq(contactOptOuts.userId, userId))
+        .orderBy(desc(contactOptOuts.createdAt));
+}
+
+/**
+ * Opt a CRM contact out of (or back into) broadcasts on every channel
+ */
+export async function setContactOptOut(userId: string, crmContactId: string, optedOut: boolean): Promise<void> {
+    const [contact] = await db.select({ id: crmContacts.id })
+        .from(crmContacts)
+        .where(and(eq(crmContacts.id, crmContactId), eq(crmContacts.userId, userId)))
+        .limit(1);
+    if (!contact) throw new Error('CRM contact not found');
+
+    if (!optedOut) {
+        const identityIds = db.select({ id: contactIdentities.id })
+            .from(contactIdentities)
+            .where(eq(contactIdentities.crmContactId, crmContactId));
+        await db.delete(contactOptOuts)
+            .where(and(
+                eq(contactOptOuts.userId, userId),
+                or(eq(contactOptOuts.crmContactId, crmContactId), inArray(contactOptOuts.contactIdentityId, identityIds))
+            ));
+        return;
+    }
+
+    const [existing] = await db.select({ id: contactOptOuts.id })
+        .from(contactOptOuts)
+        .where(and(eq(contactOptOuts.userId, userId), eq(contactOptOuts.crmContactId, crmContactId)))
+        .limit(1);
+    if (!existing) {
+        await db.insert(contactOptOuts).values({ userId, crmContactId, source: 'manual' });
+    }
+}
@@ -11,13 +11,18 @@ import {
     ChannelConfig,
     SendMessageOptions,
     ChannelAttachment,
+    MessageButton,
+    RichMessage,
 } from '../base';
+import { choiceCallbackId, parseChoiceCallbackId, renderRichFallback, toRichMessage } from '../rich';
 
 // Lazy import discord.js to avoid bundling issues
 let DiscordClient: typeof import('discord.js').Client;
 let GatewayIntentBits: typeof import('discord.js').GatewayIntentBits;
 let DiscordEvents: typeof import('discord.js').Events;
 let ChannelType: typeof import('discord.js').ChannelType;
+let ComponentType: typeof import('discord.js').ComponentType;
+let ButtonStyle: typeof import('discord.js').ButtonStyle;
 
 async function getDiscordJS() {
     if (!DiscordClient) {
@@ -26,13 +31,104 @@ async function getDiscordJS() {
         GatewayIntentBits = discord.GatewayIntentBits;
         DiscordEvents = discord.Events;
         ChannelType = discord.ChannelType;
+        ComponentType = discord.ComponentType;
+        ButtonStyle = discord.ButtonStyle;
     }
     return { Client: DiscordClient, GatewayIntentBits, Events: DiscordEvents, ChannelType };
 }
 
+/** Discord allows 5 action rows of 5 buttons per message */
+const MAX_ACTION_ROWS = 5;
+const MAX_ROW_BUTTONS = 5;
+
+/**
+ * Embeds and message components for a rich message. Single-answer polls
+ * become buttons, multi-answer polls a multi-select menu. Returns null
+ * when the choices need more action rows than a message can hold.
+ */
+function buildRichPayload(rich: RichMessage) {
+    const toButton = (button: MessageButton) => button.url
+        ? { type: ComponentType.Button, style: ButtonStyle.Link, label: button.label, url: button.url }
+        : {
+            type: ComponentType.Button,
+            style: button.style === 'danger' ? ButtonStyle.Danger
+                : button.style === 'primary' ? ButtonStyle.Primary
+                : ButtonStyle.Secondary,
+            label: button.label,
+            custom_id: button.id,
+        };
+    const buttonRows = (buttons: MessageButton[]) => {
+        const rows = [];
+        for (let i = 0; i < buttons.length; i += MAX_ROW_BUTTONS) {
+            rows.push({ type: ComponentType.ActionRow, components: buttons.slice(i, i + MAX_ROW_BUTTONS).map(toButton) });
+        }
+        return rows;
+    };
+
+    const embeds = [];
+    const components = [];
+    const prompts: string[] = [];
+    for (const block of rich.blocks) {
+        switch (block.type) {
+            case 'buttons':
+                components.push(...buttonRows(block.buttons));
+                break;
+            case 'select':
+                components.push({
+                    type: ComponentType.ActionRow,
+                    components: [{
+                        type: ComponentType.StringSelect,
+                        custom_id: block.id,
+                        placeholder: block.placeholder,
+                        options: block.options.map(option => ({
+                            label: option.label,
+                            value: option.value,
+                            description: option.description,
+                        })),
+                    }],
+                });
+                break;
+            case 'card':
+                embeds.push({
+                    title: block.title,
+                    description: [block.subtitle && `*${block.subtitle}*`, block.text].filter(Boolean).join('\n') || undefined,
+                    url: block.url,
+                    image: block.imageUrl ? { url: block.imageUrl } : undefined,
+                });
+                components.push(...buttonRows(block.buttons ?? []));
+                break;
+            case 'poll':
+                prompts.push(`📊 **${block.question}**`);
+                if (block.allowMultiple) {
+                    components.push({
+                        type: ComponentType.ActionRow,
+                        components: [{
+                            type: ComponentType.StringSelect,
+                            custom_id: choiceCallbackId({ kind: 'poll', actionId: block.id, value: '' }),
+                            placeholder: block.question.slice(0, 150),
+                            min_values: 1,
+                            max_values: block.options.length,
+                            options: block.options.map(option => ({ label: option, value: option })),
+                        }],
+                    });
+                } else {
+                    components.push(...buttonRows(block.options.map(option => ({
+                        id: choiceCallbackId({ kind: 'poll', actionId: block.id, value: option }),
+                        label: option,
+                    }))));
+                }
+                break;
+        }
+    }
+
+    if (components.length > MAX_ACTION_ROWS) return null;
+    return { embeds, components, prompts };
+}
+
 export class DiscordConnector extends ChannelConnector {
     readonly type = 'discord';
     readonly name = 'Discord';
+    readonly supportsRichMessages = true;
 
     private client: InstanceType<typeof import('discord.js').Client> | null = null;
     private config: ChannelConfig | null = null;
@@ -118,6 +214,43 @@ export class DiscordConnector extends ChannelConnector {
             await this.onMessageDelete?.(message.channelId, message.id);
         });
 
+        // Handle button presses and select menu choices
+        this.client.on(Events.InteractionCreate, async (interaction) => {
+            if (!interaction.isButton() && !interaction.isStringSelectMenu()) return;
+            await interaction.deferUpdate().catch(() => {
+                /* interaction may have expired */
+            });
+
+            const parsed = parseChoiceCallbackId(interaction.customId);
+            let selection;
+            if (interaction.isStringSelectMenu()) {
+                const labels = interaction.component.options
+                    .filter(option => interaction.values.includes(option.value))
+                    .map(option => option.label);
+                selection = {
+                    buttonId: parsed.buttonId,
+                    kind: parsed.kind === 'poll' ? 'poll' as const : 'select' as const,
+                    values: interaction.values,
+                    label: labels.join(', '),
+                };
+            } else {
+                const { component } = interaction;
+                selection = { ...parsed, label: 'label' in component ? component.label ?? undefined : undefined };
+            }
+
+            await this.onButtonClick?.({
+                ...selection,
+                channelType: 'discord',
+                channelId: interaction.channelId,
+                threadId: interaction.channel?.isThread() ? interaction.channelId : undefined,
+                messageId: interaction.message.id,
+                sender: {
+                    id: interaction.user.id,
+                    name: interaction.user.displayName || interaction.user.username,
+                },
+            });
+        });
+
         // Handle errors
         this.client.on(Events.Error, (error) => {
             console.error('[Discord] Client error:', error);
@@ -157,14 +290,26 @@ export class DiscordConnector extends ChannelConnector {
         }
 
         const textChannel = channel as import('discord.js').TextChannel;
+        const rich = toRichMessage(options);
+        const payload = rich ? buildRichPayload(rich) : undefined;
+        // Too many choices for buttons: send numbered text, answered by replying (see canRenderRich)
+        if (rich && !payload) {
+            content = renderRichFallback(content, rich);
+        }
         const message = await textChannel.send({
-            content,
+            content: [content, ...(payload?.prompts ?? [])].filter(Boolean).join('\n\n') || undefined,
+            embeds: payload?.embeds,
+            components: payload?.components,
             reply: options?.replyTo ? { messageReference: options.replyTo } : undefined,
         });
 
         return message.id;
     }
 
+    canRenderRich(rich: RichMessage): boolean {
+        return buildRichPayload(rich) !== null;
+    }
+
     async editMessage(channelId: string, messageId: string, content: string): Promise<void> {
         if (!this.client) throw new Error('Not connected');
 
@@ -175,7 +320,8 @@ export class DiscordConnector extends ChannelConnector {
 
         const textChannel = channel as import('discord.js').TextChannel;
         const message = await textChannel.messages.fetch(messageId);
-        await message.edit(content);
+        // Edits replace the whole message, buttons and menus included
+        await message.edit({ content, embeds: [], components: [] });
     }
 
     async deleteMessage(channelId: string, messageId: string): Promise<void> {
@@ -289,7 +435,7 @@ export class DiscordConnector extends ChannelConnector {
     /**
      * Send typing indicator
      */
-    async sendTyping(channelId: string): Promise<void> {
+    async sendTypingAction(channelId: string): Promise<void> {
         if (!this.client) throw new Error('Not connected');
 
         const channel = await this.client.channels.fetch(channelId);
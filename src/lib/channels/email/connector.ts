@@ -0,0 +1,596 @@
+/**
+ * Email Channel Connector
+ *
+ * Turns a mailbox into a conversational channel: new mail is polled over
+ * IMAP and replies go out over SMTP. Email threads map onto channel
+ * threads through Message-ID / In-Reply-To / References, so every
+ * conversation with a sender keeps its own history. The subject and
+ * References chain are stored on the channel thread, so replies sent after
+ * a restart or a late approval still thread correctly.
+ *
+ * Automatic mail (auto-replies, bounces, mailing lists) is ignored so the
+ * agent never ends up in a reply loop with another robot.
+ */
+
+import { createHash } from 'crypto';
+import { and, eq, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { channelThreads } from '@/lib/db/schema';
+import {
+    ChannelConnector,
+    ChannelMessage,
+    ChannelConfig,
+    ChannelAttachment,
+    SendMessageOptions,
+    ChannelSetupResult,
+} from '../base';
+import { ImapClient, type ImapOptions } from './imap';
+import {
+    SmtpClient,
+    buildMimeMessage,
+    createMessageId,
+    isValidAddress,
+    type SmtpOptions,
+    type OutgoingAttachment,
+} from './smtp';
+import { parseMessage, type ParsedMessage } from '@/lib/documents/processors/email';
+
+interface EmailSettings {
+    emailAddress: string;
+    fromName?: string;
+    username: string;
+    imapHost: string;
+    imapPort: number;
+    imapSecure: boolean;
+    smtpHost: string;
+    smtpPort: number;
+    smtpSecure: boolean;
+    mailbox: string;
+    pollIntervalSeconds: number;
+    accountId?: string;
+}
+
+interface ThreadState {
+    subject: string;
+    references: string[];
+}
+
+export interface EmailSetupInput {
+    emailAddress: string;
+    password: string;
+    username?: string;
+    fromName?: string;
+    imapHost: string;
+    imapPort?: number;
+    smtpHost?: string;
+    smtpPort?: number;
+    mailbox?: string;
+    pollIntervalSeconds?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+const MIN_POLL_INTERVAL_SECONDS = 15;
+/** Messages handled per poll, so a backlog cannot stall the connector */
+const MAX_MESSAGES_PER_POLL = 25;
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const MAX_ATTACHMENTS = 10;
+/** Attachments that cannot be stored in S3 are inlined up to this size */
+const MAX_INLINE_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+/** Presigned attachment URLs stay valid for a week (the S3 maximum) */
+const ATTACHMENT_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const MAX_TRACKED_THREADS = 500;
+/** References kept per thread: the message that started it and the latest ones */
+const MAX_REFERENCES = 20;
+
+const AUTOMATED_SENDER_PATTERN = /^(mailer-daemon|postmaster|no-?reply|do-?not-?reply|bounces?)(\+[^@]*)?@/i;
+
+/**
+ * Split "Name <address>" into its parts; null unless the address is a
+ * plain addr-spec that is safe to send to
+ */
+function parseAddress(header: string | undefined): { address: string; name?: string } | null {
+    if (!header) return null;
+    const angle = header.match(/^\s*"?([^"<]*?)"?\s*<([^<>\s]+)>/);
+    const bare = angle ? null : header.match(/[^\s<>,;"]+@[^\s<>,;"]+/);
+    const address = (angle?.[2] ?? bare?.[0])?.toLowerCase();
+    if (!address || !isValidAddress(address)) return null;
+    return { address, name: angle?.[1].trim() || undefined };
+}
+
+function parseMessageIds(header: string | undefined): string[] {
+    return [...(header ?? '').matchAll(/<([^<>\s]+)>/g)].map(match => match[1]);
+}
+
+/**
+ * Drop the quoted history most clients append below a reply
+ */
+function stripQuotedReply(body: string): string {
+    const lines = body.split('\n');
+    const cutoff = lines.findIndex((line, index) =>
+        /^On .+wrote:\s*$/.test(line)
+        || (/^On .+/.test(line) && /wrote:\s*$/.test(lines[index + 1] ?? ''))
+        || /^-{2,}\s*Original Message\s*-{2,}/i.test(line)
+        || /^_{10,}$/.test(line)
+        || (/^From: .+/.test(line) && /^(Sent|Date): .+/.test(lines[index + 1] ?? ''))
+    );
+    const kept = cutoff >= 0 ? lines.slice(0, cutoff) : lines;
+    // Trailing ">" quote blocks without an attribution line
+    while (kept.length > 0 && (/^>/.test(kept[kept.length - 1]) || !kept[kept.length - 1].trim())) {
+        kept.pop();
+    }
+    return kept.join('\n').trim();
+}
+
+function attachmentType(contentType: string): ChannelAttachment['type'] {
+    if (contentType.startsWith('image/')) return 'image';
+    if (contentType.startsWith('audio/')) return 'audio';
+    if (contentType.startsWith('video/')) return 'video';
+    return 'file';
+}
+
+function trimReferences(references: string[]): string[] {
+    return references.length <= MAX_REFERENCES
+        ? references
+        : [references[0], ...references.slice(-(MAX_REFERENCES - 1))];
+}
+
+function replySubject(subject: string): string {
+    return /^re:/i.test(subject.trim()) ? subject.trim() : `Re: ${subject.trim() || 'Your message'}`;
+}
+
+export class EmailConnector extends ChannelConnector {
+    readonly type = 'email';
+    readonly name = 'Email';
+
+    private settings: EmailSettings | null = null;
+    private password: string = '';
+    private connected: boolean = false;
+    private pollTimer: ReturnType<typeof setTimeout> | null = null;
+    private polling: boolean = false;
+    private threads: Map<string, ThreadState> = new Map();
+
+    async connect(config: ChannelConfig): Promise<void> {
+        this.settings = this.readSettings(config);
+        this.password = config.credentials.accessToken || '';
+        if (!this.password) {
+            throw new Error('Email connector requires the mailbox password');
+        }
+
+        // Fail fast on bad credentials instead of on the first poll
+        const imap = new ImapClient(this.imapOptions());
+        await imap.connect();
+        await imap.logout();
+
+        this.connected = true;
+        this.schedulePoll(0);
+        console.log(`[Email] Connected to ${this.settings.emailAddress}`);
+    }
+
+    async disconnect(): Promise<void> {
+        this.connected = false;
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
+        }
+        console.log('[Email] Disconnected');
+    }
+
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * Send mail to an address; threadId/replyTo make it a reply in that thread
+     */
+    async sendMessage(
+        channelId: string,
+        content: string,
+        options?: SendMessageOptions
+    ): Promise<string> {
+        const settings = this.settings;
+        if (!settings || !this.connected) throw new Error('Not connected');
+
+        const recipient = parseAddress(channelId)?.address;
+        if (!recipient) throw new Error(`Invalid email recipient: ${channelId}`);
+
+        const thread = options?.threadId ? await this.loadThread(recipient, options.threadId) : undefined;
+        const inReplyTo = options?.replyTo ?? thread?.references[thread.references.length - 1];
+        const references = thread
+            ? [...thread.references]
+            : [options?.threadId, options?.replyTo].filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+        if (inReplyTo && !references.includes(inReplyTo)) {
+            references.push(inReplyTo);
+        }
+
+        const messageId = createMessageId(settings.emailAddress);
+        const message = buildMimeMessage({
+            from: settings.emailAddress,
+            fromName: settings.fromName,
+            to: [recipient],
+            subject: thread ? replySubject(thread.subject) : (options?.threadId ? replySubject('') : 'Message from MaiaChat'),
+            text: content,
+            messageId,
+            inReplyTo,
+            references,
+            attachments: await this.loadAttachments(options?.attachments),
+        });
+
+        const smtp = new SmtpClient(this.smtpOptions());
+        try {
+            await smtp.connect();
+            await smtp.sendMail(settings.emailAddress, [recipient], message);
+        } finally {
+            await smtp.quit();
+        }
+
+        if (options?.threadId) {
+            await this.rememberThread(recipient, options.threadId, {
+                subject: thread?.subject ?? '',
+                references: [...references, messageId],
+            });
+        }
+
+        return messageId;
+    }
+
+    async editMessage(channelId: string, messageId: string, content: string): Promise<void> {
+        void channelId; void messageId; void content;
+        throw new Error('Sent email cannot be edited');
+    }
+
+    async deleteMessage(channelId: string, messageId: string): Promise<void> {
+        void channelId; void messageId;
+        throw new Error('Sent email cannot be deleted');
+    }
+
+    /**
+     * Verify IMAP and SMTP logins before the account is saved
+     */
+    async setupAccount(input: Record<string, unknown>): Promise<ChannelSetupResult> {
+        const setup = input as unknown as EmailSetupInput;
+        const emailAddress = setup.emailAddress.trim().toLowerCase();
+        const imapPort = setup.imapPort ?? 993;
+        const smtpPort = setup.smtpPort ?? 465;
+
+        const settings: Record<string, unknown> = {
+            emailAddress,
+            fromName: setup.fromName || null,
+            username: setup.username || emailAddress,
+            imapHost: setup.imapHost,
+            imapPort,
+            imapSecure: imapPort === 993,
+            smtpHost: setup.smtpHost || setup.imapHost.replace(/^imap\./i, 'smtp.'),
+            smtpPort,
+            smtpSecure: smtpPort === 465,
+            mailbox: setup.mailbox || 'INBOX',
+            pollIntervalSeconds: setup.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS,
+        };
+        this.settings = this.readSettings({ channelType: 'email', credentials: {}, settings });
+        this.password = setup.password;
+
+        const imap = new ImapClient(this.imapOptions());
+        try {
+            await imap.connect();
+            await imap.select(this.settings.mailbox);
+        } finally {
+            await imap.logout();
+        }
+
+        const smtp = new SmtpClient(this.smtpOptions());
+        try {
+            await smtp.connect();
+        } finally {
+            await smtp.quit();
+        }
+
+        return {
+            channelType: 'email',
+            channelId: emailAddress,
+            accountId: emailAddress,
+            displayName: setup.fromName ? `${setup.fromName} <${emailAddress}>` : emailAddress,
+            credentials: { accessToken: setup.password },
+            settings,
+        };
+    }
+
+    // =========================================================================
+    // Polling
+    // =========================================================================
+
+    private readSettings(config: ChannelConfig): EmailSettings {
+        const source = { ...config.credentials, ...(config.settings ?? {}) } as Record<string, unknown>;
+        const emailAddress = String(source.emailAddress ?? '').toLowerCase();
+        const imapHost = String(source.imapHost ?? '');
+        if (!emailAddress || !imapHost) {
+            throw new Error('Email connector requires emailAddress and imapHost settings');
+        }
+
+        const imapPort = Number(source.imapPort) || 993;
+        const smtpPort = Number(source.smtpPort) || 465;
+        const flag = (value: unknown, fallback: boolean) =>
+            value === undefined || value === null ? fallback : value === true || value === 'true';
+
+        return {
+            emailAddress,
+            fromName: source.fromName ? String(source.fromName) : undefined,
+            username: String(source.username || emailAddress),
+            imapHost,
+            imapPort,
+            imapSecure: flag(source.imapSecure, imapPort === 993),
+            smtpHost: String(source.smtpHost || imapHost),
+            smtpPort,
+            smtpSecure: flag(source.smtpSecure, smtpPort === 465),
+            mailbox: String(source.mailbox || 'INBOX'),
+            pollIntervalSeconds: Math.max(
+                Number(source.pollIntervalSeconds) || DEFAULT_POLL_INTERVAL_SECONDS,
+                MIN_POLL_INTERVAL_SECONDS
+            ),
+            accountId: source.accountId ? String(source.accountId) : undefined,
+        };
+    }
+
+    private imapOptions(): ImapOptions {
+        const settings = this.settings!;
+        return {
+            host: settings.imapHost,
+            port: settings.imapPort,
+            secure: settings.imapSecure,
+            username: settings.username,
+            password: this.password,
+        };
+    }
+
+    private smtpOptions(): SmtpOptions {
+        const settings = this.settings!;
+        return {
+            host: settings.smtpHost,
+            port: settings.smtpPort,
+            secure: settings.smtpSecure,
+            username: settings.username,
+            password: this.password,
+        };
+    }
+
+    private schedulePoll(delayMs: number): void {
+        if (!this.connected) return;
+        this.pollTimer = setTimeout(() => {
+            this.pollTimer = null;
+            this.poll()
+                .catch(error => {
+                    console.error('[Email] Poll failed:', error);
+                    this.onError?.(error instanceof Error ? error : new Error(String(error)));
+                })
+                .finally(() => this.schedulePoll((this.settings?.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS) * 1000));
+        }, delayMs);
+    }
+
+    private async poll(): Promise<void> {
+        const settings = this.settings;
+        if (!settings || this.polling) return;
+        this.polling = true;
+
+        const imap = new ImapClient(this.imapOptions());
+        try {
+            await imap.connect();
+            const uidValidity = await imap.select(settings.mailbox);
+            const uids = (await imap.search('UNSEEN')).slice(0, MAX_MESSAGES_PER_POLL);
+
+            for (const uid of uids) {
+                if (!this.connected) break;
+                const raw = await imap.fetchMessage(uid);
+                // Mark as seen first: a message that crashes processing must not be retried forever
+                await imap.addFlags(uid, ['\\Seen']);
+                if (!raw) continue;
+
+                try {
+                    await this.handleRawMessage(raw, `${settings.mailbox}:${uidValidity ?? '0'}:${uid}`);
+                } catch (error) {
+                    console.error(`[Email] Failed to handle message ${uid}:`, error);
+                }
+            }
+        } finally {
+            this.polling = false;
+            await imap.logout();
+        }
+    }
+
+    private async handleRawMessage(raw: Buffer, fallbackId: string): Promise<void> {
+        const settings = this.settings!;
+        const parsed = parseMessage(raw);
+        const headers = parsed.headers;
+
+        const from = parseAddress(headers['reply-to']) ?? parseAddress(headers.from);
+        if (!from || from.address === settings.emailAddress || this.isAutomated(parsed, from.address)) {
+            return;
+        }
+
+        const messageId = parseMessageIds(headers['message-id'])[0]
+            ?? `${createHash('sha1').update(fallbackId).digest('hex')}@${settings.emailAddress.split('@')[1]}`;
+        const inReplyTo = parseMessageIds(headers['in-reply-to'])[0];
+        const references = parseMessageIds(headers.references);
+        // The thread is named after the message that started it
+        const threadId = references[0] ?? inReplyTo ?? messageId;
+        const subject = headers.subject ?? '';
+
+        await this.rememberThread(from.address, threadId, {
+            subject: (await this.loadThread(from.address, threadId))?.subject || subject,
+            references: [...references.filter(id => id !== messageId), ...(inReplyTo && !references.includes(inReplyTo) ? [inReplyTo] : []), messageId],
+        });
+
+        const body = stripQuotedReply(parsed.bodies.join('\n\n'));
+        const isNewThread = threadId === messageId;
+        const content = isNewThread && subject ? `${subject}\n\n${body}`.trim() : body;
+        const attachments = await this.storeAttachments(parsed, messageId);
+
+        if (!content && attachments.length === 0) return;
+
+        const date = headers.date ? new Date(headers.date) : new Date();
+        const channelMessage: ChannelMessage = {
+            id: messageId,
+            channelType: 'email',
+            channelId: from.address,
+            threadId,
+            content,
+            contentType: content ? 'text' : 'file',
+            attachments: attachments.length > 0 ? attachments : undefined,
+            sender: {
+                id: from.address,
+                name: from.name || from.address,
+            },
+            timestamp: isNaN(date.getTime()) ? new Date() : date,
+            replyTo: inReplyTo,
+            metadata: {
+                subject,
+                to: headers.to,
+                cc: headers.cc,
+                mailbox: settings.emailAddress,
+                isNewThread,
+            },
+        };
+
+        await this.onMessage?.(channelMessage);
+    }
+
+    private isAutomated(parsed: ParsedMessage, sender: string): boolean {
+        const headers = parsed.headers;
+        const autoSubmitted = (headers['auto-submitted'] ?? 'no').trim().toLowerCase();
+        const precedence = (headers.precedence ?? '').trim().toLowerCase();
+        return autoSubmitted !== 'no'
+            || ['bulk', 'list', 'junk', 'auto_reply'].includes(precedence)
+            || 'list-id' in headers
+            || 'x-autoreply' in headers
+            || 'x-autorespond' in headers
+            || AUTOMATED_SENDER_PATTERN.test(sender);
+    }
+
+    /**
+     * Subject and References of a thread, from memory or from the channel
+     * thread it was stored with (after a restart or a delayed approval)
+     */
+    private async loadThread(chatId: string, threadId: string): Promise<ThreadState | undefined> {
+        const cached = this.threads.get(threadId);
+        const accountId = this.settings?.accountId;
+        if (cached || !accountId) return cached;
+
+        try {
+            const [row] = await db.select({ metadata: channelThreads.metadata })
+                .from(channelThreads)
+                .where(and(
+                    eq(channelThreads.channelAccountId, accountId),
+                    eq(channelThreads.externalChatId, chatId),
+                    eq(channelThreads.externalThreadId, threadId)
+                ))
+                .limit(1);
+            const stored = row?.metadata?.email as ThreadState | undefined;
+            if (!stored || !Array.isArray(stored.references)) return undefined;
+            this.cacheThread(threadId, stored);
+            return stored;
+        } catch (error) {
+            console.warn(`[Email] Could not load thread ${threadId}:`, error);
+            return undefined;
+        }
+    }
+
+    private async rememberThread(chatId: string, threadId: string, state: ThreadState): Promise<void> {
+        const trimmed = { subject: state.subject, references: trimReferences(state.references) };
+        this.cacheThread(threadId, trimmed);
+
+        const accountId = this.settings?.accountId;
+        if (!accountId) return;
+        try {
+            await db.insert(channelThreads)
+                .values({
+                    channelAccountId: accountId,
+                    externalChatId: chatId,
+                    externalThreadId: threadId,
+                    metadata: { email: trimmed },
+                })
+                .onConflictDoUpdate({
+                    target: [channelThreads.channelAccountId, channelThreads.externalChatId, channelThreads.externalThreadId],
+                    set: {
+                        metadata: sql`COALESCE(${channelThreads.metadata}, '{}'::jsonb) || ${JSON.stringify({ email: trimmed })}::jsonb`,
+                        updatedAt: new Date(),
+                    },
+                });
+        } catch (error) {
+            console.warn(`[Email] Could not store thread ${threadId}:`, error);
+        }
+    }
+
+    private cacheThread(threadId: string, state: ThreadState): void {
+        this.threads.delete(threadId);
+        this.threads.set(threadId, state);
+        if (this.threads.size > MAX_TRACKED_THREADS) {
+            const oldest = this.threads.keys().next().value;
+            if (oldest) this.threads.delete(oldest);
+        }
+    }
+
+    // =========================================================================
+    // Attachments
+    // =========================================================================
+
+    /**
+     * Store inbound attachments in S3 and hand out presigned URLs; small
+     * files fall back to data: URLs when storage is unavailable
+     */
+    private async storeAttachments(parsed: ParsedMessage, messageId: string): Promise<ChannelAttachment[]> {
+        const attachments: ChannelAttachment[] = [];
+        const candidates = parsed.attachments
+            .filter(attachment => attachment.content.length > 0 && attachment.content.length <= MAX_ATTACHMENT_BYTES)
+            .slice(0, MAX_ATTACHMENTS);
+        if (candidates.length === 0) return attachments;
+
+        const folder = createHash('sha1').update(messageId).digest('hex');
+        const accountFolder = this.settings?.accountId ?? 'unassigned';
+
+        for (const [index, attachment] of candidates.entries()) {
+            const safeName = attachment.filename.replace(/[^a-zA-Z0-9.-]/g, '_');
+            let url: string | null = null;
+
+            try {
+                const { uploadFile, getDownloadUrl } = await import('@/lib/storage/s3');
+                const key = `channels/email/${accountFolder}/${folder}/${index}-${safeName}`;
+                await uploadFile(key, attachment.content, { contentType: attachment.contentType });
+                url = await getDownloadUrl(key, ATTACHMENT_URL_TTL_SECONDS);
+            } catch (error) {
+                console.warn('[Email] Attachment upload failed:', error);
+                if (attachment.content.length <= MAX_INLINE_ATTACHMENT_BYTES) {
+                    url = `data:${attachment.contentType};base64,${attachment.content.toString('base64')}`;
+                }
+            }
+
+            if (url) {
+                attachments.push({
+                    type: attachmentType(attachment.contentType),
+                    url,
+                    name: attachment.filename,
+                    size: attachment.content.length,
+                    mimeType: attachment.contentType,
+                });
+            }
+        }
+
+        return attachments;
+    }
+
+    private async loadAttachments(attachments?: ChannelAttachment[]): Promise<OutgoingAttachment[] | undefined> {
+        if (!attachments?.length) return undefined;
+
+        const loaded: OutgoingAttachment[] = [];
+        for (const attachment of attachments) {
+            try {
+                const response = await fetch(attachment.url);
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                loaded.push({
+                    filename: attachment.name,
+                    contentType: attachment.mimeType || response.headers.get('content-type') || 'application/octet-stream',
+                    content: Buffer.from(await response.arrayBuffer()),
+                });
+            } catch (error) {
+                console.warn(`[Email] Could not attach ${attachment.name}:`, error);
+            }
+        }
+        return loaded;
+    }
+}
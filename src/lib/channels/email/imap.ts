@@ -0,0 +1,277 @@
+/**
+ * Minimal IMAP4rev1 client
+ *
+ * Covers what the email channel needs to poll a mailbox: LOGIN, SELECT,
+ * UID SEARCH, UID FETCH and UID STORE over implicit TLS or STARTTLS.
+ * Plaintext logins are refused.
+ */
+
+import type { Socket } from 'net';
+
+export interface ImapOptions {
+    host: string;
+    port: number;
+    /** Implicit TLS (port 993); otherwise STARTTLS is required */
+    secure: boolean;
+    username: string;
+    password: string;
+    timeoutMs?: number;
+}
+
+export interface ImapResponse {
+    /** Response line with literals left as {n} markers */
+    text: string;
+    literals: Buffer[];
+}
+
+interface PendingCommand {
+    tag: string;
+    untagged: ImapResponse[];
+    resolve: (untagged: ImapResponse[]) => void;
+    reject: (error: Error) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+function quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Read one complete response (including any literals) from the buffer.
+ * While a literal is incomplete, returns the number of bytes it needs.
+ */
+export function readResponse(buffer: Buffer): { response: ImapResponse; consumed: number } | { needed: number } | null {
+    let position = 0;
+    let text = '';
+    const literals: Buffer[] = [];
+
+    for (;;) {
+        const lineEnd = buffer.indexOf('\r\n', position);
+        if (lineEnd < 0) return null;
+
+        const segment = buffer.toString('latin1', position, lineEnd);
+        const literal = segment.match(/\{(\d+)\+?\}$/);
+        text += segment;
+        if (!literal) {
+            return { response: { text, literals }, consumed: lineEnd + 2 };
+        }
+
+        const start = lineEnd + 2;
+        const length = parseInt(literal[1], 10);
+        if (buffer.length < start + length) return { needed: start + length };
+        literals.push(buffer.subarray(start, start + length));
+        position = start + length;
+    }
+}
+
+export class ImapClient {
+    private options: ImapOptions;
+    private socket: Socket | null = null;
+    private buffer: Buffer = Buffer.alloc(0);
+    private chunks: Buffer[] = [];
+    private bufferedLength: number = 0;
+    /** Bytes required before parsing is worth retrying (large literals) */
+    private neededLength: number = 0;
+    private tagCounter: number = 0;
+    private pending: PendingCommand | null = null;
+    private greeting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+    constructor(options: ImapOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Connect, upgrade to TLS if needed and log in
+     */
+    async connect(): Promise<void> {
+        const { host, port, secure } = this.options;
+        const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+        const greeted = new Promise<void>((resolve, reject) => {
+            this.greeting = { resolve, reject };
+        });
+
+        this.socket = secure
+            ? (await import('tls')).connect({ host, port, servername: host })
+            : (await import('net')).connect({ host, port });
+        this.attach(this.socket, timeoutMs);
+        await greeted;
+
+        if (!secure) {
+            await this.command('STARTTLS');
+            await this.upgradeToTls(timeoutMs);
+        }
+
+        await this.command(`LOGIN ${quote(this.options.username)} ${quote(this.options.password)}`);
+    }
+
+    /**
+     * Select a mailbox and return its UIDVALIDITY
+     */
+    async select(mailbox: string): Promise<string | undefined> {
+        const untagged = await this.command(`SELECT ${quote(mailbox)}`);
+        for (const response of untagged) {
+            const match = response.text.match(/\[UIDVALIDITY (\d+)\]/i);
+            if (match) return match[1];
+        }
+        return undefined;
+    }
+
+    /**
+     * UIDs matching an IMAP search query, e.g. "UNSEEN"
+     */
+    async search(criteria: string): Promise<number[]> {
+        const untagged = await this.command(`UID SEARCH ${criteria}`);
+        return untagged
+            .filter(response => /^\* SEARCH\b/i.test(response.text))
+            .flatMap(response => response.text.replace(/^\* SEARCH/i, '').trim().split(/\s+/))
+            .filter(Boolean)
+            .map(uid => parseInt(uid, 10))
+            .filter(uid => !isNaN(uid));
+    }
+
+    /**
+     * Fetch a full raw message without marking it as read
+     */
+    async fetchMessage(uid: number): Promise<Buffer | null> {
+        const untagged = await this.command(`UID FETCH ${uid} (UID BODY.PEEK[])`);
+        const response = untagged.find(item => /^\* \d+ FETCH\b/i.test(item.text) && item.literals.length > 0);
+        return response?.literals[0] ?? null;
+    }
+
+    async addFlags(uid: number, flags: string[]): Promise<void> {
+        await this.command(`UID STORE ${uid} +FLAGS.SILENT (${flags.join(' ')})`);
+    }
+
+    async logout(): Promise<void> {
+        if (!this.socket) return;
+        try {
+            await this.command('LOGOUT');
+        } catch {
+            // Server may close the connection before the tagged reply
+        }
+        this.close();
+    }
+
+    close(): void {
+        this.socket?.destroy();
+        this.socket = null;
+        this.failPending(new Error('IMAP connection closed'));
+    }
+
+    // =========================================================================
+    // Protocol plumbing
+    // =========================================================================
+
+    private attach(socket: Socket, timeoutMs: number): void {
+        socket.setTimeout(timeoutMs);
+        socket.on('data', (data: Buffer) => {
+            this.chunks.push(data);
+            this.bufferedLength += data.length;
+            if (this.bufferedLength >= this.neededLength) {
+                this.drain();
+            }
+        });
+        socket.on('timeout', () => {
+            this.failPending(new Error('IMAP connection timed out'));
+            socket.destroy();
+        });
+        socket.on('error', (error) => this.failPending(error));
+        socket.on('close', () => this.failPending(new Error('IMAP connection closed')));
+    }
+
+    private async upgradeToTls(timeoutMs: number): Promise<void> {
+        const plain = this.socket;
+        if (!plain) throw new Error('IMAP connection closed');
+        plain.removeAllListeners('data');
+        plain.removeAllListeners('timeout');
+        plain.removeAllListeners('error');
+        plain.removeAllListeners('close');
+
+        const { connect } = await import('tls');
+        const secured = connect({ socket: plain, servername: this.options.host });
+        await new Promise<void>((resolve, reject) => {
+            secured.once('secureConnect', resolve);
+            secured.once('error', reject);
+        });
+        this.socket = secured;
+        this.buffer = Buffer.alloc(0);
+        this.chunks = [];
+        this.bufferedLength = 0;
+        this.neededLength = 0;
+        this.attach(secured, timeoutMs);
+    }
+
+    private command(command: string): Promise<ImapResponse[]> {
+        const socket = this.socket;
+        if (!socket || socket.destroyed) {
+            return Promise.reject(new Error('IMAP connection closed'));
+        }
+        if (this.pending) {
+            return Promise.reject(new Error('IMAP command already in progress'));
+        }
+
+        const tag = `A${++this.tagCounter}`;
+        return new Promise<ImapResponse[]>((resolve, reject) => {
+            this.pending = { tag, untagged: [], resolve, reject };
+            socket.write(`${tag} ${command}\r\n`);
+        });
+    }
+
+    private drain(): void {
+        this.buffer = Buffer.concat([this.buffer, ...this.chunks]);
+        this.chunks = [];
+        this.neededLength = 0;
+
+        for (;;) {
+            const next = readResponse(this.buffer);
+            if (!next) break;
+            if ('needed' in next) {
+                this.neededLength = next.needed;
+                break;
+            }
+            this.buffer = this.buffer.subarray(next.consumed);
+            this.handleResponse(next.response);
+        }
+        this.bufferedLength = this.buffer.length;
+    }
+
+    private handleResponse(response: ImapResponse): void {
+        if (this.greeting) {
+            const greeting = this.greeting;
+            this.greeting = null;
+            if (/^\* (OK|PREAUTH)\b/i.test(response.text)) {
+                greeting.resolve();
+            } else {
+                greeting.reject(new Error(`IMAP server rejected connection: ${response.text}`));
+            }
+            return;
+        }
+
+        const pending = this.pending;
+        if (!pending) return;
+
+        if (response.text.startsWith(`${pending.tag} `)) {
+            this.pending = null;
+            const status = response.text.slice(pending.tag.length + 1);
+            if (/^OK\b/i.test(status)) {
+                pending.resolve(pending.untagged);
+            } else {
+                pending.reject(new Error(`IMAP error: ${status}`));
+            }
+            return;
+        }
+
+        if (response.text.startsWith('*')) {
+            pending.untagged.push(response);
+        }
+    }
+
+    private failPending(error: Error): void {
+        this.greeting?.reject(error);
+        this.greeting = null;
+        this.pending?.reject(error);
+        this.pending = null;
+    }
+}
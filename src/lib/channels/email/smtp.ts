@@ -0,0 +1,343 @@
+/**
+ * Minimal SMTP submission client and MIME message builder
+ *
+ * Sends over implicit TLS (port 465) or STARTTLS (port 587) with AUTH
+ * PLAIN or LOGIN. Plaintext submission is refused.
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { Socket } from 'net';
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    /** Implicit TLS (port 465); otherwise STARTTLS is required */
+    secure: boolean;
+    username: string;
+    password: string;
+    timeoutMs?: number;
+}
+
+export interface OutgoingAttachment {
+    filename: string;
+    contentType: string;
+    content: Buffer;
+}
+
+export interface OutgoingEmail {
+    from: string;
+    fromName?: string;
+    to: string[];
+    subject: string;
+    text: string;
+    messageId: string;
+    inReplyTo?: string;
+    references?: string[];
+    attachments?: OutgoingAttachment[];
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/** Dot-atom addr-spec: no quoted local parts, domain literals, whitespace or control characters */
+const ADDRESS_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)*$/;
+
+/**
+ * Whether an address is safe to write into SMTP commands and headers
+ */
+export function isValidAddress(address: string): boolean {
+    return address.length <= 254 && ADDRESS_PATTERN.test(address);
+}
+
+function checkAddress(address: string): string {
+    if (!isValidAddress(address)) {
+        throw new Error(`Invalid email address: ${JSON.stringify(address)}`);
+    }
+    return address;
+}
+
+// ============================================================================
+// MIME building
+// ============================================================================
+
+/**
+ * RFC 2047 encode a header value when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+    const clean = value.replace(/[\r\n]+/g, ' ');
+    if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+    return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function formatAddress(address: string, name?: string): string {
+    checkAddress(address);
+    if (!name) return `<${address}>`;
+    const encoded = encodeHeader(name);
+    return encoded === name ? `"${name.replace(/["\\]/g, '\\$&')}" <${address}>` : `${encoded} <${address}>`;
+}
+
+function base64Lines(content: Buffer): string {
+    return content.toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+function bracket(messageId: string): string {
+    const id = messageId.replace(/^<|>$/g, '');
+    if (!id || /[\s<>\x00-\x1f\x7f]/.test(id)) {
+        throw new Error(`Invalid Message-ID: ${JSON.stringify(messageId)}`);
+    }
+    return `<${id}>`;
+}
+
+/**
+ * Generate a Message-ID for mail sent from the given address
+ */
+export function createMessageId(fromAddress: string): string {
+    const domain = fromAddress.split('@')[1] || 'localhost';
+    return `${randomUUID()}@${domain}`;
+}
+
+/**
+ * Build a UTF-8 plain-text message, as multipart/mixed when it has attachments
+ */
+export function buildMimeMessage(email: OutgoingEmail): string {
+    const headers = [
+        `From: ${formatAddress(email.from, email.fromName)}`,
+        `To: ${email.to.map(address => formatAddress(address)).join(', ')}`,
+        `Subject: ${encodeHeader(email.subject)}`,
+        `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+        `Message-ID: ${bracket(email.messageId)}`,
+        'MIME-Version: 1.0',
+        // Lets other mail systems recognise the agent's replies as automatic
+        'Auto-Submitted: auto-replied',
+    ];
+    if (email.inReplyTo) {
+        headers.push(`In-Reply-To: ${bracket(email.inReplyTo)}`);
+    }
+    if (email.references?.length) {
+        headers.push(`References: ${email.references.map(bracket).join(' ')}`);
+    }
+
+    const textPart = [
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        base64Lines(Buffer.from(email.text.replace(/\r?\n/g, '\r\n'), 'utf8')),
+    ].join('\r\n');
+
+    if (!email.attachments?.length) {
+        return `${headers.join('\r\n')}\r\n${textPart}\r\n`;
+    }
+
+    const boundary = `----=_Part_${randomUUID()}`;
+    const parts = [textPart];
+    for (const attachment of email.attachments) {
+        const filename = encodeHeader(attachment.filename).replace(/"/g, '');
+        parts.push([
+            `Content-Type: ${attachment.contentType}; name="${filename}"`,
+            'Content-Transfer-Encoding: base64',
+            `Content-Disposition: attachment; filename="${filename}"`,
+            '',
+            base64Lines(attachment.content),
+        ].join('\r\n'));
+    }
+
+    return [
+        ...headers,
+        `Content-Type: multipart/mixed; boundary="${boundary}"`,
+        '',
+        ...parts.map(part => `--${boundary}\r\n${part}`),
+        `--${boundary}--`,
+        '',
+    ].join('\r\n');
+}
+
+// ============================================================================
+// SMTP client
+// ============================================================================
+
+/**
+ * Message as sent after DATA: CRLF line endings, lines starting with "."
+ * dot-stuffed, and the closing "." line (its CRLF is added on send)
+ */
+export function encodeData(message: string): string {
+    const body = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return `${body.endsWith('\r\n') ? body : `${body}\r\n`}.`;
+}
+
+export class SmtpClient {
+    private options: SmtpOptions;
+    private socket: Socket | null = null;
+    private buffer: string = '';
+    private replyLines: string[] = [];
+    private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private queuedReplies: SmtpReply[] = [];
+    private failure: Error | null = null;
+
+    constructor(options: SmtpOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Connect, upgrade to TLS if needed and authenticate
+     */
+    async connect(): Promise<void> {
+        const { host, port, secure } = this.options;
+        const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+        this.socket = secure
+            ? (await import('tls')).connect({ host, port, servername: host })
+            : (await import('net')).connect({ host, port });
+        this.attach(this.socket, timeoutMs);
+        await this.expect(220);
+
+        let capabilities = await this.ehlo();
+        if (!secure) {
+            if (!capabilities.some(line => /^STARTTLS\b/i.test(line))) {
+                throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials in plaintext');
+            }
+            await this.send('STARTTLS', 220);
+            await this.upgradeToTls(timeoutMs);
+            capabilities = await this.ehlo();
+        }
+
+        const auth = capabilities.find(line => /^AUTH\b/i.test(line))?.toUpperCase().split(/[\s=]+/) ?? [];
+        const { username, password } = this.options;
+        if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+            await this.send(`AUTH PLAIN ${Buffer.from(`\0${username}\0${password}`).toString('base64')}`, 235);
+        } else {
+            await this.send('AUTH LOGIN', 334);
+            await this.send(Buffer.from(username).toString('base64'), 334);
+            await this.send(Buffer.from(password).toString('base64'), 235);
+        }
+    }
+
+    /**
+     * Submit a message; the envelope sender and recipients are given separately
+     */
+    async sendMail(from: string, recipients: string[], message: string): Promise<void> {
+        // Checked before anything is written: a CR/LF in an address would start a new command
+        [from, ...recipients].forEach(checkAddress);
+        await this.send(`MAIL FROM:<${from}>`, 250);
+        for (const recipient of recipients) {
+            await this.send(`RCPT TO:<${recipient}>`, [250, 251]);
+        }
+        await this.send('DATA', 354);
+        await this.send(encodeData(message), 250);
+    }
+
+    async quit(): Promise<void> {
+        if (!this.socket) return;
+        try {
+            await this.send('QUIT', 221);
+        } catch {
+            // Connection may already be closing
+        }
+        this.close();
+    }
+
+    close(): void {
+        this.socket?.destroy();
+        this.socket = null;
+    }
+
+    // =========================================================================
+    // Protocol plumbing
+    // =========================================================================
+
+    private attach(socket: Socket, timeoutMs: number): void {
+        socket.setEncoding('utf8');
+        socket.setTimeout(timeoutMs);
+        socket.on('data', (data: string) => {
+            this.buffer += data;
+            const lines = this.buffer.split('\r\n');
+            this.buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                this.handleLine(line);
+            }
+        });
+        socket.on('timeout', () => {
+            this.fail(new Error('SMTP connection timed out'));
+            socket.destroy();
+        });
+        socket.on('error', (error) => this.fail(error));
+        socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    }
+
+    private async upgradeToTls(timeoutMs: number): Promise<void> {
+        const plain = this.socket;
+        if (!plain) throw new Error('SMTP connection closed');
+        plain.removeAllListeners('data');
+        plain.removeAllListeners('timeout');
+        plain.removeAllListeners('error');
+        plain.removeAllListeners('close');
+
+        const { connect } = await import('tls');
+        const secured = connect({ socket: plain, servername: this.options.host });
+        await new Promise<void>((resolve, reject) => {
+            secured.once('secureConnect', resolve);
+            secured.once('error', reject);
+        });
+        this.socket = secured;
+        this.buffer = '';
+        this.attach(secured, timeoutMs);
+    }
+
+    private async ehlo(): Promise<string[]> {
+        const reply = await this.send(`EHLO ${hostname() || 'localhost'}`, 250);
+        return reply.lines.slice(1);
+    }
+
+    private handleLine(line: string): void {
+        const match = line.match(/^(\d{3})([ -])(.*)$/);
+        if (!match) return;
+        this.replyLines.push(match[3]);
+        if (match[2] === '-') return;
+
+        const reply = { code: parseInt(match[1], 10), lines: this.replyLines };
+        this.replyLines = [];
+        if (this.waiter) {
+            const waiter = this.waiter;
+            this.waiter = null;
+            waiter.resolve(reply);
+        } else {
+            this.queuedReplies.push(reply);
+        }
+    }
+
+    private fail(error: Error): void {
+        this.failure = error;
+        this.waiter?.reject(error);
+        this.waiter = null;
+    }
+
+    private readReply(): Promise<SmtpReply> {
+        const queued = this.queuedReplies.shift();
+        if (queued) return Promise.resolve(queued);
+        if (this.failure) return Promise.reject(this.failure);
+        return new Promise((resolve, reject) => {
+            this.waiter = { resolve, reject };
+        });
+    }
+
+    private async expect(expected: number | number[]): Promise<SmtpReply> {
+        const reply = await this.readReply();
+        const codes = Array.isArray(expected) ? expected : [expected];
+        if (!codes.includes(reply.code)) {
+            throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+        }
+        return reply;
+    }
+
+    private async send(command: string, expected: number | number[]): Promise<SmtpReply> {
+        if (!this.socket || this.socket.destroyed) {
+            throw this.failure ?? new Error('SMTP connection closed');
+        }
+        this.socket.write(`${command}\r\n`);
+        return this.expect(expected);
+    }
+}
@@ -0,0 +1,207 @@
+/**
+ * Human Handoff
+ *
+ * Tracks who owns each channel thread:
+ * - ai:     the agent replies automatically
+ * - human:  an operator has taken over; the agent stays silent until the
+ *           operator hands back or the handoff times out
+ * - paused: nobody replies automatically until an operator resumes the AI
+ *
+ * Threads escalate to a human when the user asks for one or when the
+ * agent's reply signals that it is not confident.
+ */
+
+import { db } from '@/lib/db';
+import { channelThreads, notifications } from '@/lib/db/schema';
+import type { ChannelConfig } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import type { ChannelMessage } from './base';
+
+export type ThreadMode = 'ai' | 'human' | 'paused';
+export type HandoffReason = 'user_request' | 'low_confidence' | 'operator';
+export type ChannelThread = typeof channelThreads.$inferSelect;
+
+export const THREAD_MODES: ThreadMode[] = ['ai', 'human', 'paused'];
+export const DEFAULT_HANDOFF_TIMEOUT_MINUTES = 30;
+export const DEFAULT_HANDOFF_MESSAGE =
+    "I've asked a member of our team to take over this conversation. They'll reply here shortly.";
+
+const HUMAN_REQUEST_PATTERNS = [
+    /\b(talk|speak|chat)\s+(to|with)\s+(a|an|some|the)?\s*(real\s+|live\s+)?(human|person|agent|operator|representative|someone)\b/i,
+    /\b(real|live|actual)\s+(human|person|agent)\b/i,
+    /\bhuman\s+(agent|support|operator|please)\b/i,
+    /\b(customer\s+service|support)\s+(rep|representative|agent)\b/i,
+    /^\s*(human|agent|operator|representative)\s*[.!?]*\s*$/i,
+];
+
+const LOW_CONFIDENCE_PATTERNS = [
+    /\bI(?:'m| am) not (?:sure|certain|able to (?:help|answer))\b/i,
+    /\bI don'?t (?:know|have (?:enough )?information)\b/i,
+    /\bI(?:'m| am) unable to (?:help|assist|answer)\b/i,
+    /\bI can(?:'t|not) (?:help|assist) (?:you )?with (?:that|this)\b/i,
+    /\b(?:please )?(?:contact|reach out to) (?:a member of )?(?:our|the) (?:support|team|staff)\b/i,
+    /\bI(?:'d| would) recommend (?:speaking|talking) (?:to|with) (?:a|an) (?:human|person|agent)\b/i,
+];
+
+/**
+ * Does the user's message ask for a human?
+ */
+export function isHumanRequest(content: string): boolean {
+    return HUMAN_REQUEST_PATTERNS.some(pattern => pattern.test(content));
+}
+
+/**
+ * Does the agent's reply admit it cannot answer?
+ */
+export function isLowConfidenceResponse(response: string): boolean {
+    return LOW_CONFIDENCE_PATTERNS.some(pattern => pattern.test(response));
+}
+
+function handoffTimeoutMs(config: ChannelConfig): number {
+    const minutes = config.handoffTimeoutMinutes ?? DEFAULT_HANDOFF_TIMEOUT_MINUTES;
+    return Math.max(minutes, 1) * 60 * 1000;
+}
+
+/**
+ * Find or create the thread for a message's chat and thread
+ */
+export async function upsertThreadForMessage(
+    channelAccountId: string,
+    message: Pick<ChannelMessage, 'channelId' | 'threadId' | 'sender'>,
+    options: { inbound?: boolean } = {}
+): Promise<ChannelThread> {
+    const now = new Date();
+    const [thread] = await db.insert(channelThreads)
+        .values({
+            channelAccountId,
+            externalChatId: message.channelId,
+            externalThreadId: message.threadId ?? '',
+            senderExternalId: message.sender.id || null,
+            senderDisplayName: message.sender.name || null,
+            lastInboundAt: options.inbound ? now : null,
+        })
+        .onConflictDoUpdate({
+            target: [channelThreads.channelAccountId, channelThreads.externalChatId, channelThreads.externalThreadId],
+            set: options.inbound
+                ? {
+                    ...(message.sender.id && { senderExternalId: message.sender.id }),
+                    ...(message.sender.name && { senderDisplayName: message.sender.name }),
+                    lastInboundAt: now,
+                    updatedAt: now,
+                }
+                : { updatedAt: now },
+        })
+        .returning();
+    return thread;
+}
+
+/**
+ * Find an existing thread without creating one
+ */
+export async function findThread(
+    channelAccountId: string,
+    externalChatId: string,
+    externalThreadId?: string
+): Promise<ChannelThread | undefined> {
+    const [thread] = await db.select()
+        .from(channelThreads)
+        .where(and(
+            eq(channelThreads.channelAccountId, channelAccountId),
+            eq(channelThreads.externalChatId, externalChatId),
+            eq(channelThreads.externalThreadId, externalThreadId ?? '')
+        ))
+        .limit(1);
+    return thread;
+}
+
+/**
+ * Current mode of a thread, handing human threads back to the AI once
+ * their timeout has passed
+ */
+export async function resolveThreadMode(thread: ChannelThread): Promise<ThreadMode> {
+    if (thread.mode === 'human' && thread.resumeAiAt && thread.resumeAiAt.getTime() <= Date.now()) {
+        await db.update(channelThreads)
+            .set({ mode: 'ai', handoffReason: null, resumeAiAt: null, updatedAt: new Date() })
+            .where(eq(channelThreads.id, thread.id));
+        console.log(`[Handoff] Thread ${thread.id} returned to AI after timeout`);
+        return 'ai';
+    }
+    return thread.mode as ThreadMode;
+}
+
+/**
+ * Change a thread's mode. Human mode gets a timeout after which the AI
+ * takes over again; operator activity pushes it back.
+ */
+export async function setThreadMode(
+    threadId: string,
+    mode: ThreadMode,
+    config: ChannelConfig,
+    options: { reason?: HandoffReason; assignedUserId?: string | null } = {}
+): Promise<ChannelThread> {
+    const [thread] = await db.update(channelThreads)
+        .set({
+            mode,
+            handoffReason: mode === 'ai' ? null : (options.reason ?? 'operator'),
+            resumeAiAt: mode === 'human' ? new Date(Date.now() + handoffTimeoutMs(config)) : null,
+            ...(options.assignedUserId !== undefined && { assignedUserId: options.assignedUserId }),
+            updatedAt: new Date(),
+        })
+        .where(eq(channelThreads.id, threadId))
+        .returning();
+    return thread;
+}
+
+/**
+ * Record an operator reply: the thread stays with the human and the
+ * return-to-AI timer restarts
+ */
+export async function recordOperatorReply(
+    thread: ChannelThread,
+    operatorUserId: string,
+    config: ChannelConfig
+): Promise<void> {
+    const now = new Date();
+    await db.update(channelThreads)
+        .set({
+            mode: 'human',
+            handoffReason: thread.mode === 'human' ? thread.handoffReason : 'operator',
+            assignedUserId: operatorUserId,
+            lastOperatorReplyAt: now,
+            resumeAiAt: new Date(now.getTime() + handoffTimeoutMs(config)),
+            updatedAt: now,
+        })
+        .where(eq(channelThreads.id, thread.id));
+}
+
+/**
+ * Hand a thread to a human and notify the account owner
+ */
+export async function escalateThread(
+    userId: string,
+    thread: ChannelThread,
+    reason: Exclude<HandoffReason, 'operator'>,
+    config: ChannelConfig,
+    message: ChannelMessage
+): Promise<void> {
+    await setThreadMode(thread.id, 'human', config, { reason });
+
+    const who = message.sender.name || message.sender.id || 'A user';
+    await db.insert(notifications).values({
+        userId,
+        type: 'alert',
+        title: reason === 'user_request'
+            ? `${who} asked for a human on ${message.channelType}`
+            : `The agent needs help with ${who} on ${message.channelType}`,
+        body: message.content.slice(0, 280),
+        link: `/inbox?thread=${thread.id}`,
+        icon: 'UserRound',
+        metadata: {
+            channelThreadId: thread.id,
+            channelType: message.channelType,
+            reason,
+        },
+    });
+
+    console.log(`[Handoff] Thread ${thread.id} escalated to human (${reason})`);
+}
@@ -0,0 +1,658 @@
+/**
+ * Contact Identities
+ *
+ * Ties one person's sender IDs across channels (and their email addresses)
+ * together, optionally linked to a CRM contact. Every sender gets an
+ * identity on first contact; identities are merged manually or by accepting
+ * a suggested match. Threads point at their sender's identity so history,
+ * CRM interactions and the agent's context follow the person.
+ */
+
+import { db } from '@/lib/db';
+import {
+    channelAccounts,
+    channelThreads,
+    contactIdentities,
+    contactIdentityLinks,
+    crmContacts,
+    crmInteractions,
+    messages,
+} from '@/lib/db/schema';
+import { eq, and, ne, gt, desc, inArray, isNotNull, sql } from 'drizzle-orm';
+import type { ChannelMessage } from './base';
+import type { ChannelThread } from './handoff';
+
+export type ContactIdentity = typeof contactIdentities.$inferSelect;
+export type ContactIdentityLink = typeof contactIdentityLinks.$inferSelect;
+export type LinkSource = 'auto' | 'manual' | 'suggestion';
+
+export interface IdentityCrmContact {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    company: string | null;
+    role: string | null;
+    tags: string[] | null;
+    notes: string | null;
+}
+
+export interface IdentityWithLinks extends ContactIdentity {
+    links: ContactIdentityLink[];
+    crmContact: IdentityCrmContact | null;
+}
+
+export interface IdentitySuggestion {
+    identityId: string;
+    /** Another identity that looks like the same person */
+    candidateIdentityId?: string;
+    /** A CRM contact the identity could be linked to */
+    crmContactId?: string;
+    reason: 'phone' | 'email' | 'name' | 'crm_external_id';
+    /** The shared value that produced the match */
+    value: string;
+}
+
+export interface CrossChannelMessage {
+    role: string;
+    content: string;
+    channelType: string;
+    createdAt: Date;
+}
+
+/** Chat interactions closer together than this are logged to the CRM once */
+const INTERACTION_WINDOW_MS = 30 * 60 * 1000;
+const SUGGESTION_SCAN_LIMIT = 500;
+/** Channels whose sender IDs are phone numbers */
+const PHONE_CHANNELS = new Set(['whatsapp', 'signal', 'sms']);
+
+const crmContactColumns = {
+    id: crmContacts.id,
+    name: crmContacts.name,
+    email: crmContacts.email,
+    phone: crmContacts.phone,
+    company: crmContacts.company,
+    role: crmContacts.role,
+    tags: crmContacts.tags,
+    notes: crmContacts.notes,
+};
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Canonical form of a sender ID for storage and comparison
+ */
+export function normalizeExternalId(channelType: string, externalId: string): string {
+    const trimmed = externalId.trim();
+    return channelType === 'email' ? trimmed.toLowerCase() : trimmed;
+}
+
+/**
+ * Digits of a phone-number-like ID (WhatsApp JIDs, Signal/SMS numbers), or null
+ */
+export function phoneDigits(value: string | null | undefined): string | null {
+    if (!value) return null;
+    const candidate = value.split('@')[0];
+    if (!/^\+?[\d\s\-().]{7,}$/.test(candidate)) return null;
+    const digits = candidate.replace(/\D/g, '');
+    return digits.length >= 7 ? digits : null;
+}
+
+/**
+ * Phone number of a sender ID; numeric IDs on other channels (e.g. Telegram
+ * user IDs) are not phone numbers
+ */
+function senderPhone(channelType: string, externalId: string): string | null {
+    return PHONE_CHANNELS.has(channelType) || externalId.startsWith('+') ? phoneDigits(externalId) : null;
+}
+
+function emailAddress(value: string | null | undefined): string | null {
+    if (!value) return null;
+    const trimmed = value.trim().toLowerCase();
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Full names only: single first names match too many unrelated people
+ */
+function nameKey(value: string | null | undefined): string | null {
+    if (!value) return null;
+    const normalized = value.trim().toLowerCase().replace(/\s+/g, ' ');
+    return normalized.split(' ').length >= 2 && normalized.length >= 5 ? normalized : null;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Identity for a channel sender, creating one (and linking a confidently
+ * matching CRM contact) on first contact
+ */
+export async function resolveIdentity(
+    userId: string,
+    channelType: string,
+    sender: ChannelMessage['sender']
+): Promise<ContactIdentity | null> {
+    if (!sender.id || sender.id === 'unknown') return null;
+    const externalId = normalizeExternalId(channelType, sender.id);
+
+    const existing = await findIdentityByLink(userId, channelType, externalId);
+    if (existing) return existing;
+
+    const crmContactId = await findCrmMatch(userId, channelType, externalId);
+
+    // A CRM contact already tied to an identity pulls this sender into it
+    let [identity] = crmContactId
+        ? await db.select()
+            .from(contactIdentities)
+            .where(and(eq(contactIdentities.userId, userId), eq(contactIdentities.crmContactId, crmContactId)))
+            .limit(1)
+        : [];
+
+    if (!identity) {
+        [identity] = await db.insert(contactIdentities)
+            .values({ userId, displayName: sender.name || null, crmContactId })
+            .returning();
+    }
+
+    const [link] = await db.insert(contactIdentityLinks)
+        .values({
+            identityId: identity.id,
+            userId,
+            channelType,
+            externalId,
+            displayName: sender.name || null,
+            source: 'auto',
+        })
+        .onConflictDoNothing()
+        .returning();
+
+    if (!link) {
+        // Another message from the same sender created the link first
+        await deleteIfEmpty(identity.id);
+        return findIdentityByLink(userId, channelType, externalId);
+    }
+
+    return identity;
+}
+
+/**
+ * Resolve the thread sender's identity and remember it on the thread
+ */
+export async function resolveThreadIdentity(
+    userId: string,
+    channelType: string,
+    thread: ChannelThread,
+    sender: ChannelMessage['sender']
+): Promise<ContactIdentity | null> {
+    const identity = await resolveIdentity(userId, channelType, sender);
+    if (identity && thread.contactIdentityId !== identity.id) {
+        await db.update(channelThreads)
+            .set({ contactIdentityId: identity.id })
+            .where(eq(channelThreads.id, thread.id));
+    }
+    return identity;
+}
+
+async function findIdentityByLink(
+    userId: string,
+    channelType: string,
+    externalId: string
+): Promise<ContactIdentity | null> {
+    const [row] = await db.select({ identity: contactIdentities })
+        .from(contactIdentityLinks)
+        .innerJoin(contactIdentities, eq(contactIdentityLinks.identityId, contactIdentities.id))
+        .where(and(
+            eq(contactIdentityLinks.userId, userId),
+            eq(contactIdentityLinks.channelType, channelType),
+            eq(contactIdentityLinks.externalId, externalId)
+        ))
+        .limit(1);
+    return row?.identity ?? null;
+}
+
+/**
+ * CRM contact that unambiguously owns this sender ID
+ */
+async function findCrmMatch(userId: string, channelType: string, externalId: string): Promise<string | null> {
+    const email = emailAddress(externalId);
+    const digits = senderPhone(channelType, externalId);
+
+    const [contact] = await db.select({ id: crmContacts.id })
+        .from(crmContacts)
+        .where(and(
+            eq(crmContacts.userId, userId),
+            sql`${crmContacts.mergedIntoId} IS NULL`,
+            sql`(
+                ${crmContacts.externalIds} ->> ${channelType} = ${externalId}
+                ${email ? sql`OR lower(${crmContacts.email}) = ${email}` : sql``}
+                ${digits ? sql`OR regexp_replace(coalesce(${crmContacts.phone}, ''), '\\D', '', 'g') = ${digits}` : sql``}
+            )`
+        ))
+        .limit(1);
+
+    return contact?.id ?? null;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Identities with their links and CRM contact, most recently updated first
+ */
+export async function listIdentities(
+    userId: string,
+    options: { ids?: string[]; limit?: number } = {}
+): Promise<IdentityWithLinks[]> {
+    if (options.ids && options.ids.length === 0) return [];
+
+    const rows = await db.select({ identity: contactIdentities, crmContact: crmContactColumns })
+        .from(contactIdentities)
+        .leftJoin(crmContacts, eq(contactIdentities.crmContactId, crmContacts.id))
+        .where(and(
+            eq(contactIdentities.userId, userId),
+            options.ids ? inArray(contactIdentities.id, options.ids) : undefined
+        ))
+        .orderBy(desc(contactIdentities.updatedAt))
+        .limit(options.limit ?? 100);
+
+    if (rows.length === 0) return [];
+
+    const links = await db.select()
+        .from(contactIdentityLinks)
+        .where(inArray(contactIdentityLinks.identityId, rows.map(r => r.identity.id)))
+        .orderBy(contactIdentityLinks.createdAt);
+
+    return rows.map(({ identity, crmContact }) => ({
+        ...identity,
+        links: links.filter(link => link.identityId === identity.id),
+        crmContact: crmContact?.id ? crmContact : null,
+    }));
+}
+
+export async function getIdentity(userId: string, identityId: string): Promise<IdentityWithLinks | null> {
+    const [identity] = await listIdentities(userId, { ids: [identityId], limit: 1 });
+    return identity ?? null;
+}
+
+/**
+ * Identities keyed by "channelType:externalId" for the given senders
+ */
+export async function getIdentitiesForSenders(
+    userId: string,
+    channelType: string,
+    externalIds: string[]
+): Promise<Map<string, IdentityWithLinks>> {
+    const normalized = externalIds.map(id => normalizeExternalId(channelType, id)).filter(Boolean);
+    if (normalized.length === 0) return new Map();
+
+    const links = await db.select({ identityId: contactIdentityLinks.identityId, externalId: contactIdentityLinks.externalId })
+        .from(contactIdentityLinks)
+        .where(and(
+            eq(contactIdentityLinks.userId, userId),
+            eq(contactIdentityLinks.channelType, channelType),
+            inArray(contactIdentityLinks.externalId, normalized)
+        ));
+
+    const identities = await listIdentities(userId, {
+        ids: [...new Set(links.map(l => l.identityId))],
+        limit: links.length,
+    });
+    const byId = new Map(identities.map(identity => [identity.id, identity]));
+
+    const result = new Map<string, IdentityWithLinks>();
+    for (const link of links) {
+        const identity = byId.get(link.identityId);
+        if (identity) result.set(`${channelType}:${link.externalId}`, identity);
+    }
+    return result;
+}
+
+/**
+ * Recent messages with this person on threads other than the current one
+ */
+export async function getCrossChannelHistory(
+    identityId: string,
+    options: { excludeThreadId?: string; limit?: number } = {}
+): Promise<CrossChannelMessage[]> {
+    const rows = await db.select({
+        role: messages.role,
+        content: messages.content,
+        channelType: channelAccounts.channelType,
+        createdAt: messages.createdAt,
+    })
+        .from(channelThreads)
+        .innerJoin(messages, eq(messages.conversationId, channelThreads.conversationId))
+        .innerJoin(channelAccounts, eq(channelThreads.channelAccountId, channelAccounts.id))
+        .where(and(
+            eq(channelThreads.contactIdentityId, identityId),
+            isNotNull(channelThreads.conversationId),
+            options.excludeThreadId ? ne(channelThreads.id, options.excludeThreadId) : undefined
+        ))
+        .orderBy(desc(messages.createdAt))
+        .limit(options.limit ?? 10);
+
+    return rows.reverse().map(row => ({ ...row, content: row.content || '' }));
+}
+
+/**
+ * Prompt section describing who the agent is talking to
+ */
+export function formatContactContext(identity: IdentityWithLinks, history: CrossChannelMessage[]): string {
+    const lines: string[] = [];
+    const name = identity.crmContact?.name || identity.displayName;
+    if (name) lines.push(`Name: ${name}`);
+
+    const channels = [...new Set(identity.links.map(link => link.channelType))];
+    if (channels.length > 1) lines.push(`Also reachable on: ${channels.join(', ')}`);
+
+    const crm = identity.crmContact;
+    if (crm) {
+        if (crm.company) lines.push(`Company: ${crm.company}${crm.role ? ` (${crm.role})` : ''}`);
+        if (crm.tags?.length) lines.push(`Tags: ${crm.tags.join(', ')}`);
+        if (crm.notes) lines.push(`Notes: ${crm.notes.slice(0, 500)}`);
+    }
+
+    if (history.length > 0) {
+        lines.push('', 'Recent messages on other channels:');
+        for (const entry of history) {
+            const who = entry.role === 'user' ? 'Them' : 'You';
+            lines.push(`[${entry.channelType} ${entry.createdAt.toISOString().slice(0, 16)}] ${who}: ${entry.content.slice(0, 300)}`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+// ============================================================================
+// CRM
+// ============================================================================
+
+/**
+ * Log a chat with the identity's CRM contact, once per burst of messages
+ */
+export async function recordContactInteraction(
+    userId: string,
+    identity: ContactIdentity,
+    message: ChannelMessage
+): Promise<void> {
+    if (!identity.crmContactId) return;
+
+    const [recent] = await db.select({ id: crmInteractions.id })
+        .from(crmInteractions)
+        .where(and(
+            eq(crmInteractions.contactId, identity.crmContactId),
+            eq(crmInteractions.type, 'chat'),
+            eq(crmInteractions.channel, message.channelType),
+            gt(crmInteractions.occurredAt, new Date(message.timestamp.getTime() - INTERACTION_WINDOW_MS))
+        ))
+        .limit(1);
+
+    if (recent) {
+        await db.update(crmContacts)
+            .set({ lastContactAt: message.timestamp })
+            .where(eq(crmContacts.id, identity.crmContactId));
+        return;
+    }
+
+    const { logInteraction } = await import('@/lib/crm');
+    await logInteraction(userId, {
+        contactId: identity.crmContactId,
+        type: 'chat',
+        channel: message.channelType,
+        summary: message.content.slice(0, 500),
+        externalId: message.id,
+        occurredAt: message.timestamp,
+        metadata: { contactIdentityId: identity.id, channelId: message.channelId },
+    });
+}
+
+// ============================================================================
+// Linking
+// ============================================================================
+
+/**
+ * Rename an identity or link / unlink its CRM contact
+ */
+export async function updateIdentity(
+    userId: string,
+    identityId: string,
+    updates: { displayName?: string | null; crmContactId?: string | null }
+): Promise<ContactIdentity | null> {
+    if (updates.crmContactId) {
+        const [contact] = await db.select({ id: crmContacts.id })
+            .from(crmContacts)
+            .where(and(eq(crmContacts.id, updates.crmContactId), eq(crmContacts.userId, userId)))
+            .limit(1);
+        if (!contact) throw new Error('CRM contact not found');
+    }
+
+    const [identity] = await db.update(contactIdentities)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(contactIdentities.id, identityId), eq(contactIdentities.userId, userId)))
+        .returning();
+    return identity ?? null;
+}
+
+/**
+ * Attach a sender ID or email address to an identity, taking it from
+ * whichever identity held it before
+ */
+export async function addIdentityLink(
+    userId: string,
+    identityId: string,
+    link: { channelType: string; externalId: string; displayName?: string },
+    source: LinkSource = 'manual'
+): Promise<ContactIdentityLink> {
+    const externalId = normalizeExternalId(link.channelType, link.externalId);
+    const [previous] = await db.select()
+        .from(contactIdentityLinks)
+        .where(and(
+            eq(contactIdentityLinks.userId, userId),
+            eq(contactIdentityLinks.channelType, link.channelType),
+            eq(contactIdentityLinks.externalId, externalId)
+        ))
+        .limit(1);
+
+    if (previous?.identityId === identityId) return previous;
+
+    const [saved] = await db.insert(contactIdentityLinks)
+        .values({
+            identityId,
+            userId,
+            channelType: link.channelType,
+            externalId,
+            displayName: link.displayName ?? previous?.displayName ?? null,
+            source,
+        })
+        .onConflictDoUpdate({
+            target: [contactIdentityLinks.userId, contactIdentityLinks.channelType, contactIdentityLinks.externalId],
+            set: { identityId, source },
+        })
+        .returning();
+
+    if (previous) {
+        await moveThreads(previous.identityId, identityId, link.channelType, externalId);
+        await deleteIfEmpty(previous.identityId);
+    }
+    await touch(identityId);
+    return saved;
+}
+
+/**
+ * Split a link off into its own identity
+ */
+export async function removeIdentityLink(userId: string, identityId: string, linkId: string): Promise<boolean> {
+    const [link] = await db.select()
+        .from(contactIdentityLinks)
+        .where(and(
+            eq(contactIdentityLinks.id, linkId),
+            eq(contactIdentityLinks.identityId, identityId),
+            eq(contactIdentityLinks.userId, userId)
+        ))
+        .limit(1);
+    if (!link) return false;
+
+    const [detached] = await db.insert(contactIdentities)
+        .values({ userId, displayName: link.displayName })
+        .returning();
+    await db.update(contactIdentityLinks)
+        .set({ identityId: detached.id, source: 'manual' })
+        .where(eq(contactIdentityLinks.id, link.id));
+    await moveThreads(identityId, detached.id, link.channelType, link.externalId);
+    await deleteIfEmpty(identityId);
+    return true;
+}
+
+/**
+ * Fold one identity into another: links, threads and (if the target has
+ * none) the CRM contact move over and the source is deleted
+ */
+export async function mergeIdentities(
+    userId: string,
+    targetId: string,
+    sourceId: string,
+    source: LinkSource = 'manual'
+): Promise<IdentityWithLinks | null> {
+    if (targetId === sourceId) return getIdentity(userId, targetId);
+
+    const [target, merged] = await Promise.all([getIdentity(userId, targetId), getIdentity(userId, sourceId)]);
+    if (!target || !merged) return null;
+
+    await db.update(contactIdentityLinks)
+        .set({ identityId: target.id, source })
+        .where(eq(contactIdentityLinks.identityId, merged.id));
+    await db.update(channelThreads)
+        .set({ contactIdentityId: target.id })
+        .where(eq(channelThreads.contactIdentityId, merged.id));
+    await db.update(contactIdentities)
+        .set({
+            displayName: target.displayName || merged.displayName,
+            crmContactId: target.crmContactId || merged.crmContactId,
+            updatedAt: new Date(),
+        })
+        .where(eq(contactIdentities.id, target.id));
+    await db.delete(contactIdentities).where(eq(contactIdentities.id, merged.id));
+
+    console.log(`[Identity] Merged identity ${merged.id} into ${target.id}`);
+    return getIdentity(userId, target.id);
+}
+
+/**
+ * Likely duplicates among identities, and CRM contacts for unlinked ones,
+ * based on shared phone numbers, email addresses or full names
+ */
+export async function suggestIdentityMatches(userId: string, identityId?: string): Promise<IdentitySuggestion[]> {
+    const identities = await listIdentities(userId, { limit: SUGGESTION_SCAN_LIMIT });
+    const contacts = await db.select({ ...crmContactColumns, externalIds: crmContacts.externalIds })
+        .from(crmContacts)
+        .where(and(eq(crmContacts.userId, userId), sql`${crmContacts.mergedIntoId} IS NULL`));
+
+    const keysFor = (identity: IdentityWithLinks) => {
+        const keys = new Map<string, IdentitySuggestion['reason']>();
+        const add = (reason: IdentitySuggestion['reason'], value: string | null) => {
+            if (value) keys.set(`${reason}:${value}`, reason);
+        };
+        for (const link of identity.links) {
+            add('phone', senderPhone(link.channelType, link.externalId));
+            add('email', emailAddress(link.externalId));
+            add('name', nameKey(link.displayName));
+        }
+        add('name', nameKey(identity.displayName));
+        add('phone', phoneDigits(identity.crmContact?.phone));
+        add('email', emailAddress(identity.crmContact?.email));
+        return keys;
+    };
+
+    const owners = new Map<string, string[]>();
+    const identityKeys = new Map<string, Map<string, IdentitySuggestion['reason']>>();
+    for (const identity of identities) {
+        const keys = keysFor(identity);
+        identityKeys.set(identity.id, keys);
+        for (const key of keys.keys()) {
+            owners.set(key, [...(owners.get(key) ?? []), identity.id]);
+        }
+    }
+
+    const suggestions: IdentitySuggestion[] = [];
+    const seen = new Set<string>();
+    for (const identity of identities) {
+        if (identityId && identity.id !== identityId) continue;
+        const keys = identityKeys.get(identity.id)!;
+
+        for (const [key, reason] of keys) {
+            for (const candidateId of owners.get(key) ?? []) {
+                const pair = [identity.id, candidateId].sort().join(':');
+                if (candidateId === identity.id || seen.has(pair)) continue;
+                seen.add(pair);
+                suggestions.push({ identityId: identity.id, candidateIdentityId: candidateId, reason, value: key.slice(reason.length + 1) });
+            }
+        }
+
+        if (identity.crmContactId) continue;
+        for (const contact of contacts) {
+            const match = matchCrmContact(identity, keys, contact);
+            if (match) suggestions.push({ identityId: identity.id, crmContactId: contact.id, ...match });
+        }
+    }
+
+    return suggestions;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function matchCrmContact(
+    identity: IdentityWithLinks,
+    keys: Map<string, IdentitySuggestion['reason']>,
+    contact: IdentityCrmContact & { externalIds: Record<string, string> | null }
+): Pick<IdentitySuggestion, 'reason' | 'value'> | null {
+    const externalLink = identity.links.find(link => contact.externalIds?.[link.channelType] === link.externalId);
+    if (externalLink) return { reason: 'crm_external_id', value: externalLink.externalId };
+
+    const email = emailAddress(contact.email);
+    if (email && keys.has(`email:${email}`)) return { reason: 'email', value: email };
+    const digits = phoneDigits(contact.phone);
+    if (digits && keys.has(`phone:${digits}`)) return { reason: 'phone', value: digits };
+    const name = nameKey(contact.name);
+    if (name && keys.has(`name:${name}`)) return { reason: 'name', value: name };
+    return null;
+}
+
+/**
+ * Repoint the threads of one sender from one identity to another
+ */
+async function moveThreads(fromId: string, toId: string, channelType: string, externalId: string): Promise<void> {
+    await db.update(channelThreads)
+        .set({ contactIdentityId: toId })
+        .where(and(
+            eq(channelThreads.contactIdentityId, fromId),
+            channelType === 'email'
+                ? sql`lower(${channelThreads.senderExternalId}) = ${externalId}`
+                : eq(channelThreads.senderExternalId, externalId),
+            sql`${channelThreads.channelAccountId} IN (
+                SELECT ${channelAccounts.id} FROM ${channelAccounts} WHERE ${channelAccounts.channelType} = ${channelType}
+            )`
+        ));
+}
+
+async function deleteIfEmpty(identityId: string): Promise<void> {
+    const [remaining] = await db.select({ id: contactIdentityLinks.id })
+        .from(contactIdentityLinks)
+        .where(eq(contactIdentityLinks.identityId, identityId))
+        .limit(1);
+    if (!remaining) {
+        await db.delete(contactIdentities).where(eq(contactIdentities.id, identityId));
+    }
+}
+
+async function touch(identityId: string): Promise<void> {
+    await db.update(contactIdentities)
+        .set({ updatedAt: new Date() })
+        .where(eq(contactIdentities.id, identityId));
+}
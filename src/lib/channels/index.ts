@@ -10,12 +10,30 @@ export * from './base';
 // Manager
 export * from './manager';
 
+// Outbound queue (rate limits, retries, dead letters, receipts)
+export * from './outbound';
+
 // Processor
 export * from './processor';
 
 // Commands (slash commands for channels)
 export * from './commands';
 
+// Human handoff (per-thread AI/human/paused modes)
+export * from './handoff';
+
+// Cross-channel contact identities
+export * from './identity';
+
+// Broadcasts to CRM contact segments
+export * from './broadcast';
+
+// Rich interactive messages (buttons, menus, cards, polls)
+export * from './rich';
+
+// Streaming replies via message edits
+export * from './streaming';
+
 // Background Service
 export * from './background-service';
 
@@ -27,6 +45,9 @@ export { DiscordConnector } from './discord/connector';
 export { WhatsAppConnector } from './whatsapp/connector';
 export { SignalConnector } from './signal/connector';
 export { TeamsConnector } from './teams/connector';
+export { MatrixConnector } from './matrix/connector';
+export { IrcConnector } from './irc/connector';
+export { EmailConnector } from './email/connector';
 
 // Register connectors with the manager
 import { registerConnector } from './manager';
@@ -37,6 +58,9 @@ import { DiscordConnector } from './discord/connector';
 import { WhatsAppConnector } from './whatsapp/connector';
 import { SignalConnector } from './signal/connector';
 import { TeamsConnector } from './teams/connector';
+import { MatrixConnector } from './matrix/connector';
+import { IrcConnector } from './irc/connector';
+import { EmailConnector } from './email/connector';
 import { startScheduledTaskRunner } from '@/lib/scheduler';
 import { maybeStartChannelsOnBoot } from '@/lib/admin/settings';
 
@@ -60,8 +84,11 @@ export function registerAllConnectors(): void {
     registerConnector('whatsapp', () => new WhatsAppConnector());
     registerConnector('signal', () => new SignalConnector());
     registerConnector('teams', () => new TeamsConnector());
+    registerConnector('matrix', () => new MatrixConnector());
+    registerConnector('irc', () => new IrcConnector());
+    registerConnector('email', () => new EmailConnector());
 
-    console.log('[Channels] Registered all channel connectors (7 channels)');
+    console.log('[Channels] Registered all channel connectors (10 channels)');
 }
 
 // Auto-register on import (but only on server-side)
@@ -0,0 +1,575 @@
+/**
+ * IRC Channel Connector
+ *
+ * Speaks the IRC client protocol directly over TCP/TLS. Supports IRCv3
+ * capability negotiation (SASL PLAIN, message-tags, server-time), NickServ
+ * identification, automatic reconnects and flood-limited sending.
+ *
+ * IRC has no message IDs, edits or deletes; IDs come from the IRCv3 msgid
+ * tag when the server provides it and are generated locally otherwise.
+ */
+
+import type { Socket } from 'net';
+import {
+    ChannelConnector,
+    ChannelMessage,
+    ChannelConfig,
+    SendMessageOptions,
+    ChannelSetupResult,
+} from '../base';
+
+interface IrcLine {
+    tags: Record<string, string>;
+    prefix?: string;
+    command: string;
+    params: string[];
+}
+
+type IrcAuthMethod = 'none' | 'sasl' | 'nickserv' | 'server';
+
+interface IrcSettings {
+    server: string;
+    port: number;
+    tls: boolean;
+    nickname: string;
+    username: string;
+    realname: string;
+    channels: string[];
+    authMethod: IrcAuthMethod;
+    mentionsOnly: boolean;
+}
+
+export interface IrcSetupInput {
+    server: string;
+    port?: number;
+    tls?: boolean;
+    nickname: string;
+    /** Comma-separated channel list, e.g. "#eng,#ops" */
+    channels: string;
+    password?: string;
+    authMethod?: IrcAuthMethod;
+    mentionsOnly?: boolean;
+}
+
+/** Bytes available for message text in a PRIVMSG after prefix and command */
+const MAX_LINE_BYTES = 400;
+/** Longer replies are cut off to avoid flooding a channel */
+const MAX_LINES_PER_MESSAGE = 40;
+/** Delay between queued lines (servers disconnect clients that flood) */
+const SEND_INTERVAL_MS = 500;
+const REGISTRATION_TIMEOUT_MS = 30000;
+const MAX_RECONNECT_DELAY_MS = 5 * 60 * 1000;
+
+const CHANNEL_NAME_PATTERN = /^[#&+!][^\s,\x07]+$/;
+const NICK_PATTERN = /^[A-Za-z[\]\\`_^{|}][A-Za-z0-9[\]\\`_^{|}-]*$/;
+const WANTED_CAPABILITIES = ['message-tags', 'server-time'];
+
+function unescapeTagValue(value: string): string {
+    return value.replace(/\\(.)/g, (_, char: string) => ({ ':': ';', s: ' ', r: '\r', n: '\n', '\\': '\\' }[char] ?? char));
+}
+
+/**
+ * Parse a raw IRC line: [@tags] [:prefix] COMMAND params [:trailing]
+ */
+function parseLine(raw: string): IrcLine {
+    let rest = raw;
+    const tags: Record<string, string> = {};
+
+    if (rest.startsWith('@')) {
+        const end = rest.indexOf(' ');
+        for (const tag of rest.slice(1, end).split(';')) {
+            const [key, value = ''] = tag.split(/=(.*)/s);
+            tags[key] = unescapeTagValue(value);
+        }
+        rest = rest.slice(end + 1).trimStart();
+    }
+
+    let prefix: string | undefined;
+    if (rest.startsWith(':')) {
+        const end = rest.indexOf(' ');
+        prefix = rest.slice(1, end);
+        rest = rest.slice(end + 1).trimStart();
+    }
+
+    const params: string[] = [];
+    const trailingIndex = rest.indexOf(' :');
+    const head = trailingIndex >= 0 ? rest.slice(0, trailingIndex) : rest;
+    const [command, ...middle] = head.split(' ').filter(Boolean);
+    params.push(...middle);
+    if (trailingIndex >= 0) {
+        params.push(rest.slice(trailingIndex + 2));
+    }
+
+    return { tags, prefix, command: (command ?? '').toUpperCase(), params };
+}
+
+function nickFromPrefix(prefix?: string): string {
+    return (prefix ?? '').split('!')[0];
+}
+
+function isChannelName(target: string): boolean {
+    return /^[#&+!]/.test(target);
+}
+
+/**
+ * Split text into lines that fit in one PRIVMSG, breaking on spaces
+ */
+function splitIrcLines(content: string): string[] {
+    const lines: string[] = [];
+    for (const rawLine of content.replace(/\r/g, '').split('\n')) {
+        let line = rawLine.replace(/\t/g, '    ');
+        if (!line.trim()) continue;
+
+        while (Buffer.byteLength(line, 'utf8') > MAX_LINE_BYTES) {
+            let cut = line.length;
+            while (Buffer.byteLength(line.slice(0, cut), 'utf8') > MAX_LINE_BYTES) {
+                cut = Math.floor(cut * 0.9);
+            }
+            const space = line.lastIndexOf(' ', cut);
+            const splitAt = space > cut * 0.5 ? space : cut;
+            lines.push(line.slice(0, splitAt).trimEnd());
+            line = line.slice(splitAt).trimStart();
+        }
+        if (line) lines.push(line);
+    }
+    return lines;
+}
+
+/**
+ * IRC has no markup; drop the markdown syntax models tend to produce
+ */
+function stripMarkdown(content: string): string {
+    return content
+        .replace(/```[\w-]*\n?/g, '')
+        .replace(/\*\*(.+?)\*\*/g, '$1')
+        .replace(/`([^`\n]+)`/g, '$1')
+        .replace(/^#{1,6}\s+/gm, '')
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '$1 ($2)');
+}
+
+function validateTarget(channelId: string): void {
+    if (/[\s\r\n\0]/.test(channelId) || channelId.startsWith(':') || !channelId) {
+        throw new Error('Invalid IRC target: must be a channel or nickname without spaces');
+    }
+}
+
+export class IrcConnector extends ChannelConnector {
+    readonly type = 'irc';
+    readonly name = 'IRC';
+
+    private settings: IrcSettings | null = null;
+    private password: string = '';
+    private socket: Socket | null = null;
+    private buffer: string = '';
+    private nickname: string = '';
+    private registered: boolean = false;
+    private intentionalDisconnect: boolean = false;
+    private reconnectAttempts: number = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private availableCapabilities: Set<string> = new Set();
+    private enabledCapabilities: Set<string> = new Set();
+    private sendQueue: string[] = [];
+    private sendTimer: ReturnType<typeof setInterval> | null = null;
+    private messageCounter: number = 0;
+    private registrationWaiter: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+    async connect(config: ChannelConfig): Promise<void> {
+        this.settings = this.readSettings(config);
+        this.password = config.credentials.accessToken || '';
+        this.intentionalDisconnect = false;
+        await this.openConnection();
+    }
+
+    async disconnect(): Promise<void> {
+        this.intentionalDisconnect = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.socket && this.registered) {
+            this.socket.write('QUIT :Goodbye\r\n');
+        }
+        this.closeSocket();
+        console.log('[IRC] Disconnected');
+    }
+
+    isConnected(): boolean {
+        return this.registered && this.socket !== null && !this.socket.destroyed;
+    }
+
+    async sendMessage(
+        channelId: string,
+        content: string,
+        options?: SendMessageOptions
+    ): Promise<string> {
+        if (!this.isConnected()) throw new Error('Not connected');
+        validateTarget(channelId);
+
+        let lines = splitIrcLines(stripMarkdown(content));
+        if (lines.length > MAX_LINES_PER_MESSAGE) {
+            lines = [...lines.slice(0, MAX_LINES_PER_MESSAGE), '… (reply truncated)'];
+        }
+        for (const attachment of options?.attachments ?? []) {
+            lines.push(`${attachment.name}: ${attachment.url}`);
+        }
+
+        const replyTag = options?.replyTo && this.enabledCapabilities.has('message-tags')
+            ? `@+draft/reply=${options.replyTo} `
+            : '';
+        lines.forEach((line, index) => {
+            this.enqueue(`${index === 0 ? replyTag : ''}PRIVMSG ${channelId} :${line}`);
+        });
+
+        return this.nextMessageId();
+    }
+
+    async editMessage(channelId: string, messageId: string, content: string): Promise<void> {
+        void channelId; void messageId; void content;
+        throw new Error('IRC does not support editing messages');
+    }
+
+    async deleteMessage(channelId: string, messageId: string): Promise<void> {
+        void channelId; void messageId;
+        throw new Error('IRC does not support deleting messages');
+    }
+
+    /**
+     * Validate setup input by registering with the server once
+     */
+    async setupAccount(input: Record<string, unknown>): Promise<ChannelSetupResult> {
+        const setup = input as unknown as IrcSetupInput;
+        const channels = setup.channels.split(',').map(c => c.trim()).filter(Boolean);
+        for (const channel of channels) {
+            if (!CHANNEL_NAME_PATTERN.test(channel)) {
+                throw new Error(`Invalid IRC channel name: ${channel}`);
+            }
+        }
+        if (!NICK_PATTERN.test(setup.nickname)) {
+            throw new Error(`Invalid IRC nickname: ${setup.nickname}`);
+        }
+
+        const tls = setup.tls ?? true;
+        const settings: Record<string, unknown> = {
+            server: setup.server,
+            port: setup.port ?? (tls ? 6697 : 6667),
+            tls,
+            nickname: setup.nickname,
+            channels,
+            authMethod: setup.password ? (setup.authMethod ?? 'sasl') : 'none',
+            mentionsOnly: setup.mentionsOnly ?? true,
+        };
+
+        await this.connect({ channelType: 'irc', credentials: { accessToken: setup.password ?? '' }, settings });
+        await this.disconnect();
+
+        return {
+            channelType: 'irc',
+            channelId: channels.length === 1 ? channels[0] : `irc:${setup.nickname}@${setup.server}`,
+            accountId: `${setup.nickname}@${setup.server}`,
+            displayName: `${setup.nickname} on ${setup.server}`,
+            credentials: setup.password ? { accessToken: setup.password } : {},
+            settings,
+        };
+    }
+
+    // =========================================================================
+    // Connection handling
+    // =========================================================================
+
+    private readSettings(config: ChannelConfig): IrcSettings {
+        const source = { ...config.credentials, ...(config.settings ?? {}) } as Record<string, unknown>;
+        const server = String(source.server ?? '');
+        const nickname = String(source.nickname ?? '');
+        if (!server || !nickname) {
+            throw new Error('IRC connector requires server and nickname settings');
+        }
+
+        const tls = source.tls !== false && source.tls !== 'false';
+        const channels = Array.isArray(source.channels)
+            ? source.channels.map(String)
+            : String(source.channels ?? '').split(',').map(c => c.trim()).filter(Boolean);
+
+        return {
+            server,
+            port: Number(source.port) || (tls ? 6697 : 6667),
+            tls,
+            nickname,
+            username: String(source.username ?? nickname).replace(/[^A-Za-z0-9_-]/g, '') || 'maiachat',
+            realname: String(source.realname ?? 'MaiaChat'),
+            channels: channels.filter(channel => CHANNEL_NAME_PATTERN.test(channel)),
+            authMethod: (source.authMethod as IrcAuthMethod) ?? 'none',
+            mentionsOnly: source.mentionsOnly !== false && source.mentionsOnly !== 'false',
+        };
+    }
+
+    private async openConnection(): Promise<void> {
+        const settings = this.settings;
+        if (!settings) throw new Error('IRC connector is not configured');
+
+        this.closeSocket();
+        this.buffer = '';
+        this.nickname = settings.nickname;
+        this.registered = false;
+        this.availableCapabilities.clear();
+        this.enabledCapabilities.clear();
+
+        const socket: Socket = settings.tls
+            ? (await import('tls')).connect({ host: settings.server, port: settings.port, servername: settings.server })
+            : (await import('net')).connect({ host: settings.server, port: settings.port });
+        this.socket = socket;
+        socket.setEncoding('utf8');
+        socket.setKeepAlive(true, 60000);
+
+        const registration = new Promise<void>((resolve, reject) => {
+            this.registrationWaiter = { resolve, reject };
+        });
+        const timeout = setTimeout(() => {
+            this.registrationWaiter?.reject(new Error(`IRC registration with ${settings.server} timed out`));
+            this.registrationWaiter = null;
+        }, REGISTRATION_TIMEOUT_MS);
+
+        socket.on('data', (data: string) => {
+            this.buffer += data;
+            const lines = this.buffer.split(/\r?\n/);
+            this.buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (!line) continue;
+                this.handleLine(parseLine(line)).catch(error => {
+                    console.error('[IRC] Failed to handle line:', error);
+                });
+            }
+        });
+
+        socket.on('error', (error) => {
+            console.error('[IRC] Socket error:', error);
+            this.registrationWaiter?.reject(error);
+            this.registrationWaiter = null;
+            this.onError?.(error);
+        });
+
+        socket.on('close', () => {
+            const wasRegistered = this.registered;
+            this.registered = false;
+            if (this.socket === socket) {
+                this.socket = null;
+            }
+            this.registrationWaiter?.reject(new Error('IRC connection closed during registration'));
+            this.registrationWaiter = null;
+            if (!this.intentionalDisconnect && wasRegistered) {
+                this.scheduleReconnect();
+            }
+        });
+
+        // Servers without IRCv3 ignore CAP and register on NICK/USER
+        this.writeRaw('CAP LS 302');
+        if (settings.authMethod === 'server' && this.password) {
+            this.writeRaw(`PASS ${this.password}`);
+        }
+        this.writeRaw(`NICK ${this.nickname}`);
+        this.writeRaw(`USER ${settings.username} 0 * :${settings.realname}`);
+
+        try {
+            await registration;
+        } finally {
+            clearTimeout(timeout);
+        }
+
+        this.reconnectAttempts = 0;
+        this.startSendQueue();
+        console.log(`[IRC] Connected to ${settings.server}:${settings.port} as ${this.nickname}`);
+    }
+
+    private scheduleReconnect(): void {
+        const delay = Math.min(5000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+        this.reconnectAttempts++;
+        console.warn(`[IRC] Connection lost, reconnecting in ${delay / 1000}s`);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.openConnection().catch(error => {
+                console.error('[IRC] Reconnect failed:', error);
+                this.onError?.(error instanceof Error ? error : new Error(String(error)));
+                if (!this.intentionalDisconnect) this.scheduleReconnect();
+            });
+        }, delay);
+    }
+
+    private closeSocket(): void {
+        if (this.sendTimer) {
+            clearInterval(this.sendTimer);
+            this.sendTimer = null;
+        }
+        this.sendQueue = [];
+        if (this.socket) {
+            this.socket.removeAllListeners('close');
+            this.socket.destroy();
+            this.socket = null;
+        }
+        this.registered = false;
+    }
+
+    private writeRaw(line: string): void {
+        // Never let user-controlled text inject extra commands
+        this.socket?.write(`${line.replace(/[\r\n\0]/g, ' ')}\r\n`);
+    }
+
+    private enqueue(line: string): void {
+        this.sendQueue.push(line);
+    }
+
+    private startSendQueue(): void {
+        if (this.sendTimer) clearInterval(this.sendTimer);
+        this.sendTimer = setInterval(() => {
+            const line = this.sendQueue.shift();
+            if (line && this.isConnected()) this.writeRaw(line);
+        }, SEND_INTERVAL_MS);
+    }
+
+    private nextMessageId(): string {
+        return `irc-${Date.now()}-${++this.messageCounter}`;
+    }
+
+    // =========================================================================
+    // Protocol handling
+    // =========================================================================
+
+    private async handleLine(line: IrcLine): Promise<void> {
+        switch (line.command) {
+            case 'PING':
+                this.writeRaw(`PONG :${line.params[0] ?? ''}`);
+                return;
+            case 'CAP':
+                this.handleCapability(line);
+                return;
+            case 'AUTHENTICATE':
+                if (line.params[0] === '+' && this.settings) {
+                    const account = this.settings.nickname;
+                    this.writeRaw(`AUTHENTICATE ${Buffer.from(`${account}\0${account}\0${this.password}`).toString('base64')}`);
+                }
+                return;
+            case '903': // SASL success
+                this.writeRaw('CAP END');
+                return;
+            case '904':
+            case '905':
+            case '906':
+                console.warn('[IRC] SASL authentication failed; continuing unauthenticated');
+                this.writeRaw('CAP END');
+                return;
+            case '001':
+                this.onRegistered(line.params[0]);
+                return;
+            case '433': // Nickname in use
+                if (!this.registered) {
+                    this.nickname = `${this.nickname}_`;
+                    this.writeRaw(`NICK ${this.nickname}`);
+                }
+                return;
+            case 'NICK':
+                if (nickFromPrefix(line.prefix) === this.nickname && line.params[0]) {
+                    this.nickname = line.params[0];
+                }
+                return;
+            case 'KICK':
+                if (line.params[1] === this.nickname) {
+                    console.warn(`[IRC] Kicked from ${line.params[0]}: ${line.params[2] ?? ''}`);
+                }
+                return;
+            case 'ERROR':
+                console.warn(`[IRC] Server error: ${line.params.join(' ')}`);
+                return;
+            case 'PRIVMSG':
+                await this.handlePrivmsg(line);
+                return;
+        }
+    }
+
+    private handleCapability(line: IrcLine): void {
+        const subcommand = line.params[1];
+        const isContinuation = line.params[2] === '*';
+        const list = (line.params[line.params.length - 1] ?? '').split(' ').filter(Boolean);
+
+        if (subcommand === 'LS') {
+            for (const capability of list) {
+                this.availableCapabilities.add(capability.split('=')[0]);
+            }
+            if (isContinuation) return;
+
+            const wanted = WANTED_CAPABILITIES.filter(capability => this.availableCapabilities.has(capability));
+            if (this.settings?.authMethod === 'sasl' && this.password && this.availableCapabilities.has('sasl')) {
+                wanted.push('sasl');
+            }
+            this.writeRaw(wanted.length > 0 ? `CAP REQ :${wanted.join(' ')}` : 'CAP END');
+        } else if (subcommand === 'ACK') {
+            list.forEach(capability => this.enabledCapabilities.add(capability));
+            if (this.enabledCapabilities.has('sasl')) {
+                this.writeRaw('AUTHENTICATE PLAIN');
+            } else {
+                this.writeRaw('CAP END');
+            }
+        } else if (subcommand === 'NAK') {
+            this.writeRaw('CAP END');
+        }
+    }
+
+    private onRegistered(nickname?: string): void {
+        if (nickname) this.nickname = nickname;
+        this.registered = true;
+
+        const settings = this.settings;
+        if (settings?.authMethod === 'nickserv' && this.password) {
+            this.writeRaw(`PRIVMSG NickServ :IDENTIFY ${settings.nickname} ${this.password}`);
+        }
+        if (settings && settings.channels.length > 0) {
+            this.writeRaw(`JOIN ${settings.channels.join(',')}`);
+        }
+
+        this.registrationWaiter?.resolve();
+        this.registrationWaiter = null;
+    }
+
+    private async handlePrivmsg(line: IrcLine): Promise<void> {
+        const [target, rawText = ''] = line.params;
+        const senderNick = nickFromPrefix(line.prefix);
+        if (!target || !senderNick || senderNick.toLowerCase() === this.nickname.toLowerCase()) return;
+
+        let text = rawText;
+        // CTCP: keep /me actions, ignore VERSION, PING and friends
+        if (text.startsWith('\x01')) {
+            const action = text.match(/^\x01ACTION (.*)\x01?$/);
+            if (!action) return;
+            text = `* ${senderNick} ${action[1]}`;
+        }
+        // Strip mIRC colour and formatting codes
+        text = text.replace(/\x03\d{0,2}(?:,\d{1,2})?|[\x02\x0f\x11\x16\x1d\x1e\x1f]/g, '');
+
+        const inChannel = isChannelName(target);
+        const addressPattern = new RegExp(`^@?${this.nickname.replace(/[[\]\\^{}|]/g, '\\$&')}[:,]?\\s+`, 'i');
+        const mentioned = addressPattern.test(text)
+            || text.toLowerCase().split(/[^a-z0-9[\]\\`_^{|}-]+/).includes(this.nickname.toLowerCase());
+
+        if (inChannel && this.settings?.mentionsOnly && !mentioned) return;
+
+        const channelMessage: ChannelMessage = {
+            id: line.tags.msgid ?? this.nextMessageId(),
+            channelType: 'irc',
+            channelId: inChannel ? target : senderNick,
+            content: text.replace(addressPattern, ''),
+            contentType: 'text',
+            sender: {
+                id: senderNick,
+                name: senderNick,
+            },
+            timestamp: line.tags.time ? new Date(line.tags.time) : new Date(),
+            replyTo: line.tags['+draft/reply'] ?? line.tags['+reply'],
+            metadata: {
+                server: this.settings?.server,
+                hostmask: line.prefix,
+                mentioned,
+                isDirect: !inChannel,
+            },
+        };
+
+        await this.onMessage?.(channelMessage);
+    }
+}
@@ -7,15 +7,18 @@
 
 import { db } from '@/lib/db';
 import { channelAccounts, channelMessages } from '@/lib/db/schema';
-import type { ChannelConfig as SchemaChannelConfig } from '@/lib/db/schema';
-import { eq, and } from 'drizzle-orm';
+import type { ChannelConfig as SchemaChannelConfig, OutboundMessageOptions } from '@/lib/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
 import { encrypt, decrypt } from '@/lib/crypto';
 import {
+    ChannelButtonClick,
     ChannelConnector,
     ChannelMessage,
     ChannelConfig,
     ChannelType,
 } from './base';
+import { upsertThreadForMessage } from './handoff';
+import { OutboundQueue } from './outbound';
 
 // ============================================================================
 // Connector Registry
@@ -45,13 +48,23 @@ export function getConnectorFactory(type: string): ConnectorFactory | undefined
 // ============================================================================
 
 export type MessageHandler = (userId: string, message: ChannelMessage) => Promise<void>;
+export type InteractionHandler = (userId: string, click: ChannelButtonClick) => Promise<void>;
 
 export class ChannelManager {
     private connectors: Map<string, ChannelConnector> = new Map();
     private messageHandler: MessageHandler;
+    private interactionHandler: InteractionHandler = async (userId, click) => {
+        // Until a processor is attached, only reply approvals have buttons
+        const { handleApprovalButton } = await import('./approvals');
+        await handleApprovalButton(userId, click);
+    };
+    private outbound: OutboundQueue;
 
     constructor(messageHandler: MessageHandler) {
         this.messageHandler = messageHandler;
+        this.outbound = new OutboundQueue((userId, channelType, channelId) =>
+            this.resolveConnector(userId, channelType, channelId)
+        );
     }
 
     /**
@@ -62,6 +75,13 @@ export class ChannelManager {
         this.messageHandler = handler;
     }
 
+    /**
+     * Update the handler for button presses, menu selections and poll votes
+     */
+    setInteractionHandler(handler: InteractionHandler): void {
+        this.interactionHandler = handler;
+    }
+
     /**
      * Generate a unique key for a connector instance
      */
@@ -127,10 +147,12 @@ export class ChannelManager {
             }
 
             const telegramChatId = account.channelType === "telegram" ? message.channelId : undefined;
+            const thread = await upsertThreadForMessage(account.id, message, { inbound: true });
 
             // Store inbound message
             await db.insert(channelMessages).values({
                 channelAccountId: account.id,
+                channelThreadId: thread.id,
                 externalMessageId: message.id,
                 externalThreadId: message.threadId,
                 direction: 'inbound',
@@ -175,6 +197,14 @@ export class ChannelManager {
             await this.messageHandler(userId, message);
         };
 
+        connector.onButtonClick = async (click) => {
+            await this.interactionHandler(userId, click);
+        };
+
+        connector.onDeliveryReceipt = async (receipt) => {
+            await this.outbound.applyReceipt(account.id, receipt);
+        };
+
         connector.onError = (error) => {
             console.error(`[ChannelManager] Channel error [${key}]:`, error);
         };
@@ -199,6 +229,7 @@ export class ChannelManager {
             // (messages can arrive immediately after connect starts)
             this.connectors.set(key, connector);
             console.log(`[ChannelManager] Registered channel: ${key}`);
+            this.outbound.start();
 
             await connector.connect(config);
             console.log(`[ChannelManager] Connected channel: ${key}`);
@@ -245,65 +276,79 @@ export class ChannelManager {
     }
 
     /**
-     * Send a message through a channel
+     * Connector for a destination: exact match first, then by type (for bot
+     * platforms the channelId varies per chat)
+     */
+    resolveConnector(userId: string, channelType: string, channelId: string): ChannelConnector | undefined {
+        return this.connectors.get(this.getConnectorKey(userId, channelType, channelId))
+            ?? this.findConnectorByType(userId, channelType);
+    }
+
+    /**
+     * Send a message through a channel and wait for the platform's message ID.
+     * Paced to the platform's rate limits and retried briefly on transient errors.
      */
     async sendMessage(
         userId: string,
         channelType: string,
         channelId: string,
         content: string,
-        options?: { threadId?: string; replyTo?: string }
+        options?: OutboundMessageOptions & { source?: string }
     ): Promise<string> {
-        // First try exact match
-        const key = this.getConnectorKey(userId, channelType, channelId);
-        let connector = this.connectors.get(key);
-
-        // For bot platforms, the channelId varies per chat, so fall back to finding by type
-        if (!connector) {
-            connector = this.findConnectorByType(userId, channelType);
-        }
+        const { source, ...messageOptions } = options ?? {};
+        return this.outbound.send({ userId, channelType, channelId, content, options: messageOptions, source });
+    }
 
+    /**
+     * Edit a message the bot sent, keeping the inbox copy in sync
+     */
+    async editMessage(
+        userId: string,
+        channelType: string,
+        channelId: string,
+        messageId: string,
+        content: string
+    ): Promise<void> {
+        const connector = this.resolveConnector(userId, channelType, channelId);
         if (!connector) {
-            throw new Error(`Channel not connected: ${key}`);
+            throw new Error(`Channel not connected: ${userId}:${channelType}:${channelId}`);
         }
 
-        const messageId = await connector.sendMessage(channelId, content, options);
-
-        // Get channel account ID for storing the message
-        // Try exact match first, then fall back to type-only match
-        let [account] = await db.select({ id: channelAccounts.id })
-            .from(channelAccounts)
+        await connector.editMessage(channelId, messageId, content);
+        await db.update(channelMessages)
+            .set({ content })
             .where(and(
-                eq(channelAccounts.userId, userId),
-                eq(channelAccounts.channelType, channelType),
-                eq(channelAccounts.channelId, channelId)
+                eq(channelMessages.externalMessageId, messageId),
+                eq(channelMessages.direction, 'outbound'),
+                inArray(
+                    channelMessages.channelAccountId,
+                    db.select({ id: channelAccounts.id })
+                        .from(channelAccounts)
+                        .where(and(eq(channelAccounts.userId, userId), eq(channelAccounts.channelType, channelType)))
+                )
             ));
+    }
 
-        if (!account) {
-            [account] = await db.select({ id: channelAccounts.id })
-                .from(channelAccounts)
-                .where(and(
-                    eq(channelAccounts.userId, userId),
-                    eq(channelAccounts.channelType, channelType),
-                    eq(channelAccounts.isActive, true)
-                ))
-                .limit(1);
-        }
-
-        if (account) {
-            // Store outbound message
-            await db.insert(channelMessages).values({
-                channelAccountId: account.id,
-                externalMessageId: messageId,
-                externalThreadId: options?.threadId,
-                direction: 'outbound',
-                content,
-                contentType: 'text',
-                status: 'sent',
-            });
-        }
+    /**
+     * Queue a message for background delivery with retries and dead-lettering.
+     * Returns the outbox ID; use for sends nobody waits on (scheduled tasks, notifications).
+     */
+    async enqueueMessage(
+        userId: string,
+        channelType: string,
+        channelId: string,
+        content: string,
+        options?: OutboundMessageOptions & { source?: string; maxAttempts?: number; notBefore?: Date }
+    ): Promise<string> {
+        const { source, maxAttempts, notBefore, ...messageOptions } = options ?? {};
+        return this.outbound.enqueue({ userId, channelType, channelId, content, options: messageOptions, source, maxAttempts, notBefore });
+    }
 
-        return messageId;
+    /**
+     * Retry a failed or dead-lettered outbound message
+     */
+    async retryOutboundMessage(userId: string, outboxId: string) {
+        return this.outbound.retry(userId, outboxId);
     }
 
     /**
@@ -368,6 +413,7 @@ export class ChannelManager {
      * Disconnect all channels and cleanup
      */
     async shutdown(): Promise<void> {
+        this.outbound.stop();
         for (const [key, connector] of this.connectors) {
             try {
                 await connector.disconnect();
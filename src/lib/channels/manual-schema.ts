@@ -60,3 +60,47 @@ export type ManualConnectPayload =
     | z.infer<typeof manualConnectSchemas.signal>
     | z.infer<typeof manualConnectSchemas.slack>
     | z.infer<typeof manualConnectSchemas.discord>;
+
+/**
+ * Payloads for POST /api/channels/connect/[type], where the connector
+ * validates credentials against the server before the account is saved
+ */
+export const connectSetupSchemas = {
+    matrix: z.object({
+        homeserverUrl: z.string().url(),
+        userId: z.string().regex(/^@[^:]+:.+$/, "Matrix user ID like @bot:example.org"),
+        accessToken: z.string().min(1).optional(),
+        password: z.string().min(1).optional(),
+        rooms: z.string().optional().describe("Comma-separated room IDs or aliases"),
+        requireMention: z.boolean().optional(),
+        autoJoin: z.boolean().optional(),
+        displayName: z.string().min(1).optional(),
+    }).refine(payload => payload.accessToken || payload.password, {
+        message: "Either accessToken or password is required",
+        path: ["accessToken"],
+    }),
+    irc: z.object({
+        server: z.string().min(1).regex(/^[A-Za-z0-9.-]+$/, "Hostname of the IRC server"),
+        port: z.coerce.number().int().min(1).max(65535).optional(),
+        tls: z.boolean().optional(),
+        nickname: z.string().min(1).max(30),
+        channels: z.string().min(1).describe("Comma-separated channel list, e.g. #eng,#ops"),
+        password: z.string().min(1).optional(),
+        authMethod: z.enum(["none", "sasl", "nickserv", "server"]).optional(),
+        mentionsOnly: z.boolean().optional(),
+        displayName: z.string().min(1).optional(),
+    }),
+    email: z.object({
+        emailAddress: z.string().email(),
+        password: z.string().min(1).describe("Mailbox or app password"),
+        username: z.string().min(1).optional().describe("Login name when it differs from the address"),
+        fromName: z.string().min(1).optional(),
+        imapHost: z.string().min(1).regex(/^[A-Za-z0-9.-]+$/, "Hostname of the IMAP server"),
+        imapPort: z.coerce.number().int().min(1).max(65535).optional(),
+        smtpHost: z.string().min(1).regex(/^[A-Za-z0-9.-]+$/, "Hostname of the SMTP server").optional(),
+        smtpPort: z.coerce.number().int().min(1).max(65535).optional(),
+        mailbox: z.string().min(1).optional(),
+        pollIntervalSeconds: z.coerce.number().int().min(15).max(3600).optional(),
+        displayName: z.string().min(1).optional(),
+    }),
+};
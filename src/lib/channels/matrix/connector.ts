@@ -0,0 +1,559 @@
+/**
+ * Matrix Channel Connector
+ *
+ * Talks to a Matrix homeserver over the client-server API using long-polling
+ * /sync, so it works with self-hosted homeservers without extra services.
+ *
+ * Threads (m.thread relations), replies, edits (m.replace) and redactions are
+ * mapped onto the generic channel events. End-to-end encrypted rooms are
+ * optional: the connector does not decrypt Megolm itself, so either point
+ * homeserverUrl at an E2EE-aware proxy such as Pantalaimon, or use
+ * unencrypted rooms. Encrypted events it cannot read trigger a one-time notice.
+ */
+
+import {
+    ChannelConnector,
+    ChannelMessage,
+    ChannelConfig,
+    SendMessageOptions,
+    ChannelAttachment,
+    ChannelSetupResult,
+} from '../base';
+
+// Types for the subset of the client-server API we use
+interface MatrixEvent {
+    type: string;
+    event_id: string;
+    sender: string;
+    origin_server_ts: number;
+    state_key?: string;
+    redacts?: string;
+    content: {
+        msgtype?: string;
+        body?: string;
+        url?: string;
+        info?: { mimetype?: string; size?: number };
+        membership?: string;
+        displayname?: string;
+        redacts?: string;
+        'm.new_content'?: { body?: string };
+        'm.relates_to'?: {
+            rel_type?: string;
+            event_id?: string;
+            is_falling_back?: boolean;
+            'm.in_reply_to'?: { event_id?: string };
+        };
+        [key: string]: unknown;
+    };
+}
+
+interface MatrixSyncResponse {
+    next_batch: string;
+    rooms?: {
+        join?: Record<string, {
+            summary?: { 'm.joined_member_count'?: number };
+            timeline?: { events?: MatrixEvent[] };
+            state?: { events?: MatrixEvent[] };
+        }>;
+        invite?: Record<string, unknown>;
+    };
+}
+
+export interface MatrixSetupInput {
+    homeserverUrl: string;
+    userId: string;
+    accessToken?: string;
+    password?: string;
+    /** Comma-separated room IDs or aliases; empty means every joined room */
+    rooms?: string;
+    requireMention?: boolean;
+    autoJoin?: boolean;
+}
+
+/** Long-poll timeout for /sync */
+const SYNC_TIMEOUT_MS = 30000;
+const MAX_BACKOFF_MS = 60000;
+
+const ENCRYPTED_ROOM_NOTICE =
+    "This room is end-to-end encrypted and I can't read encrypted messages here. " +
+    'Ask an admin to connect me through an E2EE-capable proxy, or talk to me in an unencrypted room.';
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert the markdown subset models produce into Matrix HTML
+ * (org.matrix.custom.html) so clients render formatting
+ */
+function markdownToMatrixHtml(markdown: string): string {
+    const blocks = markdown.split(/(```[\w-]*\n[\s\S]*?```)/g);
+    return blocks
+        .map((block, index) => {
+            if (index % 2 === 1) {
+                const match = block.match(/^```([\w-]*)\n([\s\S]*?)```$/);
+                const language = match?.[1] ? ` class="language-${match[1]}"` : '';
+                return `<pre><code${language}>${escapeHtml(match?.[2] ?? '')}</code></pre>`;
+            }
+            return escapeHtml(block)
+                .replace(/`([^`\n]+)`/g, '<code>$1</code>')
+                .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+                .replace(/(?<![*\w])\*([^*\n]+)\*(?![*\w])/g, '<em>$1</em>')
+                .replace(/~~(.+?)~~/g, '<del>$1</del>')
+                .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>')
+                .replace(/^#{1,6}\s+(.+)$/gm, '<strong>$1</strong>')
+                .replace(/\n/g, '<br>');
+        })
+        .join('');
+}
+
+export class MatrixConnector extends ChannelConnector {
+    readonly type = 'matrix';
+    readonly name = 'Matrix';
+
+    private config: ChannelConfig | null = null;
+    private homeserverUrl: string = '';
+    private accessToken: string = '';
+    private userId: string = '';
+    private rooms: Set<string> = new Set();
+    private requireMention: boolean = false;
+    private autoJoin: boolean = true;
+    private connected: boolean = false;
+    private syncAbort: AbortController | null = null;
+    private syncLoop: Promise<void> | null = null;
+    private txnCounter: number = 0;
+    private encryptedRooms: Set<string> = new Set();
+    private notifiedEncryptedRooms: Set<string> = new Set();
+    private displayNames: Map<string, string> = new Map();
+    private memberCounts: Map<string, number> = new Map();
+
+    async connect(config: ChannelConfig): Promise<void> {
+        this.config = config;
+        this.homeserverUrl = (config.credentials.homeserverUrl || '').replace(/\/+$/, '');
+        this.accessToken = config.credentials.accessToken;
+
+        if (!this.homeserverUrl || !this.accessToken) {
+            throw new Error('Matrix connector requires credentials.homeserverUrl and an access token');
+        }
+
+        const whoami = await this.request<{ user_id: string }>('GET', '/_matrix/client/v3/account/whoami');
+        this.userId = whoami.user_id;
+
+        const settings = config.settings ?? {};
+        const configuredRooms = Array.isArray(settings.rooms) ? settings.rooms as string[] : [];
+        this.rooms = new Set(await Promise.all(configuredRooms.map(room => this.resolveRoomId(room))));
+        this.requireMention = settings.requireMention === true;
+        this.autoJoin = settings.autoJoin !== false;
+
+        // Initial sync only fetches a position, so backlog is not replayed
+        const initial = await this.request<MatrixSyncResponse>(
+            'GET',
+            `/_matrix/client/v3/sync?timeout=0&filter=${encodeURIComponent(JSON.stringify({ room: { timeline: { limit: 0 } } }))}`
+        );
+        this.trackRoomState(initial);
+
+        this.connected = true;
+        this.syncAbort = new AbortController();
+        this.syncLoop = this.runSyncLoop(initial.next_batch, this.syncAbort.signal);
+        console.log(`[Matrix] Connected as ${this.userId} on ${this.homeserverUrl}`);
+    }
+
+    async disconnect(): Promise<void> {
+        this.connected = false;
+        this.syncAbort?.abort();
+        await this.syncLoop?.catch(() => undefined);
+        this.syncAbort = null;
+        this.syncLoop = null;
+        console.log('[Matrix] Disconnected');
+    }
+
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    async sendMessage(
+        channelId: string,
+        content: string,
+        options?: SendMessageOptions
+    ): Promise<string> {
+        if (!this.isConnected()) throw new Error('Not connected');
+
+        const body: Record<string, unknown> = {
+            msgtype: 'm.text',
+            body: content,
+            format: 'org.matrix.custom.html',
+            formatted_body: markdownToMatrixHtml(content),
+        };
+
+        if (options?.threadId) {
+            body['m.relates_to'] = {
+                rel_type: 'm.thread',
+                event_id: options.threadId,
+                // Clients without thread support show this as a reply
+                is_falling_back: !options.replyTo,
+                'm.in_reply_to': { event_id: options.replyTo ?? options.threadId },
+            };
+        } else if (options?.replyTo) {
+            body['m.relates_to'] = { 'm.in_reply_to': { event_id: options.replyTo } };
+        }
+
+        const result = await this.sendEvent(channelId, 'm.room.message', body);
+
+        for (const attachment of options?.attachments ?? []) {
+            await this.sendEvent(channelId, 'm.room.message', {
+                msgtype: 'm.text',
+                body: `${attachment.name}: ${attachment.url}`,
+            });
+        }
+
+        return result;
+    }
+
+    async editMessage(channelId: string, messageId: string, content: string): Promise<void> {
+        if (!this.isConnected()) throw new Error('Not connected');
+
+        const newContent = {
+            msgtype: 'm.text',
+            body: content,
+            format: 'org.matrix.custom.html',
+            formatted_body: markdownToMatrixHtml(content),
+        };
+
+        await this.sendEvent(channelId, 'm.room.message', {
+            ...newContent,
+            body: `* ${content}`,
+            formatted_body: `* ${newContent.formatted_body}`,
+            'm.new_content': newContent,
+            'm.relates_to': { rel_type: 'm.replace', event_id: messageId },
+        });
+    }
+
+    async deleteMessage(channelId: string, messageId: string): Promise<void> {
+        if (!this.isConnected()) throw new Error('Not connected');
+
+        await this.request(
+            'PUT',
+            `/_matrix/client/v3/rooms/${encodeURIComponent(channelId)}/redact/${encodeURIComponent(messageId)}/${this.nextTxnId()}`,
+            {}
+        );
+    }
+
+    // =========================================================================
+    // Matrix-specific methods
+    // =========================================================================
+
+    /**
+     * Send a typing indicator
+     */
+    async sendTypingAction(channelId: string, typing: boolean = true): Promise<void> {
+        if (!this.isConnected()) throw new Error('Not connected');
+
+        await this.request(
+            'PUT',
+            `/_matrix/client/v3/rooms/${encodeURIComponent(channelId)}/typing/${encodeURIComponent(this.userId)}`,
+            typing ? { typing: true, timeout: 30000 } : { typing: false }
+        );
+    }
+
+    /**
+     * Validate setup input: log in with a password when no token is given,
+     * confirm the token, and join the configured rooms
+     */
+    async setupAccount(input: Record<string, unknown>): Promise<ChannelSetupResult> {
+        const setup = input as unknown as MatrixSetupInput;
+        this.homeserverUrl = setup.homeserverUrl.replace(/\/+$/, '');
+
+        let accessToken = setup.accessToken;
+        let deviceId: string | undefined;
+        if (!accessToken) {
+            if (!setup.password) {
+                throw new Error('Either an access token or a password is required');
+            }
+            const login = await this.request<{ access_token: string; device_id: string }>(
+                'POST',
+                '/_matrix/client/v3/login',
+                {
+                    type: 'm.login.password',
+                    identifier: { type: 'm.id.user', user: setup.userId },
+                    password: setup.password,
+                    initial_device_display_name: 'MaiaChat',
+                },
+                { authenticated: false }
+            );
+            accessToken = login.access_token;
+            deviceId = login.device_id;
+        }
+        this.accessToken = accessToken;
+
+        const whoami = await this.request<{ user_id: string; device_id?: string }>(
+            'GET',
+            '/_matrix/client/v3/account/whoami'
+        );
+
+        const rooms: string[] = [];
+        for (const room of (setup.rooms ?? '').split(',').map(r => r.trim()).filter(Boolean)) {
+            const joined = await this.request<{ room_id: string }>(
+                'POST',
+                `/_matrix/client/v3/join/${encodeURIComponent(room)}`,
+                {}
+            );
+            rooms.push(joined.room_id);
+        }
+
+        return {
+            channelType: 'matrix',
+            channelId: rooms.length === 1 ? rooms[0] : `matrix:${whoami.user_id}`,
+            accountId: whoami.user_id,
+            displayName: whoami.user_id,
+            credentials: { accessToken },
+            settings: {
+                homeserverUrl: this.homeserverUrl,
+                userId: whoami.user_id,
+                deviceId: deviceId ?? whoami.device_id ?? null,
+                rooms,
+                requireMention: setup.requireMention ?? false,
+                autoJoin: setup.autoJoin ?? true,
+            },
+        };
+    }
+
+    // =========================================================================
+    // Private helpers
+    // =========================================================================
+
+    private nextTxnId(): string {
+        return `maiachat-${Date.now()}-${++this.txnCounter}`;
+    }
+
+    private async request<T = unknown>(
+        method: 'GET' | 'POST' | 'PUT',
+        path: string,
+        body?: unknown,
+        options: { authenticated?: boolean; signal?: AbortSignal; timeoutMs?: number } = {}
+    ): Promise<T> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (options.authenticated !== false) {
+            headers.Authorization = `Bearer ${this.accessToken}`;
+        }
+
+        // Abort on timeout or when the caller's signal fires
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 20000);
+        const onAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        let response: Response;
+        try {
+            response = await fetch(`${this.homeserverUrl}${path}`, {
+                method,
+                headers,
+                body: body === undefined ? undefined : JSON.stringify(body),
+                signal: controller.signal,
+            });
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+
+        const data = await response.json().catch(() => ({})) as T & { errcode?: string; error?: string };
+        if (!response.ok) {
+            throw new Error(`Matrix ${method} ${path.split('?')[0]} failed: ${data.errcode ?? response.status} ${data.error ?? ''}`.trim());
+        }
+        return data;
+    }
+
+    private async sendEvent(roomId: string, eventType: string, content: Record<string, unknown>): Promise<string> {
+        const result = await this.request<{ event_id: string }>(
+            'PUT',
+            `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/${encodeURIComponent(eventType)}/${this.nextTxnId()}`,
+            content
+        );
+        return result.event_id;
+    }
+
+    private async resolveRoomId(room: string): Promise<string> {
+        if (!room.startsWith('#')) return room;
+        const result = await this.request<{ room_id: string }>(
+            'GET',
+            `/_matrix/client/v3/directory/room/${encodeURIComponent(room)}`
+        );
+        return result.room_id;
+    }
+
+    private isWatchedRoom(roomId: string): boolean {
+        return this.rooms.size === 0 || this.rooms.has(roomId);
+    }
+
+    /**
+     * Remember encrypted rooms, member counts and display names
+     */
+    private trackRoomState(sync: MatrixSyncResponse): void {
+        for (const [roomId, room] of Object.entries(sync.rooms?.join ?? {})) {
+            const memberCount = room.summary?.['m.joined_member_count'];
+            if (memberCount !== undefined) {
+                this.memberCounts.set(roomId, memberCount);
+            }
+            for (const event of [...(room.state?.events ?? []), ...(room.timeline?.events ?? [])]) {
+                if (event.type === 'm.room.encryption') {
+                    this.encryptedRooms.add(roomId);
+                } else if (event.type === 'm.room.member' && event.state_key && event.content.displayname) {
+                    this.displayNames.set(event.state_key, event.content.displayname);
+                }
+            }
+        }
+    }
+
+    private async runSyncLoop(since: string, signal: AbortSignal): Promise<void> {
+        let nextBatch = since;
+        let backoff = 1000;
+
+        while (!signal.aborted) {
+            try {
+                const sync = await this.request<MatrixSyncResponse>(
+                    'GET',
+                    `/_matrix/client/v3/sync?timeout=${SYNC_TIMEOUT_MS}&since=${encodeURIComponent(nextBatch)}`,
+                    undefined,
+                    { signal, timeoutMs: SYNC_TIMEOUT_MS + 15000 }
+                );
+                nextBatch = sync.next_batch;
+                backoff = 1000;
+
+                this.trackRoomState(sync);
+                await this.handleInvites(sync);
+                for (const [roomId, room] of Object.entries(sync.rooms?.join ?? {})) {
+                    for (const event of room.timeline?.events ?? []) {
+                        await this.handleEvent(roomId, event).catch(error => {
+                            console.error(`[Matrix] Failed to handle event ${event.event_id}:`, error);
+                        });
+                    }
+                }
+            } catch (error) {
+                if (signal.aborted) break;
+                console.warn(`[Matrix] Sync failed, retrying in ${backoff}ms:`, error);
+                this.onError?.(error instanceof Error ? error : new Error(String(error)));
+                await new Promise(resolve => setTimeout(resolve, backoff));
+                backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+            }
+        }
+    }
+
+    private async handleInvites(sync: MatrixSyncResponse): Promise<void> {
+        if (!this.autoJoin) return;
+        for (const roomId of Object.keys(sync.rooms?.invite ?? {})) {
+            if (!this.isWatchedRoom(roomId)) continue;
+            try {
+                await this.request('POST', `/_matrix/client/v3/join/${encodeURIComponent(roomId)}`, {});
+                console.log(`[Matrix] Joined ${roomId} after invite`);
+            } catch (error) {
+                console.warn(`[Matrix] Could not join ${roomId}:`, error);
+            }
+        }
+    }
+
+    private async handleEvent(roomId: string, event: MatrixEvent): Promise<void> {
+        if (event.sender === this.userId || !this.isWatchedRoom(roomId)) return;
+
+        if (event.type === 'm.room.redaction') {
+            const redacted = event.redacts ?? event.content.redacts;
+            if (redacted) await this.onMessageDelete?.(roomId, redacted);
+            return;
+        }
+
+        if (event.type === 'm.room.encrypted') {
+            this.encryptedRooms.add(roomId);
+            if (!this.notifiedEncryptedRooms.has(roomId)) {
+                this.notifiedEncryptedRooms.add(roomId);
+                await this.sendEvent(roomId, 'm.room.message', { msgtype: 'm.notice', body: ENCRYPTED_ROOM_NOTICE });
+            }
+            return;
+        }
+
+        // Notices are sent by bots; answering them risks loops
+        if (event.type !== 'm.room.message' || !event.content.msgtype || event.content.msgtype === 'm.notice') return;
+
+        const relation = event.content['m.relates_to'];
+        const sender = {
+            id: event.sender,
+            name: this.displayNames.get(event.sender) ?? event.sender,
+        };
+
+        if (relation?.rel_type === 'm.replace' && relation.event_id) {
+            await this.onMessageEdit?.({
+                id: relation.event_id,
+                channelType: 'matrix',
+                channelId: roomId,
+                content: event.content['m.new_content']?.body ?? event.content.body ?? '',
+                contentType: 'text',
+                sender,
+                timestamp: new Date(event.origin_server_ts),
+            });
+            return;
+        }
+
+        const body = this.stripReplyFallback(event.content.body ?? '');
+        const mentioned = body.includes(this.userId) || (!!this.localpart() && body.toLowerCase().includes(this.localpart().toLowerCase()));
+        if (this.requireMention && !mentioned && !this.isDirectRoom(roomId)) return;
+
+        const attachments = this.toAttachments(event);
+        const threadId = relation?.rel_type === 'm.thread' ? relation.event_id : undefined;
+        const replyTo = relation?.['m.in_reply_to']?.event_id;
+
+        const channelMessage: ChannelMessage = {
+            id: event.event_id,
+            channelType: 'matrix',
+            channelId: roomId,
+            threadId,
+            content: body,
+            contentType: attachments.length > 0
+                ? (attachments[0].type === 'image' ? 'image' : 'file')
+                : 'text',
+            attachments: attachments.length > 0 ? attachments : undefined,
+            sender,
+            timestamp: new Date(event.origin_server_ts),
+            replyTo: replyTo && !(threadId && relation?.is_falling_back) ? replyTo : undefined,
+            metadata: {
+                roomId,
+                encrypted: this.encryptedRooms.has(roomId),
+                mentioned,
+            },
+        };
+
+        await this.onMessage?.(channelMessage);
+    }
+
+    private localpart(): string {
+        return this.userId.replace(/^@/, '').split(':')[0] ?? '';
+    }
+
+    /**
+     * One-to-one rooms always get answers, even when mentions are required
+     */
+    private isDirectRoom(roomId: string): boolean {
+        return (this.memberCounts.get(roomId) ?? Infinity) <= 2;
+    }
+
+    /**
+     * Drop the quoted "> <@user> ..." fallback clients prepend to replies
+     */
+    private stripReplyFallback(body: string): string {
+        const lines = body.split('\n');
+        let index = 0;
+        while (index < lines.length && lines[index].startsWith('>')) index++;
+        if (index > 0 && lines[index] === '') index++;
+        return index > 0 ? lines.slice(index).join('\n') : body;
+    }
+
+    private toAttachments(event: MatrixEvent): ChannelAttachment[] {
+        const { msgtype, url, body, info } = event.content;
+        if (!url || !msgtype || !['m.image', 'm.file', 'm.audio', 'm.video'].includes(msgtype)) return [];
+
+        const mxc = url.match(/^mxc:\/\/([^/]+)\/(.+)$/);
+        return [{
+            type: msgtype === 'm.image' ? 'image' : msgtype === 'm.audio' ? 'audio' : msgtype === 'm.video' ? 'video' : 'file',
+            url: mxc ? `${this.homeserverUrl}/_matrix/client/v1/media/download/${mxc[1]}/${mxc[2]}` : url,
+            name: body ?? 'attachment',
+            size: info?.size ?? 0,
+            mimeType: info?.mimetype,
+        }];
+    }
+}
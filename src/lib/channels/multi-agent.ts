@@ -16,7 +16,7 @@ import { AgentConfig, AgentMessage, AgentRole, AgentTool } from '@/types/agent';
 import type { ProviderId } from '@/lib/ai/providers/types';
 import { executeAgent } from '@/lib/agents/graph';
 import { getUserApiKeys } from '@/lib/ai/get-user-keys';
-import type { ToolContext } from '@/lib/tools';
+import type { ToolContext, ToolPolicy } from '@/lib/tools';
 import { getLocalAccessContext } from '@/lib/admin/settings';
 
 // ============================================================================
@@ -39,6 +39,7 @@ interface AgentExtraConfig {
     maxTokens?: number;
     thinkingBudget?: number;
     tools?: AgentTool[];
+    toolPolicy?: ToolPolicy;
     canSeeOtherAgents?: boolean;
     priority?: number;
     metadata?: Record<string, unknown>;
@@ -207,6 +208,7 @@ function convertDbAgentsToConfigs(
                 maxTokens: extraConfig.maxTokens,
                 thinkingBudget: extraConfig.thinkingBudget,
                 tools: extraConfig.tools || [],
+                toolPolicy: extraConfig.toolPolicy,
                 canSeeOtherAgents: extraConfig.canSeeOtherAgents ?? true,
                 priority: extraConfig.priority ?? 50,
                 isActive: true,
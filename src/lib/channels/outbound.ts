@@ -0,0 +1,605 @@
+/**
+ * Outbound Message Queue
+ *
+ * Every outbound channel message goes through a persistent outbox row:
+ * - immediate: the caller waits; a few quick retries, then the error is thrown
+ * - queued:    a background worker delivers with exponential backoff and
+ *              moves messages that keep failing to the dead-letter state
+ *
+ * Sends are paced per connector and per chat to stay under platform rate
+ * limits, and delivery/read receipts update channelMessages.status.
+ */
+
+import { db } from '@/lib/db';
+import { channelAccounts, channelMessages, channelOutbox, notifications } from '@/lib/db/schema';
+import type { OutboundMessageOptions } from '@/lib/db/schema';
+import { eq, and, lte, lt, gt, inArray, asc, desc } from 'drizzle-orm';
+import type { ChannelConnector, ChannelDeliveryReceipt, RichMessage } from './base';
+import { upsertThreadForMessage } from './handoff';
+import { prepareRichSend, richChoices, toRichMessage } from './rich';
+
+export type OutboxMessage = typeof channelOutbox.$inferSelect;
+
+export interface OutboundRequest {
+    userId: string;
+    channelType: string;
+    channelId: string;
+    content: string;
+    options?: OutboundMessageOptions;
+    /** Caller, recorded for the dead-letter view */
+    source?: string;
+    maxAttempts?: number;
+    /** Earliest time a queued message may be sent, for callers that pace their own sends */
+    notBefore?: Date;
+}
+
+/** Resolves the live connector for a destination (provided by ChannelManager) */
+export type ConnectorResolver = (userId: string, channelType: string, channelId: string) => ChannelConnector | undefined;
+
+interface RateWindow {
+    limit: number;
+    intervalMs: number;
+}
+
+interface RateLimit {
+    /** Across all chats of one connector */
+    global: RateWindow;
+    /** Per destination chat */
+    perChat?: RateWindow;
+    /** Per group chat, where platforms are stricter */
+    perGroupChat?: RateWindow;
+}
+
+// Published (or observed) platform limits, with some headroom
+const RATE_LIMITS: Record<string, RateLimit> = {
+    telegram: {
+        global: { limit: 30, intervalMs: 1000 },
+        perChat: { limit: 1, intervalMs: 1000 },
+        perGroupChat: { limit: 20, intervalMs: 60_000 },
+    },
+    discord: {
+        global: { limit: 50, intervalMs: 1000 },
+        perChat: { limit: 5, intervalMs: 5000 },
+    },
+    slack: {
+        global: { limit: 20, intervalMs: 1000 },
+        perChat: { limit: 1, intervalMs: 1000 },
+    },
+    teams: {
+        global: { limit: 50, intervalMs: 1000 },
+        perChat: { limit: 7, intervalMs: 1000 },
+    },
+    whatsapp: {
+        global: { limit: 10, intervalMs: 1000 },
+        perChat: { limit: 1, intervalMs: 1000 },
+    },
+    signal: {
+        global: { limit: 5, intervalMs: 1000 },
+        perChat: { limit: 1, intervalMs: 1000 },
+    },
+    matrix: {
+        global: { limit: 10, intervalMs: 1000 },
+        perChat: { limit: 5, intervalMs: 1000 },
+    },
+    irc: {
+        global: { limit: 1, intervalMs: 1000 },
+    },
+    email: {
+        global: { limit: 1, intervalMs: 1000 },
+    },
+};
+const DEFAULT_RATE_LIMIT: RateLimit = { global: { limit: 10, intervalMs: 1000 } };
+
+const IMMEDIATE_ATTEMPTS = 3;
+/** Longest an immediate send waits on a platform's retry-after */
+const MAX_INLINE_WAIT_MS = 30_000;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 20;
+/** Rows stuck in 'sending' this long (e.g. after a crash) are retried */
+const STALE_SENDING_MS = 5 * 60 * 1000;
+/** Queued messages whose channel never comes back are dead-lettered after this */
+const MAX_QUEUE_AGE_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_RANK: Record<string, number> = { pending: 0, sent: 1, delivered: 2, read: 3 };
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isGroupChat(channelType: string, channelId: string): boolean {
+    return channelType === 'telegram' && channelId.startsWith('-');
+}
+
+// ============================================================================
+// Error Classification
+// ============================================================================
+
+/**
+ * Whether a send error is worth retrying, and how long the platform asked us to wait
+ */
+export function classifySendError(error: unknown): { retryable: boolean; retryAfterMs?: number } {
+    const err = (error ?? {}) as {
+        message?: string;
+        error_code?: number;
+        status?: number;
+        code?: number | string;
+        retryAfter?: number;
+        retry_after?: number;
+        parameters?: { retry_after?: number };
+        data?: { retry_after?: number };
+    };
+
+    // grammY: parameters.retry_after; Slack: retryAfter; Discord: retry_after (all seconds)
+    const retryAfterSeconds = err.parameters?.retry_after ?? err.retryAfter ?? err.retry_after ?? err.data?.retry_after;
+    const status = err.error_code ?? err.status ?? (typeof err.code === 'number' ? err.code : undefined);
+
+    if (retryAfterSeconds !== undefined || status === 429) {
+        return { retryable: true, retryAfterMs: retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : undefined };
+    }
+    if (status !== undefined && [400, 401, 403, 404].includes(status)) {
+        return { retryable: false };
+    }
+
+    const message = err.message || String(error);
+    if (/chat not found|bot was blocked|blocked by the user|user is deactivated|not a member|forbidden|invalid (chat|channel|recipient)/i.test(message)) {
+        return { retryable: false };
+    }
+    return { retryable: true };
+}
+
+function backoffMs(attempt: number, retryAfterMs?: number): number {
+    const exponential = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempt - 1, 0), MAX_BACKOFF_MS);
+    return Math.max(exponential, retryAfterMs ?? 0);
+}
+
+// ============================================================================
+// Rate Limiter
+// ============================================================================
+
+/**
+ * Sliding-window limiter keyed by connector and chat
+ */
+class SlidingWindowLimiter {
+    private hits: Map<string, number[]> = new Map();
+
+    /**
+     * Wait until every window allows another send, then record it
+     */
+    async acquire(windows: { key: string; window: RateWindow }[]): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            let waitMs = 0;
+            for (const { key, window } of windows) {
+                const recent = this.prune(key, window, now);
+                if (recent.length >= window.limit) {
+                    waitMs = Math.max(waitMs, recent[0] + window.intervalMs - now);
+                }
+            }
+            if (waitMs <= 0) {
+                for (const { key } of windows) {
+                    this.hits.set(key, [...(this.hits.get(key) ?? []), now]);
+                }
+                return;
+            }
+            await sleep(waitMs);
+        }
+    }
+
+    private prune(key: string, window: RateWindow, now: number): number[] {
+        const recent = (this.hits.get(key) ?? []).filter(time => time > now - window.intervalMs);
+        if (recent.length > 0) {
+            this.hits.set(key, recent);
+        } else {
+            this.hits.delete(key);
+        }
+        return recent;
+    }
+}
+
+// ============================================================================
+// Outbound Queue
+// ============================================================================
+
+export class OutboundQueue {
+    private resolveConnector: ConnectorResolver;
+    private limiter = new SlidingWindowLimiter();
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private processing = false;
+
+    constructor(resolveConnector: ConnectorResolver) {
+        this.resolveConnector = resolveConnector;
+    }
+
+    /**
+     * Send now and wait for the result. Retries briefly on transient errors,
+     * then throws; the outbox row is marked failed.
+     */
+    async send(request: OutboundRequest): Promise<string> {
+        if (!this.resolveConnector(request.userId, request.channelType, request.channelId)) {
+            throw new Error(`Channel not connected: ${request.userId}:${request.channelType}:${request.channelId}`);
+        }
+
+        const [row] = await db.insert(channelOutbox)
+            .values({
+                ...(await this.destination(request)),
+                delivery: 'immediate',
+                status: 'sending',
+                maxAttempts: IMMEDIATE_ATTEMPTS,
+            })
+            .returning();
+
+        let lastError: unknown;
+        let attempt = 0;
+        while (attempt < IMMEDIATE_ATTEMPTS) {
+            attempt++;
+            try {
+                return await this.deliver(row, attempt);
+            } catch (error) {
+                lastError = error;
+                const { retryable, retryAfterMs } = classifySendError(error);
+                const waitMs = retryAfterMs ?? 1000 * 2 ** (attempt - 1);
+                if (!retryable || attempt === IMMEDIATE_ATTEMPTS || waitMs > MAX_INLINE_WAIT_MS) break;
+                console.warn(`[Outbound] Send to ${row.channelType}:${row.externalChatId} failed, retrying in ${waitMs}ms:`, error);
+                await sleep(waitMs);
+            }
+        }
+
+        await this.markFailed({ ...row, attempts: attempt }, 'failed', lastError);
+        throw lastError;
+    }
+
+    /**
+     * Persist a message for background delivery. Returns the outbox ID.
+     */
+    async enqueue(request: OutboundRequest): Promise<string> {
+        const [row] = await db.insert(channelOutbox)
+            .values({
+                ...(await this.destination(request)),
+                delivery: 'queued',
+                status: 'queued',
+                ...(request.maxAttempts && { maxAttempts: request.maxAttempts }),
+                ...(request.notBefore && { nextAttemptAt: request.notBefore }),
+            })
+            .returning();
+
+        console.log(`[Outbound] Queued message ${row.id} for ${row.channelType}:${row.externalChatId}`);
+        void this.processDue();
+        return row.id;
+    }
+
+    /**
+     * Put a failed or dead message back in the queue
+     */
+    async retry(userId: string, outboxId: string): Promise<OutboxMessage | null> {
+        const [row] = await db.update(channelOutbox)
+            .set({ status: 'queued', delivery: 'queued', attempts: 0, nextAttemptAt: new Date(), lastError: null, updatedAt: new Date() })
+            .where(and(
+                eq(channelOutbox.id, outboxId),
+                eq(channelOutbox.userId, userId),
+                inArray(channelOutbox.status, ['failed', 'dead'])
+            ))
+            .returning();
+
+        if (row) void this.processDue();
+        return row ?? null;
+    }
+
+    /**
+     * Start polling for due messages
+     */
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => void this.processDue(), POLL_INTERVAL_MS);
+        this.timer.unref?.();
+        console.log('[Outbound] Queue worker started');
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Apply a platform receipt to the stored outbound message.
+     * Statuses only move forward (sent → delivered → read).
+     */
+    async applyReceipt(channelAccountId: string, receipt: ChannelDeliveryReceipt): Promise<void> {
+        const allowedFrom = receipt.status === 'failed'
+            ? ['pending', 'sent']
+            : Object.keys(STATUS_RANK).filter(status => STATUS_RANK[status] < STATUS_RANK[receipt.status]);
+
+        await db.update(channelMessages)
+            .set({ status: receipt.status, ...(receipt.error && { errorMessage: receipt.error }) })
+            .where(and(
+                eq(channelMessages.channelAccountId, channelAccountId),
+                eq(channelMessages.externalMessageId, receipt.messageId),
+                eq(channelMessages.direction, 'outbound'),
+                inArray(channelMessages.status, allowedFrom)
+            ));
+    }
+
+    // =========================================================================
+    // Worker
+    // =========================================================================
+
+    /**
+     * Deliver queued messages whose next attempt is due
+     */
+    async processDue(): Promise<void> {
+        if (this.processing) return;
+        this.processing = true;
+
+        try {
+            const now = new Date();
+
+            // Background rows interrupted mid-send go back in the queue
+            await db.update(channelOutbox)
+                .set({ status: 'queued', updatedAt: now })
+                .where(and(
+                    eq(channelOutbox.status, 'sending'),
+                    eq(channelOutbox.delivery, 'queued'),
+                    lt(channelOutbox.updatedAt, new Date(now.getTime() - STALE_SENDING_MS))
+                ));
+
+            const due = await db.select()
+                .from(channelOutbox)
+                .where(and(eq(channelOutbox.status, 'queued'), lte(channelOutbox.nextAttemptAt, now)))
+                .orderBy(asc(channelOutbox.nextAttemptAt))
+                .limit(BATCH_SIZE);
+
+            for (const candidate of due) {
+                // Only deliver from the process that holds the connector
+                if (!this.resolveConnector(candidate.userId, candidate.channelType, candidate.externalChatId)) {
+                    if (candidate.createdAt.getTime() < now.getTime() - MAX_QUEUE_AGE_MS) {
+                        await this.markFailed(candidate, 'dead', new Error('Channel was not connected'));
+                    }
+                    continue;
+                }
+
+                // Claim the row so another worker cannot send it too
+                const [row] = await db.update(channelOutbox)
+                    .set({ status: 'sending', updatedAt: new Date() })
+                    .where(and(eq(channelOutbox.id, candidate.id), eq(channelOutbox.status, 'queued')))
+                    .returning();
+                if (!row) continue;
+
+                await this.attemptQueued(row);
+            }
+        } catch (error) {
+            console.error('[Outbound] Queue processing error:', error);
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    private async attemptQueued(row: OutboxMessage): Promise<void> {
+        const attempt = row.attempts + 1;
+        try {
+            await this.deliver(row, attempt);
+        } catch (error) {
+            const { retryable, retryAfterMs } = classifySendError(error);
+            if (!retryable || attempt >= row.maxAttempts) {
+                await this.markFailed({ ...row, attempts: attempt }, 'dead', error);
+                return;
+            }
+
+            const delayMs = backoffMs(attempt, retryAfterMs);
+            await db.update(channelOutbox)
+                .set({
+                    status: 'queued',
+                    attempts: attempt,
+                    lastError: error instanceof Error ? error.message : String(error),
+                    nextAttemptAt: new Date(Date.now() + delayMs),
+                    updatedAt: new Date(),
+                })
+                .where(eq(channelOutbox.id, row.id));
+            console.warn(`[Outbound] Message ${row.id} attempt ${attempt}/${row.maxAttempts} failed, retrying in ${Math.round(delayMs / 1000)}s`);
+        }
+    }
+
+    // =========================================================================
+    // Delivery
+    // =========================================================================
+
+    /**
+     * One rate-limited send attempt; records the outbound channel message on success
+     */
+    private async deliver(row: OutboxMessage, attempt: number): Promise<string> {
+        const connector = this.resolveConnector(row.userId, row.channelType, row.externalChatId);
+        if (!connector) {
+            throw new Error(`Channel not connected: ${row.userId}:${row.channelType}:${row.externalChatId}`);
+        }
+
+        const limits = RATE_LIMITS[row.channelType] ?? DEFAULT_RATE_LIMIT;
+        const connectorKey = `${row.userId}:${row.channelType}`;
+        const chatWindow = isGroupChat(row.channelType, row.externalChatId) ? limits.perGroupChat : limits.perChat;
+        await this.limiter.acquire([
+            { key: connectorKey, window: limits.global },
+            ...(chatWindow ? [{ key: `${connectorKey}:${row.externalChatId}`, window: chatWindow }] : []),
+        ]);
+
+        const options = row.options ?? {};
+        const prepared = prepareRichSend(connector, row.content, {
+            threadId: options.threadId,
+            replyTo: options.replyTo,
+            buttons: options.buttons,
+            rich: options.rich,
+        });
+        const externalMessageId = await connector.sendMessage(row.externalChatId, prepared.content, prepared.options);
+
+        // The message is out: bookkeeping failures must not turn into a resend
+        try {
+            await this.recordSent(row, attempt, externalMessageId);
+        } catch (error) {
+            console.error(`[Outbound] Message ${row.id} was sent but could not be recorded:`, error);
+        }
+
+        return externalMessageId;
+    }
+
+    /**
+     * Mark the outbox row sent first so the queue never picks it up again,
+     * then link it to the recorded channel message
+     */
+    private async recordSent(row: OutboxMessage, attempt: number, externalMessageId: string): Promise<void> {
+        await db.update(channelOutbox)
+            .set({
+                status: 'sent',
+                attempts: attempt,
+                externalMessageId,
+                lastError: null,
+                sentAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .where(eq(channelOutbox.id, row.id));
+
+        const channelMessageId = await this.recordMessage(row, { externalMessageId, status: 'sent' });
+        if (channelMessageId) {
+            await db.update(channelOutbox)
+                .set({ channelMessageId, updatedAt: new Date() })
+                .where(eq(channelOutbox.id, row.id));
+        }
+    }
+
+    /**
+     * Mark a message failed (immediate) or dead (queued), keeping a failed
+     * channel message so it shows up in the inbox
+     */
+    private async markFailed(row: OutboxMessage, status: 'failed' | 'dead', error: unknown): Promise<void> {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        try {
+            const channelMessageId = await this.recordMessage(row, {
+                externalMessageId: `outbox:${row.id}`,
+                status: 'failed',
+                errorMessage,
+            });
+            await db.update(channelOutbox)
+                .set({ status, attempts: row.attempts, lastError: errorMessage, channelMessageId, updatedAt: new Date() })
+                .where(eq(channelOutbox.id, row.id));
+
+            if (status === 'dead') {
+                // Broadcasts list failed recipients in their delivery report instead
+                if (row.source !== 'broadcast') {
+                    await db.insert(notifications).values({
+                        userId: row.userId,
+                        type: 'alert',
+                        title: `A ${row.channelType} message could not be delivered`,
+                        body: `${errorMessage}\n\n${row.content.slice(0, 200)}`,
+                        link: '/inbox',
+                        icon: 'AlertTriangle',
+                        metadata: { outboxId: row.id, channelType: row.channelType, source: row.source },
+                    });
+                }
+                console.error(`[Outbound] Message ${row.id} moved to dead letters after ${row.attempts} attempts: ${errorMessage}`);
+            }
+        } catch (recordError) {
+            console.error(`[Outbound] Could not record failure of message ${row.id}:`, recordError);
+        }
+    }
+
+    private async recordMessage(
+        row: OutboxMessage,
+        result: { externalMessageId: string; status: string; errorMessage?: string }
+    ): Promise<string | null> {
+        if (!row.channelAccountId) return null;
+
+        const options = row.options ?? {};
+        const thread = await upsertThreadForMessage(row.channelAccountId, {
+            channelId: row.externalChatId,
+            threadId: options.threadId,
+            sender: { id: '', name: '' },
+        });
+
+        const [message] = await db.insert(channelMessages)
+            .values({
+                channelAccountId: row.channelAccountId,
+                channelThreadId: thread.id,
+                externalMessageId: result.externalMessageId,
+                externalThreadId: options.threadId,
+                direction: 'outbound',
+                content: row.content,
+                contentType: 'text',
+                sentByUserId: options.sentByUserId,
+                status: result.status,
+                errorMessage: result.errorMessage,
+            })
+            .returning({ id: channelMessages.id });
+        return message.id;
+    }
+
+    /**
+     * Outbox columns for a request, including the account it belongs to
+     */
+    private async destination(request: OutboundRequest) {
+        // Try exact match first, then fall back to type-only match (bot platforms vary channelId per chat)
+        let [account] = await db.select({ id: channelAccounts.id })
+            .from(channelAccounts)
+            .where(and(
+                eq(channelAccounts.userId, request.userId),
+                eq(channelAccounts.channelType, request.channelType),
+                eq(channelAccounts.channelId, request.channelId)
+            ));
+
+        if (!account) {
+            [account] = await db.select({ id: channelAccounts.id })
+                .from(channelAccounts)
+                .where(and(
+                    eq(channelAccounts.userId, request.userId),
+                    eq(channelAccounts.channelType, request.channelType),
+                    eq(channelAccounts.isActive, true)
+                ))
+                .limit(1);
+        }
+
+        return {
+            userId: request.userId,
+            channelAccountId: account?.id ?? null,
+            channelType: request.channelType,
+            externalChatId: request.channelId,
+            content: request.content,
+            options: request.options,
+            source: request.source,
+        };
+    }
+}
+
+// ============================================================================
+// Pending Rich Messages
+// ============================================================================
+
+/** Numbered choices can be answered for this long after they were sent */
+const FALLBACK_REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const FALLBACK_LOOKBACK_MESSAGES = 3;
+
+/**
+ * The most recent rich message among the last few sent to a chat, if it is
+ * still answerable. A few, because the agent often follows a menu with a
+ * plain reply.
+ */
+export async function getPendingRichMessage(
+    channelAccountId: string,
+    chatId: string
+): Promise<{ rich: RichMessage; externalMessageId: string } | null> {
+    const recent = await db.select({ options: channelOutbox.options, externalMessageId: channelOutbox.externalMessageId })
+        .from(channelOutbox)
+        .where(and(
+            eq(channelOutbox.channelAccountId, channelAccountId),
+            eq(channelOutbox.externalChatId, chatId),
+            eq(channelOutbox.status, 'sent'),
+            gt(channelOutbox.sentAt, new Date(Date.now() - FALLBACK_REPLY_WINDOW_MS))
+        ))
+        .orderBy(desc(channelOutbox.sentAt))
+        .limit(FALLBACK_LOOKBACK_MESSAGES);
+
+    for (const row of recent) {
+        const rich = toRichMessage(row.options ?? undefined);
+        if (rich && row.externalMessageId && richChoices(rich).length) {
+            return { rich, externalMessageId: row.externalMessageId };
+        }
+    }
+    return null;
+}
@@ -0,0 +1,274 @@
+/**
+ * Rich Messages
+ *
+ * Helpers for RichMessage content (quick-reply buttons, select menus, cards,
+ * polls). Connectors with supportsRichMessages render it natively; everyone
+ * else gets the same content as text with numbered choices, and a reply
+ * with a number (or an option's label) comes back as the interaction a
+ * native button press would have produced.
+ */
+
+import { z } from 'zod';
+import type {
+    ChannelButtonClick,
+    ChannelConnector,
+    InteractionKind,
+    MessageButton,
+    RichMessage,
+    SendMessageOptions,
+} from './base';
+
+export interface RichChoice {
+    kind: InteractionKind;
+    /** Button ID, or the select/poll ID */
+    actionId: string;
+    /** Option value for selects, option text for polls */
+    value?: string;
+    label: string;
+}
+
+/** The interaction fields of a ChannelButtonClick */
+export type ChoiceSelection = Pick<ChannelButtonClick, 'buttonId' | 'kind' | 'values' | 'label'>;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+// Select and poll IDs are embedded in callback IDs, so they cannot contain ':'
+const blockIdSchema = z.string().min(1).max(32).regex(/^[\w.-]+$/, 'Use letters, digits, _, - or .');
+
+const buttonSchema = z.object({
+    id: z.string().min(1).max(64).describe('ID passed back when the button is pressed'),
+    label: z.string().min(1).max(80),
+    url: z.string().url().optional().describe('Open this link instead of calling back'),
+    style: z.enum(['primary', 'danger']).optional(),
+});
+
+export const richMessageSchema = z.object({
+    blocks: z.array(z.discriminatedUnion('type', [
+        z.object({
+            type: z.literal('buttons'),
+            buttons: z.array(buttonSchema).min(1).max(10),
+        }),
+        z.object({
+            type: z.literal('select'),
+            id: blockIdSchema,
+            placeholder: z.string().max(150).optional(),
+            options: z.array(z.object({
+                value: z.string().min(1).max(20).regex(/^[\w.-]+$/),
+                label: z.string().min(1).max(75),
+                description: z.string().max(100).optional(),
+            })).min(1).max(25),
+        }),
+        z.object({
+            type: z.literal('card'),
+            title: z.string().min(1).max(150),
+            subtitle: z.string().max(150).optional(),
+            text: z.string().max(2000).optional(),
+            imageUrl: z.string().url().optional(),
+            url: z.string().url().optional(),
+            buttons: z.array(buttonSchema).max(5).optional(),
+        }),
+        z.object({
+            type: z.literal('poll'),
+            id: blockIdSchema,
+            question: z.string().min(1).max(300),
+            options: z.array(z.string().min(1).max(55)).min(2).max(10),
+            allowMultiple: z.boolean().optional(),
+        }),
+    ])).min(1).max(10),
+});
+
+// ============================================================================
+// Callback IDs
+// ============================================================================
+
+/**
+ * Single-string ID for a choice, for platforms that only pass back one value
+ * per button (Telegram callback data, Slack action IDs, Discord custom IDs)
+ */
+export function choiceCallbackId(choice: Pick<RichChoice, 'kind' | 'actionId' | 'value'>): string {
+    return choice.kind === 'button' ? choice.actionId : `${choice.kind}:${choice.actionId}:${choice.value ?? ''}`;
+}
+
+export function parseChoiceCallbackId(callbackId: string): Omit<ChoiceSelection, 'label'> {
+    for (const kind of ['select', 'poll'] as const) {
+        const prefix = `${kind}:`;
+        if (!callbackId.startsWith(prefix)) continue;
+        const rest = callbackId.slice(prefix.length);
+        const separator = rest.indexOf(':');
+        if (separator > 0) {
+            return { kind, buttonId: rest.slice(0, separator), values: [rest.slice(separator + 1)] };
+        }
+    }
+    return { kind: 'button', buttonId: callbackId };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * The rich content of a send, with legacy `buttons` folded in
+ */
+export function toRichMessage(options?: SendMessageOptions): RichMessage | undefined {
+    const blocks = [
+        ...(options?.rich?.blocks ?? []),
+        ...(options?.buttons?.length ? [{ type: 'buttons' as const, buttons: options.buttons }] : []),
+    ];
+    return blocks.length ? { blocks } : undefined;
+}
+
+/**
+ * Everything the user can pick, in display order
+ */
+export function richChoices(rich: RichMessage): RichChoice[] {
+    const buttonChoices = (buttons: MessageButton[] = []): RichChoice[] => buttons
+        .filter(button => !button.url)
+        .map(button => ({ kind: 'button', actionId: button.id, label: button.label }));
+
+    return rich.blocks.flatMap((block): RichChoice[] => {
+        switch (block.type) {
+            case 'buttons':
+            case 'card':
+                return buttonChoices(block.buttons);
+            case 'select':
+                return block.options.map(option => ({
+                    kind: 'select',
+                    actionId: block.id,
+                    value: option.value,
+                    label: option.label,
+                }));
+            case 'poll':
+                return block.options.map(option => ({ kind: 'poll', actionId: block.id, value: option, label: option }));
+        }
+    });
+}
+
+/**
+ * Plain-text version of a rich message with numbered choices
+ */
+export function renderRichFallback(content: string, rich: RichMessage): string {
+    const sections = content.trim() ? [content.trim()] : [];
+    const links: string[] = [];
+
+    for (const block of rich.blocks) {
+        if (block.type === 'card') {
+            sections.push([
+                `*${block.title}*`,
+                block.subtitle,
+                block.text,
+                block.imageUrl,
+                block.url,
+            ].filter(Boolean).join('\n'));
+        } else if (block.type === 'poll') {
+            sections.push(`📊 ${block.question}`);
+        } else if (block.type === 'select' && block.placeholder) {
+            sections.push(block.placeholder);
+        }
+
+        const buttons = block.type === 'buttons' || block.type === 'card' ? block.buttons ?? [] : [];
+        links.push(...buttons.filter(button => button.url).map(button => `${button.label}: ${button.url}`));
+    }
+
+    const choices = richChoices(rich);
+    if (choices.length) {
+        const multiple = rich.blocks.some(block => block.type === 'poll' && block.allowMultiple);
+        sections.push([
+            ...choices.map((choice, index) => `${index + 1}. ${choice.label}`),
+            multiple ? 'Reply with one or more numbers (e.g. 1,3).' : 'Reply with a number to choose.',
+        ].join('\n'));
+    }
+    if (links.length) sections.push(links.join('\n'));
+
+    return sections.join('\n\n');
+}
+
+/**
+ * Whether the connector shows this rich message natively rather than as
+ * numbered text
+ */
+export function rendersRich(connector: ChannelConnector, rich: RichMessage): boolean {
+    return connector.supportsRichMessages && (connector.canRenderRich?.(rich) ?? true);
+}
+
+/**
+ * Content and options to hand to a connector: rich content for connectors
+ * that render it, numbered text for the rest
+ */
+export function prepareRichSend(
+    connector: ChannelConnector,
+    content: string,
+    options?: SendMessageOptions
+): { content: string; options?: SendMessageOptions } {
+    const rich = toRichMessage(options);
+    if (!rich) return { content, options };
+
+    if (rendersRich(connector, rich)) {
+        return { content, options: { ...options, buttons: undefined, rich } };
+    }
+    return {
+        content: renderRichFallback(content, rich),
+        options: { ...options, buttons: undefined, rich: undefined },
+    };
+}
+
+// ============================================================================
+// Fallback Replies
+// ============================================================================
+
+function normalizeLabel(value: string): string {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * The choice a text reply picks: "2", "1, 3" for multi-answer polls, or an
+ * option's label. Returns null when the reply is not a choice.
+ */
+export function matchFallbackReply(rich: RichMessage, text: string): ChoiceSelection | null {
+    const choices = richChoices(rich);
+    const trimmed = text.trim();
+    if (!choices.length || !trimmed) return null;
+
+    let picked: RichChoice[] = [];
+    if (/^\d+(\s*[,\s]\s*\d+)*$/.test(trimmed)) {
+        const numbers = [...new Set(trimmed.split(/[,\s]+/).map(Number))];
+        picked = numbers.map(n => choices[n - 1]);
+        if (picked.some(choice => !choice)) return null;
+    } else {
+        const label = normalizeLabel(trimmed);
+        const match = label && choices.find(choice => normalizeLabel(choice.label) === label);
+        if (match) picked = [match];
+    }
+    if (!picked.length) return null;
+
+    // Several numbers only make sense as votes in one multi-answer poll
+    const [first] = picked;
+    if (picked.length > 1) {
+        const poll = rich.blocks.find(block => block.type === 'poll' && block.id === first.actionId);
+        const samePoll = picked.every(choice => choice.kind === 'poll' && choice.actionId === first.actionId);
+        if (!samePoll || poll?.type !== 'poll' || !poll.allowMultiple) return null;
+    }
+
+    return {
+        buttonId: first.actionId,
+        kind: first.kind,
+        values: first.kind === 'button' ? undefined : picked.map(choice => choice.value!),
+        label: picked.map(choice => choice.label).join(', '),
+    };
+}
+
+/**
+ * Text standing in for an interaction in the conversation
+ */
+export function describeInteraction(click: ChoiceSelection): string {
+    const picked = click.label || click.values?.join(', ') || click.buttonId;
+    switch (click.kind) {
+        case 'select':
+            return `Selected: ${picked}`;
+        case 'poll':
+            return `Voted: ${picked}`;
+        default:
+            return picked;
+    }
+}
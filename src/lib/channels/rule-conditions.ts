@@ -0,0 +1,406 @@
+/**
+ * Auto-Reply Rule Conditions
+ *
+ * Rules are AND/OR/NOT trees over primitive conditions. Rules stored with
+ * triggerType 'conditions' keep their tree in triggerConfig; the older
+ * single-trigger rules ('keyword' | 'regex' | 'sender' | 'time' | 'all')
+ * are converted to an equivalent one-node tree.
+ *
+ * Expensive primitives (intent classification, database lookups) are
+ * evaluated lazily, cached per message and tried last in AND/OR nodes.
+ * They are supplied as RuleLookups by ./rules, so this module stays free
+ * of database access.
+ */
+
+import { z } from 'zod';
+import type { autoReplyRules } from '@/lib/db/schema';
+import type { ChannelMessage } from './base';
+
+// ============================================================================
+// Condition Types
+// ============================================================================
+
+export type RuleCondition =
+    | { type: 'and'; conditions: RuleCondition[] }
+    | { type: 'or'; conditions: RuleCondition[] }
+    | { type: 'not'; condition: RuleCondition }
+    | { type: 'all' }
+    | { type: 'keyword'; keywords: string[]; match?: 'any' | 'all' }
+    | { type: 'regex'; pattern: string; flags?: string }
+    | { type: 'sender'; senders: string[] }
+    | { type: 'time'; startHour: number; endHour: number; days?: number[]; timezone?: string }
+    | { type: 'attachment'; attachmentTypes?: Array<'image' | 'file' | 'audio' | 'video'>; mimeTypes?: string[] }
+    | { type: 'language'; languages: string[] }
+    | { type: 'intent'; intents: string[]; description?: string }
+    | { type: 'contact_tag'; tags: string[] }
+    | { type: 'first_message' };
+
+export type AutoReplyRule = typeof autoReplyRules.$inferSelect;
+export type RuleTrigger = Pick<AutoReplyRule, 'channelAccountId' | 'triggerType' | 'triggerPattern' | 'triggerConfig'>;
+
+export const TRIGGER_TYPES = ['keyword', 'regex', 'sender', 'time', 'all', 'conditions'] as const;
+
+export const ruleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() => z.discriminatedUnion('type', [
+    z.object({ type: z.literal('and'), conditions: z.array(ruleConditionSchema).min(1) }),
+    z.object({ type: z.literal('or'), conditions: z.array(ruleConditionSchema).min(1) }),
+    z.object({ type: z.literal('not'), condition: ruleConditionSchema }),
+    z.object({ type: z.literal('all') }),
+    z.object({
+        type: z.literal('keyword'),
+        keywords: z.array(z.string().min(1)).min(1),
+        match: z.enum(['any', 'all']).optional(),
+    }),
+    z.object({
+        type: z.literal('regex'),
+        pattern: z.string().min(1).refine(isValidRegex, 'Invalid regular expression'),
+        flags: z.string().regex(/^[imsu]*$/).optional(),
+    }),
+    z.object({ type: z.literal('sender'), senders: z.array(z.string().min(1)).min(1) }),
+    z.object({
+        type: z.literal('time'),
+        startHour: z.number().int().min(0).max(24),
+        endHour: z.number().int().min(0).max(24),
+        days: z.array(z.number().int().min(0).max(6)).optional(),
+        timezone: z.string().optional(),
+    }),
+    z.object({
+        type: z.literal('attachment'),
+        attachmentTypes: z.array(z.enum(['image', 'file', 'audio', 'video'])).optional(),
+        mimeTypes: z.array(z.string().min(1)).optional(),
+    }),
+    z.object({ type: z.literal('language'), languages: z.array(z.string().min(2).max(3)).min(1) }),
+    z.object({
+        type: z.literal('intent'),
+        intents: z.array(z.string().min(1).max(60)).min(1).max(20),
+        description: z.string().max(500).optional(),
+    }),
+    z.object({ type: z.literal('contact_tag'), tags: z.array(z.string().min(1)).min(1) }),
+    z.object({ type: z.literal('first_message') }),
+]));
+
+function isValidRegex(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The condition tree for a rule, converting legacy single triggers
+ */
+export function getRuleCondition(rule: RuleTrigger): RuleCondition | null {
+    switch (rule.triggerType) {
+        case 'conditions': {
+            const parsed = ruleConditionSchema.safeParse(rule.triggerConfig);
+            return parsed.success ? parsed.data : null;
+        }
+
+        case 'all':
+            return { type: 'all' };
+
+        case 'keyword':
+            if (!rule.triggerPattern) return null;
+            return {
+                type: 'keyword',
+                keywords: rule.triggerPattern.split(',').map(k => k.trim()).filter(Boolean),
+            };
+
+        case 'regex':
+            if (!rule.triggerPattern || !isValidRegex(rule.triggerPattern)) return null;
+            return { type: 'regex', pattern: rule.triggerPattern };
+
+        case 'sender': {
+            // Senders come from triggerConfig or, as the settings page saves them, the pattern
+            const senders = (rule.triggerConfig as { senders?: string[] } | null)?.senders
+                || rule.triggerPattern?.split(',').map(s => s.trim()).filter(Boolean)
+                || [];
+            return { type: 'sender', senders };
+        }
+
+        case 'time': {
+            const timeConfig = rule.triggerConfig as { startHour?: number; endHour?: number } | null;
+            // Legacy rules without a full window always matched
+            if (!timeConfig?.startHour || !timeConfig?.endHour) return { type: 'all' };
+            return { type: 'time', startHour: timeConfig.startHour, endHour: timeConfig.endHour };
+        }
+
+        default:
+            return null;
+    }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+export interface RuleContext {
+    userId: string;
+    channelAccountId: string;
+    message: ChannelMessage;
+    /** Time to evaluate time windows against (message time when replaying) */
+    now?: Date;
+}
+
+export interface ConditionTrace {
+    /** Position in the tree, e.g. "0.1" for the second child of the root's first child */
+    path: string;
+    type: RuleCondition['type'];
+    result: boolean;
+}
+
+/** Relative cost, so AND/OR try cheap checks before model calls */
+const CONDITION_COST: Record<RuleCondition['type'], number> = {
+    all: 0,
+    keyword: 0,
+    regex: 0,
+    sender: 0,
+    time: 0,
+    attachment: 0,
+    language: 1,
+    and: 2,
+    or: 2,
+    not: 2,
+    first_message: 3,
+    contact_tag: 3,
+    intent: 10,
+};
+
+/**
+ * Checks that need the database or a model, supplied by ./rules
+ */
+export interface RuleLookups {
+    /** Tags of the sender's CRM contact */
+    contactTags(context: RuleContext): Promise<string[]>;
+    /** Whether the sender never wrote to the account before this message */
+    isFirstMessage(context: RuleContext): Promise<boolean>;
+    /** The lower-cased intent the message expresses, or null for none */
+    classifyIntent(context: RuleContext, intents: string[], description?: string): Promise<string | null>;
+}
+
+/**
+ * Evaluates rule conditions for one message, caching lookups across rules
+ */
+export class RuleEvaluator {
+    private context: RuleContext;
+    private lookups: RuleLookups;
+    private language: string | null | undefined;
+    private contactTags: Promise<string[]> | null = null;
+    private firstMessage: Promise<boolean> | null = null;
+    private intents: Map<string, Promise<string | null>> = new Map();
+
+    constructor(context: RuleContext, lookups: RuleLookups) {
+        this.context = context;
+        this.lookups = lookups;
+    }
+
+    /**
+     * Does the rule's condition tree match this message?
+     */
+    async matches(rule: RuleTrigger, trace?: ConditionTrace[]): Promise<boolean> {
+        if (rule.channelAccountId && rule.channelAccountId !== this.context.channelAccountId) {
+            return false;
+        }
+        const condition = getRuleCondition(rule);
+        return condition ? this.evaluate(condition, trace) : false;
+    }
+
+    async evaluate(condition: RuleCondition, trace?: ConditionTrace[], path: string = '0'): Promise<boolean> {
+        const result = await this.evaluateNode(condition, trace, path);
+        trace?.push({ path, type: condition.type, result });
+        return result;
+    }
+
+    private async evaluateNode(condition: RuleCondition, trace: ConditionTrace[] | undefined, path: string): Promise<boolean> {
+        const { message } = this.context;
+        const content = message.content.toLowerCase();
+
+        switch (condition.type) {
+            case 'and':
+            case 'or': {
+                const children = condition.conditions
+                    .map((child, index) => ({ child, path: `${path}.${index}` }))
+                    .sort((a, b) => CONDITION_COST[a.child.type] - CONDITION_COST[b.child.type]);
+                for (const { child, path: childPath } of children) {
+                    const result = await this.evaluate(child, trace, childPath);
+                    if (condition.type === 'and' && !result) return false;
+                    if (condition.type === 'or' && result) return true;
+                }
+                return condition.type === 'and';
+            }
+
+            case 'not':
+                return !(await this.evaluate(condition.condition, trace, `${path}.0`));
+
+            case 'all':
+                return true;
+
+            case 'keyword': {
+                const keywords = condition.keywords.map(k => k.toLowerCase());
+                return condition.match === 'all'
+                    ? keywords.every(kw => content.includes(kw))
+                    : keywords.some(kw => content.includes(kw));
+            }
+
+            case 'regex':
+                try {
+                    return new RegExp(condition.pattern, condition.flags ?? 'i').test(message.content);
+                } catch {
+                    return false;
+                }
+
+            case 'sender':
+                return condition.senders.includes(message.sender.id) ||
+                    (!!message.sender.name && condition.senders.includes(message.sender.name));
+
+            case 'time':
+                return matchesTimeWindow(condition, this.context.now ?? new Date());
+
+            case 'attachment': {
+                const attachments = message.attachments ?? [];
+                return attachments.some(attachment =>
+                    (!condition.attachmentTypes?.length || condition.attachmentTypes.includes(attachment.type)) &&
+                    (!condition.mimeTypes?.length || condition.mimeTypes.some(type => attachment.mimeType?.startsWith(type)))
+                );
+            }
+
+            case 'language': {
+                if (this.language === undefined) {
+                    this.language = detectLanguage(message.content);
+                }
+                return !!this.language && condition.languages.map(l => l.toLowerCase()).includes(this.language);
+            }
+
+            case 'intent': {
+                const intent = await this.classifyIntent(condition.intents, condition.description);
+                return !!intent && condition.intents.some(i => i.toLowerCase() === intent);
+            }
+
+            case 'contact_tag': {
+                this.contactTags ??= this.lookups.contactTags(this.context);
+                const tags = (await this.contactTags).map(t => t.toLowerCase());
+                return condition.tags.some(tag => tags.includes(tag.toLowerCase()));
+            }
+
+            case 'first_message':
+                this.firstMessage ??= this.lookups.isFirstMessage(this.context);
+                return this.firstMessage;
+
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Classify the message into one of the given intents, once per intent set
+     */
+    private classifyIntent(intents: string[], description?: string): Promise<string | null> {
+        const key = [...intents].map(i => i.toLowerCase()).sort().join('|');
+        let cached = this.intents.get(key);
+        if (!cached) {
+            cached = this.lookups.classifyIntent(this.context, intents, description);
+            this.intents.set(key, cached);
+        }
+        return cached;
+    }
+}
+
+/**
+ * First enabled rule (by priority) whose conditions match
+ */
+export async function findMatchingRule(
+    rules: AutoReplyRule[],
+    evaluator: RuleEvaluator
+): Promise<AutoReplyRule | null> {
+    for (const rule of rules) {
+        if (rule.isEnabled === false) continue;
+        if (await evaluator.matches(rule)) return rule;
+    }
+    return null;
+}
+
+// ============================================================================
+// Primitive Helpers
+// ============================================================================
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Hour window check; windows may wrap midnight (e.g. 22 → 6)
+ */
+function matchesTimeWindow(
+    condition: Extract<RuleCondition, { type: 'time' }>,
+    now: Date
+): boolean {
+    let hour = now.getHours();
+    let day = now.getDay();
+
+    if (condition.timezone) {
+        try {
+            const parts = new Intl.DateTimeFormat('en-US', {
+                timeZone: condition.timezone,
+                hour: 'numeric',
+                hourCycle: 'h23',
+                weekday: 'short',
+            }).formatToParts(now);
+            hour = parseInt(parts.find(p => p.type === 'hour')?.value ?? String(hour), 10);
+            day = WEEKDAYS.indexOf(parts.find(p => p.type === 'weekday')?.value ?? '');
+        } catch {
+            // Unknown timezone: fall back to server time
+        }
+    }
+
+    if (condition.days?.length && !condition.days.includes(day)) return false;
+
+    const { startHour, endHour } = condition;
+    if (startHour === endHour) return true;
+    return startHour < endHour
+        ? hour >= startHour && hour < endHour
+        : hour >= startHour || hour < endHour;
+}
+
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+    [/[\u3040-\u30ff]/, 'ja'],
+    [/[\uac00-\ud7af]/, 'ko'],
+    [/[\u4e00-\u9fff]/, 'zh'],
+    [/[\u0600-\u06ff]/, 'ar'],
+    [/[\u0590-\u05ff]/, 'he'],
+    [/[\u0e00-\u0e7f]/, 'th'],
+    [/[\u0900-\u097f]/, 'hi'],
+    [/[\u0370-\u03ff]/, 'el'],
+    [/[\u0400-\u04ff]/, 'ru'],
+];
+
+const STOPWORDS: Record<string, string[]> = {
+    en: ['the', 'and', 'is', 'you', 'to', 'of', 'it', 'that', 'what', 'with', 'have', 'this', 'for', 'are', 'can'],
+    es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'por', 'para', 'es', 'una', 'con', 'como', 'pero', 'hola'],
+    fr: ['le', 'la', 'les', 'de', 'et', 'est', 'je', 'vous', 'pas', 'que', 'une', 'pour', 'avec', 'bonjour', 'merci'],
+    de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'sie', 'mit', 'ein', 'eine', 'zu', 'auf', 'hallo', 'danke'],
+    pt: ['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'com', 'não', 'uma', 'olá', 'obrigado'],
+    it: ['il', 'di', 'che', 'e', 'la', 'per', 'non', 'sono', 'una', 'con', 'ciao', 'grazie', 'come', 'questo', 'anche'],
+    nl: ['de', 'het', 'een', 'en', 'van', 'ik', 'is', 'niet', 'dat', 'je', 'met', 'voor', 'hallo', 'bedankt', 'zijn'],
+};
+
+/**
+ * Best-effort ISO 639-1 language guess from script and common words
+ */
+export function detectLanguage(text: string): string | null {
+    for (const [pattern, language] of SCRIPT_LANGUAGES) {
+        if (pattern.test(text)) return language;
+    }
+
+    const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+    if (words.length === 0) return null;
+
+    let best: string | null = null;
+    let bestScore = 0;
+    for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+        const score = words.filter(word => stopwords.includes(word)).length;
+        if (score > bestScore) {
+            best = language;
+            bestScore = score;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,149 @@
+/**
+ * Auto-Reply Rule Lookups
+ *
+ * The database and model checks behind the contact_tag, first_message and
+ * intent conditions of ./rule-conditions, and the evaluator wired to them.
+ */
+
+import { generateText } from 'ai';
+import { db } from '@/lib/db';
+import { channelMessages, contactIdentities, contactIdentityLinks, crmContacts } from '@/lib/db/schema';
+import { eq, and, ne, lt, sql } from 'drizzle-orm';
+import { getUserApiKeys } from '@/lib/ai/get-user-keys';
+import { getModelWithKey } from '@/lib/ai/providers/factory';
+import { checkBudget, recordUsage, readTokenUsage } from '@/lib/ai/usage';
+import type { ProviderId } from '@/lib/ai/providers/types';
+import { RuleEvaluator, type RuleContext, type RuleLookups } from './rule-conditions';
+
+/**
+ * Tags of the CRM contact matching the sender (by linked identity, channel ID, email, phone or name)
+ */
+async function loadContactTags(context: RuleContext): Promise<string[]> {
+    const { userId, message } = context;
+    const senderId = message.sender.id;
+    const senderName = message.sender.name;
+    if (!senderId && !senderName) return [];
+
+    const [contact] = await db.select({ tags: crmContacts.tags })
+        .from(crmContacts)
+        .where(and(
+            eq(crmContacts.userId, userId),
+            sql`(
+                ${crmContacts.id} IN (
+                    SELECT ${contactIdentities.crmContactId}
+                    FROM ${contactIdentityLinks}
+                    JOIN ${contactIdentities} ON ${contactIdentities.id} = ${contactIdentityLinks.identityId}
+                    WHERE ${contactIdentityLinks.userId} = ${userId}
+                        AND ${contactIdentityLinks.channelType} = ${message.channelType}
+                        AND ${contactIdentityLinks.externalId} = ${senderId}
+                )
+                OR ${crmContacts.externalIds} ->> ${message.channelType} = ${senderId}
+                OR lower(${crmContacts.email}) = lower(${senderId})
+                OR ${crmContacts.phone} = ${senderId}
+                OR (${senderName} <> '' AND ${crmContacts.name} = ${senderName})
+            )`
+        ))
+        .limit(1);
+
+    return contact?.tags ?? [];
+}
+
+/**
+
+/**
+ * Has this sender never written to the account before this message?
+ */
+async function loadIsFirstMessage(context: RuleContext): Promise<boolean> {
+    const { channelAccountId, message } = context;
+    if (!message.sender.id) return false;
+
+    const [earlier] = await db.select({ id: channelMessages.id })
+        .from(channelMessages)
+        .where(and(
+            eq(channelMessages.channelAccountId, channelAccountId),
+            eq(channelMessages.direction, 'inbound'),
+            eq(channelMessages.senderExternalId, message.sender.id),
+            ne(channelMessages.externalMessageId, message.id),
+            lt(channelMessages.createdAt, message.timestamp)
+        ))
+        .limit(1);
+
+    return !earlier;
+}
+
+const INTENT_MODELS: Array<{ modelId: string; provider: ProviderId }> = [
+    { modelId: 'gpt-4o-mini', provider: 'openai' },
+    { modelId: 'claude-3-5-haiku-20241022', provider: 'anthropic' },
+    { modelId: 'gemini-2.0-flash', provider: 'google' },
+    { modelId: 'openai/gpt-4o-mini', provider: 'openrouter' },
+];
+
+/**
+ * Ask a cheap model which of the intents the message expresses.
+ * Returns the lower-cased intent, or null for none / no model or budget available.
+ */
+async function classifyMessageIntent(
+    userId: string,
+    content: string,
+    intents: string[],
+    description?: string
+): Promise<string | null> {
+    if (!content.trim()) return null;
+
+    try {
+        const budget = await checkBudget(userId, 'auto_reply');
+        if (!budget.allowed) return null;
+
+        const apiKeys = await getUserApiKeys(userId);
+        let model;
+        let selectedModelId: string | undefined;
+        for (const { modelId, provider } of INTENT_MODELS) {
+            if (!apiKeys[provider]) continue;
+            try {
+                model = getModelWithKey(modelId, apiKeys);
+                selectedModelId = modelId;
+                break;
+            } catch {
+                continue;
+            }
+        }
+        if (!model || !selectedModelId) return null;
+
+        const result = await generateText({
+            model,
+            messages: [{
+                role: 'user',
+                content: [
+                    'Classify the intent of the message below.',
+                    description ? `Context: ${description}` : '',
+                    `Answer with exactly one of: ${intents.join(', ')}, none`,
+                    '',
+                    `Message: ${content.slice(0, 1000)}`,
+                ].filter(Boolean).join('\n'),
+            }],
+            temperature: 0,
+            maxOutputTokens: 10,
+        });
+        await recordUsage({ userId, feature: 'auto_reply', model: selectedModelId, ...readTokenUsage(result.usage) });
+
+        const answer = result.text.trim().toLowerCase().replace(/[^\p{L}\p{N}_ -]/gu, '');
+        return intents.map(i => i.toLowerCase()).find(i => i === answer) ?? null;
+    } catch (error) {
+        console.warn('[Rules] Intent classification failed:', error);
+        return null;
+    }
+}
+
+const ruleLookups: RuleLookups = {
+    contactTags: loadContactTags,
+    isFirstMessage: loadIsFirstMessage,
+    classifyIntent: (context, intents, description) =>
+        classifyMessageIntent(context.userId, context.message.content, intents, description),
+};
+
+/**
+ * An evaluator for one message, backed by the database and the user's models
+ */
+export function createRuleEvaluator(context: RuleContext): RuleEvaluator {
+    return new RuleEvaluator(context, ruleLookups);
+}
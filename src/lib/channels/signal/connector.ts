@@ -243,10 +243,10 @@ export class SignalConnector extends ChannelConnector {
                 args.push('--quote-author', channelId);
             }
 
-            await this.execSignalCli(args);
+            const output = await this.execSignalCli(args);
 
-            // signal-cli send returns a timestamp as the message ID
-            const timestamp = Date.now().toString();
+            // signal-cli send prints the sent message's timestamp, which is its ID (and what receipts refer to)
+            const timestamp = output.match(/\d{10,}/)?.[0] ?? Date.now().toString();
             console.log(`[Signal] Message sent to ${channelId}`);
             return timestamp;
         } catch (error) {
@@ -345,7 +345,7 @@ export class SignalConnector extends ChannelConnector {
     /**
      * Send a typing indicator
      */
-    async sendTypingIndicator(channelId: string): Promise<void> {
+    async sendTypingAction(channelId: string): Promise<void> {
         if (!this.isConnected()) throw new Error('Not connected');
         validateChannelId(channelId);
 
@@ -418,6 +418,29 @@ export class SignalConnector extends ChannelConnector {
             await this.handleDataMessage(envelope);
             return;
         }
+
+        // Handle delivery/read receipts for messages we sent
+        if (envelope.receiptMessage) {
+            await this.handleReceipt(envelope);
+        }
+    }
+
+    /**
+     * Report delivery and read receipts
+     */
+    private async handleReceipt(envelope: NonNullable<SignalEnvelope['envelope']>): Promise<void> {
+        const receipt = envelope.receiptMessage;
+        const type = receipt?.type?.toUpperCase();
+        const status = type === 'DELIVERY' ? 'delivered' : type === 'READ' || type === 'VIEWED' ? 'read' : null;
+        if (!status) return;
+
+        for (const timestamp of receipt?.timestamps ?? []) {
+            await this.onDeliveryReceipt?.({
+                channelId: envelope.sourceNumber ?? envelope.sourceUuid ?? '',
+                messageId: timestamp.toString(),
+                status,
+            });
+        }
     }
 
     /**
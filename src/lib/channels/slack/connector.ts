@@ -11,7 +11,11 @@ import {
     ChannelConfig,
     SendMessageOptions,
     ChannelAttachment,
+    MessageButton,
+    RichMessage,
 } from '../base';
+import { choiceCallbackId, parseChoiceCallbackId, toRichMessage } from '../rich';
+import type { Button, KnownBlock } from '@slack/bolt';
 
 // Lazy import slack bolt to avoid bundling issues
 let SlackApp: typeof import('@slack/bolt').App;
@@ -26,9 +30,93 @@ async function getSlackBolt() {
     return { App: SlackApp, LogLevel };
 }
 
+/**
+ * Block Kit layout for a rich message. Polls become a row of buttons.
+ */
+function buildBlocks(content: string, rich: RichMessage): KnownBlock[] {
+    const blocks: KnownBlock[] = content.trim()
+        ? [{ type: 'section', text: { type: 'mrkdwn', text: content } }]
+        : [];
+
+    // Link buttons still report an action, so they need their own unique IDs
+    let links = 0;
+    const toButton = (button: MessageButton): Button => ({
+        type: 'button',
+        text: { type: 'plain_text', text: button.label, emoji: true },
+        action_id: button.url ? `link:${links++}` : button.id,
+        ...(button.url ? { url: button.url } : {}),
+        ...(button.style ? { style: button.style } : {}),
+    });
+
+    for (const block of rich.blocks) {
+        switch (block.type) {
+            case 'buttons':
+                blocks.push({ type: 'actions', elements: block.buttons.map(toButton) });
+                break;
+            case 'select':
+                blocks.push({
+                    type: 'actions',
+                    elements: [{
+                        type: 'static_select',
+                        action_id: block.id,
+                        placeholder: { type: 'plain_text', text: block.placeholder || 'Choose an option' },
+                        options: block.options.map(option => ({
+                            text: { type: 'plain_text', text: option.label },
+                            value: option.value,
+                            ...(option.description ? { description: { type: 'plain_text' as const, text: option.description } } : {}),
+                        })),
+                    }],
+                });
+                break;
+            case 'card':
+                blocks.push({
+                    type: 'section',
+                    text: {
+                        type: 'mrkdwn',
+                        text: [
+                            `*${block.title}*`,
+                            block.subtitle && `_${block.subtitle}_`,
+                            block.text,
+                            block.url && `<${block.url}|Open>`,
+                        ].filter(Boolean).join('\n'),
+                    },
+                    ...(block.imageUrl ? { accessory: { type: 'image', image_url: block.imageUrl, alt_text: block.title } } : {}),
+                });
+                if (block.buttons?.length) {
+                    blocks.push({ type: 'actions', elements: block.buttons.map(toButton) });
+                }
+                break;
+            case 'poll':
+                blocks.push(
+                    { type: 'section', text: { type: 'mrkdwn', text: `📊 *${block.question}*` } },
+                    {
+                        type: 'actions',
+                        elements: block.options.map(option => toButton({
+                            id: choiceCallbackId({ kind: 'poll', actionId: block.id, value: option }),
+                            label: option,
+                        })),
+                    }
+                );
+                break;
+        }
+    }
+    return blocks;
+}
+
+/**
+ * Card titles and poll questions, for notifications of messages without text
+ */
+function richHeadline(rich: RichMessage): string {
+    return rich.blocks
+        .map(block => block.type === 'card' ? block.title : block.type === 'poll' ? block.question : '')
+        .filter(Boolean)
+        .join('\n');
+}
+
 export class SlackConnector extends ChannelConnector {
     readonly type = 'slack';
     readonly name = 'Slack';
+    readonly supportsRichMessages = true;
 
     private app: InstanceType<typeof import('@slack/bolt').App> | null = null;
     private config: ChannelConfig | null = null;
@@ -129,6 +217,38 @@ export class SlackConnector extends ChannelConnector {
             await this.onMessageDelete?.(event.channel, event.deleted_ts as string);
         });
 
+        // Handle button presses and select menu choices
+        this.app.action(/.*/, async ({ ack, body, action }) => {
+            await ack();
+            if (body.type !== 'block_actions' || !body.channel?.id || !body.message) return;
+
+            let selection;
+            if (action.type === 'button' && 'action_id' in action && !action.url) {
+                selection = { ...parseChoiceCallbackId(action.action_id), label: action.text.text };
+            } else if (action.type === 'static_select' && action.selected_option) {
+                selection = {
+                    buttonId: action.action_id,
+                    kind: 'select' as const,
+                    values: [action.selected_option.value],
+                    label: action.selected_option.text.text,
+                };
+            } else {
+                return;
+            }
+
+            await this.onButtonClick?.({
+                ...selection,
+                channelType: 'slack',
+                channelId: body.channel.id,
+                threadId: body.message.thread_ts as string | undefined,
+                messageId: body.message.ts as string,
+                sender: {
+                    id: body.user.id,
+                    name: body.user.name || 'Unknown User',
+                },
+            });
+        });
+
         await this.app.start();
         console.log('[Slack] Bot started in socket mode');
     }
@@ -152,9 +272,12 @@ export class SlackConnector extends ChannelConnector {
     ): Promise<string> {
         if (!this.app) throw new Error('Not connected');
 
+        const rich = toRichMessage(options);
         const result = await this.app.client.chat.postMessage({
             channel: channelId,
-            text: content,
+            // Notifications and clients without Block Kit show the plain text
+            text: content || (rich && richHeadline(rich)) || ' ',
+            blocks: rich ? buildBlocks(content, rich) : undefined,
             thread_ts: options?.threadId,
             mrkdwn: true,
         });
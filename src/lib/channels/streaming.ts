@@ -0,0 +1,176 @@
+/**
+ * Streaming Replies
+ *
+ * Shows an AI reply while it is being written: the first words are sent as
+ * a message that is then edited as more text arrives, throttled to what
+ * each platform tolerates. Replies longer than the platform's message limit
+ * continue in follow-up messages. Typing indicators cover the gaps while
+ * tools run.
+ */
+
+import type { ChannelMessage } from './base';
+import type { ChannelManager } from './manager';
+
+interface StreamLimits {
+    /** Minimum time between edits of the same message */
+    editIntervalMs: number;
+    /** Split into a new message beyond this many characters */
+    maxLength: number;
+}
+
+// Only platforms where edits are cheap and show up in place stream
+const STREAM_LIMITS: Record<string, StreamLimits> = {
+    // Room left for the HTML the connector adds
+    telegram: { editIntervalMs: 2000, maxLength: 3800 },
+    discord: { editIntervalMs: 1200, maxLength: 2000 },
+    slack: { editIntervalMs: 1500, maxLength: 3900 },
+    teams: { editIntervalMs: 2000, maxLength: 20000 },
+    matrix: { editIntervalMs: 1500, maxLength: 16000 },
+};
+
+/** Wait for this much text before posting, so the first message is not a single word */
+const MIN_INITIAL_LENGTH = 40;
+/** Platforms drop typing indicators after ~5 seconds */
+const TYPING_INTERVAL_MS = 4000;
+const CURSOR = ' ▍';
+
+/**
+ * Split text into messages of at most maxLength characters, preferring
+ * paragraph, line and word boundaries
+ */
+export function splitForLength(text: string, maxLength: number): string[] {
+    const parts: string[] = [];
+    let rest = text;
+    while (rest.length > maxLength) {
+        const window = rest.slice(0, maxLength);
+        const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf(' ')]
+            .find(index => index > maxLength / 2) ?? maxLength;
+        parts.push(rest.slice(0, breakAt).trimEnd());
+        rest = rest.slice(breakAt).trimStart();
+    }
+    if (rest || !parts.length) parts.push(rest);
+    return parts;
+}
+
+export class ReplyStream {
+    private messageIds: string[] = [];
+    /** Text currently shown in each message */
+    private shown: string[] = [];
+    private latest = '';
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private lastRenderAt = 0;
+    private lastTypingAt = 0;
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(
+        private manager: ChannelManager,
+        private userId: string,
+        private original: ChannelMessage,
+        private limits: StreamLimits
+    ) {}
+
+    /**
+     * Show the reply so far. Cheap to call on every token.
+     */
+    update(text: string): void {
+        this.latest = text;
+        if (this.timer) return;
+
+        const wait = Math.max(0, this.lastRenderAt + this.limits.editIntervalMs - Date.now());
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            void this.enqueue(() => this.render(this.latest + CURSOR, false).catch(error => {
+                console.warn(`[Streaming] Partial reply failed on ${this.original.channelType}:${this.original.channelId}:`, error);
+            }));
+        }, wait);
+    }
+
+    /**
+     * Show a typing indicator, e.g. while a tool runs
+     */
+    typing(): void {
+        if (Date.now() - this.lastTypingAt < TYPING_INTERVAL_MS) return;
+        this.lastTypingAt = Date.now();
+
+        const connector = this.manager.resolveConnector(this.userId, this.original.channelType, this.original.channelId);
+        connector?.sendTypingAction?.(this.original.channelId).catch(() => {
+            /* typing indicators are best effort */
+        });
+    }
+
+    /**
+     * Replace the streamed text with the final reply and return the ID of
+     * its last message
+     */
+    async finish(text: string): Promise<string> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.enqueue(() => this.render(text, true));
+        if (this.messageIds.length === 0) {
+            throw new Error('Failed to send reply');
+        }
+        return this.messageIds[this.messageIds.length - 1];
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        this.pending = this.pending.then(task, task);
+        return this.pending;
+    }
+
+    private async render(text: string, final: boolean): Promise<void> {
+        if (!final && this.messageIds.length === 0 && text.length - CURSOR.length < MIN_INITIAL_LENGTH) return;
+        this.lastRenderAt = Date.now();
+
+        const { channelType, channelId, threadId, id } = this.original;
+        const parts = splitForLength(text, this.limits.maxLength);
+
+        for (let i = 0; i < parts.length; i++) {
+            if (i < this.messageIds.length) {
+                if (this.shown[i] === parts[i]) continue;
+                try {
+                    await this.manager.editMessage(this.userId, channelType, channelId, this.messageIds[i], parts[i]);
+                } catch (error) {
+                    // Probably rate limited: partial text waits for the next render,
+                    // the final text waits out the window once
+                    if (!final) {
+                        console.warn(`[Streaming] Edit failed on ${channelType}:${channelId}:`, error);
+                        continue;
+                    }
+                    await new Promise(resolve => setTimeout(resolve, this.limits.editIntervalMs));
+                    await this.manager.editMessage(this.userId, channelType, channelId, this.messageIds[i], parts[i]);
+                }
+                this.shown[i] = parts[i];
+                continue;
+            }
+
+            const messageId = await this.manager.sendMessage(this.userId, channelType, channelId, parts[i], {
+                threadId,
+                replyTo: i === 0 ? id : undefined,
+            });
+            this.messageIds.push(messageId);
+            this.shown.push(parts[i]);
+        }
+
+        // The final text can be shorter than what was streamed (e.g. after humanizing)
+        if (final && this.messageIds.length > parts.length) {
+            const connector = this.manager.resolveConnector(this.userId, channelType, channelId);
+            for (const messageId of this.messageIds.splice(parts.length)) {
+                await connector?.deleteMessage(channelId, messageId).catch(error => {
+                    console.warn(`[Streaming] Could not delete surplus message on ${channelType}:${channelId}:`, error);
+                });
+            }
+            this.shown.length = parts.length;
+        }
+    }
+}
+
+/**
+ * A stream for replying to a message, or null when its platform does not
+ * support streaming
+ */
+export function createReplyStream(manager: ChannelManager, userId: string, original: ChannelMessage): ReplyStream | null {
+    const limits = STREAM_LIMITS[original.channelType];
+    return limits ? new ReplyStream(manager, userId, original, limits) : null;
+}
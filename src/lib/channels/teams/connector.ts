@@ -15,7 +15,10 @@ import {
     ChannelConfig,
     SendMessageOptions,
     ChannelAttachment,
+    MessageButton,
+    RichMessage,
 } from '../base';
+import { choiceCallbackId, parseChoiceCallbackId, toRichMessage, type ChoiceSelection } from '../rich';
 
 // Microsoft Bot Framework API endpoints
 const BOT_FRAMEWORK_TOKEN_URL = 'https://login.microsoftonline.com/botframework.com/oauth2/v2.0/token';
@@ -51,6 +54,8 @@ interface TeamsActivity {
         content?: unknown;
     }>;
     replyToId?: string;
+    /** Data of an Adaptive Card Action.Submit */
+    value?: Record<string, unknown>;
     serviceUrl: string;
     channelData?: {
         teamsChannelId?: string;
@@ -61,9 +66,110 @@ interface TeamsActivity {
     };
 }
 
+// Data we attach to Adaptive Card submit actions
+interface CardSubmitData {
+    callbackId: string;
+    label?: string;
+    /** Input.ChoiceSet whose value the submit carries, with option labels */
+    inputId?: string;
+    labels?: Record<string, string>;
+}
+
+/**
+ * Adaptive Card for a rich message. Selects and polls are choice sets with
+ * a submit button.
+ */
+function buildAdaptiveCard(rich: RichMessage): Record<string, unknown> {
+    const toAction = (button: MessageButton) => button.url
+        ? { type: 'Action.OpenUrl', title: button.label, url: button.url }
+        : {
+            type: 'Action.Submit',
+            title: button.label,
+            ...(button.style === 'danger' ? { style: 'destructive' } : button.style === 'primary' ? { style: 'positive' } : {}),
+            data: { callbackId: button.id, label: button.label } satisfies CardSubmitData,
+        };
+    const choiceSet = (
+        callbackId: string,
+        inputId: string,
+        choices: { title: string; value: string }[],
+        options: { placeholder?: string; multiple?: boolean; expanded?: boolean }
+    ) => [
+        {
+            type: 'Input.ChoiceSet',
+            id: inputId,
+            placeholder: options.placeholder,
+            isMultiSelect: options.multiple ?? false,
+            style: options.expanded ? 'expanded' : 'compact',
+            choices,
+        },
+        {
+            type: 'ActionSet',
+            actions: [{
+                type: 'Action.Submit',
+                title: 'Submit',
+                data: {
+                    callbackId,
+                    inputId,
+                    labels: Object.fromEntries(choices.map(choice => [choice.value, choice.title])),
+                } satisfies CardSubmitData,
+            }],
+        },
+    ];
+
+    const body: Record<string, unknown>[] = [];
+    for (const block of rich.blocks) {
+        switch (block.type) {
+            case 'buttons':
+                body.push({ type: 'ActionSet', actions: block.buttons.map(toAction) });
+                break;
+            case 'select':
+                body.push(...choiceSet(
+                    choiceCallbackId({ kind: 'select', actionId: block.id, value: '' }),
+                    `select_${block.id}`,
+                    block.options.map(option => ({ title: option.label, value: option.value })),
+                    { placeholder: block.placeholder }
+                ));
+                break;
+            case 'card': {
+                body.push(
+                    { type: 'TextBlock', text: block.title, weight: 'Bolder', size: 'Medium', wrap: true },
+                    ...(block.subtitle ? [{ type: 'TextBlock', text: block.subtitle, isSubtle: true, spacing: 'None', wrap: true }] : []),
+                    ...(block.imageUrl ? [{ type: 'Image', url: block.imageUrl, altText: block.title, size: 'Stretch' }] : []),
+                    ...(block.text ? [{ type: 'TextBlock', text: block.text, wrap: true }] : []),
+                );
+                const actions = [
+                    ...(block.url ? [{ type: 'Action.OpenUrl', title: 'Open', url: block.url }] : []),
+                    ...(block.buttons ?? []).map(toAction),
+                ];
+                if (actions.length) body.push({ type: 'ActionSet', actions });
+                break;
+            }
+            case 'poll':
+                body.push(
+                    { type: 'TextBlock', text: `📊 ${block.question}`, weight: 'Bolder', wrap: true },
+                    ...choiceSet(
+                        choiceCallbackId({ kind: 'poll', actionId: block.id, value: '' }),
+                        `poll_${block.id}`,
+                        block.options.map(option => ({ title: option, value: option })),
+                        { multiple: block.allowMultiple, expanded: true }
+                    )
+                );
+                break;
+        }
+    }
+
+    return {
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.4',
+        body,
+    };
+}
+
 export class TeamsConnector extends ChannelConnector {
     readonly type = 'teams';
     readonly name = 'Microsoft Teams';
+    readonly supportsRichMessages = true;
 
     private config: ChannelConfig | null = null;
     private appId: string = '';
@@ -170,6 +276,14 @@ export class TeamsConnector extends ChannelConnector {
             }));
         }
 
+        const rich = toRichMessage(options);
+        if (rich) {
+            activity.attachments = [
+                ...((activity.attachments as unknown[] | undefined) ?? []),
+                { contentType: 'application/vnd.microsoft.card.adaptive', content: buildAdaptiveCard(rich) },
+            ];
+        }
+
         const response = await fetch(url, {
             method: 'POST',
             headers: {
@@ -402,7 +516,7 @@ export class TeamsConnector extends ChannelConnector {
     /**
      * Send a typing indicator to a conversation
      */
-    async sendTypingIndicator(channelId: string): Promise<void> {
+    async sendTypingAction(channelId: string): Promise<void> {
         if (!this.isConnected()) throw new Error('Not connected');
 
         await this.ensureValidToken();
@@ -565,10 +679,48 @@ export class TeamsConnector extends ChannelConnector {
         }
     }
 
+    /**
+     * Turn an Adaptive Card submit into a button click
+     */
+    private async handleCardSubmit(activity: TeamsActivity, submit: CardSubmitData): Promise<void> {
+        const parsed = parseChoiceCallbackId(submit.callbackId);
+        let selection: ChoiceSelection = {
+            ...parsed,
+            label: submit.label,
+        };
+        if (submit.inputId) {
+            const values = String(activity.value?.[submit.inputId] ?? '').split(',').filter(Boolean);
+            if (!values.length) return;
+            selection = {
+                ...parsed,
+                values,
+                label: values.map(value => submit.labels?.[value] ?? value).join(', '),
+            };
+        }
+
+        await this.onButtonClick?.({
+            ...selection,
+            channelType: 'teams',
+            channelId: activity.conversation.id,
+            messageId: activity.replyToId ?? activity.id,
+            sender: {
+                id: activity.from.id,
+                name: activity.from.name ?? 'Unknown User',
+            },
+        });
+    }
+
     /**
      * Handle an incoming message activity
      */
     private async handleMessageActivity(activity: TeamsActivity): Promise<void> {
+        // Adaptive Card submits arrive as messages carrying the action's data
+        const submit = activity.value as CardSubmitData | undefined;
+        if (typeof submit?.callbackId === 'string') {
+            await this.handleCardSubmit(activity, submit);
+            return;
+        }
+
         if (!activity.text && (!activity.attachments || activity.attachments.length === 0)) return;
 
         // Parse attachments
@@ -11,7 +11,10 @@ import {
   ChannelConfig,
   SendMessageOptions,
   ChannelAttachment,
+  MessageButton,
+  RichMessage,
 } from '../base';
+import { choiceCallbackId, parseChoiceCallbackId, toRichMessage } from '../rich';
 
 // Lazy import grammy to avoid bundling issues
 let Bot: typeof import('grammy').Bot;
@@ -156,6 +159,56 @@ function sanitizeForTelegramHTML(content: string): string {
   return result;
 }
 
+type InlineKeyboardButton = { text: string; callback_data: string } | { text: string; url: string };
+
+/**
+ * Inline keyboard rows for the buttons, select menus and card buttons of a
+ * rich message (polls are sent as native polls)
+ */
+function buildInlineKeyboard(rich: RichMessage): InlineKeyboardButton[][] {
+  const toKey = (button: MessageButton): InlineKeyboardButton =>
+    button.url ? { text: button.label, url: button.url } : { text: button.label, callback_data: button.id };
+
+  const rows: InlineKeyboardButton[][] = [];
+  for (const block of rich.blocks) {
+    if (block.type === 'buttons' || block.type === 'card') {
+      const buttons = block.buttons ?? [];
+      for (let i = 0; i < buttons.length; i += 3) {
+        rows.push(buttons.slice(i, i + 3).map(toKey));
+      }
+    } else if (block.type === 'select') {
+      rows.push(
+        ...block.options.map((option) => [
+          {
+            text: option.label,
+            callback_data: choiceCallbackId({ kind: 'select', actionId: block.id, value: option.value }),
+          },
+        ])
+      );
+    }
+  }
+  return rows;
+}
+
+/**
+ * Message text with cards and select prompts appended
+ */
+function formatRichText(content: string, rich: RichMessage): string {
+  const parts = content.trim() ? [content.trim()] : [];
+  for (const block of rich.blocks) {
+    if (block.type === 'card') {
+      parts.push(
+        [`**${block.title}**`, block.subtitle && `_${block.subtitle}_`, block.text, block.url]
+          .filter(Boolean)
+          .join('\n')
+      );
+    } else if (block.type === 'select' && block.placeholder) {
+      parts.push(block.placeholder);
+    }
+  }
+  return parts.join('\n\n');
+}
+
 /**
  * Strip all HTML tags for plain text fallback
  */
@@ -170,9 +223,15 @@ function stripHtmlTags(content: string): string {
 export class TelegramConnector extends ChannelConnector {
   readonly type = 'telegram';
   readonly name = 'Telegram';
+  readonly supportsRichMessages = true;
 
   private bot: InstanceType<typeof import('grammy').Bot> | null = null;
   private config: ChannelConfig | null = null;
+  /** Native polls we sent, by Telegram poll ID; votes on polls from before a restart are ignored */
+  private polls = new Map<
+    string,
+    { id: string; options: string[]; chatId: string; threadId?: string; messageId: string }
+  >();
 
   /**
    * Force-close any existing polling session for this bot token.
@@ -324,6 +383,55 @@ export class TelegramConnector extends ChannelConnector {
       await this.onMessage?.(channelMessage);
     });
 
+    // Handle inline button presses
+    this.bot.on('callback_query:data', async (ctx) => {
+      const query = ctx.callbackQuery;
+      await ctx.answerCallbackQuery().catch(() => {
+        /* query may have expired */
+      });
+      if (!query.message) return;
+
+      const pressed = query.message.reply_markup?.inline_keyboard
+        .flat()
+        .find((button) => 'callback_data' in button && button.callback_data === query.data);
+
+      await this.onButtonClick?.({
+        ...parseChoiceCallbackId(query.data),
+        label: pressed?.text,
+        channelType: 'telegram',
+        channelId: query.message.chat.id.toString(),
+        threadId: query.message.message_thread_id?.toString(),
+        messageId: query.message.message_id.toString(),
+        sender: {
+          id: query.from.id.toString(),
+          name: this.formatSenderName(query.from),
+        },
+      });
+    });
+
+    // Handle votes on native polls (only non-anonymous polls report voters)
+    this.bot.on('poll_answer', async (ctx) => {
+      const answer = ctx.pollAnswer;
+      const poll = this.polls.get(answer.poll_id);
+      if (!poll || !answer.user || !answer.option_ids.length) return;
+
+      const values = answer.option_ids.map((index) => poll.options[index]).filter(Boolean);
+      await this.onButtonClick?.({
+        buttonId: poll.id,
+        kind: 'poll',
+        values,
+        label: values.join(', '),
+        channelType: 'telegram',
+        channelId: poll.chatId,
+        threadId: poll.threadId,
+        messageId: poll.messageId,
+        sender: {
+          id: answer.user.id.toString(),
+          name: this.formatSenderName(answer.user),
+        },
+      });
+    });
+
     // Handle errors
     this.bot.catch((err) => {
       console.error('[Telegram] Bot error:', err);
@@ -388,8 +496,13 @@ export class TelegramConnector extends ChannelConnector {
   ): Promise<string> {
     if (!this.bot) throw new Error('Bot not connected');
 
+    const rich = toRichMessage(options);
+    const text = rich ? formatRichText(content, rich) : content;
+    const keyboard = rich ? buildInlineKeyboard(rich) : [];
+    const imageUrl = rich?.blocks.flatMap((block) => (block.type === 'card' && block.imageUrl ? [block.imageUrl] : []))[0];
+
     // Split long messages into Telegram-safe chunks
-    const chunks = splitMessage(content);
+    const chunks = text.trim() || keyboard.length ? splitMessage(text.trim() || '👇') : [];
     let lastMessageId = '';
 
     for (let i = 0; i < chunks.length; i++) {
@@ -403,6 +516,15 @@ export class TelegramConnector extends ChannelConnector {
       // Sanitize content for Telegram HTML
       const sanitizedContent = sanitizeForTelegramHTML(messageContent);
 
+      // Buttons go on the last chunk so they sit under the full message
+      const replyMarkup =
+        keyboard.length && i === chunks.length - 1 ? { inline_keyboard: keyboard } : undefined;
+      // A card image shows as the link preview of the first chunk
+      const linkPreview =
+        isFirst && imageUrl
+          ? { url: imageUrl, prefer_large_media: true, show_above_text: true }
+          : undefined;
+
       try {
         // Try sending with HTML formatting
         const result = await this.bot.api.sendMessage(channelId, sanitizedContent, {
@@ -410,6 +532,8 @@ export class TelegramConnector extends ChannelConnector {
           reply_to_message_id: isFirst && options?.replyTo ? parseInt(options.replyTo) : undefined,
           message_thread_id: options?.threadId ? parseInt(options.threadId) : undefined,
           parse_mode: 'HTML',
+          reply_markup: replyMarkup,
+          link_preview_options: linkPreview,
         });
         lastMessageId = result.message_id.toString();
       } catch (error) {
@@ -419,6 +543,8 @@ export class TelegramConnector extends ChannelConnector {
         const result = await this.bot.api.sendMessage(channelId, plainText, {
           reply_to_message_id: isFirst && options?.replyTo ? parseInt(options.replyTo) : undefined,
           message_thread_id: options?.threadId ? parseInt(options.threadId) : undefined,
+          reply_markup: replyMarkup,
+          link_preview_options: linkPreview,
         });
         lastMessageId = result.message_id.toString();
       }
@@ -435,6 +561,23 @@ export class TelegramConnector extends ChannelConnector {
       );
     }
 
+    for (const block of rich?.blocks ?? []) {
+      if (block.type !== 'poll') continue;
+      const result = await this.bot.api.sendPoll(channelId, block.question, block.options, {
+        is_anonymous: false,
+        allows_multiple_answers: block.allowMultiple ?? false,
+        message_thread_id: options?.threadId ? parseInt(options.threadId) : undefined,
+      });
+      lastMessageId ||= result.message_id.toString();
+      this.polls.set(result.poll.id, {
+        id: block.id,
+        options: block.options,
+        chatId: channelId,
+        threadId: options?.threadId,
+        messageId: result.message_id.toString(),
+      });
+    }
+
     return lastMessageId;
   }
 
@@ -11,6 +11,7 @@ import {
     ChannelConfig,
     SendMessageOptions,
     ChannelAttachment,
+    DeliveryStatus,
 } from '../base';
 
 import path from 'path';
@@ -110,6 +111,17 @@ function normalizeJid(channelId: string): string {
     return `${channelId}@s.whatsapp.net`;
 }
 
+/**
+ * Map a Baileys WAMessageStatus to a delivery status
+ * (0 ERROR, 1 PENDING, 2 SERVER_ACK, 3 DELIVERY_ACK, 4 READ, 5 PLAYED)
+ */
+function receiptStatus(status: number): DeliveryStatus | null {
+    if (status === 0) return 'failed';
+    if (status === 3) return 'delivered';
+    if (status >= 4) return 'read';
+    return null;
+}
+
 export class WhatsAppConnector extends ChannelConnector {
     readonly type = 'whatsapp';
     readonly name = 'WhatsApp';
@@ -286,10 +298,20 @@ export class WhatsAppConnector extends ChannelConnector {
             }
         });
 
-        // Handle message edits (protocol messages with edit info)
+        // Handle message edits (protocol messages with edit info) and receipts for sent messages
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         this.socket.ev.on('messages.update', async (updates: any[]) => {
             for (const update of updates) {
+                if (update.key?.fromMe && update.key.id && typeof update.update?.status === 'number') {
+                    const status = receiptStatus(update.update.status);
+                    if (status) {
+                        await this.onDeliveryReceipt?.({
+                            channelId: update.key.remoteJid ?? '',
+                            messageId: update.key.id,
+                            status,
+                        });
+                    }
+                }
                 if (update.update?.message) {
                     const editedContent = this.extractTextContent(update.update.message);
                     if (editedContent && update.key.remoteJid) {
@@ -117,6 +117,7 @@ async function loadConfigFromDatabase(): Promise<Partial<MaiaChatConfig> | null>
                 autoCaptureEnabled: true,
                 geminiRetrievalModel: settings.geminiRetrievalModel ?? "gemini-3-flash-preview",
                 memoryMaxChars: settings.memoryMaxChars ?? 4000,
+                embeddingModel: "openai/text-embedding-3-large", // Not stored in legacy DB table
             },
             channels: {
                 autoStartOnBoot: settings.autoStartChannels ?? false,
@@ -42,6 +42,7 @@ export const memorySchema = z.object({
     autoCaptureEnabled: z.boolean().default(true),
     geminiRetrievalModel: z.string().nullable().default("gemini-3-flash-preview"),
     memoryMaxChars: z.number().int().min(500).max(32000).default(4000),
+    embeddingModel: z.string().min(1).default("openai/text-embedding-3-large"),
 });
 
 export const skillsSchema = z.object({
@@ -151,7 +152,7 @@ export const maiaChatConfigSchema = z.object({
     notifications: notificationsSchema.optional().default({ failureNotifyOriginalChannel: true, failureNotifyTelegram: true, telegramUserId: null }),
     cli: cliSchema.optional().default({ enabled: false, defaultCli: "claude", skipPermissions: true, workspaceRoot: "./workspace", organizeByTask: true }),
     tools: toolsSchema.optional().default({ localFileAccessEnabled: false, commandExecutionEnabled: false, fileAccessBaseDir: null, workspaceQuotaMb: 100 }),
-    memory: memorySchema.optional().default({ autoSave: true, ragEnabled: true, userProfileMemoryEnabled: true, autoRecallEnabled: true, autoCaptureEnabled: true, geminiRetrievalModel: "gemini-3-flash-preview", memoryMaxChars: 4000 }),
+    memory: memorySchema.optional().default({ autoSave: true, ragEnabled: true, userProfileMemoryEnabled: true, autoRecallEnabled: true, autoCaptureEnabled: true, geminiRetrievalModel: "gemini-3-flash-preview", memoryMaxChars: 4000, embeddingModel: "openai/text-embedding-3-large" }),
     skills: skillsSchema.optional().default({ clawdbotSkillsEnabled: true, clawdbotSourcePath: "./clawdbot-source", enabledSkills: [] }),
     integrations: integrationsSchema.optional().default({
         google: { enabled: false, scopes: ["gmail.readonly", "gmail.send", "calendar.readonly"] },
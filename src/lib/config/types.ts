@@ -82,6 +82,8 @@ export interface MemoryConfig {
     geminiRetrievalModel: string | null;
     /** Max characters for memory context injected into prompts (default: 4000) */
     memoryMaxChars: number;
+    /** Embedding model for document RAG as "<provider>/<model>", e.g. "ollama/nomic-embed-text" */
+    embeddingModel: string;
 }
 
 export interface SkillsConfig {
@@ -1,5 +1,7 @@
-import { pgTable, uuid, text, timestamp, boolean, jsonb, integer, vector, index, unique } from "drizzle-orm/pg-core";
+import { pgTable, uuid, text, timestamp, boolean, jsonb, integer, index, unique, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { sql, relations } from "drizzle-orm";
+import type { MessageButton, RichMessage } from "@/lib/channels/base";
+import type { AgentGraphDefinition } from "@/types/agent";
 
 // Users Table
 export const users = pgTable("users", {
@@ -104,6 +106,19 @@ export const agents = pgTable("agents", {
     templateIdx: index("agents_template_idx").on(table.userId, table.isTemplate),
 }));
 
+// Agent Graphs Table - user-defined orchestration over saved agents
+export const agentGraphs = pgTable("agent_graphs", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    definition: jsonb("definition").$type<AgentGraphDefinition>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+    userIdIdx: index("agent_graphs_user_id_idx").on(table.userId),
+}));
+
 // Messages Table
 export const messages = pgTable("messages", {
     id: uuid("id").defaultRandom().primaryKey(),
@@ -140,13 +155,33 @@ export const usageRecords = pgTable("usage_records", {
     inputTokens: integer("input_tokens").default(0),
     outputTokens: integer("output_tokens").default(0),
     cost: integer("cost_usd_cents_e6"), // Cost in micro-cents (1/1,000,000 of a cent) or similar precision
+    feature: text("feature").default("chat").notNull(), // UsageFeature from lib/ai/usage
+    sourceId: text("source_id"), // Conversation, task, run or broadcast the call belongs to
     createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => {
     return {
         userIdIdx: index("usage_user_id_idx").on(table.userId),
+        userCreatedIdx: index("usage_user_created_idx").on(table.userId, table.createdAt),
     }
 });
 
+// Usage Budgets Table - monthly spending limits per user, overall or per feature
+export const usageBudgets = pgTable("usage_budgets", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    feature: text("feature").default("all").notNull(), // 'all' or a UsageFeature
+    setBy: text("set_by").default("user").notNull(), // 'user' | 'admin' - users cannot change admin budgets
+    monthlyLimitCents: integer("monthly_limit_cents").notNull(),
+    warnAtPercent: integer("warn_at_percent").default(80).notNull(),
+    hardStop: boolean("hard_stop").default(true).notNull(), // false = warn only
+    warnedPeriod: text("warned_period"), // 'YYYY-MM' of the last soft warning
+    exceededPeriod: text("exceeded_period"), // 'YYYY-MM' of the last limit-reached notice
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+    userFeatureUnique: unique("usage_budgets_user_feature_unique").on(table.userId, table.feature, table.setBy),
+}));
+
 // Feature Flags Table
 export const featureFlags = pgTable("feature_flags", {
     id: uuid("id").defaultRandom().primaryKey(),
@@ -261,6 +296,7 @@ export const documents = pgTable("documents", {
     status: text("status").notNull().default("uploaded"), // 'uploaded' | 'processing' | 'processed' | 'failed'
     processedText: text("processed_text"),
     chunkCount: integer("chunk_count").default(0),
+    currentVersion: integer("current_version").default(1).notNull(), // Version searched by default
     metadata: jsonb("metadata").default({}),
     deletedAt: timestamp("deleted_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -270,6 +306,25 @@ export const documents = pgTable("documents", {
     statusIdx: index("documents_status_idx").on(table.status),
 }));
 
+// RAG: Document Versions Table (one row per ingested upload)
+export const documentVersions = pgTable("document_versions", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    documentId: uuid("document_id").references(() => documents.id, { onDelete: "cascade" }).notNull(),
+    version: integer("version").notNull(),
+    filename: text("filename").notNull(),
+    mimeType: text("mime_type").notNull(),
+    size: integer("size").notNull(),
+    storageKey: text("storage_key").notNull(),
+    contentHash: text("content_hash").notNull(), // sha256 of the uploaded file
+    chunkCount: integer("chunk_count").default(0).notNull(),
+    reusedChunks: integer("reused_chunks").default(0).notNull(), // Chunks unchanged from the previous version
+    addedChunks: integer("added_chunks").default(0).notNull(),
+    removedChunks: integer("removed_chunks").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    documentVersionUnique: unique("document_versions_document_version_unique").on(table.documentId, table.version),
+}));
+
 // RAG: Chunks Table
 export const chunks = pgTable("chunks", {
     id: uuid("id").defaultRandom().primaryKey(),
@@ -279,21 +334,79 @@ export const chunks = pgTable("chunks", {
     startOffset: integer("start_offset"),
     endOffset: integer("end_offset"),
     metadata: jsonb("metadata").default({}),
+    version: integer("version").default(1).notNull(), // Document version this chunk belongs to
+    contentHash: text("content_hash"), // sha256 of content, matches unchanged chunks across versions
+    ingestionId: uuid("ingestion_id").references(() => documentVersions.id, { onDelete: "cascade" }), // Upload that created the chunk
     createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
     documentIdIdx: index("chunks_document_id_idx").on(table.documentId),
+    ingestionIdIdx: index("chunks_ingestion_id_idx").on(table.ingestionId),
     indexIdx: index("chunks_index_idx").on(table.documentId, table.index),
-}));
+    versionIdx: index("chunks_document_version_idx").on(table.documentId, table.version, table.contentHash),
+    contentFtsIdx: index("chunks_content_fts_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+}));
+
+// pgvector column without a fixed dimension, so rows from different embedding models can coexist
+const vectorAnyDimensions = customType<{ data: number[]; driverData: string }>({
+    dataType() {
+        return "vector";
+    },
+    toDriver(value) {
+        return JSON.stringify(value);
+    },
+    fromDriver(value) {
+        return value.slice(1, -1).split(",").map(Number);
+    },
+});
+
+// HNSW index over rows of one dimension; semantic search casts to the same size
+function embeddingHnswIndex(prefix: string, dimensions: number, embedding: AnyPgColumn, dimensionsColumn: AnyPgColumn) {
+    const size = sql.raw(String(dimensions));
+    return index(`${prefix}_${dimensions}_idx`)
+        .using("hnsw", sql`(${embedding}::vector(${size})) vector_cosine_ops`)
+        .where(sql`${dimensionsColumn} = ${size}`);
+}
 
 // RAG: Embeddings Table
 export const embeddings = pgTable("embeddings", {
     id: uuid("id").defaultRandom().primaryKey(),
     chunkId: uuid("chunk_id").references(() => chunks.id, { onDelete: "cascade" }).notNull(),
-    embedding: vector("embedding", { dimensions: 1536 }), // Default to OpenAI dims, adjust if dynamic
+    embedding: vectorAnyDimensions("embedding"),
+    model: text("model").default("openai/text-embedding-3-large").notNull(), // "<provider>/<model>"
+    dimensions: integer("dimensions").default(1536).notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
     chunkIdIdx: index("embeddings_chunk_id_idx").on(table.chunkId),
-    embeddingIndex: index("embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+    modelIdx: index("embeddings_model_idx").on(table.model, table.dimensions),
+    // OpenAI, mxbai/bge-m3, Google/nomic and MiniLM sizes
+    embedding1536Idx: embeddingHnswIndex("embedding", 1536, table.embedding, table.dimensions),
+    embedding1024Idx: embeddingHnswIndex("embedding", 1024, table.embedding, table.dimensions),
+    embedding768Idx: embeddingHnswIndex("embedding", 768, table.embedding, table.dimensions),
+    embedding384Idx: embeddingHnswIndex("embedding", 384, table.embedding, table.dimensions),
+}));
+
+// Model Route Samples Table - one per chat reply, for the semantic model router.
+// Quality labels come from the reply's feedback and regeneration in messages.metadata.
+export const modelRouteSamples = pgTable("model_route_samples", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+    conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+    messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }),
+    model: text("model").notNull(),
+    embedding: vectorAnyDimensions("embedding"), // Prompt embedding; null when embedding failed
+    embeddingModel: text("embedding_model"), // "<provider>/<model>"
+    dimensions: integer("dimensions"),
+    latencyMs: integer("latency_ms"),
+    error: boolean("error").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    modelCreatedIdx: index("model_route_samples_model_created_idx").on(table.model, table.createdAt),
+    embeddingModelIdx: index("model_route_samples_embedding_model_idx").on(table.embeddingModel, table.dimensions),
+    userIdx: index("model_route_samples_user_idx").on(table.userId, table.embeddingModel, table.dimensions),
+    embedding1536Idx: embeddingHnswIndex("model_route_samples_embedding", 1536, table.embedding, table.dimensions),
+    embedding1024Idx: embeddingHnswIndex("model_route_samples_embedding", 1024, table.embedding, table.dimensions),
+    embedding768Idx: embeddingHnswIndex("model_route_samples_embedding", 768, table.embedding, table.dimensions),
+    embedding384Idx: embeddingHnswIndex("model_route_samples_embedding", 384, table.embedding, table.dimensions),
 }));
 
 // Gemini File Search Stores Table
@@ -462,9 +575,17 @@ export const documentsRelations = relations(documents, ({ one, many }) => ({
         references: [users.id],
     }),
     chunks: many(chunks),
+    versions: many(documentVersions),
     geminiStoreDocuments: many(geminiStoreDocuments),
 }));
 
+export const documentVersionsRelations = relations(documentVersions, ({ one }) => ({
+    document: one(documents, {
+        fields: [documentVersions.documentId],
+        references: [documents.id],
+    }),
+}));
+
 export const chunksRelations = relations(chunks, ({ one, many }) => ({
     document: one(documents, {
         fields: [chunks.documentId],
@@ -514,6 +635,7 @@ export type ChannelConfig = {
     blockedUsers?: string[];
     responseDelay?: number;
     workingHours?: { start: string; end: string; timezone: string };
+    streamReplies?: boolean;        // Show replies as they are written by editing the message (default: true)
 
     // === MODEL SELECTION ===
     provider?: string;              // e.g., 'anthropic', 'openai', 'google', 'ollama'
@@ -567,6 +689,27 @@ export type ChannelConfig = {
 
     // === PER-CONTACT AUTO-REPLY ===
     contactRules?: Record<string, ContactRule>;  // Key = senderExternalId
+
+    // === HUMAN HANDOFF ===
+    handoffEnabled?: boolean;               // Escalate threads to a human operator (default: true)
+    handoffOnLowConfidence?: boolean;       // Escalate when the AI sounds unsure (default: true)
+    handoffTimeoutMinutes?: number;         // Return to AI after this long without operator activity (default: 30)
+    handoffMessage?: string;                // Sent to the user when a human is requested
+
+    // === CONTACT IDENTITY ===
+    crossChannelContext?: boolean;          // Show the AI what a linked contact said on other channels (default: true)
+    crossChannelMessages?: number;          // How many cross-channel messages to include (default: 10)
+
+    // === REPLY APPROVAL ===
+    approvalMode?: boolean;                 // Hold AI replies as drafts until approved
+    approvalChannel?: ApprovalChannel;      // Also ask for approval in another channel
+};
+
+// Where approval requests are forwarded (e.g. a Telegram chat with inline buttons)
+export type ApprovalChannel = {
+    channelType: string;      // Channel type of one of the user's connected accounts
+    chatId: string;           // Chat to post approval requests to
+    approverIds?: string[];   // Sender IDs allowed to decide (empty = anyone in the chat)
 };
 
 // Per-contact auto-reply override
@@ -582,7 +725,7 @@ export const channelAccounts = pgTable("channel_accounts", {
     userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
 
     // Channel identification
-    channelType: text("channel_type").notNull(), // 'slack' | 'discord' | 'telegram' | 'teams' | 'matrix' | 'webchat'
+    channelType: text("channel_type").notNull(), // 'slack' | 'discord' | 'telegram' | 'teams' | 'matrix' | 'irc' | 'email' | 'webchat'
     channelId: text("channel_id").notNull(), // External channel/workspace ID
     accountId: text("account_id").notNull(), // User's ID in that channel
 
@@ -609,6 +752,105 @@ export const channelAccounts = pgTable("channel_accounts", {
     uniqueChannel: unique("unique_channel_account").on(table.userId, table.channelType, table.channelId),
 }));
 
+// Contact Identities Table - one person across channels, optionally tied to a CRM contact
+export const contactIdentities = pgTable("contact_identities", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    displayName: text("display_name"),
+    crmContactId: uuid("crm_contact_id").references(() => crmContacts.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+    userIdx: index("contact_identities_user_idx").on(table.userId),
+    crmContactIdx: index("contact_identities_crm_contact_idx").on(table.crmContactId),
+}));
+
+// Contact Identity Links Table - sender IDs (and email addresses) that belong to an identity
+export const contactIdentityLinks = pgTable("contact_identity_links", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    identityId: uuid("identity_id").notNull().references(() => contactIdentities.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    channelType: text("channel_type").notNull(), // Email addresses use 'email'
+    externalId: text("external_id").notNull(), // senderExternalId on that channel
+    displayName: text("display_name"),
+    source: text("source").default("auto").notNull(), // 'auto' | 'manual' | 'suggestion'
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    linkUnique: unique("contact_identity_links_user_channel_external_unique").on(table.userId, table.channelType, table.externalId),
+    identityIdx: index("contact_identity_links_identity_idx").on(table.identityId),
+}));
+
+// Channel Threads Table - per-conversation handoff state between the AI and human operators
+export const channelThreads = pgTable("channel_threads", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    channelAccountId: uuid("channel_account_id").notNull().references(() => channelAccounts.id, { onDelete: "cascade" }),
+    conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+    contactIdentityId: uuid("contact_identity_id").references(() => contactIdentities.id, { onDelete: "set null" }),
+
+    // Thread identification (externalThreadId is '' for chats without threads)
+    externalChatId: text("external_chat_id").notNull(),
+    externalThreadId: text("external_thread_id").default("").notNull(),
+    senderExternalId: text("sender_external_id"),
+    senderDisplayName: text("sender_display_name"),
+
+    // Handoff state
+    mode: text("mode").default("ai").notNull(), // 'ai' | 'human' | 'paused'
+    handoffReason: text("handoff_reason"), // 'user_request' | 'low_confidence' | 'operator'
+    assignedUserId: uuid("assigned_user_id").references(() => users.id, { onDelete: "set null" }),
+    resumeAiAt: timestamp("resume_ai_at"), // Human mode falls back to AI after this time
+
+    lastInboundAt: timestamp("last_inbound_at"),
+    lastOperatorReplyAt: timestamp("last_operator_reply_at"),
+    // Connector state that must survive restarts (e.g. email subject and References)
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+    threadUnique: unique("channel_threads_account_chat_thread_unique").on(table.channelAccountId, table.externalChatId, table.externalThreadId),
+    modeIdx: index("channel_threads_mode_idx").on(table.channelAccountId, table.mode),
+    identityIdx: index("channel_threads_identity_idx").on(table.contactIdentityId),
+}));
+
+// Channel Reply Drafts Table - AI replies held for approval before sending
+export const channelReplyDrafts = pgTable("channel_reply_drafts", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    channelAccountId: uuid("channel_account_id").notNull().references(() => channelAccounts.id, { onDelete: "cascade" }),
+    channelThreadId: uuid("channel_thread_id").references(() => channelThreads.id, { onDelete: "set null" }),
+    conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+
+    // Where the reply goes
+    externalChatId: text("external_chat_id").notNull(),
+    externalThreadId: text("external_thread_id"),
+    replyToExternalId: text("reply_to_external_id"),
+
+    // Content
+    inboundContent: text("inbound_content"),
+    draftContent: text("draft_content").notNull(),
+    finalContent: text("final_content"), // Text actually sent (after edits)
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+
+    // Review
+    status: text("status").default("pending").notNull(), // 'pending' | 'approved' | 'sent' | 'rejected' | 'failed'
+    decidedByUserId: uuid("decided_by_user_id").references(() => users.id, { onDelete: "set null" }),
+    decidedVia: text("decided_via"), // 'inbox' | channel type the decision came from
+    decidedByExternalId: text("decided_by_external_id"), // Approver's ID on that channel
+    decidedAt: timestamp("decided_at"),
+    errorMessage: text("error_message"),
+
+    // Remote approval request (e.g. Telegram message with inline buttons)
+    approvalChannelType: text("approval_channel_type"),
+    approvalChatId: text("approval_chat_id"),
+    approvalMessageId: text("approval_message_id"),
+
+    sentExternalMessageId: text("sent_external_message_id"),
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    userStatusIdx: index("channel_reply_drafts_user_status_idx").on(table.userId, table.status),
+    approvalMessageIdx: index("channel_reply_drafts_approval_message_idx").on(table.approvalChatId, table.approvalMessageId),
+}));
+
 // Channel Attachment Type
 export type ChannelAttachment = {
     type: 'image' | 'file' | 'audio' | 'video';
@@ -623,6 +865,7 @@ export const channelMessages = pgTable("channel_messages", {
     id: uuid("id").defaultRandom().primaryKey(),
     channelAccountId: uuid("channel_account_id").notNull().references(() => channelAccounts.id, { onDelete: "cascade" }),
     conversationId: uuid("conversation_id").references(() => conversations.id),
+    channelThreadId: uuid("channel_thread_id").references(() => channelThreads.id, { onDelete: "set null" }),
 
     // Message identification
     externalMessageId: text("external_message_id").notNull(),
@@ -637,6 +880,7 @@ export const channelMessages = pgTable("channel_messages", {
     // Sender info
     senderExternalId: text("sender_external_id"),
     senderDisplayName: text("sender_display_name"),
+    sentByUserId: uuid("sent_by_user_id").references(() => users.id, { onDelete: "set null" }), // Operator who replied as the bot
 
     // Status
     status: text("status").default("pending"), // 'pending' | 'received' | 'sent' | 'delivered' | 'read' | 'failed'
@@ -653,6 +897,127 @@ export const channelMessages = pgTable("channel_messages", {
     channelAccountIdx: index("channel_messages_account_idx").on(table.channelAccountId),
     externalIdIdx: index("channel_messages_external_idx").on(table.externalMessageId),
     conversationIdx: index("channel_messages_conversation_idx").on(table.conversationId),
+    threadIdx: index("channel_messages_thread_idx").on(table.channelThreadId),
+}));
+
+// Options carried with a queued outbound message
+export type OutboundMessageOptions = {
+    threadId?: string;
+    replyTo?: string;
+    sentByUserId?: string;        // Operator who sent it as the bot
+    buttons?: MessageButton[];
+    rich?: RichMessage;            // Rendered natively, or as numbered text where unsupported
+};
+
+// Channel Outbox Table - persistent outbound queue with retries and dead-lettering
+export const channelOutbox = pgTable("channel_outbox", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    channelAccountId: uuid("channel_account_id").references(() => channelAccounts.id, { onDelete: "cascade" }),
+
+    // Destination
+    channelType: text("channel_type").notNull(),
+    externalChatId: text("external_chat_id").notNull(),
+    content: text("content").notNull(),
+    options: jsonb("options").$type<OutboundMessageOptions>(),
+    source: text("source"), // Caller, e.g. 'scheduler' | 'trigger' | 'proactive'
+
+    // Delivery state
+    delivery: text("delivery").default("queued").notNull(), // 'immediate' (caller waits) | 'queued' (background worker)
+    status: text("status").default("queued").notNull(), // 'queued' | 'sending' | 'sent' | 'failed' | 'dead'
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(6).notNull(),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastError: text("last_error"),
+
+    // Result
+    externalMessageId: text("external_message_id"),
+    channelMessageId: uuid("channel_message_id").references(() => channelMessages.id, { onDelete: "set null" }),
+    sentAt: timestamp("sent_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+    dueIdx: index("channel_outbox_due_idx").on(table.status, table.nextAttemptAt),
+    userStatusIdx: index("channel_outbox_user_status_idx").on(table.userId, table.status),
+}));
+
+// Audience of a broadcast, evaluated when it is sent
+export type BroadcastSegment = {
+    tags?: string[];              // CRM contacts with any of these tags
+    crmContactIds?: string[];     // Explicit contacts, in addition to tagged ones
+    allContacts?: boolean;        // Every CRM contact; required when tags and crmContactIds are empty
+    channelTypes: string[];       // Reachable channels, in order of preference
+};
+
+// Broadcasts Table - templated messages sent to a segment of CRM contacts
+export const broadcasts = pgTable("broadcasts", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+
+    // Message
+    template: text("template").notNull(), // {{firstName}}, {{company}}, ... substituted per recipient
+    variables: jsonb("variables").$type<Record<string, string>>(), // Defaults for variables a contact has no value for
+    segment: jsonb("segment").$type<BroadcastSegment>().notNull(),
+    personalize: boolean("personalize").default(false).notNull(), // Rewrite each message with an LLM
+    personalizationPrompt: text("personalization_prompt"),
+
+    // Delivery
+    messagesPerMinute: integer("messages_per_minute").default(20).notNull(),
+    status: text("status").default("draft").notNull(), // 'draft' | 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed'
+    scheduledAt: timestamp("scheduled_at"),
+    scheduledTaskId: uuid("scheduled_task_id").references(() => scheduledTasks.id, { onDelete: "set null" }),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"), // Every recipient handed to the outbound queue
+    error: text("error"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+    userStatusIdx: index("broadcasts_user_status_idx").on(table.userId, table.status),
+}));
+
+// Broadcast Recipients Table - one row per contact in the segment when the broadcast was sent
+export const broadcastRecipients = pgTable("broadcast_recipients", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    broadcastId: uuid("broadcast_id").notNull().references(() => broadcasts.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    crmContactId: uuid("crm_contact_id").references(() => crmContacts.id, { onDelete: "set null" }),
+    contactIdentityId: uuid("contact_identity_id").references(() => contactIdentities.id, { onDelete: "set null" }),
+    contactName: text("contact_name"),
+
+    // Destination (empty when the contact was not reachable)
+    channelType: text("channel_type"),
+    externalChatId: text("external_chat_id"),
+    content: text("content"), // Final text after substitution and personalization
+
+    status: text("status").default("pending").notNull(), // 'pending' | 'queued' | 'skipped' | 'failed' | 'cancelled'
+    skipReason: text("skip_reason"), // 'opted_out' | 'unreachable'
+    error: text("error"),
+    outboxId: uuid("outbox_id").references(() => channelOutbox.id, { onDelete: "set null" }),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+    broadcastIdx: index("broadcast_recipients_broadcast_idx").on(table.broadcastId),
+    chatIdx: index("broadcast_recipients_chat_idx").on(table.userId, table.channelType, table.externalChatId),
+}));
+
+// Contact Opt-Outs Table - contacts who asked not to receive broadcasts
+export const contactOptOuts = pgTable("contact_opt_outs", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    crmContactId: uuid("crm_contact_id").references(() => crmContacts.id, { onDelete: "cascade" }),
+    contactIdentityId: uuid("contact_identity_id").references(() => contactIdentities.id, { onDelete: "set null" }),
+    channelType: text("channel_type"), // Where the opt-out was received (null for manual opt-outs)
+    externalId: text("external_id"),
+    source: text("source").default("keyword").notNull(), // 'keyword' | 'manual'
+    broadcastId: uuid("broadcast_id").references(() => broadcasts.id, { onDelete: "set null" }), // Last broadcast before opting out
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    userContactIdx: index("contact_opt_outs_user_contact_idx").on(table.userId, table.crmContactId),
+    userSenderIdx: index("contact_opt_outs_user_sender_idx").on(table.userId, table.channelType, table.externalId),
 }));
 
 // Gateway Sessions Table - tracks active WebSocket connections
@@ -769,9 +1134,9 @@ export const autoReplyRules = pgTable("auto_reply_rules", {
     isEnabled: boolean("is_enabled").default(true),
 
     // Trigger conditions
-    triggerType: text("trigger_type").notNull(), // 'keyword' | 'regex' | 'sender' | 'time' | 'all'
+    triggerType: text("trigger_type").notNull(), // 'keyword' | 'regex' | 'sender' | 'time' | 'all' | 'conditions'
     triggerPattern: text("trigger_pattern"),
-    triggerConfig: jsonb("trigger_config"),
+    triggerConfig: jsonb("trigger_config"), // Condition tree when triggerType is 'conditions'
 
     // Action
     actionType: text("action_type").notNull(), // 'reply' | 'forward' | 'agent' | 'skill'
@@ -979,7 +1344,9 @@ export type CronPayload =
         to?: string;
         executionMode?: "model" | "agent";
         agentId?: string | null;
-    }; // Agent processes and optionally delivers
+    } // Agent processes and optionally delivers
+    | { kind: "workflow"; workflowId: string; input?: Record<string, unknown> } // Start a saved workflow
+    | { kind: "broadcast"; broadcastId: string }; // Send a scheduled broadcast
 
 // Cron Job State
 export type CronJobState = {
@@ -1027,6 +1394,8 @@ export type EventTriggerActionConfig = {
     notifyMethod?: 'message' | 'email';
     emailTo?: string;
     emailSubject?: string;
+    workflowId?: string;
+    workflowInput?: Record<string, unknown>;
 };
 
 // Event Triggers Table - react to external events
@@ -1037,7 +1406,7 @@ export const eventTriggers = pgTable("event_triggers", {
     description: text("description"),
     sourceType: text("source_type").notNull(), // 'webhook' | 'file_watch' | 'email' | 'schedule'
     sourceConfig: jsonb("source_config").$type<EventTriggerSourceConfig>(),
-    actionType: text("action_type").notNull(), // 'agent_turn' | 'notify' | 'skill'
+    actionType: text("action_type").notNull(), // 'agent_turn' | 'notify' | 'skill' | 'workflow'
     actionConfig: jsonb("action_config").$type<EventTriggerActionConfig>(),
     isEnabled: boolean("is_enabled").default(true),
     maxTriggersPerHour: integer("max_triggers_per_hour").default(60),
@@ -1061,10 +1430,12 @@ export const eventTriggerLogs = pgTable("event_trigger_logs", {
     error: text("error"),
     output: text("output"),
     durationMs: integer("duration_ms"),
+    workflowRunId: uuid("workflow_run_id").references(() => workflowRuns.id, { onDelete: "set null" }),
     triggeredAt: timestamp("triggered_at").defaultNow().notNull(),
 }, (table) => ({
     triggerLogsIdx: index("event_trigger_logs_trigger_idx").on(table.triggerId),
     triggeredAtIdx: index("event_trigger_logs_triggered_at_idx").on(table.triggeredAt),
+    workflowRunIdx: index("event_trigger_logs_workflow_run_idx").on(table.workflowRunId),
 }));
 
 // Boot Scripts Table - startup automation
@@ -1426,7 +1797,7 @@ export interface WorkflowDefinition {
 export interface WorkflowStepDefinition {
     id: string;
     name: string;
-    type: "tool" | "llm" | "condition" | "approval" | "transform";
+    type: "tool" | "llm" | "condition" | "approval" | "transform" | "parallel" | "forEach" | "workflow";
     tool?: string;
     action?: string;
     args?: Record<string, unknown>;
@@ -1443,6 +1814,30 @@ export interface WorkflowStepDefinition {
         output: string;
         expression: string;
     };
+    parallel?: {
+        branches: { id: string; steps: WorkflowStepDefinition[] }[];
+        continueOnBranchError?: boolean;
+    };
+    forEach?: {
+        items: string;
+        as?: string;
+        steps: WorkflowStepDefinition[];
+        concurrency?: number;
+        continueOnItemError?: boolean;
+    };
+    workflow?: {
+        workflowId: string;
+        input?: Record<string, unknown>;
+    };
+    retry?: {
+        maxAttempts: number;
+        initialDelayMs?: number;
+        backoffMultiplier?: number;
+        maxDelayMs?: number;
+        retryOn?: ("timeout" | "rate_limit" | "network" | "server" | "unknown")[];
+    };
+    timeoutMs?: number;
+    compensate?: WorkflowStepDefinition;
     onSuccess?: string; // Next step ID
     onFailure?: string; // Step ID on failure
     continueOnError?: boolean;
@@ -1479,6 +1874,18 @@ export const workflowRuns = pgTable("workflow_runs", {
     pendingApprovalItems: jsonb("pending_approval_items"),
     resumeToken: text("resume_token").unique(),
 
+    // Sub-workflow linkage (self-referential, set when started by a "workflow" step)
+    parentRunId: uuid("parent_run_id"),
+    parentStepId: text("parent_step_id"),
+    depth: integer("depth").default(0).notNull(),
+
+    // Debugging: dry runs stub tool calls, step mode pauses after every step
+    dryRun: boolean("dry_run").default(false).notNull(),
+    stepMode: boolean("step_mode").default(false).notNull(),
+    mocks: jsonb("mocks").$type<Record<string, unknown>>(),
+    nextStepId: text("next_step_id"), // Set while paused at a step-mode breakpoint
+    variables: jsonb("variables").$type<Record<string, unknown>>(),
+
     // Input/Output
     input: jsonb("input"),
     output: jsonb("output"),
@@ -1494,6 +1901,7 @@ export const workflowRuns = pgTable("workflow_runs", {
     userIdx: index("workflow_runs_user_idx").on(table.userId),
     statusIdx: index("workflow_runs_status_idx").on(table.status),
     resumeTokenIdx: index("workflow_runs_resume_token_idx").on(table.resumeToken),
+    parentRunIdx: index("workflow_runs_parent_run_idx").on(table.parentRunId),
 }));
 
 export const workflowApprovals = pgTable("workflow_approvals", {
@@ -1530,6 +1938,12 @@ export const workflowRunsRelations = relations(workflowRuns, ({ one, many }) =>
         references: [users.id],
     }),
     approvals: many(workflowApprovals),
+    parentRun: one(workflowRuns, {
+        fields: [workflowRuns.parentRunId],
+        references: [workflowRuns.id],
+        relationName: "parentChildRun",
+    }),
+    childRuns: many(workflowRuns, { relationName: "parentChildRun" }),
 }));
 
 export const workflowApprovalsRelations = relations(workflowApprovals, ({ one }) => ({
@@ -1573,7 +1987,7 @@ export const toolExecutionLogs = pgTable("tool_execution_logs", {
 export const notifications = pgTable("notifications", {
     id: uuid("id").defaultRandom().primaryKey(),
     userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
-    type: text("type").notNull(), // 'task_complete' | 'channel_message' | 'system' | 'alert' | 'proactive'
+    type: text("type").notNull(), // 'task_complete' | 'channel_message' | 'system' | 'alert' | 'proactive' | 'approval'
     title: text("title").notNull(),
     body: text("body"),
     link: text("link"), // optional link to navigate to
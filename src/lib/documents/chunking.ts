@@ -2,6 +2,8 @@
  * Document chunking strategies for RAG
  */
 
+import type { DocumentSection } from "./processors/types";
+
 export interface ChunkOptions {
     chunkSize?: number;      // Target chunk size in characters
     chunkOverlap?: number;   // Overlap between chunks in characters
@@ -16,6 +18,7 @@ export interface DocumentChunk {
     metadata?: {
         pageNumber?: number;
         sectionTitle?: string;
+        headingPath?: string[];
     };
 }
 
@@ -316,6 +319,46 @@ export function chunkDocument(
     }
 }
 
+/**
+ * Tag each chunk with the section (heading, slide, chapter) covering its
+ * midpoint. Only sections that report a startOffset are used.
+ */
+export function applySectionMetadata(
+    chunks: DocumentChunk[],
+    sections: DocumentSection[] = []
+): DocumentChunk[] {
+    const positioned = sections
+        .filter((section) => section.startOffset !== undefined)
+        .sort((a, b) => (a.startOffset ?? 0) - (b.startOffset ?? 0));
+
+    if (positioned.length === 0) {
+        return chunks;
+    }
+
+    return chunks.map((chunk) => {
+        const midpoint = (chunk.startOffset + chunk.endOffset) / 2;
+        let section: DocumentSection | undefined;
+        for (const candidate of positioned) {
+            if ((candidate.startOffset ?? 0) > midpoint) break;
+            section = candidate;
+        }
+
+        if (!section) {
+            return chunk;
+        }
+
+        return {
+            ...chunk,
+            metadata: {
+                ...chunk.metadata,
+                ...(section.title && { sectionTitle: section.title }),
+                ...(section.pageNumber !== undefined && { pageNumber: section.pageNumber }),
+                ...(section.headingPath && section.headingPath.length > 1 && { headingPath: section.headingPath }),
+            },
+        };
+    });
+}
+
 /**
  * Estimate token count (rough approximation)
  * Most models use ~4 characters per token on average
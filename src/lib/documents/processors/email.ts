@@ -0,0 +1,408 @@
+import type { DocumentProcessor, ProcessedDocument, ProcessorOptions, DocumentMetadata, DocumentSection } from "./types";
+import { extractHtmlText } from "./html";
+
+interface MimePart {
+    headers: Record<string, string>;
+    /** Raw body, one character per byte (latin1) */
+    body: string;
+}
+
+interface HeaderValue {
+    value: string;
+    params: Record<string, string>;
+}
+
+export interface MimeAttachment {
+    filename: string;
+    contentType: string;
+    content: Buffer;
+}
+
+export interface ParsedMessage {
+    headers: Record<string, string>;
+    bodies: string[];
+    attachments: MimeAttachment[];
+}
+
+interface RenderedMessage {
+    text: string;
+    sections: DocumentSection[];
+    headers: Record<string, string>;
+}
+
+// Nested message/rfc822 attachments deeper than this are listed but not expanded
+const MAX_MESSAGE_DEPTH = 5;
+
+const DISPLAY_HEADERS: [string, string][] = [
+    ["subject", "Subject"],
+    ["from", "From"],
+    ["to", "To"],
+    ["cc", "Cc"],
+    ["date", "Date"],
+];
+
+// ============================================================================
+// MIME parsing
+// ============================================================================
+
+function decodeText(bytes: Buffer, charset?: string): string {
+    try {
+        return new TextDecoder(charset || "utf-8").decode(bytes);
+    } catch {
+        // Unknown charset label
+        return bytes.toString("utf-8");
+    }
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?...?=)
+ */
+function decodeMimeWords(value: string): string {
+    return value
+        .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?[^?]+\?[bq]\?)/gi, "$1")
+        .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+            const bytes = encoding.toLowerCase() === "b"
+                ? Buffer.from(text, "base64")
+                : Buffer.from(
+                    text.replace(/_/g, " ").replace(/=([0-9a-f]{2})/gi, (__, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+                    "latin1"
+                );
+            return decodeText(bytes, charset);
+        });
+}
+
+/**
+ * Header values arrive as raw bytes; most modern mail sends UTF-8 directly
+ */
+function decodeHeader(raw: string): string {
+    const utf8 = Buffer.from(raw, "latin1").toString("utf-8");
+    return decodeMimeWords(utf8.includes("\uFFFD") ? raw : utf8).trim();
+}
+
+function parseHeaders(block: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of block.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+        const separator = line.indexOf(":");
+        if (separator <= 0) continue;
+        const name = line.slice(0, separator).trim().toLowerCase();
+        // Keep the first occurrence; later ones are usually trace headers
+        if (!(name in headers)) {
+            headers[name] = line.slice(separator + 1);
+        }
+    }
+    return headers;
+}
+
+function percentDecode(value: string, charset?: string): string {
+    const bytes = Buffer.from(
+        value.replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+        "latin1"
+    );
+    return decodeText(bytes, charset);
+}
+
+/**
+ * Parse a structured header such as Content-Type, including RFC 2231
+ * continued (name*0=) and charset-encoded (name*=utf-8''...) parameters
+ */
+function parseHeaderValue(header: string | undefined): HeaderValue {
+    const parts = (header ?? "").match(/(?:"(?:\\.|[^"\\])*"|[^;])+/g) ?? [];
+    const value = (parts.shift() ?? "").trim().toLowerCase();
+
+    const segments = new Map<string, { index: number; value: string; encoded: boolean }[]>();
+    for (const part of parts) {
+        const separator = part.indexOf("=");
+        if (separator <= 0) continue;
+        const name = part.slice(0, separator).trim().toLowerCase();
+        let raw = part.slice(separator + 1).trim();
+        if (raw.startsWith("\"") && raw.endsWith("\"")) {
+            raw = raw.slice(1, -1).replace(/\\(.)/g, "$1");
+        }
+
+        const match = name.match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+        if (!match) continue;
+        const list = segments.get(match[1]) ?? [];
+        list.push({ index: match[2] ? parseInt(match[2], 10) : 0, value: raw, encoded: !!match[3] });
+        segments.set(match[1], list);
+    }
+
+    const params: Record<string, string> = {};
+    for (const [name, list] of segments) {
+        let charset: string | undefined;
+        params[name] = list
+            .sort((a, b) => a.index - b.index)
+            .map((segment) => {
+                if (!segment.encoded) return decodeHeader(segment.value);
+                let encodedValue = segment.value;
+                const prefix = encodedValue.match(/^([^']*)'[^']*'/);
+                if (segment.index === 0 && prefix) {
+                    charset = prefix[1] || undefined;
+                    encodedValue = encodedValue.slice(prefix[0].length);
+                }
+                return percentDecode(encodedValue, charset);
+            })
+            .join("");
+    }
+
+    return { value, params };
+}
+
+function parsePart(source: string): MimePart {
+    if (/^\r?\n/.test(source)) {
+        return { headers: {}, body: source.replace(/^\r?\n/, "") };
+    }
+    const separator = source.match(/\r?\n\r?\n/);
+    if (!separator || separator.index === undefined) {
+        return { headers: parseHeaders(source), body: "" };
+    }
+    return {
+        headers: parseHeaders(source.slice(0, separator.index)),
+        body: source.slice(separator.index + separator[0].length),
+    };
+}
+
+function decodeBody(part: MimePart): Buffer {
+    const encoding = (part.headers["content-transfer-encoding"] ?? "").trim().toLowerCase();
+    if (encoding === "base64") {
+        return Buffer.from(part.body.replace(/\s+/g, ""), "base64");
+    }
+    if (encoding === "quoted-printable") {
+        return Buffer.from(
+            part.body
+                .replace(/=\r?\n/g, "")
+                .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+            "latin1"
+        );
+    }
+    return Buffer.from(part.body, "latin1");
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+    const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, "g");
+    const parts: string[] = [];
+    let start: number | null = null;
+    let match: RegExpExecArray | null;
+
+    while ((match = delimiter.exec(body)) !== null) {
+        if (start !== null) {
+            parts.push(body.slice(start, match.index));
+        }
+        if (match[1]) break;
+        start = match.index + match[0].length;
+    }
+    // Tolerate a missing closing delimiter
+    if (start !== null && !match) {
+        parts.push(body.slice(start));
+    }
+
+    return parts;
+}
+
+function partText(part: MimePart, contentType: HeaderValue): string {
+    const text = decodeText(decodeBody(part), contentType.params.charset);
+    return contentType.value === "text/html" ? extractHtmlText(text).text : text.replace(/\r\n?/g, "\n").trim();
+}
+
+function collectParts(part: MimePart, message: ParsedMessage): void {
+    const contentType = parseHeaderValue(part.headers["content-type"] ?? "text/plain");
+    const disposition = parseHeaderValue(part.headers["content-disposition"]);
+    const filename = disposition.params.filename ?? contentType.params.name;
+
+    if (contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+        const children = splitMultipart(part.body, contentType.params.boundary).map(parsePart);
+        if (contentType.value === "multipart/alternative") {
+            // Same content in several formats: prefer plain text, then HTML
+            const typeOf = (child: MimePart) => parseHeaderValue(child.headers["content-type"] ?? "text/plain").value;
+            const chosen = children.find(child => typeOf(child) === "text/plain")
+                ?? children.find(child => typeOf(child) === "text/html")
+                ?? children[children.length - 1];
+            if (chosen) collectParts(chosen, message);
+        } else {
+            children.forEach(child => collectParts(child, message));
+        }
+        return;
+    }
+
+    const isBodyText = contentType.value === "text/plain" || contentType.value === "text/html";
+    if (contentType.value === "message/rfc822" || disposition.value === "attachment" || (filename && !isBodyText)) {
+        message.attachments.push({
+            filename: filename || (contentType.value === "message/rfc822" ? "attached-message.eml" : "attachment"),
+            contentType: contentType.value,
+            content: decodeBody(part),
+        });
+        return;
+    }
+
+    if (isBodyText) {
+        const text = partText(part, contentType);
+        if (text) message.bodies.push(text);
+    }
+}
+
+/**
+ * Parse a raw RFC 822 message into decoded headers, readable bodies and attachments
+ */
+export function parseMessage(raw: Buffer): ParsedMessage {
+    const root = parsePart(raw.toString("latin1"));
+    const message: ParsedMessage = { headers: {}, bodies: [], attachments: [] };
+    for (const [name, value] of Object.entries(root.headers)) {
+        message.headers[name] = decodeHeader(value);
+    }
+    collectParts(root, message);
+    return message;
+}
+
+/**
+ * Split an mbox file into raw messages, undoing ">From " escaping
+ */
+function splitMbox(buffer: Buffer): Buffer[] {
+    return buffer
+        .toString("latin1")
+        .split(/(?:^|\r?\n)From [^\n]*\n/)
+        .map(message => message.replace(/^>(>*From )/gm, "$1"))
+        .filter(message => message.trim().length > 0)
+        .map(message => Buffer.from(message, "latin1"));
+}
+
+// ============================================================================
+// Processor
+// ============================================================================
+
+/**
+ * Email Processor (.eml and .mbox)
+ *
+ * Indexes headers and the readable body of each message. Attachments are
+ * run through the processor for their own file type, so a PDF attached to
+ * an email is searchable alongside the message.
+ */
+export class EmailProcessor implements DocumentProcessor {
+    supports(fileType: string): boolean {
+        return fileType === "eml" || fileType === "mbox";
+    }
+
+    async process(
+        buffer: Buffer,
+        filename: string,
+        options: ProcessorOptions = {}
+    ): Promise<ProcessedDocument> {
+        try {
+            const isMbox = filename.toLowerCase().endsWith(".mbox");
+            const rawMessages = isMbox ? splitMbox(buffer) : [buffer];
+
+            const sections: DocumentSection[] = [];
+            const parts: string[] = [];
+            let offset = 0;
+            let first: RenderedMessage | undefined;
+
+            for (const raw of rawMessages) {
+                const rendered = await this.renderMessage(raw, 0, options);
+                first ??= rendered;
+                sections.push(...this.shiftSections(rendered.sections, offset));
+                parts.push(rendered.text);
+                offset += rendered.text.length + 2;
+            }
+
+            const text = parts.join("\n\n");
+            const date = first?.headers.date ? new Date(first.headers.date) : undefined;
+
+            const metadata: DocumentMetadata = {
+                fileType: isMbox ? "mbox" : "eml",
+                originalFilename: filename,
+                fileSize: buffer.length,
+                wordCount: this.countWords(text),
+                characterCount: text.length,
+                title: isMbox ? undefined : first?.headers.subject || undefined,
+                author: isMbox ? undefined : first?.headers.from || undefined,
+                createdDate: !isMbox && date && !isNaN(date.getTime()) ? date : undefined,
+            };
+
+            return {
+                text,
+                metadata,
+                sections: sections.length > 0 ? sections : undefined,
+            };
+        } catch (error) {
+            console.error("Email processing error:", error);
+            throw new Error(`Failed to process email: ${error instanceof Error ? error.message : "Unknown error"}`);
+        }
+    }
+
+    private countWords(text: string): number {
+        return text.split(/\s+/).filter(word => word.length > 0).length;
+    }
+
+    private shiftSections(sections: DocumentSection[], offset: number, parentPath: string[] = []): DocumentSection[] {
+        return sections.map(section => ({
+            ...section,
+            startOffset: (section.startOffset ?? 0) + offset,
+            headingPath: [...parentPath, ...(section.headingPath ?? (section.title ? [section.title] : []))],
+        }));
+    }
+
+    private async renderMessage(raw: Buffer, depth: number, options: ProcessorOptions): Promise<RenderedMessage> {
+        const message = parseMessage(raw);
+        const subject = message.headers.subject || "(no subject)";
+
+        const headerLines = DISPLAY_HEADERS
+            .filter(([name]) => message.headers[name])
+            .map(([name, label]) => `${label}: ${message.headers[name]}`);
+        let text = [headerLines.join("\n"), ...message.bodies].filter(Boolean).join("\n\n");
+
+        const sections: DocumentSection[] = [{
+            title: subject,
+            content: message.bodies.join("\n\n"),
+            level: 1,
+            startOffset: 0,
+            headingPath: [subject],
+        }];
+
+        for (const attachment of message.attachments) {
+            const heading = `Attachment: ${attachment.filename}`;
+            const extracted = await this.extractAttachment(attachment, depth, options);
+            const block = extracted ? `${heading}\n\n${extracted.text}` : `${heading} (not indexed)`;
+            const attachmentOffset = text.length + 2;
+
+            sections.push({
+                title: heading,
+                content: extracted?.text ?? "",
+                level: 2,
+                startOffset: attachmentOffset,
+                headingPath: [subject, heading],
+            });
+            if (extracted) {
+                sections.push(...this.shiftSections(extracted.sections, attachmentOffset + heading.length + 2, [subject, heading]));
+            }
+            text += `\n\n${block}`;
+        }
+
+        return { text, sections, headers: message.headers };
+    }
+
+    private async extractAttachment(
+        attachment: MimeAttachment,
+        depth: number,
+        options: ProcessorOptions
+    ): Promise<{ text: string; sections: DocumentSection[] } | null> {
+        if (attachment.contentType === "message/rfc822" || attachment.filename.toLowerCase().endsWith(".eml")) {
+            if (depth >= MAX_MESSAGE_DEPTH) return null;
+            return this.renderMessage(attachment.content, depth + 1, options);
+        }
+
+        // Imported lazily: the registry imports this module
+        const { getFileType, getProcessor } = await import("./index");
+        const fileType = getFileType(attachment.filename, attachment.contentType);
+        const processor = fileType ? getProcessor(fileType) : null;
+        if (!processor || fileType === "mbox") return null;
+
+        try {
+            const processed = await processor.process(attachment.content, attachment.filename, options);
+            return processed.text ? { text: processed.text, sections: processed.sections ?? [] } : null;
+        } catch (error) {
+            console.warn(`Skipping email attachment ${attachment.filename}:`, error);
+            return null;
+        }
+    }
+}
+
+export const emailProcessor = new EmailProcessor();
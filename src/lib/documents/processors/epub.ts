@@ -0,0 +1,206 @@
+import JSZip from "jszip";
+import path from "path";
+import type { DocumentProcessor, ProcessedDocument, ProcessorOptions, DocumentMetadata, DocumentSection } from "./types";
+import { decodeHtmlEntities, extractHtmlText } from "./html";
+
+interface ManifestItem {
+    href: string;
+    mediaType: string;
+    properties: string;
+}
+
+const CHAPTER_MEDIA_TYPES = ["application/xhtml+xml", "text/html"];
+
+/**
+ * EPUB Processor
+ *
+ * Reads chapters in spine (reading) order. Chapter titles come from the
+ * table of contents, and each chapter's headings become nested sections.
+ */
+export class EpubProcessor implements DocumentProcessor {
+    supports(fileType: string): boolean {
+        return fileType === "epub";
+    }
+
+    async process(
+        buffer: Buffer,
+        filename: string,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        options: ProcessorOptions = {}
+    ): Promise<ProcessedDocument> {
+        try {
+            const zip = await JSZip.loadAsync(buffer);
+
+            const container = await zip.file("META-INF/container.xml")?.async("string");
+            const opfPath = container?.match(/<rootfile\b[^>]*\bfull-path="([^"]+)"/)?.[1];
+            const opf = opfPath ? await zip.file(opfPath)?.async("string") : undefined;
+            if (!opfPath || !opf) {
+                throw new Error("Missing package document");
+            }
+
+            const baseDir = path.posix.dirname(opfPath);
+            const manifest = this.parseManifest(opf, baseDir);
+            const tocTitles = await this.readTableOfContents(zip, opf, manifest);
+
+            const spine = [...opf.matchAll(/<itemref\b[^>]*\bidref="([^"]+)"/g)]
+                .map(match => manifest.get(match[1]))
+                .filter((item): item is ManifestItem => !!item && CHAPTER_MEDIA_TYPES.includes(item.mediaType));
+
+            const sections: DocumentSection[] = [];
+            const parts: string[] = [];
+            let offset = 0;
+            let chapterNumber = 0;
+
+            for (const item of spine) {
+                const html = await zip.file(item.href)?.async("string");
+                if (!html) continue;
+
+                const chapter = extractHtmlText(html);
+                if (!chapter.text) continue;
+                chapterNumber++;
+
+                const chapterTitle = tocTitles.get(item.href) || chapter.title || chapter.sections.find(s => s.title)?.title;
+                const firstHeading = chapter.sections.find(s => s.title && s.startOffset === 0);
+
+                // Chapters whose text does not open with their own title get one
+                let chapterText = chapter.text;
+                let headingOffset = 0;
+                if (chapterTitle && firstHeading?.title !== chapterTitle) {
+                    chapterText = `${chapterTitle}\n\n${chapter.text}`;
+                    headingOffset = chapterTitle.length + 2;
+                    sections.push({
+                        title: chapterTitle,
+                        content: chapter.text,
+                        level: 1,
+                        startOffset: offset,
+                        headingPath: [chapterTitle],
+                    });
+                }
+
+                for (const section of chapter.sections) {
+                    // Untitled lead-in text is already covered by the chapter section
+                    if (!section.title && headingOffset) continue;
+
+                    const inherited = section.headingPath ?? [];
+                    const headingPath = chapterTitle && inherited[0] !== chapterTitle
+                        ? [chapterTitle, ...inherited]
+                        : inherited;
+                    sections.push({
+                        ...section,
+                        title: section.title ?? chapterTitle,
+                        level: section.level !== undefined ? section.level + (headingOffset ? 1 : 0) : undefined,
+                        startOffset: offset + headingOffset + (section.startOffset ?? 0),
+                        headingPath: headingPath.length > 0 ? headingPath : undefined,
+                    });
+                }
+
+                parts.push(chapterText);
+                offset += chapterText.length + 2;
+            }
+
+            const text = parts.join("\n\n");
+            const readMeta = (tag: string) => {
+                const value = opf.match(new RegExp(`<dc:${tag}\\b[^>]*>([\\s\\S]*?)</dc:${tag}>`))?.[1];
+                return value ? decodeHtmlEntities(value.replace(/<[^>]+>/g, "")).trim() || undefined : undefined;
+            };
+            const date = readMeta("date");
+            const parsedDate = date ? new Date(date) : undefined;
+
+            const metadata: DocumentMetadata = {
+                fileType: "epub",
+                originalFilename: filename,
+                fileSize: buffer.length,
+                pageCount: chapterNumber,
+                wordCount: this.countWords(text),
+                characterCount: text.length,
+                title: readMeta("title"),
+                author: readMeta("creator"),
+                language: readMeta("language"),
+                createdDate: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : undefined,
+            };
+
+            return {
+                text,
+                metadata,
+                sections: sections.length > 0 ? sections : undefined,
+            };
+        } catch (error) {
+            console.error("EPUB processing error:", error);
+            throw new Error(`Failed to process EPUB: ${error instanceof Error ? error.message : "Unknown error"}`);
+        }
+    }
+
+    private countWords(text: string): number {
+        return text.split(/\s+/).filter(word => word.length > 0).length;
+    }
+
+    private resolveHref(baseDir: string, href: string): string {
+        const withoutFragment = href.split("#")[0];
+        let decoded = withoutFragment;
+        try {
+            decoded = decodeURIComponent(withoutFragment);
+        } catch {
+            // Keep malformed escapes as-is
+        }
+        return path.posix.normalize(path.posix.join(baseDir, decoded));
+    }
+
+    private parseManifest(opf: string, baseDir: string): Map<string, ManifestItem> {
+        const manifest = new Map<string, ManifestItem>();
+        for (const match of opf.matchAll(/<item\b[^>]*>/g)) {
+            const attribute = (name: string) => match[0].match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+            const id = attribute("id");
+            const href = attribute("href");
+            if (!id || !href) continue;
+            manifest.set(id, {
+                href: this.resolveHref(baseDir, decodeHtmlEntities(href)),
+                mediaType: attribute("media-type") ?? "",
+                properties: attribute("properties") ?? "",
+            });
+        }
+        return manifest;
+    }
+
+    /**
+     * Map chapter file paths to their table of contents titles, from the
+     * EPUB 3 navigation document or the EPUB 2 NCX
+     */
+    private async readTableOfContents(
+        zip: JSZip,
+        opf: string,
+        manifest: Map<string, ManifestItem>
+    ): Promise<Map<string, string>> {
+        const titles = new Map<string, string>();
+        const addTitle = (baseDir: string, href: string, label: string) => {
+            const target = this.resolveHref(baseDir, decodeHtmlEntities(href));
+            const title = decodeHtmlEntities(label.replace(/<[^>]+>/g, "")).replace(/\s+/g, " ").trim();
+            // The first entry pointing into a file names the chapter
+            if (title && !titles.has(target)) {
+                titles.set(target, title);
+            }
+        };
+
+        const nav = [...manifest.values()].find(item => item.properties.split(/\s+/).includes("nav"));
+        const navHtml = nav ? await zip.file(nav.href)?.async("string") : undefined;
+        const tocNav = navHtml?.match(/<nav\b[^>]*epub:type="toc"[^>]*>([\s\S]*?)<\/nav>/)?.[1];
+        if (nav && tocNav) {
+            for (const match of tocNav.matchAll(/<a\b[^>]*\bhref="([^"]+)"[^>]*>([\s\S]*?)<\/a>/g)) {
+                addTitle(path.posix.dirname(nav.href), match[1], match[2]);
+            }
+            return titles;
+        }
+
+        const ncxId = opf.match(/<spine\b[^>]*\btoc="([^"]+)"/)?.[1];
+        const ncx = (ncxId && manifest.get(ncxId)) || [...manifest.values()].find(item => item.mediaType === "application/x-dtbncx+xml");
+        const ncxXml = ncx ? await zip.file(ncx.href)?.async("string") : undefined;
+        if (ncx && ncxXml) {
+            for (const match of ncxXml.matchAll(/<navPoint\b[\s\S]*?<text>([\s\S]*?)<\/text>[\s\S]*?<content\b[^>]*\bsrc="([^"]+)"/g)) {
+                addTitle(path.posix.dirname(ncx.href), match[2], match[1]);
+            }
+        }
+
+        return titles;
+    }
+}
+
+export const epubProcessor = new EpubProcessor();
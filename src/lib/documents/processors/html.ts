@@ -0,0 +1,335 @@
+import type { DocumentProcessor, ProcessedDocument, ProcessorOptions, DocumentMetadata, DocumentSection } from "./types";
+
+export interface HtmlExtraction {
+    text: string;
+    title?: string;
+    author?: string;
+    language?: string;
+    sections: DocumentSection[];
+}
+
+// Elements that never carry document content
+const NON_CONTENT_TAGS = ["head", "script", "style", "noscript", "template", "svg", "iframe", "object", "canvas"];
+
+// Page chrome: navigation, footers, sidebars and forms. <header> is kept since
+// articles often put their title in one; site headers are caught by class/role.
+const CHROME_TAGS = ["nav", "footer", "aside", "form", "button", "select", "dialog"];
+
+// class/id/role values of chrome in generic sites, wikis and Confluence exports
+const CHROME_ATTRIBUTE_PATTERN = new RegExp(
+    "\\b(?:" + [
+        "breadcrumbs?",
+        "nav(?:bar|igation)?",
+        "menu",
+        "sidebar",
+        "toc",
+        "cookie[-_]?(?:banner|notice|consent)?",
+        "skip[-_]?link",
+        "site[-_]?(?:header|footer)",
+        "page[-_]?metadata",
+        "page[-_]?sidebar",
+        "footer",
+        "comment[-_]?container",
+        "likes?[-_]?(?:and[-_]?labels[-_]?container|section)",
+        "labels[-_]?section",
+        "social[-_]?share",
+        "share[-_]?buttons",
+        "advert(?:isement)?",
+        "banner",
+        "navigation",
+        "complementary",
+    ].join("|") + ")\\b",
+    "i"
+);
+
+const VOID_TAGS = new Set([
+    "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+const BLOCK_TAGS = [
+    "p", "div", "section", "article", "main", "blockquote", "pre", "table", "thead", "tbody", "tfoot",
+    "ul", "ol", "dl", "dt", "dd", "figure", "figcaption", "address", "details", "summary", "hr",
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: "\"",
+    apos: "'",
+    nbsp: "\u00a0",
+    ndash: "–",
+    mdash: "—",
+    hellip: "…",
+    lsquo: "‘",
+    rsquo: "’",
+    ldquo: "“",
+    rdquo: "”",
+    laquo: "«",
+    raquo: "»",
+    bull: "•",
+    middot: "·",
+    copy: "©",
+    reg: "®",
+    trade: "™",
+    deg: "°",
+    times: "×",
+    euro: "€",
+    pound: "£",
+    yen: "¥",
+    cent: "¢",
+    sect: "§",
+    para: "¶",
+    shy: "",
+    zwj: "",
+    zwnj: "",
+};
+
+// Heading markers survive tag stripping and are turned into sections afterwards
+const HEADING_START = "\uE000";
+const HEADING_END = "\uE001";
+
+/**
+ * Decode HTML/XML character references
+ */
+export function decodeHtmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+        if (name[0] === "#") {
+            const codePoint = name[1] === "x" || name[1] === "X"
+                ? parseInt(name.slice(2), 16)
+                : parseInt(name.slice(1), 10);
+            return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+                ? String.fromCodePoint(codePoint)
+                : entity;
+        }
+        const decoded = NAMED_ENTITIES[name.toLowerCase()];
+        return decoded !== undefined ? decoded : entity;
+    });
+}
+
+/**
+ * Remove whole elements (including nested children) whose opening tag
+ * matches the predicate. Uses tag-depth counting so nested elements of the
+ * same name are handled; unclosed elements run to the end of the document.
+ */
+function removeElements(html: string, shouldRemove: (tagName: string, attributes: string) => boolean): string {
+    const openTagPattern = /<([a-z][a-z0-9:-]*)(\s[^>]*)?>/gi;
+    let result = "";
+    let position = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = openTagPattern.exec(html)) !== null) {
+        const tagName = match[1].toLowerCase();
+        const attributes = match[2] ?? "";
+        if (VOID_TAGS.has(tagName) || attributes.trimEnd().endsWith("/") || !shouldRemove(tagName, attributes)) {
+            continue;
+        }
+
+        result += html.slice(position, match.index);
+
+        const sameTagPattern = new RegExp(`<(/?)${tagName.replace(/[-:]/g, "\\$&")}(?:\\s[^>]*)?>`, "gi");
+        sameTagPattern.lastIndex = match.index + match[0].length;
+        let depth = 1;
+        let end = html.length;
+        let inner: RegExpExecArray | null;
+        while ((inner = sameTagPattern.exec(html)) !== null) {
+            if (inner[0].endsWith("/>")) continue;
+            depth += inner[1] ? -1 : 1;
+            if (depth === 0) {
+                end = inner.index + inner[0].length;
+                break;
+            }
+        }
+
+        position = end;
+        openTagPattern.lastIndex = end;
+    }
+
+    return result + html.slice(position);
+}
+
+function isChromeElement(tagName: string, attributes: string): boolean {
+    if (CHROME_TAGS.includes(tagName)) {
+        return true;
+    }
+    if (/(?:^|\s)hidden(?=[\s=]|$)|aria-hidden\s*=\s*["']?true/i.test(attributes)) {
+        return true;
+    }
+    const values = [...attributes.matchAll(/\b(?:class|id|role)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi)]
+        .map((m) => m[1] ?? m[2] ?? "")
+        .join(" ");
+    // Main content containers are never chrome, even when named after their layout
+    if (/\b(?:main[-_]?content|article[-_]?body|wiki[-_]?content)\b/i.test(values)) {
+        return false;
+    }
+    return CHROME_ATTRIBUTE_PATTERN.test(values);
+}
+
+/**
+ * Pick the main content region when the page marks one up
+ */
+function selectMainContent(html: string): string {
+    const candidates = [
+        /<main\b[^>]*>([\s\S]*)<\/main>/i,
+        /<[a-z]+\b[^>]*\bid\s*=\s*["']main-content["'][^>]*>([\s\S]*)/i,
+        /<article\b[^>]*>([\s\S]*)<\/article>/i,
+        /<[a-z]+\b[^>]*\brole\s*=\s*["']main["'][^>]*>([\s\S]*)/i,
+    ];
+    for (const pattern of candidates) {
+        const match = html.match(pattern);
+        if (match && match[1].replace(/<[^>]+>/g, "").trim().length > 0) {
+            return match[1];
+        }
+    }
+    const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+    return body ? body[1] : html;
+}
+
+function stripTags(html: string): string {
+    return decodeHtmlEntities(html.replace(/<[^>]+>/g, "")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Extract readable text from an HTML page: drops scripts, navigation and
+ * other page chrome, keeps headings as sections and lists/tables as lines.
+ */
+export function extractHtmlText(html: string): HtmlExtraction {
+    const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+    const authorMatch = html.match(/<meta\s+[^>]*name\s*=\s*["']author["'][^>]*content\s*=\s*["']([^"']*)["']/i);
+    const languageMatch = html.match(/<html\b[^>]*\blang\s*=\s*["']([^"']+)["']/i);
+
+    let content = html.replace(/<!--[\s\S]*?-->/g, "").replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "");
+    content = removeElements(content, (tagName) => NON_CONTENT_TAGS.includes(tagName));
+    content = selectMainContent(content);
+    content = removeElements(content, isChromeElement);
+
+    const blockPattern = BLOCK_TAGS.join("|");
+    content = content
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) => {
+            const title = stripTags(inner);
+            return title ? `\n\n${HEADING_START}${level}${title}${HEADING_END}\n\n` : "\n\n";
+        })
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<li\b[^>]*>/gi, "\n- ")
+        .replace(/<\/(?:td|th)>/gi, "\t")
+        .replace(/<\/?tr\b[^>]*>/gi, "\n")
+        .replace(new RegExp(`</?(?:${blockPattern})\\b[^>]*>`, "gi"), "\n\n")
+        .replace(/<img\b[^>]*\balt\s*=\s*["']([^"']+)["'][^>]*>/gi, " $1 ")
+        .replace(/<[^>]+>/g, "");
+
+    content = decodeHtmlEntities(content)
+        .replace(/\r\n?/g, "\n")
+        .replace(/[ \t\u00a0]+/g, (whitespace) => (whitespace.includes("\t") ? " | " : " "))
+        .replace(/ *\n */g, "\n")
+        .replace(/^(?: *\| *)+|(?: *\| *)+$/gm, "")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+
+    // Turn heading markers into sections with offsets into the final text
+    const sections: DocumentSection[] = [];
+    const headingStack: string[] = [];
+    let text = "";
+    let current: DocumentSection | null = null;
+    let contentStart = 0;
+
+    const closeSection = () => {
+        if (current) {
+            current.content = text.slice(contentStart).trim();
+            if (current.title || current.content) {
+                sections.push(current);
+            }
+        }
+    };
+
+    for (const paragraph of content.split("\n\n")) {
+        const heading = paragraph.match(new RegExp(`^${HEADING_START}(\\d)([\\s\\S]*)${HEADING_END}$`));
+        if (text) {
+            text += "\n\n";
+        }
+
+        if (heading) {
+            closeSection();
+            const level = parseInt(heading[1], 10);
+            const title = heading[2];
+            headingStack.length = Math.min(headingStack.length, level - 1);
+            headingStack[level - 1] = title;
+            current = {
+                title,
+                content: "",
+                level,
+                startOffset: text.length,
+                headingPath: headingStack.filter(Boolean),
+            };
+            text += title;
+            contentStart = text.length;
+        } else {
+            if (!current) {
+                current = { content: "", startOffset: 0 };
+            }
+            text += paragraph;
+        }
+    }
+    closeSection();
+
+    return {
+        text,
+        title: titleMatch ? stripTags(titleMatch[1]) || undefined : undefined,
+        author: authorMatch ? decodeHtmlEntities(authorMatch[1]).trim() || undefined : undefined,
+        language: languageMatch?.[1],
+        sections,
+    };
+}
+
+/**
+ * HTML Processor (web pages, Confluence and wiki exports)
+ */
+export class HtmlProcessor implements DocumentProcessor {
+    supports(fileType: string): boolean {
+        return fileType === "html";
+    }
+
+    async process(
+        buffer: Buffer,
+        filename: string,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        options: ProcessorOptions = {}
+    ): Promise<ProcessedDocument> {
+        const extraction = extractHtmlText(this.decode(buffer));
+
+        const metadata: DocumentMetadata = {
+            fileType: "html",
+            originalFilename: filename,
+            fileSize: buffer.length,
+            wordCount: this.countWords(extraction.text),
+            characterCount: extraction.text.length,
+            title: extraction.title || extraction.sections.find(s => s.level === 1)?.title,
+            author: extraction.author,
+            language: extraction.language,
+        };
+
+        return {
+            text: extraction.text,
+            metadata,
+            sections: extraction.sections.length > 0 ? extraction.sections : undefined,
+        };
+    }
+
+    private decode(buffer: Buffer): string {
+        const head = buffer.subarray(0, 2048).toString("latin1");
+        const charset = head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1];
+        if (charset) {
+            try {
+                return new TextDecoder(charset).decode(buffer);
+            } catch {
+                // Unknown charset label, fall back to UTF-8
+            }
+        }
+        return buffer.toString("utf-8");
+    }
+
+    private countWords(text: string): number {
+        return text.split(/\s+/).filter(word => word.length > 0).length;
+    }
+}
+
+export const htmlProcessor = new HtmlProcessor();
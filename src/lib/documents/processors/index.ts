@@ -5,6 +5,11 @@ import { textProcessor } from "./text";
 import { csvProcessor } from "./csv";
 import { jsonProcessor } from "./json";
 import { xlsxProcessor } from "./xlsx";
+import { htmlProcessor } from "./html";
+import { markdownProcessor } from "./markdown";
+import { pptxProcessor } from "./pptx";
+import { epubProcessor } from "./epub";
+import { emailProcessor } from "./email";
 import { getFileType } from "./types";
 
 export * from "./types";
@@ -20,6 +25,11 @@ const processors: DocumentProcessor[] = [
     csvProcessor,
     jsonProcessor,
     xlsxProcessor,
+    htmlProcessor,
+    markdownProcessor,
+    pptxProcessor,
+    epubProcessor,
+    emailProcessor,
 ];
 
 /**
@@ -0,0 +1,222 @@
+import type { DocumentProcessor, ProcessedDocument, ProcessorOptions, DocumentMetadata, DocumentSection } from "./types";
+
+const FRONT_MATTER_PATTERN = /^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/;
+
+/**
+ * Markdown Processor
+ *
+ * Reads YAML front matter into document metadata and splits the body into
+ * sections by heading, so chunks can carry the heading they belong to.
+ */
+export class MarkdownProcessor implements DocumentProcessor {
+    supports(fileType: string): boolean {
+        return fileType === "md";
+    }
+
+    async process(
+        buffer: Buffer,
+        filename: string,
+        options: ProcessorOptions = {}
+    ): Promise<ProcessedDocument> {
+        const raw = buffer.toString("utf-8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+        const frontMatterMatch = raw.match(FRONT_MATTER_PATTERN);
+        const frontMatter = frontMatterMatch ? this.parseFrontMatter(frontMatterMatch[1]) : {};
+        const body = frontMatterMatch ? raw.slice(frontMatterMatch[0].length) : raw;
+
+        const text = options.preserveFormatting ? body : body.replace(/\n{3,}/g, "\n\n").trim();
+        const sections = this.extractSections(text);
+
+        const metadata: DocumentMetadata = {
+            fileType: "md",
+            originalFilename: filename,
+            fileSize: buffer.length,
+            wordCount: this.countWords(text),
+            characterCount: text.length,
+            title: this.stringField(frontMatter.title) || sections.find(s => s.level === 1)?.title,
+            author: this.stringField(frontMatter.author ?? frontMatter.authors),
+            createdDate: this.dateField(frontMatter.date ?? frontMatter.created),
+            modifiedDate: this.dateField(frontMatter.updated ?? frontMatter.lastmod ?? frontMatter.modified),
+            language: this.stringField(frontMatter.lang ?? frontMatter.language),
+            tags: this.listField(frontMatter.tags ?? frontMatter.keywords),
+            frontMatter: frontMatterMatch ? frontMatter : undefined,
+        };
+
+        return {
+            text,
+            metadata,
+            sections: sections.length > 0 ? sections : undefined,
+        };
+    }
+
+    private countWords(text: string): number {
+        return text.split(/\s+/).filter(word => word.length > 0).length;
+    }
+
+    /**
+     * Parse the common subset of YAML used in front matter: scalars,
+     * inline [a, b] lists and "- item" block lists. Nested maps are kept
+     * as raw strings.
+     */
+    private parseFrontMatter(source: string): Record<string, unknown> {
+        const fields: Record<string, unknown> = {};
+        let listKey: string | null = null;
+
+        for (const line of source.split("\n")) {
+            if (!line.trim() || line.trim().startsWith("#")) {
+                continue;
+            }
+
+            const listItem = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+            if (listItem && listKey) {
+                const list = Array.isArray(fields[listKey]) ? fields[listKey] as unknown[] : [];
+                list.push(this.parseScalar(listItem[1]));
+                fields[listKey] = list;
+                continue;
+            }
+
+            const field = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+            if (!field) {
+                // Continuation of a nested value
+                if (listKey && typeof fields[listKey] === "string") {
+                    fields[listKey] = `${fields[listKey]}\n${line.trim()}`.trim();
+                }
+                continue;
+            }
+
+            const [, key, value] = field;
+            listKey = key;
+            if (!value.trim()) {
+                fields[key] = "";
+            } else if (/^\[.*\]$/.test(value.trim())) {
+                fields[key] = value.trim().slice(1, -1).split(",")
+                    .map(item => item.trim())
+                    .filter(Boolean)
+                    .map(item => this.parseScalar(item));
+                listKey = null;
+            } else {
+                fields[key] = this.parseScalar(value);
+                listKey = null;
+            }
+        }
+
+        return fields;
+    }
+
+    private parseScalar(value: string): unknown {
+        const trimmed = value.replace(/\s+#.*$/, "").trim();
+        const quoted = trimmed.match(/^(["'])([\s\S]*)\1$/);
+        if (quoted) return quoted[2];
+        if (/^(?:true|yes)$/i.test(trimmed)) return true;
+        if (/^(?:false|no)$/i.test(trimmed)) return false;
+        if (/^(?:null|~)$/i.test(trimmed)) return null;
+        if (/^-?\d+(?:\.\d+)?$/.test(trimmed)) return Number(trimmed);
+        return trimmed;
+    }
+
+    private stringField(value: unknown): string | undefined {
+        if (Array.isArray(value)) {
+            const items = value.filter(item => item !== null && item !== "").map(String);
+            return items.length > 0 ? items.join(", ") : undefined;
+        }
+        if (typeof value === "string" || typeof value === "number") {
+            return String(value).trim() || undefined;
+        }
+        return undefined;
+    }
+
+    private listField(value: unknown): string[] | undefined {
+        if (Array.isArray(value)) {
+            return value.map(String);
+        }
+        if (typeof value === "string" && value.trim()) {
+            return value.split(",").map(item => item.trim()).filter(Boolean);
+        }
+        return undefined;
+    }
+
+    private dateField(value: unknown): Date | undefined {
+        if (typeof value !== "string" && typeof value !== "number") return undefined;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : date;
+    }
+
+    private cleanHeading(heading: string): string {
+        return heading
+            .replace(/\s+#+\s*$/, "")
+            .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+            .replace(/[*_`~]+/g, "")
+            .trim();
+    }
+
+    /**
+     * Split on ATX (#) and setext (underlined) headings, skipping fenced
+     * code blocks. Offsets point into the processed text.
+     */
+    private extractSections(text: string): DocumentSection[] {
+        const sections: DocumentSection[] = [];
+        const headingStack: string[] = [];
+        const lines = text.split("\n");
+
+        let current: DocumentSection = { content: "", startOffset: 0 };
+        let contentStart = 0;
+        let offset = 0;
+        let fence: string | null = null;
+
+        const startSection = (title: string, level: number, startOffset: number, bodyStart: number) => {
+            current.content = text.slice(contentStart, startOffset).trim();
+            if (current.title || current.content) {
+                sections.push(current);
+            }
+
+            headingStack.length = Math.min(headingStack.length, level - 1);
+            headingStack[level - 1] = title;
+            current = {
+                title,
+                content: "",
+                level,
+                startOffset,
+                headingPath: headingStack.filter(Boolean),
+            };
+            contentStart = bodyStart;
+        };
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const lineEnd = offset + line.length + 1;
+
+            const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+            if (fenceMatch) {
+                if (!fence) {
+                    fence = fenceMatch[1];
+                } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                    fence = null;
+                }
+            } else if (!fence) {
+                const atx = line.match(/^\s{0,3}(#{1,6})\s+(.+)$/);
+                const underline = lines[i + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+
+                if (atx) {
+                    startSection(this.cleanHeading(atx[2]), atx[1].length, offset, lineEnd);
+                } else if (underline && line.trim() && !/^\s*(?:[-*+>|]|\d+\.)/.test(line)) {
+                    const underlineEnd = lineEnd + lines[i + 1].length + 1;
+                    startSection(this.cleanHeading(line), underline[1][0] === "=" ? 1 : 2, offset, underlineEnd);
+                    offset = underlineEnd;
+                    i++;
+                    continue;
+                }
+            }
+
+            offset = lineEnd;
+        }
+
+        current.content = text.slice(contentStart).trim();
+        if (current.title || current.content) {
+            sections.push(current);
+        }
+
+        return sections;
+    }
+}
+
+export const markdownProcessor = new MarkdownProcessor();
@@ -0,0 +1,226 @@
+import JSZip from "jszip";
+import path from "path";
+import type { DocumentProcessor, ProcessedDocument, ProcessorOptions, DocumentMetadata, DocumentSection } from "./types";
+import { decodeHtmlEntities } from "./html";
+
+interface Slide {
+    number: number;
+    title?: string;
+    body: string[];
+    notes: string[];
+}
+
+/**
+ * PowerPoint (PPTX) Processor
+ *
+ * Extracts slide text in presentation order together with speaker notes.
+ * Each slide becomes a section whose pageNumber is the slide number.
+ */
+export class PptxProcessor implements DocumentProcessor {
+    supports(fileType: string): boolean {
+        return fileType === "pptx";
+    }
+
+    async process(
+        buffer: Buffer,
+        filename: string,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        options: ProcessorOptions = {}
+    ): Promise<ProcessedDocument> {
+        try {
+            const zip = await JSZip.loadAsync(buffer);
+            const slidePaths = await this.getSlidePaths(zip);
+
+            const slides: Slide[] = [];
+            for (const [position, slidePath] of slidePaths.entries()) {
+                const xml = await zip.file(slidePath)?.async("string");
+                if (!xml) continue;
+
+                const { title, body } = this.extractSlideText(xml);
+                const notesPath = await this.getNotesPath(zip, slidePath);
+                const notesXml = notesPath ? await zip.file(notesPath)?.async("string") : undefined;
+
+                slides.push({
+                    number: position + 1,
+                    title,
+                    body,
+                    notes: notesXml ? this.extractNotesText(notesXml) : [],
+                });
+            }
+
+            const sections: DocumentSection[] = [];
+            const parts: string[] = [];
+            let offset = 0;
+
+            for (const slide of slides) {
+                const heading = slide.title ? `Slide ${slide.number}: ${slide.title}` : `Slide ${slide.number}`;
+                const lines = [heading, ...slide.body];
+                if (slide.notes.length > 0) {
+                    lines.push("", "Speaker notes:", ...slide.notes);
+                }
+                const content = lines.join("\n");
+
+                sections.push({
+                    title: slide.title || `Slide ${slide.number}`,
+                    content: lines.slice(1).join("\n").trim(),
+                    pageNumber: slide.number,
+                    level: 1,
+                    startOffset: offset,
+                });
+                parts.push(content);
+                offset += content.length + 2;
+            }
+
+            const text = parts.join("\n\n");
+            const properties = await this.getCoreProperties(zip);
+
+            const metadata: DocumentMetadata = {
+                fileType: "pptx",
+                originalFilename: filename,
+                fileSize: buffer.length,
+                pageCount: slides.length,
+                wordCount: this.countWords(text),
+                characterCount: text.length,
+                title: properties.title || slides[0]?.title,
+                author: properties.creator,
+                createdDate: properties.created,
+                modifiedDate: properties.modified,
+            };
+
+            return {
+                text,
+                metadata,
+                sections: sections.length > 0 ? sections : undefined,
+            };
+        } catch (error) {
+            console.error("PPTX processing error:", error);
+            throw new Error(`Failed to process PPTX: ${error instanceof Error ? error.message : "Unknown error"}`);
+        }
+    }
+
+    private countWords(text: string): number {
+        return text.split(/\s+/).filter(word => word.length > 0).length;
+    }
+
+    /**
+     * Slide part paths in presentation order (presentation.xml slide list),
+     * falling back to file name order for files without one
+     */
+    private async getSlidePaths(zip: JSZip): Promise<string[]> {
+        const presentation = await zip.file("ppt/presentation.xml")?.async("string");
+        const relationships = await this.readRelationships(zip, "ppt/presentation.xml");
+
+        if (presentation) {
+            const ordered = [...presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g)]
+                .map(match => relationships.get(match[1]))
+                .filter((target): target is string => !!target && !!zip.file(target));
+            if (ordered.length > 0) {
+                return ordered;
+            }
+        }
+
+        return Object.keys(zip.files)
+            .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+            .sort((a, b) => this.partNumber(a) - this.partNumber(b));
+    }
+
+    private async getNotesPath(zip: JSZip, slidePath: string): Promise<string | undefined> {
+        const relationships = await this.readRelationships(zip, slidePath, "notesSlide");
+        return relationships.values().next().value;
+    }
+
+    /**
+     * Read a part's relationships as id -> resolved zip path, optionally
+     * limited to one relationship type
+     */
+    private async readRelationships(zip: JSZip, partPath: string, type?: string): Promise<Map<string, string>> {
+        const directory = path.posix.dirname(partPath);
+        const relsPath = path.posix.join(directory, "_rels", `${path.posix.basename(partPath)}.rels`);
+        const xml = await zip.file(relsPath)?.async("string");
+        const relationships = new Map<string, string>();
+        if (!xml) return relationships;
+
+        for (const match of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+            const id = match[0].match(/\bId="([^"]+)"/)?.[1];
+            const target = match[0].match(/\bTarget="([^"]+)"/)?.[1];
+            const relType = match[0].match(/\bType="([^"]+)"/)?.[1] ?? "";
+            if (!id || !target || (type && !relType.endsWith(`/${type}`))) continue;
+            relationships.set(id, path.posix.normalize(path.posix.join(directory, target)));
+        }
+
+        return relationships;
+    }
+
+    private partNumber(partPath: string): number {
+        return parseInt(partPath.match(/(\d+)\.xml$/)?.[1] ?? "0", 10);
+    }
+
+    /**
+     * Paragraph text of each shape; the title placeholder is returned separately
+     */
+    private extractSlideText(xml: string): { title?: string; body: string[] } {
+        let title: string | undefined;
+        const body: string[] = [];
+
+        for (const shape of xml.match(/<p:(?:sp|graphicFrame)\b[\s\S]*?<\/p:(?:sp|graphicFrame)>/g) ?? []) {
+            const paragraphs = this.extractParagraphs(shape);
+            if (paragraphs.length === 0) continue;
+
+            if (!title && /<p:ph\b[^>]*type="(?:title|ctrTitle)"/.test(shape)) {
+                title = paragraphs.join(" ");
+            } else {
+                body.push(...paragraphs);
+            }
+        }
+
+        return { title, body };
+    }
+
+    private extractNotesText(xml: string): string[] {
+        const notes: string[] = [];
+        for (const shape of xml.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) ?? []) {
+            // Skip the slide image and slide number placeholders
+            if (/<p:ph\b[^>]*type="(?:sldImg|sldNum|hdr|ftr|dt)"/.test(shape)) continue;
+            notes.push(...this.extractParagraphs(shape));
+        }
+        return notes;
+    }
+
+    private extractParagraphs(xml: string): string[] {
+        const paragraphs: string[] = [];
+        for (const paragraph of xml.match(/<a:p\b[\s\S]*?<\/a:p>/g) ?? []) {
+            const text = [...paragraph.replace(/<a:fld\b[\s\S]*?<\/a:fld>/g, "").matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g)]
+                .map(match => (match[1] !== undefined ? decodeHtmlEntities(match[1]) : "\n"))
+                .join("")
+                .trim();
+            if (text) {
+                paragraphs.push(text);
+            }
+        }
+        return paragraphs;
+    }
+
+    private async getCoreProperties(zip: JSZip): Promise<{ title?: string; creator?: string; created?: Date; modified?: Date }> {
+        const xml = await zip.file("docProps/core.xml")?.async("string");
+        if (!xml) return {};
+
+        const read = (tag: string) => {
+            const value = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`))?.[1];
+            return value ? decodeHtmlEntities(value).trim() || undefined : undefined;
+        };
+        const date = (tag: string) => {
+            const value = read(tag);
+            const parsed = value ? new Date(value) : undefined;
+            return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+        };
+
+        return {
+            title: read("dc:title"),
+            creator: read("dc:creator"),
+            created: date("dcterms:created"),
+            modified: date("dcterms:modified"),
+        };
+    }
+}
+
+export const pptxProcessor = new PptxProcessor();
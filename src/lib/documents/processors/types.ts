@@ -9,7 +9,12 @@ export type SupportedFileType =
     | "md"
     | "csv"
     | "json"
-    | "xlsx";
+    | "xlsx"
+    | "html"
+    | "pptx"
+    | "epub"
+    | "eml"
+    | "mbox";
 
 export interface ProcessedDocument {
     text: string;
@@ -26,6 +31,8 @@ export interface DocumentMetadata {
     wordCount?: number;
     characterCount?: number;
     language?: string;
+    tags?: string[];
+    frontMatter?: Record<string, unknown>; // Markdown front matter fields
     fileType: SupportedFileType;
     originalFilename: string;
     fileSize: number;
@@ -36,6 +43,8 @@ export interface DocumentSection {
     content: string;
     pageNumber?: number;
     level?: number; // Heading level
+    startOffset?: number; // Position of the section in the processed text
+    headingPath?: string[]; // Enclosing headings, outermost first
 }
 
 export interface ProcessorOptions {
@@ -65,6 +74,12 @@ export const MIME_TYPE_MAP: Record<string, SupportedFileType> = {
     "text/csv": "csv",
     "application/json": "json",
     "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+    "text/html": "html",
+    "application/xhtml+xml": "html",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+    "application/epub+zip": "epub",
+    "message/rfc822": "eml",
+    "application/mbox": "mbox",
 };
 
 // Extension mappings
@@ -77,6 +92,13 @@ export const EXTENSION_MAP: Record<string, SupportedFileType> = {
     ".csv": "csv",
     ".json": "json",
     ".xlsx": "xlsx",
+    ".html": "html",
+    ".htm": "html",
+    ".xhtml": "html",
+    ".pptx": "pptx",
+    ".epub": "epub",
+    ".eml": "eml",
+    ".mbox": "mbox",
 };
 
 /**
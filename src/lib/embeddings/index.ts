@@ -1,7 +1,17 @@
 import { generateEmbedding, generateEmbeddings, cosineSimilarity } from "./openai";
+import { generateLocalEmbeddings } from "./local";
+import { getConfigSection } from "@/lib/config";
+import { getUserApiKey } from "@/lib/ai/get-user-keys";
 export { generateEmbedding, generateEmbeddings, cosineSimilarity };
 
-export type EmbeddingProvider = "openai" | "google";
+export type EmbeddingProvider = "openai" | "google" | "ollama" | "lmstudio";
+
+/** Embedding model reference as stored on embeddings rows ("<provider>/<model>") */
+export interface EmbeddingModelRef {
+    id: string;
+    provider: EmbeddingProvider;
+    model: string;
+}
 
 export interface EmbeddingModelConfig {
     provider: EmbeddingProvider;
@@ -23,13 +33,70 @@ export const GOOGLE_EMBEDDING_CONFIG: EmbeddingModelConfig = {
     dimensions: 768,
 };
 
+export const DEFAULT_EMBEDDING_MODEL_ID = `${DEFAULT_EMBEDDING_CONFIG.provider}/${DEFAULT_EMBEDDING_CONFIG.model}`;
+
+// Models used when a provider is given without one
+const DEFAULT_PROVIDER_MODELS: Record<EmbeddingProvider, string> = {
+    openai: DEFAULT_EMBEDDING_CONFIG.model,
+    google: GOOGLE_EMBEDDING_CONFIG.model,
+    ollama: "nomic-embed-text",
+    lmstudio: "text-embedding-nomic-embed-text-v1.5",
+};
+
+function isEmbeddingProvider(value: string): value is EmbeddingProvider {
+    return value in DEFAULT_PROVIDER_MODELS;
+}
+
+/**
+ * Parse an embedding model id such as "ollama/nomic-embed-text".
+ * Ids without a known provider prefix are treated as OpenAI models.
+ */
+export function parseEmbeddingModel(id: string): EmbeddingModelRef {
+    const slash = id.indexOf("/");
+    const prefix = slash === -1 ? id : id.slice(0, slash);
+
+    if (isEmbeddingProvider(prefix)) {
+        const model = slash === -1 ? DEFAULT_PROVIDER_MODELS[prefix] : id.slice(slash + 1);
+        return { id: `${prefix}/${model}`, provider: prefix, model };
+    }
+
+    return { id: `openai/${id}`, provider: "openai", model: id };
+}
+
+/**
+ * Get the embedding model configured for document RAG
+ */
+export async function getEmbeddingModel(): Promise<EmbeddingModelRef> {
+    try {
+        const memory = await getConfigSection("memory");
+        return parseEmbeddingModel(memory.embeddingModel || DEFAULT_EMBEDDING_MODEL_ID);
+    } catch {
+        return parseEmbeddingModel(DEFAULT_EMBEDDING_MODEL_ID);
+    }
+}
+
+/**
+ * Resolve the user's API key for a cloud embedding provider. Local providers
+ * need none; cloud providers fall back to server env keys when unset.
+ */
+export async function resolveEmbeddingApiKey(
+    userId: string | undefined,
+    provider: EmbeddingProvider
+): Promise<string | undefined> {
+    if (!userId || provider === "ollama" || provider === "lmstudio") {
+        return undefined;
+    }
+    return (await getUserApiKey(userId, provider)) ?? undefined;
+}
+
 /**
  * Generate embedding using Google's Generative AI
  * Uses the text-embedding-004 model
  */
 async function generateGoogleEmbedding(
     text: string,
-    apiKey?: string
+    apiKey?: string,
+    model: string = GOOGLE_EMBEDDING_CONFIG.model
 ): Promise<number[]> {
     const key = apiKey || process.env.GOOGLE_AI_API_KEY;
     if (!key) {
@@ -37,14 +104,14 @@ async function generateGoogleEmbedding(
     }
 
     const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${key}`,
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:embedContent?key=${key}`,
         {
             method: "POST",
             headers: {
                 "Content-Type": "application/json",
             },
             body: JSON.stringify({
-                model: "models/text-embedding-004",
+                model: `models/${model}`,
                 content: {
                     parts: [{ text }],
                 },
@@ -66,7 +133,8 @@ async function generateGoogleEmbedding(
  */
 async function generateGoogleEmbeddings(
     texts: string[],
-    apiKey?: string
+    apiKey?: string,
+    model: string = GOOGLE_EMBEDDING_CONFIG.model
 ): Promise<number[][]> {
     const key = apiKey || process.env.GOOGLE_AI_API_KEY;
     if (!key) {
@@ -74,7 +142,7 @@ async function generateGoogleEmbeddings(
     }
 
     const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:batchEmbedContents?key=${key}`,
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${key}`,
         {
             method: "POST",
             headers: {
@@ -82,7 +150,7 @@ async function generateGoogleEmbeddings(
             },
             body: JSON.stringify({
                 requests: texts.map((text) => ({
-                    model: "models/text-embedding-004",
+                    model: `models/${model}`,
                     content: {
                         parts: [{ text }],
                     },
@@ -106,15 +174,21 @@ async function generateGoogleEmbeddings(
 export async function embed(
     text: string,
     provider: EmbeddingProvider = "openai",
-    apiKey?: string
+    apiKey?: string,
+    model: string = DEFAULT_PROVIDER_MODELS[provider]
 ): Promise<number[]> {
     switch (provider) {
         case "openai": {
-            const result = await generateEmbedding(text, apiKey);
+            const result = await generateEmbedding(text, apiKey, model);
             return result.embedding;
         }
         case "google": {
-            return await generateGoogleEmbedding(text, apiKey);
+            return await generateGoogleEmbedding(text, apiKey, model);
+        }
+        case "ollama":
+        case "lmstudio": {
+            const [embedding] = await generateLocalEmbeddings([text], provider, model);
+            return embedding;
         }
         default:
             throw new Error(`Unsupported embedding provider: ${provider}`);
@@ -127,15 +201,20 @@ export async function embed(
 export async function embedBatch(
     texts: string[],
     provider: EmbeddingProvider = "openai",
-    apiKey?: string
+    apiKey?: string,
+    model: string = DEFAULT_PROVIDER_MODELS[provider]
 ): Promise<number[][]> {
     switch (provider) {
         case "openai": {
-            const result = await generateEmbeddings(texts, apiKey);
+            const result = await generateEmbeddings(texts, apiKey, model);
             return result.embeddings;
         }
         case "google": {
-            return await generateGoogleEmbeddings(texts, apiKey);
+            return await generateGoogleEmbeddings(texts, apiKey, model);
+        }
+        case "ollama":
+        case "lmstudio": {
+            return await generateLocalEmbeddings(texts, provider, model);
         }
         default:
             throw new Error(`Unsupported embedding provider: ${provider}`);
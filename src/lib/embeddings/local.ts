@@ -0,0 +1,64 @@
+import { ollamaProviderConfig } from "@/lib/ai/providers/ollama";
+import { lmstudioProviderConfig } from "@/lib/ai/providers/lmstudio";
+
+export type LocalEmbeddingProvider = "ollama" | "lmstudio";
+
+const LOCAL_BASE_URLS: Record<LocalEmbeddingProvider, string | undefined> = {
+    ollama: ollamaProviderConfig.baseUrl,
+    lmstudio: lmstudioProviderConfig.baseUrl,
+};
+
+const LOCAL_BATCH_SIZE = 32;
+const LOCAL_EMBEDDING_TIMEOUT_MS = 120000;
+
+/**
+ * Generate embeddings with a locally served model through the provider's
+ * OpenAI-compatible /v1/embeddings endpoint. No API key or network egress
+ * beyond the local server is needed.
+ */
+export async function generateLocalEmbeddings(
+    texts: string[],
+    provider: LocalEmbeddingProvider,
+    model: string
+): Promise<number[][]> {
+    const baseUrl = LOCAL_BASE_URLS[provider];
+    if (!baseUrl) {
+        throw new Error(`No base URL configured for ${provider}`);
+    }
+
+    const allEmbeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += LOCAL_BATCH_SIZE) {
+        const batch = texts.slice(i, i + LOCAL_BATCH_SIZE);
+
+        const response = await fetch(`${baseUrl}/embeddings`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+                model,
+                input: batch,
+            }),
+            signal: AbortSignal.timeout(LOCAL_EMBEDDING_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(`${provider} embedding failed: ${error.error?.message || error.error || response.statusText}`);
+        }
+
+        const data = await response.json();
+        const sortedEmbeddings = (data.data || [])
+            .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+            .map((item: { embedding: number[] }) => item.embedding);
+
+        if (sortedEmbeddings.length !== batch.length) {
+            throw new Error(`${provider} returned ${sortedEmbeddings.length} embeddings for ${batch.length} inputs`);
+        }
+
+        allEmbeddings.push(...sortedEmbeddings);
+    }
+
+    return allEmbeddings;
+}
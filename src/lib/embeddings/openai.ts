@@ -1,7 +1,26 @@
 import { env } from "@/lib/env";
 
 const OPENAI_EMBEDDING_MODEL = "text-embedding-3-large";
-const EMBEDDING_DIMENSIONS = 1536; // OpenAI default, can be reduced to 256/512/1024
+
+/**
+ * Sizes requested when the caller gives none. text-embedding-3-large is cut
+ * to 1536 so its vectors match the ones stored before the model became
+ * configurable; other models return their native size.
+ */
+const DEFAULT_DIMENSIONS: Record<string, number> = {
+    "text-embedding-3-large": 1536,
+};
+
+/**
+ * The `dimensions` parameter to send, if any. Only the text-embedding-3
+ * models accept it; older models such as text-embedding-ada-002 reject it.
+ */
+function requestedDimensions(model: string, dimensions?: number): number | undefined {
+    if (!model.startsWith("text-embedding-3-")) {
+        return undefined;
+    }
+    return dimensions ?? DEFAULT_DIMENSIONS[model];
+}
 
 export interface EmbeddingResult {
     embedding: number[];
@@ -26,7 +45,9 @@ export interface BatchEmbeddingResult {
  */
 export async function generateEmbedding(
     text: string,
-    apiKey?: string
+    apiKey?: string,
+    model: string = OPENAI_EMBEDDING_MODEL,
+    dimensions?: number
 ): Promise<EmbeddingResult> {
     const key = apiKey || env.OPENAI_API_KEY;
     
@@ -41,9 +62,9 @@ export async function generateEmbedding(
             Authorization: `Bearer ${key}`,
         },
         body: JSON.stringify({
-            model: OPENAI_EMBEDDING_MODEL,
+            model,
             input: text,
-            dimensions: EMBEDDING_DIMENSIONS,
+            dimensions: requestedDimensions(model, dimensions),
         }),
     });
 
@@ -56,7 +77,7 @@ export async function generateEmbedding(
 
     return {
         embedding: data.data[0].embedding,
-        model: OPENAI_EMBEDDING_MODEL,
+        model,
         usage: {
             promptTokens: data.usage.prompt_tokens,
             totalTokens: data.usage.total_tokens,
@@ -69,7 +90,9 @@ export async function generateEmbedding(
  */
 export async function generateEmbeddings(
     texts: string[],
-    apiKey?: string
+    apiKey?: string,
+    model: string = OPENAI_EMBEDDING_MODEL,
+    dimensions?: number
 ): Promise<BatchEmbeddingResult> {
     const key = apiKey || env.OPENAI_API_KEY;
     
@@ -80,7 +103,7 @@ export async function generateEmbeddings(
     if (texts.length === 0) {
         return {
             embeddings: [],
-            model: OPENAI_EMBEDDING_MODEL,
+            model,
             usage: { promptTokens: 0, totalTokens: 0 },
         };
     }
@@ -101,9 +124,9 @@ export async function generateEmbeddings(
                 Authorization: `Bearer ${key}`,
             },
             body: JSON.stringify({
-                model: OPENAI_EMBEDDING_MODEL,
+                model,
                 input: batch,
-                dimensions: EMBEDDING_DIMENSIONS,
+                dimensions: requestedDimensions(model, dimensions),
             }),
         });
 
@@ -126,7 +149,7 @@ export async function generateEmbeddings(
 
     return {
         embeddings: allEmbeddings,
-        model: OPENAI_EMBEDDING_MODEL,
+        model,
         usage: {
             promptTokens: totalPromptTokens,
             totalTokens: totalTokens,
@@ -16,6 +16,7 @@ import { eq, and, sql, gt } from "drizzle-orm";
 import { emitTriggerEvent } from "@/lib/background/events";
 import { getAdminSettings } from "@/lib/admin/settings";
 import { runIsolatedAgent } from "@/lib/scheduler/isolated-agent";
+import { startTriggeredWorkflow, describeWorkflowResult } from "@/lib/workflows/triggers";
 
 // ============================================================================
 // Types
@@ -38,6 +39,7 @@ export interface TriggerResult {
     output?: string;
     error?: string;
     durationMs: number;
+    workflowRunId?: string;
 }
 
 // ============================================================================
@@ -192,7 +194,8 @@ class TriggerService {
                 result.success ? "success" : "error",
                 result.output,
                 result.error,
-                result.durationMs
+                result.durationMs,
+                result.workflowRunId
             );
 
             // Emit completion event
@@ -312,6 +315,9 @@ class TriggerService {
                 case "skill":
                     return await this.executeSkillAction(trigger, event, actionConfig);
 
+                case "workflow":
+                    return await this.executeWorkflowAction(trigger, event, actionConfig);
+
                 default:
                     return {
                         success: false,
@@ -495,19 +501,19 @@ class TriggerService {
                 };
             }
 
-            // Send notification
-            await channelManager.sendMessage(
+            // Queue notification (delivered with retries by the outbound queue)
+            await channelManager.enqueueMessage(
                 trigger.userId,
                 channelAccount.channelType,
                 channelAccount.channelId,
                 message,
-                { threadId: config.targetId }
+                { threadId: config.targetId, source: "trigger" }
             );
 
             return {
                 success: true,
                 status: "success",
-                output: `Notification sent to ${channelAccount.channelType}`,
+                output: `Notification queued for ${channelAccount.channelType}`,
                 durationMs: Date.now() - startTime,
             };
         } catch (error) {
@@ -591,6 +597,51 @@ class TriggerService {
         }
     }
 
+    /**
+     * Execute workflow action. The event payload is available to steps as
+     * `$trigger.payload`; a run paused for approval counts as started.
+     */
+    private async executeWorkflowAction(
+        trigger: typeof eventTriggers.$inferSelect,
+        event: TriggerEvent,
+        config: EventTriggerActionConfig | null
+    ): Promise<TriggerResult> {
+        const startTime = Date.now();
+
+        if (!config?.workflowId) {
+            return {
+                success: false,
+                status: "error",
+                error: "No workflow configured",
+                durationMs: Date.now() - startTime,
+            };
+        }
+
+        const result = await startTriggeredWorkflow({
+            workflowId: config.workflowId,
+            userId: trigger.userId,
+            input: config.workflowInput,
+            trigger: {
+                type: "event",
+                triggerId: trigger.id,
+                triggerName: trigger.name,
+                sourceType: event.sourceType,
+                payload: event.payload,
+            },
+        });
+
+        const success = result.status === "completed" || result.status === "paused";
+
+        return {
+            success,
+            status: success ? "success" : "error",
+            output: success ? describeWorkflowResult(result) : undefined,
+            error: success ? undefined : result.error || describeWorkflowResult(result),
+            durationMs: Date.now() - startTime,
+            workflowRunId: result.runId,
+        };
+    }
+
     /**
      * Check rate limit
      */
@@ -636,7 +687,8 @@ class TriggerService {
         status: "success" | "error" | "skipped" | "rate_limited",
         output: string | null | undefined,
         error: string | null | undefined,
-        durationMs?: number
+        durationMs?: number,
+        workflowRunId?: string
     ): Promise<void> {
         await db.insert(eventTriggerLogs).values({
             triggerId,
@@ -645,6 +697,7 @@ class TriggerService {
             output: output ?? null,
             error: error ?? null,
             durationMs: durationMs ?? null,
+            workflowRunId: workflowRunId ?? null,
         });
     }
 
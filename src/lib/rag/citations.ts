@@ -0,0 +1,103 @@
+/**
+ * RAG citations
+ *
+ * Retrieved chunks are injected as numbered sources; answers cite them with
+ * [n] markers. This module is free of server imports so the chat UI can use
+ * the same parsing as the API.
+ */
+
+import type { SearchResult } from "./search";
+
+/** A numbered retrieved chunk as stored in message metadata */
+export interface CitationSource {
+    /** 1-based number the model cites as [n] */
+    index: number;
+    documentId: string;
+    chunkId: string;
+    filename?: string;
+    score?: number;
+    chunkIndex?: number;
+    pageNumber?: number;
+    sectionTitle?: string;
+    startOffset?: number;
+    endOffset?: number;
+    /** Start of the chunk text, for previews */
+    snippet: string;
+}
+
+const SNIPPET_CHARS = 280;
+
+export const CITATION_INSTRUCTIONS = `Cite the sources you use with their number in square brackets, e.g. [1] or [2][3], placed right after the supported statement.
+Only cite a source for facts it actually contains. Do not invent source numbers.`;
+
+/**
+ * Number search results as citation sources, in retrieval order
+ */
+export function toCitationSources(results: SearchResult[]): CitationSource[] {
+    return results.map((result, position) => {
+        const metadata = result.metadata ?? {};
+        return {
+            index: position + 1,
+            documentId: result.documentId,
+            chunkId: result.chunkId,
+            filename: result.documentFilename,
+            score: result.score,
+            chunkIndex: result.chunkIndex,
+            pageNumber: typeof metadata.pageNumber === "number" ? metadata.pageNumber : undefined,
+            sectionTitle: typeof metadata.sectionTitle === "string" ? metadata.sectionTitle : undefined,
+            startOffset: result.startOffset,
+            endOffset: result.endOffset,
+            snippet: result.content.slice(0, SNIPPET_CHARS),
+        };
+    });
+}
+
+/**
+ * Short human-readable location, e.g. "report.pdf, p. 4, Results"
+ */
+export function describeCitationSource(source: CitationSource): string {
+    const parts = [source.filename || "Document"];
+    if (source.pageNumber !== undefined) {
+        parts.push(`p. ${source.pageNumber}`);
+    }
+    if (source.sectionTitle) {
+        parts.push(source.sectionTitle);
+    }
+    return parts.join(", ");
+}
+
+/**
+ * Format retrieved chunks as a numbered context block for the model
+ */
+export function formatNumberedContext(results: SearchResult[]): string {
+    return toCitationSources(results)
+        .map((source, position) => `[${source.index}] ${describeCitationSource(source)}\n${results[position].content}`)
+        .join("\n\n---\n\n");
+}
+
+/**
+ * Find the source numbers cited in a response. Accepts [1], [1, 2], [1-3]
+ * and the older [Source 1] form; numbers without a matching source are dropped.
+ * Returns the cited sources in order of first citation.
+ */
+export function extractCitations(text: string, sources: CitationSource[]): CitationSource[] {
+    const byIndex = new Map(sources.map((source) => [source.index, source]));
+    const cited: CitationSource[] = [];
+    const seen = new Set<number>();
+
+    const markerPattern = /\[(?:Source\s+)?(\d+(?:\s*[-–,]\s*\d+)*)\]/gi;
+    for (const match of text.matchAll(markerPattern)) {
+        for (const part of match[1].split(",")) {
+            const [from, to = from] = part.split(/[-–]/).map((value) => parseInt(value.trim(), 10));
+            for (let index = from; index <= Math.min(to, from + sources.length); index++) {
+                const source = byIndex.get(index);
+                if (source && !seen.has(index)) {
+                    seen.add(index);
+                    cited.push(source);
+                }
+            }
+        }
+    }
+
+    return cited;
+}
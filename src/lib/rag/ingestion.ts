@@ -0,0 +1,102 @@
+import { db } from "@/lib/db";
+import { chunks } from "@/lib/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import type { DocumentChunk } from "@/lib/documents/chunking";
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+
+export interface IngestVersionOptions {
+    documentId: string;
+    version: number;
+    chunks: DocumentChunk[];
+    /** Version to diff against and copy embeddings from */
+    previousVersion?: number;
+    /** document_versions row of the upload, so a failed upload can remove exactly its chunks */
+    ingestionId?: string;
+}
+
+export interface IngestVersionResult {
+    chunkCount: number;
+    reusedChunks: number;
+    addedChunks: number;
+    removedChunks: number;
+}
+
+/**
+ * sha256 hex digest; matches the backfill in the document_versions migration
+ */
+export function hashContent(content: string | Buffer): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Store a version's chunks. Chunks whose content is unchanged from the
+ * previous version get that version's embeddings copied, so only new or
+ * edited chunks need embedding afterwards.
+ */
+export async function ingestDocumentVersion(
+    options: IngestVersionOptions
+): Promise<IngestVersionResult> {
+    const { documentId, version, previousVersion } = options;
+
+    const records = options.chunks.map((chunk, index) => ({
+        id: uuidv4(),
+        documentId,
+        content: chunk.content,
+        index,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+        version,
+        contentHash: hashContent(chunk.content),
+        ingestionId: options.ingestionId,
+        metadata: {
+            ...chunk.metadata,
+            characterCount: chunk.content.length,
+            wordCount: chunk.content.split(/\s+/).filter(w => w.length > 0).length,
+        },
+    }));
+
+    if (records.length > 0) {
+        await db.insert(chunks).values(records);
+    }
+
+    if (previousVersion === undefined) {
+        return {
+            chunkCount: records.length,
+            reusedChunks: 0,
+            addedChunks: records.length,
+            removedChunks: 0,
+        };
+    }
+
+    const previousChunks = await db.query.chunks.findMany({
+        where: and(eq(chunks.documentId, documentId), eq(chunks.version, previousVersion)),
+        columns: { contentHash: true },
+    });
+    const previousHashes = new Set(previousChunks.map((chunk) => chunk.contentHash));
+    const currentHashes = new Set(records.map((record) => record.contentHash));
+
+    // Carry over embeddings (every model) for unchanged content
+    await db.execute(sql`
+        INSERT INTO embeddings (id, chunk_id, embedding, model, dimensions)
+        SELECT DISTINCT ON (c.id, e.model) gen_random_uuid(), c.id, e.embedding, e.model, e.dimensions
+        FROM chunks c
+        INNER JOIN chunks prev
+            ON prev.document_id = c.document_id
+            AND prev.version = ${previousVersion}
+            AND prev.content_hash = c.content_hash
+        INNER JOIN embeddings e ON e.chunk_id = prev.id
+        WHERE c.document_id = ${documentId}
+            AND c.version = ${version}
+        ORDER BY c.id, e.model, e.created_at DESC
+    `);
+
+    const reusedChunks = records.filter((record) => previousHashes.has(record.contentHash)).length;
+
+    return {
+        chunkCount: records.length,
+        reusedChunks,
+        addedChunks: records.length - reusedChunks,
+        removedChunks: previousChunks.filter((chunk) => !chunk.contentHash || !currentHashes.has(chunk.contentHash)).length,
+    };
+}
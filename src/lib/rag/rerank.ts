@@ -0,0 +1,180 @@
+import { generateText } from "ai";
+import { getModelWithKey } from "@/lib/ai/providers/factory";
+import { getUserApiKeys } from "@/lib/ai/get-user-keys";
+import { checkBudget, recordUsage, readTokenUsage } from "@/lib/ai/usage";
+import type { SearchResult } from "./search";
+
+export type RerankMethod = "llm" | "cross-encoder";
+
+export interface RerankOptions {
+    method: RerankMethod;
+    /**
+     * Model used to score passages. Any chat model works for "llm"
+     * (e.g. "gpt-4o-mini" or "ollama/qwen2.5:7b"); for "cross-encoder" it is
+     * the reranker name on the RERANK_URL server (e.g. "BAAI/bge-reranker-v2-m3").
+     */
+    model: string;
+    /** Number of fused candidates to rerank (default 20) */
+    candidates?: number;
+}
+
+export const DEFAULT_RERANK_CANDIDATES = 20;
+
+const MAX_PASSAGE_CHARS = 1500;
+const CROSS_ENCODER_TIMEOUT_MS = 30000;
+
+/**
+ * Whether a rerank server is configured for cross-encoder reranking.
+ * RERANK_URL is the server's base URL; RERANK_API is "tei" for Hugging Face
+ * Text Embeddings Inference, otherwise the Jina/Cohere request shape is used.
+ */
+export function isCrossEncoderConfigured(): boolean {
+    return Boolean(process.env.RERANK_URL);
+}
+
+/**
+ * Score each passage's relevance to the query with a chat model.
+ * Returns scores in [0, 1], indexed like `passages`.
+ */
+async function scoreWithLLM(
+    query: string,
+    passages: string[],
+    model: string,
+    userId?: string
+): Promise<number[]> {
+    if (userId) {
+        // A blocked budget makes the search fall back to the fused order
+        const budget = await checkBudget(userId, "rerank");
+        if (!budget.allowed) {
+            throw new Error(budget.message);
+        }
+    }
+
+    const apiKeys = userId ? await getUserApiKeys(userId) : {};
+    const numbered = passages
+        .map((passage, index) => `[${index}] ${passage.slice(0, MAX_PASSAGE_CHARS)}`)
+        .join("\n\n");
+
+    const { text, usage } = await generateText({
+        model: getModelWithKey(model, apiKeys),
+        temperature: 0,
+        messages: [{
+            role: "user",
+            content: `Rate how well each passage answers the query, from 0 (irrelevant) to 10 (directly answers it).
+
+Query: ${query}
+
+Passages:
+${numbered}
+
+Reply with only a JSON array of objects like [{"index": 0, "score": 7}], one per passage.`,
+        }],
+    });
+    if (userId) {
+        await recordUsage({ userId, feature: "rerank", model, ...readTokenUsage(usage) });
+    }
+
+    const start = text.indexOf("[");
+    const end = text.lastIndexOf("]");
+    if (start === -1 || end <= start) {
+        throw new Error("Reranker returned no JSON scores");
+    }
+
+    const parsed = JSON.parse(text.slice(start, end + 1)) as Array<{ index?: unknown; score?: unknown }>;
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const entry of parsed) {
+        if (typeof entry.index === "number" && typeof entry.score === "number" && scores[entry.index] !== undefined) {
+            scores[entry.index] = Math.min(Math.max(entry.score, 0), 10) / 10;
+        }
+    }
+
+    return scores;
+}
+
+/**
+ * Score passages with a cross-encoder on the configured rerank server.
+ * Returns scores indexed like `passages`.
+ */
+async function scoreWithCrossEncoder(
+    query: string,
+    passages: string[],
+    model: string
+): Promise<number[]> {
+    const baseUrl = process.env.RERANK_URL?.replace(/\/+$/, "");
+    if (!baseUrl) {
+        throw new Error("Cross-encoder reranking needs RERANK_URL to point at a rerank server");
+    }
+
+    const documents = passages.map((passage) => passage.slice(0, MAX_PASSAGE_CHARS));
+    const tei = process.env.RERANK_API === "tei";
+    const response = await fetch(`${baseUrl}/rerank`, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            ...(process.env.RERANK_API_KEY && { Authorization: `Bearer ${process.env.RERANK_API_KEY}` }),
+        },
+        body: JSON.stringify(tei
+            ? { query, texts: documents }
+            : { model, query, documents, top_n: documents.length }),
+        signal: AbortSignal.timeout(CROSS_ENCODER_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Rerank request failed: ${response.status} ${response.statusText}`);
+    }
+
+    // TEI answers with a bare array, Jina and Cohere wrap it in `results`
+    type RerankResult = { index: number; relevance_score?: number; score?: number };
+    const data = (await response.json()) as RerankResult[] | { results?: RerankResult[] };
+    const results = Array.isArray(data) ? data : data.results;
+    if (!results) {
+        throw new Error("Rerank server returned no results");
+    }
+
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const result of results) {
+        const raw = result.relevance_score ?? result.score ?? 0;
+        // Some servers return raw logits; squash them into [0, 1]
+        scores[result.index] = raw >= 0 && raw <= 1 ? raw : 1 / (1 + Math.exp(-raw));
+    }
+
+    return scores;
+}
+
+/**
+ * Reorder search results by a second-stage relevance model. Falls back to
+ * the incoming order if the reranker is unavailable, reporting why through
+ * `onFallback`.
+ */
+export async function rerankResults(
+    query: string,
+    results: SearchResult[],
+    options: RerankOptions,
+    context: { topK: number; userId?: string; onFallback?: (error: string) => void }
+): Promise<SearchResult[]> {
+    if (results.length <= 1) {
+        return results.slice(0, context.topK);
+    }
+
+    try {
+        const passages = results.map((result) => result.content);
+        const scores = options.method === "cross-encoder"
+            ? await scoreWithCrossEncoder(query, passages, options.model)
+            : await scoreWithLLM(query, passages, options.model, context.userId);
+
+        // Ties keep their fused order
+        const order = results
+            .map((_, index) => index)
+            .sort((a, b) => scores[b] - scores[a] || a - b);
+
+        return order.slice(0, context.topK).map((index) => ({
+            ...results[index],
+            score: scores[index],
+            scores: { ...results[index].scores, fused: results[index].score, rerank: scores[index] },
+        }));
+    } catch (error) {
+        console.warn("[RAG] Rerank failed, keeping fused order:", error);
+        context.onFallback?.(error instanceof Error ? error.message : "Rerank failed");
+        return results.slice(0, context.topK);
+    }
+}
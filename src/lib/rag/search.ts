@@ -1,13 +1,31 @@
 import { db } from "@/lib/db";
 import { embeddings, chunks, documents } from "@/lib/db/schema";
 import { eq, and, sql, isNull, inArray } from "drizzle-orm";
-import { embed } from "@/lib/embeddings";
+import { embed, getEmbeddingModel, resolveEmbeddingApiKey } from "@/lib/embeddings";
+import { formatNumberedContext } from "./citations";
+import { rerankResults, DEFAULT_RERANK_CANDIDATES, type RerankOptions } from "./rerank";
 
 export interface SearchOptions {
     topK?: number;
     threshold?: number;
     documentIds?: string[];
     userId?: string;
+    /** Pin documents to a version (document id -> version); others use their current version */
+    versions?: Record<string, number>;
+    /** Full-text matching: "any" ranks chunks containing any query term, "all" requires every term */
+    textMatch?: "any" | "all";
+    /** Weight of the semantic ranking in hybrid fusion (default 1, 0 disables it) */
+    semanticWeight?: number;
+    /** Weight of the full-text ranking in hybrid fusion (default 1, 0 disables it) */
+    textWeight?: number;
+    /** Reciprocal rank fusion constant; larger values flatten rank differences (default 60) */
+    rrfK?: number;
+    /** Candidates fetched from each retriever before fusion (default topK * 4) */
+    candidateK?: number;
+    /** Optional second-stage rerank of the fused candidates */
+    rerank?: RerankOptions;
+    /** Called when reranking failed and the fused order was kept */
+    onRerankFallback?: (error: string) => void;
 }
 
 export interface SearchResult {
@@ -17,6 +35,56 @@ export interface SearchResult {
     score: number;
     metadata: Record<string, unknown>;
     documentFilename?: string;
+    /** Position of the chunk within its document */
+    chunkIndex?: number;
+    /** Character offsets of the chunk in the document's processed text */
+    startOffset?: number;
+    endOffset?: number;
+    /** Per-stage scores for hybrid results */
+    scores?: {
+        semantic?: number;
+        text?: number;
+        fused?: number;
+        rerank?: number;
+    };
+}
+
+export const DEFAULT_RRF_K = 60;
+
+type SearchRow = {
+    chunk_id: string;
+    document_id: string;
+    content: string;
+    score: number;
+    metadata: Record<string, unknown> | null;
+    chunk_index: number | null;
+    start_offset: number | null;
+    end_offset: number | null;
+    document_filename: string;
+};
+
+function toSearchResult(row: SearchRow): SearchResult {
+    return {
+        chunkId: row.chunk_id,
+        documentId: row.document_id,
+        content: row.content,
+        score: row.score,
+        metadata: row.metadata || {},
+        documentFilename: row.document_filename,
+        chunkIndex: row.chunk_index ?? undefined,
+        startOffset: row.start_offset ?? undefined,
+        endOffset: row.end_offset ?? undefined,
+    };
+}
+
+/**
+ * Restrict chunks to each document's current version, or a pinned one
+ */
+function versionFilter(versions?: Record<string, number>) {
+    if (!versions || Object.keys(versions).length === 0) {
+        return sql`c.version = d.current_version`;
+    }
+    return sql`c.version = COALESCE((${JSON.stringify(versions)}::jsonb ->> c.document_id::text)::int, d.current_version)`;
 }
 
 /**
@@ -34,8 +102,20 @@ export async function semanticSearch(
         userId,
     } = options;
 
-    // Generate embedding for query
-    const queryEmbedding = await embed(query, "openai", apiKey);
+    // Embed the query with the configured model. A passed-in key is the
+    // caller's OpenAI key, so other cloud providers look up their own.
+    const embeddingModel = await getEmbeddingModel();
+    const embeddingKey = embeddingModel.provider === "openai" && apiKey
+        ? apiKey
+        : await resolveEmbeddingApiKey(userId, embeddingModel.provider);
+    const queryEmbedding = await embed(query, embeddingModel.provider, embeddingKey, embeddingModel.model);
+
+    // Only rows from the same model are comparable. The cast to a fixed
+    // size lets Postgres use that dimension's partial HNSW index.
+    const dimensions = sql.raw(String(Math.trunc(queryEmbedding.length)));
+    const vectorType = sql`vector(${dimensions})`;
+    const queryVector = sql`${JSON.stringify(queryEmbedding)}::${vectorType}`;
+    const distance = sql`(e.embedding::${vectorType} <=> ${queryVector})`;
 
     // Build the query with filters
     let sqlQuery = sql`
@@ -45,12 +125,18 @@ export async function semanticSearch(
             c.document_id,
             c.content,
             c.metadata,
+            c.index as chunk_index,
+            c.start_offset,
+            c.end_offset,
             d.filename as document_filename,
-            1 - (e.embedding <=> ${JSON.stringify(queryEmbedding)}::vector) as score
+            1 - ${distance} as score
         FROM embeddings e
         INNER JOIN chunks c ON e.chunk_id = c.id
         INNER JOIN documents d ON c.document_id = d.id
         WHERE d.deleted_at IS NULL
+            AND ${versionFilter(options.versions)}
+            AND e.model = ${embeddingModel.id}
+            AND e.dimensions = ${dimensions}
     `;
 
     // Add user filter
@@ -66,32 +152,33 @@ export async function semanticSearch(
     // Add threshold filter and ordering
     sqlQuery = sql`
         ${sqlQuery}
-        AND 1 - (e.embedding <=> ${JSON.stringify(queryEmbedding)}::vector) >= ${threshold}
-        ORDER BY score DESC
+        AND 1 - ${distance} >= ${threshold}
+        ORDER BY ${distance}
         LIMIT ${topK}
     `;
 
     const results = await db.execute(sqlQuery);
 
-    return (results.rows as Array<{
-        chunk_id: string;
-        document_id: string;
-        content: string;
-        score: number;
-        metadata: Record<string, unknown>;
-        document_filename: string;
-    }>).map(row => ({
-        chunkId: row.chunk_id,
-        documentId: row.document_id,
-        content: row.content,
-        score: row.score,
-        metadata: row.metadata || {},
-        documentFilename: row.document_filename,
-    }));
+    return (results.rows as SearchRow[]).map(toSearchResult);
 }
 
 /**
- * Full-text search using PostgreSQL tsvector
+ * Build a websearch_to_tsquery input. "any" ORs the query's terms so long
+ * natural-language questions still match; ts_rank then favors chunks that
+ * contain more of them.
+ */
+function toWebSearchQuery(query: string, match: "any" | "all"): string {
+    if (match === "all") {
+        return query;
+    }
+
+    const terms = (query.match(/[\p{L}\p{N}]+/gu) ?? [])
+        .filter((term) => term.toLowerCase() !== "or");
+    return terms.join(" OR ");
+}
+
+/**
+ * Full-text search using PostgreSQL tsvector, ranked with ts_rank
  */
 export async function textSearch(
     query: string,
@@ -101,21 +188,29 @@ export async function textSearch(
         topK = 5,
         documentIds,
         userId,
+        textMatch = "any",
     } = options;
 
-    // Build the query
+    const tsQuery = sql`websearch_to_tsquery('english', ${toWebSearchQuery(query, textMatch)})`;
+
+    // Build the query. The expression matches the chunks_content_fts_idx
+    // GIN index; normalization 32 maps ts_rank into [0, 1).
     let sqlQuery = sql`
         SELECT 
             c.id as chunk_id,
             c.document_id,
             c.content,
             c.metadata,
+            c.index as chunk_index,
+            c.start_offset,
+            c.end_offset,
             d.filename as document_filename,
-            ts_rank_cd(to_tsvector('english', c.content), plainto_tsquery('english', ${query})) as score
+            ts_rank(to_tsvector('english', c.content), ${tsQuery}, 32) as score
         FROM chunks c
         INNER JOIN documents d ON c.document_id = d.id
         WHERE d.deleted_at IS NULL
-            AND to_tsvector('english', c.content) @@ plainto_tsquery('english', ${query})
+            AND ${versionFilter(options.versions)}
+            AND to_tsvector('english', c.content) @@ ${tsQuery}
     `;
 
     // Add user filter
@@ -137,25 +232,54 @@ export async function textSearch(
 
     const results = await db.execute(sqlQuery);
 
-    return (results.rows as Array<{
-        chunk_id: string;
-        document_id: string;
-        content: string;
-        score: number;
-        metadata: Record<string, unknown>;
-        document_filename: string;
-    }>).map(row => ({
-        chunkId: row.chunk_id,
-        documentId: row.document_id,
-        content: row.content,
-        score: row.score,
-        metadata: row.metadata || {},
-        documentFilename: row.document_filename,
-    }));
+    return (results.rows as SearchRow[]).map(toSearchResult);
+}
+
+export interface RankedList {
+    source: "semantic" | "text";
+    results: SearchResult[];
+    weight: number;
 }
 
 /**
- * Hybrid search combining semantic and text search with RRF
+ * Weighted reciprocal rank fusion: each list contributes
+ * weight / (k + rank) per result. Scores are normalized by the best
+ * possible total, so a result ranked first everywhere scores 1.
+ */
+export function reciprocalRankFusion(
+    lists: RankedList[],
+    k = DEFAULT_RRF_K
+): SearchResult[] {
+    const activeLists = lists.filter((list) => list.weight > 0);
+    const maxScore = activeLists.reduce((sum, list) => sum + list.weight / (k + 1), 0);
+    const fused = new Map<string, SearchResult>();
+
+    for (const list of activeLists) {
+        list.results.forEach((result, rank) => {
+            const contribution = list.weight / (k + rank + 1);
+            const existing = fused.get(result.chunkId);
+
+            if (existing) {
+                existing.score += contribution;
+                existing.scores = { ...existing.scores, [list.source]: result.score };
+            } else {
+                fused.set(result.chunkId, {
+                    ...result,
+                    score: contribution,
+                    scores: { [list.source]: result.score },
+                });
+            }
+        });
+    }
+
+    return Array.from(fused.values())
+        .map((result) => ({ ...result, score: maxScore > 0 ? result.score / maxScore : 0 }))
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Hybrid search: fuse semantic and full-text rankings with weighted RRF,
+ * then optionally rerank the top candidates
  */
 export async function hybridSearch(
     query: string,
@@ -164,46 +288,39 @@ export async function hybridSearch(
 ): Promise<SearchResult[]> {
     const {
         topK = 5,
-        threshold = 0.7,
+        semanticWeight = 1,
+        textWeight = 1,
+        rrfK = DEFAULT_RRF_K,
+        rerank,
     } = options;
 
-    // Get results from both search methods
+    const rerankCandidates = rerank ? rerank.candidates ?? DEFAULT_RERANK_CANDIDATES : 0;
+    const candidateK = options.candidateK ?? Math.max(topK * 4, rerankCandidates);
+
+    // Get candidates from both retrievers
     const [semanticResults, textResults] = await Promise.all([
-        semanticSearch(query, { ...options, topK: topK * 2 }, apiKey),
-        textSearch(query, { ...options, topK: topK * 2 }),
+        semanticWeight > 0
+            ? semanticSearch(query, { ...options, topK: candidateK }, apiKey)
+            : Promise.resolve([]),
+        textWeight > 0
+            ? textSearch(query, { ...options, topK: candidateK })
+            : Promise.resolve([]),
     ]);
 
-    // Reciprocal Rank Fusion (RRF)
-    const k = 60; // RRF constant
-    const scores = new Map<string, { result: SearchResult; score: number }>();
+    const fused = reciprocalRankFusion([
+        { source: "semantic", results: semanticResults, weight: semanticWeight },
+        { source: "text", results: textResults, weight: textWeight },
+    ], rrfK);
 
-    // Process semantic results
-    semanticResults.forEach((result, rank) => {
-        const rrf = 1 / (k + rank + 1);
-        scores.set(result.chunkId, { result, score: rrf });
-    });
+    if (!rerank) {
+        return fused.slice(0, topK);
+    }
 
-    // Process text results and combine scores
-    textResults.forEach((result, rank) => {
-        const rrf = 1 / (k + rank + 1);
-        const existing = scores.get(result.chunkId);
-        
-        if (existing) {
-            existing.score += rrf;
-        } else {
-            scores.set(result.chunkId, { result, score: rrf });
-        }
+    return rerankResults(query, fused.slice(0, rerankCandidates), rerank, {
+        topK,
+        userId: options.userId,
+        onFallback: options.onRerankFallback,
     });
-
-    // Sort by combined score and return top K
-    const sorted = Array.from(scores.values())
-        .sort((a, b) => b.score - a.score)
-        .slice(0, topK);
-
-    return sorted.map(({ result, score }) => ({
-        ...result,
-        score,
-    }));
 }
 
 /**
@@ -223,13 +340,8 @@ export async function getRAGContext(
         return { context: "", sources: [] };
     }
 
-    // Format context for LLM
-    const contextParts = results.map((result, index) => {
-        const source = result.documentFilename || `Document ${result.documentId}`;
-        return `[Source ${index + 1}: ${source}]\n${result.content}`;
-    });
-
-    const context = contextParts.join("\n\n---\n\n");
+    // Number chunks so answers can cite them as [n]
+    const context = formatNumberedContext(results);
 
     return {
         context,
@@ -1,32 +1,68 @@
 import { db } from "@/lib/db";
 import { embeddings, chunks, documents } from "@/lib/db/schema";
-import { eq, and, sql } from "drizzle-orm";
-import { embedBatch } from "@/lib/embeddings";
+import { eq, and, sql, isNull, inArray } from "drizzle-orm";
+import { embedBatch, getEmbeddingModel, type EmbeddingModelRef } from "@/lib/embeddings";
 import { v4 as uuidv4 } from "uuid";
 
 export interface StoreEmbeddingsOptions {
     batchSize?: number;
     onProgress?: (processed: number, total: number) => void;
+    /** Defaults to the configured embedding model */
+    embeddingModel?: EmbeddingModelRef;
+    /** Re-embed chunks that already have an embedding from this model */
+    force?: boolean;
+}
+
+export interface ReembedOptions {
+    documentIds?: string[];
+    /** Re-embed documents that are already current */
+    force?: boolean;
+}
+
+/**
+ * Chunk filter for a document's current version
+ */
+function currentVersionChunks(documentId: string) {
+    return and(
+        eq(chunks.documentId, documentId),
+        sql`${chunks.version} = (select ${documents.currentVersion} from ${documents} where ${documents.id} = ${documentId})`
+    );
 }
 
 /**
- * Store embeddings for document chunks
+ * Store embeddings for the chunks of a document's current version. Chunks
+ * already embedded with the model (e.g. carried over from the previous
+ * version) are skipped unless `force` is set.
  */
 export async function storeChunkEmbeddings(
     documentId: string,
     apiKey?: string,
     options: StoreEmbeddingsOptions = {}
-): Promise<{ stored: number; errors: string[] }> {
+): Promise<{ stored: number; skipped: number; errors: string[] }> {
     const { batchSize = 50, onProgress } = options;
+    const embeddingModel = options.embeddingModel ?? await getEmbeddingModel();
     
-    // Get all chunks for the document
-    const documentChunks = await db.query.chunks.findMany({
-        where: eq(chunks.documentId, documentId),
+    // Get the current version's chunks that still need this model's embedding
+    const allChunks = await db.query.chunks.findMany({
+        where: currentVersionChunks(documentId),
         orderBy: (chunks, { asc }) => [asc(chunks.index)],
     });
 
+    const embeddedChunkIds = options.force || allChunks.length === 0
+        ? new Set<string>()
+        : new Set((await db
+            .select({ chunkId: embeddings.chunkId })
+            .from(embeddings)
+            .where(and(
+                inArray(embeddings.chunkId, allChunks.map((chunk) => chunk.id)),
+                eq(embeddings.model, embeddingModel.id)
+            ))).map((row) => row.chunkId));
+
+    const documentChunks = allChunks.filter((chunk) => !embeddedChunkIds.has(chunk.id));
+    const skipped = allChunks.length - documentChunks.length;
+
     if (documentChunks.length === 0) {
-        return { stored: 0, errors: [] };
+        return { stored: 0, skipped, errors: [] };
     }
 
     const errors: string[] = [];
@@ -39,13 +75,20 @@ export async function storeChunkEmbeddings(
 
         try {
             // Generate embeddings for batch
-            const embeddingVectors = await embedBatch(texts, "openai", apiKey);
+            const embeddingVectors = await embedBatch(
+                texts,
+                embeddingModel.provider,
+                apiKey,
+                embeddingModel.model
+            );
 
             // Store embeddings
             const embeddingRecords = batch.map((chunk, j) => ({
                 id: uuidv4(),
                 chunkId: chunk.id,
                 embedding: embeddingVectors[j],
+                model: embeddingModel.id,
+                dimensions: embeddingVectors[j].length,
             }));
 
             // Delete existing embeddings for these chunks
@@ -64,7 +107,7 @@ export async function storeChunkEmbeddings(
         }
     }
 
-    return { stored, errors };
+    return { stored, skipped, errors };
 }
 
 /**
@@ -84,30 +127,90 @@ export async function deleteDocumentEmbeddings(documentId: string): Promise<void
 }
 
 /**
- * Get embedding statistics for a document
+ * Get embedding statistics for a document. Only embeddings from the current
+ * model count as embedded; the rest are stale until re-embedded.
  */
-export async function getDocumentEmbeddingStats(documentId: string): Promise<{
+export async function getDocumentEmbeddingStats(
+    documentId: string,
+    embeddingModel?: EmbeddingModelRef
+): Promise<{
+    model: string;
     totalChunks: number;
     embeddedChunks: number;
+    staleChunks: number;
     percentage: number;
 }> {
+    const currentModel = embeddingModel ?? await getEmbeddingModel();
+
     const documentChunks = await db.query.chunks.findMany({
-        where: eq(chunks.documentId, documentId),
+        where: currentVersionChunks(documentId),
         columns: { id: true },
     });
 
-    const embeddedCount = await db
-        .select({ count: sql<number>`count(*)` })
+    const [counts] = await db
+        .select({
+            embedded: sql<number>`count(*) filter (where ${embeddings.model} = ${currentModel.id})`,
+            stale: sql<number>`count(*) filter (where ${embeddings.model} <> ${currentModel.id})`,
+        })
         .from(embeddings)
         .innerJoin(chunks, eq(embeddings.chunkId, chunks.id))
-        .where(eq(chunks.documentId, documentId));
+        .where(currentVersionChunks(documentId));
 
     const totalChunks = documentChunks.length;
-    const embeddedChunks = Number(embeddedCount[0]?.count || 0);
+    const embeddedChunks = Number(counts?.embedded || 0);
 
     return {
+        model: currentModel.id,
         totalChunks,
         embeddedChunks,
+        staleChunks: Number(counts?.stale || 0),
         percentage: totalChunks > 0 ? Math.round((embeddedChunks / totalChunks) * 100) : 0,
     };
 }
+
+/**
+ * Re-embed a user's processed documents with the configured embedding model.
+ * Documents already fully embedded with it are skipped unless `force` is set.
+ */
+export async function reembedDocuments(
+    userId: string,
+    apiKey?: string,
+    options: ReembedOptions = {}
+): Promise<{
+    model: string;
+    documents: Array<{ documentId: string; stored: number; skipped: number; errors: string[] }>;
+    skipped: string[];
+}> {
+    const embeddingModel = await getEmbeddingModel();
+
+    const userDocuments = await db.query.documents.findMany({
+        where: and(
+            eq(documents.userId, userId),
+            eq(documents.status, "processed"),
+            isNull(documents.deletedAt),
+            options.documentIds?.length ? inArray(documents.id, options.documentIds) : undefined
+        ),
+        columns: { id: true },
+    });
+
+    const results: Array<{ documentId: string; stored: number; skipped: number; errors: string[] }> = [];
+    const skipped: string[] = [];
+
+    for (const document of userDocuments) {
+        if (!options.force) {
+            const stats = await getDocumentEmbeddingStats(document.id, embeddingModel);
+            if (stats.staleChunks === 0 && stats.embeddedChunks >= stats.totalChunks) {
+                skipped.push(document.id);
+                continue;
+            }
+        }
+
+        const result = await storeChunkEmbeddings(document.id, apiKey, {
+            embeddingModel,
+            force: options.force,
+        });
+        results.push({ documentId: document.id, ...result });
+    }
+
+    return { model: embeddingModel.id, documents: results, skipped };
+}
@@ -414,6 +414,9 @@ class CronService {
                 sessionTarget: (task.sessionTarget as "main" | "isolated") || "isolated",
                 includeRecentMessages: task.includeRecentMessages ?? 0,
                 isolation: task.isolation as { maxTokens?: number; timeout?: number } | undefined,
+                runAt,
+                cron: task.cron || undefined,
+                timezone: task.timezone ?? undefined,
             };
 
             const payloadResult = await this.executePayload(payload, payloadContext);
@@ -434,6 +437,9 @@ class CronService {
                 lastOutput: payloadResult.output?.substring(0, 10000),
                 lastDurationMs: payloadResult.durationMs,
                 consecutiveFailures,
+                ...(payloadResult.workflowRunId && {
+                    customData: { lastWorkflowRunId: payloadResult.workflowRunId },
+                }),
             };
 
             // Auto-disable after 3 consecutive failures to prevent runaway loops
@@ -546,6 +552,10 @@ class CronService {
                     return await this.executeSystemEvent(payload.text, context);
                 case "agentTurn":
                     return await this.executeAgentTurn(payload, context);
+                case "workflow":
+                    return await this.executeWorkflow(payload, context);
+                case "broadcast":
+                    return await this.executeBroadcast(payload);
                 default:
                     return {
                         success: false,
@@ -624,6 +634,78 @@ class CronService {
         }
     }
 
+    /**
+     * Execute a workflow payload. The schedule context is available to steps
+     * as `$trigger`.
+     */
+    private async executeWorkflow(
+        payload: { kind: "workflow"; workflowId: string; input?: Record<string, unknown> },
+        context: PayloadContext
+    ): Promise<PayloadResult> {
+        const startTime = Date.now();
+
+        try {
+            const { startTriggeredWorkflow, describeWorkflowResult } = await import("@/lib/workflows/triggers");
+
+            const result = await startTriggeredWorkflow({
+                workflowId: payload.workflowId,
+                userId: context.userId,
+                input: payload.input,
+                trigger: {
+                    type: "schedule",
+                    taskId: context.taskId,
+                    taskName: context.taskName,
+                    firedAt: (context.runAt ?? new Date()).toISOString(),
+                    cron: context.cron,
+                    timezone: context.timezone,
+                },
+            });
+
+            const success = result.status === "completed" || result.status === "paused";
+
+            return {
+                success,
+                output: describeWorkflowResult(result),
+                error: success ? undefined : result.error || `Workflow run ${result.status}`,
+                durationMs: Date.now() - startTime,
+                workflowRunId: result.runId,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : "Workflow run failed",
+                durationMs: Date.now() - startTime,
+            };
+        }
+    }
+
+    /**
+     * Execute a broadcast payload
+     */
+    private async executeBroadcast(payload: { kind: "broadcast"; broadcastId: string }): Promise<PayloadResult> {
+        const startTime = Date.now();
+
+        try {
+            const { sendBroadcast, describeBroadcastResult } = await import("@/lib/channels/broadcast");
+
+            const result = await sendBroadcast(payload.broadcastId);
+            const success = !!result && result.status !== "failed";
+
+            return {
+                success,
+                output: describeBroadcastResult(result),
+                error: success ? undefined : describeBroadcastResult(result),
+                durationMs: Date.now() - startTime,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : "Broadcast failed",
+                durationMs: Date.now() - startTime,
+            };
+        }
+    }
+
     /**
      * Build schedule from legacy format
      */
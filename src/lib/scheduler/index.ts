@@ -4,6 +4,8 @@ import type { CronJobState } from "@/lib/db/schema";
 import { and, eq, lte, sql, isNull, lt, or } from "drizzle-orm";
 import { computeNextRunAt } from "./schedule";
 import { runIsolatedAgent } from "./isolated-agent";
+import { startTriggeredWorkflow, describeWorkflowResult } from "@/lib/workflows/triggers";
+import { sendBroadcast, describeBroadcastResult } from "@/lib/channels/broadcast";
 import crypto from "crypto";
 import os from "os";
 
@@ -129,9 +131,13 @@ class ScheduledTaskRunner {
     }
 
     private async runTask(task: ScheduledTask, runAt: Date): Promise<void> {
-        const nextRunAt = computeNextRunAt(task.cron, task.timezone || undefined, new Date(runAt.getTime() + 1000));
+        // One-shot tasks keep a cron expression for display but never repeat
+        const nextRunAt = task.schedule?.kind === "at"
+            ? null
+            : computeNextRunAt(task.cron, task.timezone || undefined, new Date(runAt.getTime() + 1000));
         let lastError: string | null = null;
         let lastOutput: string | null = null;
+        let workflowRunId: string | null = null;
         let runStatus: {
             taskExecutionStatus: "success" | "failed";
             primaryDeliveryStatus: "delivered" | "failed" | "not_requested";
@@ -146,37 +152,86 @@ class ScheduledTaskRunner {
 
         try {
             console.log(`[Scheduler] Running task: ${task.name} (${task.id})`);
-            const execution = resolveTaskExecution(task.payload, task.modelId ?? null);
-
-            // Use isolated agent runner which handles delivery correctly
-            const result = await runIsolatedAgent({
-                userId: task.userId,
-                taskId: task.id,
-                taskName: task.name,
-                message: task.prompt,
-                channelAccountId: task.channelAccountId ?? undefined,
-                sessionTarget: "isolated",
-                includeRecentMessages: 0,
-                deliver: !!task.channelAccountId, // Only deliver if channel is configured
-                timeout: 180000, // 3 minutes - enough for web searches
-                modelId: execution.modelId,
-                agentId: execution.agentId,
-                requireToolCall: shouldRequireToolCallForTask(task.prompt),
-            });
-
-            if (!result.success) {
-                lastError = result.error || "Scheduled task failed";
+
+            if (task.payload?.kind === "workflow") {
+                const result = await startTriggeredWorkflow({
+                    workflowId: task.payload.workflowId,
+                    userId: task.userId,
+                    input: task.payload.input,
+                    trigger: {
+                        type: "schedule",
+                        taskId: task.id,
+                        taskName: task.name,
+                        firedAt: runAt.toISOString(),
+                        cron: task.cron,
+                        timezone: task.timezone ?? undefined,
+                    },
+                });
+                workflowRunId = result.runId;
+
+                const succeeded = result.status === "completed" || result.status === "paused";
+                if (succeeded) {
+                    lastOutput = describeWorkflowResult(result).substring(0, 4000);
+                    console.log(`[Scheduler] Task completed: ${task.name}, workflow run: ${result.runId} (${result.status})`);
+                } else {
+                    lastError = result.error || describeWorkflowResult(result);
+                }
+
+                runStatus = {
+                    taskExecutionStatus: succeeded ? "success" : "failed",
+                    primaryDeliveryStatus: "not_requested",
+                    failureNotificationStatus: "skipped",
+                    deliveredTo: null,
+                };
+            } else if (task.payload?.kind === "broadcast") {
+                const result = await sendBroadcast(task.payload.broadcastId);
+                const succeeded = !!result && result.status !== "failed";
+                if (succeeded) {
+                    lastOutput = describeBroadcastResult(result);
+                    console.log(`[Scheduler] Task completed: ${task.name}, ${lastOutput}`);
+                } else {
+                    lastError = describeBroadcastResult(result);
+                }
+
+                runStatus = {
+                    taskExecutionStatus: succeeded ? "success" : "failed",
+                    primaryDeliveryStatus: "not_requested",
+                    failureNotificationStatus: "skipped",
+                    deliveredTo: null,
+                };
             } else {
-                lastOutput = result.output?.substring(0, 4000) ?? null;
-                console.log(`[Scheduler] Task completed: ${task.name}, delivered to: ${result.deliveredTo || "none"}`);
-            }
+                const execution = resolveTaskExecution(task.payload, task.modelId ?? null);
+
+                // Use isolated agent runner which handles delivery correctly
+                const result = await runIsolatedAgent({
+                    userId: task.userId,
+                    taskId: task.id,
+                    taskName: task.name,
+                    message: task.prompt,
+                    channelAccountId: task.channelAccountId ?? undefined,
+                    sessionTarget: "isolated",
+                    includeRecentMessages: 0,
+                    deliver: !!task.channelAccountId, // Only deliver if channel is configured
+                    timeout: 180000, // 3 minutes - enough for web searches
+                    modelId: execution.modelId,
+                    agentId: execution.agentId,
+                    requireToolCall: shouldRequireToolCallForTask(task.prompt),
+                });
 
-            runStatus = {
-                taskExecutionStatus: result.taskExecutionStatus,
-                primaryDeliveryStatus: result.primaryDeliveryStatus,
-                failureNotificationStatus: result.failureNotificationStatus,
-                deliveredTo: result.deliveredTo ?? null,
-            };
+                if (!result.success) {
+                    lastError = result.error || "Scheduled task failed";
+                } else {
+                    lastOutput = result.output?.substring(0, 4000) ?? null;
+                    console.log(`[Scheduler] Task completed: ${task.name}, delivered to: ${result.deliveredTo || "none"}`);
+                }
+
+                runStatus = {
+                    taskExecutionStatus: result.taskExecutionStatus,
+                    primaryDeliveryStatus: result.primaryDeliveryStatus,
+                    failureNotificationStatus: result.failureNotificationStatus,
+                    deliveredTo: result.deliveredTo ?? null,
+                };
+            }
         } catch (error) {
             lastError = error instanceof Error ? error.message : "Scheduled task failed";
             console.error("[Scheduler] Task run error:", error);
@@ -191,6 +246,7 @@ class ScheduledTaskRunner {
                 ...currentCustomData,
                 ...runStatus,
                 lastRunAt: runAt.toISOString(),
+                ...(workflowRunId && { lastWorkflowRunId: workflowRunId }),
             },
         };
 
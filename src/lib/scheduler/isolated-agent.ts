@@ -24,6 +24,7 @@ import { eq, and, desc, isNull } from 'drizzle-orm';
 import { tool, type ModelMessage } from 'ai';
 import { getModelWithKey, getModelConfig } from '@/lib/ai/providers/factory';
 import { getUserApiKeys } from '@/lib/ai/get-user-keys';
+import { checkBudget } from '@/lib/ai/usage';
 import { getChannelManager } from '@/lib/channels/manager';
 import { resolveTelegramChatIdFromAccount } from '@/lib/channels/telegram/chat-id';
 import { decrypt } from '@/lib/crypto';
@@ -125,6 +126,17 @@ export async function runIsolatedAgent(config: IsolatedAgentConfig): Promise<Iso
   console.log(`[IsolatedAgent] Running task ${taskName} (${taskId}) for user ${userId}`);
 
   try {
+    const budget = await checkBudget(userId, 'scheduled_task');
+    if (!budget.allowed) {
+      return {
+        success: false,
+        taskExecutionStatus: 'failed',
+        primaryDeliveryStatus: deliver ? 'failed' : 'not_requested',
+        failureNotificationStatus: 'skipped',
+        error: budget.message,
+      };
+    }
+
     // Get user's API keys
     const apiKeys = await getUserApiKeys(userId);
 
@@ -456,6 +468,7 @@ export async function runIsolatedAgent(config: IsolatedAgentConfig): Promise<Iso
       tools: aiTools,
       maxTokens: effectiveMaxTokens,
       maxToolSteps: 15,
+      usage: { userId, feature: 'scheduled_task', model: modelId, sourceId: taskId },
     });
 
     console.log(
@@ -907,6 +920,15 @@ async function deliverMessage(
         return undefined;
       }
 
+      // Prefer the outbound queue (rate limits, retries, outbox record) when the bot is connected here.
+      // Wait for the send so a failure still reaches the fallback notification.
+      const channelManager = getChannelManager();
+      if (channelManager.resolveConnector(userId, 'telegram', chatId)) {
+        await channelManager.sendMessage(userId, 'telegram', chatId, content, { source: 'scheduler' });
+        console.log(`[IsolatedAgent] Delivered message to telegram:${chatId} via the outbound queue`);
+        return `telegram:${chatId}`;
+      }
+
       // Verify bot token is valid first
       const tokenPrefix = botToken.substring(0, 10);
       console.log(
@@ -943,11 +965,12 @@ async function deliverMessage(
       return `telegram:${chatId}`;
     }
 
-    // For other channel types, try the ChannelManager (fallback)
+    // For other channel types, send through the ChannelManager and wait for the result
     try {
       const channelManager = getChannelManager();
       await channelManager.sendMessage(userId, account.channelType, account.channelId, content, {
         threadId: to,
+        source: 'scheduler',
       });
 
       console.log(
@@ -53,6 +53,9 @@ export interface PayloadContext {
         maxTokens?: number;
         timeout?: number;
     };
+    runAt?: Date;
+    cron?: string;
+    timezone?: string;
 }
 
 /**
@@ -68,6 +71,7 @@ export interface PayloadResult {
         output: number;
     };
     deliveredTo?: string; // Channel/target where message was delivered
+    workflowRunId?: string; // Run started by a workflow payload
 }
 
 // ============================================================================
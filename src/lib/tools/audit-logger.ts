@@ -86,21 +86,31 @@ export function logToolExecution(
 }
 
 /**
- * Log a tool access denial
+ * Log a tool access denial. Policy denials pass the agent and the call.
  */
 export function logToolDenied(
     userId: string,
     toolId: ToolId,
     toolName: string,
-    reason: string
+    reason: string,
+    details?: {
+        conversationId?: string;
+        agentId?: string;
+        params?: Record<string, unknown>;
+    }
 ): void {
+    const action = typeof details?.params?.action === "string" ? details.params.action : undefined;
+
     db.insert(toolExecutionLogs).values({
         userId,
+        conversationId: details?.conversationId || null,
         toolId,
         toolName,
+        action,
+        params: details?.params ? redactParams(details.params) : undefined,
         result: "denied",
         errorMessage: reason,
-        metadata: { deniedReason: reason },
+        metadata: details?.agentId ? { deniedReason: reason, agentId: details.agentId } : { deniedReason: reason },
     }).catch(err => {
         console.error("[ToolAudit] Failed to log tool denial:", err);
     });
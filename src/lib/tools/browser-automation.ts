@@ -10,7 +10,8 @@
  */
 
 import { z } from "zod";
-import type { Tool, ToolId, ToolResult } from "./types";
+import type { Tool, ToolId, ToolPolicy, ToolResult } from "./types";
+import { checkUrlPolicy } from "./policy";
 
 // ============================================================================
 // Tool Schema
@@ -166,7 +167,7 @@ Navigation to internal networks (localhost, 127.0.0.1, 10.x, 192.168.x) is block
                 error: "Browser automation requires command execution to be enabled. Please enable it in admin settings.",
             };
         }
-        return executeBrowserTool(params as BrowserAutomationToolInput, context?.userId || "anonymous");
+        return executeBrowserTool(params as BrowserAutomationToolInput, context?.userId || "anonymous", context?.policy);
     },
 };
 
@@ -176,59 +177,91 @@ Navigation to internal networks (localhost, 127.0.0.1, 10.x, 192.168.x) is block
 
 async function executeBrowserTool(
     input: BrowserAutomationToolInput,
-    userId: string
+    userId: string,
+    policy?: ToolPolicy
+): Promise<ToolResult> {
+    try {
+        // The page is shared by the user's agents, so another agent may have left it elsewhere
+        const before = await leaveDisallowedPage(userId, policy);
+        if (before && input.action !== "navigate") return before;
+
+        const result = await runBrowserAction(input, userId, policy);
+        // Clicks, form submits and scripts can navigate too
+        return (await leaveDisallowedPage(userId, policy)) ?? result;
+    } catch (error) {
+        console.error("[Browser Automation Tool] Error:", error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : "Browser automation operation failed",
+        };
+    }
+}
+
+async function runBrowserAction(
+    input: BrowserAutomationToolInput,
+    userId: string,
+    policy?: ToolPolicy
 ): Promise<ToolResult> {
     const { action } = input;
 
-    try {
-        switch (action) {
-            case "navigate":
-                return await handleNavigate(input, userId);
+    switch (action) {
+        case "navigate":
+            return await handleNavigate(input, userId, policy);
 
-            case "screenshot":
-                return await handleScreenshot(userId);
+        case "screenshot":
+            return await handleScreenshot(userId);
 
-            case "click":
-                return await handleClick(input, userId);
+        case "click":
+            return await handleClick(input, userId);
 
-            case "type":
-                return await handleType(input, userId);
+        case "type":
+            return await handleType(input, userId);
 
-            case "evaluate":
-                return await handleEvaluate(input, userId);
+        case "evaluate":
+            return await handleEvaluate(input, userId);
 
-            case "get_text":
-                return await handleGetText(input, userId);
+        case "get_text":
+            return await handleGetText(input, userId);
 
-            case "get_links":
-                return await handleGetLinks(userId);
+        case "get_links":
+            return await handleGetLinks(userId);
 
-            case "fill_form":
-                return await handleFillForm(input, userId);
+        case "fill_form":
+            return await handleFillForm(input, userId);
 
-            case "wait_for":
-                return await handleWaitFor(input, userId);
+        case "wait_for":
+            return await handleWaitFor(input, userId);
 
-            default:
-                return {
-                    success: false,
-                    error: `Unknown action: ${action}`,
-                };
-        }
-    } catch (error) {
-        console.error("[Browser Automation Tool] Error:", error);
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : "Browser automation operation failed",
-        };
+        default:
+            return {
+                success: false,
+                error: `Unknown action: ${action}`,
+            };
     }
 }
 
+/**
+ * Send the page back to about:blank when it ended up on a host the agent's
+ * policy does not allow; returns the denial in that case
+ */
+async function leaveDisallowedPage(userId: string, policy?: ToolPolicy): Promise<ToolResult | null> {
+    if (!policy?.allowedHosts) return null;
+
+    const page = await getPage(userId);
+    const url = page.url();
+    if (url === "about:blank") return null;
+
+    const denial = checkUrlPolicy(url, policy);
+    if (!denial) return null;
+    await page.goto("about:blank");
+    return { success: false, error: `The page navigated away from the allowed hosts. ${denial}` };
+}
+
 // ============================================================================
 // Action Handlers
 // ============================================================================
 
-async function handleNavigate(input: BrowserAutomationToolInput, userId: string): Promise<ToolResult> {
+async function handleNavigate(input: BrowserAutomationToolInput, userId: string, policy?: ToolPolicy): Promise<ToolResult> {
     if (!input.url) {
         return { success: false, error: "url is required for navigate action" };
     }
@@ -243,12 +276,17 @@ async function handleNavigate(input: BrowserAutomationToolInput, userId: string)
     const page = await getPage(userId);
     const timeout = input.timeout || 30000;
 
-    // Intercept and block requests to internal URLs (prevents SSRF via redirect)
+    // Intercept and block requests to internal URLs (prevents SSRF via redirect),
+    // and navigations to hosts the agent's policy does not allow
     await page.route("**/*", (route: any) => {
-        const url = route.request().url();
+        const request = route.request();
+        const url = request.url();
         if (isBlockedUrl(url)) {
             console.warn(`[Browser] Blocked request to internal URL: ${url}`);
             route.abort("blockedbyclient");
+        } else if (request.isNavigationRequest() && checkUrlPolicy(url, policy)) {
+            console.warn(`[Browser] Blocked navigation outside the agent's allowed hosts: ${url}`);
+            route.abort("blockedbyclient");
         } else {
             route.continue();
         }
@@ -15,6 +15,7 @@ import { eq, and, sql } from "drizzle-orm";
 import { getAdminSettings, getDeploymentMode } from "@/lib/admin/settings";
 import { emitMessageEvent } from "@/lib/background/events";
 import { resolveTelegramChatIdFromAccount } from "@/lib/channels/telegram/chat-id";
+import { richMessageSchema } from "@/lib/channels/rich";
 
 // ============================================================================
 // Schema
@@ -42,6 +43,10 @@ const channelMessageSchema = z.object({
     messageId: z.string().optional().describe(
         "The message ID to edit or delete (for edit/delete actions)"
     ),
+    rich: richMessageSchema.optional().describe(
+        "Interactive content for send/reply: blocks of buttons, select menus, cards (title, text, image, link) and polls. " +
+        "Channels without native support show numbered choices. The user's pick comes back as their next message."
+    ),
     options: z.object({
         silent: z.boolean().optional().describe("Send silently (no notification)"),
         parseMode: z.enum(["text", "html", "markdown"]).optional().describe("Message parse mode"),
@@ -217,7 +222,7 @@ async function executeChannelMessage(
         };
     }
 
-    const { action, channel, target, content, replyTo, emoji, messageId } = parseResult.data;
+    const { action, channel, target, content, replyTo, emoji, messageId, rich } = parseResult.data;
     const userId = context?.userId;
 
     if (!userId) {
@@ -277,7 +282,7 @@ async function executeChannelMessage(
 
         switch (action) {
             case "send":
-                if (!content) {
+                if (!content && !rich) {
                     return { success: false, error: "Content is required for send action" };
                 }
                 {
@@ -297,9 +302,10 @@ async function executeChannelMessage(
                         userId,
                         channel,
                         sendChannelId,
-                        content,
+                        content ?? "",
                         {
                             threadId: channel !== "telegram" && target !== account.channelId ? target : undefined,
+                            rich,
                         }
                     );
                 }
@@ -307,7 +313,7 @@ async function executeChannelMessage(
                 break;
 
             case "reply":
-                if (!content) {
+                if (!content && !rich) {
                     return { success: false, error: "Content is required for reply action" };
                 }
                 if (!replyTo) {
@@ -330,10 +336,11 @@ async function executeChannelMessage(
                         userId,
                         channel,
                         replyChannelId,
-                        content,
+                        content ?? "",
                         {
                             replyTo,
                             threadId: channel !== "telegram" ? target : undefined,
+                            rich,
                         }
                     );
                 }
@@ -435,6 +442,8 @@ Supported actions:
 - send: Send a new message to a target chat/channel
 - reply: Reply to a specific message
 
+Add \`rich\` to either to offer quick-reply buttons, a select menu, cards or a poll.
+
 Not yet supported: edit, delete, react
 
 Rate limits apply in hosted mode (default: 10/hour, 100/day per target).`,
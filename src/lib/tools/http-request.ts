@@ -6,9 +6,12 @@
  */
 
 import { z } from "zod";
-import type { Tool, ToolId, ToolResult } from "./types";
+import type { Tool, ToolContext, ToolId, ToolResult } from "./types";
+import { checkUrlPolicy } from "./policy";
 import { getConfigSection } from "@/lib/config";
 
+const MAX_REDIRECTS = 5;
+
 // ============================================================================
 // Tool Schema
 // ============================================================================
@@ -66,9 +69,8 @@ Security: Requests may be restricted to allowed domains configured by the admin.
 
 async function executeHttpRequest(
     input: HttpRequestToolInput,
-    _context?: { userId?: string }
+    context?: ToolContext
 ): Promise<ToolResult> {
-    void _context;
     try {
         // Security: Check domain allowlist
         const allowlistCheck = await checkDomainAllowlist(input.url);
@@ -129,12 +131,51 @@ async function executeHttpRequest(
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), input.timeout);
 
-        const response = await fetch(input.url, {
-            method: input.method,
-            headers,
-            body: requestBody,
-            signal: controller.signal,
-        });
+        // Redirects are followed by hand so every hop passes the same checks as the first URL
+        let url = input.url;
+        let method: string = input.method;
+        let response: Response;
+        for (let redirects = 0; ; redirects++) {
+            response = await fetch(url, {
+                method,
+                headers,
+                body: requestBody,
+                signal: controller.signal,
+                redirect: "manual",
+            });
+
+            const location = response.headers.get("location");
+            if (response.status < 300 || response.status >= 400 || !location) break;
+            await response.body?.cancel();
+
+            if (redirects >= MAX_REDIRECTS) {
+                clearTimeout(timeoutId);
+                return { success: false, error: `Too many redirects (more than ${MAX_REDIRECTS})` };
+            }
+
+            const next = new URL(location, url);
+            const denial = checkUrlPolicy(next.href, context?.policy)
+                ?? (await checkDomainAllowlist(next.href)).reason;
+            if (denial) {
+                clearTimeout(timeoutId);
+                return { success: false, error: `Redirect to ${next.href} blocked: ${denial}` };
+            }
+
+            // Credentials are meant for the original host only
+            if (next.origin !== new URL(url).origin) {
+                delete headers["Authorization"];
+                if (input.auth?.type === "api_key") {
+                    delete headers[input.auth.headerName || "X-API-Key"];
+                }
+            }
+            // 303, and 301/302 after a POST, turn into a GET like browsers do
+            if (response.status === 303 || ([301, 302].includes(response.status) && method === "POST")) {
+                method = "GET";
+                requestBody = undefined;
+                delete headers["Content-Type"];
+            }
+            url = next.href;
+        }
 
         clearTimeout(timeoutId);
 
@@ -22,8 +22,10 @@ import { httpRequestTool } from "./http-request";
 import { googleDriveTool } from "./google-drive";
 import { twitterTool } from "./twitter";
 import { logToolExecution, logToolDenied } from "./audit-logger";
+import { checkToolPolicy, scopeToolContext } from "./policy";
 
 export * from "./types";
+export { isToolAllowed, scopeToolContext } from "./policy";
 
 // ============================================================================
 // Tool Registry
@@ -159,10 +161,24 @@ export async function executeTool(
         };
     }
 
+    // Per-agent policy: allowed tools, argument constraints and credentials
+    const params = validation.data as Record<string, unknown>;
+    const policyDenial = checkToolPolicy(call.toolId, params, context);
+    if (policyDenial) {
+        if (context?.userId) {
+            logToolDenied(context.userId, call.toolId, tool.name, policyDenial, {
+                conversationId: context.conversationId,
+                agentId: context.agentId,
+                params,
+            });
+        }
+        return { success: false, error: policyDenial };
+    }
+
     // Execute the tool with timing
     const startTime = Date.now();
     try {
-        const result = await tool.execute(validation.data as Record<string, unknown>, context);
+        const result = await tool.execute(params, scopeToolContext(context));
         const durationMs = Date.now() - startTime;
 
         // Audit log (fire-and-forget)
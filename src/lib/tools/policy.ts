@@ -0,0 +1,176 @@
+/**
+ * Agent Tool Policies
+ *
+ * Per-agent limits checked before a tool runs: which tools the agent may
+ * call, which hosts, directories and email domains their arguments may
+ * point at, and which of the user's credentials its tools get to see.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { ToolContext, ToolId, ToolPolicy } from "./types";
+
+/** Integration tools and the connection they act through */
+const TOOL_CREDENTIALS: Partial<Record<ToolId, string>> = {
+    email: "google",
+    google_calendar: "google",
+    google_drive: "google",
+    github_integration: "github",
+    hubspot: "hubspot",
+    asana: "asana",
+    twitter: "twitter",
+};
+
+const WEB_TOOLS: ToolId[] = ["http_request", "url_fetch", "browser_automation"];
+const FILE_TOOLS: ToolId[] = ["file_read", "file_write", "file_list", "file_search", "file_delete", "file_move"];
+/** Tools that can touch any file, so they cannot run under a path restriction */
+const UNCONFINED_TOOLS: ToolId[] = ["shell_exec", "coding_cli"];
+const FILE_PATH_PARAMS = ["path", "directory", "source", "destination"];
+
+/** Email actions that send, and those whose recipients cannot be checked up front */
+const EMAIL_SEND_ACTIONS = ["send", "draft"];
+const EMAIL_UNCHECKABLE_ACTIONS = ["reply", "send_draft"];
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+    const host = hostname.toLowerCase();
+    return domains.some(domain => {
+        const allowed = domain.trim().toLowerCase();
+        return host === allowed || host.endsWith(`.${allowed}`);
+    });
+}
+
+function isInside(target: string, directory: string): boolean {
+    return target === directory || target.startsWith(directory + path.sep);
+}
+
+/**
+ * Where a path really points, following symlinks. For files that do not
+ * exist yet, the real path of the nearest existing parent plus the rest.
+ */
+function realPath(target: string): string {
+    const rest: string[] = [];
+    let current = target;
+    for (;;) {
+        try {
+            return path.join(fs.realpathSync(current), ...rest);
+        } catch {
+            const parent = path.dirname(current);
+            if (parent === current) return target;
+            rest.unshift(path.basename(current));
+            current = parent;
+        }
+    }
+}
+
+function emailAddresses(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : [value];
+    return values
+        .filter((v): v is string => typeof v === "string")
+        .flatMap(v => v.match(/[^\s<>,;"']+@[^\s<>,;"']+/g) ?? []);
+}
+
+/**
+ * Why the agent's policy forbids this call, or null when it is allowed
+ */
+export function checkToolPolicy(
+    toolId: ToolId,
+    params: Record<string, unknown>,
+    context?: ToolContext
+): string | null {
+    const policy = context?.policy;
+    if (!policy) return null;
+
+    if (policy.allowedTools && !policy.allowedTools.includes(toolId)) {
+        return `This agent is not allowed to use ${toolId}.`;
+    }
+
+    const credential = TOOL_CREDENTIALS[toolId];
+    if (credential && policy.credentials && !policy.credentials.includes(credential)) {
+        return `This agent is not allowed to use the ${credential} connection.`;
+    }
+
+    if (WEB_TOOLS.includes(toolId) && typeof params.url === "string") {
+        const denial = checkUrlPolicy(params.url, policy);
+        if (denial) return denial;
+    }
+
+    if (policy.allowedPaths) {
+        if (UNCONFINED_TOOLS.includes(toolId)) {
+            return `This agent is limited to ${policy.allowedPaths.join(", ")}, which ${toolId} cannot be confined to.`;
+        }
+        if (FILE_TOOLS.includes(toolId)) {
+            // Same resolution as the file tools, which resolve paths against the working directory
+            const base = path.resolve(context?.fileAccessBaseDir ?? process.cwd());
+            const allowed = policy.allowedPaths.map(dir => path.resolve(base, dir));
+            const allowedReal = allowed.map(realPath);
+            for (const param of FILE_PATH_PARAMS) {
+                const value = params[param];
+                if (typeof value !== "string") continue;
+                // Both the path as written and where it leads, so a symlink cannot point outside
+                const target = path.resolve(value);
+                if (!allowed.some(dir => isInside(target, dir))
+                    || !allowedReal.some(dir => isInside(realPath(target), dir))) {
+                    return `This agent may only use files under ${policy.allowedPaths.join(", ")}, not ${value}.`;
+                }
+            }
+        }
+    }
+
+    if (policy.allowedEmailDomains && toolId === "email" && typeof params.action === "string") {
+        if (EMAIL_UNCHECKABLE_ACTIONS.includes(params.action)) {
+            return `This agent may only email ${policy.allowedEmailDomains.join(", ")}, so it cannot use ${params.action}.`;
+        }
+        if (EMAIL_SEND_ACTIONS.includes(params.action)) {
+            const outside = ["to", "cc", "bcc"]
+                .flatMap(field => emailAddresses(params[field]))
+                .filter(address => !matchesDomain(address.split("@").pop() ?? "", policy.allowedEmailDomains!));
+            if (outside.length > 0) {
+                return `This agent may only email ${policy.allowedEmailDomains.join(", ")}, not ${outside.join(", ")}.`;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Why the policy forbids reaching a URL, or null when it is allowed. Web
+ * tools also check every redirect and navigation with it, not just the
+ * URL they were called with.
+ */
+export function checkUrlPolicy(url: string, policy?: ToolPolicy): string | null {
+    if (!policy?.allowedHosts) return null;
+
+    let hostname: string;
+    try {
+        hostname = new URL(url).hostname;
+    } catch {
+        return `Invalid URL: ${url}`;
+    }
+    if (!matchesDomain(hostname, policy.allowedHosts)) {
+        return `This agent may not reach ${hostname}. Allowed hosts: ${policy.allowedHosts.join(", ")}.`;
+    }
+    return null;
+}
+
+/**
+ * The context a tool runs with: only the API keys the policy grants
+ */
+export function scopeToolContext(context?: ToolContext): ToolContext | undefined {
+    const credentials = context?.policy?.credentials;
+    if (!context?.apiKeys || !credentials) return context;
+
+    return {
+        ...context,
+        apiKeys: Object.fromEntries(
+            Object.entries(context.apiKeys).filter(([name]) => credentials.includes(name))
+        ),
+    };
+}
+
+/**
+ * Whether the policy lets the agent be offered a tool at all
+ */
+export function isToolAllowed(toolId: string, policy?: ToolPolicy): boolean {
+    return !policy?.allowedTools || policy.allowedTools.includes(toolId);
+}
@@ -42,10 +42,33 @@ export interface Tool {
     requiresLocalAccess?: boolean;
 }
 
+/**
+ * What one agent's tools may do, on top of the admin settings. Enforced by
+ * executeTool; unset fields do not restrict.
+ */
+export const toolPolicySchema = z.object({
+    /** Tool IDs the agent may call */
+    allowedTools: z.array(z.string().min(1)).max(50).optional(),
+    /** Hosts web requests may reach; subdomains match too */
+    allowedHosts: z.array(z.string().min(1).max(253)).max(50).optional(),
+    /** Directories file tools may use, relative to the file access base directory */
+    allowedPaths: z.array(z.string().min(1).max(500)).max(20).optional(),
+    /** Domains email may be sent to */
+    allowedEmailDomains: z.array(z.string().min(1).max(253)).max(20).optional(),
+    /** Credentials the agent's tools may use: provider key names (openai, perplexity...) and integrations (google, github...) */
+    credentials: z.array(z.string().min(1).max(50)).max(30).optional(),
+});
+
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+
 export interface ToolContext {
     userId?: string;
     conversationId?: string;
     apiKeys?: Record<string, string>;
+    /** Agent making the call, for policy denials in the audit log */
+    agentId?: string;
+    /** Limits set on the calling agent */
+    policy?: ToolPolicy;
     maxDuration?: number;
     /** Whether local file system access is enabled (from admin settings) */
     localFileAccessEnabled?: boolean;
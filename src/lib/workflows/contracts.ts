@@ -0,0 +1,130 @@
+/**
+ * Workflow Contracts
+ *
+ * Validates workflow input and output against the contract declared in
+ * WorkflowDefinition.input / WorkflowDefinition.output. Schemas use a small
+ * JSON Schema subset: type, properties, required, items and enum.
+ */
+
+import type { WorkflowDefinition } from "./types";
+
+interface SchemaNode {
+    type?: string | string[];
+    properties?: Record<string, SchemaNode>;
+    required?: string[];
+    items?: SchemaNode;
+    enum?: unknown[];
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "number" && Number.isInteger(value)) return "integer";
+    return typeof value;
+}
+
+function matchesType(value: unknown, expected: string): boolean {
+    const actual = typeOf(value);
+    if (expected === "number") return actual === "number" || actual === "integer";
+    return actual === expected;
+}
+
+/**
+ * Validate a value against a schema node, returning human-readable errors
+ */
+export function validateAgainstSchema(
+    value: unknown,
+    schema: SchemaNode,
+    path = "$"
+): string[] {
+    const errors: string[] = [];
+
+    if (schema.type) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!allowed.some((type) => matchesType(value, type))) {
+            return [`${path} must be ${allowed.join(" | ")}, got ${typeOf(value)}`];
+        }
+    }
+
+    if (schema.enum && !schema.enum.some((option) => option === value)) {
+        errors.push(`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+    }
+
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+        const record = value as Record<string, unknown>;
+
+        for (const key of schema.required ?? []) {
+            if (record[key] === undefined) {
+                errors.push(`${path}.${key} is required`);
+            }
+        }
+
+        for (const [key, child] of Object.entries(schema.properties ?? {})) {
+            if (record[key] !== undefined) {
+                errors.push(...validateAgainstSchema(record[key], child, `${path}.${key}`));
+            }
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => {
+            errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * Normalize a declared schema. Both full object schemas and bare
+ * `{ field: { type } }` property maps are accepted.
+ */
+function toObjectSchema(schema: Record<string, unknown>): SchemaNode {
+    if ("type" in schema || "properties" in schema) {
+        return schema as SchemaNode;
+    }
+    return { type: "object", properties: schema as Record<string, SchemaNode> };
+}
+
+/**
+ * Validate workflow input against `definition.input`
+ */
+export function validateWorkflowInput(
+    definition: WorkflowDefinition,
+    input: Record<string, unknown>
+): string[] {
+    const errors: string[] = [];
+
+    for (const key of definition.input?.required ?? []) {
+        if (input[key] === undefined) {
+            errors.push(`input.${key} is required`);
+        }
+    }
+
+    if (definition.input?.schema) {
+        errors.push(...validateAgainstSchema(input, toObjectSchema(definition.input.schema), "input"));
+    }
+
+    return errors;
+}
+
+/**
+ * Validate workflow output against `definition.output`
+ */
+export function validateWorkflowOutput(
+    definition: WorkflowDefinition,
+    output: unknown
+): string[] {
+    const contract = definition.output;
+    if (!contract) return [];
+
+    if (contract.schema) {
+        return validateAgainstSchema(output, toObjectSchema(contract.schema), "output");
+    }
+
+    if (contract.type) {
+        return validateAgainstSchema(output, { type: contract.type }, "output");
+    }
+
+    return [];
+}
@@ -11,19 +11,24 @@
 import { randomBytes, createHash } from "crypto";
 import { db } from "@/lib/db";
 import { workflows, workflowRuns, workflowApprovals } from "@/lib/db/schema";
-import { and, eq } from "drizzle-orm";
+import { and, desc, eq, inArray } from "drizzle-orm";
 import { generateText } from "ai";
 import { executeTool, type ToolContext, type ToolId } from "@/lib/tools";
 import { getLocalAccessContext } from "@/lib/admin/settings";
 import { getUserApiKeys } from "@/lib/ai/get-user-keys";
 import { getModelConfig, getModelWithKey } from "@/lib/ai/providers/factory";
+import { checkBudget, recordUsage, readTokenUsage } from "@/lib/ai/usage";
+import { validateWorkflowInput, validateWorkflowOutput } from "./contracts";
+import { runWithRetry } from "./retry";
 import type {
     Workflow,
     WorkflowDefinition,
     WorkflowStep,
+    NestedCompensation,
     WorkflowRun,
     WorkflowRunState,
     WorkflowRunStatus,
+    WorkflowRunMode,
     StepResult,
     ExecuteWorkflowOptions,
     ResumeWorkflowOptions,
@@ -181,12 +186,63 @@ function interpolateArgs(
 // Step Executors
 // ============================================================================
 
+interface DryRunOutputs {
+    mocks: Record<string, unknown>;
+    recorded: Record<string, unknown>; // Outputs from the last live run, by step ID
+}
+
+interface StepExecutionOptions {
+    userId: string;
+    runId: string;
+    dryRun?: DryRunOutputs;
+    signal?: AbortSignal; // Fired when the attempt running this step times out
+    runSubWorkflow: (
+        step: WorkflowStep,
+        context: ExpressionContext
+    ) => Promise<WorkflowExecutionResult>;
+}
+
 type StepExecutor = (
     step: WorkflowStep,
     context: ExpressionContext,
-    options: { userId: string; runId: string }
+    options: StepExecutionOptions
 ) => Promise<StepResult>;
 
+/**
+ * Expose a step result to expressions as $stepId.success/output/error.
+ * Sub-workflow results are also available as $stepId.result.
+ */
+function toContextEntry(result: StepResult): Record<string, unknown> {
+    const entry: Record<string, unknown> = {
+        success: result.status === "success",
+        output: result.output,
+        error: result.error,
+    };
+
+    if (result.childRunId) {
+        entry.result = result.output;
+        entry.runId = result.childRunId;
+    }
+
+    return entry;
+}
+
+/**
+ * Find a step by ID, including steps nested in parallel branches and forEach bodies
+ */
+export function findStep(steps: WorkflowStep[], stepId: string): WorkflowStep | undefined {
+    for (const step of steps) {
+        if (step.id === stepId) return step;
+        const nested = [
+            ...(step.parallel?.branches.flatMap(branch => branch.steps) ?? []),
+            ...(step.forEach?.steps ?? []),
+        ];
+        const found = nested.length > 0 ? findStep(nested, stepId) : undefined;
+        if (found) return found;
+    }
+    return undefined;
+}
+
 async function executeToolCall(
     toolName: string,
     args: Record<string, unknown>,
@@ -265,13 +321,20 @@ const executeLLMStep: StepExecutor = async (step, context, options) => {
             throw new Error(`Model not found: ${modelId}`);
         }
 
+        const budget = await checkBudget(options.userId, "workflow");
+        if (!budget.allowed) {
+            throw new Error(budget.message);
+        }
+
         const apiKeys = await getUserApiKeys(options.userId);
         const model = getModelWithKey(modelId, apiKeys);
 
-        const { text } = await generateText({
+        const { text, usage } = await generateText({
             model,
             messages: [{ role: "user", content: prompt }],
+            abortSignal: options.signal,
         });
+        await recordUsage({ userId: options.userId, feature: "workflow", model: modelId, ...readTokenUsage(usage), sourceId: options.runId });
 
         // Try to parse as JSON if it looks like JSON
         let output: unknown = text;
@@ -381,11 +444,432 @@ const executeTransformStep: StepExecutor = async (step, context) => {
     }
 };
 
+// ============================================================================
+// Retries, Timeouts and Compensation
+// ============================================================================
+
+/**
+ * Execute a step honoring its timeout and retry policy. Undo actions from
+ * nested steps are kept across attempts, since a failed attempt of a
+ * parallel or forEach step may still have completed some of them.
+ */
+async function runStepWithPolicy(
+    executor: StepExecutor,
+    step: WorkflowStep,
+    context: ExpressionContext,
+    options: StepExecutionOptions,
+    onRetry?: (attempt: number, delayMs: number, error: string) => Promise<void>
+): Promise<StepResult> {
+    const stubbed = dryRunStepResult(step, context, options);
+    if (stubbed) {
+        return stubbed;
+    }
+
+    const nestedCompensations: NestedCompensation[] = [];
+    const result = await runWithRetry(
+        step,
+        async (signal) => {
+            const attempt = await executor(step, context, { ...options, signal });
+            nestedCompensations.push(...(attempt.nestedCompensations ?? []));
+            return attempt;
+        },
+        { signal: options.signal, onRetry }
+    );
+
+    return nestedCompensations.length > 0 ? { ...result, nestedCompensations } : result;
+}
+
+/**
+ * Bind a nested step's compensate action to the context it ran in ($item,
+ * earlier results of its branch), which is gone by the time it is undone
+ */
+function bindCompensation(action: WorkflowStep, context: ExpressionContext): WorkflowStep {
+    return {
+        ...action,
+        args: action.args ? interpolateArgs(action.args, context) : undefined,
+        prompt: action.prompt !== undefined ? String(evaluateExpression(action.prompt, context)) : undefined,
+    };
+}
+
+// ============================================================================
+// Dry Runs
+// ============================================================================
+
+/**
+ * Resolve a step's output without executing it when the run is a dry run.
+ * Tool steps are always stubbed; other steps only when a mock is provided.
+ * A mock wins over the output recorded by the last live run, which wins
+ * over a stub echoing the call that would have been made.
+ */
+function dryRunStepResult(
+    step: WorkflowStep,
+    context: ExpressionContext,
+    options: StepExecutionOptions
+): StepResult | null {
+    const dryRun = options.dryRun;
+    if (!dryRun) {
+        return null;
+    }
+
+    const hasMock = Object.prototype.hasOwnProperty.call(dryRun.mocks, step.id);
+    if (!hasMock && step.type !== "tool") {
+        return null;
+    }
+
+    let output: unknown;
+    let mocked: StepResult["mocked"];
+
+    if (hasMock) {
+        output = dryRun.mocks[step.id];
+        mocked = "mock";
+    } else if (Object.prototype.hasOwnProperty.call(dryRun.recorded, step.id)) {
+        output = dryRun.recorded[step.id];
+        mocked = "recorded";
+    } else {
+        output = {
+            dryRun: true,
+            tool: step.tool,
+            action: step.action,
+            args: step.args ? interpolateArgs(step.args, context) : {},
+        };
+        mocked = "stub";
+    }
+
+    const now = new Date();
+    return {
+        stepId: step.id,
+        status: "success",
+        output,
+        mocked,
+        startedAt: now,
+        completedAt: now,
+        duration: 0,
+    };
+}
+
+// ============================================================================
+// Composite Steps (parallel / forEach)
+// ============================================================================
+
+const MAX_FOREACH_CONCURRENCY = 10;
+
+interface NestedRunResult {
+    status: "success" | "failure";
+    output: unknown;
+    error?: string;
+    stepResults: Record<string, StepResult>;
+    compensations: NestedCompensation[];
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    const workerCount = Math.min(Math.max(1, limit), items.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
+
+/**
+ * Run a nested step sequence (a parallel branch or a forEach body).
+ * Nested steps see the parent context plus the results of earlier nested
+ * steps. Approval gates cannot pause inside a nested sequence. Completed
+ * steps with a compensate action are returned so a later failure can undo
+ * them; the sequence stops once the enclosing step times out.
+ */
+async function runNestedSteps(
+    steps: WorkflowStep[],
+    parentContext: ExpressionContext,
+    options: StepExecutionOptions
+): Promise<NestedRunResult> {
+    const context: ExpressionContext = { ...parentContext };
+    const stepResults: Record<string, StepResult> = {};
+    const compensations: NestedCompensation[] = [];
+    let output: unknown = null;
+
+    for (const step of steps) {
+        if (options.signal?.aborted) {
+            return { status: "failure", output: null, error: `${step.id}: Cancelled because the enclosing step timed out`, stepResults, compensations };
+        }
+
+
+        if (step.condition && !evaluateExpression(step.condition, context)) {
+            stepResults[step.id] = {
+                stepId: step.id,
+                status: "skipped",
+                output: { reason: "Condition not met" },
+                startedAt: new Date(),
+                completedAt: new Date(),
+                duration: 0,
+            };
+            continue;
+        }
+
+        if (step.type === "approval") {
+            return {
+                status: "failure",
+                output: null,
+                error: `Approval step "${step.id}" is not supported inside parallel or forEach steps`,
+                stepResults,
+                compensations,
+            };
+        }
+
+        const executor = STEP_EXECUTORS[step.type];
+        if (!executor) {
+            return { status: "failure", output: null, error: `Unknown step type: ${step.type}`, stepResults, compensations };
+        }
+
+        const result = await runStepWithPolicy(executor, step, context, options);
+        stepResults[step.id] = result;
+        context[`$${step.id}`] = toContextEntry(result);
+
+        compensations.push(...(result.nestedCompensations ?? []));
+        if (result.status === "success" && step.compensate) {
+            compensations.push({
+                path: step.id,
+                action: bindCompensation(step.compensate, context),
+                completedAt: result.completedAt,
+            });
+        }
+
+        if (result.status === "success" && step.type === "transform" && step.transform?.output) {
+            context[step.transform.output] = result.output;
+        }
+
+        if (result.status === "failure" && !step.continueOnError) {
+            return { status: "failure", output: null, error: `${step.id}: ${result.error}`, stepResults, compensations };
+        }
+
+        output = result.output;
+    }
+
+    return { status: "success", output, stepResults, compensations };
+}
+
+/**
+ * Execute a parallel step: run all branches concurrently and join their
+ * outputs as { [branchId]: lastStepOutput }
+ */
+const executeParallelStep: StepExecutor = async (step, context, options) => {
+    const startedAt = new Date();
+
+    try {
+        const branches = step.parallel?.branches ?? [];
+        if (branches.length === 0) {
+            throw new Error("Parallel step requires at least one branch");
+        }
+
+        const outcomes = await Promise.all(
+            branches.map((branch) => runNestedSteps(branch.steps, context, options))
+        );
+
+        const output: Record<string, unknown> = {};
+        const errors: string[] = [];
+        branches.forEach((branch, index) => {
+            const outcome = outcomes[index];
+            output[branch.id] = outcome.output;
+            if (outcome.status === "failure") {
+                errors.push(`Branch ${branch.id} failed at ${outcome.error}`);
+            }
+        });
+
+        const failed = errors.length > 0 && !step.parallel?.continueOnBranchError;
+        const nestedCompensations = outcomes.flatMap((outcome, index) =>
+            outcome.compensations.map((entry) => ({ ...entry, path: `${step.id}.${branches[index].id}.${entry.path}` }))
+        );
+
+        return {
+            stepId: step.id,
+            status: failed ? "failure" : "success",
+            output,
+            error: errors.length > 0 ? errors.join("; ") : undefined,
+            nestedCompensations: nestedCompensations.length > 0 ? nestedCompensations : undefined,
+            startedAt,
+            completedAt: new Date(),
+            duration: Date.now() - startedAt.getTime(),
+        };
+    } catch (error) {
+        return {
+            stepId: step.id,
+            status: "failure",
+            error: error instanceof Error ? error.message : "Parallel execution failed",
+            startedAt,
+            completedAt: new Date(),
+            duration: Date.now() - startedAt.getTime(),
+        };
+    }
+};
+
+/**
+ * Execute a forEach step: run the nested steps once per item, with the item
+ * exposed as $item (or $<as>) and its position as $index. Output is the
+ * array of per-item outputs in input order.
+ */
+const executeForEachStep: StepExecutor = async (step, context, options) => {
+    const startedAt = new Date();
+
+    try {
+        const config = step.forEach;
+        if (!config || !config.steps?.length) {
+            throw new Error("forEach step requires nested steps");
+        }
+
+        const items = evaluateExpression(config.items, context);
+        if (!Array.isArray(items)) {
+            throw new Error(`forEach items must resolve to an array: ${config.items}`);
+        }
+
+        const itemVariable = config.as || "item";
+        const concurrency = Math.min(config.concurrency ?? 1, MAX_FOREACH_CONCURRENCY);
+
+        const outcomes = await mapWithConcurrency(items, concurrency, (item, index) =>
+            runNestedSteps(
+                config.steps,
+                { ...context, [`$${itemVariable}`]: item, $index: index },
+                options
+            )
+        );
+
+        const errors = outcomes.flatMap((outcome, index) =>
+            outcome.status === "failure" ? [`Item ${index} failed at ${outcome.error}`] : []
+        );
+        const failed = errors.length > 0 && !config.continueOnItemError;
+        const nestedCompensations = outcomes.flatMap((outcome, index) =>
+            outcome.compensations.map((entry) => ({ ...entry, path: `${step.id}[${index}].${entry.path}` }))
+        );
+
+        return {
+            stepId: step.id,
+            status: failed ? "failure" : "success",
+            output: outcomes.map((outcome) => outcome.output),
+            error: errors.length > 0 ? errors.join("; ") : undefined,
+            nestedCompensations: nestedCompensations.length > 0 ? nestedCompensations : undefined,
+            startedAt,
+            completedAt: new Date(),
+            duration: Date.now() - startedAt.getTime(),
+        };
+    } catch (error) {
+        return {
+            stepId: step.id,
+            status: "failure",
+            error: error instanceof Error ? error.message : "forEach execution failed",
+            startedAt,
+            completedAt: new Date(),
+            duration: Date.now() - startedAt.getTime(),
+        };
+    }
+};
+
+// ============================================================================
+// Sub-workflow Steps
+// ============================================================================
+
+const MAX_SUBWORKFLOW_DEPTH = 5;
+
+/**
+ * Dry-run mocks for the child started by a sub-workflow step: keys of the
+ * form "<stepId>.<childStepId>" mock the child's steps
+ */
+function childMocks(mocks: Record<string, unknown>, stepId: string): Record<string, unknown> {
+    const prefix = `${stepId}.`;
+    return Object.fromEntries(
+        Object.entries(mocks)
+            .filter(([key]) => key.startsWith(prefix))
+            .map(([key, value]) => [key.slice(prefix.length), value])
+    );
+}
+
+/**
+ * Convert a finished child run into the calling step's result
+ */
+function subWorkflowStepResult(
+    stepId: string,
+    child: WorkflowExecutionResult,
+    startedAt: Date
+): StepResult {
+    const succeeded = child.status === "completed";
+
+    return {
+        stepId,
+        status: succeeded ? "success" : "failure",
+        output: child.output,
+        error: succeeded ? undefined : child.error || `Sub-workflow ${child.status}`,
+        childRunId: child.runId,
+        startedAt,
+        completedAt: new Date(),
+        duration: Date.now() - startedAt.getTime(),
+    };
+}
+
+/**
+ * Fail a completed child run's result if its output breaks the declared contract
+ */
+function applyOutputContract(
+    definition: WorkflowDefinition,
+    result: WorkflowExecutionResult
+): WorkflowExecutionResult {
+    if (result.status !== "completed") {
+        return result;
+    }
+
+    const errors = validateWorkflowOutput(definition, result.output);
+    if (errors.length === 0) {
+        return result;
+    }
+
+    return {
+        ...result,
+        status: "failed",
+        error: `Sub-workflow output does not match its contract: ${errors.join("; ")}`,
+    };
+}
+
+/**
+ * Execute a sub-workflow step inside a parallel branch or forEach body.
+ * Top-level sub-workflow steps are handled by WorkflowExecutor so that the
+ * caller can pause while the child waits for approval.
+ */
+const executeSubWorkflowStep: StepExecutor = async (step, context, options) => {
+    const startedAt = new Date();
+
+    try {
+        const child = await options.runSubWorkflow(step, context);
+        return subWorkflowStepResult(step.id, child, startedAt);
+    } catch (error) {
+        return {
+            stepId: step.id,
+            status: "failure",
+            error: error instanceof Error ? error.message : "Sub-workflow execution failed",
+            startedAt,
+            completedAt: new Date(),
+            duration: Date.now() - startedAt.getTime(),
+        };
+    }
+};
+
 const STEP_EXECUTORS: Record<string, StepExecutor> = {
     tool: executeToolStep,
     llm: executeLLMStep,
     condition: executeConditionStep,
     transform: executeTransformStep,
+    parallel: executeParallelStep,
+    forEach: executeForEachStep,
+    workflow: executeSubWorkflowStep,
 };
 
 // ============================================================================
@@ -419,7 +903,16 @@ export class WorkflowExecutor {
      * Execute a workflow
      */
     async execute(options: ExecuteWorkflowOptions): Promise<WorkflowExecutionResult> {
-        const { workflowId, userId, input = {} } = options;
+        const {
+            workflowId,
+            userId,
+            input = {},
+            dryRun = false,
+            mocks = {},
+            stepMode = false,
+            parentRunId,
+            parentStepId,
+        } = options;
 
         // Load workflow
         const [workflow] = await db
@@ -432,6 +925,24 @@ export class WorkflowExecutor {
             throw new Error(`Workflow not found: ${workflowId}`);
         }
 
+        let depth = 0;
+        if (parentRunId) {
+            const [parentRun] = await db
+                .select({ depth: workflowRuns.depth })
+                .from(workflowRuns)
+                .where(eq(workflowRuns.id, parentRunId))
+                .limit(1);
+
+            if (!parentRun) {
+                throw new Error(`Parent workflow run not found: ${parentRunId}`);
+            }
+
+            depth = parentRun.depth + 1;
+            if (depth > MAX_SUBWORKFLOW_DEPTH) {
+                throw new Error(`Sub-workflow nesting exceeds ${MAX_SUBWORKFLOW_DEPTH} levels`);
+            }
+        }
+
         // Create run record
         const runId = crypto.randomUUID();
         const initialState: WorkflowRunState = {
@@ -449,6 +960,13 @@ export class WorkflowExecutor {
             currentStepId: null,
             stepResults: {},
             input,
+            parentRunId,
+            parentStepId,
+            depth,
+            dryRun,
+            stepMode,
+            mocks,
+            variables: initialState.variables,
             startedAt: new Date(),
         });
 
@@ -457,10 +975,11 @@ export class WorkflowExecutor {
             timestamp: new Date(),
             runId,
             workflowId,
+            data: dryRun || stepMode ? { dryRun, stepMode } : undefined,
         });
 
         // Execute workflow
-        return this.executeSteps(workflow, runId, userId, input, initialState);
+        return this.executeSteps(workflow, runId, userId, input, initialState, { dryRun, stepMode, mocks });
     }
 
     /**
@@ -533,6 +1052,10 @@ export class WorkflowExecutor {
                 })
                 .where(eq(workflowRuns.id, runId));
 
+            if (run.parentRunId) {
+                await this.cancelWaitingParent(run.parentRunId);
+            }
+
             return {
                 runId,
                 status: "cancelled",
@@ -541,15 +1064,20 @@ export class WorkflowExecutor {
             };
         }
 
-        // Resume execution
+        // Resume execution. Step-mode breakpoints record which step comes
+        // next, since a branch may have jumped past the following one.
+        const definition = workflow.definition as WorkflowDefinition;
         const state: WorkflowRunState = {
-            currentStepIndex: this.findStepIndex(
-                workflow.definition as WorkflowDefinition,
-                run.currentStepId || ""
-            ) + 1,
+            currentStepIndex: run.nextStepId
+                ? this.findStepIndex(definition, run.nextStepId)
+                : this.findStepIndex(definition, run.currentStepId || "") + 1,
             currentStepId: run.currentStepId,
             stepResults: run.stepResults as Record<string, StepResult>,
-            variables: run.input as Record<string, unknown> || {},
+            variables: run.variables ?? (run.input as Record<string, unknown>) ?? {},
+        };
+        const mode: WorkflowRunMode = {
+            ...this.runModeOf(run),
+            stepMode: options.stepMode ?? run.stepMode,
         };
 
         // Mark approval step as completed
@@ -572,6 +1100,8 @@ export class WorkflowExecutor {
                 pendingApprovalPrompt: null,
                 pendingApprovalItems: null,
                 resumeToken: null,
+                nextStepId: null,
+                stepMode: mode.stepMode,
             })
             .where(eq(workflowRuns.id, runId));
 
@@ -582,13 +1112,135 @@ export class WorkflowExecutor {
             workflowId: run.workflowId,
         });
 
-        return this.executeSteps(
+        const result = await this.executeSteps(
             workflow,
             runId,
             run.userId,
             run.input as Record<string, unknown>,
-            state
+            state,
+            mode
+        );
+
+        return this.propagateToParent(run, definition, result);
+    }
+
+    /**
+     * Hand a finished child run's result back to the parent that paused on it
+     * and continue the parent from its sub-workflow step. Returns the result
+     * of the outermost run that was continued.
+     */
+    private async propagateToParent(
+        run: typeof workflowRuns.$inferSelect,
+        definition: WorkflowDefinition,
+        result: WorkflowExecutionResult
+    ): Promise<WorkflowExecutionResult> {
+        if (!run.parentRunId || !run.parentStepId || result.status === "paused") {
+            return result;
+        }
+
+        const [parent] = await db
+            .select()
+            .from(workflowRuns)
+            .where(eq(workflowRuns.id, run.parentRunId))
+            .limit(1);
+
+        if (!parent || parent.status !== "paused") {
+            return result;
+        }
+
+        const [parentWorkflow] = await db
+            .select()
+            .from(workflows)
+            .where(eq(workflows.id, parent.workflowId))
+            .limit(1);
+
+        if (!parentWorkflow) {
+            return result;
+        }
+
+        const parentDefinition = parentWorkflow.definition as WorkflowDefinition;
+        const stepResult = subWorkflowStepResult(
+            run.parentStepId,
+            applyOutputContract(definition, result),
+            parent.pausedAt ?? new Date()
+        );
+
+        await db
+            .update(workflowRuns)
+            .set({ status: "running" })
+            .where(eq(workflowRuns.id, parent.id));
+
+        await this.emitEvent({
+            type: "workflow.resumed",
+            timestamp: new Date(),
+            runId: parent.id,
+            workflowId: parent.workflowId,
+            data: { childRunId: run.id },
+        });
+
+        const parentInput = (parent.input as Record<string, unknown>) || {};
+        const parentResult = await this.executeSteps(
+            parentWorkflow,
+            parent.id,
+            parent.userId,
+            parentInput,
+            {
+                currentStepIndex: this.findStepIndex(parentDefinition, run.parentStepId),
+                currentStepId: run.parentStepId,
+                stepResults: parent.stepResults as Record<string, StepResult>,
+                variables: parent.variables ?? parentInput,
+            },
+            this.runModeOf(parent),
+            stepResult
         );
+
+        return this.propagateToParent(parent, parentDefinition, parentResult);
+    }
+
+    /**
+     * Start another saved workflow as a child of this run. Input is mapped
+     * from the caller's context and checked against the child's contract.
+     */
+    private async runSubWorkflow(
+        step: WorkflowStep,
+        context: ExpressionContext,
+        userId: string,
+        runId: string,
+        mode: WorkflowRunMode
+    ): Promise<WorkflowExecutionResult> {
+        const config = step.workflow;
+        if (!config?.workflowId) {
+            throw new Error(`Sub-workflow step "${step.id}" requires workflow.workflowId`);
+        }
+
+        const [target] = await db
+            .select()
+            .from(workflows)
+            .where(and(eq(workflows.id, config.workflowId), eq(workflows.userId, userId)))
+            .limit(1);
+
+        if (!target) {
+            throw new Error(`Workflow not found: ${config.workflowId}`);
+        }
+
+        const definition = target.definition as WorkflowDefinition;
+        const input = config.input ? interpolateArgs(config.input, context) : {};
+        const errors = validateWorkflowInput(definition, input);
+        if (errors.length > 0) {
+            throw new Error(`Invalid input for workflow "${target.name}": ${errors.join("; ")}`);
+        }
+
+        const result = await this.execute({
+            workflowId: target.id,
+            userId,
+            input,
+            dryRun: mode.dryRun,
+            mocks: mode.dryRun ? childMocks(mode.mocks, step.id) : undefined,
+            parentRunId: runId,
+            parentStepId: step.id,
+        });
+
+        return applyOutputContract(definition, result);
     }
 
     /**
@@ -599,11 +1251,36 @@ export class WorkflowExecutor {
         runId: string,
         userId: string,
         input: Record<string, unknown>,
-        state: WorkflowRunState
+        state: WorkflowRunState,
+        mode: WorkflowRunMode,
+        resumedResult?: StepResult
     ): Promise<WorkflowExecutionResult> {
         const definition = workflow.definition as WorkflowDefinition;
         const steps = definition.steps;
 
+        const stepOptions: StepExecutionOptions = {
+            userId,
+            runId,
+            dryRun: mode.dryRun
+                ? { mocks: mode.mocks, recorded: await this.loadRecordedOutputs(workflow.id) }
+                : undefined,
+            runSubWorkflow: async (subStep, context) => {
+                const child = await this.runSubWorkflow(subStep, context, userId, runId, mode);
+                if (child.status !== "paused") {
+                    return child;
+                }
+
+                // Nested sequences cannot pause, so a child waiting for approval is cancelled
+                await this.cancel(child.runId);
+                return {
+                    ...child,
+                    status: "cancelled",
+                    error: "Sub-workflows that wait for approval cannot run inside parallel or forEach steps",
+                    approval: undefined,
+                };
+            },
+        };
+
         // Build expression context
         const buildContext = (): ExpressionContext => {
             const ctx: ExpressionContext = {
@@ -613,11 +1290,7 @@ export class WorkflowExecutor {
 
             // Add step results
             for (const [stepId, result] of Object.entries(state.stepResults)) {
-                ctx[`$${stepId}`] = {
-                    success: result.status === "success",
-                    output: result.output,
-                    error: result.error,
-                };
+                ctx[`$${stepId}`] = toContextEntry(result);
             }
 
             // Add variables
@@ -671,8 +1344,21 @@ export class WorkflowExecutor {
             state.currentStepIndex = currentIndex;
             state.currentStepId = step.id;
 
+            // A sub-workflow step this run was paused on has already finished
+            const resumed = resumedResult?.stepId === step.id ? resumedResult : undefined;
+            resumedResult = undefined;
+
+            if (!resumed && (await this.isCancelled(runId))) {
+                return {
+                    runId,
+                    status: "cancelled",
+                    completedSteps: Object.keys(state.stepResults),
+                    pendingSteps: steps.slice(currentIndex).map((s) => s.id),
+                };
+            }
+
             // Check condition
-            if (step.condition) {
+            if (step.condition && !resumed) {
                 const ctx = buildContext();
                 const conditionResult = evaluateExpression(step.condition, ctx);
 
@@ -718,6 +1404,7 @@ export class WorkflowExecutor {
                         status: "paused",
                         currentStepId: step.id,
                         stepResults: state.stepResults,
+                        variables: state.variables,
                         pendingApprovalStepId: step.id,
                         pendingApprovalPrompt: prompt,
                         pendingApprovalItems: items,
@@ -742,6 +1429,15 @@ export class WorkflowExecutor {
                     data: { prompt, items },
                 });
 
+                if (step.approval.channel && !mode.dryRun) {
+                    const { requestWorkflowApproval } = await import("@/lib/channels/approvals");
+                    try {
+                        await requestWorkflowApproval(userId, { runId, stepId: step.id, prompt, items }, step.approval.channel);
+                    } catch (error) {
+                        console.warn(`[Workflow] Could not post approval request for run ${runId} to ${step.approval.channel.channelType}:`, error);
+                    }
+                }
+
                 return {
                     runId,
                     status: "paused",
@@ -754,28 +1450,128 @@ export class WorkflowExecutor {
                         expiresAt: step.approval.timeout
                             ? new Date(Date.now() + step.approval.timeout)
                             : undefined,
+                        kind: "approval",
                     },
                     completedSteps: Object.keys(state.stepResults),
                     pendingSteps: steps.slice(currentIndex + 1).map((s) => s.id),
                 };
             }
 
-            // Execute step
-            await this.emitEvent({
-                type: "step.started",
-                timestamp: new Date(),
-                runId,
-                workflowId: workflow.id,
-                stepId: step.id,
-            });
+            let result: StepResult;
 
-            const executor = STEP_EXECUTORS[step.type];
+            if (resumed) {
+                result = resumed;
+            } else {
+                // Execute step
+                await this.emitEvent({
+                    type: "step.started",
+                    timestamp: new Date(),
+                    runId,
+                    workflowId: workflow.id,
+                    stepId: step.id,
+                });
 
-            if (!executor) {
-                throw new Error(`Unknown step type: ${step.type}`);
+                // Dry runs answer mocked steps, including sub-workflows, up front
+                const stubbed = dryRunStepResult(step, buildContext(), stepOptions);
+
+                if (stubbed) {
+                    result = stubbed;
+                } else if (step.type === "workflow") {
+                    // Retries and timeouts apply to the child run as they do to any step,
+                    // but a child that pauses for approval is waited on, not retried
+                    let pausedChild: WorkflowExecutionResult | undefined;
+
+                    result = await runStepWithPolicy(
+                        async (subStep, context) => {
+                            const startedAt = new Date();
+
+                            try {
+                                const child = await this.runSubWorkflow(subStep, context, userId, runId, mode);
+                                if (child.status === "paused") {
+                                    pausedChild = child;
+                                    return { stepId: subStep.id, status: "skipped", startedAt, completedAt: startedAt, duration: 0 };
+                                }
+                                return subWorkflowStepResult(subStep.id, child, startedAt);
+                            } catch (error) {
+                                return {
+                                    stepId: subStep.id,
+                                    status: "failure",
+                                    error: error instanceof Error ? error.message : "Sub-workflow execution failed",
+                                    startedAt,
+                                    completedAt: new Date(),
+                                    duration: Date.now() - startedAt.getTime(),
+                                };
+                            }
+                        },
+                        step,
+                        buildContext(),
+                        stepOptions,
+                        (attempt, delayMs, error) =>
+                            this.emitEvent({
+                                type: "step.retrying",
+                                timestamp: new Date(),
+                                runId,
+                                workflowId: workflow.id,
+                                stepId: step.id,
+                                data: { attempt, delayMs, error },
+                            })
+                    );
+
+                    if (pausedChild) {
+                        // Wait for the child; resuming it continues this run
+                        await db
+                            .update(workflowRuns)
+                            .set({
+                                status: "paused",
+                                currentStepId: step.id,
+                                stepResults: state.stepResults,
+                                variables: state.variables,
+                                pausedAt: new Date(),
+                            })
+                            .where(eq(workflowRuns.id, runId));
+
+                        await this.emitEvent({
+                            type: "workflow.paused",
+                            timestamp: new Date(),
+                            runId,
+                            workflowId: workflow.id,
+                            stepId: step.id,
+                            data: { childRunId: pausedChild.runId },
+                        });
+
+                        return {
+                            runId,
+                            status: "paused",
+                            approval: pausedChild.approval,
+                            completedSteps: Object.keys(state.stepResults),
+                            pendingSteps: steps.slice(currentIndex).map((s) => s.id),
+                        };
+                    }
+                } else {
+                    const executor = STEP_EXECUTORS[step.type];
+
+                    if (!executor) {
+                        throw new Error(`Unknown step type: ${step.type}`);
+                    }
+
+                    result = await runStepWithPolicy(
+                        executor,
+                        step,
+                        buildContext(),
+                        stepOptions,
+                        (attempt, delayMs, error) =>
+                            this.emitEvent({
+                                type: "step.retrying",
+                                timestamp: new Date(),
+                                runId,
+                                workflowId: workflow.id,
+                                stepId: step.id,
+                                data: { attempt, delayMs, error },
+                            })
+                    );
+                }
             }
 
-            const result = await executor(step, buildContext(), { userId, runId });
             state.stepResults[step.id] = result;
             lastStepId = step.id;
 
@@ -789,6 +1585,7 @@ export class WorkflowExecutor {
                 .set({
                     currentStepId: step.id,
                     stepResults: state.stepResults,
+                    variables: state.variables,
                 })
                 .where(eq(workflowRuns.id, runId));
 
@@ -803,12 +1600,21 @@ export class WorkflowExecutor {
                 });
 
                 if (!step.continueOnError && !step.onFailure) {
-                    // Workflow failed
+                    // Workflow failed - undo side effects of completed steps first
+                    const compensatedSteps = await this.compensate(
+                        workflow,
+                        runId,
+                        state,
+                        buildContext(),
+                        stepOptions
+                    );
+
                     await db
                         .update(workflowRuns)
                         .set({
                             status: "failed",
                             error: result.error,
+                            stepResults: state.stepResults,
                             completedAt: new Date(),
                         })
                         .where(eq(workflowRuns.id, runId));
@@ -818,7 +1624,7 @@ export class WorkflowExecutor {
                         timestamp: new Date(),
                         runId,
                         workflowId: workflow.id,
-                        data: { error: result.error },
+                        data: { error: result.error, compensatedSteps },
                     });
 
                     return {
@@ -827,6 +1633,7 @@ export class WorkflowExecutor {
                         error: result.error,
                         completedSteps: Object.keys(state.stepResults),
                         pendingSteps: steps.slice(currentIndex + 1).map((s) => s.id),
+                        compensatedSteps,
                     };
                 }
             } else {
@@ -841,6 +1648,52 @@ export class WorkflowExecutor {
             }
 
             currentIndex = resolveNextIndex(currentIndex, step, result);
+
+            // Step mode: stop at a breakpoint before the next step runs
+            if (mode.stepMode && currentIndex < steps.length) {
+                const nextStepId = steps[currentIndex].id;
+                const resumeToken = generateResumeToken(runId);
+
+                await db
+                    .update(workflowRuns)
+                    .set({
+                        status: "paused",
+                        nextStepId,
+                        resumeToken,
+                        pausedAt: new Date(),
+                    })
+                    .where(eq(workflowRuns.id, runId));
+
+                await this.emitEvent({
+                    type: "workflow.paused",
+                    timestamp: new Date(),
+                    runId,
+                    workflowId: workflow.id,
+                    stepId: step.id,
+                    data: { reason: "step", nextStepId },
+                });
+
+                return {
+                    runId,
+                    status: "paused",
+                    approval: {
+                        runId,
+                        stepId: step.id,
+                        prompt: `Step "${step.id}" finished. Continue with "${nextStepId}"?`,
+                        resumeToken,
+                        kind: "breakpoint",
+                    },
+                    completedSteps: Object.keys(state.stepResults),
+                    pendingSteps: steps.slice(currentIndex).map((s) => s.id),
+                    debug: {
+                        stepId: step.id,
+                        nextStepId,
+                        stepResult: result,
+                        variables: state.variables,
+                        stepResults: state.stepResults,
+                    },
+                };
+            }
         }
 
         // Workflow completed
@@ -872,6 +1725,136 @@ export class WorkflowExecutor {
         };
     }
 
+    /**
+     * Saga-style rollback: run the `compensate` action of every successfully
+     * completed step, including steps completed inside parallel branches and
+     * forEach bodies, most recently completed first. Compensation failures
+     * are recorded but do not stop the remaining compensations.
+     */
+    private async compensate(
+        workflow: typeof workflows.$inferSelect,
+        runId: string,
+        state: WorkflowRunState,
+        context: ExpressionContext,
+        options: StepExecutionOptions
+    ): Promise<string[]> {
+        const definition = workflow.definition as WorkflowDefinition;
+        const undo: Array<{
+            stepId: string;
+            label: string;
+            action: WorkflowStep;
+            completedAt: number;
+            record: (result: StepResult) => void;
+        }> = [];
+
+        for (const step of definition.steps) {
+            const stepResult = state.stepResults[step.id];
+            if (!stepResult) continue;
+
+            if (step.compensate && stepResult.status === "success") {
+                undo.push({
+                    stepId: step.id,
+                    label: step.id,
+                    action: step.compensate,
+                    completedAt: new Date(stepResult.completedAt).getTime(),
+                    record: (result) => {
+                        state.stepResults[step.id] = { ...state.stepResults[step.id], compensation: result };
+                    },
+                });
+            }
+
+            // Nested steps count even when their parallel or forEach step failed
+            for (const entry of stepResult.nestedCompensations ?? []) {
+                if (entry.result) continue;
+                undo.push({
+                    stepId: step.id,
+                    label: entry.path,
+                    action: entry.action,
+                    completedAt: new Date(entry.completedAt).getTime(),
+                    record: (result) => {
+                        entry.result = result;
+                    },
+                });
+            }
+        }
+        undo.sort((a, b) => b.completedAt - a.completedAt);
+
+        const compensatedSteps: string[] = [];
+
+        for (const { stepId, label, action, record } of undo) {
+            const executor = STEP_EXECUTORS[action.type];
+            const result = executor
+                ? await runStepWithPolicy(executor, action, context, options)
+                : {
+                    stepId: action.id,
+                    status: "failure" as const,
+                    error: `Unsupported compensation step type: ${action.type}`,
+                    startedAt: new Date(),
+                    completedAt: new Date(),
+                    duration: 0,
+                };
+
+            record(result);
+
+            if (result.status === "success") {
+                compensatedSteps.push(label);
+            } else {
+                console.error(`[Workflow] Compensation for step ${label} failed:`, result.error);
+            }
+
+            await this.emitEvent({
+                type: "step.compensated",
+                timestamp: new Date(),
+                runId,
+                workflowId: workflow.id,
+                stepId,
+                data: { status: result.status, error: result.error, ...(label !== stepId ? { path: label } : {}) },
+            });
+        }
+
+        return compensatedSteps;
+    }
+
+    /**
+     * Read the execution mode a run was started with
+     */
+    private runModeOf(run: typeof workflowRuns.$inferSelect): WorkflowRunMode {
+        return {
+            dryRun: run.dryRun,
+            stepMode: run.stepMode,
+            mocks: run.mocks ?? {},
+        };
+    }
+
+    /**
+     * Collect step outputs from the workflow's most recent completed live
+     * run, used to stand in for tool calls during a dry run
+     */
+    private async loadRecordedOutputs(workflowId: string): Promise<Record<string, unknown>> {
+        const [lastRun] = await db
+            .select({ stepResults: workflowRuns.stepResults })
+            .from(workflowRuns)
+            .where(
+                and(
+                    eq(workflowRuns.workflowId, workflowId),
+                    eq(workflowRuns.status, "completed"),
+                    eq(workflowRuns.dryRun, false)
+                )
+            )
+            .orderBy(desc(workflowRuns.completedAt))
+            .limit(1);
+
+        const outputs: Record<string, unknown> = {};
+        const results = (lastRun?.stepResults ?? {}) as Record<string, StepResult>;
+        for (const [stepId, result] of Object.entries(results)) {
+            if (result.status === "success" && !result.mocked) {
+                outputs[stepId] = result.output;
+            }
+        }
+
+        return outputs;
+    }
+
     /**
      * Find step index by ID
      */
@@ -880,7 +1863,21 @@ export class WorkflowExecutor {
     }
 
     /**
-     * Cancel a running workflow
+     * Check whether a run was cancelled while it was executing
+     */
+    private async isCancelled(runId: string): Promise<boolean> {
+        const [run] = await db
+            .select({ status: workflowRuns.status })
+            .from(workflowRuns)
+            .where(eq(workflowRuns.id, runId))
+            .limit(1);
+
+        return run?.status === "cancelled";
+    }
+
+    /**
+     * Cancel a running workflow, its sub-workflow runs, and any parent
+     * runs paused waiting on it
      */
     async cancel(runId: string): Promise<void> {
         const [run] = await db
@@ -904,6 +1901,58 @@ export class WorkflowExecutor {
                 completedAt: new Date(),
             })
             .where(eq(workflowRuns.id, runId));
+
+        await this.cancelChildRuns(runId);
+
+        if (run.parentRunId) {
+            await this.cancelWaitingParent(run.parentRunId);
+        }
+    }
+
+    /**
+     * Cancel active sub-workflow runs started by a run, recursively
+     */
+    private async cancelChildRuns(runId: string): Promise<void> {
+        const children = await db
+            .update(workflowRuns)
+            .set({
+                status: "cancelled",
+                completedAt: new Date(),
+            })
+            .where(
+                and(
+                    eq(workflowRuns.parentRunId, runId),
+                    inArray(workflowRuns.status, ["running", "paused"])
+                )
+            )
+            .returning({ id: workflowRuns.id });
+
+        for (const child of children) {
+            await this.cancelChildRuns(child.id);
+        }
+    }
+
+    /**
+     * Cancel a parent run paused on a sub-workflow, and its own waiting parents
+     */
+    private async cancelWaitingParent(parentRunId: string): Promise<void> {
+        const [parent] = await db
+            .update(workflowRuns)
+            .set({
+                status: "cancelled",
+                completedAt: new Date(),
+            })
+            .where(
+                and(
+                    eq(workflowRuns.id, parentRunId),
+                    eq(workflowRuns.status, "paused")
+                )
+            )
+            .returning({ parentRunId: workflowRuns.parentRunId });
+
+        if (parent?.parentRunId) {
+            await this.cancelWaitingParent(parent.parentRunId);
+        }
     }
 }
 
@@ -0,0 +1,147 @@
+/**
+ * Step Retries and Timeouts
+ *
+ * Retry policies and per-attempt timeouts for workflow steps. A timed-out
+ * attempt has its abort signal fired; only steps whose calls honor the
+ * signal retry timeouts by default, since retrying anything else could
+ * repeat a side effect that is still in flight.
+ */
+
+import type { StepErrorClass, StepResult, StepRetryPolicy, WorkflowStep } from "./types";
+
+const DEFAULT_RETRY_ON: StepErrorClass[] = ["rate_limit", "network", "server"];
+
+/** Step types whose calls are cancelled when an attempt times out */
+const ABORTABLE_STEP_TYPES: WorkflowStep["type"][] = ["llm"];
+
+/**
+ * Error classes a step retries when its policy does not list them
+ */
+export function defaultRetryOn(step: WorkflowStep): StepErrorClass[] {
+    return ABORTABLE_STEP_TYPES.includes(step.type)
+        ? [...DEFAULT_RETRY_ON, "timeout"]
+        : DEFAULT_RETRY_ON;
+}
+
+/**
+ * Classify a step error so retry policies can target transient failures
+ */
+export function classifyStepError(message: string): StepErrorClass {
+    const text = message.toLowerCase();
+
+    if (text.includes("timed out") || text.includes("timeout") || text.includes("etimedout")) {
+        return "timeout";
+    }
+    if (text.includes("rate limit") || text.includes("429") || text.includes("too many requests")) {
+        return "rate_limit";
+    }
+    if (/econnreset|econnrefused|enotfound|eai_again|socket hang up|fetch failed|network/.test(text)) {
+        return "network";
+    }
+    if (/\b5\d\d\b|internal server error|bad gateway|service unavailable/.test(text)) {
+        return "server";
+    }
+
+    return "unknown";
+}
+
+/**
+ * Delay before retrying after the given (1-based) attempt failed
+ */
+export function retryDelayMs(policy: StepRetryPolicy, attempt: number): number {
+    return Math.min(
+        (policy.initialDelayMs ?? 1000) * Math.pow(policy.backoffMultiplier ?? 2, attempt - 1),
+        policy.maxDelayMs ?? 30000
+    );
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function failedAttempt(step: WorkflowStep, startedAt: Date, error: string): StepResult {
+    return {
+        stepId: step.id,
+        status: "failure",
+        error,
+        startedAt,
+        completedAt: new Date(),
+        duration: Date.now() - startedAt.getTime(),
+    };
+}
+
+/**
+ * Run a single attempt, failing it and firing its abort signal once the
+ * step's timeout elapses. An aborted parent signal (an enclosing step that
+ * timed out) fails the attempt before it starts.
+ */
+export async function runAttempt(
+    step: WorkflowStep,
+    attempt: (signal: AbortSignal) => Promise<StepResult>,
+    parentSignal?: AbortSignal
+): Promise<StepResult> {
+    const startedAt = new Date();
+    if (parentSignal?.aborted) {
+        return failedAttempt(step, startedAt, "Cancelled because the enclosing step timed out");
+    }
+
+    const controller = new AbortController();
+    const signal = parentSignal ? AbortSignal.any([parentSignal, controller.signal]) : controller.signal;
+    if (!step.timeoutMs) {
+        return attempt(signal);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<StepResult>((resolve) => {
+        timer = setTimeout(() => {
+            const error = `Step timed out after ${step.timeoutMs}ms`;
+            controller.abort(new Error(error));
+            resolve(failedAttempt(step, startedAt, error));
+        }, step.timeoutMs);
+    });
+
+    try {
+        return await Promise.race([attempt(signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Run a step's attempts under its retry policy. Without a policy the step
+ * gets a single attempt and no attempt count.
+ */
+export async function runWithRetry(
+    step: WorkflowStep,
+    attempt: (signal: AbortSignal) => Promise<StepResult>,
+    options: {
+        signal?: AbortSignal;
+        onRetry?: (attempt: number, delayMs: number, error: string) => Promise<void>;
+    } = {}
+): Promise<StepResult> {
+    const policy = step.retry;
+    if (!policy) {
+        return runAttempt(step, attempt, options.signal);
+    }
+
+    const maxAttempts = Math.max(1, policy.maxAttempts);
+    const retryOn = policy.retryOn ?? defaultRetryOn(step);
+    let attempts = 1;
+    let result = await runAttempt(step, attempt, options.signal);
+
+    while (
+        result.status === "failure" &&
+        attempts < maxAttempts &&
+        !options.signal?.aborted &&
+        retryOn.includes(classifyStepError(result.error || ""))
+    ) {
+        const delayMs = retryDelayMs(policy, attempts);
+        await options.onRetry?.(attempts, delayMs, result.error || "");
+        await sleep(delayMs);
+
+        attempts++;
+        result = await runAttempt(step, attempt, options.signal);
+    }
+
+    return { ...result, attempts };
+}
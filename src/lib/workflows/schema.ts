@@ -0,0 +1,91 @@
+/**
+ * Workflow Schemas
+ *
+ * Request validation for workflow definitions, shared by the create and
+ * update endpoints so both accept the same steps and contracts.
+ */
+
+import { z } from "zod";
+
+export const workflowStepSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    type: z.enum(["tool", "llm", "condition", "approval", "transform", "parallel", "forEach", "workflow"]),
+    tool: z.string().optional(),
+    action: z.string().optional(),
+    args: z.record(z.string(), z.unknown()).optional(),
+    prompt: z.string().optional(),
+    model: z.string().optional(),
+    condition: z.string().optional(),
+    approval: z.object({
+        required: z.boolean(),
+        prompt: z.string(),
+        timeout: z.number().optional(),
+        items: z.array(z.unknown()).optional(),
+        channel: z.object({
+            channelType: z.string(),
+            chatId: z.string(),
+            approverIds: z.array(z.string()).optional(),
+        }).optional(),
+    }).optional(),
+    transform: z.object({
+        input: z.string(),
+        output: z.string(),
+        expression: z.string(),
+    }).optional(),
+    get parallel() {
+        return z.object({
+            branches: z.array(z.object({
+                id: z.string(),
+                steps: z.array(workflowStepSchema),
+            })).min(1),
+            continueOnBranchError: z.boolean().optional(),
+        }).optional();
+    },
+    get forEach() {
+        return z.object({
+            items: z.string(),
+            as: z.string().regex(/^\w+$/).optional(),
+            steps: z.array(workflowStepSchema).min(1),
+            concurrency: z.number().int().min(1).max(10).optional(),
+            continueOnItemError: z.boolean().optional(),
+        }).optional();
+    },
+    workflow: z.object({
+        workflowId: z.string().uuid(),
+        input: z.record(z.string(), z.unknown()).optional(),
+    }).optional(),
+    retry: z.object({
+        maxAttempts: z.number().int().min(1).max(10),
+        initialDelayMs: z.number().int().min(0).optional(),
+        backoffMultiplier: z.number().min(1).optional(),
+        maxDelayMs: z.number().int().min(0).optional(),
+        retryOn: z.array(z.enum(["timeout", "rate_limit", "network", "server", "unknown"])).optional(),
+    }).optional(),
+    timeoutMs: z.number().int().min(1).optional(),
+    get compensate() {
+        return workflowStepSchema.optional();
+    },
+    onSuccess: z.string().optional(),
+    onFailure: z.string().optional(),
+    continueOnError: z.boolean().optional(),
+});
+
+export const workflowDefinitionSchema = z.object({
+    version: z.string().default("1.0.0"),
+    steps: z.array(workflowStepSchema),
+    trigger: z.object({
+        type: z.enum(["manual", "schedule", "event"]),
+        config: z.record(z.string(), z.unknown()).optional(),
+    }).optional(),
+    variables: z.record(z.string(), z.unknown()).optional(),
+    input: z.object({
+        required: z.array(z.string()).optional(),
+        optional: z.array(z.string()).optional(),
+        schema: z.record(z.string(), z.unknown()).optional(),
+    }).optional(),
+    output: z.object({
+        type: z.string().optional(),
+        schema: z.record(z.string(), z.unknown()).optional(),
+    }).optional(),
+});
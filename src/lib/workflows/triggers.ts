@@ -0,0 +1,85 @@
+/**
+ * Workflow Triggers
+ *
+ * Starts saved workflows from event triggers and scheduled tasks. The
+ * trigger context is exposed to steps as `$trigger`, next to any static
+ * input configured on the trigger.
+ */
+
+import { db } from "@/lib/db";
+import { workflows } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { workflowExecutor } from "./executor";
+import { validateWorkflowInput } from "./contracts";
+import type { WorkflowDefinition, WorkflowExecutionResult } from "./types";
+
+export type WorkflowTriggerContext =
+    | {
+        type: "event";
+        triggerId: string;
+        triggerName: string;
+        sourceType: string;
+        payload: Record<string, unknown>;
+    }
+    | {
+        type: "schedule";
+        taskId: string;
+        taskName: string;
+        firedAt: string;
+        cron?: string;
+        timezone?: string;
+    };
+
+export interface StartTriggeredWorkflowOptions {
+    workflowId: string;
+    userId: string;
+    input?: Record<string, unknown>;
+    trigger: WorkflowTriggerContext;
+}
+
+/**
+ * Start an active workflow owned by the user with the trigger context as input
+ */
+export async function startTriggeredWorkflow(
+    options: StartTriggeredWorkflowOptions
+): Promise<WorkflowExecutionResult> {
+    const { workflowId, userId, trigger } = options;
+
+    const [workflow] = await db
+        .select()
+        .from(workflows)
+        .where(and(eq(workflows.id, workflowId), eq(workflows.userId, userId)))
+        .limit(1);
+
+    if (!workflow) {
+        throw new Error(`Workflow not found: ${workflowId}`);
+    }
+
+    if (workflow.status !== "active") {
+        throw new Error(`Workflow "${workflow.name}" is not active (status: ${workflow.status})`);
+    }
+
+    const input: Record<string, unknown> = { ...options.input, trigger };
+    const errors = validateWorkflowInput(workflow.definition as WorkflowDefinition, input);
+    if (errors.length > 0) {
+        throw new Error(`Invalid input for workflow "${workflow.name}": ${errors.join("; ")}`);
+    }
+
+    return workflowExecutor.execute({ workflowId, userId, input });
+}
+
+/**
+ * Summarize a triggered run for trigger logs and task state
+ */
+export function describeWorkflowResult(result: WorkflowExecutionResult): string {
+    switch (result.status) {
+        case "completed":
+            return typeof result.output === "string"
+                ? result.output
+                : JSON.stringify(result.output ?? null);
+        case "paused":
+            return `Workflow run ${result.runId} is waiting for approval`;
+        default:
+            return `Workflow run ${result.runId} ${result.status}`;
+    }
+}
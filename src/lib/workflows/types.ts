@@ -9,7 +9,35 @@
 // Workflow Definition Types
 // ============================================================================
 
-export type StepType = "tool" | "llm" | "condition" | "approval" | "transform";
+export type StepType =
+    | "tool"
+    | "llm"
+    | "condition"
+    | "approval"
+    | "transform"
+    | "parallel"
+    | "forEach"
+    | "workflow";
+
+export type StepErrorClass =
+    | "timeout"
+    | "rate_limit"
+    | "network"
+    | "server"
+    | "unknown";
+
+export interface StepRetryPolicy {
+    maxAttempts: number; // Total attempts, including the first
+    initialDelayMs?: number; // Delay before the first retry (default: 1000)
+    backoffMultiplier?: number; // Delay growth per attempt (default: 2)
+    maxDelayMs?: number; // Upper bound for a single delay (default: 30000)
+    retryOn?: StepErrorClass[]; // Error classes worth retrying (default: rate_limit, network, server; llm steps also timeout)
+}
+
+export interface ParallelBranch {
+    id: string;
+    steps: WorkflowStep[];
+}
 
 export interface WorkflowStep {
     id: string;
@@ -34,6 +62,12 @@ export interface WorkflowStep {
         prompt: string;
         timeout?: number; // Timeout in milliseconds
         items?: unknown[]; // Items to show for approval
+        channel?: {
+            // Also ask in a chat, with Approve/Reject buttons
+            channelType: string;
+            chatId: string;
+            approverIds?: string[]; // Empty means anyone in the chat
+        };
     };
 
     // Transform step
@@ -43,6 +77,32 @@ export interface WorkflowStep {
         expression: string; // Transform expression
     };
 
+    // Parallel step: branches run concurrently, each branch runs its steps in order
+    parallel?: {
+        branches: ParallelBranch[];
+        continueOnBranchError?: boolean; // Succeed even if some branches fail
+    };
+
+    // ForEach step: runs nested steps once per item of an array
+    forEach?: {
+        items: string; // Expression resolving to an array, e.g. "$search.output.results"
+        as?: string; // Item variable name, accessible as $<as> (default: "item")
+        steps: WorkflowStep[];
+        concurrency?: number; // Max items processed at once (default: 1)
+        continueOnItemError?: boolean;
+    };
+
+    // Sub-workflow step: runs another saved workflow, output exposed as $stepId.result
+    workflow?: {
+        workflowId: string;
+        input?: Record<string, unknown>; // Values may reference the caller, e.g. "$summarize.output"
+    };
+
+    // Resilience
+    retry?: StepRetryPolicy;
+    timeoutMs?: number; // Hard limit per attempt; LLM calls are aborted, tool calls cannot be
+    compensate?: WorkflowStep; // Undo action, run in reverse order if a later step fails the workflow
+
     // Flow control
     onSuccess?: string; // Next step ID on success
     onFailure?: string; // Next step ID on failure
@@ -100,11 +160,28 @@ export interface StepResult {
     status: "success" | "failure" | "skipped";
     output?: unknown;
     error?: string;
+    childRunId?: string; // Run started by a sub-workflow step
+    attempts?: number; // Set when a retry policy applied
+    compensation?: StepResult; // Result of the step's compensate action, if it ran
+    nestedCompensations?: NestedCompensation[]; // Undo actions of steps completed inside parallel or forEach
+    mocked?: "mock" | "recorded" | "stub"; // Set when a dry run stubbed the step
     startedAt: Date;
     completedAt: Date;
     duration: number;
 }
 
+/**
+ * Compensate action of a step that completed inside a parallel branch or
+ * forEach body, bound to the arguments of that run so it can be undone
+ * after the nested context is gone
+ */
+export interface NestedCompensation {
+    path: string; // e.g. "notify.email.send" (parallel) or "invite[2].send" (forEach)
+    action: WorkflowStep;
+    completedAt: Date;
+    result?: StepResult; // Set once the action ran
+}
+
 export interface WorkflowRunState {
     currentStepIndex: number;
     currentStepId: string | null;
@@ -129,6 +206,11 @@ export interface WorkflowRun {
     output?: unknown;
     error?: string;
     resumeToken?: string;
+    parentRunId?: string;
+    parentStepId?: string;
+    depth: number;
+    dryRun: boolean;
+    stepMode: boolean;
     startedAt?: Date;
     pausedAt?: Date;
     completedAt?: Date;
@@ -159,6 +241,7 @@ export interface ApprovalRequest {
     items?: unknown[];
     resumeToken: string;
     expiresAt?: Date;
+    kind?: "approval" | "breakpoint"; // "breakpoint" pauses come from step mode
 }
 
 export interface ApprovalResponse {
@@ -175,13 +258,39 @@ export interface ExecuteWorkflowOptions {
     workflowId: string;
     userId: string;
     input?: Record<string, unknown>;
-    dryRun?: boolean;
+    dryRun?: boolean; // Stub tool steps instead of calling them
+    mocks?: Record<string, unknown>; // Dry-run outputs by step ID; "<stepId>.<childStepId>" reaches into sub-workflows
+    stepMode?: boolean; // Pause after every executed step
+    parentRunId?: string; // Set when started by a sub-workflow step
+    parentStepId?: string;
 }
 
 export interface ResumeWorkflowOptions {
     resumeToken: string;
     approved: boolean;
     comment?: string;
+    stepMode?: boolean; // Switch step mode on or off when continuing
+}
+
+/**
+ * How a run executes: dry runs stub side effects, step mode pauses after
+ * every step so the run state can be inspected
+ */
+export interface WorkflowRunMode {
+    dryRun: boolean;
+    stepMode: boolean;
+    mocks: Record<string, unknown>;
+}
+
+/**
+ * Run state returned when step mode pauses after a step
+ */
+export interface WorkflowDebugSnapshot {
+    stepId: string;
+    nextStepId: string;
+    stepResult: StepResult;
+    variables: Record<string, unknown>;
+    stepResults: Record<string, StepResult>;
 }
 
 export interface WorkflowExecutionResult {
@@ -192,6 +301,8 @@ export interface WorkflowExecutionResult {
     approval?: ApprovalRequest;
     completedSteps: string[];
     pendingSteps: string[];
+    compensatedSteps?: string[];
+    debug?: WorkflowDebugSnapshot; // Set when step mode paused the run
 }
 
 // ============================================================================
@@ -221,6 +332,8 @@ export type WorkflowEventType =
     | "step.completed"
     | "step.failed"
     | "step.skipped"
+    | "step.retrying"
+    | "step.compensated"
     | "approval.requested"
     | "approval.received";
 
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import type { ProviderId } from "@/lib/ai/providers/types";
+import { toolPolicySchema } from "@/lib/tools/types";
 
 // ============================================================================
 // Agent Configuration Types
@@ -27,6 +28,9 @@ export type OrchestrationMode =
     | "parallel"       // Agents respond simultaneously
     | "hierarchical"   // Coordinator delegates to specialists
     | "consensus"      // Multiple agents, synthesized response
+    | "debate"         // Two agents argue positions, a judge rules
+    | "critique"       // Author drafts, reviewer critiques until approval
+    | "graph"          // User-defined agent graph
     | "auto"           // System selects optimal mode
 
 /**
@@ -34,6 +38,7 @@ export type OrchestrationMode =
  */
 export type AgentTool =
     | "web_search"     // Search the internet
+    | "http_request"   // Call external HTTP APIs
     | "code_exec"      // Execute shell commands (alias for shell_exec)
     | "file_read"      // Read files from local system
     | "file_write"     // Write files to local system
@@ -60,11 +65,11 @@ export const agentRoleSchema = z.enum([
 ]);
 
 export const orchestrationModeSchema = z.enum([
-    "single", "sequential", "parallel", "hierarchical", "consensus", "auto"
+    "single", "sequential", "parallel", "hierarchical", "consensus", "debate", "critique", "graph", "auto"
 ]);
 
 export const agentToolSchema = z.enum([
-    "web_search", "code_exec", "file_read", "file_write",
+    "web_search", "http_request", "code_exec", "file_read", "file_write",
     "file_list", "file_search", "file_delete", "file_move",
     "shell_exec", "rag_search", "calculator",
     "coding_cli", "email", "workflow", "skill", "custom"
@@ -85,6 +90,7 @@ export const agentConfigSchema = z.object({
     maxTokens: z.number().min(1).max(200000).optional(),
     thinkingBudget: z.number().min(1024).max(100000).optional(), // Extended thinking budget for Anthropic
     tools: z.array(agentToolSchema).default([]),
+    toolPolicy: toolPolicySchema.optional(), // Limits on tool arguments and credentials
     geminiStoreIds: z.array(z.string().uuid()).optional(),
     canSeeOtherAgents: z.boolean().default(true),
     priority: z.number().min(0).max(100).default(50), // For ordering in sequential mode
@@ -113,11 +119,61 @@ export const orchestrationConfigSchema = z.object({
     mode: orchestrationModeSchema.default("single"),
     agents: z.array(agentConfigSchema).default([]),
     coordinatorAgentId: z.string().uuid().optional(), // For hierarchical mode
-    maxRounds: z.number().min(1).max(10).default(3), // For consensus mode
+    agentGraphId: z.string().uuid().optional(), // For graph mode
+    maxRounds: z.number().min(1).max(10).default(3), // For consensus, debate and critique modes
     timeout: z.number().min(1000).max(300000).default(60000), // ms
     enableDebug: z.boolean().default(false),
 });
 
+// ============================================================================
+// Agent Graphs
+// ============================================================================
+
+/** Edge target that finishes the run */
+export const AGENT_GRAPH_END = "end";
+
+const agentGraphNodeIdSchema = z.string().min(1).max(40)
+    .regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and _, starting with a letter");
+
+/**
+ * When an edge is taken, tested against the reply of the node it leaves.
+ * Handoff edges are taken when the agent calls the edge's handoff tool.
+ */
+export const agentGraphConditionSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("always") }),
+    z.object({
+        type: z.literal("contains"),
+        value: z.string().min(1).max(200),
+        negate: z.boolean().default(false),
+    }),
+    z.object({
+        type: z.literal("regex"),
+        pattern: z.string().min(1).max(500),
+        negate: z.boolean().default(false),
+    }),
+    z.object({
+        type: z.literal("handoff"),
+        description: z.string().max(500).optional(), // Shown to the agent as the tool description
+    }),
+]);
+
+export const agentGraphDefinitionSchema = z.object({
+    entry: agentGraphNodeIdSchema,
+    nodes: z.array(z.object({
+        id: agentGraphNodeIdSchema,
+        agentId: z.string().uuid(),
+        instructions: z.string().max(4000).optional(), // Added to the agent's system prompt
+        maxVisits: z.number().int().min(1).max(10).default(2),
+    })).min(1).max(20),
+    // Edges leaving a node are tried in order; the first match wins
+    edges: z.array(z.object({
+        from: agentGraphNodeIdSchema,
+        to: agentGraphNodeIdSchema, // A node ID or "end"
+        when: agentGraphConditionSchema.default({ type: "always" }),
+    })).max(60),
+    maxSteps: z.number().int().min(1).max(20).default(10),
+});
+
 // ============================================================================
 // Inferred Types
 // ============================================================================
@@ -125,6 +181,8 @@ export const orchestrationConfigSchema = z.object({
 export type AgentConfig = z.infer<typeof agentConfigSchema>;
 export type AgentTemplate = z.infer<typeof agentTemplateSchema>;
 export type OrchestrationConfig = z.infer<typeof orchestrationConfigSchema>;
+export type AgentGraphCondition = z.infer<typeof agentGraphConditionSchema>;
+export type AgentGraphDefinition = z.infer<typeof agentGraphDefinitionSchema>;
 
 // ============================================================================
 // Default Configurations
@@ -0,0 +1,107 @@
+import { test, expect } from "@playwright/test";
+import { matchesGraphCondition, validateAgentGraph } from "@/lib/agents/graph-definition";
+import { agentGraphDefinitionSchema, type AgentGraphDefinition } from "@/types/agent";
+
+const AGENT_ID = "7f9c2d3e-1b4a-4c5d-8e6f-0a1b2c3d4e5f";
+
+/** A graph through the schema, so defaults are filled in as when saved */
+function graph(input: {
+  entry?: string;
+  nodes?: string[];
+  edges?: Array<{ from: string; to: string; when?: Record<string, unknown> }>;
+}): AgentGraphDefinition {
+  return agentGraphDefinitionSchema.parse({
+    entry: input.entry ?? "triage",
+    nodes: (input.nodes ?? ["triage", "billing", "support"]).map((id) => ({ id, agentId: AGENT_ID })),
+    edges: input.edges ?? [
+      { from: "triage", to: "billing", when: { type: "contains", value: "invoice" } },
+      { from: "triage", to: "support", when: { type: "handoff" } },
+      { from: "billing", to: "end" },
+      { from: "support", to: "end" },
+    ],
+  });
+}
+
+test.describe("validateAgentGraph", () => {
+  test("accepts a connected graph", () => {
+    expect(validateAgentGraph(graph({}))).toEqual([]);
+  });
+
+  test("rejects the reserved end ID and duplicate nodes", () => {
+    const errors = validateAgentGraph(graph({
+      nodes: ["triage", "end", "triage"],
+      edges: [{ from: "triage", to: "end" }],
+    }));
+
+    expect(errors).toEqual([
+      "\"end\" is reserved and cannot be a node ID",
+      "Duplicate node ID \"triage\"",
+    ]);
+  });
+
+  test("reports a missing entry without also reporting every node as unreachable", () => {
+    expect(validateAgentGraph(graph({ entry: "start" }))).toEqual(["Entry node \"start\" does not exist"]);
+  });
+
+  test("reports edges between unknown nodes", () => {
+    const errors = validateAgentGraph(graph({
+      nodes: ["triage"],
+      edges: [
+        { from: "triage", to: "sales" },
+        { from: "ghost", to: "end" },
+      ],
+    }));
+
+    expect(errors).toEqual([
+      "Edge 1 (triage → sales) leads to an unknown node",
+      "Edge 2 (ghost → end) starts at an unknown node",
+    ]);
+  });
+
+  test("rejects invalid patterns and handoffs that cannot become tools", () => {
+    const errors = validateAgentGraph(graph({
+      nodes: ["triage", "billing"],
+      edges: [
+        { from: "triage", to: "billing", when: { type: "regex", pattern: "inv(oice" } },
+        { from: "triage", to: "billing", when: { type: "handoff" } },
+        { from: "triage", to: "billing", when: { type: "handoff", description: "Again" } },
+        { from: "billing", to: "end", when: { type: "handoff" } },
+      ],
+    }));
+
+    expect(errors).toEqual([
+      "Edge 1 (triage → billing) has an invalid pattern",
+      "Edge 3 (triage → billing) duplicates a handoff",
+      "Edge 4 (billing → end) cannot hand off to \"end\"",
+    ]);
+  });
+
+  test("reports nodes the entry cannot reach", () => {
+    const errors = validateAgentGraph(graph({
+      edges: [
+        { from: "triage", to: "end" },
+        { from: "billing", to: "support" },
+      ],
+    }));
+
+    expect(errors).toEqual([
+      "Node \"billing\" cannot be reached from \"triage\"",
+      "Node \"support\" cannot be reached from \"triage\"",
+    ]);
+  });
+});
+
+test.describe("matchesGraphCondition", () => {
+  test("matches replies by substring or pattern, optionally negated", () => {
+    expect(matchesGraphCondition({ type: "always" }, "")).toBe(true);
+    expect(matchesGraphCondition({ type: "contains", value: "INVOICE", negate: false }, "About my invoice")).toBe(true);
+    expect(matchesGraphCondition({ type: "contains", value: "invoice", negate: true }, "About my invoice")).toBe(false);
+    expect(matchesGraphCondition({ type: "regex", pattern: "^refund\\b", negate: false }, "Refund please")).toBe(true);
+    expect(matchesGraphCondition({ type: "regex", pattern: "^refund\\b", negate: true }, "Refund please")).toBe(false);
+  });
+
+  test("never takes handoff edges or invalid patterns from the reply", () => {
+    expect(matchesGraphCondition({ type: "handoff" }, "anything")).toBe(false);
+    expect(matchesGraphCondition({ type: "regex", pattern: "(", negate: true }, "anything")).toBe(false);
+  });
+});
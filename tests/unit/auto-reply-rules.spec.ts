@@ -0,0 +1,232 @@
+import { test, expect } from "@playwright/test";
+import {
+  RuleEvaluator,
+  detectLanguage,
+  findMatchingRule,
+  getRuleCondition,
+  type AutoReplyRule,
+  type ConditionTrace,
+  type RuleCondition,
+  type RuleContext,
+  type RuleLookups,
+} from "@/lib/channels/rule-conditions";
+import type { ChannelMessage } from "@/lib/channels/base";
+
+function message(overrides: Partial<ChannelMessage> = {}): ChannelMessage {
+  return {
+    id: "msg-1",
+    channelType: "telegram",
+    channelId: "chat-1",
+    content: "Hi, what is the price of the pro plan?",
+    contentType: "text",
+    sender: { id: "tg-42", name: "Ada" },
+    timestamp: new Date("2026-03-04T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+/** Lookups that count their calls instead of touching the database or a model */
+function lookups() {
+  const calls = { contactTags: 0, isFirstMessage: 0, classifyIntent: 0 };
+  const fake: RuleLookups = {
+    contactTags: async () => {
+      calls.contactTags++;
+      return ["VIP"];
+    },
+    isFirstMessage: async () => {
+      calls.isFirstMessage++;
+      return true;
+    },
+    classifyIntent: async () => {
+      calls.classifyIntent++;
+      return "pricing";
+    },
+  };
+  return { fake, calls };
+}
+
+function evaluator(overrides: Partial<RuleContext> = {}, fake = lookups().fake): RuleEvaluator {
+  return new RuleEvaluator({ userId: "user-1", channelAccountId: "account-1", message: message(), ...overrides }, fake);
+}
+
+function rule(overrides: Partial<AutoReplyRule> = {}): AutoReplyRule {
+  return {
+    id: "rule-1",
+    userId: "user-1",
+    channelAccountId: null,
+    name: "Rule",
+    priority: 0,
+    isEnabled: true,
+    triggerType: "all",
+    triggerPattern: null,
+    triggerConfig: null,
+    actionType: "reply",
+    actionConfig: null,
+    maxTriggersPerHour: null,
+    cooldownSeconds: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function conditions(tree: RuleCondition): AutoReplyRule {
+  return rule({ triggerType: "conditions", triggerConfig: tree });
+}
+
+test.describe("RuleEvaluator primitives", () => {
+  test("matches any or all keywords, ignoring case", async () => {
+    const rules = evaluator();
+
+    expect(await rules.evaluate({ type: "keyword", keywords: ["PRICE", "refund"] })).toBe(true);
+    expect(await rules.evaluate({ type: "keyword", keywords: ["price", "refund"], match: "all" })).toBe(false);
+    expect(await rules.evaluate({ type: "keyword", keywords: ["price", "pro plan"], match: "all" })).toBe(true);
+  });
+
+  test("matches regexes case-insensitively unless flags are given", async () => {
+    const rules = evaluator();
+
+    expect(await rules.evaluate({ type: "regex", pattern: "PRO\\s+plan" })).toBe(true);
+    expect(await rules.evaluate({ type: "regex", pattern: "PRO\\s+plan", flags: "" })).toBe(false);
+    expect(await rules.evaluate({ type: "regex", pattern: "(" })).toBe(false);
+  });
+
+  test("matches senders by id or name", async () => {
+    const rules = evaluator();
+
+    expect(await rules.evaluate({ type: "sender", senders: ["tg-42"] })).toBe(true);
+    expect(await rules.evaluate({ type: "sender", senders: ["Ada"] })).toBe(true);
+    expect(await rules.evaluate({ type: "sender", senders: ["tg-7"] })).toBe(false);
+  });
+
+  test("checks time windows in the rule's timezone, wrapping midnight", async () => {
+    // 23:30 in Berlin on a Wednesday
+    const rules = evaluator({ now: new Date("2026-03-04T22:30:00Z") });
+
+    expect(await rules.evaluate({ type: "time", startHour: 22, endHour: 6, timezone: "Europe/Berlin" })).toBe(true);
+    expect(await rules.evaluate({ type: "time", startHour: 9, endHour: 17, timezone: "Europe/Berlin" })).toBe(false);
+    expect(await rules.evaluate({ type: "time", startHour: 22, endHour: 6, days: [3], timezone: "Europe/Berlin" })).toBe(true);
+    expect(await rules.evaluate({ type: "time", startHour: 22, endHour: 6, days: [0, 6], timezone: "Europe/Berlin" })).toBe(false);
+    expect(await rules.evaluate({ type: "time", startHour: 8, endHour: 8, timezone: "Europe/Berlin" })).toBe(true);
+  });
+
+  test("matches attachments by type and mime prefix", async () => {
+    const withPdf = evaluator({
+      message: message({
+        attachments: [{ type: "file", url: "https://files.test/a.pdf", name: "a.pdf", size: 10, mimeType: "application/pdf" }],
+      }),
+    });
+
+    expect(await withPdf.evaluate({ type: "attachment" })).toBe(true);
+    expect(await withPdf.evaluate({ type: "attachment", attachmentTypes: ["image"] })).toBe(false);
+    expect(await withPdf.evaluate({ type: "attachment", mimeTypes: ["application/"] })).toBe(true);
+    expect(await evaluator().evaluate({ type: "attachment" })).toBe(false);
+  });
+
+  test("matches the detected language", async () => {
+    const spanish = evaluator({ message: message({ content: "Hola, ¿cuál es el precio para la empresa?" }) });
+
+    expect(await spanish.evaluate({ type: "language", languages: ["ES"] })).toBe(true);
+    expect(await spanish.evaluate({ type: "language", languages: ["en"] })).toBe(false);
+  });
+});
+
+test.describe("RuleEvaluator trees", () => {
+  test("combines conditions with and, or and not", async () => {
+    const rules = evaluator();
+
+    expect(await rules.evaluate({
+      type: "and",
+      conditions: [
+        { type: "keyword", keywords: ["price"] },
+        { type: "not", condition: { type: "sender", senders: ["tg-42"] } },
+      ],
+    })).toBe(false);
+    expect(await rules.evaluate({
+      type: "or",
+      conditions: [
+        { type: "keyword", keywords: ["refund"] },
+        { type: "not", condition: { type: "attachment" } },
+      ],
+    })).toBe(true);
+  });
+
+  test("tries cheap checks before model calls and records a trace", async () => {
+    const { fake, calls } = lookups();
+    const trace: ConditionTrace[] = [];
+
+    const matched = await evaluator({}, fake).evaluate({
+      type: "and",
+      conditions: [
+        { type: "intent", intents: ["pricing"] },
+        { type: "keyword", keywords: ["refund"] },
+      ],
+    }, trace);
+
+    expect(matched).toBe(false);
+    expect(calls.classifyIntent).toBe(0);
+    expect(trace).toEqual([
+      { path: "0.1", type: "keyword", result: false },
+      { path: "0", type: "and", result: false },
+    ]);
+  });
+
+  test("looks up tags, first messages and intents once per message", async () => {
+    const { fake, calls } = lookups();
+    const rules = evaluator({}, fake);
+
+    expect(await rules.evaluate({ type: "contact_tag", tags: ["vip"] })).toBe(true);
+    expect(await rules.evaluate({ type: "contact_tag", tags: ["churned"] })).toBe(false);
+    expect(await rules.evaluate({ type: "first_message" })).toBe(true);
+    expect(await rules.evaluate({ type: "first_message" })).toBe(true);
+    expect(await rules.evaluate({ type: "intent", intents: ["Pricing", "support"] })).toBe(true);
+    expect(await rules.evaluate({ type: "intent", intents: ["support", "pricing"] })).toBe(true);
+    expect(await rules.evaluate({ type: "intent", intents: ["support"] })).toBe(false);
+
+    expect(calls).toEqual({ contactTags: 1, isFirstMessage: 1, classifyIntent: 2 });
+  });
+});
+
+test.describe("getRuleCondition", () => {
+  test("converts legacy single triggers", () => {
+    expect(getRuleCondition(rule({ triggerType: "keyword", triggerPattern: "price, refund ," })))
+      .toEqual({ type: "keyword", keywords: ["price", "refund"] });
+    expect(getRuleCondition(rule({ triggerType: "sender", triggerPattern: "tg-42, Ada" })))
+      .toEqual({ type: "sender", senders: ["tg-42", "Ada"] });
+    expect(getRuleCondition(rule({ triggerType: "time", triggerConfig: { startHour: 18, endHour: 8 } })))
+      .toEqual({ type: "time", startHour: 18, endHour: 8 });
+    expect(getRuleCondition(rule({ triggerType: "time", triggerConfig: { startHour: 18 } }))).toEqual({ type: "all" });
+  });
+
+  test("rejects triggers that cannot match", () => {
+    expect(getRuleCondition(rule({ triggerType: "keyword" }))).toBeNull();
+    expect(getRuleCondition(rule({ triggerType: "regex", triggerPattern: "(" }))).toBeNull();
+    expect(getRuleCondition(rule({ triggerType: "conditions", triggerConfig: { type: "keyword", keywords: [] } }))).toBeNull();
+    expect(getRuleCondition(rule({ triggerType: "webhook" }))).toBeNull();
+  });
+});
+
+test.describe("findMatchingRule", () => {
+  test("returns the first enabled rule for this account that matches", async () => {
+    const rules = [
+      conditions({ type: "keyword", keywords: ["discount"] }),
+      rule({ id: "disabled", isEnabled: false }),
+      rule({ id: "other-account", channelAccountId: "account-2" }),
+      rule({ id: "refund", triggerType: "keyword", triggerPattern: "refund" }),
+      rule({ id: "catch-all" }),
+    ];
+
+    expect((await findMatchingRule(rules, evaluator()))?.id).toBe("catch-all");
+    expect((await findMatchingRule(rules, evaluator({ channelAccountId: "account-2" })))?.id).toBe("other-account");
+    expect(await findMatchingRule(rules.slice(0, 4), evaluator())).toBeNull();
+  });
+});
+
+test.describe("detectLanguage", () => {
+  test("guesses from script or common words", () => {
+    expect(detectLanguage("こんにちは")).toBe("ja");
+    expect(detectLanguage("Привет, как дела?")).toBe("ru");
+    expect(detectLanguage("Bonjour, je voudrais une facture pour avril")).toBe("fr");
+    expect(detectLanguage("12345 !!")).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect } from "@playwright/test";
+import { contactVariables, renderTemplate } from "@/lib/channels/broadcast-template";
+
+function contact(overrides: Partial<Parameters<typeof contactVariables>[0]> = {}) {
+  return {
+    name: "Ada King Lovelace",
+    email: "ada@example.org",
+    phone: null,
+    company: "Analytical Engines",
+    role: null,
+    ...overrides,
+  };
+}
+
+test.describe("renderTemplate", () => {
+  test("substitutes placeholders, tolerating spaces inside the braces", () => {
+    expect(renderTemplate("Hi {{firstName}}, welcome to {{ company }}!", { firstName: "Ada", company: "Acme" }))
+      .toBe("Hi Ada, welcome to Acme!");
+    expect(renderTemplate("{{promo.code}} / {{promo.code}}", { "promo.code": "SPRING" })).toBe("SPRING / SPRING");
+  });
+
+  test("empties unknown variables and leaves other braces alone", () => {
+    expect(renderTemplate("Hi {{firstName}}{{missing}}!", { firstName: "Ada" })).toBe("Hi Ada!");
+    expect(renderTemplate("Use {curly} or {{ not a var }}", {})).toBe("Use {curly} or {{ not a var }}");
+  });
+});
+
+test.describe("contactVariables", () => {
+  test("splits the name and skips empty fields", () => {
+    expect(contactVariables(contact(), null)).toEqual({
+      name: "Ada King Lovelace",
+      firstName: "Ada",
+      lastName: "King Lovelace",
+      email: "ada@example.org",
+      company: "Analytical Engines",
+    });
+  });
+
+  test("lets the contact's own fields override broadcast defaults", () => {
+    const variables = contactVariables(contact({ name: "  Grace  ", company: null }), {
+      company: "your company",
+      promo: "SPRING",
+      firstName: "there",
+    });
+
+    expect(variables).toMatchObject({ firstName: "Grace", company: "your company", promo: "SPRING" });
+    expect(variables.lastName).toBeUndefined();
+    expect(renderTemplate("Hi {{firstName}} at {{company}}, code {{promo}}", variables))
+      .toBe("Hi Grace at your company, code SPRING");
+  });
+});
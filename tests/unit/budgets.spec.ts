@@ -0,0 +1,89 @@
+import { test, expect } from "@playwright/test";
+import { budgetNotice, evaluateBudgets, toBudgetStatus, type BudgetRecord } from "@/lib/ai/budgets";
+
+function budget(overrides: Partial<BudgetRecord> = {}): BudgetRecord {
+  return {
+    id: "budget-1",
+    feature: "all",
+    setBy: "user",
+    monthlyLimitCents: 1000,
+    warnAtPercent: 80,
+    hardStop: true,
+    ...overrides,
+  };
+}
+
+test.describe("toBudgetStatus", () => {
+  test("measures spending against the limit", () => {
+    const status = toBudgetStatus(budget(), 250);
+
+    expect(status.percent).toBe(25);
+    expect(status.exceeded).toBe(false);
+    expect(status.limitCents).toBe(1000);
+  });
+
+  test("counts reaching the limit exactly as exceeded", () => {
+    expect(toBudgetStatus(budget(), 1000).exceeded).toBe(true);
+    expect(toBudgetStatus(budget(), 1500).percent).toBe(150);
+  });
+
+  test("treats a zero limit as used up", () => {
+    const status = toBudgetStatus(budget({ monthlyLimitCents: 0 }), 0);
+
+    expect(status.percent).toBe(100);
+    expect(status.exceeded).toBe(true);
+  });
+});
+
+test.describe("evaluateBudgets", () => {
+  test("allows calls while no budget is used up", () => {
+    expect(evaluateBudgets([])).toEqual({ allowed: true });
+    expect(evaluateBudgets([toBudgetStatus(budget(), 999)])).toEqual({ allowed: true });
+  });
+
+  test("blocks on an exceeded hard-stop budget and explains why", () => {
+    const overall = toBudgetStatus(budget(), 200);
+    const multiAgent = toBudgetStatus(budget({ id: "budget-2", feature: "multi_agent", monthlyLimitCents: 500 }), 512);
+
+    const check = evaluateBudgets([overall, multiAgent]);
+
+    expect(check.allowed).toBe(false);
+    expect(check.budget?.id).toBe("budget-2");
+    expect(check.message).toBe(
+      "Monthly AI budget for multi agent reached ($5.12 of $5.00). It resets at the start of next month."
+    );
+  });
+
+  test("never blocks on a warn-only budget", () => {
+    const check = evaluateBudgets([toBudgetStatus(budget({ hardStop: false }), 5000)]);
+
+    expect(check).toEqual({ allowed: true });
+  });
+});
+
+test.describe("budgetNotice", () => {
+  test("sends nothing below the warning threshold", () => {
+    expect(budgetNotice(toBudgetStatus(budget(), 799))).toBeNull();
+  });
+
+  test("warns once the threshold is passed", () => {
+    const notice = budgetNotice(toBudgetStatus(budget({ feature: "chat" }), 856));
+
+    expect(notice).toEqual({
+      kind: "warning",
+      title: "85% of your monthly AI budget for chat used",
+      body: "$8.56 of $10.00 spent this month.",
+    });
+  });
+
+  test("reports an exceeded budget instead of warning", () => {
+    const stopped = budgetNotice(toBudgetStatus(budget(), 1000));
+    const warnOnly = budgetNotice(toBudgetStatus(budget({ hardStop: false }), 1000));
+
+    expect(stopped?.kind).toBe("exceeded");
+    expect(stopped?.title).toBe("Monthly AI budget reached");
+    expect(stopped?.body).toContain("paused until next month");
+    expect(warnOnly?.kind).toBe("exceeded");
+    expect(warnOnly?.body).toBe("$10.00 of $10.00 spent this month.");
+  });
+});
@@ -0,0 +1,221 @@
+import { test, expect } from "@playwright/test";
+import { readResponse } from "@/lib/channels/email/imap";
+import {
+  SmtpClient,
+  buildMimeMessage,
+  encodeData,
+  isValidAddress,
+  type OutgoingEmail,
+} from "@/lib/channels/email/smtp";
+import { parseMessage } from "@/lib/documents/processors/email";
+
+function crlf(...lines: string[]): Buffer {
+  return Buffer.from(lines.map((line) => `${line}\r\n`).join(""), "latin1");
+}
+
+function email(overrides: Partial<OutgoingEmail> = {}): OutgoingEmail {
+  return {
+    from: "agent@example.com",
+    to: ["ada@example.org"],
+    subject: "Re: Invoice",
+    text: "Thanks, attached.",
+    messageId: "reply-1@example.com",
+    ...overrides,
+  };
+}
+
+test.describe("IMAP readResponse", () => {
+  test("reads a plain response line", () => {
+    const next = readResponse(crlf("* SEARCH 4 7 9", "A1 OK done"));
+
+    expect(next).toMatchObject({ response: { text: "* SEARCH 4 7 9", literals: [] }, consumed: 16 });
+  });
+
+  test("waits for a complete line", () => {
+    expect(readResponse(Buffer.from("* 1 FETCH (UID 4", "latin1"))).toBeNull();
+  });
+
+  test("collects a literal and the rest of the response after it", () => {
+    const message = "Subject: Hi\r\n\r\nBody with ) and {3}\r\n";
+    const length = Buffer.byteLength(message);
+    const buffer = Buffer.concat([
+      Buffer.from(`* 1 FETCH (UID 4 BODY[] {${length}}\r\n${message})\r\n`, "latin1"),
+      crlf("A2 OK FETCH completed"),
+    ]);
+
+    const next = readResponse(buffer);
+    if (!next || "needed" in next) throw new Error("expected a complete response");
+
+    expect(next.response.text).toBe(`* 1 FETCH (UID 4 BODY[] {${length}})`);
+    expect(next.response.literals.map((literal) => literal.toString("latin1"))).toEqual([message]);
+    expect(buffer.subarray(next.consumed).toString("latin1")).toBe("A2 OK FETCH completed\r\n");
+  });
+
+  test("counts literal lengths in bytes, not characters", () => {
+    const subject = Buffer.from("Grüße 👋", "utf8");
+    const buffer = Buffer.concat([
+      Buffer.from(`* 2 FETCH (BODY[HEADER.FIELDS (SUBJECT)] {${subject.length}}\r\n`, "latin1"),
+      subject,
+      Buffer.from(")\r\n", "latin1"),
+    ]);
+
+    const next = readResponse(buffer);
+    if (!next || "needed" in next) throw new Error("expected a complete response");
+
+    expect(next.response.literals[0].toString("utf8")).toBe("Grüße 👋");
+    expect(next.consumed).toBe(buffer.length);
+  });
+
+  test("reports how many bytes an incomplete literal needs", () => {
+    const head = "* 1 FETCH (BODY[] {100}\r\n";
+    const next = readResponse(Buffer.from(`${head}partial`, "latin1"));
+
+    expect(next).toEqual({ needed: head.length + 100 });
+  });
+
+  test("reads several literals in one response", () => {
+    const buffer = crlf("* 3 FETCH (BODY[1] {2}", "ab BODY[2] {3}", "cde)");
+
+    const next = readResponse(buffer);
+    if (!next || "needed" in next) throw new Error("expected a complete response");
+
+    expect(next.response.literals.map((literal) => literal.toString())).toEqual(["ab", "cde"]);
+  });
+});
+
+test.describe("SMTP encodeData", () => {
+  test("normalizes line endings, dot-stuffs and terminates the message", () => {
+    expect(encodeData("Hello\n.hidden\n..two\nend")).toBe("Hello\r\n..hidden\r\n...two\r\nend\r\n.");
+    expect(encodeData("Hello\r\n")).toBe("Hello\r\n.");
+  });
+
+  test("does not stuff dots in the middle of a line", () => {
+    expect(encodeData("1.5 kg\r\n")).toBe("1.5 kg\r\n.");
+  });
+});
+
+test.describe("SMTP addresses", () => {
+  test("accepts plain addr-specs only", () => {
+    expect(isValidAddress("ada.lovelace+billing@mail.example.org")).toBe(true);
+    expect(isValidAddress("ops@localhost")).toBe(true);
+    expect(isValidAddress("ada@example.org>\r\nRCPT TO:<eve@evil.test")).toBe(false);
+    expect(isValidAddress("ada@example.org\nBcc: eve@evil.test")).toBe(false);
+    expect(isValidAddress("ada @example.org")).toBe(false);
+    expect(isValidAddress("\"ada\"@example.org")).toBe(false);
+    expect(isValidAddress("ada@-example.org")).toBe(false);
+    expect(isValidAddress("ada..b@example.org")).toBe(false);
+  });
+
+  test("sendMail rejects an injected recipient before writing any command", async () => {
+    const client = new SmtpClient({ host: "smtp.example.com", port: 465, secure: true, username: "u", password: "p" });
+
+    await expect(client.sendMail("agent@example.com", ["ada@example.org>\r\nDATA"], "Hi"))
+      .rejects.toThrow("Invalid email address");
+    await expect(client.sendMail("agent@example.com\r\n", ["ada@example.org"], "Hi"))
+      .rejects.toThrow("Invalid email address");
+  });
+
+  test("refuses to build headers around an injected address", () => {
+    expect(() => buildMimeMessage(email({ to: ["ada@example.org\r\nBcc: eve@evil.test"] })))
+      .toThrow("Invalid email address");
+    expect(() => buildMimeMessage(email({ inReplyTo: "orig@example.org>\r\nBcc: eve@evil.test" })))
+      .toThrow("Invalid Message-ID");
+  });
+});
+
+test.describe("MIME messages", () => {
+  test("parses folded headers and encoded words", () => {
+    const parsed = parseMessage(crlf(
+      "Subject: =?UTF-8?B?R3LDvMOfZQ==?=",
+      " =?UTF-8?Q?_aus_K=C3=B6ln?=",
+      "References: <a@example.com>",
+      "\t<b@example.com>",
+      "Content-Type: text/plain;",
+      " charset=\"utf-8\"",
+      "",
+      "Hallo",
+    ));
+
+    expect(parsed.headers.subject).toBe("Grüße aus Köln");
+    expect(parsed.headers.references).toBe("<a@example.com> <b@example.com>");
+    expect(parsed.bodies).toEqual(["Hallo"]);
+  });
+
+  test("builds a plain message that round-trips with threading headers", () => {
+    const raw = buildMimeMessage(email({
+      fromName: "Support Bot",
+      subject: "Re: Zahlung für März",
+      text: "Line one\nLine two",
+      inReplyTo: "<orig@example.org>",
+      references: ["root@example.org", "<orig@example.org>"],
+    }));
+    const parsed = parseMessage(Buffer.from(raw, "latin1"));
+
+    expect(raw).not.toContain("\n\n");
+    expect(raw).not.toMatch(/[^\r]\n/);
+    expect(parsed.headers.from).toBe("\"Support Bot\" <agent@example.com>");
+    expect(parsed.headers.subject).toBe("Re: Zahlung für März");
+    expect(parsed.headers["message-id"]).toBe("<reply-1@example.com>");
+    expect(parsed.headers["in-reply-to"]).toBe("<orig@example.org>");
+    expect(parsed.headers.references).toBe("<root@example.org> <orig@example.org>");
+    expect(parsed.headers["auto-submitted"]).toBe("auto-replied");
+    expect(parsed.bodies).toEqual(["Line one\nLine two"]);
+    expect(parsed.attachments).toEqual([]);
+  });
+
+  test("builds multipart messages whose attachments survive parsing", () => {
+    const pdf = Buffer.alloc(300, 0xff);
+    pdf.write("%PDF-1.7", "latin1");
+    const raw = buildMimeMessage(email({
+      attachments: [
+        { filename: "rechnung-märz.pdf", contentType: "application/pdf", content: pdf },
+        { filename: "notes \"draft\".txt", contentType: "text/plain", content: Buffer.from("a\r\n.b\r\n") },
+      ],
+    }));
+    const parsed = parseMessage(Buffer.from(raw, "latin1"));
+
+    expect(raw.split("\r\n").every((line) => line.length <= 998)).toBe(true);
+    expect(parsed.bodies).toEqual(["Thanks, attached."]);
+    expect(parsed.attachments).toHaveLength(2);
+    expect(parsed.attachments[0]).toMatchObject({ filename: "rechnung-märz.pdf", contentType: "application/pdf" });
+    expect(parsed.attachments[0].content.equals(pdf)).toBe(true);
+    expect(parsed.attachments[1]).toMatchObject({ filename: "notes draft.txt", contentType: "text/plain" });
+    expect(parsed.attachments[1].content.toString()).toBe("a\r\n.b\r\n");
+  });
+
+  test("parses multipart/alternative and attachments from other mailers", () => {
+    const parsed = parseMessage(crlf(
+      "Subject: Report",
+      "Content-Type: multipart/mixed; boundary=\"outer\"",
+      "",
+      "--outer",
+      "Content-Type: multipart/alternative; boundary=inner",
+      "",
+      "--inner",
+      "Content-Type: text/html; charset=utf-8",
+      "",
+      "<p>HTML version</p>",
+      "--inner",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Plain ver=",
+      "sion =E2=9C=93",
+      "--inner--",
+      "--outer",
+      "Content-Type: application/octet-stream",
+      "Content-Disposition: attachment;",
+      " filename*0*=utf-8''%C3%BCber;",
+      " filename*1=\"sicht.csv\"",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("a,b\n1,2\n").toString("base64"),
+      "--outer--",
+    ));
+
+    expect(parsed.bodies).toEqual(["Plain version ✓"]);
+    expect(parsed.attachments).toHaveLength(1);
+    expect(parsed.attachments[0].filename).toBe("übersicht.csv");
+    expect(parsed.attachments[0].content.toString()).toBe("a,b\n1,2\n");
+  });
+});
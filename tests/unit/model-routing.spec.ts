@@ -0,0 +1,136 @@
+import { test, expect } from "@playwright/test";
+import { PgDialect } from "drizzle-orm/pg-core";
+import {
+  chooseCandidate,
+  healthyModels,
+  labelSample,
+  predictCandidates,
+  pricePriors,
+  similarSamplesQuery,
+  toNeighbors,
+  type Neighbor,
+} from "@/lib/agents/route-prediction";
+import type { ModelStats } from "@/lib/agents/routing";
+import type { ModelConfig } from "@/lib/ai/providers/types";
+
+function model(id: string, input: number, output: number): ModelConfig {
+  return {
+    id,
+    name: id,
+    provider: "openai",
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    capabilities: ["text"],
+    pricing: { input, output },
+  };
+}
+
+const mini = model("mini", 0.15, 0.6);
+const large = model("large", 2.5, 10);
+const models = [mini, large];
+const costs = new Map([["mini", 0.0003], ["large", 0.005]]);
+
+/** Past replies from one model to prompts close to the current one */
+function similar(modelId: string, label: number, count = 4): Neighbor[] {
+  return Array.from({ length: count }, () => ({ model: modelId, similarity: 0.92, label }));
+}
+
+function pick(neighbors: Neighbor[], tier: "budget" | "balanced" = "budget") {
+  return chooseCandidate(predictCandidates(models, neighbors, new Map(), costs), tier);
+}
+
+test.describe("similarSamplesQuery", () => {
+  const query = () => new PgDialect().sqlToQuery(
+    similarSamplesQuery("user-1", { embedding: [0.1, 0.2, 0.3], model: "openai/text-embedding-3-small" }, ["mini", "large"])
+  );
+
+  test("binds the candidate models as one array parameter", () => {
+    const { sql, params } = query();
+
+    expect(sql).toMatch(/s\.model = ANY\(\$\d+::text\[\]\)/);
+    expect(sql).toContain("vector(3)");
+    expect(params).toContainEqual(["mini", "large"]);
+    expect(params).not.toContain("mini");
+  });
+
+  test("only searches the user's own samples", () => {
+    const { sql, params } = query();
+
+    expect(sql).toMatch(/s\.user_id = \$\d+/);
+    expect(params).toContain("user-1");
+  });
+});
+
+test.describe("labelSample", () => {
+  test("scores replies by how they were received", () => {
+    expect(labelSample({ error: false, feedback: "up", regenerated: null })).toBe(1);
+    expect(labelSample({ error: false, feedback: "down", regenerated: null })).toBe(0);
+    expect(labelSample({ error: true, feedback: "up", regenerated: null })).toBe(0);
+    expect(labelSample({ error: false, feedback: null, regenerated: true })).toBe(0.3);
+    expect(labelSample({ error: false, feedback: null, regenerated: null })).toBe(0.7);
+  });
+
+  test("drops weakly similar samples and parses driver strings", () => {
+    const neighbors = toNeighbors([
+      { model: "mini", similarity: "0.81", error: false, feedback: "up", regenerated: null },
+      { model: "large", similarity: 0.3, error: false, feedback: "up", regenerated: null },
+    ]);
+
+    expect(neighbors).toEqual([{ model: "mini", similarity: 0.81, label: 1 }]);
+  });
+});
+
+test.describe("pricePriors", () => {
+  test("spreads priors by price and is neutral for a single model", () => {
+    const priors = pricePriors(models);
+
+    expect(priors.get("mini")).toBeCloseTo(0.5);
+    expect(priors.get("large")).toBeCloseTo(0.85);
+    expect(pricePriors([mini]).get("mini")).toBe(0.7);
+  });
+});
+
+test.describe("healthyModels", () => {
+  test("skips failing or slow models that have enough calls", () => {
+    const stats = new Map<string, ModelStats>([
+      ["mini", { calls: 20, errorRate: 0.4, latencyMs: 800 }],
+      ["large", { calls: 20, errorRate: 0.01, latencyMs: 9000 }],
+    ]);
+
+    expect(healthyModels(models, stats).map((m) => m.id)).toEqual(["large"]);
+    expect(healthyModels(models, stats, 5000)).toEqual([]);
+    expect(healthyModels(models, new Map([["mini", { calls: 2, errorRate: 1 }]]))).toEqual(models);
+  });
+});
+
+test.describe("chooseCandidate", () => {
+  test("falls back to the pricier model without history", () => {
+    const { chosen, byCost } = pick([]);
+
+    expect(chosen.modelId).toBe("large");
+    expect(byCost.map((c) => c.modelId)).toEqual(["mini", "large"]);
+  });
+
+  test("picks the cheaper model once it has done well on similar prompts", () => {
+    const { chosen, reason } = pick(similar("mini", 1));
+
+    expect(chosen.modelId).toBe("mini");
+    expect(chosen.samples).toBe(4);
+    expect(reason).toContain("cheapest model predicted to reach the budget tier");
+  });
+
+  test("thumbs down on similar prompts moves the pick away from a model", () => {
+    const before = pick(similar("mini", 0.7));
+    const after = pick([...similar("mini", 0.7, 1), ...similar("mini", 0, 3)]);
+
+    expect(before.chosen.modelId).toBe("mini");
+    expect(after.chosen.modelId).toBe("large");
+  });
+
+  test("uses the best predicted model when none reaches the tier", () => {
+    const { chosen, reason } = pick([...similar("mini", 0), ...similar("large", 0)], "balanced");
+
+    expect(chosen.modelId).toBe("large");
+    expect(reason).toContain("No model is predicted to reach the balanced tier");
+  });
+});
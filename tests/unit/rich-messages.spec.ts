@@ -0,0 +1,117 @@
+import { test, expect } from "@playwright/test";
+import {
+  choiceCallbackId,
+  matchFallbackReply,
+  parseChoiceCallbackId,
+  prepareRichSend,
+  renderRichFallback,
+  richChoices,
+} from "@/lib/channels/rich";
+import type { ChannelConnector, RichMessage } from "@/lib/channels/base";
+
+const menu: RichMessage = {
+  blocks: [
+    {
+      type: "buttons",
+      buttons: [
+        { id: "yes", label: "Yes, book it" },
+        { id: "docs", label: "Read the docs", url: "https://docs.example.com" },
+        { id: "no", label: "No thanks" },
+      ],
+    },
+    {
+      type: "select",
+      id: "plan",
+      placeholder: "Pick a plan",
+      options: [
+        { value: "pro", label: "Pro" },
+        { value: "team", label: "Team" },
+      ],
+    },
+  ],
+};
+
+function poll(allowMultiple: boolean): RichMessage {
+  return { blocks: [{ type: "poll", id: "lunch", question: "Lunch?", options: ["Pizza", "Sushi", "Tacos"], allowMultiple }] };
+}
+
+function connector(supportsRichMessages: boolean, canRender = true): ChannelConnector {
+  return { supportsRichMessages, canRenderRich: () => canRender } as unknown as ChannelConnector;
+}
+
+test.describe("choice callback IDs", () => {
+  test("round-trip buttons, selects and polls", () => {
+    for (const choice of richChoices(menu).concat(richChoices(poll(false)))) {
+      const parsed = parseChoiceCallbackId(choiceCallbackId(choice));
+
+      expect(parsed.kind).toBe(choice.kind);
+      expect(parsed.buttonId).toBe(choice.actionId);
+      expect(parsed.values).toEqual(choice.kind === "button" ? undefined : [choice.value]);
+    }
+  });
+
+  test("keep colons inside option values", () => {
+    expect(choiceCallbackId({ kind: "select", actionId: "slot", value: "10:30" })).toBe("select:slot:10:30");
+    expect(parseChoiceCallbackId("select:slot:10:30")).toEqual({ kind: "select", buttonId: "slot", values: ["10:30"] });
+  });
+
+  test("treat unknown IDs as plain buttons", () => {
+    expect(parseChoiceCallbackId("approve_123")).toEqual({ kind: "button", buttonId: "approve_123" });
+    expect(parseChoiceCallbackId("select:")).toEqual({ kind: "button", buttonId: "select:" });
+  });
+});
+
+test.describe("renderRichFallback", () => {
+  test("numbers every choice and lists links separately", () => {
+    expect(renderRichFallback("Shall I book the demo?", menu)).toBe([
+      "Shall I book the demo?",
+      "Pick a plan",
+      "1. Yes, book it\n2. No thanks\n3. Pro\n4. Team\nReply with a number to choose.",
+      "Read the docs: https://docs.example.com",
+    ].join("\n\n"));
+  });
+
+  test("asks for several numbers in multi-answer polls", () => {
+    expect(renderRichFallback("", poll(true))).toBe(
+      "📊 Lunch?\n\n1. Pizza\n2. Sushi\n3. Tacos\nReply with one or more numbers (e.g. 1,3)."
+    );
+  });
+});
+
+test.describe("prepareRichSend", () => {
+  test("sends rich content only where the connector can render it", () => {
+    const options = { rich: menu };
+
+    expect(prepareRichSend(connector(true), "Book?", options)).toEqual({ content: "Book?", options: { rich: menu, buttons: undefined } });
+    expect(prepareRichSend(connector(false), "Book?", options).options?.rich).toBeUndefined();
+    expect(prepareRichSend(connector(true, false), "Book?", options).content).toContain("1. Yes, book it");
+    expect(prepareRichSend(connector(false), "Plain", {})).toEqual({ content: "Plain", options: {} });
+  });
+});
+
+test.describe("matchFallbackReply", () => {
+  test("picks a choice by number or label", () => {
+    expect(matchFallbackReply(menu, " 2 ")).toEqual({ buttonId: "no", kind: "button", values: undefined, label: "No thanks" });
+    expect(matchFallbackReply(menu, "team!")).toEqual({ buttonId: "plan", kind: "select", values: ["team"], label: "Team" });
+    expect(matchFallbackReply(menu, "yes book it")?.buttonId).toBe("yes");
+  });
+
+  test("ignores replies that are not a choice", () => {
+    expect(matchFallbackReply(menu, "5")).toBeNull();
+    expect(matchFallbackReply(menu, "0")).toBeNull();
+    expect(matchFallbackReply(menu, "Can I read the docs first?")).toBeNull();
+    expect(matchFallbackReply(menu, "   ")).toBeNull();
+    expect(matchFallbackReply({ blocks: [] }, "1")).toBeNull();
+  });
+
+  test("accepts several numbers only as votes in one multi-answer poll", () => {
+    expect(matchFallbackReply(poll(true), "1, 3 1")).toEqual({
+      buttonId: "lunch",
+      kind: "poll",
+      values: ["Pizza", "Tacos"],
+      label: "Pizza, Tacos",
+    });
+    expect(matchFallbackReply(poll(false), "1,3")).toBeNull();
+    expect(matchFallbackReply(menu, "1 3")).toBeNull();
+  });
+});
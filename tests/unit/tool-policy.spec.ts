@@ -0,0 +1,137 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { test, expect } from "@playwright/test";
+import { checkToolPolicy, checkUrlPolicy, isToolAllowed, scopeToolContext } from "@/lib/tools/policy";
+import type { ToolContext, ToolPolicy } from "@/lib/tools/types";
+
+function context(policy?: ToolPolicy, overrides: Partial<ToolContext> = {}): ToolContext {
+  return { userId: "user-1", agentId: "agent-1", policy, ...overrides };
+}
+
+test.describe("checkToolPolicy", () => {
+  test("allows everything without a policy", () => {
+    expect(checkToolPolicy("shell_exec", { command: "rm -rf /" })).toBeNull();
+    expect(checkToolPolicy("http_request", { url: "https://evil.test" }, context())).toBeNull();
+  });
+
+  test("denies tools outside allowedTools", () => {
+    const agent = context({ allowedTools: ["web_search", "http_request"] });
+
+    expect(checkToolPolicy("web_search", { query: "x" }, agent)).toBeNull();
+    expect(checkToolPolicy("shell_exec", { command: "ls" }, agent)).toBe("This agent is not allowed to use shell_exec.");
+  });
+
+  test("limits web tools to allowed hosts and their subdomains", () => {
+    const agent = context({ allowedHosts: ["example.com"] });
+
+    expect(checkToolPolicy("http_request", { url: "https://example.com/a" }, agent)).toBeNull();
+    expect(checkToolPolicy("url_fetch", { url: "https://api.example.com/b" }, agent)).toBeNull();
+    expect(checkToolPolicy("browser_automation", { action: "navigate", url: "https://example.com.evil.test" }, agent))
+      .toContain("may not reach example.com.evil.test");
+    expect(checkToolPolicy("http_request", { url: "https://notexample.com" }, agent)).toContain("may not reach");
+    expect(checkToolPolicy("http_request", { url: "not a url" }, agent)).toBe("Invalid URL: not a url");
+  });
+
+  test("confines file tools to allowed paths", () => {
+    const base = path.resolve("/srv/files");
+    const agent = context({ allowedPaths: ["reports"] }, { fileAccessBaseDir: base });
+
+    expect(checkToolPolicy("file_read", { path: path.join(base, "reports", "q3.md") }, agent)).toBeNull();
+    expect(checkToolPolicy("file_read", { path: path.join(base, "reports-old", "q3.md") }, agent)).toContain("may only use files");
+    expect(checkToolPolicy("file_move", {
+      source: path.join(base, "reports", "q3.md"),
+      destination: path.join(base, "..", "q3.md"),
+    }, agent)).toContain("may only use files");
+    expect(checkToolPolicy("shell_exec", { command: "cat reports/q3.md" }, agent)).toContain("cannot be confined");
+  });
+
+  test("follows symlinks out of allowed paths", () => {
+    const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "tool-policy-")));
+    try {
+      fs.mkdirSync(path.join(base, "reports"));
+      fs.mkdirSync(path.join(base, "secrets"));
+      fs.symlinkSync(path.join(base, "secrets"), path.join(base, "reports", "link"));
+      const agent = context({ allowedPaths: ["reports"] }, { fileAccessBaseDir: base });
+
+      expect(checkToolPolicy("file_read", { path: path.join(base, "reports", "link", "key.txt") }, agent))
+        .toContain("may only use files");
+      expect(checkToolPolicy("file_write", { path: path.join(base, "reports", "link", "new", "a.md") }, agent))
+        .toContain("may only use files");
+      expect(checkToolPolicy("file_write", { path: path.join(base, "reports", "new", "a.md") }, agent)).toBeNull();
+    } finally {
+      fs.rmSync(base, { recursive: true, force: true });
+    }
+  });
+
+  test("limits email recipients to allowed domains", () => {
+    const agent = context({ allowedEmailDomains: ["example.com"] });
+
+    expect(checkToolPolicy("email", { action: "send", to: "ada@example.com", cc: ["Bob <bob@sales.example.com>"] }, agent)).toBeNull();
+    expect(checkToolPolicy("email", { action: "send", to: "ada@example.com", bcc: "eve@evil.test" }, agent))
+      .toBe("This agent may only email example.com, not eve@evil.test.");
+    expect(checkToolPolicy("email", { action: "draft", to: ["a@example.com, b@example.org"] }, agent))
+      .toContain("not b@example.org");
+    expect(checkToolPolicy("email", { action: "list" }, agent)).toBeNull();
+  });
+
+  test("denies email actions whose recipients cannot be checked", () => {
+    const agent = context({ allowedEmailDomains: ["example.com"] });
+
+    expect(checkToolPolicy("email", { action: "reply", messageId: "m1" }, agent)).toContain("cannot use reply");
+    expect(checkToolPolicy("email", { action: "send_draft", draftId: "d1" }, agent)).toContain("cannot use send_draft");
+  });
+
+  test("denies integrations whose connection was not granted", () => {
+    const agent = context({ credentials: ["openai", "github"] });
+
+    expect(checkToolPolicy("github_integration", { action: "list_repos" }, agent)).toBeNull();
+    expect(checkToolPolicy("google_calendar", { action: "list_events" }, agent))
+      .toBe("This agent is not allowed to use the google connection.");
+  });
+});
+
+test.describe("checkUrlPolicy", () => {
+  test("checks redirect and navigation targets against allowed hosts", () => {
+    const policy = { allowedHosts: ["example.com"] };
+
+    expect(checkUrlPolicy("https://docs.example.com/page", policy)).toBeNull();
+    expect(checkUrlPolicy("http://169.254.169.254/latest/meta-data", policy)).toContain("may not reach 169.254.169.254");
+    expect(checkUrlPolicy("https://anywhere.test")).toBeNull();
+    expect(checkUrlPolicy("https://anywhere.test", { allowedTools: ["http_request"] })).toBeNull();
+  });
+});
+
+test.describe("scopeToolContext", () => {
+  test("passes only granted credentials to the tool", () => {
+    const scoped = scopeToolContext(context(
+      { credentials: ["openai"] },
+      { apiKeys: { openai: "sk-openai", perplexity: "pplx-key", google: "g-token" } }
+    ));
+
+    expect(scoped?.apiKeys).toEqual({ openai: "sk-openai" });
+    expect(scoped?.userId).toBe("user-1");
+  });
+
+  test("leaves the context alone when credentials are not restricted", () => {
+    const original = context({ allowedTools: ["web_search"] }, { apiKeys: { openai: "sk-openai" } });
+
+    expect(scopeToolContext(original)).toBe(original);
+    expect(scopeToolContext(undefined)).toBeUndefined();
+  });
+
+  test("an empty grant removes every key", () => {
+    const scoped = scopeToolContext(context({ credentials: [] }, { apiKeys: { openai: "sk-openai" } }));
+
+    expect(scoped?.apiKeys).toEqual({});
+  });
+});
+
+test.describe("isToolAllowed", () => {
+  test("offers every tool unless allowedTools is set", () => {
+    expect(isToolAllowed("shell_exec")).toBe(true);
+    expect(isToolAllowed("shell_exec", { allowedHosts: ["example.com"] })).toBe(true);
+    expect(isToolAllowed("shell_exec", { allowedTools: ["web_search"] })).toBe(false);
+    expect(isToolAllowed("skill", { allowedTools: ["skill"] })).toBe(true);
+  });
+});
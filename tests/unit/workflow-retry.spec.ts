@@ -0,0 +1,156 @@
+import { test, expect } from "@playwright/test";
+import {
+  classifyStepError,
+  defaultRetryOn,
+  retryDelayMs,
+  runAttempt,
+  runWithRetry,
+} from "@/lib/workflows/retry";
+import type { StepResult, WorkflowStep } from "@/lib/workflows/types";
+
+function step(overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id: "send", name: "Send", type: "tool", tool: "email", ...overrides };
+}
+
+function result(status: StepResult["status"], error?: string): StepResult {
+  const now = new Date();
+  return { stepId: "send", status, error, startedAt: now, completedAt: now, duration: 0 };
+}
+
+/** An attempt function that answers from a script, one entry per call */
+function scripted(outcomes: StepResult[]) {
+  const calls: AbortSignal[] = [];
+  const attempt = async (signal: AbortSignal) => {
+    calls.push(signal);
+    return outcomes[Math.min(calls.length - 1, outcomes.length - 1)];
+  };
+  return { attempt, calls };
+}
+
+test.describe("classifyStepError", () => {
+  test("recognizes transient error classes", () => {
+    expect(classifyStepError("Step timed out after 500ms")).toBe("timeout");
+    expect(classifyStepError("429 Too Many Requests")).toBe("rate_limit");
+    expect(classifyStepError("fetch failed: ECONNRESET")).toBe("network");
+    expect(classifyStepError("HubSpot returned 503 Service Unavailable")).toBe("server");
+    expect(classifyStepError("Invalid recipient")).toBe("unknown");
+  });
+});
+
+test.describe("retryDelayMs", () => {
+  test("backs off exponentially up to the cap", () => {
+    const policy = { maxAttempts: 5, initialDelayMs: 100, backoffMultiplier: 3, maxDelayMs: 1000 };
+    expect(retryDelayMs(policy, 1)).toBe(100);
+    expect(retryDelayMs(policy, 2)).toBe(300);
+    expect(retryDelayMs(policy, 3)).toBe(900);
+    expect(retryDelayMs(policy, 4)).toBe(1000);
+  });
+});
+
+test.describe("defaultRetryOn", () => {
+  test("retries timeouts only for steps whose calls are aborted", () => {
+    expect(defaultRetryOn(step({ type: "tool" }))).not.toContain("timeout");
+    expect(defaultRetryOn(step({ type: "workflow" }))).not.toContain("timeout");
+    expect(defaultRetryOn(step({ type: "llm" }))).toContain("timeout");
+  });
+});
+
+test.describe("runWithRetry", () => {
+  test("retries transient failures until an attempt succeeds", async () => {
+    const { attempt, calls } = scripted([
+      result("failure", "fetch failed"),
+      result("failure", "502 Bad Gateway"),
+      result("success"),
+    ]);
+    const retries: number[] = [];
+
+    const outcome = await runWithRetry(
+      step({ retry: { maxAttempts: 5, initialDelayMs: 1 } }),
+      attempt,
+      { onRetry: async (n) => { retries.push(n); } }
+    );
+
+    expect(outcome.status).toBe("success");
+    expect(outcome.attempts).toBe(3);
+    expect(calls).toHaveLength(3);
+    expect(retries).toEqual([1, 2]);
+  });
+
+  test("stops at maxAttempts", async () => {
+    const { attempt, calls } = scripted([result("failure", "rate limit exceeded")]);
+
+    const outcome = await runWithRetry(step({ retry: { maxAttempts: 2, initialDelayMs: 1 } }), attempt);
+
+    expect(outcome.status).toBe("failure");
+    expect(outcome.attempts).toBe(2);
+    expect(calls).toHaveLength(2);
+  });
+
+  test("does not retry errors outside retryOn", async () => {
+    const { attempt, calls } = scripted([result("failure", "Invalid recipient")]);
+
+    const outcome = await runWithRetry(step({ retry: { maxAttempts: 3, initialDelayMs: 1 } }), attempt);
+
+    expect(outcome.attempts).toBe(1);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("does not resend a tool step that timed out", async () => {
+    let calls = 0;
+    const slowSend = async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      return result("success");
+    };
+
+    const outcome = await runWithRetry(
+      step({ timeoutMs: 20, retry: { maxAttempts: 3, initialDelayMs: 1 } }),
+      slowSend
+    );
+
+    expect(outcome.status).toBe("failure");
+    expect(outcome.error).toContain("timed out");
+    expect(calls).toBe(1);
+  });
+
+  test("retries a timed-out llm step after aborting the attempt", async () => {
+    const signals: AbortSignal[] = [];
+    const attempt = (signal: AbortSignal) => {
+      signals.push(signal);
+      if (signals.length > 1) return Promise.resolve(result("success"));
+      return new Promise<StepResult>(() => {});
+    };
+
+    const outcome = await runWithRetry(
+      step({ type: "llm", timeoutMs: 20, retry: { maxAttempts: 2, initialDelayMs: 1 } }),
+      attempt
+    );
+
+    expect(outcome.status).toBe("success");
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+});
+
+test.describe("runAttempt", () => {
+  test("fails without calling the step when the enclosing step was aborted", async () => {
+    const parent = new AbortController();
+    parent.abort();
+    const { attempt, calls } = scripted([result("success")]);
+
+    const outcome = await runAttempt(step(), attempt, parent.signal);
+
+    expect(outcome.status).toBe("failure");
+    expect(calls).toHaveLength(0);
+  });
+
+  test("passes an aborted enclosing step on to a running attempt", async () => {
+    const parent = new AbortController();
+    const { attempt, calls } = scripted([result("success")]);
+
+    await runAttempt(step(), attempt, parent.signal);
+    parent.abort();
+
+    expect(calls[0].aborted).toBe(true);
+  });
+});